@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { Clones } from "@openzeppelin/contracts/proxy/Clones.sol";
+import { AuctionInstance } from "./AuctionInstance.sol";
+import { AuctionGovernance } from "./AuctionGovernance.sol";
+import { CategoryRegistry } from "./CategoryRegistry.sol";
+
+// Deploys every auction as its own EIP-1167 minimal-proxy clone of a single
+// AuctionInstance implementation, and keeps a registry of the clones by
+// creator and by category. Clones are cheap to deploy and isolated from
+// each other; the factory never holds bids or funds. Categories come from
+// the CategoryRegistry, and every clone is governed by the factory's
+// AuctionGovernance, which also stops new clones while paused.
+contract AuctionFactory {
+    // AuctionInstance every clone delegates to
+    address public immutable implementation;
+
+    // Source of valid category IDs for createAuction
+    CategoryRegistry public immutable categoryRegistry;
+
+    // Roles and pause switch, passed on to every clone
+    AuctionGovernance public immutable governance;
+
+    address[] internal auctions;
+    mapping(address => address[]) internal creatorAuctions;
+    mapping(uint256 => address[]) internal categoryAuctions;
+    mapping(address => bool) public isAuction;
+
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    event AuctionDeployed(
+        uint256 indexed index,
+        address indexed auction,
+        address indexed creator,
+        uint256 categoryId
+    );
+
+    constructor(address _implementation, CategoryRegistry _categoryRegistry, AuctionGovernance _governance) {
+        require(_implementation != address(0), "Implementation cannot be zero");
+        require(address(_categoryRegistry) != address(0), "Category registry cannot be zero");
+        require(address(_governance) != address(0), "Governance cannot be zero");
+        implementation = _implementation;
+        categoryRegistry = _categoryRegistry;
+        governance = _governance;
+    }
+
+    /**
+     * @notice Deploy and initialize a new auction clone owned by msg.sender
+     * @param _categoryId ID of an enabled CategoryRegistry category
+     * @param _startTime When bidding opens; 0 opens it immediately
+     * @param _duration Bidding window in seconds; 0 uses the default (7 days)
+     * @return auction Address of the new clone
+     */
+    function createAuction(
+        string memory _title,
+        string memory _description,
+        uint256 _categoryId,
+        uint256 _minimumBid,
+        uint256 _startTime,
+        uint256 _duration
+    ) external returns (address auction) {
+        require(!governance.paused(), "Auctions are paused");
+        require(categoryRegistry.isValidCategory(_categoryId), "Invalid category");
+
+        auction = Clones.clone(implementation);
+        AuctionInstance(auction).initialize(
+            msg.sender,
+            governance,
+            _title,
+            _description,
+            _categoryId,
+            _minimumBid,
+            _startTime,
+            _duration
+        );
+
+        auctions.push(auction);
+        creatorAuctions[msg.sender].push(auction);
+        categoryAuctions[_categoryId].push(auction);
+        isAuction[auction] = true;
+
+        emit AuctionDeployed(auctions.length - 1, auction, msg.sender, _categoryId);
+    }
+
+    function getAuctionCount() external view returns (uint256) {
+        return auctions.length;
+    }
+
+    /**
+     * @notice Clone addresses in deployment order, `_limit` at a time
+     */
+    function getAuctions(uint256 _offset, uint256 _limit) external view returns (address[] memory) {
+        require(_limit > 0 && _limit <= MAX_PAGE_SIZE, "Invalid page size");
+        if (_offset >= auctions.length) {
+            return new address[](0);
+        }
+
+        uint256 end = _offset + _limit;
+        if (end > auctions.length) {
+            end = auctions.length;
+        }
+
+        address[] memory page = new address[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = auctions[i];
+        }
+        return page;
+    }
+
+    function getAuctionsByCreator(address _creator) external view returns (address[] memory) {
+        return creatorAuctions[_creator];
+    }
+
+    function getAuctionsByCategory(uint256 _categoryId) external view returns (address[] memory) {
+        return categoryAuctions[_categoryId];
+    }
+}
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { AccessControl } from "@openzeppelin/contracts/access/AccessControl.sol";
+import { Pausable } from "@openzeppelin/contracts/utils/Pausable.sol";
+
+// Roles and the circuit breaker for the auction contracts. Auctions point
+// at a governance contract instead of inheriting these, which keeps
+// ConfidentialAuction under the contract size limit and lets one admin
+// pause every auction contract that shares it.
+//
+// Roles:
+//   DEFAULT_ADMIN_ROLE (ADMIN)  grants and revokes roles, pauses, recovers stray ETH
+//   MODERATOR_ROLE              cancels fraudulent listings with full refunds
+//   KEEPER_ROLE                 re-requests settlement decryptions
+contract AuctionGovernance is AccessControl, Pausable {
+    bytes32 public constant MODERATOR_ROLE = keccak256("MODERATOR_ROLE");
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
+    constructor() {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    }
+
+    /**
+     * @notice Stop new auctions, bids and bid raises; admin only
+     * @dev Refunds, proceeds, bid withdrawals and settlement keep working
+     */
+    function pause() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        _pause();
+    }
+
+    function unpause() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+
+    function isAdmin(address _account) public view returns (bool) {
+        return hasRole(DEFAULT_ADMIN_ROLE, _account);
+    }
+
+    function isModerator(address _account) public view returns (bool) {
+        return hasRole(MODERATOR_ROLE, _account);
+    }
+
+    function isKeeper(address _account) public view returns (bool) {
+        return hasRole(KEEPER_ROLE, _account);
+    }
+}
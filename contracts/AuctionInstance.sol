@@ -0,0 +1,345 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool, eaddress } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { Initializable } from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import { AuctionGovernance } from "./AuctionGovernance.sol";
+
+// A single first-price sealed-bid auction, deployed by AuctionFactory as an
+// EIP-1167 clone. Each listing has its own storage and ETH escrow, so a
+// fault in one cannot reach the others. Bidding and settlement follow
+// ConfidentialAuction: encrypted bids, an encrypted leader, and an oracle
+// reveal of the winner once bidding ends. Clones share the factory's
+// AuctionGovernance: no bids while it is paused, moderators cancel
+// fraudulent listings and keepers re-request dropped settlements.
+contract AuctionInstance is Initializable {
+    using FHE for euint64;
+
+    struct Auction {
+        string title;
+        string description;
+        uint256 categoryId; // CategoryRegistry ID, validated by the factory
+        uint256 minimumBid;
+        address creator;
+        uint256 timestamp;
+        bool isActive;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 bidCount;
+        euint64 highestBidAmount;
+        eaddress encryptedHighestBidder;
+        address highestBidder; // Revealed winner, address(0) until revealed
+        uint256 winningBid;    // Revealed winning bid, 0 until revealed
+    }
+
+    uint256 public constant DEFAULT_DURATION = 7 days;
+    uint256 public constant MIN_DURATION = 1 hours;
+    uint256 public constant MAX_DURATION = 30 days;
+    uint256 public constant MAX_START_DELAY = 30 days;
+
+    // Factory that deployed this clone
+    address public factory;
+
+    // Roles and pause switch, shared with the factory
+    AuctionGovernance public governance;
+
+    Auction internal auction;
+
+    mapping(address => bool) public hasUserBid;
+    mapping(address => euint64) internal bids;
+
+    // Escrowed ETH: each bidder's deposit until refunded, and the creator's
+    // proceeds once the winner is revealed
+    mapping(address => uint256) public bidDeposits;
+    uint256 public proceeds;
+
+    // Open settlement decryption requests; a retry adds another
+    mapping(uint256 => bool) private settlementRequests;
+    bool public settlementPending;
+
+    // Cancelled by a moderator; every deposit is refundable in full
+    bool public cancelled;
+
+    event BidPlaced(
+        address indexed bidder,
+        uint256 timestamp
+    );
+
+    event AuctionEnded(
+        address winner,
+        uint256 winningBid
+    );
+
+    event SettlementRequested(
+        uint256 requestId
+    );
+
+    event WinnerRevealed(
+        address indexed winner,
+        uint256 winningBid
+    );
+
+    event RefundWithdrawn(
+        address indexed bidder,
+        uint256 amount
+    );
+
+    event ProceedsClaimed(
+        address indexed creator,
+        uint256 amount
+    );
+
+    event AuctionCancelled(
+        address indexed cancelledBy
+    );
+
+    // The implementation itself is never used as an auction
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Set up a freshly cloned auction; called once by the factory
+     * @dev Clones skip constructors, so the FHEVM config that SepoliaConfig
+     *      would set in its constructor is set here instead
+     * @param _creator Account that created the auction through the factory
+     * @param _governance The factory's AuctionGovernance
+     * @param _startTime When bidding opens; 0 opens it immediately
+     * @param _duration Bidding window in seconds; 0 uses DEFAULT_DURATION
+     */
+    function initialize(
+        address _creator,
+        AuctionGovernance _governance,
+        string memory _title,
+        string memory _description,
+        uint256 _categoryId,
+        uint256 _minimumBid,
+        uint256 _startTime,
+        uint256 _duration
+    ) external initializer {
+        require(bytes(_title).length > 0, "Title cannot be empty");
+        require(bytes(_description).length > 0, "Description cannot be empty");
+        require(_minimumBid > 0, "Minimum bid must be greater than 0");
+
+        uint256 startTime = _startTime == 0 ? block.timestamp : _startTime;
+        uint256 duration = _duration == 0 ? DEFAULT_DURATION : _duration;
+        require(startTime >= block.timestamp, "Start time is in the past");
+        require(startTime <= block.timestamp + MAX_START_DELAY, "Start time too far in the future");
+        require(duration >= MIN_DURATION, "Duration too short");
+        require(duration <= MAX_DURATION, "Duration too long");
+
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        FHE.setDecryptionOracle(ZamaConfig.getSepoliaOracleAddress());
+
+        euint64 initialHighestBid = FHE.asEuint64(0);
+        FHE.allowThis(initialHighestBid);
+
+        eaddress initialHighestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(initialHighestBidder);
+
+        factory = msg.sender;
+        governance = _governance;
+        auction = Auction({
+            title: _title,
+            description: _description,
+            categoryId: _categoryId,
+            minimumBid: _minimumBid,
+            creator: _creator,
+            timestamp: block.timestamp,
+            isActive: true,
+            startTime: startTime,
+            endTime: startTime + duration,
+            bidCount: 0,
+            highestBidAmount: initialHighestBid,
+            encryptedHighestBidder: initialHighestBidder,
+            highestBidder: address(0),
+            winningBid: 0
+        });
+    }
+
+    /**
+     * @notice Place a sealed bid
+     * @param _encryptedAmount Bid amount encrypted for [this clone, msg.sender]
+     * @dev Only msg.value, the escrowed deposit, is public and must cover
+     *      the minimum bid. An amount above the deposit only counts as the
+     *      deposit.
+     */
+    function placeBid(externalEuint64 _encryptedAmount, bytes calldata _inputProof) external payable {
+        require(!governance.paused(), "Auctions are paused");
+        require(auction.isActive, "Auction is not active");
+        require(block.timestamp >= auction.startTime, "Auction has not started");
+        require(block.timestamp < auction.endTime, "Auction has ended");
+        require(msg.sender != auction.creator, "Cannot bid on your own auction");
+        require(!hasUserBid[msg.sender], "You have already placed a bid on this auction");
+        require(msg.value >= auction.minimumBid, "Bid below minimum amount");
+
+        uint64 cap = msg.value > type(uint64).max ? type(uint64).max : uint64(msg.value);
+        euint64 amount = FHE.min(FHE.fromExternal(_encryptedAmount, _inputProof), cap);
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        bids[msg.sender] = amount;
+
+        auction.bidCount++;
+        hasUserBid[msg.sender] = true;
+        bidDeposits[msg.sender] = msg.value;
+
+        ebool isNewHighest = amount.gt(auction.highestBidAmount);
+
+        euint64 newHighest = FHE.select(isNewHighest, amount, auction.highestBidAmount);
+        FHE.allowThis(newHighest);
+        auction.highestBidAmount = newHighest;
+
+        eaddress newHighestBidder = FHE.select(
+            isNewHighest,
+            FHE.asEaddress(msg.sender),
+            auction.encryptedHighestBidder
+        );
+        FHE.allowThis(newHighestBidder);
+        auction.encryptedHighestBidder = newHighestBidder;
+
+        emit BidPlaced(msg.sender, block.timestamp);
+    }
+
+    /**
+     * @notice End the auction and request decryption of the result
+     * @dev Settlement is completed by the decryption oracle calling
+     *      revealWinner; an auction without bids ends immediately
+     */
+    function endAuction() external {
+        require(auction.isActive, "Auction is not active");
+        require(
+            block.timestamp >= auction.endTime || msg.sender == auction.creator,
+            "Auction has not ended yet and you are not the creator"
+        );
+
+        auction.isActive = false;
+
+        if (auction.bidCount == 0) {
+            emit AuctionEnded(address(0), 0);
+            return;
+        }
+
+        FHE.allow(auction.highestBidAmount, auction.creator);
+        FHE.allow(auction.encryptedHighestBidder, auction.creator);
+
+        settlementPending = true;
+        requestSettlement();
+    }
+
+    /**
+     * @notice Request the settlement decryption again; creator or keeper
+     * @dev For a request the oracle never answered, which would otherwise
+     *      lock every deposit. Whichever request is answered first settles
+     *      the auction; later answers revert.
+     */
+    function retrySettlement() external {
+        require(
+            msg.sender == auction.creator || governance.isKeeper(msg.sender),
+            "Only creator or keeper can retry settlement"
+        );
+        require(settlementPending, "No pending settlement");
+        requestSettlement();
+    }
+
+    /**
+     * @notice Cancel a fraudulent listing; moderator only
+     * @dev Works while bidding is open or settlement is pending. Nothing is
+     *      paid to the creator and every bidder can withdraw their full
+     *      deposit with withdrawRefund.
+     */
+    function cancelListing() external {
+        require(governance.isModerator(msg.sender), "Only moderator can cancel listings");
+        require(auction.isActive || settlementPending, "Auction is already settled");
+
+        auction.isActive = false;
+        settlementPending = false;
+        cancelled = true;
+
+        emit AuctionCancelled(msg.sender);
+    }
+
+    /**
+     * @notice Decryption oracle callback completing settlement
+     * @param _signatures KMS signatures over the decrypted values
+     */
+    function revealWinner(
+        uint256 _requestId,
+        uint64 _winningBid,
+        address _winner,
+        bytes[] memory _signatures
+    ) external {
+        require(settlementPending && settlementRequests[_requestId], "No pending settlement");
+
+        // Reverts unless the values were signed by the KMS
+        FHE.checkSignatures(_requestId, _signatures);
+
+        settlementPending = false;
+        delete settlementRequests[_requestId];
+        auction.highestBidder = _winner;
+        auction.winningBid = _winningBid;
+
+        // Bids are capped at their deposit, so the winner's covers the price
+        bidDeposits[_winner] -= _winningBid;
+        proceeds = _winningBid;
+
+        emit WinnerRevealed(_winner, _winningBid);
+        emit AuctionEnded(_winner, _winningBid);
+    }
+
+    /**
+     * @notice Withdraw escrowed ETH after settlement
+     * @dev Losing bidders get their full deposit back; the winner gets
+     *      whatever they deposited above the winning bid. After a
+     *      cancellation every bidder gets their full deposit back.
+     */
+    function withdrawRefund() external {
+        require(!auction.isActive && !settlementPending, "Auction is not settled");
+
+        uint256 amount = bidDeposits[msg.sender];
+        require(amount > 0, "No refund available");
+
+        bidDeposits[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit RefundWithdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @notice Withdraw the winning bid once the winner has been revealed
+     */
+    function claimProceeds() external {
+        require(msg.sender == auction.creator, "Only creator can claim proceeds");
+
+        uint256 amount = proceeds;
+        require(amount > 0, "No proceeds available");
+
+        proceeds = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit ProceedsClaimed(msg.sender, amount);
+    }
+
+    function requestSettlement() internal {
+        // Handle order must match the revealWinner arguments
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(auction.highestBidAmount);
+        cts[1] = FHE.toBytes32(auction.encryptedHighestBidder);
+        uint256 requestId = FHE.requestDecryption(cts, this.revealWinner.selector);
+        settlementRequests[requestId] = true;
+
+        emit SettlementRequested(requestId);
+    }
+
+    // Handle of the caller's own encrypted bid; only the caller can user-decrypt it
+    function getMyBid() external view returns (euint64) {
+        require(hasUserBid[msg.sender], "You have not placed a bid on this auction");
+        return bids[msg.sender];
+    }
+
+    function getAuction() external view returns (Auction memory) {
+        return auction;
+    }
+}
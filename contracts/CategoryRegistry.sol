@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { AuctionGovernance } from "./AuctionGovernance.sol";
+
+// Admin-managed list of auction categories. Auctions reference a category
+// by ID instead of a free-form string, so listings can be filtered
+// reliably and a category can be renamed or retired in one place.
+// Disabling a category stops new auctions in it; existing ones are kept.
+// The AuctionGovernance admins manage the list.
+contract CategoryRegistry {
+    struct Category {
+        uint256 id;
+        string name;
+        string metadataURI; // Off-chain details (icon, description), e.g. ipfs://...
+        bool isEnabled;
+    }
+
+    AuctionGovernance public immutable governance;
+
+    mapping(uint256 => Category) internal categories;
+
+    // keccak256(name) => ID, so names stay unique
+    mapping(bytes32 => uint256) internal categoryIdsByName;
+
+    uint256 public nextCategoryId = 1;
+
+    event CategoryAdded(
+        uint256 indexed categoryId,
+        string name,
+        string metadataURI
+    );
+
+    event CategoryRenamed(
+        uint256 indexed categoryId,
+        string name
+    );
+
+    event CategoryMetadataUpdated(
+        uint256 indexed categoryId,
+        string metadataURI
+    );
+
+    event CategoryStatusChanged(
+        uint256 indexed categoryId,
+        bool isEnabled
+    );
+
+    constructor(AuctionGovernance _governance) {
+        require(address(_governance) != address(0), "Governance cannot be zero");
+        governance = _governance;
+    }
+
+    /**
+     * @notice Register a new, enabled category
+     * @return categoryId ID to pass to ConfidentialAuction.createAuction
+     */
+    function addCategory(string memory _name, string memory _metadataURI) public returns (uint256 categoryId) {
+        require(governance.isAdmin(msg.sender), "Only admin can manage categories");
+        requireUniqueName(_name);
+
+        categoryId = nextCategoryId++;
+        categories[categoryId] = Category({
+            id: categoryId,
+            name: _name,
+            metadataURI: _metadataURI,
+            isEnabled: true
+        });
+        categoryIdsByName[keccak256(bytes(_name))] = categoryId;
+
+        emit CategoryAdded(categoryId, _name, _metadataURI);
+    }
+
+    function renameCategory(uint256 _categoryId, string memory _name) public {
+        require(governance.isAdmin(msg.sender), "Only admin can manage categories");
+        require(categoryExists(_categoryId), "Invalid category");
+        requireUniqueName(_name);
+
+        delete categoryIdsByName[keccak256(bytes(categories[_categoryId].name))];
+        categories[_categoryId].name = _name;
+        categoryIdsByName[keccak256(bytes(_name))] = _categoryId;
+
+        emit CategoryRenamed(_categoryId, _name);
+    }
+
+    function setCategoryMetadataURI(uint256 _categoryId, string memory _metadataURI) public {
+        require(governance.isAdmin(msg.sender), "Only admin can manage categories");
+        require(categoryExists(_categoryId), "Invalid category");
+
+        categories[_categoryId].metadataURI = _metadataURI;
+
+        emit CategoryMetadataUpdated(_categoryId, _metadataURI);
+    }
+
+    /**
+     * @notice Enable or disable a category; disabled categories reject new auctions
+     */
+    function setCategoryEnabled(uint256 _categoryId, bool _isEnabled) public {
+        require(governance.isAdmin(msg.sender), "Only admin can manage categories");
+        require(categoryExists(_categoryId), "Invalid category");
+
+        categories[_categoryId].isEnabled = _isEnabled;
+
+        emit CategoryStatusChanged(_categoryId, _isEnabled);
+    }
+
+    /**
+     * @notice Whether new auctions may be created in a category
+     */
+    function isValidCategory(uint256 _categoryId) public view returns (bool) {
+        return categoryExists(_categoryId) && categories[_categoryId].isEnabled;
+    }
+
+    function getCategory(uint256 _categoryId) public view returns (Category memory) {
+        require(categoryExists(_categoryId), "Invalid category");
+        return categories[_categoryId];
+    }
+
+    /**
+     * @notice ID of the category with this exact name, or 0 if there is none
+     */
+    function getCategoryId(string memory _name) public view returns (uint256) {
+        return categoryIdsByName[keccak256(bytes(_name))];
+    }
+
+    /**
+     * @notice Every category, enabled or not, in ID order
+     */
+    function getCategories() public view returns (Category[] memory) {
+        Category[] memory all = new Category[](nextCategoryId - 1);
+        for (uint256 i = 1; i < nextCategoryId; i++) {
+            all[i - 1] = categories[i];
+        }
+        return all;
+    }
+
+    function categoryExists(uint256 _categoryId) internal view returns (bool) {
+        return _categoryId > 0 && _categoryId < nextCategoryId;
+    }
+
+    function requireUniqueName(string memory _name) internal view {
+        require(bytes(_name).length > 0, "Category cannot be empty");
+        require(categoryIdsByName[keccak256(bytes(_name))] == 0, "Category already exists");
+    }
+}
@@ -1,26 +1,95 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint64, externalEuint64, ebool, eaddress } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { AuctionGovernance } from "./AuctionGovernance.sol";
+import { CategoryRegistry } from "./CategoryRegistry.sol";
 
 // Confidential Auction using Zama FHEVM
-contract ConfidentialAuction {
+//
+// Roles come from AuctionGovernance: the admin recovers stray ETH,
+// moderators cancel fraudulent listings and keepers re-request settlement
+// decryptions the oracle dropped. While governance is paused no auctions
+// or bids are accepted, but refunds and settlement keep working.
+contract ConfidentialAuction is SepoliaConfig {
     using FHE for euint64;
     using FHE for ebool;
 
+    enum AuctionType {
+        FirstPrice, // Winner pays their own bid
+        Vickrey,    // Winner pays the second-highest bid
+        Dutch       // Descending ask; the first cap that meets it wins at that ask
+    }
+
+    enum AuctionPhase {
+        Scheduled, // Visible, bidding not started
+        Open,      // Accepting bids
+        Closed,    // Bidding over, result not revealed yet
+        Settled,   // Winner revealed (or ended without bids)
+        Cancelled  // Withdrawn by the creator or a moderator; all deposits refundable
+    }
+
+    enum StatusFilter {
+        Any,
+        Active, // Not ended and before endTime, as in getActiveAuctions
+        Ended   // Ended, or past endTime and waiting for endAuction
+    }
+
     struct Auction {
         uint256 id;
         string title;
         string description;
-        string category;
+        uint256 categoryId; // CategoryRegistry ID
         uint256 minimumBid;
         address creator;
         uint256 timestamp;
         bool isActive;
         uint256 endTime;
         euint64 highestBidAmount;
-        address highestBidder;
+        address highestBidder; // Revealed winner, address(0) until revealed
+        uint256 bidCount;
+        eaddress encryptedHighestBidder;
+        uint256 winningBid; // Revealed winning bid, 0 until revealed
+        uint256 startTime;
+        AuctionType auctionType;
+    }
+
+    // Anti-sniping: a bid within `window` seconds of endTime pushes endTime
+    // back by `extension` seconds, never past maxEndTime
+    struct SoftClose {
+        uint256 window;
+        uint256 extension;
+        uint256 maxEndTime;
+    }
+
+    // Listing view returned by getAuctions: no description or ciphertext
+    // handles, so pages stay small
+    struct AuctionSummary {
+        uint256 id;
+        string title;
+        uint256 categoryId;
+        uint256 minimumBid;
+        address creator;
+        bool isActive;
+        uint256 startTime;
+        uint256 endTime;
         uint256 bidCount;
+        AuctionType auctionType;
+    }
+
+    // Category 0 and zero creator match every auction
+    struct AuctionFilter {
+        StatusFilter status;
+        uint256 categoryId;
+        address creator;
+    }
+
+    // Off-chain listing for auctions created with createAuctionWithMetadata,
+    // whose title and description are left empty on-chain
+    struct ListingMetadata {
+        bytes32 contentHash; // keccak256 of the canonical metadata JSON
+        string uri;          // Content-addressed location, e.g. ipfs://<CID>
     }
 
     struct Bid {
@@ -30,175 +99,1016 @@ contract ConfidentialAuction {
         string comments;
         uint256 timestamp;
         bool isRevealed;
+        bool isWithdrawn;
     }
 
-    mapping(uint256 => Auction) public auctions;
+    // Read through getAuction: the auto-generated getter for this many
+    // fields does not compile (stack too deep)
+    mapping(uint256 => Auction) internal auctions;
     mapping(uint256 => Bid[]) public auctionBids;
+    mapping(uint256 => SoftClose) public softCloses;
+
+    // Optional seller floor, only ever compared homomorphically
+    mapping(uint256 => euint64) internal reservePrices;
+    mapping(uint256 => bool) public hasReserve;
+    mapping(uint256 => bool) public reserveNotMet;
+
+    // Vickrey auctions: encrypted runner-up bid, the price the winner pays
+    mapping(uint256 => euint64) internal secondHighestBids;
+
+    // Dutch auctions: the ask decays linearly from the start price at
+    // startTime to minimumBid at endTime; dutchSold flips (encrypted) once
+    // a buyer's cap has met the ask
+    mapping(uint256 => uint256) public dutchStartPrices;
+    mapping(uint256 => ebool) internal dutchSold;
     mapping(address => uint256[]) public userAuctions;
     mapping(address => mapping(uint256 => bool)) public hasUserBid;
 
+    // IDs of auctions not yet ended, maintained on create and endAuction so
+    // active queries never scan ended auctions. Removal swaps in the last
+    // entry, so the order is not creation order. activeIndex is 1-based.
+    uint256[] internal activeAuctionIds;
+    mapping(uint256 => uint256) internal activeIndex;
+
+    // Per-category listings: every auction ID in a category, and how many
+    // of them have not ended yet
+    mapping(uint256 => uint256[]) internal categoryAuctionIds;
+    mapping(uint256 => uint256) public activeAuctionsByCategory;
+
+    // Position of each bidder's entry in auctionBids, for in-place updates
+    mapping(uint256 => mapping(address => uint256)) internal bidIndex;
+
+    mapping(uint256 => ListingMetadata) public auctionMetadata;
+
+    // Creator opt-in letting bidders retract their bid while bidding is open
+    mapping(uint256 => bool) public bidWithdrawalsAllowed;
+
+    // Escrowed ETH: each bidder's deposit until refunded, and the creator's
+    // proceeds once the winner is revealed
+    mapping(uint256 => mapping(address => uint256)) public bidDeposits;
+    mapping(uint256 => uint256) public auctionProceeds;
+
+    // Settlement decryption requests (requestId => auctionId)
+    mapping(uint256 => uint256) private settlementRequests;
+    mapping(uint256 => bool) public settlementPending;
+
+    // Encrypted reserve check computed at endAuction; kept so a keeper can
+    // re-request the same decryption
+    mapping(uint256 => ebool) internal settlementReserveMet;
+
+    // Listings cancelled by their creator or a moderator; every deposit is
+    // refundable
+    mapping(uint256 => bool) public cancelled;
+
+    // Penalty share paid to each bidder with a live bid when the creator
+    // cancels after bidding started; added to their refund
+    mapping(uint256 => uint256) public cancellationCompensation;
+
+    // ETH held for bidders and creators; anything above it was sent directly
+    uint256 public totalEscrowed;
+
     uint256 public nextAuctionId = 1;
     uint256 public totalAuctions = 0;
 
+    uint256 public constant DEFAULT_DURATION = 7 days;
+    uint256 public constant MIN_DURATION = 1 hours;
+    uint256 public constant MAX_DURATION = 30 days;
+    uint256 public constant MAX_START_DELAY = 30 days;
+
+    // Creator cancellation penalty per live bid, in basis points of minimumBid
+    uint256 public constant CANCELLATION_PENALTY_BPS = 1000;
+
+    // Bids accepted on an auction that allows withdrawals: a withdrawal
+    // rebuilds the encrypted leader from every bid, which must stay within
+    // the per-transaction FHE compute limits
+    uint256 public constant MAX_WITHDRAWABLE_BIDS = 16;
+
+    // getAuctions bounds: results per page, and auction IDs examined per call
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    uint256 public constant MAX_SCAN = 500;
+
     event AuctionCreated(
         uint256 indexed auctionId,
         string title,
-        string category,
+        uint256 indexed categoryId,
         uint256 minimumBid,
         address indexed creator,
         uint256 endTime
     );
 
+    event AuctionMetadataSet(
+        uint256 indexed auctionId,
+        bytes32 contentHash,
+        string uri
+    );
+
     event BidPlaced(
         uint256 indexed auctionId,
         address indexed bidder,
         uint256 timestamp
     );
 
+    // Carries no amount: the new bid is encrypted and the top-up is msg.value
+    event BidUpdated(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 timestamp
+    );
+
+    event BidWithdrawn(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 refund
+    );
+
     event AuctionEnded(
         uint256 indexed auctionId,
         address winner,
         uint256 winningBid
     );
 
-    constructor() {}
+    event AuctionExtended(
+        uint256 indexed auctionId,
+        uint256 newEndTime
+    );
+
+    event DutchPriceStep(
+        uint256 indexed auctionId,
+        uint256 askPrice,
+        uint256 timestamp
+    );
+
+    event ReserveNotMet(
+        uint256 indexed auctionId
+    );
+
+    event SettlementRequested(
+        uint256 indexed auctionId,
+        uint256 requestId
+    );
+
+    event WinnerRevealed(
+        uint256 indexed auctionId,
+        address indexed winner,
+        uint256 winningBid
+    );
+
+    event RefundWithdrawn(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 amount
+    );
+
+    event ProceedsClaimed(
+        uint256 indexed auctionId,
+        address indexed creator,
+        uint256 amount
+    );
+
+    event AuctionCancelled(
+        uint256 indexed auctionId,
+        address indexed cancelledBy
+    );
+
+    // Source of valid category IDs for createAuction
+    CategoryRegistry public immutable categoryRegistry;
+
+    // Roles and pause switch
+    AuctionGovernance public immutable governance;
+
+    constructor(CategoryRegistry _categoryRegistry, AuctionGovernance _governance) {
+        require(address(_categoryRegistry) != address(0), "Category registry cannot be zero");
+        require(address(_governance) != address(0), "Governance cannot be zero");
+        categoryRegistry = _categoryRegistry;
+        governance = _governance;
+    }
 
+    /**
+     * @notice Create an auction, optionally scheduled to open later
+     * @param _startTime When bidding opens; 0 opens it immediately
+     * @param _duration Bidding window in seconds; 0 uses DEFAULT_DURATION
+     * @param _encryptedReserve Reserve price encrypted for [this contract, msg.sender]
+     * @param _reserveProof Input proof for the reserve; empty for no reserve
+     * @param _auctionType Pricing rule: FirstPrice, Vickrey (second price) or Dutch
+     * @param _startPrice Dutch only: opening ask, decaying to _minimumBid; ignored otherwise
+     */
     function createAuction(
         string memory _title,
         string memory _description,
-        string memory _category,
-        uint256 _minimumBid
+        uint256 _categoryId,
+        uint256 _minimumBid,
+        uint256 _startTime,
+        uint256 _duration,
+        externalEuint64 _encryptedReserve,
+        bytes calldata _reserveProof,
+        AuctionType _auctionType,
+        uint256 _startPrice
     ) public {
         require(bytes(_title).length > 0, "Title cannot be empty");
         require(bytes(_description).length > 0, "Description cannot be empty");
-        require(bytes(_category).length > 0, "Category cannot be empty");
+
+        storeAuction(
+            _title,
+            _description,
+            _categoryId,
+            _minimumBid,
+            _startTime,
+            _duration,
+            _encryptedReserve,
+            _reserveProof,
+            _auctionType,
+            _startPrice
+        );
+    }
+
+    /**
+     * @notice Create an auction whose title, description and images live
+     *         off-chain; only their hash and URI are stored
+     * @param _contentHash keccak256 of the canonical metadata JSON, checked
+     *        by clients against what they fetch from _uri
+     * @param _uri Content-addressed location of the metadata, e.g. ipfs://<CID>
+     * @dev Remaining parameters are as for createAuction
+     */
+    function createAuctionWithMetadata(
+        bytes32 _contentHash,
+        string memory _uri,
+        uint256 _categoryId,
+        uint256 _minimumBid,
+        uint256 _startTime,
+        uint256 _duration,
+        externalEuint64 _encryptedReserve,
+        bytes calldata _reserveProof,
+        AuctionType _auctionType,
+        uint256 _startPrice
+    ) public {
+        require(_contentHash != bytes32(0), "Metadata hash cannot be empty");
+        require(bytes(_uri).length > 0, "Metadata URI cannot be empty");
+
+        uint256 auctionId = storeAuction(
+            "",
+            "",
+            _categoryId,
+            _minimumBid,
+            _startTime,
+            _duration,
+            _encryptedReserve,
+            _reserveProof,
+            _auctionType,
+            _startPrice
+        );
+        auctionMetadata[auctionId] = ListingMetadata({ contentHash: _contentHash, uri: _uri });
+
+        emit AuctionMetadataSet(auctionId, _contentHash, _uri);
+    }
+
+    // Shared by both create functions: validates the category, schedule and
+    // pricing, then stores the auction and indexes it
+    function storeAuction(
+        string memory _title,
+        string memory _description,
+        uint256 _categoryId,
+        uint256 _minimumBid,
+        uint256 _startTime,
+        uint256 _duration,
+        externalEuint64 _encryptedReserve,
+        bytes calldata _reserveProof,
+        AuctionType _auctionType,
+        uint256 _startPrice
+    ) internal returns (uint256 auctionId) {
+        requireNotPaused();
+        require(categoryRegistry.isValidCategory(_categoryId), "Invalid category");
         require(_minimumBid > 0, "Minimum bid must be greater than 0");
 
-        uint256 auctionId = nextAuctionId++;
-        uint256 endTime = block.timestamp + 7 days; // 7 day auction duration
+        uint256 startTime = _startTime == 0 ? block.timestamp : _startTime;
+        uint256 duration = _duration == 0 ? DEFAULT_DURATION : _duration;
+        require(startTime >= block.timestamp, "Start time is in the past");
+        require(startTime <= block.timestamp + MAX_START_DELAY, "Start time too far in the future");
+        require(duration >= MIN_DURATION, "Duration too short");
+        require(duration <= MAX_DURATION, "Duration too long");
+        if (_auctionType == AuctionType.Dutch) {
+            require(_startPrice > _minimumBid, "Start price must exceed minimum bid");
+            require(_startPrice <= type(uint64).max, "Start price too high");
+        }
+
+        auctionId = nextAuctionId++;
+        uint256 endTime = startTime + duration;
+
+        euint64 initialHighestBid = FHE.asEuint64(0);
+        FHE.allowThis(initialHighestBid);
+
+        eaddress initialHighestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(initialHighestBidder);
 
         auctions[auctionId] = Auction({
             id: auctionId,
             title: _title,
             description: _description,
-            category: _category,
+            categoryId: _categoryId,
             minimumBid: _minimumBid,
             creator: msg.sender,
             timestamp: block.timestamp,
             isActive: true,
             endTime: endTime,
-            highestBidAmount: FHE.asEuint64(0),
+            highestBidAmount: initialHighestBid,
             highestBidder: address(0),
-            bidCount: 0
+            bidCount: 0,
+            encryptedHighestBidder: initialHighestBidder,
+            winningBid: 0,
+            startTime: startTime,
+            auctionType: _auctionType
         });
 
+        if (_auctionType == AuctionType.Vickrey) {
+            euint64 initialSecondBid = FHE.asEuint64(0);
+            FHE.allowThis(initialSecondBid);
+            secondHighestBids[auctionId] = initialSecondBid;
+        }
+
+        if (_auctionType == AuctionType.Dutch) {
+            ebool initialSold = FHE.asEbool(false);
+            FHE.allowThis(initialSold);
+            dutchSold[auctionId] = initialSold;
+            dutchStartPrices[auctionId] = _startPrice;
+        }
+
+        if (_reserveProof.length > 0) {
+            euint64 reserve = FHE.fromExternal(_encryptedReserve, _reserveProof);
+            FHE.allowThis(reserve);
+            FHE.allow(reserve, msg.sender);
+            reservePrices[auctionId] = reserve;
+            hasReserve[auctionId] = true;
+        }
+
         userAuctions[msg.sender].push(auctionId);
         totalAuctions++;
+        activeAuctionIds.push(auctionId);
+        activeIndex[auctionId] = activeAuctionIds.length;
+        categoryAuctionIds[_categoryId].push(auctionId);
+        activeAuctionsByCategory[_categoryId]++;
 
         emit AuctionCreated(
             auctionId,
             _title,
-            _category,
+            _categoryId,
             _minimumBid,
             msg.sender,
             endTime
         );
     }
 
+    /**
+     * @notice Place a sealed bid on an auction
+     * @param _encryptedAmount Bid amount encrypted client-side for [this contract, msg.sender]
+     * @param _inputProof Zero-knowledge proof attesting the encryption
+     * @dev The bid amount never appears in plaintext calldata; only msg.value
+     *      (the escrowed deposit) is public and must cover the minimum bid.
+     *      An amount above the deposit only counts as the deposit.
+     *      In Dutch auctions the amount is the buyer's maximum price and the
+     *      deposit must cover the current ask
+     */
     function placeBid(
         uint256 _auctionId,
         bool _isHighBid,
-        uint256 _bidAmount,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof,
         string memory _comments
     ) public payable {
-        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
-        require(auctions[_auctionId].isActive, "Auction is not active");
-        require(block.timestamp < auctions[_auctionId].endTime, "Auction has ended");
-        require(msg.sender != auctions[_auctionId].creator, "Cannot bid on your own auction");
+        requireNotPaused();
+        requireValidAuction(_auctionId);
+        Auction storage auction = auctions[_auctionId];
+        require(auction.isActive, "Auction is not active");
+        require(block.timestamp >= auction.startTime, "Auction has not started");
+        require(block.timestamp < auction.endTime, "Auction has ended");
+        require(msg.sender != auction.creator, "Cannot bid on your own auction");
         require(!hasUserBid[msg.sender][_auctionId], "You have already placed a bid on this auction");
-        require(msg.value >= auctions[_auctionId].minimumBid, "Bid below minimum amount");
+        require(msg.value >= auction.minimumBid, "Bid below minimum amount");
+        require(
+            !bidWithdrawalsAllowed[_auctionId] || auctionBids[_auctionId].length < MAX_WITHDRAWABLE_BIDS,
+            "Too many bids"
+        );
+        bool isDutch = auction.auctionType == AuctionType.Dutch;
+        if (isDutch) {
+            require(msg.value >= getCurrentAsk(_auctionId), "Deposit below current ask");
+        }
 
         // Convert boolean to encrypted boolean using FHEVM
         ebool encryptedIsHighBid = FHE.asEbool(_isHighBid);
+        FHE.allowThis(encryptedIsHighBid);
 
-        // Convert bid amount to encrypted uint64 using FHEVM (cast uint256 to uint64)
-        euint64 encryptedBidAmount = FHE.asEuint64(uint64(_bidAmount));
+        // Validate the input proof and convert the external handle
+        euint64 encryptedBidAmount = capToDeposit(FHE.fromExternal(_encryptedAmount, _inputProof), msg.value);
+        FHE.allowThis(encryptedBidAmount);
+        FHE.allow(encryptedBidAmount, msg.sender);
 
         // Store the encrypted bid
+        bidIndex[_auctionId][msg.sender] = auctionBids[_auctionId].length;
         auctionBids[_auctionId].push(Bid({
             bidder: msg.sender,
             amount: encryptedBidAmount,
             isHighBid: encryptedIsHighBid,
             comments: _comments,
             timestamp: block.timestamp,
-            isRevealed: false
+            isRevealed: false,
+            isWithdrawn: false
         }));
 
         // Update auction bid count
-        auctions[_auctionId].bidCount++;
+        auction.bidCount++;
 
         // Mark that user has bid on this auction
         hasUserBid[msg.sender][_auctionId] = true;
+        bidDeposits[_auctionId][msg.sender] = msg.value;
+        totalEscrowed += msg.value;
+
+        if (isDutch) {
+            acceptIfCapMeetsAsk(_auctionId, encryptedBidAmount);
+        } else {
+            updateHighestBid(_auctionId, msg.sender, encryptedBidAmount);
+        }
+
+        extendIfSniped(_auctionId);
+
+        emit BidPlaced(_auctionId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev A bid is only worth the ETH behind it: compare and settle
+     *      min(amount, deposit), so an encrypted amount the bidder never
+     *      paid for cannot beat funded bids
+     */
+    function capToDeposit(euint64 _amount, uint256 _deposit) internal returns (euint64) {
+        return FHE.min(_amount, _deposit > type(uint64).max ? type(uint64).max : uint64(_deposit));
+    }
+
+    /**
+     * @notice Raise your bid while bidding is open
+     * @param _encryptedAmount New amount encrypted for [this contract, msg.sender]
+     * @dev The stored bid becomes max(old, new) homomorphically, so a lower
+     *      amount leaves it unchanged without revealing which case applied.
+     *      Any ETH sent is added to the bidder's deposit, which caps the new
+     *      amount as in placeBid. Only an update with a top-up counts as a
+     *      late bid for soft close.
+     */
+    function updateBid(
+        uint256 _auctionId,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) public payable {
+        requireNotPaused();
+        Bid storage bid = requireOpenBid(_auctionId);
+
+        bidDeposits[_auctionId][msg.sender] += msg.value;
+        totalEscrowed += msg.value;
+
+        // The old amount was capped at a smaller deposit, so this never lowers it
+        euint64 newAmount = capToDeposit(
+            FHE.max(bid.amount, FHE.fromExternal(_encryptedAmount, _inputProof)),
+            bidDeposits[_auctionId][msg.sender]
+        );
+        FHE.allowThis(newAmount);
+        FHE.allow(newAmount, msg.sender);
+        bid.amount = newAmount;
+        bid.timestamp = block.timestamp;
+
+        raiseLeader(_auctionId, newAmount);
+        if (msg.value > 0) {
+            extendIfSniped(_auctionId);
+        }
+
+        emit BidUpdated(_auctionId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @notice Retract your bid and take back the deposit while bidding is
+     *         open, if the creator enabled withdrawals for this auction
+     * @dev A withdrawn bidder cannot bid again on the same auction
+     */
+    function withdrawBid(uint256 _auctionId) public {
+        Bid storage bid = requireOpenBid(_auctionId);
+        require(bidWithdrawalsAllowed[_auctionId], "Bid withdrawals are not allowed");
+
+        bid.isWithdrawn = true;
+        auctions[_auctionId].bidCount--;
+        recomputeLeader(_auctionId);
+
+        uint256 refund = bidDeposits[_auctionId][msg.sender];
+        bidDeposits[_auctionId][msg.sender] = 0;
+        releaseEscrow(refund);
+
+        emit BidWithdrawn(_auctionId, msg.sender, refund);
+    }
+
+    /**
+     * @notice Let bidders retract their bids on this auction
+     * @dev Must be enabled by the creator before the first bid. The auction
+     *      then accepts at most MAX_WITHDRAWABLE_BIDS bids.
+     */
+    function allowBidWithdrawals(uint256 _auctionId) public {
+        requireValidAuction(_auctionId);
+        Auction storage auction = auctions[_auctionId];
+        require(msg.sender == auction.creator, "Only creator can allow bid withdrawals");
+        require(auction.isActive, "Auction is not active");
+        require(auction.bidCount == 0, "Bid withdrawals must be allowed before bidding");
+        require(auction.auctionType != AuctionType.Dutch, "Bid changes are not supported for Dutch auctions");
+
+        bidWithdrawalsAllowed[_auctionId] = true;
+    }
+
+    /**
+     * @dev The caller's live bid on an auction that is still open. Dutch caps
+     *      are final: an accepted cap cannot be taken back.
+     */
+    function requireOpenBid(uint256 _auctionId) internal view returns (Bid storage) {
+        requireValidAuction(_auctionId);
+        require(auctions[_auctionId].isActive, "Auction is not active");
+        require(block.timestamp < auctions[_auctionId].endTime, "Auction has ended");
+        require(auctions[_auctionId].auctionType != AuctionType.Dutch, "Bid changes are not supported for Dutch auctions");
+        require(hasUserBid[msg.sender][_auctionId], "You have not placed a bid on this auction");
+
+        Bid storage bid = auctionBids[_auctionId][bidIndex[_auctionId][msg.sender]];
+        require(!bid.isWithdrawn, "Bid has been withdrawn");
+        return bid;
+    }
 
+    /**
+     * @dev Apply the caller's raised bid without rescanning every bid.
+     *      Amounts only go up, so the raiser takes or keeps the lead, or
+     *      competes for second place; an equal amount does not take the
+     *      lead from whoever reached it first. A leader raising their own
+     *      bid leaves the Vickrey runner-up as it was.
+     */
+    function raiseLeader(uint256 _auctionId, euint64 _amount) internal {
+        if (auctions[_auctionId].auctionType != AuctionType.Vickrey) {
+            updateHighestBid(_auctionId, msg.sender, _amount);
+            return;
+        }
+
+        ebool isLeader = FHE.eq(auctions[_auctionId].encryptedHighestBidder, FHE.asEaddress(msg.sender));
+        euint64 second = secondHighestBids[_auctionId];
+        updateHighestBid(_auctionId, msg.sender, _amount);
+
+        euint64 newSecond = FHE.select(isLeader, second, secondHighestBids[_auctionId]);
+        FHE.allowThis(newSecond);
+        secondHighestBids[_auctionId] = newSecond;
+    }
+
+    /**
+     * @dev Rebuild the encrypted leader (and Vickrey runner-up) from the
+     *      remaining bids in their original order, so ties still go to the
+     *      earlier bidder. A retracted leader cannot be replaced any other
+     *      way, since the runner-up is only known encrypted. Bounded by
+     *      MAX_WITHDRAWABLE_BIDS, as only withdrawals need it.
+     */
+    function recomputeLeader(uint256 _auctionId) internal {
+        euint64 zero = FHE.asEuint64(0);
+        FHE.allowThis(zero);
+        eaddress nobody = FHE.asEaddress(address(0));
+        FHE.allowThis(nobody);
+
+        auctions[_auctionId].highestBidAmount = zero;
+        auctions[_auctionId].encryptedHighestBidder = nobody;
+        if (auctions[_auctionId].auctionType == AuctionType.Vickrey) {
+            secondHighestBids[_auctionId] = zero;
+        }
+
+        Bid[] storage bids = auctionBids[_auctionId];
+        for (uint256 i = 0; i < bids.length; i++) {
+            if (!bids[i].isWithdrawn) {
+                updateHighestBid(_auctionId, bids[i].bidder, bids[i].amount);
+            }
+        }
+    }
+
+    function updateHighestBid(uint256 _auctionId, address _bidder, euint64 encryptedBidAmount) internal {
         // Check if this is the highest bid (using FHE comparison)
         euint64 currentHighest = auctions[_auctionId].highestBidAmount;
         ebool isNewHighest = encryptedBidAmount.gt(currentHighest);
 
+        if (auctions[_auctionId].auctionType == AuctionType.Vickrey) {
+            updateSecondHighest(_auctionId, encryptedBidAmount, currentHighest, isNewHighest);
+        }
+
         // Conditionally update highest bid using FHE select
-        auctions[_auctionId].highestBidAmount = FHE.select(
+        euint64 newHighest = FHE.select(
             isNewHighest,
             encryptedBidAmount,
             currentHighest
         );
+        FHE.allowThis(newHighest);
+        auctions[_auctionId].highestBidAmount = newHighest;
+
+        // Track the leader with the same encrypted condition, so the winner
+        // identity is never revealed (or guessed from bid order) on-chain
+        eaddress newHighestBidder = FHE.select(
+            isNewHighest,
+            FHE.asEaddress(_bidder),
+            auctions[_auctionId].encryptedHighestBidder
+        );
+        FHE.allowThis(newHighestBidder);
+        auctions[_auctionId].encryptedHighestBidder = newHighestBidder;
+    }
+
+    /**
+     * @dev Dutch auctions: the first cap that is >= the ask at its block
+     *      wins at that ask. Later caps are still compared, but once the
+     *      encrypted sold flag is set they can no longer change the result,
+     *      so bidders learn nothing about whether the lot has gone
+     */
+    function acceptIfCapMeetsAsk(uint256 _auctionId, euint64 _cap) internal {
+        uint256 ask = getCurrentAsk(_auctionId);
+        ebool sold = dutchSold[_auctionId];
+        ebool accepted = FHE.and(_cap.ge(uint64(ask)), FHE.not(sold));
+
+        euint64 newPrice = FHE.select(
+            accepted,
+            FHE.asEuint64(uint64(ask)),
+            auctions[_auctionId].highestBidAmount
+        );
+        FHE.allowThis(newPrice);
+        auctions[_auctionId].highestBidAmount = newPrice;
+
+        eaddress newBuyer = FHE.select(
+            accepted,
+            FHE.asEaddress(msg.sender),
+            auctions[_auctionId].encryptedHighestBidder
+        );
+        FHE.allowThis(newBuyer);
+        auctions[_auctionId].encryptedHighestBidder = newBuyer;
+
+        ebool newSold = FHE.or(sold, accepted);
+        FHE.allowThis(newSold);
+        dutchSold[_auctionId] = newSold;
+
+        emit DutchPriceStep(_auctionId, ask, block.timestamp);
+    }
+
+    /**
+     * @notice Current ask of a Dutch auction
+     * @dev Linear from dutchStartPrices at startTime down to minimumBid at
+     *      endTime; clients can compute the same value off-chain
+     */
+    function getCurrentAsk(uint256 _auctionId) public view returns (uint256) {
+        requireValidAuction(_auctionId);
+        require(auctions[_auctionId].auctionType == AuctionType.Dutch, "Not a Dutch auction");
 
-        // Update highest bidder if this is the highest bid
-        if (_bidAmount > 0) { // Simple check for demo purposes
-            auctions[_auctionId].highestBidder = msg.sender;
+        Auction storage auction = auctions[_auctionId];
+        uint256 startPrice = dutchStartPrices[_auctionId];
+        if (block.timestamp <= auction.startTime) {
+            return startPrice;
+        }
+        if (block.timestamp >= auction.endTime) {
+            return auction.minimumBid;
         }
 
-        emit BidPlaced(_auctionId, msg.sender, block.timestamp);
+        uint256 elapsed = block.timestamp - auction.startTime;
+        uint256 duration = auction.endTime - auction.startTime;
+        return startPrice - ((startPrice - auction.minimumBid) * elapsed) / duration;
     }
 
-    function endAuction(uint256 _auctionId) public {
-        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+    /**
+     * @dev A new leader pushes the old highest bid down to second place;
+     *      otherwise the bid replaces the runner-up only if it beats it
+     */
+    function updateSecondHighest(
+        uint256 _auctionId,
+        euint64 _bid,
+        euint64 _currentHighest,
+        ebool _isNewHighest
+    ) internal {
+        euint64 currentSecond = secondHighestBids[_auctionId];
+        euint64 newSecond = FHE.select(
+            _isNewHighest,
+            _currentHighest,
+            FHE.select(_bid.gt(currentSecond), _bid, currentSecond)
+        );
+        FHE.allowThis(newSecond);
+        secondHighestBids[_auctionId] = newSecond;
+    }
+
+    /**
+     * @notice Enable soft close: bids in the last `_window` seconds extend
+     *         the auction by `_extension` seconds, up to `_maxExtension` in total
+     * @dev Must be configured by the creator before the first bid
+     */
+    function configureSoftClose(
+        uint256 _auctionId,
+        uint256 _window,
+        uint256 _extension,
+        uint256 _maxExtension
+    ) public {
+        requireValidAuction(_auctionId);
+        require(msg.sender == auctions[_auctionId].creator, "Only creator can configure soft close");
         require(auctions[_auctionId].isActive, "Auction is not active");
+        require(auctions[_auctionId].bidCount == 0, "Soft close must be set before bidding");
+        require(auctions[_auctionId].auctionType != AuctionType.Dutch, "Soft close is not supported for Dutch auctions");
+        require(_window > 0 && _extension > 0, "Soft close window and extension must be greater than 0");
+        require(_maxExtension <= MAX_DURATION, "Maximum extension too long");
+
+        softCloses[_auctionId] = SoftClose({
+            window: _window,
+            extension: _extension,
+            maxEndTime: auctions[_auctionId].endTime + _maxExtension
+        });
+    }
+
+    function extendIfSniped(uint256 _auctionId) internal {
+        SoftClose memory softClose = softCloses[_auctionId];
+        uint256 endTime = auctions[_auctionId].endTime;
+        if (softClose.window == 0 || block.timestamp + softClose.window < endTime) {
+            return;
+        }
+
+        uint256 newEndTime = endTime + softClose.extension;
+        if (newEndTime > softClose.maxEndTime) {
+            newEndTime = softClose.maxEndTime;
+        }
+        if (newEndTime > endTime) {
+            auctions[_auctionId].endTime = newEndTime;
+            emit AuctionExtended(_auctionId, newEndTime);
+        }
+    }
+
+    /**
+     * @notice End an auction and request decryption of the result
+     * @dev Settlement is completed asynchronously by the decryption oracle
+     *      calling revealWinner; auctions without bids end immediately
+     */
+    function endAuction(uint256 _auctionId) public {
+        requireValidAuction(_auctionId);
+        Auction storage auction = auctions[_auctionId];
+        require(auction.isActive, "Auction is not active");
         require(
-            block.timestamp >= auctions[_auctionId].endTime ||
-            msg.sender == auctions[_auctionId].creator,
+            block.timestamp >= auction.endTime ||
+            msg.sender == auction.creator,
             "Auction has not ended yet and you are not the creator"
         );
 
-        auctions[_auctionId].isActive = false;
+        auction.isActive = false;
+        removeFromActiveSet(_auctionId);
+
+        if (auction.bidCount == 0) {
+            emit AuctionEnded(_auctionId, address(0), 0);
+            return;
+        }
 
-        // Transfer the winning bid to auction creator
-        address winner = auctions[_auctionId].highestBidder;
-        if (winner != address(0)) {
-            // In a real implementation, you would decrypt the highest bid amount
-            // For now, we'll use a placeholder value
-            uint256 winningBid = auctions[_auctionId].minimumBid;
+        // Below the reserve, both the bid and the bidder are zeroed before
+        // decryption, so only the "reserve not met" outcome is revealed
+        ebool reserveMet = hasReserve[_auctionId]
+            ? auction.highestBidAmount.ge(reservePrices[_auctionId])
+            : FHE.asEbool(true);
 
-            payable(auctions[_auctionId].creator).transfer(winningBid);
-            emit AuctionEnded(_auctionId, winner, winningBid);
+        // An unsold Dutch lot already has a zero price and buyer; it is
+        // reported as no sale rather than as a missed reserve
+        if (auction.auctionType == AuctionType.Dutch) {
+            reserveMet = FHE.or(reserveMet, FHE.not(dutchSold[_auctionId]));
+        }
+        FHE.allowThis(reserveMet);
+
+        // Vickrey auctions only ever decrypt the second price, raised to the
+        // reserve when the runner-up bid is below it
+        euint64 price = auction.highestBidAmount;
+        if (auction.auctionType == AuctionType.Vickrey) {
+            price = hasReserve[_auctionId]
+                ? FHE.max(secondHighestBids[_auctionId], reservePrices[_auctionId])
+                : secondHighestBids[_auctionId];
+        }
+        euint64 settledBid = FHE.select(reserveMet, price, FHE.asEuint64(0));
+        eaddress settledBidder = FHE.select(
+            reserveMet,
+            auction.encryptedHighestBidder,
+            FHE.asEaddress(address(0))
+        );
+        FHE.allowThis(settledBid);
+        FHE.allowThis(settledBidder);
+        if (auction.auctionType == AuctionType.Vickrey) {
+            secondHighestBids[_auctionId] = settledBid;
+        } else {
+            auction.highestBidAmount = settledBid;
         }
+        auction.encryptedHighestBidder = settledBidder;
+
+        // The creator is granted access so they can decrypt the result
+        // before the oracle reveals it publicly
+        FHE.allow(settledBidder, auction.creator);
+        FHE.allow(settledBid, auction.creator);
+
+        settlementReserveMet[_auctionId] = reserveMet;
+        settlementPending[_auctionId] = true;
+        requestSettlement(_auctionId);
     }
 
-    function getActiveAuctions() public view returns (Auction[] memory) {
-        uint256 activeCount = 0;
+    /**
+     * @notice Request the settlement decryption again; keeper only
+     * @dev For a request the oracle never answered. Whichever request is
+     *      answered first settles the auction; later answers revert.
+     */
+    function retrySettlement(uint256 _auctionId) public {
+        require(governance.isKeeper(msg.sender), "Only keeper can retry settlement");
+        require(settlementPending[_auctionId], "No pending settlement");
+        requestSettlement(_auctionId);
+    }
 
-        // Count active auctions
-        for (uint256 i = 1; i < nextAuctionId; i++) {
-            if (auctions[i].isActive && block.timestamp < auctions[i].endTime) {
-                activeCount++;
-            }
+    function requestSettlement(uint256 _auctionId) internal {
+        euint64 settledBid = auctions[_auctionId].auctionType == AuctionType.Vickrey
+            ? secondHighestBids[_auctionId]
+            : auctions[_auctionId].highestBidAmount;
+
+        // Handle order must match the revealWinner arguments
+        bytes32[] memory cts = new bytes32[](3);
+        cts[0] = FHE.toBytes32(settledBid);
+        cts[1] = FHE.toBytes32(auctions[_auctionId].encryptedHighestBidder);
+        cts[2] = FHE.toBytes32(settlementReserveMet[_auctionId]);
+        uint256 requestId = FHE.requestDecryption(cts, this.revealWinner.selector);
+        settlementRequests[requestId] = _auctionId;
+
+        emit SettlementRequested(_auctionId, requestId);
+    }
+
+    /**
+     * @notice Cancel a fraudulent listing; moderator only
+     * @dev Works while bidding is open or settlement is pending. Nothing is
+     *      paid to the creator and every bidder can withdraw their full
+     *      deposit with withdrawRefund.
+     */
+    function cancelListing(uint256 _auctionId) public {
+        require(governance.isModerator(msg.sender), "Only moderator can cancel listings");
+        requireValidAuction(_auctionId);
+        require(
+            auctions[_auctionId].isActive || settlementPending[_auctionId],
+            "Auction is already settled"
+        );
+
+        settlementPending[_auctionId] = false;
+        markCancelled(_auctionId);
+    }
+
+    /**
+     * @notice Withdraw a listing before it ends; creator only
+     * @dev Free before the first bid. Once there are live bids the creator
+     *      must attach CANCELLATION_PENALTY_BPS of minimumBid per bid, and
+     *      each of those bidders gets that share on top of their deposit
+     *      from withdrawRefund.
+     */
+    function cancelAuction(uint256 _auctionId) public payable {
+        requireValidAuction(_auctionId);
+        Auction storage auction = auctions[_auctionId];
+        require(msg.sender == auction.creator, "Only creator can cancel auction");
+        require(auction.isActive, "Auction is not active");
+        require(block.timestamp < auction.endTime, "Auction has ended");
+
+        uint256 compensation = auction.minimumBid * CANCELLATION_PENALTY_BPS / 10000;
+        require(msg.value == compensation * auction.bidCount, "Incorrect cancellation penalty");
+
+        cancellationCompensation[_auctionId] = compensation;
+        totalEscrowed += msg.value;
+        markCancelled(_auctionId);
+    }
+
+    function markCancelled(uint256 _auctionId) internal {
+        if (auctions[_auctionId].isActive) {
+            auctions[_auctionId].isActive = false;
+            removeFromActiveSet(_auctionId);
         }
+        cancelled[_auctionId] = true;
+
+        emit AuctionCancelled(_auctionId, msg.sender);
+    }
+
+    /**
+     * @notice Decryption oracle callback completing settlement
+     * @param _requestId Request ID returned by FHE.requestDecryption
+     * @param _winningBid Decrypted price: highest bid, second-highest (at
+     *        least the reserve) for Vickrey, or the accepted ask for Dutch;
+     *        raised to the minimum bid if below it
+     * @param _winner Decrypted highest bidder; address(0) for an unsold Dutch lot
+     * @param _reserveMet Whether the highest bid reached the reserve
+     * @param _signatures KMS signatures over the decrypted values
+     */
+    function revealWinner(
+        uint256 _requestId,
+        uint64 _winningBid,
+        address _winner,
+        bool _reserveMet,
+        bytes[] memory _signatures
+    ) public {
+        uint256 auctionId = settlementRequests[_requestId];
+        require(settlementPending[auctionId], "No pending settlement");
+
+        // Reverts unless the values were signed by the KMS
+        FHE.checkSignatures(_requestId, _signatures);
+
+        settlementPending[auctionId] = false;
+        delete settlementRequests[_requestId];
+
+        // No sale: every bidder, including the top one, is refunded in full
+        if (!_reserveMet) {
+            reserveNotMet[auctionId] = true;
+            emit ReserveNotMet(auctionId);
+            emit AuctionEnded(auctionId, address(0), 0);
+            return;
+        }
+
+        // Dutch auction where no cap ever met the ask
+        if (_winner == address(0)) {
+            emit AuctionEnded(auctionId, address(0), 0);
+            return;
+        }
+
+        // Only deposits are checked against the minimum, so an encrypted
+        // amount (or a lone Vickrey bidder's missing runner-up) may be below
+        // it; every sale is at least the minimum bid, which the deposit covers
+        uint256 price = _winningBid;
+        if (price < auctions[auctionId].minimumBid) {
+            price = auctions[auctionId].minimumBid;
+        }
+
+        auctions[auctionId].highestBidder = _winner;
+        auctions[auctionId].winningBid = price;
+
+        // Move the winning bid from the winner's deposit to the creator's
+        // proceeds; bids are capped at their deposit, so it is always covered
+        bidDeposits[auctionId][_winner] -= price;
+        auctionProceeds[auctionId] = price;
+
+        emit WinnerRevealed(auctionId, _winner, price);
+        emit AuctionEnded(auctionId, _winner, price);
+    }
+
+    /**
+     * @notice Withdraw escrowed ETH after settlement
+     * @dev Losing bidders get their full deposit back; the winner gets
+     *      whatever they deposited above the winning bid
+     */
+    function withdrawRefund(uint256 _auctionId) public {
+        requireValidAuction(_auctionId);
+        require(!auctions[_auctionId].isActive && !settlementPending[_auctionId], "Auction is not settled");
+
+        uint256 amount = bidDeposits[_auctionId][msg.sender];
+        require(amount > 0, "No refund available");
+
+        bidDeposits[_auctionId][msg.sender] = 0;
+        amount += cancellationCompensation[_auctionId];
+        releaseEscrow(amount);
+
+        emit RefundWithdrawn(_auctionId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Withdraw the winning bid once the winner has been revealed
+     */
+    function claimProceeds(uint256 _auctionId) public {
+        requireValidAuction(_auctionId);
+        require(msg.sender == auctions[_auctionId].creator, "Only creator can claim proceeds");
+
+        uint256 amount = auctionProceeds[_auctionId];
+        require(amount > 0, "No proceeds available");
+
+        auctionProceeds[_auctionId] = 0;
+        releaseEscrow(amount);
+
+        emit ProceedsClaimed(_auctionId, msg.sender, amount);
+    }
+
+    function requireNotPaused() internal view {
+        require(!governance.paused(), "Auctions are paused");
+    }
+
+    // Pay escrowed ETH out to the caller
+    function releaseEscrow(uint256 _amount) internal {
+        totalEscrowed -= _amount;
+        (bool success, ) = payable(msg.sender).call{value: _amount}("");
+        require(success, "Transfer failed");
+    }
+
+    function requireValidAuction(uint256 _auctionId) internal view {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+    }
+
+    function removeFromActiveSet(uint256 _auctionId) internal {
+        uint256 index = activeIndex[_auctionId];
+        uint256 lastId = activeAuctionIds[activeAuctionIds.length - 1];
+
+        activeAuctionIds[index - 1] = lastId;
+        activeIndex[lastId] = index;
+        activeAuctionIds.pop();
+        delete activeIndex[_auctionId];
+        activeAuctionsByCategory[auctions[_auctionId].categoryId]--;
+    }
+
+    /**
+     * @notice Auctions accepting bids or scheduled to, past endTime excluded
+     * @dev Scans only the active set, not every auction ever created
+     */
+    function getActiveAuctions() public view returns (Auction[] memory) {
+        uint256 activeCount = countOpenAuctions();
 
         Auction[] memory activeAuctions = new Auction[](activeCount);
         uint256 currentIndex = 0;
 
-        // Populate active auctions array
-        for (uint256 i = 1; i < nextAuctionId; i++) {
-            if (auctions[i].isActive && block.timestamp < auctions[i].endTime) {
-                activeAuctions[currentIndex] = auctions[i];
+        for (uint256 i = 0; i < activeAuctionIds.length; i++) {
+            uint256 id = activeAuctionIds[i];
+            if (block.timestamp < auctions[id].endTime) {
+                activeAuctions[currentIndex] = auctions[id];
                 currentIndex++;
             }
         }
@@ -206,12 +1116,125 @@ contract ConfidentialAuction {
         return activeAuctions;
     }
 
+    /**
+     * @notice Page through auctions in ID order, skipping non-matching ones
+     * @param _offset Auction IDs already examined; 0 for the first page,
+     *        then the returned nextOffset
+     * @param _limit Maximum results, at most MAX_PAGE_SIZE
+     * @return page Matching auctions, without descriptions or ciphertexts
+     * @return nextOffset Offset for the next call; 0 once every ID is examined
+     * @dev At most MAX_SCAN IDs are examined per call, so a sparse filter
+     *      can return a short (even empty) page with a non-zero nextOffset
+     */
+    function getAuctions(
+        uint256 _offset,
+        uint256 _limit,
+        AuctionFilter calldata _filter
+    ) public view returns (AuctionSummary[] memory page, uint256 nextOffset) {
+        require(_limit > 0 && _limit <= MAX_PAGE_SIZE, "Invalid page size");
+
+        AuctionSummary[] memory matches = new AuctionSummary[](_limit);
+        uint256 found = 0;
+        uint256 id = _offset + 1;
+        uint256 scanEnd = id + MAX_SCAN;
+
+        for (; id < nextAuctionId && id < scanEnd && found < _limit; id++) {
+            Auction storage auction = auctions[id];
+            if (_filter.creator != address(0) && auction.creator != _filter.creator) {
+                continue;
+            }
+            if (_filter.categoryId != 0 && auction.categoryId != _filter.categoryId) {
+                continue;
+            }
+            bool open = auction.isActive && block.timestamp < auction.endTime;
+            if (
+                (_filter.status == StatusFilter.Active && !open) ||
+                (_filter.status == StatusFilter.Ended && open)
+            ) {
+                continue;
+            }
+
+            matches[found++] = toSummary(id);
+        }
+
+        page = new AuctionSummary[](found);
+        for (uint256 i = 0; i < found; i++) {
+            page[i] = matches[i];
+        }
+        nextOffset = id < nextAuctionId ? id - 1 : 0;
+    }
+
+    /**
+     * @notice Page through the auctions of one category, in ID order
+     * @param _offset Entries already returned; 0 for the first page, then
+     *        the returned nextOffset
+     * @return page Auction summaries, ended ones included
+     * @return nextOffset Offset for the next call; 0 on the last page
+     */
+    function getAuctionsByCategory(
+        uint256 _categoryId,
+        uint256 _offset,
+        uint256 _limit
+    ) public view returns (AuctionSummary[] memory page, uint256 nextOffset) {
+        require(_limit > 0 && _limit <= MAX_PAGE_SIZE, "Invalid page size");
+
+        uint256[] storage ids = categoryAuctionIds[_categoryId];
+        uint256 end = _offset + _limit < ids.length ? _offset + _limit : ids.length;
+        if (_offset >= end) {
+            return (new AuctionSummary[](0), 0);
+        }
+
+        page = new AuctionSummary[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = toSummary(ids[i]);
+        }
+        nextOffset = end < ids.length ? end : 0;
+    }
+
+    function toSummary(uint256 _auctionId) internal view returns (AuctionSummary memory) {
+        Auction storage auction = auctions[_auctionId];
+        return AuctionSummary({
+            id: _auctionId,
+            title: auction.title,
+            categoryId: auction.categoryId,
+            minimumBid: auction.minimumBid,
+            creator: auction.creator,
+            isActive: auction.isActive,
+            startTime: auction.startTime,
+            endTime: auction.endTime,
+            bidCount: auction.bidCount,
+            auctionType: auction.auctionType
+        });
+    }
+
+    /**
+     * @notice Lifecycle phase of an auction at the current block time
+     */
+    function getAuctionPhase(uint256 _auctionId) public view returns (AuctionPhase) {
+        requireValidAuction(_auctionId);
+        Auction storage auction = auctions[_auctionId];
+
+        if (cancelled[_auctionId]) {
+            return AuctionPhase.Cancelled;
+        }
+        if (!auction.isActive) {
+            return settlementPending[_auctionId] ? AuctionPhase.Closed : AuctionPhase.Settled;
+        }
+        if (block.timestamp < auction.startTime) {
+            return AuctionPhase.Scheduled;
+        }
+        if (block.timestamp < auction.endTime) {
+            return AuctionPhase.Open;
+        }
+        return AuctionPhase.Closed;
+    }
+
     function getUserAuctions(address _user) public view returns (uint256[] memory) {
         return userAuctions[_user];
     }
 
     function getAuctionBidCount(uint256 _auctionId) public view returns (uint256) {
-        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        requireValidAuction(_auctionId);
         return auctions[_auctionId].bidCount;
     }
 
@@ -219,32 +1242,48 @@ contract ConfidentialAuction {
         return hasUserBid[_user][_auctionId];
     }
 
+    // Handle of the caller's own encrypted bid; only the caller can user-decrypt it
+    function getMyBid(uint256 _auctionId) public view returns (euint64) {
+        requireValidAuction(_auctionId);
+        require(hasUserBid[msg.sender][_auctionId], "You have not placed a bid on this auction");
+        return auctionBids[_auctionId][bidIndex[_auctionId][msg.sender]].amount;
+    }
+
     // Function to get auction details by ID
     function getAuction(uint256 _auctionId) public view returns (Auction memory) {
-        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        requireValidAuction(_auctionId);
         return auctions[_auctionId];
     }
 
     // Function to get total counts for stats
     function getTotalCounts() public view returns (uint256 totalAuctionCount, uint256 activeAuctionCount) {
-        uint256 activeCount = 0;
+        return (totalAuctions, countOpenAuctions());
+    }
 
-        for (uint256 i = 1; i < nextAuctionId; i++) {
-            if (auctions[i].isActive && block.timestamp < auctions[i].endTime) {
-                activeCount++;
+    // Active-set entries still before their end time
+    function countOpenAuctions() internal view returns (uint256 count) {
+        for (uint256 i = 0; i < activeAuctionIds.length; i++) {
+            if (block.timestamp < auctions[activeAuctionIds[i]].endTime) {
+                count++;
             }
         }
-
-        return (totalAuctions, activeCount);
     }
 
-    // Emergency function to withdraw contract balance (only for testing)
+    /**
+     * @notice Recover ETH sent to the contract directly; admin only, while paused
+     * @dev Escrowed deposits and proceeds are never touched
+     */
     function emergencyWithdraw() public {
-        require(msg.sender == address(this), "Only contract can withdraw");
-        payable(msg.sender).transfer(address(this).balance);
+        require(governance.isAdmin(msg.sender), "Only admin can recover funds");
+        require(governance.paused(), "Auctions are not paused");
+        uint256 amount = address(this).balance - totalEscrowed;
+        require(amount > 0, "Nothing to recover");
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer failed");
     }
 
     // Allow contract to receive ETH
     receive() external payable {}
     fallback() external payable {}
-}
\ No newline at end of file
+}
\ No newline at end of file
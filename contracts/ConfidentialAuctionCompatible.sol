@@ -3,6 +3,9 @@ pragma solidity ^0.8.24;
 
 // Compatible Confidential Auction with simulated FHE types
 // Works on all networks while maintaining FHE interface
+//
+// Deprecated: the "encrypted" types below are plain integers and bids are
+// plaintext placeBid arguments. Use ConfidentialAuction for sealed bids.
 contract ConfidentialAuctionCompatible {
 
     // Simulated FHE types for compatibility
@@ -223,4 +226,4 @@ contract ConfidentialAuctionCompatible {
         require(msg.sender == address(this), "Only contract owner");
         payable(msg.sender).transfer(address(this).balance);
     }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -4,6 +4,9 @@ pragma solidity ^0.8.24;
 import { FHE, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
+// Deprecated: placeBid takes the amount as a plaintext uint256 and only
+// encrypts it on-chain, so every bid is readable in calldata. Use
+// ConfidentialAuction, which takes an externalEuint64 with an input proof.
 contract ConfidentialAuctionFHE is SepoliaConfig {
 
     struct Auction {
@@ -236,4 +239,4 @@ contract ConfidentialAuctionFHE is SepoliaConfig {
         require(msg.sender == address(this), "Only contract owner");
         payable(msg.sender).transfer(address(this).balance);
     }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -4,6 +4,9 @@ pragma solidity ^0.8.24;
 import { FHE, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
+// Deprecated: bids reach placeBid as plaintext uint256 calldata before
+// FHE.asEuint64 encrypts them. No longer deployed by scripts/deploy.ts;
+// use ConfidentialAuction.
 contract ConfidentialAuctionMinimal is SepoliaConfig {
 
     struct Auction {
@@ -185,4 +188,4 @@ contract ConfidentialAuctionMinimal is SepoliaConfig {
         require(auctions[_auctionId].creator == msg.sender, "Only creator can end auction");
         auctions[_auctionId].isActive = false;
     }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -4,6 +4,8 @@ pragma solidity ^0.8.24;
 import { FHE, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
+// Deprecated: the bid amount is a plaintext placeBid argument that anyone
+// can read from the transaction. Use ConfidentialAuction.
 contract ConfidentialAuctionReal is SepoliaConfig {
 
     struct Auction {
@@ -195,6 +197,21 @@ contract ConfidentialAuctionReal is SepoliaConfig {
         return hasUserBid[_user][_auctionId];
     }
 
+    // Handle of the caller's latest bid on an auction. Only the caller is
+    // allowed to decrypt it, through the EIP-712 user-decryption flow.
+    function getMyBid(uint256 _auctionId) external view returns (euint64) {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        require(hasUserBid[msg.sender][_auctionId], "You have not placed a bid on this auction");
+
+        Bid[] storage bids = auctionBids[_auctionId];
+        for (uint256 i = bids.length; i > 0; i--) {
+            if (bids[i - 1].bidder == msg.sender) {
+                return bids[i - 1].amount;
+            }
+        }
+        revert("You have not placed a bid on this auction");
+    }
+
     function getHighestBidder(uint256 _auctionId) external view returns (address) {
         require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
         return auctions[_auctionId].highestBidder;
@@ -212,4 +229,4 @@ contract ConfidentialAuctionReal is SepoliaConfig {
         require(msg.sender == address(this), "Only contract owner");
         payable(msg.sender).transfer(address(this).balance);
     }
-}
\ No newline at end of file
+}
\ No newline at end of file
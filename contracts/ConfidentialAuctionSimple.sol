@@ -4,6 +4,9 @@ pragma solidity ^0.8.24;
 // Simplified Confidential Auction contract
 // Ready for deployment without FHEVM dependencies
 // Can be upgraded to full FHEVM when environment is ready
+//
+// Deprecated: nothing is encrypted; bids and the highest bid are public.
+// Use ConfidentialAuction.
 contract ConfidentialAuctionSimple {
 
     struct Auction {
@@ -218,4 +221,4 @@ contract ConfidentialAuctionSimple {
     // Allow contract to receive ETH
     receive() external payable {}
     fallback() external payable {}
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// Confidential ERC20 used as an auction payment token. Based on
+// examples/openzeppelin/ConfidentialERC20.sol, with two changes so other
+// contracts can move funds:
+//   - transfers never underflow: an insufficient balance or allowance
+//     moves 0 instead of reverting (a revert would leak the balance)
+//   - transfer/transferFrom also accept euint64 handles the caller is
+//     allowed to use, and return the amount actually moved
+contract ConfidentialERC20 is SepoliaConfig {
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+    address public owner;
+
+    mapping(address => euint64) internal balances;
+    mapping(address => mapping(address => euint64)) internal allowances;
+
+    // Amounts are encrypted, so events only carry the parties
+    event Transfer(address indexed from, address indexed to);
+    event Approval(address indexed owner, address indexed spender);
+    event Mint(address indexed to, uint64 amount);
+
+    constructor(string memory _name, string memory _symbol, uint8 _decimals) {
+        name = _name;
+        symbol = _symbol;
+        decimals = _decimals;
+        owner = msg.sender;
+    }
+
+    /**
+     * @notice Mint a public amount of tokens; owner only
+     */
+    function mint(address _to, uint64 _amount) public {
+        require(msg.sender == owner, "Only owner can mint");
+        require(_to != address(0), "Mint to zero address");
+
+        euint64 newBalance = FHE.add(balances[_to], _amount);
+        FHE.allowThis(newBalance);
+        FHE.allow(newBalance, _to);
+        balances[_to] = newBalance;
+
+        emit Mint(_to, _amount);
+    }
+
+    /**
+     * @notice Encrypted balance handle; only `_account` can decrypt it
+     */
+    function balanceOf(address _account) public view returns (euint64) {
+        return balances[_account];
+    }
+
+    /**
+     * @notice Encrypted allowance handle; owner and spender can decrypt it
+     */
+    function allowance(address _owner, address _spender) public view returns (euint64) {
+        return allowances[_owner][_spender];
+    }
+
+    function approve(address _spender, externalEuint64 _encryptedAmount, bytes calldata _inputProof) public {
+        require(_spender != address(0), "Approve to zero address");
+
+        euint64 amount = FHE.fromExternal(_encryptedAmount, _inputProof);
+        setAllowance(msg.sender, _spender, amount);
+
+        emit Approval(msg.sender, _spender);
+    }
+
+    function transfer(
+        address _to,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) public returns (euint64) {
+        return transferAmount(msg.sender, _to, FHE.fromExternal(_encryptedAmount, _inputProof));
+    }
+
+    /**
+     * @notice Transfer an encrypted amount the caller already holds a handle to
+     * @dev For contract callers, which grant access with FHE.allowTransient
+     */
+    function transfer(address _to, euint64 _amount) public returns (euint64) {
+        require(FHE.isSenderAllowed(_amount), "Amount not allowed for caller");
+        return transferAmount(msg.sender, _to, _amount);
+    }
+
+    function transferFrom(
+        address _from,
+        address _to,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) public returns (euint64) {
+        return spendAllowance(_from, _to, FHE.fromExternal(_encryptedAmount, _inputProof));
+    }
+
+    /**
+     * @notice transferFrom with an encrypted amount handle
+     * @dev For contract callers, which grant access with FHE.allowTransient
+     */
+    function transferFrom(address _from, address _to, euint64 _amount) public returns (euint64) {
+        require(FHE.isSenderAllowed(_amount), "Amount not allowed for caller");
+        return spendAllowance(_from, _to, _amount);
+    }
+
+    function spendAllowance(address _from, address _to, euint64 _amount) internal returns (euint64) {
+        euint64 currentAllowance = allowances[_from][msg.sender];
+        ebool allowed = FHE.le(_amount, currentAllowance);
+
+        euint64 transferred = transferAmount(_from, _to, FHE.select(allowed, _amount, FHE.asEuint64(0)));
+        setAllowance(_from, msg.sender, FHE.sub(currentAllowance, transferred));
+        return transferred;
+    }
+
+    /**
+     * @dev Moves `_amount` if `_from` can cover it, otherwise 0. The caller
+     *      gets access to the returned amount.
+     */
+    function transferAmount(address _from, address _to, euint64 _amount) internal returns (euint64) {
+        require(_to != address(0), "Transfer to zero address");
+
+        ebool canPay = FHE.le(_amount, balances[_from]);
+        euint64 transferred = FHE.select(canPay, _amount, FHE.asEuint64(0));
+
+        euint64 newFromBalance = FHE.sub(balances[_from], transferred);
+        FHE.allowThis(newFromBalance);
+        FHE.allow(newFromBalance, _from);
+        balances[_from] = newFromBalance;
+
+        euint64 newToBalance = FHE.add(balances[_to], transferred);
+        FHE.allowThis(newToBalance);
+        FHE.allow(newToBalance, _to);
+        balances[_to] = newToBalance;
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+
+        emit Transfer(_from, _to);
+        return transferred;
+    }
+
+    function setAllowance(address _owner, address _spender, euint64 _amount) internal {
+        FHE.allowThis(_amount);
+        FHE.allow(_amount, _owner);
+        FHE.allow(_amount, _spender);
+        allowances[_owner][_spender] = _amount;
+    }
+}
@@ -0,0 +1,551 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { AuctionGovernance } from "./AuctionGovernance.sol";
+
+// Multi-unit uniform-price auction using Zama FHEVM: a lot of identical
+// units goes to the highest encrypted unit prices, and every winner pays
+// the same clearing price. Bids are backed by an ETH deposit. Settlement
+// decrypts the clearing price and the total number of units sold, which
+// pays the creator. A bidder's allocation stays encrypted until that bidder
+// settles their own bid to take back the rest of their deposit.
+//
+// Roles come from AuctionGovernance: moderators cancel fraudulent listings
+// and keepers re-request settlement decryptions the oracle dropped. While
+// governance is paused no auctions or bids are accepted.
+contract ConfidentialMultiUnitAuction is SepoliaConfig {
+    using FHE for euint64;
+
+    struct Auction {
+        uint256 id;
+        string title;
+        string description;
+        string category;
+        uint32 units;
+        uint64 minimumPrice; // Per unit
+        address creator;
+        uint256 timestamp;
+        bool isActive;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 bidCount;
+        uint64 clearingPrice; // Revealed uniform price, 0 until revealed
+        uint64 unitsSold; // Revealed with the clearing price
+    }
+
+    struct Bid {
+        address bidder;
+        euint64 quantity;
+        euint64 unitPrice;
+        uint256 timestamp;
+    }
+
+    // Payment decryption requested by settleBid
+    struct PaymentRequest {
+        uint256 auctionId;
+        address bidder;
+    }
+
+    mapping(uint256 => Auction) public auctions;
+    mapping(uint256 => Bid[]) public auctionBids;
+    mapping(address => mapping(uint256 => bool)) public hasUserBid;
+
+    // Units won per bidder, decryptable only by that bidder
+    mapping(uint256 => mapping(address => euint64)) internal allocations;
+
+    // Settlement decryption requests (requestId => auctionId)
+    mapping(uint256 => uint256) private settlementRequests;
+    mapping(uint256 => bool) public settlementPending;
+
+    // Encrypted clearing price and units sold, kept so a dropped
+    // settlement decryption can be requested again
+    mapping(uint256 => euint64) private encryptedClearingPrices;
+    mapping(uint256 => euint64) private encryptedUnitsSold;
+
+    // Escrowed ETH: each bidder's deposit until refunded, and the creator's
+    // proceeds, clearing price × units sold
+    mapping(uint256 => mapping(address => uint256)) public bidDeposits;
+    mapping(uint256 => uint256) public auctionProceeds;
+
+    // Payment decryption requests (requestId => bid), and bids whose
+    // payment has been taken from the deposit
+    mapping(uint256 => PaymentRequest) private paymentRequests;
+    mapping(uint256 => mapping(address => bool)) public bidSettled;
+
+    // Cancelled by a moderator; every deposit is refundable in full
+    mapping(uint256 => bool) public cancelled;
+
+    uint256 public nextAuctionId = 1;
+    uint256 public totalAuctions = 0;
+
+    uint256 public constant DEFAULT_DURATION = 7 days;
+    uint256 public constant MIN_DURATION = 1 hours;
+    uint256 public constant MAX_DURATION = 30 days;
+    uint256 public constant MAX_START_DELAY = 30 days;
+
+    // Clearing compares every bid with every other bid, so the number of
+    // FHE operations in endAuction grows with the square of the bid count
+    uint256 public constant MAX_BIDS = 16;
+
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        string title,
+        string category,
+        uint32 units,
+        uint64 minimumPrice,
+        address indexed creator,
+        uint256 endTime
+    );
+
+    event BidPlaced(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 timestamp
+    );
+
+    event SettlementRequested(
+        uint256 indexed auctionId,
+        uint256 requestId
+    );
+
+    event AuctionEnded(
+        uint256 indexed auctionId,
+        uint64 clearingPrice,
+        uint64 unitsSold
+    );
+
+    event PaymentRequested(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 requestId
+    );
+
+    // payment / clearingPrice is the number of units the bidder won
+    event BidSettled(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 payment
+    );
+
+    event RefundWithdrawn(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 amount
+    );
+
+    event ProceedsClaimed(
+        uint256 indexed auctionId,
+        address indexed creator,
+        uint256 amount
+    );
+
+    event AuctionCancelled(
+        uint256 indexed auctionId,
+        address indexed cancelledBy
+    );
+
+    // Roles and pause switch
+    AuctionGovernance public immutable governance;
+
+    constructor(AuctionGovernance _governance) {
+        require(address(_governance) != address(0), "Governance cannot be zero");
+        governance = _governance;
+    }
+
+    /**
+     * @notice List `_units` identical units, optionally scheduled to open later
+     * @param _minimumPrice Floor per unit; also the price paid when demand is below `_units`
+     * @param _startTime When bidding opens; 0 opens it immediately
+     * @param _duration Bidding window in seconds; 0 uses DEFAULT_DURATION
+     */
+    function createAuction(
+        string memory _title,
+        string memory _description,
+        string memory _category,
+        uint32 _units,
+        uint64 _minimumPrice,
+        uint256 _startTime,
+        uint256 _duration
+    ) public {
+        require(!governance.paused(), "Auctions are paused");
+        require(bytes(_title).length > 0, "Title cannot be empty");
+        require(bytes(_description).length > 0, "Description cannot be empty");
+        require(bytes(_category).length > 0, "Category cannot be empty");
+        require(_units > 0, "Units must be greater than 0");
+        require(_minimumPrice > 0, "Minimum bid must be greater than 0");
+
+        uint256 startTime = _startTime == 0 ? block.timestamp : _startTime;
+        uint256 duration = _duration == 0 ? DEFAULT_DURATION : _duration;
+        require(startTime >= block.timestamp, "Start time is in the past");
+        require(startTime <= block.timestamp + MAX_START_DELAY, "Start time too far in the future");
+        require(duration >= MIN_DURATION, "Duration too short");
+        require(duration <= MAX_DURATION, "Duration too long");
+
+        uint256 auctionId = nextAuctionId++;
+        uint256 endTime = startTime + duration;
+
+        auctions[auctionId] = Auction({
+            id: auctionId,
+            title: _title,
+            description: _description,
+            category: _category,
+            units: _units,
+            minimumPrice: _minimumPrice,
+            creator: msg.sender,
+            timestamp: block.timestamp,
+            isActive: true,
+            startTime: startTime,
+            endTime: endTime,
+            bidCount: 0,
+            clearingPrice: 0,
+            unitsSold: 0
+        });
+        totalAuctions++;
+
+        emit AuctionCreated(auctionId, _title, _category, _units, _minimumPrice, msg.sender, endTime);
+    }
+
+    /**
+     * @notice Bid for some of the units at a price per unit, both encrypted
+     * @param _encryptedQuantity Units wanted, encrypted for [this contract, msg.sender]
+     * @param _encryptedUnitPrice Maximum price per unit, in the same encrypted input
+     * @param _inputProof Proof covering both handles
+     * @dev msg.value is escrowed and must cover quantity × unit price.
+     *      Bids below the floor or above the deposit are voided
+     *      homomorphically rather than rejected, so a revert never tells
+     *      anyone the price was too low. A voided bid wins nothing and its
+     *      deposit is refunded in full. Quantities above the lot size are
+     *      capped at the lot size.
+     */
+    function placeBid(
+        uint256 _auctionId,
+        externalEuint64 _encryptedQuantity,
+        externalEuint64 _encryptedUnitPrice,
+        bytes calldata _inputProof
+    ) public payable {
+        require(!governance.paused(), "Auctions are paused");
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        Auction storage auction = auctions[_auctionId];
+        require(auction.isActive, "Auction is not active");
+        require(block.timestamp >= auction.startTime, "Auction has not started");
+        require(block.timestamp < auction.endTime, "Auction has ended");
+        require(msg.sender != auction.creator, "Cannot bid on your own auction");
+        require(!hasUserBid[msg.sender][_auctionId], "You have already placed a bid on this auction");
+        require(auction.bidCount < MAX_BIDS, "Too many bids");
+        require(msg.value >= auction.minimumPrice, "Bid below minimum amount");
+        require(msg.value <= type(uint64).max, "Deposit too large");
+
+        euint64 unitPrice = FHE.fromExternal(_encryptedUnitPrice, _inputProof);
+        euint64 quantity = FHE.min(FHE.fromExternal(_encryptedQuantity, _inputProof), uint64(auction.units));
+
+        // The cost is taken in 128 bits so a large quantity × price cannot wrap
+        euint128 cost = FHE.mul(FHE.asEuint128(quantity), FHE.asEuint128(unitPrice));
+        ebool valid = FHE.and(unitPrice.ge(auction.minimumPrice), FHE.le(cost, uint128(msg.value)));
+        euint64 zero = FHE.asEuint64(0);
+        unitPrice = FHE.select(valid, unitPrice, zero);
+        quantity = FHE.select(valid, quantity, zero);
+
+        FHE.allowThis(unitPrice);
+        FHE.allowThis(quantity);
+        FHE.allow(unitPrice, msg.sender);
+        FHE.allow(quantity, msg.sender);
+
+        auctionBids[_auctionId].push(Bid({
+            bidder: msg.sender,
+            quantity: quantity,
+            unitPrice: unitPrice,
+            timestamp: block.timestamp
+        }));
+        auction.bidCount++;
+        hasUserBid[msg.sender][_auctionId] = true;
+        bidDeposits[_auctionId][msg.sender] = msg.value;
+
+        emit BidPlaced(_auctionId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @notice End an auction, compute the clearing price and allocations
+     *         homomorphically, and request decryption of the price and the
+     *         units sold only
+     * @dev Settlement is completed by the decryption oracle calling
+     *      revealClearingPrice; auctions without bids end immediately
+     */
+    function endAuction(uint256 _auctionId) public {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        Auction storage auction = auctions[_auctionId];
+        require(auction.isActive, "Auction is not active");
+        require(
+            block.timestamp >= auction.endTime || msg.sender == auction.creator,
+            "Auction has not ended yet and you are not the creator"
+        );
+
+        auction.isActive = false;
+
+        if (auction.bidCount == 0) {
+            emit AuctionEnded(_auctionId, 0, 0);
+            return;
+        }
+
+        (euint64 clearingPrice, euint64 unitsSold) = computeClearingPrice(_auctionId);
+        FHE.allowThis(clearingPrice);
+        FHE.allowThis(unitsSold);
+        allocateUnits(_auctionId, clearingPrice);
+
+        encryptedClearingPrices[_auctionId] = clearingPrice;
+        encryptedUnitsSold[_auctionId] = unitsSold;
+        settlementPending[_auctionId] = true;
+        requestSettlement(_auctionId);
+    }
+
+    /**
+     * @notice Request the settlement decryption again; creator or keeper
+     * @dev For a request the oracle never answered, which would otherwise
+     *      lock every deposit. Whichever request is answered first settles
+     *      the auction; later answers revert.
+     */
+    function retrySettlement(uint256 _auctionId) public {
+        require(
+            msg.sender == auctions[_auctionId].creator || governance.isKeeper(msg.sender),
+            "Only creator or keeper can retry settlement"
+        );
+        require(settlementPending[_auctionId], "No pending settlement");
+        requestSettlement(_auctionId);
+    }
+
+    /**
+     * @notice Cancel a fraudulent listing; moderator only
+     * @dev Works while bidding is open or settlement is pending. Nothing is
+     *      paid to the creator and every bidder can withdraw their full
+     *      deposit with withdrawRefund, without settling their bid.
+     */
+    function cancelListing(uint256 _auctionId) public {
+        require(governance.isModerator(msg.sender), "Only moderator can cancel listings");
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        require(
+            auctions[_auctionId].isActive || settlementPending[_auctionId],
+            "Auction is already settled"
+        );
+
+        auctions[_auctionId].isActive = false;
+        settlementPending[_auctionId] = false;
+        cancelled[_auctionId] = true;
+
+        emit AuctionCancelled(_auctionId, msg.sender);
+    }
+
+    function requestSettlement(uint256 _auctionId) internal {
+        // Handle order must match the revealClearingPrice arguments
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(encryptedClearingPrices[_auctionId]);
+        cts[1] = FHE.toBytes32(encryptedUnitsSold[_auctionId]);
+        uint256 requestId = FHE.requestDecryption(cts, this.revealClearingPrice.selector);
+        settlementRequests[requestId] = _auctionId;
+
+        emit SettlementRequested(_auctionId, requestId);
+    }
+
+    /**
+     * @dev The K-th highest unit price: the highest bid price at which the
+     *      units demanded at that price or above cover the lot. If total
+     *      demand is below the lot size every valid bid wins at the floor.
+     *      The allocations then add up to the smaller of demand and lot size.
+     */
+    function computeClearingPrice(uint256 _auctionId) internal returns (euint64, euint64) {
+        Bid[] storage bids = auctionBids[_auctionId];
+        uint64 units = auctions[_auctionId].units;
+        euint64 zero = FHE.asEuint64(0);
+
+        euint64 clearingPrice = zero;
+        euint64 totalDemand = zero;
+        for (uint256 i = 0; i < bids.length; i++) {
+            euint64 demand = zero;
+            for (uint256 j = 0; j < bids.length; j++) {
+                demand = demand.add(FHE.select(bids[j].unitPrice.ge(bids[i].unitPrice), bids[j].quantity, zero));
+            }
+            clearingPrice = FHE.max(clearingPrice, FHE.select(demand.ge(units), bids[i].unitPrice, zero));
+            totalDemand = totalDemand.add(bids[i].quantity);
+        }
+
+        ebool oversubscribed = totalDemand.ge(units);
+        return (
+            FHE.select(oversubscribed, clearingPrice, FHE.asEuint64(auctions[_auctionId].minimumPrice)),
+            FHE.select(oversubscribed, FHE.asEuint64(units), totalDemand)
+        );
+    }
+
+    /**
+     * @dev Bids above the clearing price are filled in full. Bids at the
+     *      clearing price share what is left, in bid order. Each allocation
+     *      is readable only by the contract and its bidder.
+     */
+    function allocateUnits(uint256 _auctionId, euint64 _clearingPrice) internal {
+        Bid[] storage bids = auctionBids[_auctionId];
+        euint64 zero = FHE.asEuint64(0);
+
+        euint64 filledAbove = zero;
+        for (uint256 i = 0; i < bids.length; i++) {
+            filledAbove = filledAbove.add(FHE.select(bids[i].unitPrice.gt(_clearingPrice), bids[i].quantity, zero));
+        }
+        euint64 remaining = FHE.asEuint64(auctions[_auctionId].units).sub(filledAbove);
+
+        for (uint256 i = 0; i < bids.length; i++) {
+            euint64 tieFill = FHE.select(
+                bids[i].unitPrice.eq(_clearingPrice),
+                FHE.min(bids[i].quantity, remaining),
+                zero
+            );
+            remaining = remaining.sub(tieFill);
+
+            euint64 allocation = FHE.select(bids[i].unitPrice.gt(_clearingPrice), bids[i].quantity, tieFill);
+            FHE.allowThis(allocation);
+            FHE.allow(allocation, bids[i].bidder);
+            allocations[_auctionId][bids[i].bidder] = allocation;
+        }
+    }
+
+    /**
+     * @notice Decryption oracle callback completing settlement
+     * @param _requestId Request ID returned by FHE.requestDecryption
+     * @param _clearingPrice Decrypted uniform price per unit
+     * @param _unitsSold Decrypted total of the allocations
+     * @param _signatures KMS signatures over the decrypted values
+     */
+    function revealClearingPrice(
+        uint256 _requestId,
+        uint64 _clearingPrice,
+        uint64 _unitsSold,
+        bytes[] memory _signatures
+    ) public {
+        uint256 auctionId = settlementRequests[_requestId];
+        require(settlementPending[auctionId], "No pending settlement");
+
+        // Reverts unless the values were signed by the KMS
+        FHE.checkSignatures(_requestId, _signatures);
+
+        settlementPending[auctionId] = false;
+        delete settlementRequests[_requestId];
+
+        auctions[auctionId].clearingPrice = _clearingPrice;
+        auctions[auctionId].unitsSold = _unitsSold;
+
+        // The winners' payments add up to this, so the creator is paid
+        // without decrypting any single bidder's allocation
+        auctionProceeds[auctionId] = uint256(_clearingPrice) * _unitsSold;
+
+        emit AuctionEnded(auctionId, _clearingPrice, _unitsSold);
+    }
+
+    /**
+     * @notice Request decryption of what you owe, your allocation times the
+     *         clearing price, to get the rest of your deposit back
+     * @dev Only the bidder can call it: the decrypted payment reveals how
+     *      many units they won, which stays private until they choose to
+     *      claim their refund. The creator is paid at settlement either way.
+     *      Calling it again re-requests a decryption the oracle dropped; the
+     *      first answer settles the bid.
+     */
+    function settleBid(uint256 _auctionId) public {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        require(!auctions[_auctionId].isActive && !settlementPending[_auctionId], "Auction is not settled");
+        require(!cancelled[_auctionId], "Auction is cancelled");
+        require(hasUserBid[msg.sender][_auctionId], "No bid to settle");
+        require(!bidSettled[_auctionId][msg.sender], "Bid already settled");
+
+        // At most quantity × unit price, which the deposit covers
+        euint64 payment = FHE.mul(allocations[_auctionId][msg.sender], auctions[_auctionId].clearingPrice);
+        FHE.allowThis(payment);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(payment);
+        uint256 requestId = FHE.requestDecryption(cts, this.revealPayment.selector);
+        paymentRequests[requestId] = PaymentRequest({ auctionId: _auctionId, bidder: msg.sender });
+
+        emit PaymentRequested(_auctionId, msg.sender, requestId);
+    }
+
+    /**
+     * @notice Decryption oracle callback taking a bidder's payment out of
+     *         their deposit; the creator was already credited at settlement
+     * @param _payment Decrypted allocation × clearing price
+     */
+    function revealPayment(
+        uint256 _requestId,
+        uint64 _payment,
+        bytes[] memory _signatures
+    ) public {
+        PaymentRequest memory request = paymentRequests[_requestId];
+        require(
+            request.bidder != address(0) && !bidSettled[request.auctionId][request.bidder],
+            "No pending payment"
+        );
+
+        // Reverts unless the value was signed by the KMS
+        FHE.checkSignatures(_requestId, _signatures);
+
+        delete paymentRequests[_requestId];
+        bidSettled[request.auctionId][request.bidder] = true;
+        bidDeposits[request.auctionId][request.bidder] -= _payment;
+
+        emit BidSettled(request.auctionId, request.bidder, _payment);
+    }
+
+    /**
+     * @notice Withdraw what is left of your deposit once your bid is
+     *         settled, or all of it if the auction was cancelled
+     */
+    function withdrawRefund(uint256 _auctionId) public {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        require(bidSettled[_auctionId][msg.sender] || cancelled[_auctionId], "Bid is not settled");
+
+        uint256 amount = bidDeposits[_auctionId][msg.sender];
+        require(amount > 0, "No refund available");
+
+        bidDeposits[_auctionId][msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit RefundWithdrawn(_auctionId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Withdraw clearing price × units sold once settled; creator only
+     */
+    function claimProceeds(uint256 _auctionId) public {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        require(msg.sender == auctions[_auctionId].creator, "Only creator can claim proceeds");
+
+        uint256 amount = auctionProceeds[_auctionId];
+        require(amount > 0, "No proceeds available");
+
+        auctionProceeds[_auctionId] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit ProceedsClaimed(_auctionId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Encrypted number of units allocated to `_bidder`
+     * @dev Zero until endAuction; only `_bidder` can decrypt it
+     */
+    function getAllocation(uint256 _auctionId, address _bidder) public view returns (euint64) {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        return allocations[_auctionId][_bidder];
+    }
+
+    function getAuction(uint256 _auctionId) public view returns (Auction memory) {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        return auctions[_auctionId];
+    }
+
+    function getAuctionBidCount(uint256 _auctionId) public view returns (uint256) {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        return auctions[_auctionId].bidCount;
+    }
+
+    function hasPlacedBid(address _user, uint256 _auctionId) public view returns (bool) {
+        return hasUserBid[_user][_auctionId];
+    }
+}
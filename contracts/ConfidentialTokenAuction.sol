@@ -0,0 +1,297 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool, eaddress } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ConfidentialERC20 } from "./ConfidentialERC20.sol";
+import { AuctionGovernance } from "./AuctionGovernance.sol";
+
+// Sealed-bid first-price auction paid in a ConfidentialERC20. Bids are
+// escrowed as encrypted token amounts, so unlike msg.value the deposit
+// reveals nothing. Settlement is fully homomorphic: the creator receives
+// the highest escrow and every other bidder can pull theirs back, without
+// the amount or the winner ever being decrypted.
+//
+// Roles come from AuctionGovernance: moderators cancel fraudulent listings.
+// While governance is paused no auctions or bids are accepted. There is no
+// oracle step to retry and no ETH to recover.
+contract ConfidentialTokenAuction is SepoliaConfig {
+    using FHE for euint64;
+
+    struct Auction {
+        uint256 id;
+        string title;
+        string description;
+        string category;
+        ConfidentialERC20 paymentToken;
+        uint64 minimumBid;
+        address creator;
+        uint256 timestamp;
+        bool isActive;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 bidCount;
+        euint64 highestBidAmount;
+        eaddress encryptedHighestBidder;
+    }
+
+    mapping(uint256 => Auction) internal auctions;
+    mapping(address => mapping(uint256 => bool)) public hasUserBid;
+
+    // Encrypted token escrow per bidder; readable only by that bidder
+    mapping(uint256 => mapping(address => euint64)) internal escrows;
+    mapping(uint256 => mapping(address => bool)) public refundClaimed;
+
+    // Cancelled by a moderator; every escrow is refundable in full
+    mapping(uint256 => bool) public cancelled;
+
+    uint256 public nextAuctionId = 1;
+    uint256 public totalAuctions = 0;
+
+    uint256 public constant DEFAULT_DURATION = 7 days;
+    uint256 public constant MIN_DURATION = 1 hours;
+    uint256 public constant MAX_DURATION = 30 days;
+    uint256 public constant MAX_START_DELAY = 30 days;
+
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        string title,
+        string category,
+        address indexed paymentToken,
+        uint64 minimumBid,
+        address indexed creator,
+        uint256 endTime
+    );
+
+    event BidPlaced(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 timestamp
+    );
+
+    // No amounts: the winning bid and the winner stay encrypted
+    event AuctionEnded(uint256 indexed auctionId);
+
+    event RefundWithdrawn(
+        uint256 indexed auctionId,
+        address indexed bidder
+    );
+
+    event AuctionCancelled(
+        uint256 indexed auctionId,
+        address indexed cancelledBy
+    );
+
+    // Roles and pause switch
+    AuctionGovernance public immutable governance;
+
+    constructor(AuctionGovernance _governance) {
+        require(address(_governance) != address(0), "Governance cannot be zero");
+        governance = _governance;
+    }
+
+    /**
+     * @notice Create an auction denominated in `_paymentToken`
+     * @param _minimumBid Minimum bid in token units
+     * @param _startTime When bidding opens; 0 opens it immediately
+     * @param _duration Bidding window in seconds; 0 uses DEFAULT_DURATION
+     */
+    function createAuction(
+        string memory _title,
+        string memory _description,
+        string memory _category,
+        ConfidentialERC20 _paymentToken,
+        uint64 _minimumBid,
+        uint256 _startTime,
+        uint256 _duration
+    ) public {
+        require(!governance.paused(), "Auctions are paused");
+        require(bytes(_title).length > 0, "Title cannot be empty");
+        require(bytes(_description).length > 0, "Description cannot be empty");
+        require(bytes(_category).length > 0, "Category cannot be empty");
+        require(address(_paymentToken) != address(0), "Payment token cannot be zero");
+        require(_minimumBid > 0, "Minimum bid must be greater than 0");
+
+        uint256 startTime = _startTime == 0 ? block.timestamp : _startTime;
+        uint256 duration = _duration == 0 ? DEFAULT_DURATION : _duration;
+        require(startTime >= block.timestamp, "Start time is in the past");
+        require(startTime <= block.timestamp + MAX_START_DELAY, "Start time too far in the future");
+        require(duration >= MIN_DURATION, "Duration too short");
+        require(duration <= MAX_DURATION, "Duration too long");
+
+        uint256 auctionId = nextAuctionId++;
+        uint256 endTime = startTime + duration;
+
+        euint64 initialHighestBid = FHE.asEuint64(0);
+        FHE.allowThis(initialHighestBid);
+
+        eaddress initialHighestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(initialHighestBidder);
+
+        auctions[auctionId] = Auction({
+            id: auctionId,
+            title: _title,
+            description: _description,
+            category: _category,
+            paymentToken: _paymentToken,
+            minimumBid: _minimumBid,
+            creator: msg.sender,
+            timestamp: block.timestamp,
+            isActive: true,
+            startTime: startTime,
+            endTime: endTime,
+            bidCount: 0,
+            highestBidAmount: initialHighestBid,
+            encryptedHighestBidder: initialHighestBidder
+        });
+        totalAuctions++;
+
+        emit AuctionCreated(
+            auctionId,
+            _title,
+            _category,
+            address(_paymentToken),
+            _minimumBid,
+            msg.sender,
+            endTime
+        );
+    }
+
+    /**
+     * @notice Place a sealed bid, escrowing the encrypted amount in tokens
+     * @param _encryptedAmount Bid encrypted for [this contract, msg.sender]
+     * @dev The bidder must first approve this contract on the payment token.
+     *      A bid below the minimum, or one the bidder's balance or allowance
+     *      cannot cover, escrows 0 and can never win; nothing reverts, so
+     *      nothing about the amount leaks.
+     */
+    function placeBid(
+        uint256 _auctionId,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) public {
+        require(!governance.paused(), "Auctions are paused");
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        Auction storage auction = auctions[_auctionId];
+        require(auction.isActive, "Auction is not active");
+        require(block.timestamp >= auction.startTime, "Auction has not started");
+        require(block.timestamp < auction.endTime, "Auction has ended");
+        require(msg.sender != auction.creator, "Cannot bid on your own auction");
+        require(!hasUserBid[msg.sender][_auctionId], "You have already placed a bid on this auction");
+
+        euint64 amount = FHE.fromExternal(_encryptedAmount, _inputProof);
+        amount = FHE.select(amount.ge(auction.minimumBid), amount, FHE.asEuint64(0));
+
+        FHE.allowTransient(amount, address(auction.paymentToken));
+        euint64 escrowed = auction.paymentToken.transferFrom(msg.sender, address(this), amount);
+        FHE.allowThis(escrowed);
+        FHE.allow(escrowed, msg.sender);
+        escrows[_auctionId][msg.sender] = escrowed;
+
+        auction.bidCount++;
+        hasUserBid[msg.sender][_auctionId] = true;
+
+        // Compare what was actually escrowed, not what was claimed
+        ebool isNewHighest = escrowed.gt(auction.highestBidAmount);
+
+        euint64 newHighest = FHE.select(isNewHighest, escrowed, auction.highestBidAmount);
+        FHE.allowThis(newHighest);
+        auction.highestBidAmount = newHighest;
+
+        eaddress newHighestBidder = FHE.select(
+            isNewHighest,
+            FHE.asEaddress(msg.sender),
+            auction.encryptedHighestBidder
+        );
+        FHE.allowThis(newHighestBidder);
+        auction.encryptedHighestBidder = newHighestBidder;
+
+        emit BidPlaced(_auctionId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @notice End an auction and pay the highest escrow to the creator
+     * @dev The creator is granted access to the winner and the winning bid
+     *      so they can decrypt both and deliver the item
+     */
+    function endAuction(uint256 _auctionId) public {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        Auction storage auction = auctions[_auctionId];
+        require(auction.isActive, "Auction is not active");
+        require(
+            block.timestamp >= auction.endTime || msg.sender == auction.creator,
+            "Auction has not ended yet and you are not the creator"
+        );
+
+        auction.isActive = false;
+
+        if (auction.bidCount > 0) {
+            FHE.allowTransient(auction.highestBidAmount, address(auction.paymentToken));
+            auction.paymentToken.transfer(auction.creator, auction.highestBidAmount);
+
+            FHE.allow(auction.highestBidAmount, auction.creator);
+            FHE.allow(auction.encryptedHighestBidder, auction.creator);
+        }
+
+        emit AuctionEnded(_auctionId);
+    }
+
+    /**
+     * @notice Cancel a fraudulent listing while bidding is open; moderator only
+     * @dev Nothing is paid to the creator and every bidder, including the
+     *      one leading, can take back their whole escrow with withdrawRefund
+     */
+    function cancelListing(uint256 _auctionId) public {
+        require(governance.isModerator(msg.sender), "Only moderator can cancel listings");
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        require(auctions[_auctionId].isActive, "Auction is already settled");
+
+        auctions[_auctionId].isActive = false;
+        cancelled[_auctionId] = true;
+
+        emit AuctionCancelled(_auctionId, msg.sender);
+    }
+
+    /**
+     * @notice Take back your escrow once the auction has ended
+     * @dev Every bidder may call this: the winner's refund is an encrypted
+     *      0, so claiming does not reveal who won. After a cancellation
+     *      there is no winner and every escrow comes back in full.
+     */
+    function withdrawRefund(uint256 _auctionId) public {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        Auction storage auction = auctions[_auctionId];
+        require(!auction.isActive, "Auction is not settled");
+        require(hasUserBid[msg.sender][_auctionId], "No refund available");
+        require(!refundClaimed[_auctionId][msg.sender], "Refund already claimed");
+
+        refundClaimed[_auctionId][msg.sender] = true;
+
+        euint64 refund = escrows[_auctionId][msg.sender];
+        if (!cancelled[_auctionId]) {
+            ebool isWinner = FHE.eq(auction.encryptedHighestBidder, msg.sender);
+            refund = FHE.select(isWinner, FHE.asEuint64(0), refund);
+        }
+        FHE.allowTransient(refund, address(auction.paymentToken));
+        auction.paymentToken.transfer(msg.sender, refund);
+
+        emit RefundWithdrawn(_auctionId, msg.sender);
+    }
+
+    /**
+     * @notice Encrypted amount escrowed by `_bidder`; only they can decrypt it
+     */
+    function getEscrow(uint256 _auctionId, address _bidder) public view returns (euint64) {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        return escrows[_auctionId][_bidder];
+    }
+
+    function getAuction(uint256 _auctionId) public view returns (Auction memory) {
+        require(_auctionId > 0 && _auctionId < nextAuctionId, "Invalid auction ID");
+        return auctions[_auctionId];
+    }
+
+    function hasPlacedBid(address _user, uint256 _auctionId) public view returns (bool) {
+        return hasUserBid[_user][_auctionId];
+    }
+}
@@ -2,6 +2,9 @@
 pragma solidity ^0.8.24;
 
 // Simplified auction contract without stack depth issues
+//
+// Deprecated: a plaintext auction kept for existing deployments. Bids are
+// public; use ConfidentialAuction for sealed bids.
 contract SimpleAuction {
 
     struct Auction {
@@ -184,4 +187,4 @@ contract SimpleAuction {
         require(auctions[_auctionId].creator == msg.sender, "Only creator can end auction");
         auctions[_auctionId].isActive = false;
     }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,9 +1,22 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-verify";
-// import "@fhevm/hardhat-plugin"; // Will enable after resolving dependency issues
+import "@fhevm/hardhat-plugin";
 import "dotenv/config";
 
+/**
+ * The fhevm plugin compiles ZamaConfig with the target network's addresses:
+ * Sepolia's for --network sepolia, the mock coprocessor's everywhere else.
+ * Only Sepolia builds write the tracked artifacts and typechain-types; mock
+ * builds (npm test, local nodes) go to cache/mock instead.
+ */
+function targetNetwork(): string {
+  const index = process.argv.indexOf("--network");
+  return index !== -1 ? process.argv[index + 1] : process.env.HARDHAT_NETWORK ?? "hardhat";
+}
+
+const MOCK_BUILD = targetNetwork() !== "sepolia";
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
@@ -13,7 +26,7 @@ const config: HardhatUserConfig = {
       },
       optimizer: {
         enabled: true,
-        runs: 800,
+        runs: 100, // Favours code size: ConfidentialAuction is close to the 24 KB limit
       },
       evmVersion: "cancun",
       viaIR: true,
@@ -32,6 +45,7 @@ const config: HardhatUserConfig = {
     },
     sepolia: {
       url: process.env.SEPOLIA_RPC_URL || "https://rpc.sepolia.org",
+      chainId: 11155111, // Lets the fhevm plugin resolve Sepolia without an RPC call
       accounts: process.env.PRIVATE_KEY ? [`0x${process.env.PRIVATE_KEY}`] : [],
       gasPrice: 20000000000, // 20 gwei
     },
@@ -64,16 +78,17 @@ const config: HardhatUserConfig = {
     target: "ethers-v6",
     alwaysGenerateOverloads: false,
     externalArtifacts: ["externalArtifacts/*.json"],
+    dontOverrideCompile: MOCK_BUILD,
   },
   paths: {
     sources: "./contracts",
     tests: "./test",
-    cache: "./cache",
-    artifacts: "./artifacts",
+    cache: MOCK_BUILD ? "./cache/mock" : "./cache",
+    artifacts: MOCK_BUILD ? "./cache/mock/artifacts" : "./artifacts",
   },
   mocha: {
     timeout: 40000,
   },
 };
 
-export default config;
\ No newline at end of file
+export default config;
\ No newline at end of file
@@ -0,0 +1,60 @@
+/**
+ * @chapter: sdk
+ * Read API for ConfidentialAuction
+ *
+ * Keeps an AuctionIndexer synced and serves its database over REST and
+ * GraphQL (see sdk/api.ts), for clients that cannot talk to the chain.
+ *
+ * Usage:
+ *   AUCTION_ADDRESS=0x... npx hardhat run scripts/api-server.ts --network localhost
+ *   curl http://localhost:8080/auctions?status=active
+ *
+ * Environment:
+ *   AUCTION_ADDRESS       ConfidentialAuction address (required)
+ *   API_PORT              Port to listen on (default 8080)
+ *   INDEXER_DB            SQLite file (default auctions.db)
+ *   INDEXER_FROM_BLOCK    First block to index into a new file (default 0)
+ *   INDEXER_CONFIRMATIONS Blocks to stay behind the head (default 0)
+ *   INDEXER_INTERVAL      Poll interval in milliseconds (default 15000)
+ */
+
+import { ethers } from "hardhat";
+import { AuctionIndexer, createAuctionApi } from "../sdk";
+
+async function main() {
+  const address = process.env.AUCTION_ADDRESS;
+  if (!address) {
+    throw new Error("AUCTION_ADDRESS is not set");
+  }
+
+  const indexer = await AuctionIndexer.open({
+    address,
+    provider: ethers.provider,
+    databasePath: process.env.INDEXER_DB ?? "auctions.db",
+    fromBlock: Number(process.env.INDEXER_FROM_BLOCK ?? 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 0),
+  });
+
+  // Serve only once the index has caught up with the chain
+  console.log(`🔎 Indexing ${address} from block ${indexer.lastIndexedBlock + 1}`);
+  await indexer.sync();
+  await indexer.start(Number(process.env.INDEXER_INTERVAL ?? 15000));
+
+  const port = Number(process.env.API_PORT ?? 8080);
+  const server = createAuctionApi(indexer);
+  server.listen(port, () => {
+    console.log(`🌐 Serving auctions up to block ${indexer.lastIndexedBlock} on http://localhost:${port}`);
+  });
+
+  // Runs until interrupted
+  await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+  server.close();
+  await indexer.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ API server failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,83 @@
+/**
+ * @chapter: decryption
+ * Keeper bot that ends expired ConfidentialAuction listings
+ *
+ * Runs AuctionKeeper rounds (see sdk/keeper.ts): every active auction past
+ * its endTime is ended, and settlements the oracle has not answered within
+ * KEEPER_SETTLEMENT_TIMEOUT are requested again. On the Hardhat mock it
+ * also fulfils the decryption requests through the plugin's mock oracle,
+ * like settlement-keeper.ts; on a live network the Zama relayer does.
+ *
+ * Logs are JSON lines, one per action, for log shippers.
+ *
+ * Usage:
+ *   AUCTION_ADDRESS=0x... npx hardhat run scripts/auction-keeper.ts --network localhost
+ *
+ * Environment:
+ *   AUCTION_ADDRESS           ConfidentialAuction address (required)
+ *   KEEPER_DRY_RUN            Log what would be sent without sending
+ *   KEEPER_MAX_FEE_GWEI       Skip transactions while the max fee per gas is above this
+ *   KEEPER_MAX_GAS            Skip transactions estimated above this gas limit
+ *   KEEPER_MAX_ATTEMPTS       Attempts per transaction (default 3)
+ *   KEEPER_RETRY_DELAY        First retry delay in milliseconds (default 1000)
+ *   KEEPER_SETTLEMENT_TIMEOUT Seconds before a settlement is re-requested (default 3600)
+ *   KEEPER_FROM_BLOCK         First block to scan for settlement requests (default 0)
+ *   KEEPER_INTERVAL           Poll interval in milliseconds (default 60000)
+ *   KEEPER_ONCE               Run a single round and exit
+ */
+
+import { ethers, fhevm } from "hardhat";
+import { AuctionKeeper } from "../sdk";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const address = process.env.AUCTION_ADDRESS;
+  if (!address) {
+    throw new Error("AUCTION_ADDRESS is not set");
+  }
+
+  // Required when running outside `hardhat test`
+  await fhevm.initializeCLIApi();
+
+  const [signer] = await ethers.getSigners();
+  const maxFee = process.env.KEEPER_MAX_FEE_GWEI;
+  const maxGas = process.env.KEEPER_MAX_GAS;
+  const keeper = new AuctionKeeper({
+    address,
+    signer,
+    dryRun: process.env.KEEPER_DRY_RUN !== undefined,
+    maxFeePerGas: maxFee === undefined ? undefined : ethers.parseUnits(maxFee, "gwei"),
+    maxGasLimit: maxGas === undefined ? undefined : BigInt(maxGas),
+    maxAttempts: Number(process.env.KEEPER_MAX_ATTEMPTS ?? 3),
+    retryDelay: Number(process.env.KEEPER_RETRY_DELAY ?? 1000),
+    settlementTimeout: Number(process.env.KEEPER_SETTLEMENT_TIMEOUT ?? 3600),
+    fromBlock: Number(process.env.KEEPER_FROM_BLOCK ?? 0),
+  });
+  const interval = Number(process.env.KEEPER_INTERVAL ?? 60000);
+
+  for (;;) {
+    try {
+      const report = await keeper.runOnce();
+      if (fhevm.isMock && report.ended.length + report.retried.length > 0) {
+        await fhevm.awaitDecryptionOracle();
+      }
+    } catch (error) {
+      // A failed scan is retried next round
+      const entry = { time: new Date().toISOString(), level: "error", event: "round.failed", error: String(error) };
+      console.log(JSON.stringify(entry));
+    }
+
+    if (process.env.KEEPER_ONCE !== undefined) {
+      break;
+    }
+    await sleep(interval);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Keeper failed:", error);
+    process.exit(1);
+  });
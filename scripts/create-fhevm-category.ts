@@ -101,6 +101,18 @@ const CATEGORY_EXAMPLES: CategoryConfig = {
       testPath: "test/PrivateVoting.test.ts",
       description: "Advanced voting system with homomorphic tallying",
     },
+    {
+      contractName: "CategoryRegistry",
+      contractPath: "contracts/CategoryRegistry.sol",
+      testPath: "test/CategoryRegistry.test.ts",
+      description: "Auction categories referenced by ConfidentialAuction",
+    },
+    {
+      contractName: "AuctionGovernance",
+      contractPath: "contracts/AuctionGovernance.sol",
+      testPath: "test/AuctionGovernance.test.ts",
+      description: "Admin, moderator and keeper roles and the auction pause switch",
+    },
     {
       contractName: "ConfidentialAuction",
       contractPath: "contracts/ConfidentialAuction.sol",
@@ -163,6 +175,18 @@ const CATEGORY_EXAMPLES: CategoryConfig = {
       testPath: "test/PrivateVoting.test.ts",
       description: "Advanced voting system",
     },
+    {
+      contractName: "CategoryRegistry",
+      contractPath: "contracts/CategoryRegistry.sol",
+      testPath: "test/CategoryRegistry.test.ts",
+      description: "Auction category registry",
+    },
+    {
+      contractName: "AuctionGovernance",
+      contractPath: "contracts/AuctionGovernance.sol",
+      testPath: "test/AuctionGovernance.test.ts",
+      description: "Auction roles and pausing",
+    },
     {
       contractName: "ConfidentialAuction",
       contractPath: "contracts/ConfidentialAuction.sol",
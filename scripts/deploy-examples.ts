@@ -52,6 +52,8 @@ const EXAMPLES = {
   ],
   advanced: [
     "PrivateVoting",
+    "AuctionGovernance",
+    "CategoryRegistry",
     "ConfidentialAuction",
   ],
 };
@@ -121,6 +123,17 @@ async function deployCategory(category: string): Promise<DeploymentRecord[]> {
     if (contractName === "ConfidentialERC20") {
       args = ["Confidential Token", "CTKN", 1000000];
     }
+    if (contractName === "CategoryRegistry") {
+      // Categories are managed by the governance admins
+      const governance = deployments.find((d) => d.contractName === "AuctionGovernance");
+      args = [governance?.address];
+    }
+    if (contractName === "ConfidentialAuction") {
+      // Deployed just before it in the same category
+      const registry = deployments.find((d) => d.contractName === "CategoryRegistry");
+      const governance = deployments.find((d) => d.contractName === "AuctionGovernance");
+      args = [registry?.address, governance?.address];
+    }
 
     const record = await deployContract(contractName, args);
     if (record) {
@@ -1,14 +1,46 @@
 import { ethers } from "hardhat";
 
+const FRONTEND_CATEGORIES = [
+  "digital-art",
+  "collectibles",
+  "gaming-items",
+  "virtual-real-estate",
+  "domain-names",
+  "music-nfts",
+  "photography",
+  "sports-memorabilia",
+];
+
 async function main() {
   console.log("🚀 Deploying ConfidentialAuction contract...");
 
-  // Get the contract factory (using minimal FHE version)
-  const ConfidentialAuction = await ethers.getContractFactory("ConfidentialAuctionMinimal");
+  // Governance admins manage the category registry
+  console.log("🏛️  Deploying AuctionGovernance...");
+  const AuctionGovernance = await ethers.getContractFactory("AuctionGovernance");
+  const governance = await AuctionGovernance.deploy();
+  await governance.waitForDeployment();
+  const governanceAddress = await governance.getAddress();
+  console.log("✅ AuctionGovernance deployed to:", governanceAddress);
+
+  console.log("🗂️  Deploying CategoryRegistry...");
+  const CategoryRegistry = await ethers.getContractFactory("CategoryRegistry");
+  const registry = await CategoryRegistry.deploy(governanceAddress);
+  await registry.waitForDeployment();
+  const registryAddress = await registry.getAddress();
+  console.log("✅ CategoryRegistry deployed to:", registryAddress);
+
+  // Seed the categories offered by the frontend's create form
+  for (const name of FRONTEND_CATEGORIES) {
+    await (await registry.addCategory(name, "")).wait();
+  }
+  console.log(`✅ Registered ${FRONTEND_CATEGORIES.length} categories`);
+
+  // The sealed-bid contract; the plaintext-bid variants are deprecated
+  const ConfidentialAuction = await ethers.getContractFactory("ConfidentialAuction");
 
   // Deploy the contract
   console.log("📝 Deploying contract...");
-  const confidentialAuction = await ConfidentialAuction.deploy();
+  const confidentialAuction = await ConfidentialAuction.deploy(registryAddress, governanceAddress);
 
   // Wait for deployment
   await confidentialAuction.waitForDeployment();
@@ -25,10 +57,34 @@ async function main() {
 
   console.log("✅ Contract successfully deployed and verified!");
 
+  // Per-auction clones: one AuctionInstance implementation, and the factory
+  // that deploys an EIP-1167 clone of it for every new auction
+  console.log("\n🏭 Deploying AuctionInstance implementation...");
+  const AuctionInstance = await ethers.getContractFactory("AuctionInstance");
+  const implementation = await AuctionInstance.deploy();
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log("✅ AuctionInstance deployed to:", implementationAddress);
+
+  console.log("🏭 Deploying AuctionFactory...");
+  const AuctionFactory = await ethers.getContractFactory("AuctionFactory");
+  const auctionFactory = await AuctionFactory.deploy(implementationAddress, registryAddress, governanceAddress);
+  await auctionFactory.waitForDeployment();
+  const factoryAddress = await auctionFactory.getAddress();
+  console.log("✅ AuctionFactory deployed to:", factoryAddress);
+
+  if ((await auctionFactory.implementation()) !== implementationAddress) {
+    throw new Error("❌ AuctionFactory does not point at the deployed implementation");
+  }
+
   // Display useful information
   console.log("\n📋 Deployment Summary:");
   console.log("=".repeat(50));
   console.log(`Contract Address: ${contractAddress}`);
+  console.log(`AuctionGovernance Address: ${governanceAddress}`);
+  console.log(`CategoryRegistry Address: ${registryAddress}`);
+  console.log(`AuctionInstance Implementation: ${implementationAddress}`);
+  console.log(`AuctionFactory Address: ${factoryAddress}`);
   console.log(`Network: ${(await ethers.provider.getNetwork()).name}`);
   console.log(`Chain ID: ${(await ethers.provider.getNetwork()).chainId}`);
 
@@ -48,6 +104,7 @@ async function main() {
 
   console.log("\n🎯 Next steps:");
   console.log("1. Update frontend CONTRACT_ADDRESS to:", contractAddress);
+  console.log("   (the frontend has no factory UI; create clone auctions with sdk/FactoryClient)");
   console.log("2. Fund deployer account with ETH for gas");
   console.log("3. Test creating auctions and placing bids");
   console.log("4. Verify contract on block explorer if needed");
@@ -59,4 +116,4 @@ main()
   .catch((error) => {
     console.error("❌ Deployment failed:", error);
     process.exit(1);
-  });
\ No newline at end of file
+  });
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * @chapter: sdk
+ * WebSocket gateway for ConfidentialAuction
+ *
+ * Keeps an AuctionIndexer synced and pushes new auctions, bids,
+ * extensions and results to WebSocket subscribers (see sdk/gateway.ts).
+ * Clients connect with AuctionFeedClient from the SDK.
+ *
+ * Usage:
+ *   AUCTION_ADDRESS=0x... npx hardhat run scripts/gateway.ts --network localhost
+ *
+ * Environment:
+ *   AUCTION_ADDRESS       ConfidentialAuction address (required)
+ *   GATEWAY_PORT          Port to listen on (default 8081)
+ *   INDEXER_DB            SQLite file (default auctions.db)
+ *   INDEXER_FROM_BLOCK    First block to index into a new file (default 0)
+ *   INDEXER_CONFIRMATIONS Blocks to stay behind the head (default 0)
+ *   INDEXER_INTERVAL      Poll interval in milliseconds (default 15000)
+ */
+
+import { ethers } from "hardhat";
+import { AuctionGateway, AuctionIndexer } from "../sdk";
+
+async function main() {
+  const address = process.env.AUCTION_ADDRESS;
+  if (!address) {
+    throw new Error("AUCTION_ADDRESS is not set");
+  }
+
+  const indexer = await AuctionIndexer.open({
+    address,
+    provider: ethers.provider,
+    databasePath: process.env.INDEXER_DB ?? "auctions.db",
+    fromBlock: Number(process.env.INDEXER_FROM_BLOCK ?? 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 0),
+  });
+
+  console.log(`🔎 Indexing ${address} from block ${indexer.lastIndexedBlock + 1}`);
+  await indexer.sync();
+
+  const port = Number(process.env.GATEWAY_PORT ?? 8081);
+  const gateway = new AuctionGateway(indexer, { port });
+  indexer.onChange(({ events, reorgedTo }) => {
+    if (reorgedTo !== undefined) {
+      console.log(`↩️  Reorg: rolled back to block ${reorgedTo}`);
+    }
+    for (const event of events) {
+      console.log(`📣 ${event.name} on auction ${event.auctionId} (block ${event.blockNumber})`);
+    }
+  });
+  await indexer.start(Number(process.env.INDEXER_INTERVAL ?? 15000));
+  console.log(`🌐 Relaying auction events on ws://localhost:${port}`);
+
+  // Runs until interrupted
+  await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+  await gateway.close();
+  await indexer.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Gateway failed:", error);
+    process.exit(1);
+  });
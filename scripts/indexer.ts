@@ -0,0 +1,73 @@
+/**
+ * @chapter: sdk
+ * Event indexer for ConfidentialAuction
+ *
+ * Follows the contract's events into a local SQLite file (see
+ * sdk/indexer.ts) and prints a summary of what changed after every sync.
+ * Stopping and restarting resumes from the last indexed block; blocks that
+ * were reorged out while it was stopped are rolled back on the first sync.
+ *
+ * Usage:
+ *   AUCTION_ADDRESS=0x... npx hardhat run scripts/indexer.ts --network localhost
+ *
+ * Environment:
+ *   AUCTION_ADDRESS       ConfidentialAuction address (required)
+ *   INDEXER_DB            SQLite file (default auctions.db)
+ *   INDEXER_FROM_BLOCK    First block to index into a new file (default 0)
+ *   INDEXER_CONFIRMATIONS Blocks to stay behind the head (default 0)
+ *   INDEXER_INTERVAL      Poll interval in milliseconds (default 15000)
+ *   INDEXER_ONCE          Index up to the current head and exit
+ */
+
+import { ethers } from "hardhat";
+import { AuctionIndexer, SyncResult } from "../sdk";
+
+function report(indexer: AuctionIndexer, result: SyncResult) {
+  if (result.reorgedTo !== undefined) {
+    console.log(`↩️  Reorg: rolled back to block ${result.reorgedTo}`);
+  }
+  if (result.events > 0) {
+    const active = indexer.getAuctions({ status: "active", limit: 100 }).length;
+    console.log(`📥 Indexed ${result.events} events up to block ${result.toBlock} (${active} active auctions)`);
+  }
+}
+
+async function main() {
+  const address = process.env.AUCTION_ADDRESS;
+  if (!address) {
+    throw new Error("AUCTION_ADDRESS is not set");
+  }
+
+  const indexer = await AuctionIndexer.open({
+    address,
+    provider: ethers.provider,
+    databasePath: process.env.INDEXER_DB ?? "auctions.db",
+    fromBlock: Number(process.env.INDEXER_FROM_BLOCK ?? 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 0),
+  });
+  const interval = Number(process.env.INDEXER_INTERVAL ?? 15000);
+
+  console.log(`🔎 Indexing ${address} from block ${indexer.lastIndexedBlock + 1}`);
+
+  if (process.env.INDEXER_ONCE !== undefined) {
+    report(indexer, await indexer.sync());
+    await indexer.close();
+    return;
+  }
+
+  for (;;) {
+    try {
+      report(indexer, await indexer.sync());
+    } catch (error) {
+      console.error("⚠️  Sync failed, retrying:", error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Indexer failed:", error);
+    process.exit(1);
+  });
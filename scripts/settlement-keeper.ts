@@ -0,0 +1,99 @@
+/**
+ * @chapter: decryption
+ * Settlement keeper for ConfidentialAuction
+ *
+ * endAuction only requests decryption of the winning bid and bidder; the
+ * auction is settled when the decryption oracle calls revealWinner with
+ * KMS-signed results. This script watches for SettlementRequested events
+ * that are still pending and drives them to completion:
+ *   - on the Hardhat mock (local network or `npx hardhat node`), it fulfils
+ *     the requests itself through the plugin's mock decryption oracle
+ *   - on a live network the Zama relayer fulfils them, so it only reports
+ *     progress until they settle
+ *
+ * Usage:
+ *   AUCTION_ADDRESS=0x... npx hardhat run scripts/settlement-keeper.ts --network localhost
+ *
+ * Environment:
+ *   AUCTION_ADDRESS   ConfidentialAuction address (required)
+ *   KEEPER_FROM_BLOCK First block to scan for requests (default 0)
+ *   KEEPER_INTERVAL   Poll interval in milliseconds (default 5000)
+ *   KEEPER_ONCE       Process the current backlog and exit
+ */
+
+import { ethers, fhevm } from "hardhat";
+import { AuctionClient, PendingSettlement, SettlementOutcome } from "../sdk";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function settle(client: AuctionClient, pending: PendingSettlement[]) {
+  for (const { auctionId, requestId } of pending) {
+    console.log(`⏳ Auction ${auctionId}: decryption request ${requestId} pending`);
+  }
+
+  if (!fhevm.isMock) {
+    return;
+  }
+
+  // Fulfils every pending request with mock KMS signatures
+  await fhevm.awaitDecryptionOracle();
+
+  for (const { auctionId } of pending) {
+    if (await client.isSettlementPending(auctionId)) {
+      console.log(`⚠️  Auction ${auctionId}: still pending after oracle run`);
+      continue;
+    }
+    const outcome = await client.getSettlementOutcome(auctionId);
+    if (outcome === SettlementOutcome.ReserveNotMet) {
+      console.log(`✅ Auction ${auctionId}: reserve not met, no sale`);
+      continue;
+    }
+    if (outcome === SettlementOutcome.Unsold) {
+      console.log(`✅ Auction ${auctionId}: no buyer met the ask, no sale`);
+      continue;
+    }
+    const auction = await client.getAuction(auctionId);
+    console.log(
+      `✅ Auction ${auctionId}: winner ${auction.highestBidder}, ` +
+        `winning bid ${ethers.formatEther(auction.winningBid)} ETH`
+    );
+  }
+}
+
+async function main() {
+  const address = process.env.AUCTION_ADDRESS;
+  if (!address) {
+    throw new Error("AUCTION_ADDRESS is not set");
+  }
+
+  const fromBlock = Number(process.env.KEEPER_FROM_BLOCK ?? 0);
+  const interval = Number(process.env.KEEPER_INTERVAL ?? 5000);
+  const once = process.env.KEEPER_ONCE !== undefined;
+
+  // Required when running outside `hardhat test`
+  await fhevm.initializeCLIApi();
+
+  // Read-only: the oracle (mock or relayer) submits the callbacks
+  const client = new AuctionClient(address, ethers.provider);
+
+  console.log(`🔎 Watching settlements on ${address} (${fhevm.isMock ? "mock oracle" : "live oracle"})`);
+
+  for (;;) {
+    const pending = await client.getPendingSettlements(fromBlock);
+    if (pending.length > 0) {
+      await settle(client, pending);
+    }
+
+    if (once) {
+      break;
+    }
+    await sleep(interval);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Keeper failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,416 @@
+/**
+ * @chapter: sdk
+ * Variant-agnostic adapter over the seven auction contracts
+ *
+ * Every contract in contracts/ shares createAuction/placeBid/endAuction but
+ * exposes a different read surface:
+ *   - getAuction(id) struct          (ConfidentialAuction, ConfidentialAuctionSimple)
+ *   - getAuctionInfo(id) tuple       (ConfidentialAuctionReal)
+ *   - getAuctionBasicInfo + getAuctionStatus + getHighestBidder
+ *                                    (ConfidentialAuctionCompatible, ConfidentialAuctionFHE,
+ *                                     ConfidentialAuctionMinimal, SimpleAuction)
+ *
+ * Every variant except ConfidentialAuction takes plaintext bids and is
+ * deprecated; the adapter still reads and writes them for existing
+ * deployments.
+ *
+ * None of them implements ERC-165, so detectAuctionVariant probes the deployed
+ * bytecode for the dispatcher entry (PUSH4 <selector>) of each distinguishing
+ * function, using selectors taken from the typechain interfaces.
+ *
+ * ConfidentialAuction stores a CategoryRegistry ID instead of a category
+ * string; the adapter translates between IDs and names so AuctionView and
+ * createAuction use names for every variant.
+ *
+ * index.html has no build step and carries a browser port of this adapter;
+ * keep its variant probes and AuctionView fields in sync with this file.
+ *
+ * Usage:
+ *   const adapter = await connectAuction(address, signer);
+ *   const view = await adapter.getAuction(1);
+ */
+
+import type {
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Provider,
+} from "ethers";
+import {
+  CategoryRegistry__factory,
+  ConfidentialAuction__factory,
+  ConfidentialAuctionCompatible__factory,
+  ConfidentialAuctionFHE__factory,
+  ConfidentialAuctionReal__factory,
+  ConfidentialAuctionSimple__factory,
+  SimpleAuction__factory,
+} from "../typechain-types";
+import { AuctionClient, AuctionClientOptions, CreateAuctionParams, PlaceBidParams } from "./AuctionClient";
+import { AuctionError, InvalidAuctionParamsError, toAuctionError } from "./errors";
+
+export type AuctionVariant =
+  | "ConfidentialAuction"
+  | "ConfidentialAuctionCompatible"
+  | "ConfidentialAuctionFHE"
+  | "ConfidentialAuctionMinimal"
+  | "ConfidentialAuctionReal"
+  | "ConfidentialAuctionSimple"
+  | "SimpleAuction";
+
+/**
+ * Unified auction model returned by every adapter regardless of variant
+ */
+export interface AuctionView {
+  variant: AuctionVariant;
+  id: bigint;
+  title: string;
+  description: string;
+  category: string;
+  minimumBid: bigint;
+  creator: string;
+  createdAt: bigint;
+  /** True while the auction is flagged active and within its bidding window */
+  isOpen: boolean;
+  /** When bidding opens, for variants that support scheduling */
+  startTime?: bigint;
+  endTime: bigint;
+  highestBidder: string;
+  bidCount: bigint;
+  /** Plaintext highest bid, for variants that store it unencrypted */
+  highestBid?: bigint;
+  /** Ciphertext handle of the highest bid, for variants that expose it */
+  highestBidHandle?: string;
+  /** Ciphertext handle of the leading bidder, for variants that encrypt it */
+  highestBidderHandle?: string;
+}
+
+/**
+ * createAuction input shared by every variant; the category is given by name
+ */
+export type CreateAuctionViewParams = Omit<CreateAuctionParams, "categoryId"> & {
+  category: string;
+};
+
+/**
+ * Selector probes that tell the variants apart. Order matters: the first
+ * entry whose required selectors are all present and excluded selectors are
+ * all absent wins.
+ */
+const VARIANT_PROBES: { variant: AuctionVariant; has: string[]; lacks: string[] }[] = (() => {
+  const auction = ConfidentialAuction__factory.createInterface();
+  const real = ConfidentialAuctionReal__factory.createInterface();
+  const simple = SimpleAuction__factory.createInterface();
+  const compatible = ConfidentialAuctionCompatible__factory.createInterface();
+
+  const getAuction = auction.getFunction("getAuction").selector;
+  const emergencyWithdraw = auction.getFunction("emergencyWithdraw").selector;
+  const getAuctionInfo = real.getFunction("getAuctionInfo").selector;
+  const getAuctionBasicInfo = simple.getFunction("getAuctionBasicInfo").selector;
+  const getHighestBidAmount = simple.getFunction("getHighestBidAmount").selector;
+  const withdrawFunds = compatible.getFunction("withdrawFunds").selector;
+
+  return [
+    { variant: "ConfidentialAuction", has: [getAuction, emergencyWithdraw], lacks: [] },
+    { variant: "ConfidentialAuctionSimple", has: [getAuction], lacks: [emergencyWithdraw] },
+    { variant: "ConfidentialAuctionReal", has: [getAuctionInfo], lacks: [] },
+    {
+      variant: "ConfidentialAuctionCompatible",
+      has: [getAuctionBasicInfo, getHighestBidAmount, withdrawFunds],
+      lacks: [],
+    },
+    { variant: "SimpleAuction", has: [getAuctionBasicInfo, getHighestBidAmount], lacks: [withdrawFunds] },
+    { variant: "ConfidentialAuctionFHE", has: [getAuctionBasicInfo, withdrawFunds], lacks: [getHighestBidAmount] },
+    {
+      variant: "ConfidentialAuctionMinimal",
+      has: [getAuctionBasicInfo],
+      lacks: [getHighestBidAmount, withdrawFunds],
+    },
+  ];
+})();
+
+/**
+ * Check whether deployed bytecode dispatches on a function selector
+ */
+export function hasSelector(bytecode: string, selector: string): boolean {
+  // 0x63 is PUSH4, which the Solidity dispatcher uses to load each selector
+  return bytecode.toLowerCase().includes(`63${selector.slice(2).toLowerCase()}`);
+}
+
+/**
+ * Detect which auction contract is deployed at an address
+ */
+export async function detectAuctionVariant(address: string, provider: Provider): Promise<AuctionVariant> {
+  const code = await provider.getCode(address);
+  if (code === "0x") {
+    throw new AuctionError(`No contract found at address ${address}`);
+  }
+
+  for (const probe of VARIANT_PROBES) {
+    if (
+      probe.has.every((selector) => hasSelector(code, selector)) &&
+      !probe.lacks.some((selector) => hasSelector(code, selector))
+    ) {
+      return probe.variant;
+    }
+  }
+
+  throw new AuctionError(`Contract at ${address} does not match any known auction variant`);
+}
+
+export class AuctionAdapter {
+  readonly variant: AuctionVariant;
+  readonly address: string;
+  private readonly runner: ContractRunner;
+  private readonly options: AuctionClientOptions;
+
+  constructor(
+    variant: AuctionVariant,
+    address: string,
+    runner: ContractRunner,
+    options: AuctionClientOptions = {}
+  ) {
+    this.variant = variant;
+    this.address = address;
+    this.runner = runner;
+    this.options = options;
+  }
+
+  async getAuction(auctionId: BigNumberish): Promise<AuctionView> {
+    try {
+      return await this.readAuction(auctionId);
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+
+  /**
+   * Read every auction that is still open for bids
+   */
+  async getOpenAuctions(): Promise<AuctionView[]> {
+    const count = await this.getAuctionCount();
+    const views: AuctionView[] = [];
+    for (let id = 1n; id <= count; id++) {
+      const view = await this.getAuction(id);
+      if (view.isOpen) {
+        views.push(view);
+      }
+    }
+    return views;
+  }
+
+  /**
+   * Number of auctions ever created (IDs run from 1 to this value)
+   */
+  async getAuctionCount(): Promise<bigint> {
+    // Every variant exposes the public nextAuctionId counter
+    const contract = SimpleAuction__factory.connect(this.address, this.runner);
+    return (await contract.nextAuctionId()) - 1n;
+  }
+
+  async hasBid(user: string, auctionId: BigNumberish): Promise<boolean> {
+    // Every variant exposes the public hasUserBid mapping
+    const contract = SimpleAuction__factory.connect(this.address, this.runner);
+    return contract.hasUserBid(user, auctionId);
+  }
+
+  /**
+   * Create an auction and return its ID from the AuctionCreated event,
+   * which has the same signature in every variant. Only ConfidentialAuction
+   * supports startTime/duration; the other variants always run for 7 days.
+   */
+  async createAuction(params: CreateAuctionViewParams): Promise<bigint> {
+    if (this.variant === "ConfidentialAuction") {
+      const { category, ...rest } = params;
+      const categoryId = await (await this.categoryRegistry()).getCategoryId(category);
+      if (categoryId === 0n) {
+        throw new InvalidAuctionParamsError(`Unknown category "${category}"`, "Invalid category");
+      }
+      return new AuctionClient(this.address, this.runner, this.options).createAuction({ ...rest, categoryId });
+    }
+
+    const contract = SimpleAuction__factory.connect(this.address, this.runner);
+    const receipt = await this.send(() =>
+      contract.createAuction(params.title, params.description, params.category, params.minimumBid)
+    );
+
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "AuctionCreated") {
+        return parsed.args.auctionId as bigint;
+      }
+    }
+
+    throw new AuctionError("AuctionCreated event not found in receipt");
+  }
+
+  /**
+   * Place a bid. ConfidentialAuction takes an encrypted amount with an input
+   * proof; the other variants take the amount in plaintext.
+   */
+  async placeBid(params: PlaceBidParams): Promise<ContractTransactionReceipt> {
+    if (this.variant === "ConfidentialAuction") {
+      return new AuctionClient(this.address, this.runner, this.options).placeBid(params);
+    }
+
+    const contract = SimpleAuction__factory.connect(this.address, this.runner);
+    return this.send(() =>
+      contract.placeBid(
+        params.auctionId,
+        params.isHighBid ?? true,
+        params.amount,
+        params.comments ?? "",
+        { value: params.value ?? params.amount }
+      )
+    );
+  }
+
+  async endAuction(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    const contract = SimpleAuction__factory.connect(this.address, this.runner);
+    return this.send(() => contract.endAuction(auctionId));
+  }
+
+  private async readAuction(auctionId: BigNumberish): Promise<AuctionView> {
+    switch (this.variant) {
+      case "ConfidentialAuction": {
+        const contract = ConfidentialAuction__factory.connect(this.address, this.runner);
+        const auction = await contract.getAuction(auctionId);
+        const now = await this.now();
+        return {
+          variant: this.variant,
+          id: auction.id,
+          title: auction.title,
+          description: auction.description,
+          category: (await (await this.categoryRegistry()).getCategory(auction.categoryId)).name,
+          minimumBid: auction.minimumBid,
+          creator: auction.creator,
+          createdAt: auction.timestamp,
+          isOpen: auction.isActive && now >= auction.startTime && now < auction.endTime,
+          startTime: auction.startTime,
+          endTime: auction.endTime,
+          highestBidder: auction.highestBidder,
+          bidCount: auction.bidCount,
+          highestBidHandle: auction.highestBidAmount,
+          highestBidderHandle: auction.encryptedHighestBidder,
+        };
+      }
+
+      case "ConfidentialAuctionSimple": {
+        const contract = ConfidentialAuctionSimple__factory.connect(this.address, this.runner);
+        const auction = await contract.getAuction(auctionId);
+        return {
+          variant: this.variant,
+          id: auction.id,
+          title: auction.title,
+          description: auction.description,
+          category: auction.category,
+          minimumBid: auction.minimumBid,
+          creator: auction.creator,
+          createdAt: auction.timestamp,
+          isOpen: auction.isActive && (await this.now()) < auction.endTime,
+          endTime: auction.endTime,
+          highestBidder: auction.highestBidder,
+          bidCount: auction.bidCount,
+          highestBid: auction.highestBidAmount,
+        };
+      }
+
+      case "ConfidentialAuctionReal": {
+        const contract = ConfidentialAuctionReal__factory.connect(this.address, this.runner);
+        const info = await contract.getAuctionInfo(auctionId);
+        const handle = (await contract.auctions(auctionId)).highestBidAmount;
+        return {
+          variant: this.variant,
+          id: BigInt(auctionId),
+          title: info.title,
+          description: info.description,
+          category: info.category,
+          minimumBid: info.minimumBid,
+          creator: info.creator,
+          createdAt: info.timestamp,
+          isOpen: info.isActive,
+          endTime: info.endTime,
+          highestBidder: await contract.getHighestBidder(auctionId),
+          bidCount: info.bidCount,
+          highestBidHandle: handle,
+        };
+      }
+
+      case "ConfidentialAuctionCompatible":
+      case "ConfidentialAuctionFHE":
+      case "ConfidentialAuctionMinimal":
+      case "SimpleAuction": {
+        // These four share the getAuctionBasicInfo/getAuctionStatus read surface
+        const contract = SimpleAuction__factory.connect(this.address, this.runner);
+        const basic = await contract.getAuctionBasicInfo(auctionId);
+        const status = await contract.getAuctionStatus(auctionId);
+        const view: AuctionView = {
+          variant: this.variant,
+          id: BigInt(auctionId),
+          title: basic.title,
+          description: basic.description,
+          category: basic.category,
+          minimumBid: basic.minimumBid,
+          creator: basic.creator,
+          createdAt: status.timestamp,
+          isOpen: status.isActive,
+          endTime: status.endTime,
+          highestBidder: await contract.getHighestBidder(auctionId),
+          bidCount: status.bidCount,
+        };
+
+        if (this.variant === "SimpleAuction" || this.variant === "ConfidentialAuctionCompatible") {
+          view.highestBid = await contract.getHighestBidAmount(auctionId);
+        } else if (this.variant === "ConfidentialAuctionFHE") {
+          const fhe = ConfidentialAuctionFHE__factory.connect(this.address, this.runner);
+          view.highestBidHandle = (await fhe.auctions(auctionId)).highestBidAmount;
+        }
+
+        return view;
+      }
+    }
+  }
+
+  /**
+   * CategoryRegistry a ConfidentialAuction validates its category IDs against
+   */
+  private async categoryRegistry() {
+    const contract = ConfidentialAuction__factory.connect(this.address, this.runner);
+    return CategoryRegistry__factory.connect(await contract.categoryRegistry(), this.runner);
+  }
+
+  private async now(): Promise<bigint> {
+    const block = await this.runner.provider?.getBlock("latest");
+    return BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+  }
+
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new AuctionError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+}
+
+/**
+ * Detect the variant deployed at an address and return an adapter for it
+ */
+export async function connectAuction(
+  address: string,
+  runner: ContractRunner,
+  options: AuctionClientOptions = {}
+): Promise<AuctionAdapter> {
+  if (!runner.provider) {
+    throw new AuctionError("Runner must be connected to a provider");
+  }
+  const variant = await detectAuctionVariant(address, runner.provider);
+  return new AuctionAdapter(variant, address, runner, options);
+}
@@ -0,0 +1,773 @@
+/**
+ * @chapter: sdk
+ * Typed client for the ConfidentialAuction contract
+ *
+ * Wraps the typechain-generated ConfidentialAuction binding so app code and
+ * scripts do not have to hand-roll `new ethers.Contract(address, abi, signer)`.
+ * Struct results are normalized into plain objects with bigint amounts and
+ * revert strings are raised as typed errors (see ./errors).
+ *
+ * Usage:
+ *   const client = new AuctionClient(address, signer, { fhevm });
+ *   const auctionId = await client.createAuction({ title, description, categoryId, minimumBid });
+ *   await client.placeBid({ auctionId, amount, value: amount });
+ */
+
+import type {
+  BigNumberish,
+  ContractRunner,
+  Signer,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import { ZeroAddress } from "ethers";
+import type { ConfidentialAuction } from "../typechain-types";
+import { ConfidentialAuction__factory } from "../typechain-types";
+import {
+  EncryptedBid,
+  encryptBidAmount,
+  encryptReservePrice,
+  FhevmEncryptor,
+  NO_RESERVE,
+} from "./encryption";
+import { decryptMyBid, FhevmDecryptor, UserDecryptOptions } from "./decryption";
+import { computeDutchAsk, DutchSchedule } from "./dutch";
+import { AuctionError, toAuctionError } from "./errors";
+import { AuctionMetadata, fetchAuctionMetadata, MetadataStore, PublishedMetadata } from "./metadata";
+
+/** Results per getAuctions page when the query does not set one */
+const DEFAULT_PAGE_SIZE = 20;
+
+/** Largest page the contract returns */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Plain-object view of an on-chain Auction struct
+ */
+export interface AuctionInfo {
+  id: bigint;
+  title: string;
+  description: string;
+  /** CategoryRegistry ID */
+  categoryId: bigint;
+  minimumBid: bigint;
+  creator: string;
+  createdAt: bigint;
+  isActive: boolean;
+  /** When bidding opens (unix seconds) */
+  startTime: bigint;
+  endTime: bigint;
+  /** Ciphertext handle of the encrypted highest bid */
+  highestBidHandle: string;
+  /** Revealed winner; the zero address until the result is decrypted */
+  highestBidder: string;
+  /** Ciphertext handle of the encrypted leading bidder (eaddress) */
+  highestBidderHandle: string;
+  bidCount: bigint;
+  /** Revealed price paid by the winner; 0 until the result is decrypted */
+  winningBid: bigint;
+  auctionType: AuctionType;
+}
+
+/**
+ * Anti-sniping settings; all zero when soft close is disabled
+ */
+export interface SoftCloseConfig {
+  /** Bids this many seconds before endTime extend the auction */
+  window: bigint;
+  /** Seconds added to endTime per sniping bid */
+  extension: bigint;
+  /** endTime is never extended past this */
+  maxEndTime: bigint;
+}
+
+export interface SoftCloseParams {
+  auctionId: BigNumberish;
+  window: BigNumberish;
+  extension: BigNumberish;
+  /** Total extension allowed over the original endTime, in seconds */
+  maxExtension: BigNumberish;
+}
+
+/**
+ * A settlement waiting for the decryption oracle to call revealWinner
+ */
+export interface PendingSettlement {
+  auctionId: bigint;
+  requestId: bigint;
+}
+
+/**
+ * Mirrors ConfidentialAuction.AuctionType
+ */
+export enum AuctionType {
+  /** Winner pays their own bid */
+  FirstPrice = 0,
+  /** Winner pays the second-highest bid */
+  Vickrey = 1,
+  /** Descending ask; the first encrypted cap that meets it wins at that ask */
+  Dutch = 2,
+}
+
+/**
+ * Mirrors ConfidentialAuction.AuctionPhase
+ */
+export enum AuctionPhase {
+  Scheduled = 0,
+  Open = 1,
+  Closed = 2,
+  Settled = 3,
+  /** Withdrawn by the creator or a moderator; every deposit is refundable */
+  Cancelled = 4,
+}
+
+/**
+ * Mirrors ConfidentialAuction.StatusFilter
+ */
+export enum StatusFilter {
+  Any = 0,
+  /** Not ended and before endTime */
+  Active = 1,
+  /** Ended, or past endTime and waiting for endAuction */
+  Ended = 2,
+}
+
+/**
+ * Listing view of an auction returned by getAuctions: no description or
+ * ciphertext handles
+ */
+export interface AuctionSummary {
+  id: bigint;
+  title: string;
+  categoryId: bigint;
+  minimumBid: bigint;
+  creator: string;
+  isActive: boolean;
+  startTime: bigint;
+  endTime: bigint;
+  bidCount: bigint;
+  auctionType: AuctionType;
+}
+
+export interface AuctionQuery {
+  /** Defaults to StatusFilter.Any */
+  status?: StatusFilter;
+  /** CategoryRegistry ID; omitted matches every category */
+  categoryId?: BigNumberish;
+  /** Creator address; omitted matches every creator */
+  creator?: string;
+  /** Results per page, at most 100; defaults to 20 */
+  pageSize?: number;
+}
+
+/**
+ * One page of getAuctions results
+ */
+export interface AuctionPage {
+  auctions: AuctionSummary[];
+  /** Offset to pass for the next page; 0 once every auction was examined */
+  nextOffset: bigint;
+}
+
+export interface CreateAuctionParams {
+  title: string;
+  description: string;
+  /** ID of an enabled CategoryRegistry category */
+  categoryId: BigNumberish;
+  minimumBid: BigNumberish;
+  /** Unix time bidding opens; omitted or 0 opens immediately */
+  startTime?: BigNumberish;
+  /** Bidding window in seconds; omitted or 0 uses the contract default (7 days) */
+  duration?: BigNumberish;
+  /** Secret floor price, encrypted client-side; omitted for no reserve */
+  reservePrice?: BigNumberish;
+  /** Pricing rule, defaults to FirstPrice */
+  auctionType?: AuctionType;
+  /** Dutch only: opening ask, which decays to minimumBid by endTime */
+  startPrice?: BigNumberish;
+}
+
+/**
+ * createAuctionWithMetadata input: title and description come from the
+ * published metadata document instead
+ */
+export type CreateAuctionWithMetadataParams = Omit<CreateAuctionParams, "title" | "description"> & {
+  /** Result of publishAuctionMetadata */
+  metadata: PublishedMetadata;
+};
+
+/**
+ * How a finished auction resolved
+ */
+export enum SettlementOutcome {
+  /** Still open, or waiting for the decryption oracle */
+  Pending = "pending",
+  Sold = "sold",
+  /** The highest bid was below the encrypted reserve; no sale */
+  ReserveNotMet = "reserve-not-met",
+  /** Bids were placed but none won, e.g. no Dutch cap ever met the ask */
+  Unsold = "unsold",
+  NoBids = "no-bids",
+  /** The creator or a moderator cancelled the listing; every bidder is refunded */
+  Cancelled = "cancelled",
+}
+
+export interface PlaceBidParams {
+  auctionId: BigNumberish;
+  /**
+   * Plaintext bid amount, encrypted client-side before submission.
+   * For Dutch auctions this is the buyer's maximum price.
+   */
+  amount: BigNumberish;
+  /** ETH attached to the bid, defaults to `amount`; the bid counts at most this much, and Dutch bids must cover the current ask */
+  value?: BigNumberish;
+  comments?: string;
+  isHighBid?: boolean;
+}
+
+export interface UpdateBidParams {
+  auctionId: BigNumberish;
+  /** New plaintext amount; the contract keeps the higher of old and new, capped at the deposit */
+  amount: BigNumberish;
+  /** Extra ETH added to the existing deposit, defaults to 0 */
+  topUp?: BigNumberish;
+}
+
+/**
+ * Normalize a typechain Auction struct into an AuctionInfo
+ */
+export function toAuctionInfo(auction: ConfidentialAuction.AuctionStructOutput): AuctionInfo {
+  return {
+    id: auction.id,
+    title: auction.title,
+    description: auction.description,
+    categoryId: auction.categoryId,
+    minimumBid: auction.minimumBid,
+    creator: auction.creator,
+    createdAt: auction.timestamp,
+    isActive: auction.isActive,
+    startTime: auction.startTime,
+    endTime: auction.endTime,
+    highestBidHandle: auction.highestBidAmount,
+    highestBidder: auction.highestBidder,
+    highestBidderHandle: auction.encryptedHighestBidder,
+    bidCount: auction.bidCount,
+    winningBid: auction.winningBid,
+    auctionType: Number(auction.auctionType) as AuctionType,
+  };
+}
+
+/**
+ * Normalize a typechain AuctionSummary struct
+ */
+export function toAuctionSummary(summary: ConfidentialAuction.AuctionSummaryStructOutput): AuctionSummary {
+  return {
+    id: summary.id,
+    title: summary.title,
+    categoryId: summary.categoryId,
+    minimumBid: summary.minimumBid,
+    creator: summary.creator,
+    isActive: summary.isActive,
+    startTime: summary.startTime,
+    endTime: summary.endTime,
+    bidCount: summary.bidCount,
+    auctionType: Number(summary.auctionType) as AuctionType,
+  };
+}
+
+export interface AuctionClientOptions {
+  /**
+   * FHEVM instance used to encrypt bids; required for placeBid. It must
+   * also implement FhevmDecryptor for decryptMyBid.
+   */
+  fhevm?: FhevmEncryptor;
+}
+
+export class AuctionClient {
+  readonly contract: ConfidentialAuction;
+  private readonly runner: ContractRunner;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(address: string, runner: ContractRunner, options: AuctionClientOptions = {}) {
+    this.contract = ConfidentialAuction__factory.connect(address, runner);
+    this.runner = runner;
+    this.fhevm = options.fhevm;
+  }
+
+  /**
+   * Create an auction and return its ID from the AuctionCreated event
+   */
+  async createAuction(params: CreateAuctionParams): Promise<bigint> {
+    const reserve = await this.encryptReserve(params.reservePrice);
+    const receipt = await this.send(() =>
+      this.contract.createAuction(
+        params.title,
+        params.description,
+        params.categoryId,
+        params.minimumBid,
+        params.startTime ?? 0,
+        params.duration ?? 0,
+        reserve.handle,
+        reserve.inputProof,
+        params.auctionType ?? AuctionType.FirstPrice,
+        params.startPrice ?? 0
+      )
+    );
+    return this.createdAuctionId(receipt);
+  }
+
+  /**
+   * Create an auction that stores only its metadata hash and URI on-chain
+   * and return its ID
+   */
+  async createAuctionWithMetadata(params: CreateAuctionWithMetadataParams): Promise<bigint> {
+    const reserve = await this.encryptReserve(params.reservePrice);
+    const receipt = await this.send(() =>
+      this.contract.createAuctionWithMetadata(
+        params.metadata.contentHash,
+        params.metadata.uri,
+        params.categoryId,
+        params.minimumBid,
+        params.startTime ?? 0,
+        params.duration ?? 0,
+        reserve.handle,
+        reserve.inputProof,
+        params.auctionType ?? AuctionType.FirstPrice,
+        params.startPrice ?? 0
+      )
+    );
+    return this.createdAuctionId(receipt);
+  }
+
+  /**
+   * Enable soft close on an auction; creator only, before the first bid
+   */
+  async configureSoftClose(params: SoftCloseParams): Promise<ContractTransactionReceipt> {
+    return this.send(() =>
+      this.contract.configureSoftClose(
+        params.auctionId,
+        params.window,
+        params.extension,
+        params.maxExtension
+      )
+    );
+  }
+
+  /**
+   * Encrypt the bid amount for the connected signer and place the bid
+   */
+  async placeBid(params: PlaceBidParams): Promise<ContractTransactionReceipt> {
+    const encrypted = await encryptBidAmount(
+      this.requireFhevm(),
+      await this.contract.getAddress(),
+      await this.signerAddress(),
+      BigInt(params.amount)
+    );
+
+    return this.send(() =>
+      this.contract.placeBid(
+        params.auctionId,
+        params.isHighBid ?? true,
+        encrypted.handle,
+        encrypted.inputProof,
+        params.comments ?? "",
+        { value: params.value ?? params.amount }
+      )
+    );
+  }
+
+  /**
+   * Raise the connected bidder's existing bid while the auction is open
+   */
+  async updateBid(params: UpdateBidParams): Promise<ContractTransactionReceipt> {
+    const encrypted = await encryptBidAmount(
+      this.requireFhevm(),
+      await this.contract.getAddress(),
+      await this.signerAddress(),
+      BigInt(params.amount)
+    );
+
+    return this.send(() =>
+      this.contract.updateBid(params.auctionId, encrypted.handle, encrypted.inputProof, {
+        value: params.topUp ?? 0,
+      })
+    );
+  }
+
+  /**
+   * Retract the connected bidder's bid and get the deposit back; only on
+   * auctions where the creator allowed withdrawals
+   */
+  async withdrawBid(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.withdrawBid(auctionId));
+  }
+
+  /**
+   * Let bidders retract their bids; creator only, before the first bid
+   */
+  async allowBidWithdrawals(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.allowBidWithdrawals(auctionId));
+  }
+
+  /**
+   * End an auction (creator at any time, anyone after endTime).
+   * Auctions with bids settle once the decryption oracle reveals the winner.
+   */
+  async endAuction(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.endAuction(auctionId));
+  }
+
+  async getAuction(auctionId: BigNumberish): Promise<AuctionInfo> {
+    return this.call(async () => toAuctionInfo(await this.contract.getAuction(auctionId)));
+  }
+
+  /**
+   * On-chain content hash and URI of an auction's off-chain metadata;
+   * undefined for auctions created with a plain title and description
+   */
+  async getMetadataPointer(auctionId: BigNumberish): Promise<PublishedMetadata | undefined> {
+    return this.call(async () => {
+      const [contentHash, uri] = await this.contract.auctionMetadata(auctionId);
+      return uri === "" ? undefined : { contentHash, uri };
+    });
+  }
+
+  /**
+   * Fetch an auction's off-chain metadata from `store` and verify it
+   * against the on-chain content hash
+   */
+  async fetchMetadata(auctionId: BigNumberish, store: MetadataStore): Promise<AuctionMetadata> {
+    const pointer = await this.getMetadataPointer(auctionId);
+    if (pointer === undefined) {
+      throw new AuctionError(`Auction ${auctionId} has no off-chain metadata`);
+    }
+    return fetchAuctionMetadata(store, pointer.uri, pointer.contentHash);
+  }
+
+  /**
+   * Ciphertext handle of the connected signer's own bid
+   */
+  async getMyBidHandle(auctionId: BigNumberish): Promise<string> {
+    return this.call(() => this.contract.getMyBid(auctionId));
+  }
+
+  /**
+   * Decrypt the connected signer's own bid through the EIP-712
+   * user-decryption flow, so a bidder can confirm what they bid
+   */
+  async decryptMyBid(auctionId: BigNumberish, options: UserDecryptOptions = {}): Promise<bigint> {
+    const fhevm = this.fhevm as (FhevmEncryptor & Partial<FhevmDecryptor>) | undefined;
+    if (typeof fhevm?.userDecrypt !== "function") {
+      throw new AuctionError("An FHEVM instance with user decryption is required to decrypt bids");
+    }
+    if (typeof (this.runner as Signer).signTypedData !== "function") {
+      throw new AuctionError("A signer is required to decrypt bids");
+    }
+    return this.call(() =>
+      decryptMyBid(fhevm as FhevmDecryptor, this.contract, auctionId, this.runner as Signer, options)
+    );
+  }
+
+  /**
+   * Current end time, including any soft-close extensions
+   */
+  async getEndTime(auctionId: BigNumberish): Promise<bigint> {
+    return (await this.getAuction(auctionId)).endTime;
+  }
+
+  async getSoftClose(auctionId: BigNumberish): Promise<SoftCloseConfig> {
+    return this.call(async () => {
+      const { window, extension, maxEndTime } = await this.contract.softCloses(auctionId);
+      return { window, extension, maxEndTime };
+    });
+  }
+
+  async getAuctionPhase(auctionId: BigNumberish): Promise<AuctionPhase> {
+    return this.call(async () => Number(await this.contract.getAuctionPhase(auctionId)) as AuctionPhase);
+  }
+
+  /**
+   * Public ask schedule of a Dutch auction
+   */
+  async getDutchSchedule(auctionId: BigNumberish): Promise<DutchSchedule> {
+    const auction = await this.getAuction(auctionId);
+    if (auction.auctionType !== AuctionType.Dutch) {
+      throw new AuctionError(`Auction ${auctionId} is not a Dutch auction`);
+    }
+
+    return {
+      startPrice: await this.call(() => this.contract.dutchStartPrices(auctionId)),
+      minimumBid: auction.minimumBid,
+      startTime: auction.startTime,
+      endTime: auction.endTime,
+    };
+  }
+
+  /**
+   * Ask of a Dutch auction at `at` (unix seconds), computed locally from the
+   * on-chain schedule; defaults to the latest block time
+   */
+  async getCurrentAsk(auctionId: BigNumberish, at?: bigint): Promise<bigint> {
+    const schedule = await this.getDutchSchedule(auctionId);
+    return computeDutchAsk(schedule, at ?? (await this.now()));
+  }
+
+  async getActiveAuctions(): Promise<AuctionInfo[]> {
+    return this.call(async () => (await this.contract.getActiveAuctions()).map(toAuctionInfo));
+  }
+
+  /**
+   * Fetch one page of auctions matching `query`, starting after `offset`
+   * examined auction IDs
+   */
+  async getAuctionsPage(query: AuctionQuery = {}, offset: BigNumberish = 0): Promise<AuctionPage> {
+    return this.call(async () => {
+      const [page, nextOffset] = await this.contract.getAuctions(offset, query.pageSize ?? DEFAULT_PAGE_SIZE, {
+        status: query.status ?? StatusFilter.Any,
+        categoryId: query.categoryId ?? 0,
+        creator: query.creator ?? ZeroAddress,
+      });
+      return { auctions: page.map(toAuctionSummary), nextOffset };
+    });
+  }
+
+  /**
+   * Iterate over every page of auctions matching `query`, in ID order.
+   * Pages the contract returned empty (a sparse filter hit its scan bound)
+   * are skipped.
+   *
+   *   for await (const page of client.iterateAuctions({ status: StatusFilter.Active })) { ... }
+   */
+  async *iterateAuctions(query: AuctionQuery = {}): AsyncGenerator<AuctionSummary[]> {
+    let offset = 0n;
+    do {
+      const page = await this.getAuctionsPage(query, offset);
+      if (page.auctions.length > 0) {
+        yield page.auctions;
+      }
+      offset = page.nextOffset;
+    } while (offset !== 0n);
+  }
+
+  /**
+   * Every auction in a category, ended ones included, in ID order
+   */
+  async getAuctionsByCategory(categoryId: BigNumberish): Promise<AuctionSummary[]> {
+    return this.call(async () => {
+      const auctions: AuctionSummary[] = [];
+      let offset = 0n;
+      do {
+        const [page, nextOffset] = await this.contract.getAuctionsByCategory(categoryId, offset, MAX_PAGE_SIZE);
+        auctions.push(...page.map(toAuctionSummary));
+        offset = nextOffset;
+      } while (offset !== 0n);
+      return auctions;
+    });
+  }
+
+  /**
+   * Number of auctions in a category that have not been ended yet
+   */
+  async getActiveCountByCategory(categoryId: BigNumberish): Promise<bigint> {
+    return this.call(() => this.contract.activeAuctionsByCategory(categoryId));
+  }
+
+  /**
+   * Withdraw the connected bidder's escrowed deposit after settlement
+   */
+  async withdrawRefund(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.withdrawRefund(auctionId));
+  }
+
+  /**
+   * Withdraw the winning bid as the auction creator
+   */
+  async claimProceeds(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.claimProceeds(auctionId));
+  }
+
+  /**
+   * ETH held in escrow for a bidder on an auction, plus their share of the
+   * penalty if the creator cancelled it
+   */
+  async getRefundableAmount(auctionId: BigNumberish, bidder: string): Promise<bigint> {
+    return this.call(async () => {
+      const deposit = await this.contract.bidDeposits(auctionId, bidder);
+      if (deposit === 0n) {
+        return 0n;
+      }
+      return deposit + (await this.contract.cancellationCompensation(auctionId));
+    });
+  }
+
+  /**
+   * Resolve how an auction ended. ReserveNotMet is reported without either
+   * the highest bid or the reserve ever being decrypted.
+   */
+  async getSettlementOutcome(auctionId: BigNumberish): Promise<SettlementOutcome> {
+    const auction = await this.getAuction(auctionId);
+    if (await this.isCancelled(auctionId)) {
+      return SettlementOutcome.Cancelled;
+    }
+    if (auction.isActive || (await this.isSettlementPending(auctionId))) {
+      return SettlementOutcome.Pending;
+    }
+    if (await this.call(() => this.contract.reserveNotMet(auctionId))) {
+      return SettlementOutcome.ReserveNotMet;
+    }
+    if (auction.bidCount === 0n) {
+      return SettlementOutcome.NoBids;
+    }
+    return auction.highestBidder === ZeroAddress ? SettlementOutcome.Unsold : SettlementOutcome.Sold;
+  }
+
+  async isSettlementPending(auctionId: BigNumberish): Promise<boolean> {
+    return this.call(() => this.contract.settlementPending(auctionId));
+  }
+
+  /**
+   * Withdraw your own listing before it ends. Free before the first bid;
+   * after that the penalty from getCancellationPenalty is attached and
+   * shared among the bidders.
+   */
+  async cancelAuction(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    const penalty = await this.getCancellationPenalty(auctionId);
+    return this.send(() => this.contract.cancelAuction(auctionId, { value: penalty }));
+  }
+
+  /**
+   * ETH the creator must attach to cancel now: CANCELLATION_PENALTY_BPS of
+   * the minimum bid for each live bid
+   */
+  async getCancellationPenalty(auctionId: BigNumberish): Promise<bigint> {
+    const auction = await this.getAuction(auctionId);
+    const bps = await this.call(() => this.contract.CANCELLATION_PENALTY_BPS());
+    return ((auction.minimumBid * bps) / 10000n) * auction.bidCount;
+  }
+
+  /**
+   * Cancel a fraudulent listing (moderator only), while bidding is open or
+   * settlement is pending. Bidders then reclaim deposits with withdrawRefund.
+   */
+  async cancelListing(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.cancelListing(auctionId));
+  }
+
+  async isCancelled(auctionId: BigNumberish): Promise<boolean> {
+    return this.call(() => this.contract.cancelled(auctionId));
+  }
+
+  /**
+   * Request the settlement decryption again (keeper only), for a request
+   * the oracle never answered
+   */
+  async retrySettlement(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.retrySettlement(auctionId));
+  }
+
+  /**
+   * Address of the AuctionGovernance contract holding roles and the pause
+   * switch; pass it to GovernanceClient
+   */
+  async getGovernanceAddress(): Promise<string> {
+    return this.call(() => this.contract.governance());
+  }
+
+  /**
+   * List settlements requested since `fromBlock` that the oracle has not
+   * fulfilled yet, one per auction with its latest request: a retry
+   * supersedes the earlier request IDs
+   */
+  async getPendingSettlements(fromBlock: number = 0): Promise<PendingSettlement[]> {
+    return this.call(async () => {
+      const events = await this.contract.queryFilter(
+        this.contract.filters.SettlementRequested(),
+        fromBlock
+      );
+
+      // Events come in chain order, so the last one per auction wins
+      const latest = new Map<bigint, bigint>();
+      for (const event of events) {
+        latest.set(event.args.auctionId, event.args.requestId);
+      }
+
+      const pending: PendingSettlement[] = [];
+      for (const [auctionId, requestId] of latest) {
+        if (await this.contract.settlementPending(auctionId)) {
+          pending.push({ auctionId, requestId });
+        }
+      }
+      return pending;
+    });
+  }
+
+  private async encryptReserve(reservePrice?: BigNumberish): Promise<EncryptedBid> {
+    if (reservePrice === undefined) {
+      return NO_RESERVE;
+    }
+    return encryptReservePrice(
+      this.requireFhevm(),
+      await this.contract.getAddress(),
+      await this.signerAddress(),
+      BigInt(reservePrice)
+    );
+  }
+
+  private createdAuctionId(receipt: ContractTransactionReceipt): bigint {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "AuctionCreated") {
+        return parsed.args.auctionId as bigint;
+      }
+    }
+
+    throw new AuctionError("AuctionCreated event not found in receipt");
+  }
+
+  private requireFhevm(): FhevmEncryptor {
+    if (!this.fhevm) {
+      throw new AuctionError("An FHEVM instance is required to encrypt inputs");
+    }
+    return this.fhevm;
+  }
+
+  private async now(): Promise<bigint> {
+    const block = await this.runner.provider?.getBlock("latest");
+    return BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+  }
+
+  private async signerAddress(): Promise<string> {
+    if (typeof (this.runner as Signer).getAddress !== "function") {
+      throw new AuctionError("A signer is required to send encrypted inputs");
+    }
+    return (this.runner as Signer).getAddress();
+  }
+
+  /**
+   * Run a read-only contract call, mapping revert reasons to typed errors
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined, mapping revert reasons
+   * to typed errors
+   */
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    return this.call(async () => {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new AuctionError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    });
+  }
+}
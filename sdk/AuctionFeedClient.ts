@@ -0,0 +1,265 @@
+/**
+ * @chapter: sdk
+ * Client for the auction WebSocket gateway
+ *
+ * Keeps one connection to an AuctionGateway open, reconnecting with
+ * exponential backoff when it drops. Each channel remembers the last event
+ * it delivered; after a reconnect it resubscribes from that block and skips
+ * what it already delivered, so handlers see every event exactly once and
+ * in chain order.
+ *
+ * Usage:
+ *   const feed = new AuctionFeedClient("ws://localhost:8081");
+ *   const stop = feed.subscribeAuction(auctionId, (event) => {
+ *     if (event.name === "BidPlaced") console.log(`New bid from ${event.args.bidder}`);
+ *   });
+ *   ...
+ *   stop();
+ *   feed.close();
+ */
+
+import { WebSocket } from "ws";
+import { AuctionError } from "./errors";
+import { auctionChannel } from "./gateway";
+import type { GatewayClientMessage, GatewayEvent, GatewayServerMessage } from "./gateway";
+
+/** First reconnect delay in milliseconds */
+const DEFAULT_MIN_BACKOFF = 500;
+
+/** Longest reconnect delay in milliseconds */
+const DEFAULT_MAX_BACKOFF = 30000;
+
+/**
+ * A relayed contract event
+ */
+export interface AuctionFeedEvent {
+  name: string;
+  auctionId: bigint;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  /** Named event arguments; numbers as decimal strings */
+  args: Record<string, string>;
+}
+
+export type AuctionFeedHandler = (event: AuctionFeedEvent) => void;
+
+export interface AuctionFeedOptions {
+  /** First reconnect delay in milliseconds (default 500) */
+  minBackoff?: number;
+  /** Longest reconnect delay in milliseconds (default 30000) */
+  maxBackoff?: number;
+  /** Called when the gateway reports that events after `block` were reorged out */
+  onReorg?: (block: number) => void;
+  /** Called with connection errors, malformed frames and errors reported by the gateway */
+  onError?: (error: Error) => void;
+}
+
+interface ChannelState {
+  handlers: Set<AuctionFeedHandler>;
+  /** Last event delivered */
+  cursor?: { blockNumber: number; logIndex: number };
+  /** Where to resume when nothing was delivered yet */
+  fromBlock?: number;
+}
+
+export class AuctionFeedClient {
+  readonly url: string;
+  private readonly minBackoff: number;
+  private readonly maxBackoff: number;
+  private readonly onReorg?: (block: number) => void;
+  private readonly onError: (error: Error) => void;
+  private readonly channels = new Map<string, ChannelState>();
+  private socket?: WebSocket;
+  private attempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(url: string, options: AuctionFeedOptions = {}) {
+    this.url = url;
+    this.minBackoff = options.minBackoff ?? DEFAULT_MIN_BACKOFF;
+    this.maxBackoff = options.maxBackoff ?? DEFAULT_MAX_BACKOFF;
+    this.onReorg = options.onReorg;
+    this.onError = options.onError ?? (() => undefined);
+    this.connect();
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Call `handler` for every event on `channel` ("auctions" or
+   * "auction:<id>"). With `fromBlock`, indexed events from that block are
+   * replayed first; it only applies to the first handler of a channel.
+   * Returns a function that removes the handler.
+   */
+  subscribe(channel: string, handler: AuctionFeedHandler, fromBlock?: number): () => void {
+    let state = this.channels.get(channel);
+    if (state === undefined) {
+      state = { handlers: new Set(), fromBlock };
+      this.channels.set(channel, state);
+      this.sendSubscribe(channel, state);
+    }
+    state.handlers.add(handler);
+
+    return () => {
+      state!.handlers.delete(handler);
+      if (state!.handlers.size === 0 && this.channels.get(channel) === state) {
+        this.channels.delete(channel);
+        this.send({ type: "unsubscribe", channel });
+      }
+    };
+  }
+
+  /**
+   * Subscribe to the events of one auction
+   */
+  subscribeAuction(auctionId: bigint | number, handler: AuctionFeedHandler, fromBlock?: number): () => void {
+    return this.subscribe(auctionChannel(auctionId), handler, fromBlock);
+  }
+
+  /**
+   * Disconnect and stop reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      this.attempts = 0;
+      for (const [channel, state] of this.channels) {
+        this.sendSubscribe(channel, state);
+      }
+    });
+    socket.on("message", (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        this.onError(new AuctionError("Gateway sent invalid JSON"));
+        return;
+      }
+      if (!isGatewayServerMessage(message)) {
+        this.onError(new AuctionError("Gateway sent a malformed message"));
+        return;
+      }
+      this.receive(message);
+    });
+    socket.on("error", (error) => this.onError(error));
+    socket.on("close", () => {
+      if (this.closed) {
+        return;
+      }
+      // Exponential backoff, jittered to between half and all of the delay
+      const delay = Math.min(this.maxBackoff, this.minBackoff * 2 ** this.attempts);
+      this.attempts++;
+      this.reconnectTimer = setTimeout(() => this.connect(), delay * (0.5 + Math.random() / 2));
+    });
+  }
+
+  private receive(message: GatewayServerMessage): void {
+    switch (message.type) {
+      case "subscribed": {
+        // Live from here: a reconnect resumes after the block indexed now
+        const state = this.channels.get(message.channel);
+        if (state !== undefined && state.cursor === undefined) {
+          state.fromBlock = Math.max(state.fromBlock ?? 0, message.block + 1);
+        }
+        break;
+      }
+      case "event": {
+        const state = this.channels.get(message.channel);
+        const { event } = message;
+        if (state === undefined || isDelivered(state, event.blockNumber, event.logIndex)) {
+          break;
+        }
+        state.cursor = { blockNumber: event.blockNumber, logIndex: event.logIndex };
+        const feedEvent = { ...event, auctionId: BigInt(event.auctionId) };
+        for (const handler of state.handlers) {
+          handler(feedEvent);
+        }
+        break;
+      }
+      case "reorg":
+        // Replacement events come after `block`; everything up to it stands
+        for (const state of this.channels.values()) {
+          if (state.cursor !== undefined && state.cursor.blockNumber > message.block) {
+            state.cursor = { blockNumber: message.block, logIndex: Number.MAX_SAFE_INTEGER };
+          }
+          if (state.fromBlock !== undefined && state.fromBlock > message.block + 1) {
+            state.fromBlock = message.block + 1;
+          }
+        }
+        this.onReorg?.(message.block);
+        break;
+      case "error":
+        this.onError(new AuctionError(`Gateway error: ${message.message}`));
+        break;
+    }
+  }
+
+  private sendSubscribe(channel: string, state: ChannelState): void {
+    const fromBlock = state.cursor?.blockNumber ?? state.fromBlock;
+    this.send(fromBlock === undefined ? { type: "subscribe", channel } : { type: "subscribe", channel, fromBlock });
+  }
+
+  private send(message: GatewayClientMessage): void {
+    if (this.connected) {
+      this.socket!.send(JSON.stringify(message));
+    }
+  }
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a decoded frame is one of the messages the gateway sends
+ */
+function isGatewayServerMessage(message: unknown): message is GatewayServerMessage {
+  if (!isJsonObject(message)) {
+    return false;
+  }
+  switch (message.type) {
+    case "subscribed":
+      return typeof message.channel === "string" && Number.isSafeInteger(message.block);
+    case "event":
+      return typeof message.channel === "string" && isGatewayEvent(message.event);
+    case "reorg":
+      return Number.isSafeInteger(message.block);
+    case "error":
+      return typeof message.message === "string";
+    default:
+      return false;
+  }
+}
+
+function isGatewayEvent(event: unknown): event is GatewayEvent {
+  return (
+    isJsonObject(event) &&
+    typeof event.name === "string" &&
+    typeof event.auctionId === "string" &&
+    /^\d+$/.test(event.auctionId) &&
+    Number.isSafeInteger(event.blockNumber) &&
+    Number.isSafeInteger(event.logIndex) &&
+    typeof event.transactionHash === "string" &&
+    isJsonObject(event.args) &&
+    Object.values(event.args).every((value) => typeof value === "string")
+  );
+}
+
+function isDelivered(state: ChannelState, blockNumber: number, logIndex: number): boolean {
+  const { cursor } = state;
+  return (
+    cursor !== undefined &&
+    (blockNumber < cursor.blockNumber || (blockNumber === cursor.blockNumber && logIndex <= cursor.logIndex))
+  );
+}
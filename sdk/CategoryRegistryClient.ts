@@ -0,0 +1,128 @@
+/**
+ * @chapter: sdk
+ * Typed client for CategoryRegistry, the admin-managed list of auction
+ * categories that ConfidentialAuction validates category IDs against
+ *
+ * Usage:
+ *   const categories = new CategoryRegistryClient(registryAddress, signer);
+ *   const categoryId = await categories.addCategory("Watches", "ipfs://...");
+ *   const enabled = (await categories.getCategories()).filter((c) => c.isEnabled);
+ */
+
+import type {
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import type { CategoryRegistry } from "../typechain-types";
+import { CategoryRegistry__factory } from "../typechain-types";
+import { AuctionError, toAuctionError } from "./errors";
+
+/**
+ * Plain-object view of a registry category
+ */
+export interface CategoryInfo {
+  id: bigint;
+  name: string;
+  /** Off-chain details such as an icon or description; may be empty */
+  metadataURI: string;
+  /** Disabled categories keep their auctions but reject new ones */
+  isEnabled: boolean;
+}
+
+/**
+ * Normalize a typechain Category struct
+ */
+export function toCategoryInfo(category: CategoryRegistry.CategoryStructOutput): CategoryInfo {
+  return {
+    id: category.id,
+    name: category.name,
+    metadataURI: category.metadataURI,
+    isEnabled: category.isEnabled,
+  };
+}
+
+export class CategoryRegistryClient {
+  readonly contract: CategoryRegistry;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = CategoryRegistry__factory.connect(address, runner);
+  }
+
+  /**
+   * Register a category (governance admin only) and return its ID from the
+   * CategoryAdded event
+   */
+  async addCategory(name: string, metadataURI: string = ""): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.addCategory(name, metadataURI));
+
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "CategoryAdded") {
+        return parsed.args.categoryId as bigint;
+      }
+    }
+
+    throw new AuctionError("CategoryAdded event not found in receipt");
+  }
+
+  async renameCategory(categoryId: BigNumberish, name: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.renameCategory(categoryId, name));
+  }
+
+  async setMetadataURI(categoryId: BigNumberish, metadataURI: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.setCategoryMetadataURI(categoryId, metadataURI));
+  }
+
+  async setEnabled(categoryId: BigNumberish, isEnabled: boolean): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.setCategoryEnabled(categoryId, isEnabled));
+  }
+
+  async getCategory(categoryId: BigNumberish): Promise<CategoryInfo> {
+    return this.call(async () => toCategoryInfo(await this.contract.getCategory(categoryId)));
+  }
+
+  /**
+   * Every category, enabled or not, in ID order
+   */
+  async getCategories(): Promise<CategoryInfo[]> {
+    return this.call(async () => (await this.contract.getCategories()).map(toCategoryInfo));
+  }
+
+  /**
+   * ID of the category with this exact name, or undefined if there is none
+   */
+  async findCategoryId(name: string): Promise<bigint | undefined> {
+    const categoryId = await this.call(() => this.contract.getCategoryId(name));
+    return categoryId === 0n ? undefined : categoryId;
+  }
+
+  /**
+   * Run a read-only contract call, mapping revert reasons to typed errors
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined, mapping revert reasons
+   * to typed errors
+   */
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    return this.call(async () => {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new AuctionError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    });
+  }
+}
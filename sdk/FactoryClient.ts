@@ -0,0 +1,278 @@
+/**
+ * @chapter: sdk
+ * Typed client for AuctionFactory and the auction clones it deploys
+ *
+ * Every auction is its own AuctionInstance contract at its own address.
+ * The factory only keeps the registry, so listing auctions means reading
+ * clone addresses from the factory and then each clone's state.
+ *
+ * Usage:
+ *   const factory = new FactoryClient(factoryAddress, signer, { fhevm });
+ *   const auction = await factory.createAuction({ title, description, categoryId, minimumBid });
+ *   await factory.placeBid({ auction, amount });
+ *   const open = (await factory.getAuctions()).filter((a) => a.isActive);
+ */
+
+import type {
+  BigNumberish,
+  ContractRunner,
+  Signer,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import type { AuctionFactory, AuctionInstance } from "../typechain-types";
+import { AuctionFactory__factory, AuctionInstance__factory } from "../typechain-types";
+import { encryptBidAmount, FhevmEncryptor } from "./encryption";
+import { AuctionError, toAuctionError } from "./errors";
+
+/** Largest page the factory returns from getAuctions */
+const PAGE_SIZE = 100;
+
+/**
+ * Plain-object view of an auction clone
+ */
+export interface AuctionInstanceInfo {
+  /** Clone address; identifies the auction */
+  address: string;
+  title: string;
+  description: string;
+  categoryId: bigint;
+  minimumBid: bigint;
+  creator: string;
+  createdAt: bigint;
+  isActive: boolean;
+  startTime: bigint;
+  endTime: bigint;
+  bidCount: bigint;
+  /** Revealed winner; ZeroAddress until the oracle reveals it */
+  highestBidder: string;
+  /** Revealed winning bid; 0 until the oracle reveals it */
+  winningBid: bigint;
+  /** Ciphertext handle of the highest bid */
+  highestBidHandle: string;
+  /** Ciphertext handle of the leading bidder (eaddress) */
+  highestBidderHandle: string;
+}
+
+export interface CreateInstanceParams {
+  title: string;
+  description: string;
+  /** ID of an enabled CategoryRegistry category */
+  categoryId: BigNumberish;
+  minimumBid: BigNumberish;
+  /** Unix time bidding opens; omitted or 0 opens immediately */
+  startTime?: BigNumberish;
+  /** Bidding window in seconds; omitted or 0 uses the contract default (7 days) */
+  duration?: BigNumberish;
+}
+
+export interface PlaceInstanceBidParams {
+  /** Clone address */
+  auction: string;
+  /** Plaintext bid, encrypted client-side */
+  amount: BigNumberish;
+  /** ETH deposit; defaults to the bid amount */
+  value?: BigNumberish;
+}
+
+/**
+ * Normalize a typechain AuctionInstance struct
+ */
+export function toAuctionInstanceInfo(
+  address: string,
+  auction: AuctionInstance.AuctionStructOutput
+): AuctionInstanceInfo {
+  return {
+    address,
+    title: auction.title,
+    description: auction.description,
+    categoryId: auction.categoryId,
+    minimumBid: auction.minimumBid,
+    creator: auction.creator,
+    createdAt: auction.timestamp,
+    isActive: auction.isActive,
+    startTime: auction.startTime,
+    endTime: auction.endTime,
+    bidCount: auction.bidCount,
+    highestBidder: auction.highestBidder,
+    winningBid: auction.winningBid,
+    highestBidHandle: auction.highestBidAmount,
+    highestBidderHandle: auction.encryptedHighestBidder,
+  };
+}
+
+export interface FactoryClientOptions {
+  /** FHEVM instance used to encrypt bids; required for placeBid */
+  fhevm?: FhevmEncryptor;
+}
+
+export class FactoryClient {
+  readonly factory: AuctionFactory;
+  private readonly runner: ContractRunner;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(address: string, runner: ContractRunner, options: FactoryClientOptions = {}) {
+    this.factory = AuctionFactory__factory.connect(address, runner);
+    this.runner = runner;
+    this.fhevm = options.fhevm;
+  }
+
+  /**
+   * Typed contract for one clone, connected to this client's runner
+   */
+  instance(auction: string): AuctionInstance {
+    return AuctionInstance__factory.connect(auction, this.runner);
+  }
+
+  /**
+   * Deploy a new auction clone and return its address from the
+   * AuctionDeployed event
+   */
+  async createAuction(params: CreateInstanceParams): Promise<string> {
+    const receipt = await this.send(() =>
+      this.factory.createAuction(
+        params.title,
+        params.description,
+        params.categoryId,
+        params.minimumBid,
+        params.startTime ?? 0,
+        params.duration ?? 0
+      )
+    );
+
+    for (const log of receipt.logs) {
+      const parsed = this.factory.interface.parseLog(log);
+      if (parsed?.name === "AuctionDeployed") {
+        return parsed.args.auction as string;
+      }
+    }
+
+    throw new AuctionError("AuctionDeployed event not found in receipt");
+  }
+
+  /**
+   * Encrypt `amount` for the connected signer and bid on a clone
+   */
+  async placeBid(params: PlaceInstanceBidParams): Promise<ContractTransactionReceipt> {
+    if (!this.fhevm) {
+      throw new AuctionError("An FHEVM instance is required to encrypt inputs");
+    }
+    if (typeof (this.runner as Signer).getAddress !== "function") {
+      throw new AuctionError("A signer is required to send encrypted inputs");
+    }
+
+    const encrypted = await encryptBidAmount(
+      this.fhevm,
+      params.auction,
+      await (this.runner as Signer).getAddress(),
+      BigInt(params.amount)
+    );
+
+    return this.send(() =>
+      this.instance(params.auction).placeBid(encrypted.handle, encrypted.inputProof, {
+        value: params.value ?? params.amount,
+      })
+    );
+  }
+
+  /**
+   * End a clone's auction (creator at any time, anyone after endTime)
+   */
+  async endAuction(auction: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.instance(auction).endAuction());
+  }
+
+  /**
+   * Request a clone's settlement decryption again (creator or keeper), for
+   * a request the oracle never answered
+   */
+  async retrySettlement(auction: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.instance(auction).retrySettlement());
+  }
+
+  /**
+   * Cancel a fraudulent clone listing (moderator only), while bidding is
+   * open or settlement is pending. Bidders then reclaim deposits with
+   * withdrawRefund.
+   */
+  async cancelListing(auction: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.instance(auction).cancelListing());
+  }
+
+  async isCancelled(auction: string): Promise<boolean> {
+    return this.call(() => this.instance(auction).cancelled());
+  }
+
+  async withdrawRefund(auction: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.instance(auction).withdrawRefund());
+  }
+
+  async claimProceeds(auction: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.instance(auction).claimProceeds());
+  }
+
+  async getAuction(auction: string): Promise<AuctionInstanceInfo> {
+    return this.call(async () => toAuctionInstanceInfo(auction, await this.instance(auction).getAuction()));
+  }
+
+  /**
+   * Addresses of every clone, in deployment order
+   */
+  async getAuctionAddresses(): Promise<string[]> {
+    return this.call(async () => {
+      const count = await this.factory.getAuctionCount();
+      const addresses: string[] = [];
+      for (let offset = 0n; offset < count; offset += BigInt(PAGE_SIZE)) {
+        addresses.push(...(await this.factory.getAuctions(offset, PAGE_SIZE)));
+      }
+      return addresses;
+    });
+  }
+
+  /**
+   * Every clone with its current state, in deployment order
+   */
+  async getAuctions(): Promise<AuctionInstanceInfo[]> {
+    return this.getAuctionInfos(await this.getAuctionAddresses());
+  }
+
+  async getAuctionsByCreator(creator: string): Promise<AuctionInstanceInfo[]> {
+    return this.getAuctionInfos(await this.call(() => this.factory.getAuctionsByCreator(creator)));
+  }
+
+  async getAuctionsByCategory(categoryId: BigNumberish): Promise<AuctionInstanceInfo[]> {
+    return this.getAuctionInfos(await this.call(() => this.factory.getAuctionsByCategory(categoryId)));
+  }
+
+  private async getAuctionInfos(addresses: string[]): Promise<AuctionInstanceInfo[]> {
+    return Promise.all(addresses.map((address) => this.getAuction(address)));
+  }
+
+  /**
+   * Run a read-only contract call, mapping revert reasons to typed errors
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined, mapping revert reasons
+   * to typed errors
+   */
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    return this.call(async () => {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new AuctionError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    });
+  }
+}
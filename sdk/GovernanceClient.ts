@@ -0,0 +1,115 @@
+/**
+ * @chapter: sdk
+ * Typed client for AuctionGovernance, the role registry and pause switch
+ * shared by ConfidentialAuction deployments
+ *
+ * Usage:
+ *   const governance = new GovernanceClient(await auctions.getGovernanceAddress(), admin);
+ *   await governance.grantRole(Role.Moderator, moderatorAddress);
+ *   await governance.pause();
+ */
+
+import type {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import type { AuctionGovernance } from "../typechain-types";
+import { AuctionGovernance__factory } from "../typechain-types";
+import { AuctionError, toAuctionError } from "./errors";
+
+/**
+ * AuctionGovernance roles
+ */
+export enum Role {
+  /** Grants and revokes roles, pauses, recovers stray ETH */
+  Admin = "admin",
+  /** Cancels fraudulent listings with full refunds */
+  Moderator = "moderator",
+  /** Re-requests settlement decryptions */
+  Keeper = "keeper",
+}
+
+export class GovernanceClient {
+  readonly contract: AuctionGovernance;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = AuctionGovernance__factory.connect(address, runner);
+  }
+
+  /**
+   * Give `account` a role; admin only
+   */
+  async grantRole(role: Role, account: string): Promise<ContractTransactionReceipt> {
+    const roleId = await this.roleId(role);
+    return this.send(() => this.contract.grantRole(roleId, account));
+  }
+
+  async revokeRole(role: Role, account: string): Promise<ContractTransactionReceipt> {
+    const roleId = await this.roleId(role);
+    return this.send(() => this.contract.revokeRole(roleId, account));
+  }
+
+  async hasRole(role: Role, account: string): Promise<boolean> {
+    const roleId = await this.roleId(role);
+    return this.call(() => this.contract.hasRole(roleId, account));
+  }
+
+  /**
+   * Stop new auctions, bids and bid raises; admin only. Refunds and
+   * settlement keep working.
+   */
+  async pause(): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.pause());
+  }
+
+  async unpause(): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.unpause());
+  }
+
+  async isPaused(): Promise<boolean> {
+    return this.call(() => this.contract.paused());
+  }
+
+  /**
+   * Resolve a Role to its bytes32 identifier on the contract
+   */
+  private async roleId(role: Role): Promise<string> {
+    switch (role) {
+      case Role.Admin:
+        return this.call(() => this.contract.DEFAULT_ADMIN_ROLE());
+      case Role.Moderator:
+        return this.call(() => this.contract.MODERATOR_ROLE());
+      case Role.Keeper:
+        return this.call(() => this.contract.KEEPER_ROLE());
+    }
+  }
+
+  /**
+   * Run a read-only contract call, mapping revert reasons to typed errors
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined, mapping revert reasons
+   * to typed errors
+   */
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    return this.call(async () => {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new AuctionError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    });
+  }
+}
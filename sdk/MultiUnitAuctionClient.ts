@@ -0,0 +1,286 @@
+/**
+ * @chapter: sdk
+ * Typed client for the ConfidentialMultiUnitAuction contract
+ *
+ * Each bid carries an encrypted quantity and an encrypted price per unit,
+ * backed by an ETH deposit. The uniform clearing price and the units sold
+ * are decrypted at settlement, which pays the creator; a bidder's allocation
+ * is an encrypted handle that only that bidder can decrypt, until they call
+ * settleBid to decrypt what they owe and take back the rest.
+ *
+ * Usage:
+ *   const client = new MultiUnitAuctionClient(address, signer, { fhevm });
+ *   const auctionId = await client.createAuction({ title, description, category, units: 10, minimumPrice });
+ *   await client.placeBid({ auctionId, quantity: 4n, unitPrice });
+ *   // after endAuction and the clearing price reveal:
+ *   await client.settleBid(auctionId);
+ *   await client.withdrawRefund(auctionId);
+ */
+
+import type {
+  BigNumberish,
+  ContractRunner,
+  Signer,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import type { ConfidentialMultiUnitAuction } from "../typechain-types";
+import { ConfidentialMultiUnitAuction__factory } from "../typechain-types";
+import { encryptMultiUnitBid, FhevmEncryptor } from "./encryption";
+import { AuctionError, toAuctionError } from "./errors";
+
+/**
+ * Plain-object view of an on-chain multi-unit Auction struct
+ */
+export interface MultiUnitAuctionInfo {
+  id: bigint;
+  title: string;
+  description: string;
+  category: string;
+  /** Identical units in the lot */
+  units: bigint;
+  /** Floor per unit, also the price when demand is below supply */
+  minimumPrice: bigint;
+  creator: string;
+  createdAt: bigint;
+  isActive: boolean;
+  startTime: bigint;
+  endTime: bigint;
+  bidCount: bigint;
+  /** Revealed uniform price per unit; 0 until the oracle reveals it */
+  clearingPrice: bigint;
+  /** Units allocated in total, revealed with the clearing price */
+  unitsSold: bigint;
+}
+
+export interface CreateMultiUnitAuctionParams {
+  title: string;
+  description: string;
+  category: string;
+  units: BigNumberish;
+  minimumPrice: BigNumberish;
+  /** Unix time bidding opens; omitted or 0 opens immediately */
+  startTime?: BigNumberish;
+  /** Bidding window in seconds; omitted or 0 uses the contract default (7 days) */
+  duration?: BigNumberish;
+}
+
+export interface PlaceMultiUnitBidParams {
+  auctionId: BigNumberish;
+  /** Units wanted, encrypted client-side */
+  quantity: BigNumberish;
+  /** Maximum price per unit, encrypted client-side */
+  unitPrice: BigNumberish;
+  /** ETH escrowed with the bid, defaults to quantity × unitPrice; a smaller deposit voids the bid */
+  value?: BigNumberish;
+}
+
+/**
+ * Normalize a typechain multi-unit Auction struct
+ */
+export function toMultiUnitAuctionInfo(
+  auction: ConfidentialMultiUnitAuction.AuctionStructOutput
+): MultiUnitAuctionInfo {
+  return {
+    id: auction.id,
+    title: auction.title,
+    description: auction.description,
+    category: auction.category,
+    units: auction.units,
+    minimumPrice: auction.minimumPrice,
+    creator: auction.creator,
+    createdAt: auction.timestamp,
+    isActive: auction.isActive,
+    startTime: auction.startTime,
+    endTime: auction.endTime,
+    bidCount: auction.bidCount,
+    clearingPrice: auction.clearingPrice,
+    unitsSold: auction.unitsSold,
+  };
+}
+
+export interface MultiUnitAuctionClientOptions {
+  /** FHEVM instance used to encrypt bids; required for placeBid */
+  fhevm?: FhevmEncryptor;
+}
+
+export class MultiUnitAuctionClient {
+  readonly contract: ConfidentialMultiUnitAuction;
+  private readonly runner: ContractRunner;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(address: string, runner: ContractRunner, options: MultiUnitAuctionClientOptions = {}) {
+    this.contract = ConfidentialMultiUnitAuction__factory.connect(address, runner);
+    this.runner = runner;
+    this.fhevm = options.fhevm;
+  }
+
+  /**
+   * Create an auction and return its ID from the AuctionCreated event
+   */
+  async createAuction(params: CreateMultiUnitAuctionParams): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.createAuction(
+        params.title,
+        params.description,
+        params.category,
+        params.units,
+        params.minimumPrice,
+        params.startTime ?? 0,
+        params.duration ?? 0
+      )
+    );
+
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "AuctionCreated") {
+        return parsed.args.auctionId as bigint;
+      }
+    }
+
+    throw new AuctionError("AuctionCreated event not found in receipt");
+  }
+
+  /**
+   * Encrypt the quantity and unit price for the connected signer and bid
+   */
+  async placeBid(params: PlaceMultiUnitBidParams): Promise<ContractTransactionReceipt> {
+    if (!this.fhevm) {
+      throw new AuctionError("An FHEVM instance is required to encrypt inputs");
+    }
+    if (typeof (this.runner as Signer).getAddress !== "function") {
+      throw new AuctionError("A signer is required to send encrypted inputs");
+    }
+
+    const encrypted = await encryptMultiUnitBid(
+      this.fhevm,
+      await this.contract.getAddress(),
+      await (this.runner as Signer).getAddress(),
+      BigInt(params.quantity),
+      BigInt(params.unitPrice)
+    );
+
+    return this.send(() =>
+      this.contract.placeBid(
+        params.auctionId,
+        encrypted.quantityHandle,
+        encrypted.unitPriceHandle,
+        encrypted.inputProof,
+        { value: params.value ?? BigInt(params.quantity) * BigInt(params.unitPrice) }
+      )
+    );
+  }
+
+  /**
+   * End an auction (creator at any time, anyone after endTime). The
+   * clearing price is set once the decryption oracle reveals it.
+   */
+  async endAuction(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.endAuction(auctionId));
+  }
+
+  async getAuction(auctionId: BigNumberish): Promise<MultiUnitAuctionInfo> {
+    return this.call(async () => toMultiUnitAuctionInfo(await this.contract.getAuction(auctionId)));
+  }
+
+  /**
+   * Ciphertext handle of a bidder's allocation, decryptable only by them
+   */
+  async getAllocationHandle(auctionId: BigNumberish, bidder: string): Promise<string> {
+    return this.call(() => this.contract.getAllocation(auctionId, bidder));
+  }
+
+  async isSettlementPending(auctionId: BigNumberish): Promise<boolean> {
+    return this.call(() => this.contract.settlementPending(auctionId));
+  }
+
+  /**
+   * Request the clearing price decryption again (creator or keeper), for a
+   * request the oracle never answered
+   */
+  async retrySettlement(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.retrySettlement(auctionId));
+  }
+
+  /**
+   * Request decryption of what the connected bidder owes once the clearing
+   * price is revealed. The oracle then takes it out of their deposit.
+   */
+  async settleBid(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.settleBid(auctionId));
+  }
+
+  async isBidSettled(auctionId: BigNumberish, bidder: string): Promise<boolean> {
+    return this.call(() => this.contract.bidSettled(auctionId, bidder));
+  }
+
+  /**
+   * ETH held in escrow for a bidder; after settlement, what is left to refund
+   */
+  async getDeposit(auctionId: BigNumberish, bidder: string): Promise<bigint> {
+    return this.call(() => this.contract.bidDeposits(auctionId, bidder));
+  }
+
+  /**
+   * Withdraw the rest of the connected bidder's deposit after settleBid, or
+   * all of it after a cancellation
+   */
+  async withdrawRefund(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.withdrawRefund(auctionId));
+  }
+
+  /**
+   * Withdraw clearing price × units sold as the auction creator
+   */
+  async claimProceeds(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.claimProceeds(auctionId));
+  }
+
+  /**
+   * Cancel a fraudulent listing (moderator only), while bidding is open or
+   * settlement is pending. Bidders then reclaim deposits with withdrawRefund.
+   */
+  async cancelListing(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.cancelListing(auctionId));
+  }
+
+  async isCancelled(auctionId: BigNumberish): Promise<boolean> {
+    return this.call(() => this.contract.cancelled(auctionId));
+  }
+
+  /**
+   * Address of the AuctionGovernance contract holding roles and the pause
+   * switch; pass it to GovernanceClient
+   */
+  async getGovernanceAddress(): Promise<string> {
+    return this.call(() => this.contract.governance());
+  }
+
+  /**
+   * Run a read-only contract call, mapping revert reasons to typed errors
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined, mapping revert reasons
+   * to typed errors
+   */
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    return this.call(async () => {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new AuctionError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    });
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * @chapter: sdk
+ * Typed client for ConfidentialTokenAuction, paid in a ConfidentialERC20
+ *
+ * Bidding is two transactions: an encrypted allowance on the payment token,
+ * then the encrypted bid. Both are encrypted client-side, for the token and
+ * for the auction respectively. Settlement is homomorphic, so there is no
+ * oracle step: after endAuction every bidder can withdraw their refund.
+ *
+ * Usage:
+ *   const client = new TokenAuctionClient(address, signer, { fhevm });
+ *   const auctionId = await client.createAuction({ title, description, category, paymentToken, minimumBid });
+ *   await client.placeBid({ auctionId, amount });
+ */
+
+import type {
+  BigNumberish,
+  ContractRunner,
+  Signer,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import type { ConfidentialTokenAuction } from "../typechain-types";
+import { ConfidentialERC20__factory, ConfidentialTokenAuction__factory } from "../typechain-types";
+import { encryptBidAmount, encryptTokenAmount, FhevmEncryptor } from "./encryption";
+import { AuctionError, toAuctionError } from "./errors";
+
+/**
+ * Plain-object view of an on-chain token auction
+ */
+export interface TokenAuctionInfo {
+  id: bigint;
+  title: string;
+  description: string;
+  category: string;
+  /** ConfidentialERC20 the auction is denominated in */
+  paymentToken: string;
+  /** Minimum bid in token units */
+  minimumBid: bigint;
+  creator: string;
+  createdAt: bigint;
+  isActive: boolean;
+  startTime: bigint;
+  endTime: bigint;
+  bidCount: bigint;
+  /** Ciphertext handle of the highest escrowed bid */
+  highestBidHandle: string;
+  /** Ciphertext handle of the leading bidder (eaddress) */
+  highestBidderHandle: string;
+}
+
+export interface CreateTokenAuctionParams {
+  title: string;
+  description: string;
+  category: string;
+  paymentToken: string;
+  minimumBid: BigNumberish;
+  /** Unix time bidding opens; omitted or 0 opens immediately */
+  startTime?: BigNumberish;
+  /** Bidding window in seconds; omitted or 0 uses the contract default (7 days) */
+  duration?: BigNumberish;
+}
+
+export interface PlaceTokenBidParams {
+  auctionId: BigNumberish;
+  /** Plaintext bid in token units; approved and bid encrypted */
+  amount: BigNumberish;
+}
+
+/**
+ * Normalize a typechain token Auction struct
+ */
+export function toTokenAuctionInfo(auction: ConfidentialTokenAuction.AuctionStructOutput): TokenAuctionInfo {
+  return {
+    id: auction.id,
+    title: auction.title,
+    description: auction.description,
+    category: auction.category,
+    paymentToken: auction.paymentToken,
+    minimumBid: auction.minimumBid,
+    creator: auction.creator,
+    createdAt: auction.timestamp,
+    isActive: auction.isActive,
+    startTime: auction.startTime,
+    endTime: auction.endTime,
+    bidCount: auction.bidCount,
+    highestBidHandle: auction.highestBidAmount,
+    highestBidderHandle: auction.encryptedHighestBidder,
+  };
+}
+
+export interface TokenAuctionClientOptions {
+  /** FHEVM instance used to encrypt allowances and bids; required for placeBid */
+  fhevm?: FhevmEncryptor;
+}
+
+export class TokenAuctionClient {
+  readonly contract: ConfidentialTokenAuction;
+  private readonly runner: ContractRunner;
+  private readonly fhevm?: FhevmEncryptor;
+
+  constructor(address: string, runner: ContractRunner, options: TokenAuctionClientOptions = {}) {
+    this.contract = ConfidentialTokenAuction__factory.connect(address, runner);
+    this.runner = runner;
+    this.fhevm = options.fhevm;
+  }
+
+  /**
+   * Create an auction and return its ID from the AuctionCreated event
+   */
+  async createAuction(params: CreateTokenAuctionParams): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.createAuction(
+        params.title,
+        params.description,
+        params.category,
+        params.paymentToken,
+        params.minimumBid,
+        params.startTime ?? 0,
+        params.duration ?? 0
+      )
+    );
+
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "AuctionCreated") {
+        return parsed.args.auctionId as bigint;
+      }
+    }
+
+    throw new AuctionError("AuctionCreated event not found in receipt");
+  }
+
+  /**
+   * Approve the auction for `amount` on the payment token, then bid it.
+   * Returns the bid receipt.
+   */
+  async placeBid(params: PlaceTokenBidParams): Promise<ContractTransactionReceipt> {
+    if (!this.fhevm) {
+      throw new AuctionError("An FHEVM instance is required to encrypt inputs");
+    }
+    if (typeof (this.runner as Signer).getAddress !== "function") {
+      throw new AuctionError("A signer is required to send encrypted inputs");
+    }
+
+    const bidder = await (this.runner as Signer).getAddress();
+    const auctionAddress = await this.contract.getAddress();
+    const amount = BigInt(params.amount);
+    const { paymentToken } = await this.getAuction(params.auctionId);
+    const token = ConfidentialERC20__factory.connect(paymentToken, this.runner);
+
+    const allowance = await encryptTokenAmount(this.fhevm, paymentToken, bidder, amount);
+    await this.send(() => token.approve(auctionAddress, allowance.handle, allowance.inputProof));
+
+    const bid = await encryptBidAmount(this.fhevm, auctionAddress, bidder, amount);
+    return this.send(() => this.contract.placeBid(params.auctionId, bid.handle, bid.inputProof));
+  }
+
+  /**
+   * End an auction (creator at any time, anyone after endTime); pays the
+   * highest escrow to the creator
+   */
+  async endAuction(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.endAuction(auctionId));
+  }
+
+  /**
+   * Return the connected bidder's escrow (an encrypted 0 for the winner;
+   * the whole escrow for everyone after a cancellation)
+   */
+  async withdrawRefund(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.withdrawRefund(auctionId));
+  }
+
+  /**
+   * Cancel a fraudulent listing (moderator only) while bidding is open.
+   * Bidders then reclaim their escrow with withdrawRefund.
+   */
+  async cancelListing(auctionId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.cancelListing(auctionId));
+  }
+
+  async isCancelled(auctionId: BigNumberish): Promise<boolean> {
+    return this.call(() => this.contract.cancelled(auctionId));
+  }
+
+  /**
+   * Address of the AuctionGovernance contract holding roles and the pause
+   * switch; pass it to GovernanceClient
+   */
+  async getGovernanceAddress(): Promise<string> {
+    return this.call(() => this.contract.governance());
+  }
+
+  async getAuction(auctionId: BigNumberish): Promise<TokenAuctionInfo> {
+    return this.call(async () => toTokenAuctionInfo(await this.contract.getAuction(auctionId)));
+  }
+
+  /**
+   * Ciphertext handle of a bidder's escrow, decryptable only by them
+   */
+  async getEscrowHandle(auctionId: BigNumberish, bidder: string): Promise<string> {
+    return this.call(() => this.contract.getEscrow(auctionId, bidder));
+  }
+
+  /**
+   * Run a read-only contract call, mapping revert reasons to typed errors
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toAuctionError(error);
+    }
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined, mapping revert reasons
+   * to typed errors
+   */
+  private async send(
+    fn: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    return this.call(async () => {
+      const tx = await fn();
+      const receipt = await tx.wait();
+      if (receipt === null) {
+        throw new AuctionError(`Transaction ${tx.hash} was not mined`);
+      }
+      return receipt;
+    });
+  }
+}
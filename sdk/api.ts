@@ -0,0 +1,472 @@
+/**
+ * @chapter: sdk
+ * Read API over the auction indexer
+ *
+ * A plain Node HTTP server for clients that cannot reach the chain. It
+ * answers from an AuctionIndexer's database only, so it never makes an RPC
+ * call; keep the indexer synced (indexer.start()) next to it.
+ *
+ * REST:
+ *   GET /auctions?status=&categoryId=&creator=&limit=&offset=
+ *   GET /auctions/:id
+ *   GET /auctions/:id/bids?limit=&offset=
+ *   GET /users/:address/auctions?role=created|bidder|winner&limit=&offset=
+ *
+ * GraphQL:
+ *   GET or POST /graphql, schema in AUCTION_GRAPHQL_SCHEMA
+ *
+ * Lists come back as { items, total, nextOffset }, where nextOffset is null
+ * on the last page. uint256 values are decimal strings. Every 200 response
+ * carries an ETag; a request whose If-None-Match matches gets 304.
+ *
+ * Usage:
+ *   const indexer = await AuctionIndexer.open({ address, provider, databasePath });
+ *   await indexer.start();
+ *   createAuctionApi(indexer).listen(8080);
+ */
+
+import { createHash } from "crypto";
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import { getAddress, isAddress, ZeroAddress } from "ethers";
+import { buildSchema, graphql } from "graphql";
+import type { AuctionIndexer, IndexedAuction, IndexedAuctionStatus, IndexedBid } from "./indexer";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const MAX_PAGE_SIZE = 100;
+
+/** Largest GraphQL request body accepted, in bytes */
+const MAX_BODY_SIZE = 64 * 1024;
+
+const STATUSES: IndexedAuctionStatus[] = ["active", "settling", "ended", "cancelled"];
+
+/**
+ * GraphQL schema served at /graphql. Auction and Bid mirror the contract
+ * structs, minus the encrypted fields and the description, which are not
+ * in the events.
+ */
+export const AUCTION_GRAPHQL_SCHEMA = `
+  enum AuctionStatus {
+    active
+    settling
+    ended
+    cancelled
+  }
+
+  type Auction {
+    id: ID!
+    title: String!
+    categoryId: ID!
+    minimumBid: String!
+    creator: String!
+    isActive: Boolean!
+    status: AuctionStatus!
+    endTime: String!
+    "Revealed winner; the zero address until the auction has ended"
+    highestBidder: String!
+    bidCount: Int!
+    "Revealed price paid by the winner; 0 until the auction has ended"
+    winningBid: String!
+    createdBlock: Int!
+    bids(limit: Int, offset: Int): BidPage!
+  }
+
+  type Bid {
+    auctionId: ID!
+    bidder: String!
+    timestamp: String!
+    isWithdrawn: Boolean!
+    blockNumber: Int!
+    transactionHash: String!
+  }
+
+  type AuctionPage {
+    items: [Auction!]!
+    total: Int!
+    nextOffset: Int
+  }
+
+  type BidPage {
+    items: [Bid!]!
+    total: Int!
+    nextOffset: Int
+  }
+
+  type User {
+    address: String!
+    auctionsCreated: [Auction!]!
+    auctionsBidOn: [Auction!]!
+    auctionsWon: [Auction!]!
+  }
+
+  type Query {
+    auction(id: ID!): Auction
+    auctions(status: AuctionStatus, categoryId: ID, creator: String, limit: Int, offset: Int): AuctionPage!
+    user(address: String!): User!
+  }
+`;
+
+/**
+ * An auction as the API returns it
+ */
+export interface AuctionResource {
+  id: string;
+  title: string;
+  categoryId: string;
+  minimumBid: string;
+  creator: string;
+  isActive: boolean;
+  status: IndexedAuctionStatus;
+  endTime: string;
+  highestBidder: string;
+  bidCount: number;
+  winningBid: string;
+  createdBlock: number;
+}
+
+export interface BidResource {
+  auctionId: string;
+  bidder: string;
+  timestamp: string;
+  isWithdrawn: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  /** Offset of the next page; null on the last one */
+  nextOffset: number | null;
+}
+
+/**
+ * A request the API refuses, with the status code to answer it with
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+interface PageParams {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Create an HTTP server answering the REST and GraphQL API from `indexer`.
+ * The server is not listening yet.
+ */
+export function createAuctionApi(indexer: AuctionIndexer): Server {
+  const schema = buildSchema(AUCTION_GRAPHQL_SCHEMA);
+  const rootValue = graphqlRoot(indexer);
+
+  return createServer((request, response) => {
+    handle(request)
+      .then((body) => sendJson(request, response, 200, body))
+      .catch((error) => {
+        if (error instanceof HttpError) {
+          sendJson(request, response, error.status, { error: error.message });
+        } else {
+          console.error("API request failed:", error);
+          sendJson(request, response, 500, { error: "Internal server error" });
+        }
+      });
+  });
+
+  async function handle(request: IncomingMessage): Promise<unknown> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const segments = url.pathname.split("/").filter((segment) => segment.length > 0);
+    const query = url.searchParams;
+
+    if (segments[0] === "graphql" && segments.length === 1) {
+      if (request.method !== "GET" && request.method !== "POST") {
+        throw new HttpError(405, `Method ${request.method} not allowed`);
+      }
+      const { query: source, variables, operationName } =
+        request.method === "POST" ? await readGraphqlBody(request) : readGraphqlQuery(query);
+      const result = await graphql({ schema, source, rootValue, variableValues: variables, operationName });
+      if (result.data === undefined) {
+        throw new HttpError(400, result.errors!.map((error) => error.message).join("; "));
+      }
+      return result;
+    }
+
+    if (request.method !== "GET") {
+      throw new HttpError(405, `Method ${request.method} not allowed`);
+    }
+
+    if (segments[0] === "auctions") {
+      if (segments.length === 1) {
+        const page = parsePage(query);
+        const filter = {
+          status: parseStatus(query.get("status") ?? undefined),
+          categoryId: query.has("categoryId") ? parseId(query.get("categoryId")!, "categoryId") : undefined,
+          creator: query.has("creator") ? parseAddress(query.get("creator")!) : undefined,
+        };
+        return auctionPage(indexer, filter, page, toAuctionResource);
+      }
+
+      const auction = indexer.getAuction(parseId(segments[1], "auction ID"));
+      if (auction === undefined) {
+        throw new HttpError(404, `Auction ${segments[1]} not found`);
+      }
+      if (segments.length === 2) {
+        return toAuctionResource(auction);
+      }
+      if (segments.length === 3 && segments[2] === "bids") {
+        return paginate(indexer.getBids(auction.id).map(toBidResource), parsePage(query));
+      }
+    }
+
+    if (segments[0] === "users" && segments.length === 3 && segments[2] === "auctions") {
+      const user = indexer.getUser(parseAddress(segments[1]));
+      const role = query.get("role");
+      let ids: bigint[];
+      if (role === "created") {
+        ids = user.auctionsCreated;
+      } else if (role === "bidder") {
+        ids = user.auctionsBidOn;
+      } else if (role === "winner") {
+        ids = user.auctionsWon;
+      } else if (role === null) {
+        ids = [...new Set([...user.auctionsCreated, ...user.auctionsBidOn])].sort((a, b) =>
+          a < b ? -1 : a > b ? 1 : 0
+        );
+      } else {
+        throw new HttpError(400, "role must be created, bidder or winner");
+      }
+      return paginate(ids, parsePage(query), (id) => toAuctionResource(indexer.getAuction(id)!));
+    }
+
+    throw new HttpError(404, `No route for ${url.pathname}`);
+  }
+}
+
+/**
+ * Resolvers for AUCTION_GRAPHQL_SCHEMA. Arguments are validated the same
+ * way as the REST query parameters.
+ */
+function graphqlRoot(indexer: AuctionIndexer) {
+  const auctionObject = (auction: IndexedAuction) => ({
+    ...toAuctionResource(auction),
+    bids: (args: { limit?: number; offset?: number }) =>
+      paginate(indexer.getBids(auction.id).map(toBidResource), checkPage(args.limit, args.offset)),
+  });
+  const auctionObjects = (ids: bigint[]) => ids.map((id) => auctionObject(indexer.getAuction(id)!));
+
+  return {
+    auction: ({ id }: { id: string }) => {
+      const auction = indexer.getAuction(parseId(id, "auction ID"));
+      return auction === undefined ? null : auctionObject(auction);
+    },
+    auctions: (args: {
+      status?: IndexedAuctionStatus;
+      categoryId?: string;
+      creator?: string;
+      limit?: number;
+      offset?: number;
+    }) => {
+      const filter = {
+        status: args.status,
+        categoryId: args.categoryId === undefined ? undefined : parseId(args.categoryId, "categoryId"),
+        creator: args.creator === undefined ? undefined : parseAddress(args.creator),
+      };
+      return auctionPage(indexer, filter, checkPage(args.limit, args.offset), auctionObject);
+    },
+    user: ({ address }: { address: string }) => {
+      const user = indexer.getUser(parseAddress(address));
+      return {
+        address: user.address,
+        auctionsCreated: auctionObjects(user.auctionsCreated),
+        auctionsBidOn: auctionObjects(user.auctionsBidOn),
+        auctionsWon: auctionObjects(user.auctionsWon),
+      };
+    },
+  };
+}
+
+function auctionPage<R>(
+  indexer: AuctionIndexer,
+  filter: { status?: IndexedAuctionStatus; categoryId?: bigint; creator?: string },
+  { limit, offset }: PageParams,
+  map: (auction: IndexedAuction) => R
+): Page<R> {
+  const total = indexer.countAuctions(filter);
+  const items = indexer.getAuctions({ ...filter, limit, offset }).map(map);
+  return { items, total, nextOffset: offset + items.length < total ? offset + items.length : null };
+}
+
+/**
+ * One page of an in-memory list, mapping only the items on the page
+ */
+function paginate<T, R = T>(all: T[], { limit, offset }: PageParams, map?: (item: T) => R): Page<R> {
+  const slice = all.slice(offset, offset + limit);
+  const items = map === undefined ? (slice as unknown as R[]) : slice.map(map);
+  return { items, total: all.length, nextOffset: offset + limit < all.length ? offset + limit : null };
+}
+
+export function toAuctionResource(auction: IndexedAuction): AuctionResource {
+  return {
+    id: auction.id.toString(),
+    title: auction.title,
+    categoryId: auction.categoryId.toString(),
+    minimumBid: auction.minimumBid.toString(),
+    creator: auction.creator,
+    isActive: auction.status === "active",
+    status: auction.status,
+    endTime: auction.endTime.toString(),
+    highestBidder: auction.winner ?? ZeroAddress,
+    bidCount: auction.bidCount,
+    winningBid: (auction.winningBid ?? 0n).toString(),
+    createdBlock: auction.createdBlock,
+  };
+}
+
+export function toBidResource(bid: IndexedBid): BidResource {
+  return {
+    auctionId: bid.auctionId.toString(),
+    bidder: bid.bidder,
+    timestamp: bid.timestamp.toString(),
+    isWithdrawn: bid.withdrawn,
+    blockNumber: bid.blockNumber,
+    transactionHash: bid.transactionHash,
+  };
+}
+
+function parsePage(query: URLSearchParams): PageParams {
+  const number = (name: string) => {
+    const value = query.get(name);
+    if (value === null) {
+      return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+      throw new HttpError(400, `${name} must be a non-negative integer`);
+    }
+    return Number(value);
+  };
+  return checkPage(number("limit"), number("offset"));
+}
+
+function checkPage(limit: number = DEFAULT_PAGE_SIZE, offset: number = 0): PageParams {
+  if (!Number.isSafeInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new HttpError(400, "offset must be a non-negative integer");
+  }
+  return { limit, offset };
+}
+
+function parseId(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+function parseAddress(value: string): string {
+  if (!isAddress(value)) {
+    throw new HttpError(400, `${value} is not an address`);
+  }
+  return getAddress(value);
+}
+
+function parseStatus(value: string | undefined): IndexedAuctionStatus | undefined {
+  if (value !== undefined && !STATUSES.includes(value as IndexedAuctionStatus)) {
+    throw new HttpError(400, `status must be one of ${STATUSES.join(", ")}`);
+  }
+  return value as IndexedAuctionStatus | undefined;
+}
+
+interface GraphqlRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+function readGraphqlQuery(query: URLSearchParams): GraphqlRequest {
+  const source = query.get("query");
+  if (source === null) {
+    throw new HttpError(400, "query parameter is required");
+  }
+  const variables = query.get("variables");
+  return {
+    query: source,
+    variables: variables === null ? undefined : readVariables(parseJson(variables)),
+    operationName: query.get("operationName") ?? undefined,
+  };
+}
+
+async function readGraphqlBody(request: IncomingMessage): Promise<GraphqlRequest> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, `Request body is larger than ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const body = parseJson(Buffer.concat(chunks).toString("utf8"));
+  if (!isJsonObject(body) || typeof body.query !== "string") {
+    throw new HttpError(400, "Request body must be a JSON object with a query string");
+  }
+  const { query, variables, operationName } = body;
+  if (operationName !== undefined && operationName !== null && typeof operationName !== "string") {
+    throw new HttpError(400, "operationName must be a string");
+  }
+  return {
+    query,
+    variables: variables === undefined || variables === null ? undefined : readVariables(variables),
+    operationName: operationName ?? undefined,
+  };
+}
+
+function readVariables(value: unknown): Record<string, unknown> {
+  if (!isJsonObject(value)) {
+    throw new HttpError(400, "variables must be a JSON object");
+  }
+  return value;
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Invalid JSON");
+  }
+}
+
+/**
+ * Write a JSON response with an ETag over its exact bytes, or 304 if the
+ * client already holds them
+ */
+function sendJson(request: IncomingMessage, response: ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body);
+  response.setHeader("Content-Type", "application/json; charset=utf-8");
+  if (status !== 200) {
+    response.writeHead(status).end(json);
+    return;
+  }
+
+  const etag = `"${createHash("sha256").update(json).digest("base64url")}"`;
+  response.setHeader("ETag", etag);
+  response.setHeader("Cache-Control", "no-cache");
+  const cached = (request.headers["if-none-match"] ?? "").split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+  if (cached.includes(etag) || cached.includes("*")) {
+    response.writeHead(304).end();
+    return;
+  }
+  response.writeHead(200).end(json);
+}
@@ -0,0 +1,163 @@
+/**
+ * @chapter: sdk
+ * User decryption of ciphertexts the signer has been granted access to
+ *
+ * A handle the contract has FHE.allow-ed to a user can only be read back by
+ * that user. The flow is the relayer SDK's EIP-712 reencryption:
+ *   1. generate a throwaway keypair
+ *   2. sign an EIP-712 request binding the public key, the contracts and a
+ *      validity window to the user's address
+ *   3. send the handles, keypair and signature to the relayer, which checks
+ *      the ACL and returns the values reencrypted under the public key,
+ *      decrypted locally with the private key
+ *
+ * The decryptor is anything exposing generateKeypair, createEIP712 and
+ * userDecrypt: the relayer SDK instance in the browser, or `hre.fhevm` from
+ * @fhevm/hardhat-plugin, which runs a local mock relayer, in tests.
+ *
+ * Usage:
+ *   const amount = await decryptMyBid(fhevm, contract.connect(bidder), auctionId, bidder);
+ */
+
+import type { BigNumberish, Signer } from "ethers";
+import { AuctionError } from "./errors";
+
+/** Validity used when none is given: one day from now */
+const DEFAULT_DURATION_DAYS = 1;
+
+/**
+ * EIP-712 typed data returned by createEIP712
+ */
+export interface UserDecryptEIP712 {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: string;
+    version: string;
+  };
+  types: Record<string, { name: string; type: string }[]>;
+  message: Record<string, unknown>;
+}
+
+/**
+ * A ciphertext handle and the contract that holds it
+ */
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * Minimal surface of an FHEVM instance needed to user-decrypt handles
+ */
+export interface FhevmDecryptor {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): UserDecryptEIP712;
+  userDecrypt(
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+export interface UserDecryptOptions {
+  /** Unix time the signed request becomes valid; defaults to now */
+  startTimestamp?: number;
+  /** How long the signed request stays valid; defaults to 1 day */
+  durationDays?: number;
+}
+
+/**
+ * Decrypt handles the signer has ACL access to, returning cleartexts keyed
+ * by handle
+ */
+export async function userDecryptHandles(
+  fhevm: FhevmDecryptor,
+  signer: Signer,
+  pairs: HandleContractPair[],
+  options: UserDecryptOptions = {}
+): Promise<Record<string, bigint | boolean | string>> {
+  if (pairs.length === 0) {
+    return {};
+  }
+
+  const startTimestamp = options.startTimestamp ?? Math.floor(Date.now() / 1000);
+  const durationDays = options.durationDays ?? DEFAULT_DURATION_DAYS;
+  const contractAddresses = [...new Set(pairs.map((pair) => pair.contractAddress))];
+  const userAddress = await signer.getAddress();
+
+  const keypair = fhevm.generateKeypair();
+  const eip712 = fhevm.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  try {
+    return await fhevm.userDecrypt(
+      pairs,
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace("0x", ""),
+      contractAddresses,
+      userAddress,
+      startTimestamp,
+      durationDays
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AuctionError(`User decryption failed: ${message}`);
+  }
+}
+
+/**
+ * Decrypt a single euint64 handle held by `contractAddress`
+ */
+export async function userDecryptEuint64(
+  fhevm: FhevmDecryptor,
+  signer: Signer,
+  handle: string,
+  contractAddress: string,
+  options: UserDecryptOptions = {}
+): Promise<bigint> {
+  const results = await userDecryptHandles(fhevm, signer, [{ handle, contractAddress }], options);
+  const value = Object.entries(results).find(([key]) => key.toLowerCase() === handle.toLowerCase())?.[1];
+  if (typeof value !== "bigint") {
+    throw new AuctionError(`Relayer returned no value for handle ${handle}`);
+  }
+  return value;
+}
+
+/**
+ * Any auction contract exposing getMyBid, connected to the bidder
+ */
+export interface MyBidReader {
+  getMyBid(auctionId: BigNumberish): Promise<string>;
+  getAddress(): Promise<string>;
+}
+
+/**
+ * Read back the signer's own bid. `contract` must be connected to `signer`,
+ * since getMyBid resolves the bid from msg.sender.
+ */
+export async function decryptMyBid(
+  fhevm: FhevmDecryptor,
+  contract: MyBidReader,
+  auctionId: BigNumberish,
+  signer: Signer,
+  options: UserDecryptOptions = {}
+): Promise<bigint> {
+  const handle = await contract.getMyBid(auctionId);
+  return userDecryptEuint64(fhevm, signer, handle, await contract.getAddress(), options);
+}
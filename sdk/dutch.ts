@@ -0,0 +1,41 @@
+/**
+ * @chapter: sdk
+ * Off-chain ask price for Dutch (descending-price) auctions
+ *
+ * The on-chain ask falls linearly from the start price at startTime to the
+ * minimum bid at endTime. Everything needed to compute it is public, so
+ * clients can show a live price without calling getCurrentAsk every block.
+ *
+ * Usage:
+ *   const schedule = await client.getDutchSchedule(auctionId);
+ *   const ask = computeDutchAsk(schedule, BigInt(Math.floor(Date.now() / 1000)));
+ */
+
+/**
+ * Public price schedule of a Dutch auction
+ */
+export interface DutchSchedule {
+  startPrice: bigint;
+  /** Floor the ask reaches at endTime */
+  minimumBid: bigint;
+  startTime: bigint;
+  endTime: bigint;
+}
+
+/**
+ * Ask at unix time `now`, matching ConfidentialAuction.getCurrentAsk
+ * (including its integer rounding)
+ */
+export function computeDutchAsk(schedule: DutchSchedule, now: bigint): bigint {
+  const { startPrice, minimumBid, startTime, endTime } = schedule;
+  if (now <= startTime) {
+    return startPrice;
+  }
+  if (now >= endTime) {
+    return minimumBid;
+  }
+
+  const elapsed = now - startTime;
+  const duration = endTime - startTime;
+  return startPrice - ((startPrice - minimumBid) * elapsed) / duration;
+}
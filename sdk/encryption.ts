@@ -0,0 +1,147 @@
+/**
+ * @chapter: sdk
+ * Client-side encryption of bid amounts and reserve prices
+ *
+ * Bids are encrypted off-chain and bound to a [contract, user] pair, then
+ * submitted as an externalEuint64 handle plus an input proof. The encryptor
+ * is anything exposing createEncryptedInput: the relayer SDK instance in the
+ * browser, or `hre.fhevm` from @fhevm/hardhat-plugin in tests and scripts.
+ *
+ * Usage:
+ *   const { handle, inputProof } = await encryptBidAmount(fhevm, contractAddress, bidder, amount);
+ *   await contract.placeBid(auctionId, true, handle, inputProof, comments, { value });
+ *
+ * Reserve prices are encrypted the same way by the auction creator and
+ * passed to createAuction. Multi-unit bids encrypt the quantity and the unit
+ * price together, so both handles share a single input proof. Token-paid
+ * auctions also need an allowance encrypted for the ConfidentialERC20.
+ */
+
+import { hexlify, ZeroHash } from "ethers";
+import { AuctionError } from "./errors";
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+/**
+ * Builder returned by createEncryptedInput
+ */
+export interface EncryptedInputBuilder {
+  add64(value: number | bigint): unknown;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+/**
+ * Minimal surface of an FHEVM instance needed to encrypt inputs
+ */
+export interface FhevmEncryptor {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+}
+
+/**
+ * An encrypted amount ready to pass to placeBid or createAuction
+ */
+export interface EncryptedBid {
+  /** externalEuint64 handle */
+  handle: string;
+  inputProof: string;
+}
+
+async function encryptUint64(
+  fhevm: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  value: bigint,
+  label: string
+): Promise<EncryptedBid> {
+  if (value < 0n || value > MAX_UINT64) {
+    throw new AuctionError(`${label} ${value} does not fit in uint64`);
+  }
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  input.add64(value);
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    handle: hexlify(handles[0]),
+    inputProof: hexlify(inputProof),
+  };
+}
+
+/**
+ * Encrypt a bid amount for a contract/user pair
+ */
+export async function encryptBidAmount(
+  fhevm: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  amount: bigint
+): Promise<EncryptedBid> {
+  return encryptUint64(fhevm, contractAddress, userAddress, amount, "Bid amount");
+}
+
+/**
+ * Encrypt a reserve price for the auction creator
+ */
+export async function encryptReservePrice(
+  fhevm: FhevmEncryptor,
+  contractAddress: string,
+  creatorAddress: string,
+  reserve: bigint
+): Promise<EncryptedBid> {
+  return encryptUint64(fhevm, contractAddress, creatorAddress, reserve, "Reserve price");
+}
+
+/**
+ * Encrypt a ConfidentialERC20 amount, e.g. an allowance passed to approve
+ */
+export async function encryptTokenAmount(
+  fhevm: FhevmEncryptor,
+  tokenAddress: string,
+  ownerAddress: string,
+  amount: bigint
+): Promise<EncryptedBid> {
+  return encryptUint64(fhevm, tokenAddress, ownerAddress, amount, "Token amount");
+}
+
+/**
+ * Quantity and unit price of a multi-unit bid, sharing one input proof
+ */
+export interface EncryptedMultiUnitBid {
+  quantityHandle: string;
+  unitPriceHandle: string;
+  inputProof: string;
+}
+
+/**
+ * Encrypt a multi-unit bid (units wanted and maximum price per unit)
+ */
+export async function encryptMultiUnitBid(
+  fhevm: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  quantity: bigint,
+  unitPrice: bigint
+): Promise<EncryptedMultiUnitBid> {
+  for (const [label, value] of [
+    ["Quantity", quantity],
+    ["Unit price", unitPrice],
+  ] as const) {
+    if (value < 0n || value > MAX_UINT64) {
+      throw new AuctionError(`${label} ${value} does not fit in uint64`);
+    }
+  }
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  input.add64(quantity);
+  input.add64(unitPrice);
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    quantityHandle: hexlify(handles[0]),
+    unitPriceHandle: hexlify(handles[1]),
+    inputProof: hexlify(inputProof),
+  };
+}
+
+/** Placeholder passed to createAuction when there is no reserve */
+export const NO_RESERVE: EncryptedBid = { handle: ZeroHash, inputProof: "0x" };
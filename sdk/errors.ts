@@ -0,0 +1,244 @@
+/**
+ * @chapter: sdk
+ * Typed errors for the auction client SDK
+ *
+ * Auction contracts revert with plain reason strings. These classes give
+ * application code something it can branch on with `instanceof` instead of
+ * string-matching ethers error messages.
+ */
+
+import { id } from "ethers";
+
+/**
+ * Base class for every error raised by the SDK
+ */
+export class AuctionError extends Error {
+  readonly reason?: string;
+
+  constructor(message: string, reason?: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = new.target.name;
+    this.reason = reason;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/** The auction ID does not exist on the contract */
+export class AuctionNotFoundError extends AuctionError {}
+
+/** The auction has already been settled or deactivated */
+export class AuctionNotActiveError extends AuctionError {}
+
+/** The auction end time has passed */
+export class AuctionEndedError extends AuctionError {}
+
+/** The auction is scheduled and bidding has not opened yet */
+export class AuctionNotStartedError extends AuctionError {}
+
+/**
+ * createAuction was called with an empty field, an unknown or disabled
+ * category, a zero minimum bid or an out-of-range schedule
+ */
+export class InvalidAuctionParamsError extends AuctionError {}
+
+/** The bid amount or attached value was rejected by the contract */
+export class BidRejectedError extends AuctionError {}
+
+/** The caller already has a bid on this auction */
+export class DuplicateBidError extends AuctionError {}
+
+/** The caller has no live bid to update or withdraw on this auction */
+export class BidNotFoundError extends AuctionError {}
+
+/** The caller is the auction creator and cannot bid on it */
+export class SelfBidError extends AuctionError {}
+
+/** The caller is not allowed to perform this action */
+export class UnauthorizedError extends AuctionError {}
+
+/** The ETH attached to cancelAuction does not match the cancellation penalty */
+export class CancellationPenaltyError extends AuctionError {}
+
+/** Governance has paused new auctions and bids */
+export class AuctionsPausedError extends AuctionError {}
+
+/** A decryption callback arrived for a settlement that is not pending */
+export class SettlementNotPendingError extends AuctionError {}
+
+/** Escrow cannot be withdrawn: not settled yet, or nothing is owed */
+export class NothingToWithdrawError extends AuctionError {}
+
+/** An off-chain listing document does not match the metadata schema */
+export class InvalidMetadataError extends AuctionError {}
+
+/** Fetched listing metadata does not match the on-chain content hash */
+export class MetadataMismatchError extends AuctionError {}
+
+type AuctionErrorClass = new (
+  message: string,
+  reason?: string,
+  options?: { cause?: unknown }
+) => AuctionError;
+
+/**
+ * Revert reason strings used across the auction contracts, mapped to the
+ * error class the SDK raises for them
+ */
+const REVERT_REASONS: Record<string, AuctionErrorClass> = {
+  "Invalid auction ID": AuctionNotFoundError,
+  "Auction is not active": AuctionNotActiveError,
+  "Auction has ended": AuctionEndedError,
+  "Auction has not started": AuctionNotStartedError,
+  "Title cannot be empty": InvalidAuctionParamsError,
+  "Description cannot be empty": InvalidAuctionParamsError,
+  "Category cannot be empty": InvalidAuctionParamsError,
+  "Minimum bid must be greater than 0": InvalidAuctionParamsError,
+  "Start time is in the past": InvalidAuctionParamsError,
+  "Start time too far in the future": InvalidAuctionParamsError,
+  "Duration too short": InvalidAuctionParamsError,
+  "Duration too long": InvalidAuctionParamsError,
+  "Bid below minimum amount": BidRejectedError,
+  "Bid too low": BidRejectedError,
+  "Insufficient payment": BidRejectedError,
+  "You have already placed a bid on this auction": DuplicateBidError,
+  "Cannot bid on your own auction": SelfBidError,
+  "Auction has not ended yet and you are not the creator": UnauthorizedError,
+  "Only creator can end auction": UnauthorizedError,
+  "Only contract owner": UnauthorizedError,
+  "No pending settlement": SettlementNotPendingError,
+  "Auction is not settled": NothingToWithdrawError,
+  "No refund available": NothingToWithdrawError,
+  "No proceeds available": NothingToWithdrawError,
+  "Only creator can claim proceeds": UnauthorizedError,
+  "Only creator can configure soft close": UnauthorizedError,
+  "Soft close must be set before bidding": InvalidAuctionParamsError,
+  "Soft close window and extension must be greater than 0": InvalidAuctionParamsError,
+  "Maximum extension too long": InvalidAuctionParamsError,
+  "Soft close is not supported for Dutch auctions": InvalidAuctionParamsError,
+  "Start price must exceed minimum bid": InvalidAuctionParamsError,
+  "Start price too high": InvalidAuctionParamsError,
+  "Deposit below current ask": BidRejectedError,
+  "Not a Dutch auction": InvalidAuctionParamsError,
+  "Units must be greater than 0": InvalidAuctionParamsError,
+  "Too many bids": BidRejectedError,
+  "Deposit too large": BidRejectedError,
+  "No bid to settle": BidNotFoundError,
+  "Bid already settled": AuctionError,
+  "No pending payment": SettlementNotPendingError,
+  "Bid is not settled": NothingToWithdrawError,
+  "You have not placed a bid on this auction": BidNotFoundError,
+  "Bid has been withdrawn": BidNotFoundError,
+  "Bid withdrawals are not allowed": BidRejectedError,
+  "Bid changes are not supported for Dutch auctions": BidRejectedError,
+  "Only creator can allow bid withdrawals": UnauthorizedError,
+  "Bid withdrawals must be allowed before bidding": InvalidAuctionParamsError,
+  "Payment token cannot be zero": InvalidAuctionParamsError,
+  "Refund already claimed": NothingToWithdrawError,
+  "Invalid page size": InvalidAuctionParamsError,
+  "Invalid category": InvalidAuctionParamsError,
+  "Category already exists": InvalidAuctionParamsError,
+  "Only admin can manage categories": UnauthorizedError,
+  "Metadata hash cannot be empty": InvalidAuctionParamsError,
+  "Metadata URI cannot be empty": InvalidAuctionParamsError,
+  "Auctions are paused": AuctionsPausedError,
+  "Auctions are not paused": AuctionError,
+  "Only moderator can cancel listings": UnauthorizedError,
+  "Only keeper can retry settlement": UnauthorizedError,
+  "Only creator or keeper can retry settlement": UnauthorizedError,
+  "Only admin can recover funds": UnauthorizedError,
+  "Auction is already settled": AuctionNotActiveError,
+  "Auction is cancelled": AuctionNotActiveError,
+  "Nothing to recover": NothingToWithdrawError,
+  "Only creator can cancel auction": UnauthorizedError,
+  "Incorrect cancellation penalty": CancellationPenaltyError,
+};
+
+/**
+ * Custom errors raised by the OpenZeppelin base contracts of
+ * AuctionGovernance, mapped the same way
+ */
+const CUSTOM_ERRORS: Record<string, AuctionErrorClass> = {
+  AccessControlUnauthorizedAccount: UnauthorizedError,
+  AccessControlBadConfirmation: UnauthorizedError,
+  EnforcedPause: AuctionsPausedError,
+  ExpectedPause: AuctionError,
+};
+
+/** Custom error names by 4-byte selector, for errors ethers did not decode */
+const CUSTOM_ERROR_SELECTORS: Record<string, string> = Object.fromEntries(
+  [
+    "AccessControlUnauthorizedAccount(address,bytes32)",
+    "AccessControlBadConfirmation()",
+    "EnforcedPause()",
+    "ExpectedPause()",
+  ].map((signature) => [id(signature).slice(0, 10), signature.slice(0, signature.indexOf("("))])
+);
+
+/**
+ * Extract the revert reason string from an ethers error, if there is one
+ */
+export function getRevertReason(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const err = error as {
+    reason?: unknown;
+    revert?: { args?: unknown[] };
+    shortMessage?: unknown;
+    message?: unknown;
+  };
+
+  if (typeof err.reason === "string" && err.reason.length > 0) {
+    return err.reason;
+  }
+  if (err.revert?.args && typeof err.revert.args[0] === "string") {
+    return err.revert.args[0];
+  }
+
+  // Hardhat errors only carry the reason inside the message text
+  const text = typeof err.message === "string" ? err.message : String(err.shortMessage ?? "");
+  const match = text.match(/reverted with reason string '([^']*)'/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Extract the name of a custom error from an ethers error, if there is one
+ */
+export function getCustomErrorName(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const err = error as { revert?: { name?: unknown }; data?: unknown };
+  if (typeof err.revert?.name === "string") {
+    return err.revert.name;
+  }
+
+  // Hardhat errors only carry the raw revert data
+  return typeof err.data === "string" ? CUSTOM_ERROR_SELECTORS[err.data.slice(0, 10)] : undefined;
+}
+
+/**
+ * Convert a contract call failure into a typed AuctionError.
+ * Errors with no recognised revert reason are returned unchanged.
+ */
+export function toAuctionError(error: unknown): unknown {
+  if (error instanceof AuctionError) {
+    return error;
+  }
+
+  const reason = getRevertReason(error);
+  if (reason === undefined) {
+    const name = getCustomErrorName(error);
+    if (name !== undefined && name in CUSTOM_ERRORS) {
+      return new CUSTOM_ERRORS[name](name, name, { cause: error });
+    }
+    return error;
+  }
+
+  const ErrorClass = REVERT_REASONS[reason] ?? AuctionError;
+  return new ErrorClass(reason, reason, { cause: error });
+}
@@ -0,0 +1,239 @@
+/**
+ * @chapter: sdk
+ * WebSocket gateway for live auction activity
+ *
+ * Pushes auction events to browsers and apps as the indexer picks them up,
+ * so nobody has to reload to see a new bid. Clients subscribe to channels:
+ *   auctions          every relayed event, including new auctions
+ *   auction:<id>      events of one auction
+ *
+ * A subscription may pass `fromBlock` to first replay the indexed events
+ * from that block, which is how a client resumes after a disconnect
+ * without missing anything. The replay and the live events that follow it
+ * come in chain order, with no gap between them.
+ *
+ * Protocol (JSON text frames):
+ *   → { type: "subscribe", channel, fromBlock? }
+ *   → { type: "unsubscribe", channel }
+ *   ← { type: "subscribed", channel, block }   block = last indexed block
+ *   ← { type: "event", channel, event }
+ *   ← { type: "reorg", block }                 events after block were dropped
+ *   ← { type: "error", message }
+ *
+ * Usage:
+ *   const indexer = await AuctionIndexer.open({ address, provider, databasePath });
+ *   await indexer.start();
+ *   const gateway = new AuctionGateway(indexer, { port: 8081 });
+ */
+
+import { WebSocket, WebSocketServer } from "ws";
+import type { ServerOptions } from "ws";
+import type { AuctionIndexer, IndexedEvent, IndexerChange } from "./indexer";
+
+/** Events relayed to subscribers */
+export const GATEWAY_EVENTS = ["AuctionCreated", "BidPlaced", "AuctionExtended", "AuctionEnded"];
+
+/** Ping interval used to drop dead connections, in milliseconds */
+const DEFAULT_HEARTBEAT_INTERVAL = 30000;
+
+const AUCTION_CHANNEL = /^auction:(\d+)$/;
+
+/**
+ * An event as sent over the wire: uint256 values as decimal strings
+ */
+export interface GatewayEvent {
+  name: string;
+  auctionId: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  args: Record<string, string>;
+}
+
+export type GatewayClientMessage =
+  | { type: "subscribe"; channel: string; fromBlock?: number }
+  | { type: "unsubscribe"; channel: string };
+
+export type GatewayServerMessage =
+  | { type: "subscribed"; channel: string; block: number }
+  | { type: "event"; channel: string; event: GatewayEvent }
+  | { type: "reorg"; block: number }
+  | { type: "error"; message: string };
+
+export interface AuctionGatewayOptions extends ServerOptions {
+  /** Ping interval in milliseconds (default 30000) */
+  heartbeatInterval?: number;
+}
+
+/**
+ * The channel name for one auction's events
+ */
+export function auctionChannel(auctionId: bigint | number): string {
+  return `auction:${auctionId}`;
+}
+
+export class AuctionGateway {
+  readonly server: WebSocketServer;
+  private readonly indexer: AuctionIndexer;
+  private readonly subscriptions = new Map<WebSocket, Set<string>>();
+  private readonly alive = new WeakSet<WebSocket>();
+  private readonly heartbeat: NodeJS.Timeout;
+  private readonly unsubscribe: () => void;
+
+  /**
+   * Start a WebSocket server relaying `indexer`'s changes. Options are
+   * passed to the `ws` server: `port` to listen on its own, or `server`
+   * (and `path`) to share an HTTP server such as createAuctionApi's.
+   */
+  constructor(indexer: AuctionIndexer, options: AuctionGatewayOptions) {
+    this.indexer = indexer;
+    const { heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL, ...serverOptions } = options;
+    this.server = new WebSocketServer(serverOptions);
+    this.server.on("connection", (socket) => this.connect(socket));
+    this.unsubscribe = indexer.onChange((change) => this.relay(change));
+
+    // Terminate sockets that did not answer the previous ping
+    this.heartbeat = setInterval(() => {
+      for (const socket of this.subscriptions.keys()) {
+        if (!this.alive.has(socket)) {
+          socket.terminate();
+          continue;
+        }
+        this.alive.delete(socket);
+        socket.ping();
+      }
+    }, heartbeatInterval);
+  }
+
+  /**
+   * Disconnect every client and stop the server
+   */
+  async close(): Promise<void> {
+    clearInterval(this.heartbeat);
+    this.unsubscribe();
+    for (const socket of this.subscriptions.keys()) {
+      socket.terminate();
+    }
+    await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  private connect(socket: WebSocket): void {
+    this.subscriptions.set(socket, new Set());
+    this.alive.add(socket);
+    socket.on("pong", () => this.alive.add(socket));
+    socket.on("close", () => this.subscriptions.delete(socket));
+    socket.on("message", (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        this.send(socket, { type: "error", message: "Invalid JSON" });
+        return;
+      }
+      this.handle(socket, message);
+    });
+  }
+
+  private handle(socket: WebSocket, message: unknown): void {
+    const channels = this.subscriptions.get(socket)!;
+    if (!isJsonObject(message)) {
+      this.send(socket, { type: "error", message: "Messages must be JSON objects" });
+      return;
+    }
+    const filter = typeof message.channel === "string" ? channelFilter(message.channel) : undefined;
+    if (filter === undefined) {
+      this.send(socket, { type: "error", message: `Unknown channel ${message.channel}` });
+      return;
+    }
+    if (!isGatewayClientMessage(message)) {
+      const error =
+        message.type === "subscribe"
+          ? "fromBlock must be a non-negative integer"
+          : `Unknown message type ${message.type}`;
+      this.send(socket, { type: "error", message: error });
+      return;
+    }
+
+    if (message.type === "unsubscribe") {
+      channels.delete(message.channel);
+      return;
+    }
+
+    const { fromBlock } = message;
+
+    // Reading the backlog is synchronous, so no live event can slip in
+    // between the replay and the subscription
+    if (fromBlock !== undefined) {
+      const backlog = this.indexer.getEvents({ fromBlock, auctionId: filter.auctionId, names: GATEWAY_EVENTS });
+      for (const event of backlog) {
+        this.send(socket, { type: "event", channel: message.channel, event: toGatewayEvent(event) });
+      }
+    }
+    channels.add(message.channel);
+    this.send(socket, { type: "subscribed", channel: message.channel, block: this.indexer.lastIndexedBlock });
+  }
+
+  private relay(change: IndexerChange): void {
+    if (change.reorgedTo !== undefined) {
+      for (const socket of this.subscriptions.keys()) {
+        this.send(socket, { type: "reorg", block: change.reorgedTo });
+      }
+    }
+
+    for (const event of change.events) {
+      if (!GATEWAY_EVENTS.includes(event.name)) {
+        continue;
+      }
+      const payload = toGatewayEvent(event);
+      for (const [socket, channels] of this.subscriptions) {
+        for (const channel of [auctionChannel(event.auctionId), "auctions"]) {
+          if (channels.has(channel)) {
+            this.send(socket, { type: "event", channel, event: payload });
+          }
+        }
+      }
+    }
+  }
+
+  private send(socket: WebSocket, message: GatewayServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * Which events a channel receives; undefined for an unknown channel
+ */
+function channelFilter(channel: string): { auctionId?: bigint } | undefined {
+  if (channel === "auctions") {
+    return {};
+  }
+  const match = AUCTION_CHANNEL.exec(channel);
+  return match === null ? undefined : { auctionId: BigInt(match[1]) };
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a decoded frame is a well-formed subscribe or unsubscribe
+ */
+function isGatewayClientMessage(message: Record<string, unknown>): message is GatewayClientMessage {
+  if (typeof message.channel !== "string") {
+    return false;
+  }
+  if (message.type === "unsubscribe") {
+    return true;
+  }
+  const { fromBlock } = message;
+  return (
+    message.type === "subscribe" &&
+    (fromBlock === undefined || (typeof fromBlock === "number" && Number.isSafeInteger(fromBlock) && fromBlock >= 0))
+  );
+}
+
+function toGatewayEvent(event: IndexedEvent): GatewayEvent {
+  return { ...event, auctionId: event.auctionId.toString() };
+}
@@ -0,0 +1,17 @@
+export * from "./api";
+export * from "./AuctionAdapter";
+export * from "./AuctionClient";
+export * from "./AuctionFeedClient";
+export * from "./CategoryRegistryClient";
+export * from "./decryption";
+export * from "./dutch";
+export * from "./encryption";
+export * from "./errors";
+export * from "./FactoryClient";
+export * from "./gateway";
+export * from "./GovernanceClient";
+export * from "./indexer";
+export * from "./keeper";
+export * from "./metadata";
+export * from "./MultiUnitAuctionClient";
+export * from "./TokenAuctionClient";
@@ -0,0 +1,717 @@
+/**
+ * @chapter: sdk
+ * Event indexer for ConfidentialAuction
+ *
+ * Rebuilding the auction list from view calls costs one round trip per
+ * auction. The indexer instead follows the contract's events into a local
+ * SQLite database that can be queried directly:
+ *   - every indexed event is kept in an `events` table, in chain order
+ *   - `auctions` and `bids` are projections of those events
+ *   - the hash of the last block of every synced range (and of every block
+ *     with an event) is kept, so a reorg is detected on the next sync; the
+ *     events after the last block still on the chain are dropped, the
+ *     affected auctions are rebuilt from what is left and the rest is
+ *     indexed again from the new chain
+ *
+ * The database is an in-memory sql.js (SQLite compiled to WebAssembly)
+ * instance, written back to `databasePath` after every sync that changed it.
+ *
+ * Usage:
+ *   const indexer = await AuctionIndexer.open({ address, provider, databasePath: "auctions.db" });
+ *   await indexer.sync();                      // or indexer.start() to follow new blocks
+ *   const open = indexer.getAuctions({ status: "active" });
+ *   const bids = indexer.getBids(open[0].id);
+ */
+
+import { existsSync } from "fs";
+import { readFile, rename, writeFile } from "fs/promises";
+import { getAddress } from "ethers";
+import type { Provider } from "ethers";
+import initSqlJs from "sql.js";
+import type { Database, SqlValue } from "sql.js";
+import type { ConfidentialAuction } from "../typechain-types";
+import type { TypedContractEvent, TypedEventLog } from "../typechain-types/common";
+import { ConfidentialAuction__factory } from "../typechain-types";
+import { AuctionError } from "./errors";
+
+/** Blocks per eth_getLogs range when the options do not set one */
+const DEFAULT_BATCH_SIZE = 2000;
+
+/** Reconciliation poll while started, in milliseconds */
+const DEFAULT_POLL_INTERVAL = 15000;
+
+/** Results per getAuctions call when the query does not set one */
+const DEFAULT_PAGE_SIZE = 20;
+
+const MAX_PAGE_SIZE = 100;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    auction_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_auction ON events (auction_id);
+  CREATE TABLE IF NOT EXISTS auctions (
+    id INTEGER PRIMARY KEY,
+    title TEXT NOT NULL,
+    category_id INTEGER NOT NULL,
+    minimum_bid TEXT NOT NULL,
+    creator TEXT NOT NULL,
+    end_time INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    bid_count INTEGER NOT NULL,
+    winner TEXT,
+    winning_bid TEXT,
+    created_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS auctions_creator ON auctions (creator);
+  CREATE INDEX IF NOT EXISTS auctions_category ON auctions (category_id);
+  CREATE TABLE IF NOT EXISTS bids (
+    auction_id INTEGER NOT NULL,
+    bidder TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    withdrawn INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    PRIMARY KEY (auction_id, bidder)
+  );
+  CREATE INDEX IF NOT EXISTS bids_bidder ON bids (bidder);
+`;
+
+/**
+ * Lifecycle of an indexed auction
+ *   active     not ended on-chain (it may be past its end time)
+ *   settling   ended, waiting for the decryption oracle
+ *   ended      settled; `winner` is the zero address when nothing sold
+ *   cancelled  cancelled by the creator or a moderator
+ */
+export type IndexedAuctionStatus = "active" | "settling" | "ended" | "cancelled";
+
+export interface IndexedAuction {
+  id: bigint;
+  title: string;
+  categoryId: bigint;
+  minimumBid: bigint;
+  creator: string;
+  /** Latest end time, including soft-close extensions */
+  endTime: bigint;
+  status: IndexedAuctionStatus;
+  /** Live bids: placed and not withdrawn */
+  bidCount: number;
+  /** Set once the auction has ended */
+  winner?: string;
+  winningBid?: bigint;
+  createdBlock: number;
+}
+
+export interface IndexedBid {
+  auctionId: bigint;
+  bidder: string;
+  timestamp: bigint;
+  withdrawn: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Everything one address has done on the contract
+ */
+export interface IndexedUser {
+  address: string;
+  auctionsCreated: bigint[];
+  auctionsBidOn: bigint[];
+  auctionsWon: bigint[];
+}
+
+export interface IndexedAuctionQuery {
+  status?: IndexedAuctionStatus;
+  categoryId?: bigint | number;
+  creator?: string;
+  /** Results to skip, in ID order (default 0) */
+  offset?: number;
+  /** Results to return, at most 100 (default 20) */
+  limit?: number;
+}
+
+export interface SyncResult {
+  /** Last block now indexed; fromBlock - 1 before anything was indexed */
+  toBlock: number;
+  /** Events indexed by this sync */
+  events: number;
+  /** Set when a reorg was found: the last block that was kept */
+  reorgedTo?: number;
+}
+
+export interface AuctionIndexerOptions {
+  address: string;
+  provider: Provider;
+  /** SQLite file to load and save; omit to keep the index in memory only */
+  databasePath?: string;
+  /** First block to index into an empty database (default 0) */
+  fromBlock?: number;
+  /** Blocks to stay behind the chain head (default 0) */
+  confirmations?: number;
+  /** Blocks per eth_getLogs range (default 2000) */
+  batchSize?: number;
+  /** Called with errors from syncs started by start() */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * An indexed contract event, in chain order by (blockNumber, logIndex)
+ */
+export interface IndexedEvent {
+  name: string;
+  auctionId: bigint;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  /** Named event arguments; numbers as decimal strings */
+  args: Record<string, string>;
+}
+
+export interface IndexedEventQuery {
+  /** First block to return events from (default: all) */
+  fromBlock?: number;
+  auctionId?: bigint | number;
+  /** Event names to return (default: all indexed events) */
+  names?: string[];
+}
+
+/**
+ * What one sync changed, as passed to onChange listeners. A reorg is
+ * reported before the events that replace the dropped ones.
+ */
+export interface IndexerChange {
+  events: IndexedEvent[];
+  /** Set when events after this block were dropped */
+  reorgedTo?: number;
+}
+
+export class AuctionIndexer {
+  readonly contract: ConfidentialAuction;
+  private readonly provider: Provider;
+  private readonly db: Database;
+  private readonly databasePath?: string;
+  private readonly fromBlock: number;
+  private readonly confirmations: number;
+  private readonly batchSize: number;
+  private readonly onError: (error: unknown) => void;
+
+  private last: Promise<unknown> = Promise.resolve();
+  private next?: Promise<SyncResult>;
+  private timer?: NodeJS.Timeout;
+  private readonly changeListeners = new Set<(change: IndexerChange) => void>();
+  private readonly listener = () => {
+    this.sync().catch(this.onError);
+  };
+
+  private constructor(options: AuctionIndexerOptions, db: Database) {
+    this.contract = ConfidentialAuction__factory.connect(options.address, options.provider);
+    this.provider = options.provider;
+    this.db = db;
+    this.databasePath = options.databasePath;
+    this.fromBlock = options.fromBlock ?? 0;
+    this.confirmations = options.confirmations ?? 0;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.onError = options.onError ?? ((error) => console.error("Indexer sync failed:", error));
+  }
+
+  /**
+   * Load the database at `databasePath` (or start an empty one) for the
+   * given contract. Throws if the file was built for another contract or
+   * chain.
+   */
+  static async open(options: AuctionIndexerOptions): Promise<AuctionIndexer> {
+    const SQL = await initSqlJs();
+    const { databasePath } = options;
+    const db =
+      databasePath !== undefined && existsSync(databasePath)
+        ? new SQL.Database(await readFile(databasePath))
+        : new SQL.Database();
+    db.exec(SCHEMA);
+
+    const indexer = new AuctionIndexer(options, db);
+    const { chainId } = await options.provider.getNetwork();
+    indexer.checkMeta("address", getAddress(options.address));
+    indexer.checkMeta("chainId", chainId.toString());
+    return indexer;
+  }
+
+  /**
+   * Index every new event up to the head minus `confirmations`, after
+   * rolling back blocks that are no longer on the chain. Calls made while
+   * a sync is running are served by one more sync after it.
+   */
+  sync(): Promise<SyncResult> {
+    if (this.next === undefined) {
+      const next = this.last.then(() => {
+        this.next = undefined;
+        return this.runSync();
+      });
+      this.next = next;
+      this.last = next.catch(() => undefined);
+    }
+    return this.next;
+  }
+
+  /**
+   * Follow the contract: sync on every indexed event and every
+   * `pollInterval` milliseconds, which also picks up reorgs
+   */
+  async start(pollInterval: number = DEFAULT_POLL_INTERVAL): Promise<void> {
+    if (this.timer !== undefined) {
+      return;
+    }
+    for (const event of this.indexedEvents()) {
+      await this.contract.on(event, this.listener);
+    }
+    this.timer = setInterval(this.listener, pollInterval);
+    this.listener();
+  }
+
+  /**
+   * Stop following the contract and wait for a running sync to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer === undefined) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.timer = undefined;
+    for (const event of this.indexedEvents()) {
+      await this.contract.off(event, this.listener);
+    }
+    await this.last;
+  }
+
+  /**
+   * Stop, save and release the database
+   */
+  async close(): Promise<void> {
+    await this.stop();
+    await this.persist();
+    this.db.close();
+  }
+
+  /**
+   * Last block indexed; fromBlock - 1 before the first sync
+   */
+  get lastIndexedBlock(): number {
+    const row = this.queryOne("SELECT MAX(number) AS number FROM blocks");
+    return row?.number === null || row === undefined ? this.fromBlock - 1 : Number(row.number);
+  }
+
+  getAuction(auctionId: bigint | number): IndexedAuction | undefined {
+    const row = this.queryOne("SELECT * FROM auctions WHERE id = ?", [Number(auctionId)]);
+    return row === undefined ? undefined : toIndexedAuction(row);
+  }
+
+  /**
+   * Auctions in ID order, optionally filtered by status, category and creator
+   */
+  getAuctions(query: IndexedAuctionQuery = {}): IndexedAuction[] {
+    const { where, params } = auctionFilter(query);
+    const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    return this.query(`SELECT * FROM auctions ${where} ORDER BY id LIMIT ? OFFSET ?`, [
+      ...params,
+      limit,
+      query.offset ?? 0,
+    ]).map(toIndexedAuction);
+  }
+
+  /**
+   * Number of auctions matching the filters of a getAuctions query,
+   * ignoring its offset and limit
+   */
+  countAuctions(query: IndexedAuctionQuery = {}): number {
+    const { where, params } = auctionFilter(query);
+    return this.queryOne(`SELECT COUNT(*) AS count FROM auctions ${where}`, params)!.count as number;
+  }
+
+  /**
+   * Bids on an auction in the order they were placed, withdrawn ones included
+   */
+  getBids(auctionId: bigint | number): IndexedBid[] {
+    return this.query("SELECT * FROM bids WHERE auction_id = ? ORDER BY block_number, rowid", [
+      Number(auctionId),
+    ]).map(toIndexedBid);
+  }
+
+  getUser(address: string): IndexedUser {
+    const user = getAddress(address);
+    const ids = (sql: string) => this.query(sql, [user]).map((row) => BigInt(row.id as number));
+    return {
+      address: user,
+      auctionsCreated: ids("SELECT id FROM auctions WHERE creator = ? ORDER BY id"),
+      auctionsBidOn: ids("SELECT auction_id AS id FROM bids WHERE bidder = ? ORDER BY auction_id"),
+      auctionsWon: ids("SELECT id FROM auctions WHERE winner = ? AND status = 'ended' ORDER BY id"),
+    };
+  }
+
+  /**
+   * Indexed events in chain order
+   */
+  getEvents(query: IndexedEventQuery = {}): IndexedEvent[] {
+    const conditions = ["block_number >= ?"];
+    const params: SqlValue[] = [query.fromBlock ?? 0];
+    if (query.auctionId !== undefined) {
+      conditions.push("auction_id = ?");
+      params.push(Number(query.auctionId));
+    }
+    if (query.names !== undefined) {
+      conditions.push(`name IN (${query.names.map(() => "?").join(", ")})`);
+      params.push(...query.names);
+    }
+    return this.query(
+      `SELECT * FROM events WHERE ${conditions.join(" AND ")} ORDER BY block_number, log_index`,
+      params
+    ).map(toIndexedEvent);
+  }
+
+  /**
+   * Call `listener` after every sync step that changed the index: each
+   * committed batch of new events, and each reorg rollback. Returns a
+   * function that removes the listener.
+   */
+  onChange(listener: (change: IndexerChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    let reorgedTo: number | undefined;
+    const latest = this.queryOne("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT 1");
+    if (latest !== undefined) {
+      const block = await this.provider.getBlock(Number(latest.number));
+      if (block?.hash !== latest.hash) {
+        reorgedTo = await this.findCommonAncestor();
+        this.transaction(() => this.rollback(reorgedTo!));
+        this.emitChange({ events: [], reorgedTo });
+      }
+    }
+
+    const target = (await this.provider.getBlockNumber()) - this.confirmations;
+    let events = 0;
+    let from = this.lastIndexedBlock + 1;
+    while (from <= target) {
+      const to = Math.min(from + this.batchSize - 1, target);
+      const end = await this.provider.getBlock(to);
+      const logs = await this.fetchEvents(from, to);
+
+      // The chain moved while the logs were fetched; the next sync retries
+      const check = await this.provider.getBlock(to);
+      if (end === null || check?.hash !== end.hash) {
+        break;
+      }
+
+      this.transaction(() => {
+        for (const { event, blockHash } of logs) {
+          this.run("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)", [event.blockNumber, blockHash]);
+          this.storeEvent(event);
+          this.apply(event);
+        }
+        this.run("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)", [to, end.hash]);
+      });
+      events += logs.length;
+      if (logs.length > 0) {
+        this.emitChange({ events: logs.map(({ event }) => event) });
+      }
+      from = to + 1;
+    }
+
+    if (events > 0 || reorgedTo !== undefined) {
+      await this.persist();
+    }
+    return { toBlock: this.lastIndexedBlock, events, reorgedTo };
+  }
+
+  /**
+   * The events this indexer projects, as typed contract events
+   */
+  private indexedEvents(): TypedContractEvent[] {
+    const { filters } = this.contract;
+    return [
+      filters.AuctionCreated,
+      filters.BidPlaced,
+      filters.BidWithdrawn,
+      filters.AuctionExtended,
+      filters.SettlementRequested,
+      filters.AuctionEnded,
+      filters.AuctionCancelled,
+    ];
+  }
+
+  private async fetchEvents(
+    from: number,
+    to: number
+  ): Promise<Array<{ event: IndexedEvent; blockHash: string }>> {
+    const batches = await Promise.all(
+      this.indexedEvents().map((event) => this.contract.queryFilter(event, from, to))
+    );
+    return batches
+      .flat()
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .map((log) => ({ event: fromEventLog(log), blockHash: log.blockHash }));
+  }
+
+  /**
+   * Highest recorded block whose hash still matches the chain
+   */
+  private async findCommonAncestor(): Promise<number> {
+    for (const row of this.query("SELECT number, hash FROM blocks ORDER BY number DESC")) {
+      const block = await this.provider.getBlock(Number(row.number));
+      if (block?.hash === row.hash) {
+        return Number(row.number);
+      }
+    }
+    return this.fromBlock - 1;
+  }
+
+  /**
+   * Drop everything after `blockNumber` and rebuild the auctions it touched
+   * from their remaining events
+   */
+  private rollback(blockNumber: number): void {
+    const affected = this.query("SELECT DISTINCT auction_id FROM events WHERE block_number > ?", [
+      blockNumber,
+    ]).map((row) => row.auction_id as number);
+
+    this.run("DELETE FROM events WHERE block_number > ?", [blockNumber]);
+    this.run("DELETE FROM blocks WHERE number > ?", [blockNumber]);
+
+    for (const auctionId of affected) {
+      this.run("DELETE FROM auctions WHERE id = ?", [auctionId]);
+      this.run("DELETE FROM bids WHERE auction_id = ?", [auctionId]);
+      const remaining = this.query(
+        "SELECT * FROM events WHERE auction_id = ? ORDER BY block_number, log_index",
+        [auctionId]
+      );
+      for (const row of remaining) {
+        this.apply(toIndexedEvent(row));
+      }
+    }
+  }
+
+  private emitChange(change: IndexerChange): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.onError(error);
+      }
+    }
+  }
+
+  private storeEvent(event: IndexedEvent): void {
+    this.run(
+      `INSERT INTO events (block_number, log_index, transaction_hash, auction_id, name, args)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        event.blockNumber,
+        event.logIndex,
+        event.transactionHash,
+        Number(event.auctionId),
+        event.name,
+        JSON.stringify(event.args),
+      ]
+    );
+  }
+
+  /**
+   * Update the auctions and bids projections for one event
+   */
+  private apply(event: IndexedEvent): void {
+    const id = Number(event.auctionId);
+    const { args } = event;
+    switch (event.name) {
+      case "AuctionCreated":
+        this.run(
+          `INSERT INTO auctions
+             (id, title, category_id, minimum_bid, creator, end_time, status, bid_count, created_block)
+           VALUES (?, ?, ?, ?, ?, ?, 'active', 0, ?)`,
+          [id, args.title, Number(args.categoryId), args.minimumBid, args.creator, Number(args.endTime), event.blockNumber]
+        );
+        break;
+      case "BidPlaced":
+        this.run(
+          `INSERT INTO bids (auction_id, bidder, timestamp, withdrawn, block_number, transaction_hash)
+           VALUES (?, ?, ?, 0, ?, ?)`,
+          [id, args.bidder, Number(args.timestamp), event.blockNumber, event.transactionHash]
+        );
+        this.run("UPDATE auctions SET bid_count = bid_count + 1 WHERE id = ?", [id]);
+        break;
+      case "BidWithdrawn":
+        this.run("UPDATE bids SET withdrawn = 1 WHERE auction_id = ? AND bidder = ?", [id, args.bidder]);
+        this.run("UPDATE auctions SET bid_count = bid_count - 1 WHERE id = ?", [id]);
+        break;
+      case "AuctionExtended":
+        this.run("UPDATE auctions SET end_time = ? WHERE id = ?", [Number(args.newEndTime), id]);
+        break;
+      case "SettlementRequested":
+        this.run("UPDATE auctions SET status = 'settling' WHERE id = ? AND status = 'active'", [id]);
+        break;
+      case "AuctionEnded":
+        this.run("UPDATE auctions SET status = 'ended', winner = ?, winning_bid = ? WHERE id = ?", [
+          args.winner,
+          args.winningBid,
+          id,
+        ]);
+        break;
+      case "AuctionCancelled":
+        this.run("UPDATE auctions SET status = 'cancelled' WHERE id = ?", [id]);
+        break;
+    }
+  }
+
+  /**
+   * Record `value` for `key` in a new database, or check it matches
+   */
+  private checkMeta(key: string, value: string): void {
+    const row = this.queryOne("SELECT value FROM meta WHERE key = ?", [key]);
+    if (row === undefined) {
+      this.run("INSERT INTO meta (key, value) VALUES (?, ?)", [key, value]);
+    } else if (row.value !== value) {
+      throw new AuctionError(`Index database was built for ${key} ${row.value}, not ${value}`);
+    }
+  }
+
+  /**
+   * Write the database to a temporary file and move it into place, so a
+   * crash never leaves a half-written index
+   */
+  private async persist(): Promise<void> {
+    if (this.databasePath === undefined) {
+      return;
+    }
+    const temporary = `${this.databasePath}.tmp`;
+    await writeFile(temporary, this.db.export());
+    await rename(temporary, this.databasePath);
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  private run(sql: string, params: SqlValue[]): void {
+    this.db.run(sql, params);
+  }
+
+  private query(sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Array<Record<string, SqlValue>> = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private queryOne(sql: string, params: SqlValue[] = []): Record<string, SqlValue> | undefined {
+    return this.query(sql, params)[0];
+  }
+}
+
+/**
+ * WHERE clause and parameters for the filters of an auction query
+ */
+function auctionFilter(query: IndexedAuctionQuery): { where: string; params: SqlValue[] } {
+  const conditions: string[] = [];
+  const params: SqlValue[] = [];
+  if (query.status !== undefined) {
+    conditions.push("status = ?");
+    params.push(query.status);
+  }
+  if (query.categoryId !== undefined) {
+    conditions.push("category_id = ?");
+    params.push(Number(query.categoryId));
+  }
+  if (query.creator !== undefined) {
+    conditions.push("creator = ?");
+    params.push(getAddress(query.creator));
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+/**
+ * Flatten a typed event log into what the events table stores: named
+ * arguments as strings, so uint256 values survive JSON
+ */
+function fromEventLog(log: TypedEventLog<TypedContractEvent>): IndexedEvent {
+  const args: Record<string, string> = {};
+  log.fragment.inputs.forEach((input, i) => {
+    args[input.name] = String(log.args[i]);
+  });
+  return {
+    name: log.fragment.name,
+    auctionId: BigInt(args.auctionId),
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    args,
+  };
+}
+
+function toIndexedEvent(row: Record<string, SqlValue>): IndexedEvent {
+  return {
+    name: row.name as string,
+    auctionId: BigInt(row.auction_id as number),
+    blockNumber: row.block_number as number,
+    logIndex: row.log_index as number,
+    transactionHash: row.transaction_hash as string,
+    args: JSON.parse(row.args as string),
+  };
+}
+
+function toIndexedAuction(row: Record<string, SqlValue>): IndexedAuction {
+  return {
+    id: BigInt(row.id as number),
+    title: row.title as string,
+    categoryId: BigInt(row.category_id as number),
+    minimumBid: BigInt(row.minimum_bid as string),
+    creator: row.creator as string,
+    endTime: BigInt(row.end_time as number),
+    status: row.status as IndexedAuctionStatus,
+    bidCount: row.bid_count as number,
+    winner: row.winner === null ? undefined : (row.winner as string),
+    winningBid: row.winning_bid === null ? undefined : BigInt(row.winning_bid as string),
+    createdBlock: row.created_block as number,
+  };
+}
+
+function toIndexedBid(row: Record<string, SqlValue>): IndexedBid {
+  return {
+    auctionId: BigInt(row.auction_id as number),
+    bidder: row.bidder as string,
+    timestamp: BigInt(row.timestamp as number),
+    withdrawn: row.withdrawn === 1,
+    blockNumber: row.block_number as number,
+    transactionHash: row.transaction_hash as string,
+  };
+}
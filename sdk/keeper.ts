@@ -0,0 +1,333 @@
+/**
+ * @chapter: sdk
+ * Keeper that settles expired ConfidentialAuction listings
+ *
+ * Anyone may call endAuction once endTime has passed, but until someone
+ * does the auction stays active. Each keeper round:
+ *   - ends every active auction whose endTime has passed
+ *   - re-requests settlement decryptions the oracle has left unanswered for
+ *     `settlementTimeout` seconds (needs KEEPER_ROLE)
+ *
+ * Transactions go through an ethers NonceManager, so a round's
+ * transactions are numbered locally instead of waiting on the node; the
+ * count is re-read from the chain after any failure. Every transaction is
+ * estimated first and skipped if its gas or the network fee is above the
+ * configured caps, and sent with the fee cap as its max fee. Network and node errors are retried with exponential
+ * backoff; contract reverts (the auction was ended by someone else, say)
+ * are not. Once a transaction is broadcast only its receipt lookup is
+ * retried, so it is never sent twice. In dry-run mode the keeper estimates
+ * and logs what it would send without sending anything.
+ *
+ * Logs are one JSON object per line: { time, level, event, ...fields }.
+ *
+ * Usage:
+ *   const keeper = new AuctionKeeper({ address, signer, maxFeePerGas: parseUnits("50", "gwei") });
+ *   const report = await keeper.runOnce();
+ */
+
+import { NonceManager } from "ethers";
+import type { ContractTransactionResponse, FeeData, Overrides, Signer } from "ethers";
+import type { ConfidentialAuction } from "../typechain-types";
+import { ConfidentialAuction__factory } from "../typechain-types";
+import { AuctionClient, StatusFilter } from "./AuctionClient";
+import { AuctionError, toAuctionError } from "./errors";
+import { GovernanceClient, Role } from "./GovernanceClient";
+
+/** Attempts per transaction when the options do not set it */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** First retry delay in milliseconds */
+const DEFAULT_RETRY_DELAY = 1000;
+
+/** Seconds a settlement may wait for the oracle before it is re-requested */
+const DEFAULT_SETTLEMENT_TIMEOUT = 3600;
+
+/** Headroom added to gas estimates, in percent */
+const GAS_LIMIT_MARGIN = 20n;
+
+export type KeeperLogLevel = "info" | "warn" | "error";
+
+export interface KeeperLogEntry {
+  time: string;
+  level: KeeperLogLevel;
+  event: string;
+  [field: string]: unknown;
+}
+
+export interface AuctionKeeperOptions {
+  address: string;
+  /** Sends the transactions; needs KEEPER_ROLE to retry settlements */
+  signer: Signer;
+  /** Estimate and log, but send nothing (default false) */
+  dryRun?: boolean;
+  /** Skip transactions while the network's max fee per gas is above this, and never pay more, in wei */
+  maxFeePerGas?: bigint;
+  /** Skip transactions estimated to need more gas than this */
+  maxGasLimit?: bigint;
+  /** Attempts per transaction (default 3) */
+  maxAttempts?: number;
+  /** First retry delay in milliseconds, doubled per attempt (default 1000) */
+  retryDelay?: number;
+  /** Seconds before an unanswered settlement is re-requested (default 3600) */
+  settlementTimeout?: number;
+  /** First block to scan for settlement requests (default 0) */
+  fromBlock?: number;
+  /** Receives every log entry (default: JSON lines on stdout) */
+  log?: (entry: KeeperLogEntry) => void;
+}
+
+/**
+ * What one round did; each auction appears in at most one list per action
+ */
+export interface KeeperReport {
+  /** Auctions ended this round */
+  ended: bigint[];
+  /** Auctions whose settlement was re-requested */
+  retried: bigint[];
+  /** Auctions left for a later round: dry run, gas caps, missing role */
+  skipped: bigint[];
+  /** Auctions whose transaction failed after every attempt or reverted */
+  failed: bigint[];
+}
+
+type Action = "endAuction" | "retrySettlement";
+
+type Outcome = "sent" | "skipped" | "failed";
+
+export class AuctionKeeper {
+  readonly contract: ConfidentialAuction;
+  private readonly client: AuctionClient;
+  private readonly signer: NonceManager;
+  private readonly dryRun: boolean;
+  private readonly maxFeePerGas?: bigint;
+  private readonly maxGasLimit?: bigint;
+  private readonly maxAttempts: number;
+  private readonly retryDelay: number;
+  private readonly settlementTimeout: number;
+  private readonly fromBlock: number;
+  private readonly log: (entry: KeeperLogEntry) => void;
+
+  constructor(options: AuctionKeeperOptions) {
+    this.signer = new NonceManager(options.signer);
+    this.contract = ConfidentialAuction__factory.connect(options.address, this.signer);
+    this.client = new AuctionClient(options.address, this.signer);
+    this.dryRun = options.dryRun ?? false;
+    this.maxFeePerGas = options.maxFeePerGas;
+    this.maxGasLimit = options.maxGasLimit;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.settlementTimeout = options.settlementTimeout ?? DEFAULT_SETTLEMENT_TIMEOUT;
+    this.fromBlock = options.fromBlock ?? 0;
+    this.log = options.log ?? ((entry) => console.log(JSON.stringify(entry)));
+  }
+
+  /**
+   * Active auctions whose endTime has passed, in ID order
+   */
+  async findExpiredAuctions(): Promise<bigint[]> {
+    const expired: bigint[] = [];
+    for await (const page of this.client.iterateAuctions({ status: StatusFilter.Ended, pageSize: 100 })) {
+      expired.push(...page.filter((auction) => auction.isActive).map((auction) => auction.id));
+    }
+    return expired;
+  }
+
+  /**
+   * Auctions whose latest settlement request has waited longer than
+   * `settlementTimeout` seconds
+   */
+  async findStalledSettlements(): Promise<bigint[]> {
+    const pending = new Set((await this.client.getPendingSettlements(this.fromBlock)).map((p) => p.auctionId));
+    if (pending.size === 0) {
+      return [];
+    }
+
+    // A retried auction has several requests; only the latest one counts
+    const requestedAt = new Map<bigint, number>();
+    const events = await this.contract.queryFilter(this.contract.filters.SettlementRequested(), this.fromBlock);
+    for (const event of events) {
+      if (pending.has(event.args.auctionId)) {
+        requestedAt.set(event.args.auctionId, event.blockNumber);
+      }
+    }
+
+    const now = await this.now();
+    const stalled: bigint[] = [];
+    for (const [auctionId, blockNumber] of requestedAt) {
+      const block = await this.signer.provider!.getBlock(blockNumber);
+      if (block !== null && now - block.timestamp >= this.settlementTimeout) {
+        stalled.push(auctionId);
+      }
+    }
+    return stalled;
+  }
+
+  /**
+   * Run one round: end expired auctions, then re-request stalled settlements
+   */
+  async runOnce(): Promise<KeeperReport> {
+    const report: KeeperReport = { ended: [], retried: [], skipped: [], failed: [] };
+    const expired = await this.findExpiredAuctions();
+    const stalled = await this.findStalledSettlements();
+    this.emit("info", "scan", { expired, stalled, dryRun: this.dryRun });
+
+    for (const auctionId of expired) {
+      const outcome = await this.submit("endAuction", auctionId);
+      this.record(report, report.ended, auctionId, outcome);
+    }
+
+    if (stalled.length > 0) {
+      const isKeeper = await this.hasKeeperRole();
+      for (const auctionId of stalled) {
+        if (!isKeeper) {
+          this.emit("warn", "retrySettlement.skipped", { auctionId, reason: "signer lacks KEEPER_ROLE" });
+          report.skipped.push(auctionId);
+          continue;
+        }
+        const outcome = await this.submit("retrySettlement", auctionId);
+        this.record(report, report.retried, auctionId, outcome);
+      }
+    }
+
+    this.emit("info", "round", { ...report });
+    return report;
+  }
+
+  /**
+   * Estimate, check against the caps and send one transaction, retrying
+   * errors that are not contract reverts until it is broadcast
+   */
+  private async submit(action: Action, auctionId: bigint): Promise<Outcome> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const feeData = await this.signer.provider!.getFeeData();
+        const fee = feeData.maxFeePerGas;
+        if (this.maxFeePerGas !== undefined && fee !== null && fee > this.maxFeePerGas) {
+          this.emit("warn", `${action}.skipped`, { auctionId, reason: "fee above cap", maxFeePerGas: fee });
+          return "skipped";
+        }
+
+        const estimate = await this.contract[action].estimateGas(auctionId);
+        if (this.maxGasLimit !== undefined && estimate > this.maxGasLimit) {
+          this.emit("warn", `${action}.skipped`, { auctionId, reason: "gas above cap", gas: estimate });
+          return "skipped";
+        }
+        if (this.dryRun) {
+          this.emit("info", `${action}.dryRun`, { auctionId, gas: estimate, maxFeePerGas: fee });
+          return "skipped";
+        }
+
+        let gasLimit = (estimate * (100n + GAS_LIMIT_MARGIN)) / 100n;
+        if (this.maxGasLimit !== undefined && gasLimit > this.maxGasLimit) {
+          gasLimit = this.maxGasLimit;
+        }
+        const tx = await this.contract[action](auctionId, { gasLimit, ...this.feeOverrides(feeData) });
+        this.emit("info", `${action}.submitted`, { auctionId, hash: tx.hash, nonce: tx.nonce, attempt });
+        return await this.confirm(action, auctionId, tx, attempt);
+      } catch (error) {
+        // The failed transaction may have taken a nonce; count from the chain again
+        this.signer.reset();
+        const mapped = toAuctionError(error);
+        const message = mapped instanceof Error ? mapped.message : String(mapped);
+        if (mapped instanceof AuctionError || attempt >= this.maxAttempts) {
+          this.emit("error", `${action}.failed`, { auctionId, error: message, attempt });
+          return "failed";
+        }
+        const delay = this.retryDelay * 2 ** (attempt - 1);
+        this.emit("warn", `${action}.retry`, { auctionId, error: message, attempt, delay });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Fee fields that hold the transaction to `maxFeePerGas`, so a fee rise
+   * between the check and the send cannot exceed the cap
+   */
+  private feeOverrides(feeData: FeeData): Overrides {
+    const cap = this.maxFeePerGas;
+    if (cap === undefined) {
+      return {};
+    }
+    if (feeData.maxFeePerGas === null) {
+      // Pre-London network: one price, also capped
+      return feeData.gasPrice === null ? { gasPrice: cap } : { gasPrice: min(feeData.gasPrice, cap) };
+    }
+    return { maxFeePerGas: cap, maxPriorityFeePerGas: min(feeData.maxPriorityFeePerGas ?? 0n, cap) };
+  }
+
+  /**
+   * Wait for a broadcast transaction's receipt, retrying only the lookup:
+   * sending it again would revert once the first one is mined
+   */
+  private async confirm(
+    action: Action,
+    auctionId: bigint,
+    tx: ContractTransactionResponse,
+    attempt: number
+  ): Promise<Outcome> {
+    const { hash } = tx;
+    for (let lookup = 1; ; lookup++) {
+      try {
+        const receipt = await tx.wait();
+        if (receipt === null) {
+          throw new AuctionError(`Transaction ${hash} was not mined`);
+        }
+        this.emit("info", `${action}.confirmed`, {
+          auctionId,
+          hash,
+          block: receipt.blockNumber,
+          gasUsed: receipt.gasUsed,
+          attempt,
+        });
+        return "sent";
+      } catch (error) {
+        const mapped = toAuctionError(error);
+        const message = mapped instanceof Error ? mapped.message : String(mapped);
+        if (mapped instanceof AuctionError || lookup >= this.maxAttempts) {
+          this.emit("error", `${action}.failed`, { auctionId, hash, error: message, attempt });
+          return "failed";
+        }
+        const delay = this.retryDelay * 2 ** (lookup - 1);
+        this.emit("warn", `${action}.receiptRetry`, { auctionId, hash, error: message, lookup, delay });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private record(report: KeeperReport, done: bigint[], auctionId: bigint, outcome: Outcome): void {
+    if (outcome === "sent") {
+      done.push(auctionId);
+    } else if (outcome === "skipped") {
+      report.skipped.push(auctionId);
+    } else {
+      report.failed.push(auctionId);
+    }
+  }
+
+  private async hasKeeperRole(): Promise<boolean> {
+    const governance = new GovernanceClient(await this.client.getGovernanceAddress(), this.signer);
+    return governance.hasRole(Role.Keeper, await this.signer.getAddress());
+  }
+
+  private async now(): Promise<number> {
+    const block = await this.signer.provider!.getBlock("latest");
+    if (block === null) {
+      throw new AuctionError("Latest block not available");
+    }
+    return block.timestamp;
+  }
+
+  private emit(level: KeeperLogLevel, event: string, fields: Record<string, unknown>): void {
+    this.log({
+      time: new Date().toISOString(),
+      level,
+      event,
+      ...JSON.parse(JSON.stringify(fields, (_, value) => (typeof value === "bigint" ? value.toString() : value))),
+    });
+  }
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
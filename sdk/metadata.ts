@@ -0,0 +1,238 @@
+/**
+ * @chapter: sdk
+ * Off-chain auction listing metadata
+ *
+ * createAuctionWithMetadata stores only a keccak256 content hash and a URI
+ * on-chain. The listing itself (title, description, images, category) is a
+ * small JSON document kept in a content-addressed store such as IPFS. The
+ * hash is taken over the exact bytes that were published, so whatever a
+ * client fetches back from the URI can be checked against the chain before
+ * it is shown.
+ *
+ * Usage:
+ *   const metadata = buildAuctionMetadata({ title, description, images, category });
+ *   const published = await publishAuctionMetadata(store, metadata);
+ *   await client.createAuctionWithMetadata({ metadata: published, categoryId, minimumBid });
+ *   const listing = await fetchAuctionMetadata(store, published.uri, published.contentHash);
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { keccak256, toUtf8Bytes, toUtf8String } from "ethers";
+import { InvalidMetadataError, MetadataMismatchError } from "./errors";
+
+export const METADATA_VERSION = 1;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_IMAGES = 10;
+
+/** scheme:... — ipfs://, https://, ar:// and the like */
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\S+$/i;
+
+/**
+ * A listing document as published off-chain
+ */
+export interface AuctionMetadata {
+  version: typeof METADATA_VERSION;
+  title: string;
+  description: string;
+  /** Image URIs; the first one is the cover image */
+  images: string[];
+  /** CategoryRegistry name, for display; the auction stores the ID */
+  category: string;
+}
+
+export type AuctionMetadataInput = Omit<AuctionMetadata, "version" | "images"> & {
+  images?: string[];
+};
+
+/**
+ * JSON Schema (draft 2020-12) for AuctionMetadata, for validating listings
+ * outside this SDK. validateAuctionMetadata enforces the same rules.
+ */
+export const AUCTION_METADATA_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "AuctionMetadata",
+  type: "object",
+  additionalProperties: false,
+  required: ["version", "title", "description", "images", "category"],
+  properties: {
+    version: { const: METADATA_VERSION },
+    title: { type: "string", minLength: 1, maxLength: MAX_TITLE_LENGTH },
+    description: { type: "string", minLength: 1, maxLength: MAX_DESCRIPTION_LENGTH },
+    images: {
+      type: "array",
+      maxItems: MAX_IMAGES,
+      items: { type: "string", pattern: URI_PATTERN.source },
+    },
+    category: { type: "string", minLength: 1 },
+  },
+} as const;
+
+/**
+ * A published listing: what createAuctionWithMetadata stores on-chain
+ */
+export interface PublishedMetadata {
+  /** keccak256 of the published bytes */
+  contentHash: string;
+  uri: string;
+}
+
+/**
+ * Content-addressed storage for metadata documents
+ */
+export interface MetadataStore {
+  /** Store `content` and return the URI it can be fetched from */
+  put(content: Uint8Array): Promise<string>;
+  get(uri: string): Promise<Uint8Array>;
+}
+
+/**
+ * Check an untrusted value against AUCTION_METADATA_SCHEMA
+ */
+export function validateAuctionMetadata(value: unknown): AuctionMetadata {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InvalidMetadataError("Metadata must be a JSON object");
+  }
+
+  const metadata = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const allowed = Object.keys(AUCTION_METADATA_SCHEMA.properties);
+  for (const key of Object.keys(metadata)) {
+    if (!allowed.includes(key)) {
+      problems.push(`unknown field "${key}"`);
+    }
+  }
+
+  if (metadata.version !== METADATA_VERSION) {
+    problems.push(`version must be ${METADATA_VERSION}`);
+  }
+  checkString(metadata.title, "title", MAX_TITLE_LENGTH, problems);
+  checkString(metadata.description, "description", MAX_DESCRIPTION_LENGTH, problems);
+  checkString(metadata.category, "category", Infinity, problems);
+
+  if (!Array.isArray(metadata.images)) {
+    problems.push("images must be an array");
+  } else {
+    if (metadata.images.length > MAX_IMAGES) {
+      problems.push(`images can hold at most ${MAX_IMAGES} entries`);
+    }
+    metadata.images.forEach((image, i) => {
+      if (typeof image !== "string" || !URI_PATTERN.test(image)) {
+        problems.push(`images[${i}] must be a URI`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new InvalidMetadataError(`Invalid auction metadata: ${problems.join("; ")}`);
+  }
+  return metadata as unknown as AuctionMetadata;
+}
+
+function checkString(value: unknown, field: string, maxLength: number, problems: string[]): void {
+  if (typeof value !== "string" || value.length === 0) {
+    problems.push(`${field} must be a non-empty string`);
+  } else if (value.length > maxLength) {
+    problems.push(`${field} is longer than ${maxLength} characters`);
+  }
+}
+
+/**
+ * Build a validated listing document, trimming surrounding whitespace
+ */
+export function buildAuctionMetadata(input: AuctionMetadataInput): AuctionMetadata {
+  return validateAuctionMetadata({
+    version: METADATA_VERSION,
+    title: input.title.trim(),
+    description: input.description.trim(),
+    images: (input.images ?? []).map((image) => image.trim()),
+    category: input.category.trim(),
+  });
+}
+
+/**
+ * Canonical encoding: schema field order, no whitespace, UTF-8. The same
+ * listing always encodes to the same bytes, and so to the same hash.
+ */
+export function encodeAuctionMetadata(metadata: AuctionMetadata): Uint8Array {
+  const { version, title, description, images, category } = validateAuctionMetadata(metadata);
+  return toUtf8Bytes(JSON.stringify({ version, title, description, images, category }));
+}
+
+export function hashAuctionMetadata(content: Uint8Array): string {
+  return keccak256(content);
+}
+
+/**
+ * Encode a listing, store it and return the hash and URI to put on-chain
+ */
+export async function publishAuctionMetadata(
+  store: MetadataStore,
+  metadata: AuctionMetadata
+): Promise<PublishedMetadata> {
+  const content = encodeAuctionMetadata(metadata);
+  const uri = await store.put(content);
+  return { contentHash: hashAuctionMetadata(content), uri };
+}
+
+/**
+ * Fetch a listing and check it against the on-chain content hash.
+ * Throws MetadataMismatchError if the bytes were altered or the URI points
+ * at a different document.
+ */
+export async function fetchAuctionMetadata(
+  store: MetadataStore,
+  uri: string,
+  expectedHash: string
+): Promise<AuctionMetadata> {
+  const content = await store.get(uri);
+  const actualHash = hashAuctionMetadata(content);
+  if (actualHash !== expectedHash.toLowerCase()) {
+    throw new MetadataMismatchError(
+      `Metadata at ${uri} hashes to ${actualHash}, expected ${expectedHash}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(toUtf8String(content));
+  } catch (error) {
+    throw new InvalidMetadataError(`Metadata at ${uri} is not valid JSON`, undefined, { cause: error });
+  }
+  return validateAuctionMetadata(parsed);
+}
+
+/**
+ * MetadataStore backed by a local directory, for tests and development.
+ * Files are named after their content hash, so like IPFS a URI always
+ * refers to one exact document.
+ */
+export class FileMetadataStore implements MetadataStore {
+  readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async put(content: Uint8Array): Promise<string> {
+    await mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${hashAuctionMetadata(content).slice(2)}.json`);
+    await writeFile(file, content);
+    return pathToFileURL(file).href;
+  }
+
+  async get(uri: string): Promise<Uint8Array> {
+    if (!uri.startsWith("file://")) {
+      throw new InvalidMetadataError(`FileMetadataStore cannot fetch ${uri}`);
+    }
+    const file = fileURLToPath(uri);
+    if (path.dirname(file) !== this.directory) {
+      throw new InvalidMetadataError(`${uri} is outside the store directory`);
+    }
+    return new Uint8Array(await readFile(file));
+  }
+}
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AuctionVariant, connectAuction, detectAuctionVariant, InvalidAuctionParamsError } from "../sdk";
+
+/**
+ * @chapter sdk
+ * Tests for variant detection and the unified AuctionView model
+ */
+describe("AuctionAdapter", function () {
+  const variants: AuctionVariant[] = [
+    "ConfidentialAuction",
+    "ConfidentialAuctionCompatible",
+    "ConfidentialAuctionFHE",
+    "ConfidentialAuctionMinimal",
+    "ConfidentialAuctionReal",
+    "ConfidentialAuctionSimple",
+    "SimpleAuction",
+  ];
+
+  async function deploy(name: AuctionVariant): Promise<string> {
+    const Factory = await ethers.getContractFactory(name);
+    // ConfidentialAuction validates category IDs against a CategoryRegistry
+    // and takes its roles from an AuctionGovernance
+    const contract =
+      name === "ConfidentialAuction"
+        ? await deployConfidentialAuction(Factory)
+        : await Factory.deploy();
+    await contract.waitForDeployment();
+    return contract.getAddress();
+  }
+
+  async function deployConfidentialAuction(Factory: any) {
+    const governance = await deployGovernance();
+    return Factory.deploy(await deployRegistry(governance), governance);
+  }
+
+  async function deployRegistry(governance: string): Promise<string> {
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    const registry = await Registry.deploy(governance);
+    await registry.waitForDeployment();
+    await registry.addCategory("Watches", "");
+    return registry.getAddress();
+  }
+
+  async function deployGovernance(): Promise<string> {
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    const governance = await Governance.deploy();
+    await governance.waitForDeployment();
+    return governance.getAddress();
+  }
+
+  describe("Variant detection", function () {
+    /**
+     * @chapter: sdk
+     * Test every variant is identified from its deployed bytecode
+     */
+    for (const variant of variants) {
+      it(`should detect ${variant}`, async function () {
+        const address = await deploy(variant);
+        expect(await detectAuctionVariant(address, ethers.provider)).to.equal(variant);
+      });
+    }
+
+    /**
+     * @chapter: sdk
+     * Test addresses without code are rejected
+     */
+    it("should reject addresses with no contract", async function () {
+      const [owner] = await ethers.getSigners();
+      try {
+        await detectAuctionVariant(owner.address, ethers.provider);
+        expect.fail("expected detection to throw");
+      } catch (error) {
+        expect((error as Error).message).to.contain("No contract found");
+      }
+    });
+  });
+
+  describe("Unified AuctionView", function () {
+    /**
+     * @chapter: sdk
+     * Test a struct-based and a split-view variant normalize to the same model
+     */
+    for (const variant of ["ConfidentialAuctionSimple", "SimpleAuction"] as AuctionVariant[]) {
+      it(`should read ${variant} auctions through the adapter`, async function () {
+        const [owner, bidder] = await ethers.getSigners();
+        const address = await deploy(variant);
+        const adapter = await connectAuction(address, owner);
+        expect(adapter.variant).to.equal(variant);
+
+        const auctionId = await adapter.createAuction({
+          title: "Vintage Watch",
+          description: "Beautiful 1950s Rolex",
+          category: "Watches",
+          minimumBid: ethers.parseEther("1.0"),
+        });
+
+        const bidderAdapter = await connectAuction(address, bidder);
+        await bidderAdapter.placeBid({ auctionId, amount: ethers.parseEther("1.5") });
+
+        const view = await adapter.getAuction(auctionId);
+        expect(view.variant).to.equal(variant);
+        expect(view.id).to.equal(auctionId);
+        expect(view.title).to.equal("Vintage Watch");
+        expect(view.creator).to.equal(owner.address);
+        expect(view.minimumBid).to.equal(ethers.parseEther("1.0"));
+        expect(view.isOpen).to.be.true;
+        expect(view.bidCount).to.equal(1n);
+        expect(view.highestBidder).to.equal(bidder.address);
+        expect(view.highestBid).to.equal(ethers.parseEther("1.5"));
+
+        expect(await adapter.hasBid(bidder.address, auctionId)).to.be.true;
+        expect(await adapter.getAuctionCount()).to.equal(1n);
+        expect(await adapter.getOpenAuctions()).to.have.length(1);
+      });
+    }
+
+    /**
+     * @chapter: sdk
+     * Test ConfidentialAuction category IDs are translated to and from names
+     */
+    it("should map ConfidentialAuction categories by name", async function () {
+      const [owner] = await ethers.getSigners();
+      const adapter = await connectAuction(await deploy("ConfidentialAuction"), owner);
+      const params = { title: "Vintage Watch", description: "Beautiful 1950s Rolex", minimumBid: 1 };
+
+      const auctionId = await adapter.createAuction({ ...params, category: "Watches" });
+      expect((await adapter.getAuction(auctionId)).category).to.equal("Watches");
+
+      try {
+        await adapter.createAuction({ ...params, category: "Cars" });
+        expect.fail("expected createAuction to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(InvalidAuctionParamsError);
+      }
+    });
+  });
+});
@@ -0,0 +1,572 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  AuctionClient,
+  AuctionNotActiveError,
+  AuctionNotStartedError,
+  AuctionPhase,
+  AuctionType,
+  CategoryRegistryClient,
+  computeDutchAsk,
+  SettlementOutcome,
+  StatusFilter,
+  AuctionNotFoundError,
+  BidNotFoundError,
+  DuplicateBidError,
+  GovernanceClient,
+  InvalidAuctionParamsError,
+  NothingToWithdrawError,
+  Role,
+  SelfBidError,
+  UnauthorizedError,
+} from "../sdk";
+
+/**
+ * @chapter sdk
+ * Tests for the typed AuctionClient wrapper around ConfidentialAuction
+ */
+describe("AuctionClient", function () {
+  let address: string;
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+  let client: AuctionClient;
+
+  // CategoryRegistry IDs, in the order beforeEach registers them
+  const Category = { General: 1n, Watches: 2n, Art: 3n };
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder1, bidder2] = await ethers.getSigners();
+
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    const governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    const registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+    const categories = new CategoryRegistryClient(await registry.getAddress(), owner);
+    for (const name of Object.keys(Category)) {
+      await categories.addCategory(name);
+    }
+
+    const Factory = await ethers.getContractFactory("ConfidentialAuction");
+    const contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+    await contract.waitForDeployment();
+    address = await contract.getAddress();
+
+    client = new AuctionClient(address, owner, { fhevm });
+  });
+
+  /**
+   * @chapter: sdk
+   * Test createAuction returns the new ID and getAuction normalizes the struct
+   */
+  it("should create an auction and read it back as a plain object", async function () {
+    const auctionId = await client.createAuction({
+      title: "Vintage Watch",
+      description: "Beautiful 1950s Rolex",
+      categoryId: Category.Watches,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    expect(auctionId).to.equal(1n);
+
+    const auction = await client.getAuction(auctionId);
+    expect(auction.title).to.equal("Vintage Watch");
+    expect(auction.categoryId).to.equal(Category.Watches);
+    expect(auction.creator).to.equal(owner.address);
+    expect(auction.minimumBid).to.equal(ethers.parseEther("1.0"));
+    expect(typeof auction.minimumBid).to.equal("bigint");
+    expect(auction.isActive).to.be.true;
+    expect(auction.bidCount).to.equal(0n);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test bids and settlement through the client
+   */
+  it("should place bids, list active auctions and end an auction", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+
+    await new AuctionClient(address, bidder1, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("1.5"),
+      comments: "Bid 1",
+    });
+
+    const active = await client.getActiveAuctions();
+    expect(active.length).to.equal(1);
+    expect(active[0].bidCount).to.equal(1n);
+
+    await client.endAuction(auctionId);
+    expect((await client.getAuction(auctionId)).isActive).to.be.false;
+    expect(await client.getActiveAuctions()).to.have.length(0);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test the async iterator walks every page of a filtered query
+   */
+  it("should iterate over filtered pages of auctions", async function () {
+    for (const category of ["Art", "Watches", "Art", "Art", "Watches"] as const) {
+      await client.createAuction({
+        title: `${category} lot`,
+        description: "Description",
+        categoryId: Category[category],
+        minimumBid: ethers.parseEther("1.0"),
+      });
+    }
+    await client.endAuction(3);
+
+    const pages: bigint[][] = [];
+    const query = { categoryId: Category.Art, status: StatusFilter.Active, pageSize: 1 };
+    for await (const page of client.iterateAuctions(query)) {
+      pages.push(page.map((auction) => auction.id));
+    }
+    expect(pages).to.deep.equal([[1n], [4n]]);
+
+    const first = await client.getAuctionsPage({ pageSize: 2 });
+    expect(first.auctions.map((auction) => auction.title)).to.deep.equal(["Art lot", "Watches lot"]);
+    expect(first.nextOffset).to.equal(2n);
+
+    const art = await client.getAuctionsByCategory(Category.Art);
+    expect(art.map((auction) => auction.id)).to.deep.equal([1n, 3n, 4n]);
+    expect(await client.getActiveCountByCategory(Category.Art)).to.equal(2n);
+    expect(await client.getActiveCountByCategory(Category.General)).to.equal(0n);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test scheduled auctions and phase reporting through the client
+   */
+  it("should schedule an auction and report its phase", async function () {
+    const startTime = BigInt(await time.latest()) + 3600n;
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+      startTime,
+      duration: 86400n,
+    });
+
+    const auction = await client.getAuction(auctionId);
+    expect(auction.startTime).to.equal(startTime);
+    expect(auction.endTime).to.equal(startTime + 86400n);
+    expect(await client.getAuctionPhase(auctionId)).to.equal(AuctionPhase.Scheduled);
+
+    const bidderClient = new AuctionClient(address, bidder1, { fhevm });
+    try {
+      await bidderClient.placeBid({ auctionId, amount: ethers.parseEther("1.5") });
+      expect.fail("expected placeBid to throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(AuctionNotStartedError);
+    }
+
+    await time.increaseTo(startTime);
+    expect(await client.getAuctionPhase(auctionId)).to.equal(AuctionPhase.Open);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test the client reports the live end time after soft-close extensions
+   */
+  it("should surface the extended end time", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+      duration: 3600n,
+    });
+    await client.configureSoftClose({ auctionId, window: 600n, extension: 300n, maxExtension: 900n });
+
+    const endTime = await client.getEndTime(auctionId);
+    expect((await client.getSoftClose(auctionId)).maxEndTime).to.equal(endTime + 900n);
+
+    await time.increaseTo(endTime - 30n);
+    await new AuctionClient(address, bidder1, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("1.5"),
+    });
+    expect(await client.getEndTime(auctionId)).to.equal(endTime + 300n);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test reserve outcomes are reported distinctly
+   */
+  it("should report sold and reserve-not-met outcomes", async function () {
+    const create = (reservePrice: bigint) =>
+      client.createAuction({
+        title: "Item",
+        description: "Description",
+        categoryId: Category.General,
+        minimumBid: ethers.parseEther("1.0"),
+        reservePrice,
+      });
+    const sold = await create(ethers.parseEther("1.5"));
+    const unsold = await create(ethers.parseEther("5.0"));
+    const empty = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+
+    const bidderClient = new AuctionClient(address, bidder1, { fhevm });
+    await bidderClient.placeBid({ auctionId: sold, amount: ethers.parseEther("2.0") });
+    await bidderClient.placeBid({ auctionId: unsold, amount: ethers.parseEther("2.0") });
+    expect(await client.getSettlementOutcome(sold)).to.equal(SettlementOutcome.Pending);
+
+    for (const auctionId of [sold, unsold, empty]) {
+      await client.endAuction(auctionId);
+    }
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await client.getSettlementOutcome(sold)).to.equal(SettlementOutcome.Sold);
+    expect(await client.getSettlementOutcome(unsold)).to.equal(SettlementOutcome.ReserveNotMet);
+    expect(await client.getSettlementOutcome(empty)).to.equal(SettlementOutcome.NoBids);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test Vickrey auctions through the client
+   */
+  it("should create a Vickrey auction and report the second price", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+      auctionType: AuctionType.Vickrey,
+    });
+    expect((await client.getAuction(auctionId)).auctionType).to.equal(AuctionType.Vickrey);
+
+    await new AuctionClient(address, bidder1, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("3.0"),
+    });
+    await new AuctionClient(address, bidder2, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("2.0"),
+    });
+    await client.endAuction(auctionId);
+    await fhevm.awaitDecryptionOracle();
+
+    const auction = await client.getAuction(auctionId);
+    expect(auction.highestBidder).to.equal(bidder1.address);
+    expect(auction.winningBid).to.equal(ethers.parseEther("2.0"));
+  });
+
+  /**
+   * @chapter: sdk
+   * Test the locally computed Dutch ask matches the contract
+   */
+  it("should compute the Dutch ask locally and report unsold lots", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+      duration: 3600n,
+      auctionType: AuctionType.Dutch,
+      startPrice: ethers.parseEther("3.0"),
+    });
+    const schedule = await client.getDutchSchedule(auctionId);
+    expect(schedule.startPrice).to.equal(ethers.parseEther("3.0"));
+    expect(computeDutchAsk(schedule, schedule.startTime + 1800n)).to.equal(ethers.parseEther("2.0"));
+
+    await time.increase(1234);
+    expect(await client.getCurrentAsk(auctionId)).to.equal(
+      await client.contract.getCurrentAsk(auctionId)
+    );
+
+    // A cap below the ask never buys the lot
+    const ask = await client.getCurrentAsk(auctionId);
+    await new AuctionClient(address, bidder1, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("1.1"),
+      value: ask,
+    });
+    await client.endAuction(auctionId);
+    await fhevm.awaitDecryptionOracle();
+    expect(await client.getSettlementOutcome(auctionId)).to.equal(SettlementOutcome.Unsold);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test pending settlements are listed until the oracle fulfils them
+   */
+  it("should list pending settlements until the winner is revealed", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    await new AuctionClient(address, bidder1, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("1.5"),
+    });
+    await client.endAuction(auctionId);
+
+    const pending = await client.getPendingSettlements();
+    expect(pending).to.have.length(1);
+    expect(pending[0].auctionId).to.equal(auctionId);
+    expect(await client.isSettlementPending(auctionId)).to.be.true;
+
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await client.getPendingSettlements()).to.have.length(0);
+    const auction = await client.getAuction(auctionId);
+    expect(auction.highestBidder).to.equal(bidder1.address);
+    expect(auction.winningBid).to.equal(ethers.parseEther("1.5"));
+  });
+
+  /**
+   * @chapter: sdk
+   * Test a retried settlement is listed once, with its latest request
+   */
+  it("should list only the latest request of a retried settlement", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    await new AuctionClient(address, bidder1, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("1.5"),
+    });
+    await client.endAuction(auctionId);
+    const [first] = await client.getPendingSettlements();
+
+    const governance = new GovernanceClient(await client.getGovernanceAddress(), owner);
+    await governance.grantRole(Role.Keeper, owner.address);
+    await client.retrySettlement(auctionId);
+
+    const pending = await client.getPendingSettlements();
+    expect(pending).to.have.length(1);
+    expect(pending[0].auctionId).to.equal(auctionId);
+    expect(pending[0].requestId).to.not.equal(first.requestId);
+
+    // The mock oracle answers both requests; the second finds nothing pending
+    try {
+      await fhevm.awaitDecryptionOracle();
+      expect.fail("expected the second callback to revert");
+    } catch (error) {
+      expect((error as Error).message).to.contain("No pending settlement");
+    }
+    expect(await client.getPendingSettlements()).to.have.length(0);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test refunds and proceeds through the client
+   */
+  it("should withdraw refunds and claim proceeds after settlement", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    const loser = new AuctionClient(address, bidder2, { fhevm });
+    await new AuctionClient(address, bidder1, { fhevm }).placeBid({
+      auctionId,
+      amount: ethers.parseEther("2.0"),
+    });
+    await loser.placeBid({ auctionId, amount: ethers.parseEther("1.5") });
+
+    try {
+      await loser.withdrawRefund(auctionId);
+      expect.fail("expected withdrawRefund to throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(NothingToWithdrawError);
+    }
+
+    await client.endAuction(auctionId);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await loser.getRefundableAmount(auctionId, bidder2.address)).to.equal(
+      ethers.parseEther("1.5")
+    );
+    await loser.withdrawRefund(auctionId);
+    expect(await loser.getRefundableAmount(auctionId, bidder2.address)).to.equal(0n);
+
+    await client.claimProceeds(auctionId);
+    expect(await ethers.provider.getBalance(address)).to.equal(0n);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test raising and retracting bids through the client
+   */
+  it("should raise and withdraw bids", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    await client.allowBidWithdrawals(auctionId);
+
+    const first = new AuctionClient(address, bidder1, { fhevm });
+    const second = new AuctionClient(address, bidder2, { fhevm });
+    await first.placeBid({ auctionId, amount: ethers.parseEther("1.5") });
+    await second.placeBid({ auctionId, amount: ethers.parseEther("2.0") });
+
+    await first.updateBid({ auctionId, amount: ethers.parseEther("2.5"), topUp: ethers.parseEther("1.0") });
+    expect(await first.getRefundableAmount(auctionId, bidder1.address)).to.equal(ethers.parseEther("2.5"));
+
+    await second.withdrawBid(auctionId);
+    try {
+      await second.updateBid({ auctionId, amount: ethers.parseEther("3.0") });
+      expect.fail("expected updateBid to throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(BidNotFoundError);
+    }
+
+    await client.endAuction(auctionId);
+    await fhevm.awaitDecryptionOracle();
+    expect((await client.getAuction(auctionId)).highestBidder).to.equal(bidder1.address);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test a creator cancels with the penalty attached automatically
+   */
+  it("should cancel an auction and refund bidders with a penalty share", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    const bidder = new AuctionClient(address, bidder1, { fhevm });
+    await bidder.placeBid({ auctionId, amount: ethers.parseEther("1.5") });
+
+    try {
+      await bidder.cancelAuction(auctionId);
+      expect.fail("expected cancelAuction to throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(UnauthorizedError);
+    }
+
+    expect(await client.getCancellationPenalty(auctionId)).to.equal(ethers.parseEther("0.1"));
+    await client.cancelAuction(auctionId);
+
+    expect(await client.getAuctionPhase(auctionId)).to.equal(AuctionPhase.Cancelled);
+    expect(await client.getSettlementOutcome(auctionId)).to.equal(SettlementOutcome.Cancelled);
+    expect(await bidder.getRefundableAmount(auctionId, bidder1.address)).to.equal(ethers.parseEther("1.6"));
+    await bidder.withdrawRefund(auctionId);
+    expect(await bidder.getRefundableAmount(auctionId, bidder1.address)).to.equal(0n);
+  });
+
+  /**
+   * @chapter: decryption
+   * Test a bidder reads back their own bid, including after a raise
+   */
+  it("should decrypt the signer's own bid", async function () {
+    const auctionId = await client.createAuction({
+      title: "Item",
+      description: "Description",
+      categoryId: Category.General,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+
+    const bidder = new AuctionClient(address, bidder1, { fhevm });
+    await bidder.placeBid({ auctionId, amount: ethers.parseEther("1.5") });
+    expect(await bidder.decryptMyBid(auctionId)).to.equal(ethers.parseEther("1.5"));
+
+    await bidder.updateBid({ auctionId, amount: ethers.parseEther("2.0"), topUp: ethers.parseEther("0.5") });
+    expect(await bidder.decryptMyBid(auctionId)).to.equal(ethers.parseEther("2.0"));
+
+    try {
+      await new AuctionClient(address, bidder2, { fhevm }).decryptMyBid(auctionId);
+      expect.fail("expected decryptMyBid to throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(BidNotFoundError);
+    }
+  });
+
+  describe("Error mapping", function () {
+    /**
+     * @chapter: sdk
+     * Test "Invalid auction ID" maps to AuctionNotFoundError
+     */
+    it("should raise AuctionNotFoundError for unknown auctions", async function () {
+      try {
+        await client.getAuction(999);
+        expect.fail("expected getAuction to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(AuctionNotFoundError);
+        expect((error as AuctionNotFoundError).reason).to.equal("Invalid auction ID");
+      }
+    });
+
+    /**
+     * @chapter: sdk
+     * Test validation reverts map to InvalidAuctionParamsError
+     */
+    it("should raise InvalidAuctionParamsError for empty titles", async function () {
+      try {
+        await client.createAuction({
+          title: "",
+          description: "Description",
+          categoryId: Category.General,
+          minimumBid: ethers.parseEther("1.0"),
+        });
+        expect.fail("expected createAuction to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(InvalidAuctionParamsError);
+      }
+    });
+
+    /**
+     * @chapter: sdk
+     * Test bid reverts map to their error classes
+     */
+    it("should raise typed errors for rejected bids", async function () {
+      const auctionId = await client.createAuction({
+        title: "Item",
+        description: "Description",
+        categoryId: Category.General,
+        minimumBid: ethers.parseEther("1.0"),
+      });
+      const bidderClient = new AuctionClient(address, bidder2, { fhevm });
+      const amount = ethers.parseEther("1.5");
+
+      try {
+        await client.placeBid({ auctionId, amount });
+        expect.fail("expected placeBid to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(SelfBidError);
+      }
+
+      await bidderClient.placeBid({ auctionId, amount });
+      try {
+        await bidderClient.placeBid({ auctionId, amount });
+        expect.fail("expected placeBid to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(DuplicateBidError);
+      }
+
+      await client.endAuction(auctionId);
+      try {
+        await client.endAuction(auctionId);
+        expect.fail("expected endAuction to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(AuctionNotActiveError);
+      }
+    });
+  });
+});
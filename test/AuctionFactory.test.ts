@@ -0,0 +1,413 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { encryptBidAmount, FactoryClient, InvalidAuctionParamsError } from "../sdk";
+
+/**
+ * @chapter advanced-patterns
+ * Test suite for AuctionFactory and its EIP-1167 auction clones
+ * Each auction runs in its own AuctionInstance with its own escrow
+ */
+describe("AuctionFactory", function () {
+  let factory: any;
+  let implementation: any;
+  let governance: any;
+  let factoryAddress: string;
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+
+  // createAuction scheduling arguments: open now for the default 7 days
+  const NOW = 0;
+  const DEFAULT_DURATION = 0;
+
+  // CategoryRegistry IDs, in the order the categories are added
+  const ART = 1;
+  const WATCHES = 2;
+  const CARS = 3;
+
+  beforeEach(async function () {
+    // @chapter: setup
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    const registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+    for (const name of ["Art", "Watches", "Cars"]) {
+      await registry.addCategory(name, "");
+    }
+    await registry.setCategoryEnabled(CARS, false);
+
+    const Instance = await ethers.getContractFactory("AuctionInstance");
+    implementation = await Instance.deploy();
+    await implementation.waitForDeployment();
+
+    const Factory = await ethers.getContractFactory("AuctionFactory");
+    factory = await Factory.deploy(
+      await implementation.getAddress(),
+      await registry.getAddress(),
+      await governance.getAddress()
+    );
+    await factory.waitForDeployment();
+    factoryAddress = await factory.getAddress();
+
+    [owner, bidder1, bidder2] = await ethers.getSigners();
+  });
+
+  async function createClone(signer: any, title: string, categoryId: number, minimumBid = ethers.parseEther("1.0")) {
+    const tx = await factory.connect(signer).createAuction(title, "Description", categoryId, minimumBid, NOW, DEFAULT_DURATION);
+    const receipt = await tx.wait();
+    const event = receipt.logs.map((log: any) => factory.interface.parseLog(log)).find((e: any) => e?.name === "AuctionDeployed");
+    return ethers.getContractAt("AuctionInstance", event.args.auction);
+  }
+
+  /**
+   * @chapter: encryption
+   * Encrypt a bid for a clone and place it with a deposit, matching the
+   * bid unless given
+   */
+  async function placeEncryptedBid(auction: any, bidder: any, amount: bigint, value = amount) {
+    const { handle, inputProof } = await encryptBidAmount(fhevm, await auction.getAddress(), bidder.address, amount);
+    return auction.connect(bidder).placeBid(handle, inputProof, { value });
+  }
+
+  describe("Deployment", function () {
+    /**
+     * @chapter: basic-operations
+     * Test each auction is a separate minimal-proxy clone
+     */
+    it("should deploy each auction as an EIP-1167 clone", async function () {
+      const first = await createClone(owner, "First", ART);
+      const second = await createClone(owner, "Second", ART);
+
+      const firstAddress = await first.getAddress();
+      expect(firstAddress).to.not.equal(await second.getAddress());
+      expect(await factory.isAuction(firstAddress)).to.be.true;
+      expect(await first.factory()).to.equal(factoryAddress);
+      expect(await first.governance()).to.equal(await governance.getAddress());
+
+      // 45-byte EIP-1167 runtime code embedding the implementation address
+      const code = await ethers.provider.getCode(firstAddress);
+      const implementationAddress = (await implementation.getAddress()).slice(2).toLowerCase();
+      expect(code).to.equal(`0x363d3d373d3d3d363d73${implementationAddress}5af43d82803e903d91602b57fd5bf3`);
+
+      const auction = await first.getAuction();
+      expect(auction.title).to.equal("First");
+      expect(auction.categoryId).to.equal(ART);
+      expect(auction.creator).to.equal(owner.address);
+      expect(auction.isActive).to.be.true;
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test the factory emits the registry entry
+     */
+    it("should emit AuctionDeployed", async function () {
+      await expect(factory.createAuction("Item", "Description", ART, 1, NOW, DEFAULT_DURATION))
+        .to.emit(factory, "AuctionDeployed");
+      expect(await factory.getAuctionCount()).to.equal(1);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test clones and the implementation cannot be initialized again
+     */
+    it("should reject re-initialization", async function () {
+      const auction = await createClone(owner, "Item", ART);
+
+      await expect(
+        auction.initialize(bidder1.address, governance, "Hijack", "Description", ART, 1, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWithCustomError(auction, "InvalidInitialization");
+      await expect(
+        implementation.initialize(bidder1.address, governance, "Hijack", "Description", ART, 1, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test invalid parameters revert the whole deployment
+     */
+    it("should reject invalid auction parameters", async function () {
+      await expect(
+        factory.createAuction("", "Description", ART, 1, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWith("Title cannot be empty");
+      await expect(
+        factory.createAuction("Item", "Description", ART, 0, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWith("Minimum bid must be greater than 0");
+      await expect(
+        factory.createAuction("Item", "Description", 99, 1, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWith("Invalid category");
+      await expect(
+        factory.createAuction("Item", "Description", CARS, 1, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWith("Invalid category");
+      expect(await factory.getAuctionCount()).to.equal(0);
+    });
+  });
+
+  describe("Registry", function () {
+    /**
+     * @chapter: basic-operations
+     * Test clones are indexed by creator and by category
+     */
+    it("should index clones by creator and category", async function () {
+      const a = await (await createClone(owner, "A", ART)).getAddress();
+      const b = await (await createClone(bidder1, "B", WATCHES)).getAddress();
+      const c = await (await createClone(owner, "C", WATCHES)).getAddress();
+
+      expect(await factory.getAuctionsByCreator(owner.address)).to.deep.equal([a, c]);
+      expect(await factory.getAuctionsByCreator(bidder1.address)).to.deep.equal([b]);
+      expect(await factory.getAuctionsByCategory(WATCHES)).to.deep.equal([b, c]);
+      expect(await factory.getAuctionsByCategory(CARS)).to.deep.equal([]);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test paging through all clones
+     */
+    it("should page through clones in deployment order", async function () {
+      const addresses: string[] = [];
+      for (const title of ["A", "B", "C"]) {
+        addresses.push(await (await createClone(owner, title, ART)).getAddress());
+      }
+
+      expect(await factory.getAuctions(0, 2)).to.deep.equal(addresses.slice(0, 2));
+      expect(await factory.getAuctions(2, 2)).to.deep.equal(addresses.slice(2));
+      expect(await factory.getAuctions(3, 2)).to.deep.equal([]);
+      await expect(factory.getAuctions(0, 0)).to.be.revertedWith("Invalid page size");
+      await expect(factory.getAuctions(0, 101)).to.be.revertedWith("Invalid page size");
+    });
+  });
+
+  describe("Clone Auctions", function () {
+    /**
+     * @chapter: advanced-patterns
+     * Test a full auction runs inside a clone, settled by the oracle
+     */
+    it("should run and settle an auction in a clone", async function () {
+      const auction = await createClone(owner, "Item", ART);
+      const auctionAddress = await auction.getAddress();
+
+      await placeEncryptedBid(auction, bidder1, ethers.parseEther("1.5"));
+      await placeEncryptedBid(auction, bidder2, ethers.parseEther("2.0"));
+      expect(await ethers.provider.getBalance(auctionAddress)).to.equal(ethers.parseEther("3.5"));
+
+      await expect(auction.endAuction()).to.emit(auction, "SettlementRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const settled = await auction.getAuction();
+      expect(settled.highestBidder).to.equal(bidder2.address);
+      expect(settled.winningBid).to.equal(ethers.parseEther("2.0"));
+
+      await expect(auction.connect(bidder1).withdrawRefund()).to.changeEtherBalance(bidder1, ethers.parseEther("1.5"));
+      await expect(auction.claimProceeds()).to.changeEtherBalance(owner, ethers.parseEther("2.0"));
+      await expect(auction.connect(bidder2).withdrawRefund()).to.be.revertedWith("No refund available");
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test a bid above its deposit only counts as the deposit, so it cannot
+     * win with ETH it never escrowed
+     */
+    it("should not let an underfunded bid win", async function () {
+      const auction = await createClone(owner, "Item", ART);
+
+      await placeEncryptedBid(auction, bidder1, ethers.parseEther("3.0"), ethers.parseEther("1.0"));
+      await placeEncryptedBid(auction, bidder2, ethers.parseEther("2.0"));
+      await auction.endAuction();
+      await fhevm.awaitDecryptionOracle();
+
+      const settled = await auction.getAuction();
+      expect(settled.highestBidder).to.equal(bidder2.address);
+      expect(settled.winningBid).to.equal(ethers.parseEther("2.0"));
+      await expect(auction.claimProceeds()).to.changeEtherBalance(owner, ethers.parseEther("2.0"));
+      await expect(auction.connect(bidder1).withdrawRefund()).to.changeEtherBalance(bidder1, ethers.parseEther("1.0"));
+    });
+
+    /**
+     * @chapter: access-control
+     * Test clones keep separate state and escrow
+     */
+    it("should isolate state between clones", async function () {
+      const first = await createClone(owner, "First", ART);
+      const second = await createClone(owner, "Second", ART);
+
+      await placeEncryptedBid(first, bidder1, ethers.parseEther("1.5"));
+      expect(await first.hasUserBid(bidder1.address)).to.be.true;
+      expect(await second.hasUserBid(bidder1.address)).to.be.false;
+      expect((await second.getAuction()).bidCount).to.equal(0);
+      expect(await ethers.provider.getBalance(await second.getAddress())).to.equal(0);
+
+      await placeEncryptedBid(second, bidder1, ethers.parseEther("1.0"));
+      const handle = await first.connect(bidder1).getMyBid();
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, handle, await first.getAddress(), bidder1)
+      ).to.equal(ethers.parseEther("1.5"));
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test clones enforce the same bidding rules as ConfidentialAuction
+     */
+    it("should enforce bidding rules", async function () {
+      const auction = await createClone(owner, "Item", ART);
+
+      await expect(placeEncryptedBid(auction, owner, ethers.parseEther("1.5"))).to.be.revertedWith(
+        "Cannot bid on your own auction"
+      );
+      await expect(placeEncryptedBid(auction, bidder1, ethers.parseEther("0.5"))).to.be.revertedWith(
+        "Bid below minimum amount"
+      );
+      await placeEncryptedBid(auction, bidder1, ethers.parseEther("1.5"));
+      await expect(placeEncryptedBid(auction, bidder1, ethers.parseEther("1.5"))).to.be.revertedWith(
+        "You have already placed a bid on this auction"
+      );
+      await expect(auction.connect(bidder1).endAuction()).to.be.revertedWith(
+        "Auction has not ended yet and you are not the creator"
+      );
+    });
+  });
+
+  describe("Governance", function () {
+    let moderator: any;
+    let keeper: any;
+
+    beforeEach(async function () {
+      [, , , moderator, keeper] = await ethers.getSigners();
+      await governance.grantRole(await governance.MODERATOR_ROLE(), moderator.address);
+      await governance.grantRole(await governance.KEEPER_ROLE(), keeper.address);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test pausing governance stops new clones and bids on existing ones
+     */
+    it("should reject new clones and bids while paused", async function () {
+      const auction = await createClone(owner, "Item", ART);
+      await governance.pause();
+
+      await expect(
+        factory.createAuction("Item", "Description", ART, 1, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWith("Auctions are paused");
+      await expect(placeEncryptedBid(auction, bidder1, ethers.parseEther("1.5"))).to.be.revertedWith(
+        "Auctions are paused"
+      );
+
+      await governance.unpause();
+      await placeEncryptedBid(auction, bidder1, ethers.parseEther("1.5"));
+    });
+
+    /**
+     * @chapter: decryption
+     * Test the creator or a keeper can re-request a dropped settlement
+     * decryption, and only while one is pending
+     */
+    it("should let the creator or a keeper retry a pending settlement", async function () {
+      const auction = await createClone(owner, "Item", ART);
+      await placeEncryptedBid(auction, bidder1, ethers.parseEther("1.5"));
+
+      await expect(auction.retrySettlement()).to.be.revertedWith("No pending settlement");
+      await auction.endAuction();
+
+      await expect(auction.connect(bidder1).retrySettlement()).to.be.revertedWith(
+        "Only creator or keeper can retry settlement"
+      );
+      await expect(auction.retrySettlement()).to.emit(auction, "SettlementRequested");
+      await expect(auction.connect(keeper).retrySettlement()).to.emit(auction, "SettlementRequested");
+
+      // The mock oracle answers all three requests: the first settles, the
+      // others find nothing pending and revert
+      try {
+        await fhevm.awaitDecryptionOracle();
+        expect.fail("expected the later callbacks to revert");
+      } catch (error) {
+        expect((error as Error).message).to.contain("No pending settlement");
+      }
+      const settled = await auction.getAuction();
+      expect(settled.highestBidder).to.equal(bidder1.address);
+      expect(settled.winningBid).to.equal(ethers.parseEther("1.5"));
+      expect(await auction.queryFilter(auction.filters.WinnerRevealed())).to.have.length(1);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test a moderator cancels a clone listing and every bidder gets their
+     * full deposit back
+     */
+    it("should let a moderator cancel a listing with full refunds", async function () {
+      const auction = await createClone(owner, "Item", ART);
+      await placeEncryptedBid(auction, bidder1, ethers.parseEther("1.5"));
+      await placeEncryptedBid(auction, bidder2, ethers.parseEther("2.0"));
+
+      await expect(auction.cancelListing()).to.be.revertedWith("Only moderator can cancel listings");
+      await expect(auction.connect(keeper).cancelListing()).to.be.revertedWith("Only moderator can cancel listings");
+
+      // Cancelling while settlement is pending voids the oracle's answer
+      await auction.endAuction();
+      await expect(auction.connect(moderator).cancelListing())
+        .to.emit(auction, "AuctionCancelled")
+        .withArgs(moderator.address);
+      expect(await auction.cancelled()).to.be.true;
+      try {
+        await fhevm.awaitDecryptionOracle();
+        expect.fail("expected the callback to revert");
+      } catch (error) {
+        expect((error as Error).message).to.contain("No pending settlement");
+      }
+      await expect(auction.connect(moderator).cancelListing()).to.be.revertedWith("Auction is already settled");
+
+      await expect(auction.connect(bidder1).withdrawRefund()).to.changeEtherBalance(bidder1, ethers.parseEther("1.5"));
+      await expect(auction.connect(bidder2).withdrawRefund()).to.changeEtherBalance(bidder2, ethers.parseEther("2.0"));
+      await expect(auction.claimProceeds()).to.be.revertedWith("No proceeds available");
+    });
+  });
+
+  describe("FactoryClient", function () {
+    /**
+     * @chapter: sdk
+     * Test creating, bidding and enumerating clones through the client
+     */
+    it("should create, bid on and enumerate clones", async function () {
+      const client = new FactoryClient(factoryAddress, owner, { fhevm });
+      const first = await client.createAuction({
+        title: "Vintage Watch",
+        description: "Beautiful 1950s Rolex",
+        categoryId: WATCHES,
+        minimumBid: ethers.parseEther("1.0"),
+      });
+      const second = await client.createAuction({
+        title: "Painting",
+        description: "Oil on canvas",
+        categoryId: ART,
+        minimumBid: ethers.parseEther("2.0"),
+      });
+
+      const bidder = new FactoryClient(factoryAddress, bidder1, { fhevm });
+      await bidder.placeBid({ auction: first, amount: ethers.parseEther("1.5") });
+      await client.endAuction(second);
+
+      const auctions = await client.getAuctions();
+      expect(auctions.map((a) => a.address)).to.deep.equal([first, second]);
+      expect(auctions[0].bidCount).to.equal(1n);
+      expect(auctions.filter((a) => a.isActive).map((a) => a.title)).to.deep.equal(["Vintage Watch"]);
+
+      expect((await client.getAuctionsByCategory(ART)).map((a) => a.address)).to.deep.equal([second]);
+      expect(await client.getAuctionsByCreator(bidder1.address)).to.deep.equal([]);
+    });
+
+    /**
+     * @chapter: sdk
+     * Test revert reasons from clone initialization map to typed errors
+     */
+    it("should raise InvalidAuctionParamsError for invalid clones", async function () {
+      const client = new FactoryClient(factoryAddress, owner, { fhevm });
+      try {
+        await client.createAuction({ title: "", description: "Description", categoryId: ART, minimumBid: 1 });
+        expect.fail("expected createAuction to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(InvalidAuctionParamsError);
+      }
+    });
+  });
+});
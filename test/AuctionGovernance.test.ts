@@ -0,0 +1,146 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  AuctionClient,
+  AuctionsPausedError,
+  GovernanceClient,
+  Role,
+  SettlementOutcome,
+  UnauthorizedError,
+} from "../sdk";
+
+/**
+ * @chapter access-control
+ * Test suite for AuctionGovernance, the admin, moderator and keeper roles
+ * and the pause switch ConfidentialAuction defers to
+ */
+describe("AuctionGovernance", function () {
+  let governance: any;
+  let owner: any;
+  let moderator: any;
+  let other: any;
+
+  beforeEach(async function () {
+    // @chapter: setup
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    [owner, moderator, other] = await ethers.getSigners();
+  });
+
+  describe("Roles", function () {
+    /**
+     * @chapter: access-control
+     * Test the deployer is the only admin and holds no other role
+     */
+    it("should make the deployer admin", async function () {
+      expect(await governance.isAdmin(owner.address)).to.be.true;
+      expect(await governance.isModerator(owner.address)).to.be.false;
+      expect(await governance.isKeeper(owner.address)).to.be.false;
+      expect(await governance.isAdmin(other.address)).to.be.false;
+    });
+
+    /**
+     * @chapter: access-control
+     * Test the admin grants and revokes roles, and nobody else can
+     */
+    it("should grant and revoke roles", async function () {
+      const moderatorRole = await governance.MODERATOR_ROLE();
+      await governance.grantRole(moderatorRole, moderator.address);
+      expect(await governance.isModerator(moderator.address)).to.be.true;
+
+      // Moderators cannot hand out roles
+      await expect(
+        governance.connect(moderator).grantRole(moderatorRole, other.address)
+      ).to.be.revertedWithCustomError(governance, "AccessControlUnauthorizedAccount");
+
+      await governance.revokeRole(moderatorRole, moderator.address);
+      expect(await governance.isModerator(moderator.address)).to.be.false;
+    });
+
+    /**
+     * @chapter: access-control
+     * Test only the admin pauses and unpauses
+     */
+    it("should restrict the pause switch to the admin", async function () {
+      await expect(governance.connect(other).pause()).to.be.revertedWithCustomError(
+        governance,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      await expect(governance.pause()).to.emit(governance, "Paused").withArgs(owner.address);
+      expect(await governance.paused()).to.be.true;
+      await expect(governance.pause()).to.be.revertedWithCustomError(governance, "EnforcedPause");
+
+      await expect(governance.connect(other).unpause()).to.be.revertedWithCustomError(
+        governance,
+        "AccessControlUnauthorizedAccount"
+      );
+      await governance.unpause();
+      expect(await governance.paused()).to.be.false;
+    });
+  });
+
+  describe("GovernanceClient", function () {
+    /**
+     * @chapter: sdk
+     * Test managing roles and pausing auctions through the clients
+     */
+    it("should manage roles and cancel listings through the clients", async function () {
+      const Registry = await ethers.getContractFactory("CategoryRegistry");
+      const registry = await Registry.deploy(await governance.getAddress());
+      await registry.waitForDeployment();
+      await registry.addCategory("Watches", "");
+
+      const Factory = await ethers.getContractFactory("ConfidentialAuction");
+      const contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+      await contract.waitForDeployment();
+      const address = await contract.getAddress();
+
+      const auctions = new AuctionClient(address, owner, { fhevm });
+      const admin = new GovernanceClient(await auctions.getGovernanceAddress(), owner);
+      await admin.grantRole(Role.Moderator, moderator.address);
+      expect(await admin.hasRole(Role.Moderator, moderator.address)).to.be.true;
+      expect(await admin.hasRole(Role.Keeper, moderator.address)).to.be.false;
+
+      try {
+        await new GovernanceClient(await governance.getAddress(), other).grantRole(Role.Keeper, other.address);
+        expect.fail("expected grantRole to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(UnauthorizedError);
+      }
+
+      const auctionId = await auctions.createAuction({
+        title: "Replica Watch",
+        description: "Listed as genuine",
+        categoryId: 1,
+        minimumBid: ethers.parseEther("1.0"),
+      });
+      const bidder = new AuctionClient(address, other, { fhevm });
+      await bidder.placeBid({ auctionId, amount: ethers.parseEther("1.5"), value: ethers.parseEther("1.5") });
+
+      await admin.pause();
+      expect(await admin.isPaused()).to.be.true;
+      try {
+        await auctions.createAuction({ title: "Item", description: "Item", categoryId: 1, minimumBid: 1 });
+        expect.fail("expected createAuction to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(AuctionsPausedError);
+      }
+
+      try {
+        await bidder.cancelListing(auctionId);
+        expect.fail("expected cancelListing to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(UnauthorizedError);
+      }
+      await new AuctionClient(address, moderator).cancelListing(auctionId);
+
+      expect(await auctions.isCancelled(auctionId)).to.be.true;
+      expect(await auctions.getSettlementOutcome(auctionId)).to.equal(SettlementOutcome.Cancelled);
+      await bidder.withdrawRefund(auctionId);
+      expect(await bidder.getRefundableAmount(auctionId, other.address)).to.equal(0n);
+    });
+  });
+});
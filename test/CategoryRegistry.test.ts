@@ -0,0 +1,166 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { CategoryRegistryClient, GovernanceClient, InvalidAuctionParamsError, Role, UnauthorizedError } from "../sdk";
+
+/**
+ * @chapter access-control
+ * Test suite for CategoryRegistry, the admin-managed list of auction
+ * categories referenced by ID from ConfidentialAuction
+ */
+describe("CategoryRegistry", function () {
+  let registry: any;
+  let governance: any;
+  let owner: any;
+  let other: any;
+
+  beforeEach(async function () {
+    // @chapter: setup
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+
+    [owner, other] = await ethers.getSigners();
+  });
+
+  describe("Management", function () {
+    /**
+     * @chapter: basic-operations
+     * Test categories get sequential IDs starting at 1
+     */
+    it("should add categories with sequential IDs", async function () {
+      await expect(registry.addCategory("Watches", "ipfs://watches"))
+        .to.emit(registry, "CategoryAdded")
+        .withArgs(1, "Watches", "ipfs://watches");
+      await registry.addCategory("Art", "");
+
+      const category = await registry.getCategory(1);
+      expect(category.name).to.equal("Watches");
+      expect(category.metadataURI).to.equal("ipfs://watches");
+      expect(category.isEnabled).to.be.true;
+      expect(await registry.getCategoryId("Art")).to.equal(2);
+      expect(await registry.getCategoryId("Cars")).to.equal(0);
+      expect((await registry.getCategories()).map((c: any) => c.name)).to.deep.equal(["Watches", "Art"]);
+    });
+
+    /**
+     * @chapter: input-proof
+     * Test names must be non-empty and unique
+     */
+    it("should reject empty and duplicate names", async function () {
+      await registry.addCategory("Watches", "");
+
+      await expect(registry.addCategory("", "")).to.be.revertedWith("Category cannot be empty");
+      await expect(registry.addCategory("Watches", "")).to.be.revertedWith("Category already exists");
+      await registry.addCategory("Art", "");
+      await expect(registry.renameCategory(2, "Watches")).to.be.revertedWith("Category already exists");
+      await expect(registry.getCategory(3)).to.be.revertedWith("Invalid category");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test renaming keeps the ID and frees the old name
+     */
+    it("should rename a category and update its metadata", async function () {
+      await registry.addCategory("Watch", "");
+
+      await expect(registry.renameCategory(1, "Watches")).to.emit(registry, "CategoryRenamed").withArgs(1, "Watches");
+      await expect(registry.setCategoryMetadataURI(1, "ipfs://watches"))
+        .to.emit(registry, "CategoryMetadataUpdated")
+        .withArgs(1, "ipfs://watches");
+
+      expect(await registry.getCategoryId("Watches")).to.equal(1);
+      expect(await registry.getCategoryId("Watch")).to.equal(0);
+      expect((await registry.getCategory(1)).metadataURI).to.equal("ipfs://watches");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test disabled categories are no longer valid for new auctions
+     */
+    it("should disable and re-enable a category", async function () {
+      await registry.addCategory("Watches", "");
+      expect(await registry.isValidCategory(1)).to.be.true;
+      expect(await registry.isValidCategory(0)).to.be.false;
+      expect(await registry.isValidCategory(2)).to.be.false;
+
+      await expect(registry.setCategoryEnabled(1, false)).to.emit(registry, "CategoryStatusChanged").withArgs(1, false);
+      expect(await registry.isValidCategory(1)).to.be.false;
+      expect((await registry.getCategory(1)).isEnabled).to.be.false;
+
+      await registry.setCategoryEnabled(1, true);
+      expect(await registry.isValidCategory(1)).to.be.true;
+    });
+  });
+
+  describe("Access Control", function () {
+    /**
+     * @chapter: access-control
+     * Test only governance admins can manage categories
+     */
+    it("should restrict management to admins", async function () {
+      await registry.addCategory("Watches", "");
+      const asOther = registry.connect(other);
+
+      await expect(asOther.addCategory("Art", "")).to.be.revertedWith("Only admin can manage categories");
+      await expect(asOther.renameCategory(1, "Art")).to.be.revertedWith("Only admin can manage categories");
+      await expect(asOther.setCategoryMetadataURI(1, "")).to.be.revertedWith("Only admin can manage categories");
+      await expect(asOther.setCategoryEnabled(1, false)).to.be.revertedWith("Only admin can manage categories");
+    });
+
+    /**
+     * @chapter: access-control
+     * Test management follows the admin role in AuctionGovernance
+     */
+    it("should follow the governance admin role", async function () {
+      const Registry = await ethers.getContractFactory("CategoryRegistry");
+      await expect(Registry.deploy(ethers.ZeroAddress)).to.be.revertedWith("Governance cannot be zero");
+      expect(await registry.governance()).to.equal(await governance.getAddress());
+
+      const roles = new GovernanceClient(await governance.getAddress(), owner);
+      await roles.grantRole(Role.Admin, other.address);
+      await registry.connect(other).addCategory("Watches", "");
+
+      await roles.revokeRole(Role.Admin, owner.address);
+      await expect(registry.addCategory("Art", "")).to.be.revertedWith("Only admin can manage categories");
+    });
+  });
+
+  describe("CategoryRegistryClient", function () {
+    /**
+     * @chapter: sdk
+     * Test managing and listing categories through the client
+     */
+    it("should manage categories through the client", async function () {
+      const client = new CategoryRegistryClient(await registry.getAddress(), owner);
+      const watches = await client.addCategory("Watches", "ipfs://watches");
+      const art = await client.addCategory("Art");
+      expect([watches, art]).to.deep.equal([1n, 2n]);
+
+      await client.setEnabled(art, false);
+      await client.renameCategory(watches, "Timepieces");
+      expect(await client.findCategoryId("Timepieces")).to.equal(watches);
+      expect(await client.findCategoryId("Watches")).to.be.undefined;
+
+      const categories = await client.getCategories();
+      expect(categories.filter((c) => c.isEnabled).map((c) => c.name)).to.deep.equal(["Timepieces"]);
+      expect((await client.getCategory(watches)).metadataURI).to.equal("ipfs://watches");
+
+      try {
+        await client.addCategory("Art");
+        expect.fail("expected addCategory to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(InvalidAuctionParamsError);
+      }
+      try {
+        await new CategoryRegistryClient(await registry.getAddress(), other).setEnabled(art, true);
+        expect.fail("expected setEnabled to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(UnauthorizedError);
+      }
+    });
+  });
+});
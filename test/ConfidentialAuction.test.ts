@@ -1,5 +1,9 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { ContractTransactionReceipt } from "ethers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { encryptBidAmount, encryptReservePrice } from "../sdk";
 
 /**
  * @chapter advanced-patterns
@@ -8,21 +12,82 @@ import { ethers } from "hardhat";
  */
 describe("ConfidentialAuction", function () {
   let contract: any;
+  let registry: any;
+  let governance: any;
   let owner: any;
   let bidder1: any;
   let bidder2: any;
   let bidder3: any;
 
+  // createAuction scheduling arguments: open now for the default 7 days
+  const NOW = 0;
+  const DEFAULT_DURATION = 0;
+
+  // createAuction reserve arguments: no encrypted reserve
+  const NO_RESERVE = ethers.ZeroHash;
+  const NO_PROOF = "0x";
+
+  // createAuction start price: only read for Dutch auctions
+  const NO_START_PRICE = 0;
+
+  // Mirror ConfidentialAuction.AuctionType / AuctionPhase
+  const AuctionType = { FirstPrice: 0, Vickrey: 1, Dutch: 2 };
+  const Phase = { Scheduled: 0n, Open: 1n, Closed: 2n, Settled: 3n, Cancelled: 4n };
+  const StatusFilter = { Any: 0, Active: 1, Ended: 2 };
+
+  // CategoryRegistry IDs, in the order beforeEach registers them
+  const Category = { General: 1, Watches: 2, Art: 3 };
+
   beforeEach(async function () {
     // @chapter: setup
     // Deploy contract fresh for each test
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+    for (const name of Object.keys(Category)) {
+      await registry.addCategory(name, "");
+    }
+
     const Factory = await ethers.getContractFactory("ConfidentialAuction");
-    contract = await Factory.deploy();
+    contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
     await contract.waitForDeployment();
 
     [owner, bidder1, bidder2, bidder3] = await ethers.getSigners();
   });
 
+  /**
+   * @chapter: input-proof
+   * Encrypt a bid for [contract, bidder] and submit the handle with its proof
+   */
+  async function placeEncryptedBid(
+    bidder: any,
+    auctionId: number,
+    amount: bigint,
+    comments: string,
+    value: bigint = amount
+  ) {
+    const { handle, inputProof } = await encryptBidAmount(
+      fhevm,
+      await contract.getAddress(),
+      bidder.address,
+      amount
+    );
+    return contract.connect(bidder).placeBid(auctionId, true, handle, inputProof, comments, { value });
+  }
+
+  /**
+   * @chapter: decryption
+   * Decrypt the encrypted leader of an auction (mock debugger, bypasses ACL)
+   */
+  async function decryptLeader(auctionId: number): Promise<string> {
+    const auction = await contract.getAuction(auctionId);
+    return fhevm.debugger.decryptEaddress(auction.encryptedHighestBidder);
+  }
+
   describe("Auction Creation - Basic Functionality", function () {
     /**
      * @chapter: basic-operations
@@ -32,8 +97,14 @@ describe("ConfidentialAuction", function () {
       const tx = await contract.createAuction(
         "Vintage Watch",
         "Beautiful 1950s Rolex in pristine condition",
-        "Watches",
-        ethers.parseEther("1.0")
+        Category.Watches,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       await expect(tx).to.emit(contract, "AuctionCreated");
@@ -41,7 +112,7 @@ describe("ConfidentialAuction", function () {
       const auction = await contract.getAuction(1);
       expect(auction.title).to.equal("Vintage Watch");
       expect(auction.creator).to.equal(owner.address);
-      expect(auction.category).to.equal("Watches");
+      expect(auction.categoryId).to.equal(Category.Watches);
       expect(auction.minimumBid).to.equal(ethers.parseEther("1.0"));
       expect(auction.isActive).to.be.true;
       expect(auction.bidCount).to.equal(0);
@@ -52,9 +123,12 @@ describe("ConfidentialAuction", function () {
      * Test auction ID auto-increment
      */
     it("should auto-increment auction IDs", async function () {
-      await contract.createAuction("Item 1", "Desc 1", "Cat 1", ethers.parseEther("1.0"));
-      await contract.createAuction("Item 2", "Desc 2", "Cat 2", ethers.parseEther("2.0"));
-      await contract.createAuction("Item 3", "Desc 3", "Cat 3", ethers.parseEther("3.0"));
+      await contract.createAuction("Item 1", "Desc 1", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.createAuction("Item 2", "Desc 2", Category.General, ethers.parseEther("2.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.createAuction("Item 3", "Desc 3", Category.General, ethers.parseEther("3.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
 
       const [total, _] = await contract.getTotalCounts();
       expect(total).to.equal(3);
@@ -74,8 +148,14 @@ describe("ConfidentialAuction", function () {
       await contract.connect(bidder1).createAuction(
         "User Item",
         "Created by bidder1",
-        "Test",
-        ethers.parseEther("1.0")
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       const userAuctions = await contract.getUserAuctions(bidder1.address);
@@ -92,8 +172,14 @@ describe("ConfidentialAuction", function () {
         contract.createAuction(
           "",
           "Description",
-          "Category",
-          ethers.parseEther("1.0")
+          Category.General,
+          ethers.parseEther("1.0"),
+          NOW,
+          DEFAULT_DURATION,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.FirstPrice,
+          NO_START_PRICE
         )
       ).to.be.revertedWith("Title cannot be empty");
     });
@@ -107,25 +193,53 @@ describe("ConfidentialAuction", function () {
         contract.createAuction(
           "Title",
           "",
-          "Category",
-          ethers.parseEther("1.0")
+          Category.General,
+          ethers.parseEther("1.0"),
+          NOW,
+          DEFAULT_DURATION,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.FirstPrice,
+          NO_START_PRICE
         )
       ).to.be.revertedWith("Description cannot be empty");
     });
 
     /**
      * @chapter: input-proof
-     * Test validation - reject empty category
+     * Test validation - reject unknown and disabled categories
      */
-    it("should reject auction with empty category", async function () {
+    it("should reject auction with an invalid category", async function () {
       await expect(
         contract.createAuction(
           "Title",
           "Description",
-          "",
-          ethers.parseEther("1.0")
+          0,
+          ethers.parseEther("1.0"),
+          NOW,
+          DEFAULT_DURATION,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.FirstPrice,
+          NO_START_PRICE
+        )
+      ).to.be.revertedWith("Invalid category");
+
+      await registry.setCategoryEnabled(Category.Art, false);
+      await expect(
+        contract.createAuction(
+          "Title",
+          "Description",
+          Category.Art,
+          ethers.parseEther("1.0"),
+          NOW,
+          DEFAULT_DURATION,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.FirstPrice,
+          NO_START_PRICE
         )
-      ).to.be.revertedWith("Category cannot be empty");
+      ).to.be.revertedWith("Invalid category");
     });
 
     /**
@@ -137,8 +251,14 @@ describe("ConfidentialAuction", function () {
         contract.createAuction(
           "Title",
           "Description",
-          "Category",
-          0
+          Category.General,
+          0,
+          NOW,
+          DEFAULT_DURATION,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.FirstPrice,
+          NO_START_PRICE
         )
       ).to.be.revertedWith("Minimum bid must be greater than 0");
     });
@@ -154,8 +274,14 @@ describe("ConfidentialAuction", function () {
       await contract.createAuction(
         "Title",
         "Description",
-        "Category",
-        ethers.parseEther("1.0")
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       const auction = await contract.getAuction(1);
@@ -163,345 +289,2098 @@ describe("ConfidentialAuction", function () {
 
       expect(Number(auction.endTime)).to.be.closeTo(expectedEndTime, 10);
     });
+
+    /**
+     * @chapter: basic-operations
+     * Test auctions can keep their listing off-chain behind a hash and URI
+     */
+    it("should create an auction with off-chain metadata", async function () {
+      const contentHash = ethers.keccak256(ethers.toUtf8Bytes('{"version":1}'));
+      const uri = "ipfs://bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+      await expect(
+        contract.createAuctionWithMetadata(contentHash, uri, Category.General, ethers.parseEther("1.0"), NOW,
+DEFAULT_DURATION, NO_RESERVE, NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE)
+      )
+        .to.emit(contract, "AuctionMetadataSet")
+        .withArgs(1, contentHash, uri);
+
+      const auction = await contract.getAuction(1);
+      expect(auction.title).to.equal("");
+      expect(auction.isActive).to.be.true;
+      const metadata = await contract.auctionMetadata(1);
+      expect(metadata.contentHash).to.equal(contentHash);
+      expect(metadata.uri).to.equal(uri);
+
+      await expect(
+        contract.createAuctionWithMetadata(ethers.ZeroHash, uri, Category.General, 1, NOW, DEFAULT_DURATION, NO_RESERVE,
+NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE)
+      ).to.be.revertedWith("Metadata hash cannot be empty");
+      await expect(
+        contract.createAuctionWithMetadata(contentHash, "", Category.General, 1, NOW, DEFAULT_DURATION, NO_RESERVE,
+NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE)
+      ).to.be.revertedWith("Metadata URI cannot be empty");
+      await expect(
+        contract.createAuctionWithMetadata(contentHash, uri, 0, 1, NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE)
+      ).to.be.revertedWith("Invalid category");
+    });
   });
 
-  describe("Encrypted Bidding - FHE Operations", function () {
+  describe("Scheduling and Phases", function () {
+    const HOUR = 60 * 60;
+    const DAY = 24 * HOUR;
+
     /**
-     * @chapter: encryption
-     * Test placing encrypted bid on valid auction
+     * @chapter: basic-operations
+     * Test custom start time and duration set the bidding window
      */
-    it("should place encrypted bid on auction", async function () {
-      // Create auction first
+    it("should create a scheduled auction with a custom duration", async function () {
+      const startTime = (await time.latest()) + DAY;
       await contract.createAuction(
-        "Test Item",
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        startTime,
+        3 * DAY,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      const auction = await contract.getAuction(1);
+      expect(auction.startTime).to.equal(startTime);
+      expect(auction.endTime).to.equal(startTime + 3 * DAY);
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Scheduled);
+
+      // Scheduled auctions are listed before they open
+      expect(await contract.getActiveAuctions()).to.have.length(1);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test phase transitions across the auction lifecycle
+     */
+    it("should move through Scheduled, Open, Closed and Settled", async function () {
+      const startTime = (await time.latest()) + HOUR;
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        startTime,
+        DAY,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      await expect(
+        placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Too early")
+      ).to.be.revertedWith("Auction has not started");
+
+      await time.increaseTo(startTime);
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Open);
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
+
+      await time.increaseTo(startTime + DAY);
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Closed);
+      await expect(
+        placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Too late")
+      ).to.be.revertedWith("Auction has ended");
+
+      await contract.connect(bidder2).endAuction(1);
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Closed);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Settled);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test auctions without bids settle as soon as they end
+     */
+    it("should report Settled when ended without bids", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      await contract.endAuction(1);
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Settled);
+    });
+
+    /**
+     * @chapter: input-proof
+     * Test start time and duration bounds
+     */
+    it("should reject start times and durations out of bounds", async function () {
+      const now = await time.latest();
+      const create = (startTime: number, duration: number) =>
+        contract.createAuction(
+          "Item",
+          "Description",
+          Category.General,
+          ethers.parseEther("1.0"),
+          startTime,
+          duration,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.FirstPrice,
+          NO_START_PRICE
+        );
+
+      await expect(create(now - HOUR, DAY)).to.be.revertedWith("Start time is in the past");
+      await expect(create(now + 31 * DAY, DAY)).to.be.revertedWith("Start time too far in the future");
+      await expect(create(NOW, HOUR - 1)).to.be.revertedWith("Duration too short");
+      await expect(create(NOW, 30 * DAY + 1)).to.be.revertedWith("Duration too long");
+
+      await create(NOW, HOUR);
+      await create(NOW, 30 * DAY);
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test getAuctionPhase rejects unknown IDs
+     */
+    it("should reject phase queries for invalid auction IDs", async function () {
+      await expect(contract.getAuctionPhase(1)).to.be.revertedWith("Invalid auction ID");
+    });
+  });
+
+  describe("Anti-Sniping Soft Close", function () {
+    const HOUR = 60 * 60;
+    const WINDOW = 10 * 60;
+    const EXTENSION = 5 * 60;
+    const MAX_EXTENSION = 12 * 60;
+
+    let endTime: number;
+
+    beforeEach(async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        HOUR,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      endTime = Number((await contract.getAuction(1)).endTime);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test soft close configuration rules
+     */
+    it("should let only the creator configure soft close before bidding", async function () {
+      await expect(
+        contract.connect(bidder1).configureSoftClose(1, WINDOW, EXTENSION, MAX_EXTENSION)
+      ).to.be.revertedWith("Only creator can configure soft close");
+      await expect(
+        contract.configureSoftClose(1, 0, EXTENSION, MAX_EXTENSION)
+      ).to.be.revertedWith("Soft close window and extension must be greater than 0");
+
+      await contract.configureSoftClose(1, WINDOW, EXTENSION, MAX_EXTENSION);
+      const softClose = await contract.softCloses(1);
+      expect(softClose.window).to.equal(WINDOW);
+      expect(softClose.extension).to.equal(EXTENSION);
+      expect(softClose.maxEndTime).to.equal(endTime + MAX_EXTENSION);
+
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
+      await expect(
+        contract.configureSoftClose(1, WINDOW, EXTENSION, MAX_EXTENSION)
+      ).to.be.revertedWith("Soft close must be set before bidding");
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test repeated late bids keep extending the auction up to the cap
+     */
+    it("should extend repeatedly for late bids up to the cap", async function () {
+      await contract.configureSoftClose(1, WINDOW, EXTENSION, MAX_EXTENSION);
+      const bidder4 = (await ethers.getSigners())[4];
+
+      // First late bid: +5 minutes
+      await time.increaseTo(endTime - 60);
+      await expect(placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Late 1"))
+        .to.emit(contract, "AuctionExtended")
+        .withArgs(1, endTime + EXTENSION);
+
+      // Second late bid against the new end time: +5 more minutes
+      await time.increaseTo(endTime + EXTENSION - 60);
+      await expect(placeEncryptedBid(bidder2, 1, ethers.parseEther("1.6"), "Late 2"))
+        .to.emit(contract, "AuctionExtended")
+        .withArgs(1, endTime + 2 * EXTENSION);
+
+      // Third late bid is capped at 12 minutes in total
+      await time.increaseTo(endTime + 2 * EXTENSION - 60);
+      await expect(placeEncryptedBid(bidder3, 1, ethers.parseEther("1.7"), "Late 3"))
+        .to.emit(contract, "AuctionExtended")
+        .withArgs(1, endTime + MAX_EXTENSION);
+
+      // Cap reached: no further extension
+      await time.increaseTo(endTime + MAX_EXTENSION - 60);
+      await expect(placeEncryptedBid(bidder4, 1, ethers.parseEther("1.8"), "Late 4"))
+        .not.to.emit(contract, "AuctionExtended");
+
+      expect((await contract.getAuction(1)).endTime).to.equal(endTime + MAX_EXTENSION);
+
+      await time.increaseTo(endTime + MAX_EXTENSION);
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Closed);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test bids before the window leave the end time alone
+     */
+    it("should not extend for bids outside the window", async function () {
+      await contract.configureSoftClose(1, WINDOW, EXTENSION, MAX_EXTENSION);
+
+      await time.increaseTo(endTime - WINDOW - 60);
+      await expect(placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Early"))
+        .not.to.emit(contract, "AuctionExtended");
+      expect((await contract.getAuction(1)).endTime).to.equal(endTime);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test auctions without soft close keep a fixed end time
+     */
+    it("should keep a fixed end time when soft close is disabled", async function () {
+      await time.increaseTo(endTime - 10);
+      await expect(placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Last second"))
+        .not.to.emit(contract, "AuctionExtended");
+
+      await time.increaseTo(endTime);
+      await expect(
+        placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Too late")
+      ).to.be.revertedWith("Auction has ended");
+    });
+  });
+
+  describe("Encrypted Reserve Price", function () {
+    /**
+     * @chapter: input-proof
+     * Create an auction whose floor is encrypted by the creator
+     */
+    async function createReserveAuction(reserve: bigint) {
+      const { handle, inputProof } = await encryptReservePrice(
+        fhevm,
+        await contract.getAddress(),
+        owner.address,
+        reserve
+      );
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        handle,
+        inputProof,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+    }
+
+    /**
+     * @chapter: decryption
+     * Test a highest bid above the reserve settles normally
+     */
+    it("should sell when the highest bid meets the reserve", async function () {
+      await createReserveAuction(ethers.parseEther("1.5"));
+      expect(await contract.hasReserve(1)).to.be.true;
+
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.2"), "Bid 2");
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.reserveNotMet(1)).to.be.false;
+      const auction = await contract.getAuction(1);
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.auctionProceeds(1)).to.equal(ethers.parseEther("2.0"));
+    });
+
+    /**
+     * @chapter: decryption
+     * Test a bid equal to the reserve meets it (FHE.ge)
+     */
+    it("should treat a bid equal to the reserve as met", async function () {
+      await createReserveAuction(ethers.parseEther("2.0"));
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Exact");
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.reserveNotMet(1)).to.be.false;
+      expect((await contract.getAuction(1)).highestBidder).to.equal(bidder1.address);
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test an unmet reserve reveals neither the highest bid nor the winner
+     */
+    it("should resolve to reserve not met without revealing the bid", async function () {
+      await createReserveAuction(ethers.parseEther("3.0"));
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.2"), "Bid 2");
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.reserveNotMet(1)).to.be.true;
+      expect(await contract.queryFilter(contract.filters.ReserveNotMet(1))).to.have.length(1);
+      expect(await contract.queryFilter(contract.filters.WinnerRevealed(1))).to.have.length(0);
+      const ended = await contract.queryFilter(contract.filters.AuctionEnded(1));
+      expect(ended[0].args.winner).to.equal(ethers.ZeroAddress);
+      expect(ended[0].args.winningBid).to.equal(0);
+
+      const auction = await contract.getAuction(1);
+      expect(auction.highestBidder).to.equal(ethers.ZeroAddress);
+      expect(auction.winningBid).to.equal(0);
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Settled);
+
+      // The stored ciphertexts were zeroed before anything was decrypted
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint64, auction.highestBidAmount)
+      ).to.equal(0n);
+      expect(await decryptLeader(1)).to.equal(ethers.ZeroAddress);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test every bidder is refunded in full when the reserve is not met
+     */
+    it("should refund all bidders when the reserve is not met", async function () {
+      await createReserveAuction(ethers.parseEther("3.0"));
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.2"), "Bid 2");
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(contract.claimProceeds(1)).to.be.revertedWith("No proceeds available");
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(
+        bidder1,
+        ethers.parseEther("2.0")
+      );
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.changeEtherBalance(
+        bidder2,
+        ethers.parseEther("1.2")
+      );
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0);
+    });
+  });
+
+  describe("Vickrey Second-Price Mode", function () {
+    async function createVickreyAuction(reserve?: bigint) {
+      const { handle, inputProof } =
+        reserve === undefined
+          ? { handle: NO_RESERVE, inputProof: NO_PROOF }
+          : await encryptReservePrice(fhevm, await contract.getAddress(), owner.address, reserve);
+      await contract.createAuction(
+        "Supply Contract",
+        "Procurement lot",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        handle,
+        inputProof,
+        AuctionType.Vickrey,
+        NO_START_PRICE
+      );
+    }
+
+    async function settle() {
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+      return contract.getAuction(1);
+    }
+
+    /**
+     * @chapter: basic-operations
+     * Test the auction type is stored on creation
+     */
+    it("should record the auction type", async function () {
+      await createVickreyAuction();
+      expect((await contract.getAuction(1)).auctionType).to.equal(AuctionType.Vickrey);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test the winner pays the second-highest bid
+     */
+    it("should charge the winner the second-highest price", async function () {
+      await createVickreyAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("3.0"), "Bid 2");
+      await placeEncryptedBid(bidder3, 1, ethers.parseEther("2.0"), "Bid 3");
+
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(bidder2.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.0"));
+
+      const revealed = await contract.queryFilter(contract.filters.WinnerRevealed(1));
+      expect(revealed[0].args.winningBid).to.equal(ethers.parseEther("2.0"));
+
+      // The winner gets back everything above the second price
+      expect(await contract.auctionProceeds(1)).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.bidDeposits(1, bidder2.address)).to.equal(ethers.parseEther("1.0"));
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test the runner-up is tracked whatever the bid order
+     */
+    it("should track the second price for any bid order", async function () {
+      await createVickreyAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("3.0"), "Highest first");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.2"), "Lowest");
+      await placeEncryptedBid(bidder3, 1, ethers.parseEther("2.5"), "Runner-up last");
+
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.5"));
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test equal top bids: the earlier bidder wins at that same price
+     */
+    it("should charge the tied amount when the top bids are equal", async function () {
+      await createVickreyAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "First");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Same amount");
+
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.0"));
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test a single bidder pays the minimum bid
+     */
+    it("should charge the minimum bid when there is no runner-up", async function () {
+      await createVickreyAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.5"), "Only bid");
+
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("1.0"));
+      expect(await contract.bidDeposits(1, bidder1.address)).to.equal(ethers.parseEther("1.5"));
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test a met reserve above the second price sets the price
+     */
+    it("should charge the reserve when the second price is below it", async function () {
+      await createVickreyAuction(ethers.parseEther("2.5"));
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("3.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2");
+
+      const auction = await settle();
+      expect(await contract.reserveNotMet(1)).to.be.false;
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.5"));
+      expect(await contract.auctionProceeds(1)).to.equal(ethers.parseEther("2.5"));
+      expect(await contract.bidDeposits(1, bidder1.address)).to.equal(ethers.parseEther("0.5"));
+    });
+
+    /**
+     * @chapter: decryption
+     * Test the highest bid itself stays encrypted after settlement
+     */
+    it("should never hand out the winning bid amount", async function () {
+      await createVickreyAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("3.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2");
+
+      const auction = await settle();
+      // Only the contract (and the bidder, for their own bid handle) can
+      // access the top bid; the creator cannot decrypt it
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          auction.highestBidAmount,
+          await contract.getAddress(),
+          owner
+        );
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+  });
+
+  describe("Dutch Descending-Price Mode", function () {
+    const START_PRICE = ethers.parseEther("2.0");
+    const DURATION = 10 * 3600;
+
+    async function createDutchAuction() {
+      // Scheduled a minute ahead so the first bid can land on startTime
+      await contract.createAuction(
+        "Fresh Catch",
+        "Lot of 50kg",
+        Category.General,
+        ethers.parseEther("1.0"),
+        (await time.latest()) + 60,
+        DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.Dutch,
+        START_PRICE
+      );
+      return (await contract.getAuction(1)).startTime;
+    }
+
+    // Place a cap in the block at `startTime + offset`, depositing `ask`
+    async function placeCapAt(bidder: any, startTime: bigint, offset: number, cap: bigint, ask: bigint) {
+      await time.setNextBlockTimestamp(startTime + BigInt(offset));
+      return placeEncryptedBid(bidder, 1, cap, "Cap", ask);
+    }
+
+    async function settle() {
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+      return contract.getAuction(1);
+    }
+
+    /**
+     * @chapter: basic-operations
+     * Test the start price must sit above the floor
+     */
+    it("should reject a start price at or below the minimum bid", async function () {
+      await expect(
+        contract.createAuction(
+          "Item",
+          "Description",
+          Category.General,
+          ethers.parseEther("1.0"),
+          NOW,
+          DURATION,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.Dutch,
+          ethers.parseEther("1.0")
+        )
+      ).to.be.revertedWith("Start price must exceed minimum bid");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test the ask decays linearly from the start price to the minimum bid
+     */
+    it("should decay the ask linearly to the minimum bid", async function () {
+      const startTime = await createDutchAuction();
+      expect(await contract.dutchStartPrices(1)).to.equal(START_PRICE);
+      expect(await contract.getCurrentAsk(1)).to.equal(START_PRICE);
+
+      await time.increaseTo(startTime);
+      expect(await contract.getCurrentAsk(1)).to.equal(START_PRICE);
+
+      await time.increaseTo(startTime + BigInt(DURATION / 2));
+      expect(await contract.getCurrentAsk(1)).to.equal(ethers.parseEther("1.5"));
+
+      await time.increaseTo(startTime + BigInt(DURATION));
+      expect(await contract.getCurrentAsk(1)).to.equal(ethers.parseEther("1.0"));
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test the first cap at or above the ask wins, at that ask
+     */
+    it("should sell to the first cap that meets the ask", async function () {
+      const startTime = await createDutchAuction();
+      // Ask 2.0: cap too low
+      await placeCapAt(bidder1, startTime, 0, ethers.parseEther("1.2"), ethers.parseEther("2.0"));
+      // Ask 1.5: accepted
+      await placeCapAt(bidder2, startTime, DURATION / 2, ethers.parseEther("1.8"), ethers.parseEther("1.5"));
+      // Ask 1.25: meets the ask too, but the lot is already gone
+      await placeCapAt(bidder3, startTime, (DURATION * 3) / 4, ethers.parseEther("1.9"), ethers.parseEther("1.25"));
+
+      const steps = await contract.queryFilter(contract.filters.DutchPriceStep(1));
+      expect(steps.map((step: any) => step.args.askPrice)).to.deep.equal([
+        ethers.parseEther("2.0"),
+        ethers.parseEther("1.5"),
+        ethers.parseEther("1.25"),
+      ]);
+
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(bidder2.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("1.5"));
+      expect(await contract.auctionProceeds(1)).to.equal(ethers.parseEther("1.5"));
+      expect(await contract.bidDeposits(1, bidder2.address)).to.equal(0);
+      expect(await contract.bidDeposits(1, bidder3.address)).to.equal(ethers.parseEther("1.25"));
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test the deposit has to cover the current ask
+     */
+    it("should reject deposits below the current ask", async function () {
+      const startTime = await createDutchAuction();
+      await time.increaseTo(startTime);
+      await expect(
+        placeEncryptedBid(bidder1, 1, START_PRICE, "Cap", ethers.parseEther("1.5"))
+      ).to.be.revertedWith("Deposit below current ask");
+    });
+
+    /**
+     * @chapter: decryption
+     * Test no sale when no cap ever meets the ask
+     */
+    it("should end unsold when no cap meets the ask", async function () {
+      const startTime = await createDutchAuction();
+      await placeCapAt(bidder1, startTime, 0, ethers.parseEther("1.5"), ethers.parseEther("2.0"));
+      await placeCapAt(bidder2, startTime, DURATION / 2, ethers.parseEther("1.1"), ethers.parseEther("1.5"));
+
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const ended = await contract.queryFilter(contract.filters.AuctionEnded(1));
+      expect(ended[0].args.winner).to.equal(ethers.ZeroAddress);
+      expect(await contract.reserveNotMet(1)).to.be.false;
+      expect(await contract.auctionProceeds(1)).to.equal(0);
+      expect(await contract.bidDeposits(1, bidder1.address)).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.bidDeposits(1, bidder2.address)).to.equal(ethers.parseEther("1.5"));
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test soft close cannot be combined with a price schedule
+     */
+    it("should not allow soft close on Dutch auctions", async function () {
+      await createDutchAuction();
+      await expect(contract.configureSoftClose(1, 600, 300, 900)).to.be.revertedWith(
+        "Soft close is not supported for Dutch auctions"
+      );
+    });
+  });
+
+  describe("Encrypted Bidding - FHE Operations", function () {
+    /**
+     * @chapter: encryption
+     * Test placing encrypted bid on valid auction
+     */
+    it("should place encrypted bid on auction", async function () {
+      // Create auction first
+      await contract.createAuction(
+        "Test Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Place bid
+      const bidAmount = ethers.parseEther("1.5");
+      const tx = await placeEncryptedBid(bidder1, 1, bidAmount, "Great item!");
+
+      await expect(tx).to.emit(contract, "BidPlaced");
+
+      // Verify bid was recorded
+      const bidCount = await contract.getAuctionBidCount(1);
+      expect(bidCount).to.equal(1);
+
+      const hasBid = await contract.hasPlacedBid(bidder1.address, 1);
+      expect(hasBid).to.be.true;
+    });
+
+    /**
+     * @chapter: input-proof
+     * Test the bid is stored as a ciphertext only the bidder can decrypt
+     */
+    it("should store encrypted bid amount decryptable by the bidder", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      const bidAmount = ethers.parseEther("1.5");
+      await placeEncryptedBid(bidder1, 1, bidAmount, "Sealed bid");
+
+      const bid = await contract.auctionBids(1, 0);
+      const clearAmount = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        bid.amount,
+        await contract.getAddress(),
+        bidder1
+      );
+      expect(clearAmount).to.equal(bidAmount);
+    });
+
+    /**
+     * @chapter: input-proof
+     * Test an input proof bound to another user is rejected
+     */
+    it("should reject encrypted input bound to a different user", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Encrypted for bidder1 but submitted by bidder2
+      const { handle, inputProof } = await encryptBidAmount(
+        fhevm,
+        await contract.getAddress(),
+        bidder1.address,
+        ethers.parseEther("1.5")
+      );
+
+      await expect(
+        contract.connect(bidder2).placeBid(1, true, handle, inputProof, "Stolen proof", {
+          value: ethers.parseEther("1.5"),
+        })
+      ).to.be.reverted;
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test homomorphic comparison updates highest bidder
+     */
+    it("should track highest bidder through encrypted comparison", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // First bid
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+
+      expect(await decryptLeader(1)).to.equal(bidder1.address);
+
+      // Second bid (higher)
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2");
+
+      expect(await decryptLeader(1)).to.equal(bidder2.address);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test a lower later bid does not displace the encrypted leader
+     */
+    it("should keep the leader when a later bid is lower", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.5"), "High bid");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Lower bid");
+      await placeEncryptedBid(bidder3, 1, ethers.parseEther("2.0"), "Middle bid");
+
+      expect(await decryptLeader(1)).to.equal(bidder1.address);
+
+      const auction = await contract.getAuction(1);
+      const highest = await fhevm.debugger.decryptEuint(FhevmType.euint64, auction.highestBidAmount);
+      expect(highest).to.equal(ethers.parseEther("2.5"));
+
+      // The plaintext winner is not revealed while bidding
+      expect(auction.highestBidder).to.equal(ethers.ZeroAddress);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test an equal later bid does not displace the leader
+     */
+    it("should keep the earlier bidder on a tie", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "First");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Same amount");
+
+      expect(await decryptLeader(1)).to.equal(bidder1.address);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test preventing creator from bidding on own auction
+     */
+    it("should prevent creator from bidding on own auction", async function () {
+      // Creator creates auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Creator tries to bid on own auction
+      await expect(
+        placeEncryptedBid(owner, 1, ethers.parseEther("1.5"), "My bid")
+      ).to.be.revertedWith("Cannot bid on your own auction");
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test preventing duplicate bids from same bidder
+     */
+    it("should prevent duplicate bids from same bidder", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // First bid succeeds
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "First bid");
+
+      // Second bid from same bidder fails
+      await expect(
+        placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Second bid")
+      ).to.be.revertedWith("You have already placed a bid on this auction");
+    });
+
+    /**
+     * @chapter: input-proof
+     * Test rejecting bid below minimum
+     */
+    it("should reject bid below minimum amount", async function () {
+      // Create auction with 1 ETH minimum
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Try to bid 0.5 ETH (below minimum)
+      await expect(
+        placeEncryptedBid(bidder1, 1, ethers.parseEther("0.5"), "Low bid")
+      ).to.be.revertedWith("Bid below minimum amount");
+    });
+
+    /**
+     * @chapter: input-proof
+     * Test an encrypted amount below the minimum still pays the minimum
+     */
+    it("should charge the minimum bid for a lower encrypted amount", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // The deposit meets the minimum, the encrypted amount does not
+      await placeEncryptedBid(bidder1, 1, 1n, "Low bid", ethers.parseEther("1.5"));
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const auction = await contract.getAuction(1);
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("1.0"));
+      expect(await contract.auctionProceeds(1)).to.equal(ethers.parseEther("1.0"));
+      expect(await contract.bidDeposits(1, bidder1.address)).to.equal(ethers.parseEther("0.5"));
+    });
+
+    /**
+     * @chapter: input-proof
+     * Test rejecting bid on invalid auction
+     */
+    it("should reject bid on non-existent auction", async function () {
+      await expect(
+        placeEncryptedBid(bidder1, 999, ethers.parseEther("1.0"), "Bid")
+      ).to.be.revertedWith("Invalid auction ID");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test multiple bidders on same auction
+     */
+    it("should allow multiple bidders on same auction", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Multiple bids
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2");
+      await placeEncryptedBid(bidder3, 1, ethers.parseEther("2.5"), "Bid 3");
+
+      const bidCount = await contract.getAuctionBidCount(1);
+      expect(bidCount).to.equal(3);
+
+      expect(await decryptLeader(1)).to.equal(bidder3.address);
+    });
+  });
+
+  describe("Auction Settlement", function () {
+    /**
+     * @chapter: access-control
+     * Test creator can end auction early
+     */
+    it("should allow creator to end auction", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Creator ends auction
+      const tx = await contract.endAuction(1);
+      await expect(tx).to.emit(contract, "AuctionEnded");
+
+      // Verify auction is inactive
+      const auction = await contract.getAuction(1);
+      expect(auction.isActive).to.be.false;
+    });
+
+    /**
+     * @chapter: decryption
+     * Test the creator is granted access to the encrypted winner at settlement
+     */
+    it("should let the creator decrypt the winner after ending", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+
+      await contract.endAuction(1);
+
+      const auction = await contract.getAuction(1);
+      const winner = await fhevm.userDecryptEaddress(
+        auction.encryptedHighestBidder,
+        await contract.getAddress(),
+        owner
+      );
+      expect(winner).to.equal(bidder1.address);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test non-creator cannot end active auction
+     */
+    it("should prevent non-creator from ending active auction early", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Non-creator tries to end auction
+      await expect(
+        contract.connect(bidder1).endAuction(1)
+      ).to.be.revertedWith("Auction has not ended yet and you are not the creator");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test anyone can end expired auction
+     */
+    it("should allow anyone to end expired auction", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Get auction end time
+      const auction = await contract.getAuction(1);
+      const endTime = Number(auction.endTime);
+
+      // Fast-forward time past auction end
+      const now = Math.floor(Date.now() / 1000);
+      const timeJump = endTime - now + 1;
+
+      if (timeJump > 0) {
+        await ethers.provider.send("evm_increaseTime", [timeJump]);
+        await ethers.provider.send("evm_mine", []);
+      }
+
+      // Non-creator can now end auction
+      const tx = await contract.connect(bidder1).endAuction(1);
+      await expect(tx).to.emit(contract, "AuctionEnded");
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test cannot end already-ended auction
+     */
+    it("should prevent ending already-ended auction", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // End auction
+      await contract.endAuction(1);
+
+      // Try to end again
+      await expect(
+        contract.endAuction(1)
+      ).to.be.revertedWith("Auction is not active");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test settlement transfers funds
+     */
+    it("should transfer funds to creator on settlement", async function () {
+      // Create auction
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+
+      // Place bid
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
+
+      // End auction; proceeds are credited once the oracle reveals the winner
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      // Get creator balance before
+      const balanceBefore = await ethers.provider.getBalance(owner.address);
+
+      // Claim proceeds
+      const claimTx = await contract.claimProceeds(1);
+      const claimReceipt: ContractTransactionReceipt = await claimTx.wait();
+      const gasUsed = claimReceipt.gasUsed * claimReceipt.gasPrice;
+
+      // Get creator balance after
+      const balanceAfter = await ethers.provider.getBalance(owner.address);
+
+      // Creator should have received the decrypted winning bid
+      expect(balanceAfter).to.equal(balanceBefore - gasUsed + ethers.parseEther("1.5"));
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0);
+    });
+  });
+
+  describe("Asynchronous Settlement", function () {
+    /**
+     * @chapter: decryption
+     * Test endAuction requests decryption instead of paying immediately
+     */
+    it("should request decryption when ending an auction with bids", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
+
+      const tx = await contract.endAuction(1);
+      await expect(tx).to.emit(contract, "SettlementRequested");
+      await expect(tx).not.to.emit(contract, "AuctionEnded");
+
+      expect(await contract.settlementPending(1)).to.be.true;
+      const auction = await contract.getAuction(1);
+      expect(auction.isActive).to.be.false;
+      expect(auction.highestBidder).to.equal(ethers.ZeroAddress);
+    });
+
+    /**
+     * @chapter: decryption
+     * Test the oracle callback reveals the winner and settles
+     */
+    it("should reveal the winner when the oracle fulfils the request", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await contract.queryFilter(contract.filters.WinnerRevealed(1));
+      expect(events).to.have.length(1);
+      expect(events[0].args.winner).to.equal(bidder1.address);
+      expect(events[0].args.winningBid).to.equal(ethers.parseEther("2.0"));
+
+      const auction = await contract.getAuction(1);
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.settlementPending(1)).to.be.false;
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test an encrypted bid above its deposit only counts as the deposit
+     */
+    it("should not let an underfunded bid win", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      // Encrypted bid of 3 ETH backed by only 1 ETH, against an honest 2 ETH
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("3.0"), "Bid 1", ethers.parseEther("1.0"));
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2");
+
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await contract.queryFilter(contract.filters.AuctionEnded(1));
+      expect(events[0].args.winner).to.equal(bidder2.address);
+      expect(events[0].args.winningBid).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.auctionProceeds(1)).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.bidDeposits(1, bidder1.address)).to.equal(ethers.parseEther("1.0"));
+      expect(await contract.bidDeposits(1, bidder2.address)).to.equal(0);
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test callbacks without valid KMS signatures are rejected
+     */
+    it("should reject callbacks that are not signed by the KMS", async function () {
+      await contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
+
+      const tx = await contract.endAuction(1);
+      const receipt = await tx.wait();
+      const requested = receipt!.logs
+        .map((log: any) => contract.interface.parseLog(log))
+        .find((parsed: any) => parsed?.name === "SettlementRequested");
+      const requestId = requested.args.requestId;
+
+      // Forged result with no signatures
+      await expect(
+        contract.connect(bidder2).revealWinner(requestId, ethers.parseEther("1.5"), bidder2.address, true, [])
+      ).to.be.reverted;
+
+      // Unknown request
+      await expect(
+        contract.revealWinner(requestId + 1n, 0, bidder1.address, true, [])
+      ).to.be.revertedWith("No pending settlement");
+
+      expect(await contract.settlementPending(1)).to.be.true;
+    });
+  });
+
+  describe("Roles and Pausing", function () {
+    let moderator: any;
+    let keeper: any;
+
+    beforeEach(async function () {
+      [, , , , moderator, keeper] = await ethers.getSigners();
+      await governance.grantRole(await governance.MODERATOR_ROLE(), moderator.address);
+      await governance.grantRole(await governance.KEEPER_ROLE(), keeper.address);
+    });
+
+    async function createDefaultAuction() {
+      return contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+    }
+
+    /**
+     * @chapter: access-control
+     * Test pausing blocks new auctions and bids
+     */
+    it("should reject auctions, bids and bid updates while paused", async function () {
+      await createDefaultAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
+      await governance.pause();
+
+      await expect(createDefaultAuction()).to.be.revertedWith("Auctions are paused");
+      await expect(
+        contract.createAuctionWithMetadata(
+          ethers.id("listing"),
+          "ipfs://listing",
+          Category.General,
+          ethers.parseEther("1.0"),
+          NOW,
+          DEFAULT_DURATION,
+          NO_RESERVE,
+          NO_PROOF,
+          AuctionType.FirstPrice,
+          NO_START_PRICE
+        )
+      ).to.be.revertedWith("Auctions are paused");
+      await expect(placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid")).to.be.revertedWith(
+        "Auctions are paused"
+      );
+
+      const { handle, inputProof } = await encryptBidAmount(
+        fhevm,
+        await contract.getAddress(),
+        bidder1.address,
+        ethers.parseEther("2.0")
+      );
+      await expect(
+        contract.connect(bidder1).updateBid(1, handle, inputProof, { value: ethers.parseEther("0.5") })
+      ).to.be.revertedWith("Auctions are paused");
+
+      await governance.unpause();
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid");
+    });
+
+    /**
+     * @chapter: access-control
+     * Test settlement and refunds keep working while paused
+     */
+    it("should settle and refund while paused", async function () {
+      await createDefaultAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+      await governance.pause();
+
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getAuction(1)).highestBidder).to.equal(bidder1.address);
+
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.changeEtherBalance(
+        bidder2,
+        ethers.parseEther("1.5")
+      );
+      await expect(contract.claimProceeds(1)).to.changeEtherBalance(owner, ethers.parseEther("2.0"));
+      expect(await contract.totalEscrowed()).to.equal(0);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test only the governance admin can pause and grant roles
+     */
+    it("should restrict pausing and role management to the admin", async function () {
+      const asModerator = governance.connect(moderator);
+      const moderatorRole = await governance.MODERATOR_ROLE();
+
+      await expect(asModerator.pause()).to.be.revertedWithCustomError(governance, "AccessControlUnauthorizedAccount");
+      await expect(asModerator.grantRole(moderatorRole, bidder1.address)).to.be.revertedWithCustomError(
+        governance,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      await governance.pause();
+      await expect(asModerator.unpause()).to.be.revertedWithCustomError(
+        governance,
+        "AccessControlUnauthorizedAccount"
+      );
+      expect(await governance.paused()).to.be.true;
+    });
+
+    /**
+     * @chapter: access-control
+     * Test a moderator cancels a listing and every bidder gets their full
+     * deposit back
+     */
+    it("should let a moderator cancel a listing with full refunds", async function () {
+      await createDefaultAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+
+      await expect(contract.connect(bidder1).cancelListing(1)).to.be.revertedWith(
+        "Only moderator can cancel listings"
+      );
+      await expect(contract.connect(keeper).cancelListing(1)).to.be.revertedWith(
+        "Only moderator can cancel listings"
+      );
+
+      await expect(contract.connect(moderator).cancelListing(1))
+        .to.emit(contract, "AuctionCancelled")
+        .withArgs(1, moderator.address);
+      expect(await contract.cancelled(1)).to.be.true;
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Cancelled);
+      expect((await contract.getAuction(1)).isActive).to.be.false;
+      expect(await contract.getActiveAuctions()).to.have.length(0);
+
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(
+        bidder1,
+        ethers.parseEther("2.0")
+      );
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.changeEtherBalance(
+        bidder2,
+        ethers.parseEther("1.5")
+      );
+      await expect(contract.claimProceeds(1)).to.be.revertedWith("No proceeds available");
+      await expect(contract.connect(moderator).cancelListing(1)).to.be.revertedWith("Auction is already settled");
+      await expect(contract.endAuction(1)).to.be.revertedWith("Auction is not active");
+    });
+
+    /**
+     * @chapter: access-control
+     * Test a listing can still be cancelled while settlement is pending,
+     * and the late oracle answer no longer settles it
+     */
+    it("should cancel a listing with a pending settlement", async function () {
+      await createDefaultAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid");
+      await contract.endAuction(1);
+
+      await contract.connect(moderator).cancelListing(1);
+      expect(await contract.settlementPending(1)).to.be.false;
+      try {
+        await fhevm.awaitDecryptionOracle();
+        expect.fail("expected the oracle callback to revert");
+      } catch (error) {
+        expect((error as Error).message).to.contain("No pending settlement");
+      }
+      expect((await contract.getAuction(1)).highestBidder).to.equal(ethers.ZeroAddress);
+
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(
+        bidder1,
+        ethers.parseEther("2.0")
+      );
+    });
+
+    /**
+     * @chapter: decryption
+     * Test only a keeper can re-request a settlement decryption, and only
+     * while one is pending
+     */
+    it("should let a keeper retry a pending settlement", async function () {
+      await createDefaultAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid");
+
+      await expect(contract.connect(keeper).retrySettlement(1)).to.be.revertedWith("No pending settlement");
+      await contract.endAuction(1);
+
+      await expect(contract.connect(bidder1).retrySettlement(1)).to.be.revertedWith(
+        "Only keeper can retry settlement"
+      );
+      await expect(contract.connect(moderator).retrySettlement(1)).to.be.revertedWith(
+        "Only keeper can retry settlement"
+      );
+      await expect(contract.connect(keeper).retrySettlement(1)).to.emit(contract, "SettlementRequested");
+
+      // The mock oracle answers both requests: the first settles, the
+      // second finds nothing pending and reverts
+      try {
+        await fhevm.awaitDecryptionOracle();
+        expect.fail("expected the second callback to revert");
+      } catch (error) {
+        expect((error as Error).message).to.contain("No pending settlement");
+      }
+      const auction = await contract.getAuction(1);
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.queryFilter(contract.filters.WinnerRevealed(1))).to.have.length(1);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test the admin recovers only ETH sent directly, never escrow
+     */
+    it("should let the admin recover stray ETH only while paused", async function () {
+      await createDefaultAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid");
+
+      await expect(contract.emergencyWithdraw()).to.be.revertedWith("Auctions are not paused");
+      await governance.pause();
+      await expect(contract.emergencyWithdraw()).to.be.revertedWith("Nothing to recover");
+      await expect(contract.connect(moderator).emergencyWithdraw()).to.be.revertedWith(
+        "Only admin can recover funds"
+      );
+
+      await bidder3.sendTransaction({ to: await contract.getAddress(), value: ethers.parseEther("0.3") });
+      await expect(contract.emergencyWithdraw()).to.changeEtherBalance(owner, ethers.parseEther("0.3"));
+
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(ethers.parseEther("2.0"));
+      expect(await contract.totalEscrowed()).to.equal(ethers.parseEther("2.0"));
+    });
+  });
+
+  describe("Creator Cancellation", function () {
+    async function createDefaultAuction() {
+      return contract.createAuction(
+        "Item",
+        "Description",
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+    }
+
+    /**
+     * @chapter: basic-operations
+     * Test a creator withdraws a listing for free before any bids
+     */
+    it("should cancel an auction without bids for free", async function () {
+      await createDefaultAuction();
+
+      await expect(contract.cancelAuction(1)).to.emit(contract, "AuctionCancelled").withArgs(1, owner.address);
+      expect(await contract.cancelled(1)).to.be.true;
+      expect(await contract.getAuctionPhase(1)).to.equal(Phase.Cancelled);
+      expect(await contract.getActiveAuctions()).to.have.length(0);
+      expect(await contract.activeAuctionsByCategory(Category.General)).to.equal(0);
+
+      await expect(placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid")).to.be.revertedWith(
+        "Auction is not active"
+      );
+      await expect(contract.endAuction(1)).to.be.revertedWith("Auction is not active");
+      await expect(contract.cancelAuction(1)).to.be.revertedWith("Auction is not active");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test cancelling after bids costs a penalty that is shared among the
+     * bidders on top of their full deposits
+     */
+    it("should refund every bidder plus a penalty share after bids", async function () {
+      await createDefaultAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+
+      // 10% of the 1 ETH minimum bid for each of the two bids
+      const share = ethers.parseEther("0.1");
+      await expect(contract.cancelAuction(1)).to.be.revertedWith("Incorrect cancellation penalty");
+      await expect(contract.cancelAuction(1, { value: share })).to.be.revertedWith(
+        "Incorrect cancellation penalty"
+      );
+      await expect(contract.cancelAuction(1, { value: share * 2n })).to.changeEtherBalance(owner, -share * 2n);
+      expect(await contract.cancellationCompensation(1)).to.equal(share);
+
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(
+        bidder1,
+        ethers.parseEther("2.0") + share
+      );
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.changeEtherBalance(
+        bidder2,
+        ethers.parseEther("1.5") + share
+      );
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.be.revertedWith("No refund available");
+      await expect(contract.claimProceeds(1)).to.be.revertedWith("No proceeds available");
+      expect(await contract.totalEscrowed()).to.equal(0);
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test withdrawn bids are not owed a penalty share
+     */
+    it("should not charge a penalty for withdrawn bids", async function () {
+      await createDefaultAuction();
+      await contract.allowBidWithdrawals(1);
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+      await contract.connect(bidder2).withdrawBid(1);
+
+      await contract.cancelAuction(1, { value: ethers.parseEther("0.1") });
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.be.revertedWith("No refund available");
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(
+        bidder1,
+        ethers.parseEther("2.1")
+      );
+    });
+
+    /**
+     * @chapter: access-control
+     * Test only the creator can cancel, and only before the auction ends
+     */
+    it("should only let the creator cancel before the end time", async function () {
+      await createDefaultAuction();
+
+      await expect(contract.connect(bidder1).cancelAuction(1)).to.be.revertedWith(
+        "Only creator can cancel auction"
+      );
+      await expect(contract.cancelAuction(99)).to.be.revertedWith("Invalid auction ID");
+
+      await time.increase(7 * 24 * 60 * 60);
+      await expect(contract.cancelAuction(1)).to.be.revertedWith("Auction has ended");
+    });
+  });
+
+  describe("Bid Updates and Withdrawals", function () {
+    async function createAuction(auctionType: number = AuctionType.FirstPrice) {
+      await contract.createAuction(
+        "Item",
         "Description",
-        "Category",
-        ethers.parseEther("1.0")
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        auctionType,
+        NO_START_PRICE
       );
-
-      // Place bid
-      const bidAmount = ethers.parseEther("1.5");
-      const tx = await contract.connect(bidder1).placeBid(
-        1,
-        true,
-        bidAmount,
-        "Great item!",
-        { value: bidAmount }
+    }
+
+    async function updateEncryptedBid(bidder: any, auctionId: number, amount: bigint, topUp: bigint = 0n) {
+      const { handle, inputProof } = await encryptBidAmount(
+        fhevm,
+        await contract.getAddress(),
+        bidder.address,
+        amount
       );
+      return contract.connect(bidder).updateBid(auctionId, handle, inputProof, { value: topUp });
+    }
 
-      await expect(tx).to.emit(contract, "BidPlaced");
+    async function settle() {
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+      return contract.getAuction(1);
+    }
 
-      // Verify bid was recorded
-      const bidCount = await contract.getAuctionBidCount(1);
-      expect(bidCount).to.equal(1);
+    /**
+     * @chapter: encryption
+     * Test raising a bid overtakes the leader and tops up the deposit
+     */
+    it("should let a bidder raise their bid", async function () {
+      await createAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2");
+      expect(await decryptLeader(1)).to.equal(bidder2.address);
+
+      const tx = await updateEncryptedBid(bidder1, 1, ethers.parseEther("3.0"), ethers.parseEther("1.5"));
+      await expect(tx)
+        .to.emit(contract, "BidUpdated")
+        .withArgs(1, bidder1.address, (await ethers.provider.getBlock(tx.blockNumber))!.timestamp);
+      expect(await decryptLeader(1)).to.equal(bidder1.address);
+      expect(await contract.bidDeposits(1, bidder1.address)).to.equal(ethers.parseEther("3.0"));
+      expect(await contract.getAuctionBidCount(1)).to.equal(2);
+
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("3.0"));
+    });
 
-      const hasBid = await contract.hasPlacedBid(bidder1.address, 1);
-      expect(hasBid).to.be.true;
+    /**
+     * @chapter: encryption
+     * Test a lower amount leaves the bid unchanged (FHE.max)
+     */
+    it("should keep the higher amount when the update is lower", async function () {
+      await createAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+
+      await expect(updateEncryptedBid(bidder1, 1, ethers.parseEther("1.0"))).to.emit(contract, "BidUpdated");
+
+      const bid = await contract.auctionBids(1, 0);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, bid.amount, await contract.getAddress(), bidder1)
+      ).to.equal(ethers.parseEther("2.0"));
+      expect(await decryptLeader(1)).to.equal(bidder1.address);
     });
 
     /**
      * @chapter: advanced-patterns
-     * Test homomorphic comparison updates highest bidder
+     * Test a leader raising their own bid does not become the Vickrey second price
      */
-    it("should track highest bidder through encrypted comparison", async function () {
-      // Create auction
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
-      );
-
-      // First bid
-      await contract.connect(bidder1).placeBid(
-        1,
-        true,
-        ethers.parseEther("1.5"),
-        "Bid 1",
-        { value: ethers.parseEther("1.5") }
-      );
+    it("should keep the Vickrey second price when the leader raises", async function () {
+      await createAuction(AuctionType.Vickrey);
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid 2");
+      await updateEncryptedBid(bidder1, 1, ethers.parseEther("3.0"), ethers.parseEther("1.0"));
 
-      let auction = await contract.getAuction(1);
+      const auction = await settle();
       expect(auction.highestBidder).to.equal(bidder1.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("1.5"));
+    });
 
-      // Second bid (higher)
-      await contract.connect(bidder2).placeBid(
-        1,
-        true,
-        ethers.parseEther("2.0"),
-        "Bid 2",
-        { value: ethers.parseEther("2.0") }
-      );
-
-      auction = await contract.getAuction(1);
+    /**
+     * @chapter: anti-patterns
+     * Test a raised amount only counts up to the deposit after the top-up
+     */
+    it("should cap a raised bid at the topped-up deposit", async function () {
+      await createAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2");
+
+      // 5 ETH claimed, 2 ETH deposited: ties bidder2, who got there first
+      await updateEncryptedBid(bidder1, 1, ethers.parseEther("5.0"), ethers.parseEther("0.5"));
+      const bid = await contract.auctionBids(1, 0);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, bid.amount, await contract.getAddress(), bidder1)
+      ).to.equal(ethers.parseEther("2.0"));
+
+      const auction = await settle();
       expect(auction.highestBidder).to.equal(bidder2.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("2.0"));
     });
 
     /**
-     * @chapter: access-control
-     * Test preventing creator from bidding on own auction
+     * @chapter: anti-patterns
+     * Test an update without a top-up cannot be used to extend the auction
      */
-    it("should prevent creator from bidding on own auction", async function () {
-      // Creator creates auction
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
-      );
-
-      // Creator tries to bid on own auction
-      await expect(
-        contract.placeBid(
-          1,
-          true,
-          ethers.parseEther("1.5"),
-          "My bid",
-          { value: ethers.parseEther("1.5") }
-        )
-      ).to.be.revertedWith("Cannot bid on your own auction");
+    it("should only extend the end time for updates with a top-up", async function () {
+      await createAuction();
+      await contract.configureSoftClose(1, 10 * 60, 5 * 60, 60 * 60);
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      const endTime = Number((await contract.getAuction(1)).endTime);
+
+      await time.increaseTo(endTime - 60);
+      await expect(updateEncryptedBid(bidder1, 1, ethers.parseEther("1.0"))).not.to.emit(contract, "AuctionExtended");
+      expect((await contract.getAuction(1)).endTime).to.equal(endTime);
+
+      await expect(updateEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), ethers.parseEther("0.5")))
+        .to.emit(contract, "AuctionExtended")
+        .withArgs(1, endTime + 5 * 60);
     });
 
     /**
-     * @chapter: anti-patterns
-     * Test preventing duplicate bids from same bidder
+     * @chapter: access-control
+     * Test retractions need the creator's opt-in
      */
-    it("should prevent duplicate bids from same bidder", async function () {
-      // Create auction
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
-      );
+    it("should reject withdrawals unless the creator allowed them", async function () {
+      await createAuction();
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
 
-      // First bid succeeds
-      await contract.connect(bidder1).placeBid(
-        1,
-        true,
-        ethers.parseEther("1.5"),
-        "First bid",
-        { value: ethers.parseEther("1.5") }
+      await expect(contract.connect(bidder1).withdrawBid(1)).to.be.revertedWith("Bid withdrawals are not allowed");
+      await expect(contract.allowBidWithdrawals(1)).to.be.revertedWith(
+        "Bid withdrawals must be allowed before bidding"
       );
 
-      // Second bid from same bidder fails
-      await expect(
-        contract.connect(bidder1).placeBid(
-          1,
-          true,
-          ethers.parseEther("2.0"),
-          "Second bid",
-          { value: ethers.parseEther("2.0") }
-        )
-      ).to.be.revertedWith("You have already placed a bid on this auction");
+      await createAuction();
+      await expect(contract.connect(bidder1).allowBidWithdrawals(2)).to.be.revertedWith(
+        "Only creator can allow bid withdrawals"
+      );
     });
 
     /**
-     * @chapter: input-proof
-     * Test rejecting bid below minimum
+     * @chapter: advanced-patterns
+     * Test withdrawing the leader hands the lead back to the runner-up
      */
-    it("should reject bid below minimum amount", async function () {
-      // Create auction with 1 ETH minimum
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
-      );
-
-      // Try to bid 0.5 ETH (below minimum)
-      await expect(
-        contract.connect(bidder1).placeBid(
-          1,
-          true,
-          ethers.parseEther("0.5"),
-          "Low bid",
-          { value: ethers.parseEther("0.5") }
-        )
-      ).to.be.revertedWith("Bid below minimum amount");
+    it("should refund a withdrawn leader and recompute the leader", async function () {
+      await createAuction();
+      await contract.allowBidWithdrawals(1);
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.5"), "Bid 2");
+      await placeEncryptedBid(bidder3, 1, ethers.parseEther("1.8"), "Bid 3");
+
+      const tx = contract.connect(bidder2).withdrawBid(1);
+      await expect(tx).to.changeEtherBalance(bidder2, ethers.parseEther("2.5"));
+      await expect(tx).to.emit(contract, "BidWithdrawn").withArgs(1, bidder2.address, ethers.parseEther("2.5"));
+
+      expect(await contract.getAuctionBidCount(1)).to.equal(2);
+      expect(await contract.bidDeposits(1, bidder2.address)).to.equal(0);
+      expect(await decryptLeader(1)).to.equal(bidder3.address);
+
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(bidder3.address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("1.8"));
     });
 
     /**
-     * @chapter: input-proof
-     * Test rejecting bid on invalid auction
+     * @chapter: anti-patterns
+     * Test withdrawals stay within the FHE compute limits at the bid cap
      */
-    it("should reject bid on non-existent auction", async function () {
-      await expect(
-        contract.connect(bidder1).placeBid(
-          999,
-          true,
-          ethers.parseEther("1.0"),
-          "Bid",
-          { value: ethers.parseEther("1.0") }
-        )
-      ).to.be.revertedWith("Invalid auction ID");
+    it("should cap bids on auctions that allow withdrawals", async function () {
+      await createAuction(AuctionType.Vickrey);
+      await contract.allowBidWithdrawals(1);
+
+      const maxBids = Number(await contract.MAX_WITHDRAWABLE_BIDS());
+      const wallets = [];
+      for (let i = 0; i <= maxBids; i++) {
+        const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+        await owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("5.0") });
+        wallets.push(wallet);
+      }
+      // Ascending amounts: the last accepted bid leads
+      for (let i = 0; i < maxBids; i++) {
+        await placeEncryptedBid(wallets[i], 1, ethers.parseEther("1.0") + BigInt(i) * ethers.parseEther("0.1"), "Bid");
+      }
+      await expect(placeEncryptedBid(wallets[maxBids], 1, ethers.parseEther("4.0"), "One too many")).to.be.revertedWith(
+        "Too many bids"
+      );
+
+      // Withdrawing the leader rebuilds the leader from every bid
+      await contract.connect(wallets[maxBids - 1]).withdrawBid(1);
+      const auction = await settle();
+      expect(auction.highestBidder).to.equal(wallets[maxBids - 2].address);
+      expect(auction.winningBid).to.equal(ethers.parseEther("1.0") + BigInt(maxBids - 3) * ethers.parseEther("0.1"));
     });
 
     /**
      * @chapter: basic-operations
-     * Test multiple bidders on same auction
+     * Test updates need a live bid on an open auction
      */
-    it("should allow multiple bidders on same auction", async function () {
-      // Create auction
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
+    it("should reject updates without a live bid", async function () {
+      await createAuction();
+      await contract.allowBidWithdrawals(1);
+      await expect(updateEncryptedBid(bidder1, 1, ethers.parseEther("2.0"))).to.be.revertedWith(
+        "You have not placed a bid on this auction"
       );
 
-      // Multiple bids
-      await contract.connect(bidder1).placeBid(
-        1, true, ethers.parseEther("1.5"), "Bid 1",
-        { value: ethers.parseEther("1.5") }
-      );
-      await contract.connect(bidder2).placeBid(
-        1, true, ethers.parseEther("2.0"), "Bid 2",
-        { value: ethers.parseEther("2.0") }
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      await contract.connect(bidder1).withdrawBid(1);
+      await expect(updateEncryptedBid(bidder1, 1, ethers.parseEther("2.0"))).to.be.revertedWith(
+        "Bid has been withdrawn"
       );
-      await contract.connect(bidder3).placeBid(
-        1, true, ethers.parseEther("2.5"), "Bid 3",
-        { value: ethers.parseEther("2.5") }
+      await expect(placeEncryptedBid(bidder1, 1, ethers.parseEther("2.0"), "Again")).to.be.revertedWith(
+        "You have already placed a bid on this auction"
       );
 
-      const bidCount = await contract.getAuctionBidCount(1);
-      expect(bidCount).to.equal(3);
-
-      const auction = await contract.getAuction(1);
-      expect(auction.highestBidder).to.equal(bidder3.address);
+      // Every bid withdrawn: the auction ends as if it had none
+      await contract.endAuction(1);
+      expect(await contract.settlementPending(1)).to.be.false;
+      await expect(updateEncryptedBid(bidder1, 1, ethers.parseEther("2.0"))).to.be.revertedWith(
+        "Auction is not active"
+      );
     });
   });
 
-  describe("Auction Settlement", function () {
+  describe("Escrow and Refunds", function () {
     /**
-     * @chapter: access-control
-     * Test creator can end auction early
+     * @chapter: anti-patterns
+     * Contract balance must always equal the ETH it owes: every bidder
+     * deposit not yet refunded plus every creator's unclaimed proceeds
      */
-    it("should allow creator to end auction", async function () {
-      // Create auction
+    async function expectEscrowInvariant(auctionIds: number[]) {
+      let outstanding = 0n;
+      for (const auctionId of auctionIds) {
+        for (const bidder of [bidder1, bidder2, bidder3]) {
+          outstanding += await contract.bidDeposits(auctionId, bidder.address);
+        }
+        outstanding += await contract.auctionProceeds(auctionId);
+      }
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(outstanding);
+    }
+
+    async function createSettledAuction() {
       await contract.createAuction(
         "Item",
         "Description",
-        "Category",
-        ethers.parseEther("1.0")
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
-
-      // Creator ends auction
-      const tx = await contract.endAuction(1);
-      await expect(tx).to.emit(contract, "AuctionEnded");
-
-      // Verify auction is inactive
-      const auction = await contract.getAuction(1);
-      expect(auction.isActive).to.be.false;
-    });
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid 1");
+      // Winner deposits more than their encrypted bid
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid 2", ethers.parseEther("2.5"));
+      await placeEncryptedBid(bidder3, 1, ethers.parseEther("1.2"), "Bid 3");
+      await contract.endAuction(1);
+      await fhevm.awaitDecryptionOracle();
+    }
 
     /**
-     * @chapter: access-control
-     * Test non-creator cannot end active auction
+     * @chapter: basic-operations
+     * Test losing bidders withdraw their full deposit
      */
-    it("should prevent non-creator from ending active auction early", async function () {
-      // Create auction
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
+    it("should refund losing bidders after settlement", async function () {
+      await createSettledAuction();
+      await expectEscrowInvariant([1]);
+
+      const tx = await contract.connect(bidder1).withdrawRefund(1);
+      await expect(tx)
+        .to.emit(contract, "RefundWithdrawn")
+        .withArgs(1, bidder1.address, ethers.parseEther("1.5"));
+      await expect(tx).to.changeEtherBalance(bidder1, ethers.parseEther("1.5"));
+      await expectEscrowInvariant([1]);
+
+      await expect(contract.connect(bidder3).withdrawRefund(1)).to.changeEtherBalance(
+        bidder3,
+        ethers.parseEther("1.2")
       );
-
-      // Non-creator tries to end auction
-      await expect(
-        contract.connect(bidder1).endAuction(1)
-      ).to.be.revertedWith("Auction has not ended yet and you are not the creator");
+      await expectEscrowInvariant([1]);
     });
 
     /**
      * @chapter: basic-operations
-     * Test anyone can end expired auction
+     * Test the winner only gets back what they deposited above the winning bid
      */
-    it("should allow anyone to end expired auction", async function () {
-      // Create auction
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
-      );
-
-      // Get auction end time
-      const auction = await contract.getAuction(1);
-      const endTime = Number(auction.endTime);
-
-      // Fast-forward time past auction end
-      const now = Math.floor(Date.now() / 1000);
-      const timeJump = endTime - now + 1;
-
-      if (timeJump > 0) {
-        await ethers.provider.send("evm_increaseTime", [timeJump]);
-        await ethers.provider.send("evm_mine", []);
-      }
+    it("should refund the winner's excess deposit and pay the creator", async function () {
+      await createSettledAuction();
 
-      // Non-creator can now end auction
-      const tx = await contract.connect(bidder1).endAuction(1);
-      await expect(tx).to.emit(contract, "AuctionEnded");
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.changeEtherBalance(
+        bidder2,
+        ethers.parseEther("0.5")
+      );
+      await expectEscrowInvariant([1]);
+
+      const tx = await contract.claimProceeds(1);
+      await expect(tx)
+        .to.emit(contract, "ProceedsClaimed")
+        .withArgs(1, owner.address, ethers.parseEther("2.0"));
+      await expect(tx).to.changeEtherBalance(owner, ethers.parseEther("2.0"));
+      await expectEscrowInvariant([1]);
+
+      await contract.connect(bidder1).withdrawRefund(1);
+      await contract.connect(bidder3).withdrawRefund(1);
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0);
     });
 
     /**
      * @chapter: anti-patterns
-     * Test cannot end already-ended auction
+     * Test escrow is locked until the winner is revealed
      */
-    it("should prevent ending already-ended auction", async function () {
-      // Create auction
+    it("should prevent refunds before settlement", async function () {
       await contract.createAuction(
         "Item",
         "Description",
-        "Category",
-        ethers.parseEther("1.0")
+        Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
 
-      // End auction
-      await contract.endAuction(1);
+      await expect(
+        contract.connect(bidder1).withdrawRefund(1)
+      ).to.be.revertedWith("Auction is not settled");
 
-      // Try to end again
+      // Ended but the oracle has not revealed the winner yet
+      await contract.endAuction(1);
       await expect(
-        contract.endAuction(1)
-      ).to.be.revertedWith("Auction is not active");
+        contract.connect(bidder1).withdrawRefund(1)
+      ).to.be.revertedWith("Auction is not settled");
+      await expect(contract.claimProceeds(1)).to.be.revertedWith("No proceeds available");
+
+      await expectEscrowInvariant([1]);
     });
 
     /**
-     * @chapter: basic-operations
-     * Test settlement transfers funds
+     * @chapter: anti-patterns
+     * Test refunds and proceeds can only be withdrawn once, by their owner
      */
-    it("should transfer funds to creator on settlement", async function () {
-      // Create auction
-      await contract.createAuction(
-        "Item",
-        "Description",
-        "Category",
-        ethers.parseEther("1.0")
-      );
+    it("should prevent double withdrawals and foreign claims", async function () {
+      await createSettledAuction();
 
-      // Place bid
-      await contract.connect(bidder1).placeBid(
-        1,
-        true,
-        ethers.parseEther("1.5"),
-        "Bid",
-        { value: ethers.parseEther("1.5") }
-      );
+      await contract.connect(bidder1).withdrawRefund(1);
+      await expect(
+        contract.connect(bidder1).withdrawRefund(1)
+      ).to.be.revertedWith("No refund available");
 
-      // Get creator balance before
-      const balanceBefore = await ethers.provider.getBalance(owner.address);
+      // The creator never bid
+      await expect(contract.withdrawRefund(1)).to.be.revertedWith("No refund available");
 
-      // End auction
-      const endTx = await contract.endAuction(1);
-      const endReceipt = await endTx.wait();
-      const gasUsed = endReceipt!.gasUsed * endReceipt!.gasPrice;
+      await expect(
+        contract.connect(bidder1).claimProceeds(1)
+      ).to.be.revertedWith("Only creator can claim proceeds");
 
-      // Get creator balance after
-      const balanceAfter = await ethers.provider.getBalance(owner.address);
+      await contract.claimProceeds(1);
+      await expect(contract.claimProceeds(1)).to.be.revertedWith("No proceeds available");
+
+      await expectEscrowInvariant([1]);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test escrow stays separated across concurrent auctions
+     */
+    it("should keep escrow balanced across concurrent auctions", async function () {
+      await createSettledAuction();
 
-      // Creator should have received at least minimum bid
-      expect(balanceAfter).to.be.greaterThan(balanceBefore - gasUsed);
+      await contract.connect(bidder1).createAuction(
+        "Second",
+        "Description",
+        Category.General,
+        ethers.parseEther("0.5"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
+      );
+      await placeEncryptedBid(bidder2, 2, ethers.parseEther("0.8"), "Bid");
+      await placeEncryptedBid(bidder3, 2, ethers.parseEther("0.6"), "Bid");
+      await expectEscrowInvariant([1, 2]);
+
+      // Auction 1 refunds do not touch auction 2 escrow
+      await contract.connect(bidder2).withdrawRefund(1);
+      await contract.connect(bidder3).withdrawRefund(1);
+      await expectEscrowInvariant([1, 2]);
+      expect(await contract.bidDeposits(2, bidder3.address)).to.equal(ethers.parseEther("0.6"));
+
+      await contract.connect(bidder1).endAuction(2);
+      await fhevm.awaitDecryptionOracle();
+      await contract.connect(bidder1).claimProceeds(2);
+      await contract.connect(bidder3).withdrawRefund(2);
+      await expectEscrowInvariant([1, 2]);
     });
   });
 
@@ -512,8 +2391,10 @@ describe("ConfidentialAuction", function () {
      */
     it("should return active auctions", async function () {
       // Create auctions
-      await contract.createAuction("Item 1", "Desc", "Cat", ethers.parseEther("1.0"));
-      await contract.createAuction("Item 2", "Desc", "Cat", ethers.parseEther("1.0"));
+      await contract.createAuction("Item 1", "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.createAuction("Item 2", "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
 
       // Get active auctions
       const active = await contract.getActiveAuctions();
@@ -528,8 +2409,10 @@ describe("ConfidentialAuction", function () {
      */
     it("should exclude ended auctions from active list", async function () {
       // Create auctions
-      await contract.createAuction("Item 1", "Desc", "Cat", ethers.parseEther("1.0"));
-      await contract.createAuction("Item 2", "Desc", "Cat", ethers.parseEther("1.0"));
+      await contract.createAuction("Item 1", "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.createAuction("Item 2", "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
 
       // Get active count
       const activeBefore = await contract.getActiveAuctions();
@@ -553,12 +2436,24 @@ describe("ConfidentialAuction", function () {
     it("should return user's created auctions", async function () {
       // User creates auctions
       await contract.connect(bidder1).createAuction(
-        "User Item 1", "Desc", "Cat",
-        ethers.parseEther("1.0")
+        "User Item 1", "Desc", Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
       await contract.connect(bidder1).createAuction(
-        "User Item 2", "Desc", "Cat",
-        ethers.parseEther("2.0")
+        "User Item 2", "Desc", Category.General,
+        ethers.parseEther("2.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       // Get user's auctions
@@ -573,19 +2468,19 @@ describe("ConfidentialAuction", function () {
     it("should return correct bid count", async function () {
       // Create auction
       await contract.createAuction(
-        "Item", "Desc", "Cat",
-        ethers.parseEther("1.0")
+        "Item", "Desc", Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       // Place bids
-      await contract.connect(bidder1).placeBid(
-        1, true, ethers.parseEther("1.5"), "Bid",
-        { value: ethers.parseEther("1.5") }
-      );
-      await contract.connect(bidder2).placeBid(
-        1, true, ethers.parseEther("2.0"), "Bid",
-        { value: ethers.parseEther("2.0") }
-      );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "Bid");
 
       // Check bid count
       const bidCount = await contract.getAuctionBidCount(1);
@@ -599,15 +2494,18 @@ describe("ConfidentialAuction", function () {
     it("should correctly identify bidders", async function () {
       // Create auction
       await contract.createAuction(
-        "Item", "Desc", "Cat",
-        ethers.parseEther("1.0")
+        "Item", "Desc", Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       // Place bid
-      await contract.connect(bidder1).placeBid(
-        1, true, ethers.parseEther("1.5"), "Bid",
-        { value: ethers.parseEther("1.5") }
-      );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Bid");
 
       // Check bidders
       expect(await contract.hasPlacedBid(bidder1.address, 1)).to.be.true;
@@ -620,9 +2518,12 @@ describe("ConfidentialAuction", function () {
      */
     it("should return accurate total counts", async function () {
       // Create auctions
-      await contract.createAuction("Item 1", "Desc", "Cat", ethers.parseEther("1.0"));
-      await contract.createAuction("Item 2", "Desc", "Cat", ethers.parseEther("1.0"));
-      await contract.createAuction("Item 3", "Desc", "Cat", ethers.parseEther("1.0"));
+      await contract.createAuction("Item 1", "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.createAuction("Item 2", "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.createAuction("Item 3", "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
 
       // Get counts
       const [total, active] = await contract.getTotalCounts();
@@ -638,6 +2539,115 @@ describe("ConfidentialAuction", function () {
       expect(totalAfter).to.equal(3);
       expect(activeAfter).to.equal(2);
     });
+
+    /**
+     * @chapter: basic-operations
+     * Test the active set stays correct when auctions end out of order
+     */
+    it("should maintain the active set as auctions end", async function () {
+      for (const title of ["Item 1", "Item 2", "Item 3", "Item 4"]) {
+        await contract.createAuction(title, "Desc", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE, NO_PROOF,
+AuctionType.FirstPrice, NO_START_PRICE);
+      }
+
+      await contract.endAuction(2);
+      await contract.endAuction(4);
+      await contract.endAuction(1);
+
+      const active = await contract.getActiveAuctions();
+      expect(active.map((a: any) => a.title)).to.deep.equal(["Item 3"]);
+      expect((await contract.getTotalCounts())[1]).to.equal(1);
+
+      // Past endTime but not yet ended: still in the set, but not active
+      await time.increase(7 * 24 * 60 * 60);
+      expect(await contract.getActiveAuctions()).to.have.length(0);
+      await contract.endAuction(3);
+      expect((await contract.getTotalCounts())[1]).to.equal(0);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test cursor pagination returns summaries in ID order
+     */
+    it("should page through auctions with a cursor", async function () {
+      for (const title of ["Item 1", "Item 2", "Item 3", "Item 4", "Item 5"]) {
+        await contract.createAuction(title, "A long description", Category.General, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION,
+NO_RESERVE, NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE);
+      }
+      const anyFilter = { status: StatusFilter.Any, categoryId: 0, creator: ethers.ZeroAddress };
+
+      const [first, afterFirst] = await contract.getAuctions(0, 2, anyFilter);
+      expect(first.map((a: any) => a.id)).to.deep.equal([1n, 2n]);
+      expect(first[0].title).to.equal("Item 1");
+      expect(first[0]).to.not.have.property("description");
+      expect(afterFirst).to.equal(2);
+
+      const [second, afterSecond] = await contract.getAuctions(afterFirst, 2, anyFilter);
+      expect(second.map((a: any) => a.id)).to.deep.equal([3n, 4n]);
+
+      const [last, afterLast] = await contract.getAuctions(afterSecond, 2, anyFilter);
+      expect(last.map((a: any) => a.id)).to.deep.equal([5n]);
+      expect(afterLast).to.equal(0);
+
+      await expect(contract.getAuctions(0, 0, anyFilter)).to.be.revertedWith("Invalid page size");
+      await expect(contract.getAuctions(0, 101, anyFilter)).to.be.revertedWith("Invalid page size");
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test status, category and creator filters
+     */
+    it("should filter auctions by status, category and creator", async function () {
+      await contract.createAuction("Watch", "Desc", Category.Watches, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE,
+NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.connect(bidder1).createAuction("Painting", "Desc", Category.Art, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION,
+NO_RESERVE, NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.connect(bidder1).createAuction("Clock", "Desc", Category.Watches, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION,
+NO_RESERVE, NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE);
+      await contract.endAuction(1);
+
+      const ids = async (filter: any) => {
+        const [page] = await contract.getAuctions(0, 10, { status: StatusFilter.Any, categoryId: 0, creator: ethers.ZeroAddress, ...filter });
+        return page.map((a: any) => a.id);
+      };
+
+      expect(await ids({ categoryId: Category.Watches })).to.deep.equal([1n, 3n]);
+      expect(await ids({ creator: bidder1.address })).to.deep.equal([2n, 3n]);
+      expect(await ids({ status: StatusFilter.Active })).to.deep.equal([2n, 3n]);
+      expect(await ids({ status: StatusFilter.Ended })).to.deep.equal([1n]);
+      expect(await ids({ status: StatusFilter.Active, categoryId: Category.Watches, creator: bidder1.address })).to.deep.equal([3n]);
+      expect(await ids({ categoryId: Category.General })).to.deep.equal([]);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test per-category listings and active counters
+     */
+    it("should list auctions and count active ones per category", async function () {
+      for (const categoryId of [Category.Watches, Category.Art, Category.Watches, Category.Watches]) {
+        await contract.createAuction("Item", "Desc", categoryId, ethers.parseEther("1.0"), NOW, DEFAULT_DURATION, NO_RESERVE,
+NO_PROOF, AuctionType.FirstPrice, NO_START_PRICE);
+      }
+      expect(await contract.activeAuctionsByCategory(Category.Watches)).to.equal(3);
+      expect(await contract.activeAuctionsByCategory(Category.Art)).to.equal(1);
+
+      await contract.endAuction(3);
+      expect(await contract.activeAuctionsByCategory(Category.Watches)).to.equal(2);
+      expect(await contract.activeAuctionsByCategory(Category.General)).to.equal(0);
+
+      const [first, next] = await contract.getAuctionsByCategory(Category.Watches, 0, 2);
+      expect(first.map((a: any) => a.id)).to.deep.equal([1n, 3n]);
+      expect(first[1].isActive).to.be.false;
+      expect(next).to.equal(2);
+
+      const [last, afterLast] = await contract.getAuctionsByCategory(Category.Watches, next, 2);
+      expect(last.map((a: any) => a.id)).to.deep.equal([4n]);
+      expect(afterLast).to.equal(0);
+
+      const [none] = await contract.getAuctionsByCategory(Category.General, 0, 10);
+      expect(none).to.deep.equal([]);
+      await expect(contract.getAuctionsByCategory(Category.Watches, 0, 0)).to.be.revertedWith("Invalid page size");
+    });
   });
 
   describe("End-to-End Workflow", function () {
@@ -650,31 +2660,28 @@ describe("ConfidentialAuction", function () {
       await contract.createAuction(
         "Vintage Watch",
         "Beautiful 1950s Rolex",
-        "Watches",
-        ethers.parseEther("1.0")
+        Category.Watches,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       // 2. Bidders place encrypted bids
-      await contract.connect(bidder1).placeBid(
-        1, true, ethers.parseEther("1.5"), "Great item!",
-        { value: ethers.parseEther("1.5") }
-      );
+      await placeEncryptedBid(bidder1, 1, ethers.parseEther("1.5"), "Great item!");
 
-      await contract.connect(bidder2).placeBid(
-        1, true, ethers.parseEther("2.0"), "I want this",
-        { value: ethers.parseEther("2.0") }
-      );
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("2.0"), "I want this");
 
-      await contract.connect(bidder3).placeBid(
-        1, true, ethers.parseEther("2.5"), "Best offer",
-        { value: ethers.parseEther("2.5") }
-      );
+      await placeEncryptedBid(bidder3, 1, ethers.parseEther("2.5"), "Best offer");
 
       // 3. Verify auction state
       let auction = await contract.getAuction(1);
       expect(auction.bidCount).to.equal(3);
       expect(auction.isActive).to.be.true;
-      expect(auction.highestBidder).to.equal(bidder3.address);
+      expect(await decryptLeader(1)).to.equal(bidder3.address);
 
       // 4. Creator ends auction
       await contract.endAuction(1);
@@ -682,7 +2689,7 @@ describe("ConfidentialAuction", function () {
       // 5. Verify final state
       auction = await contract.getAuction(1);
       expect(auction.isActive).to.be.false;
-      expect(auction.highestBidder).to.equal(bidder3.address);
+      expect(await decryptLeader(1)).to.equal(bidder3.address);
     });
 
     /**
@@ -692,25 +2699,31 @@ describe("ConfidentialAuction", function () {
     it("should handle multiple concurrent auctions independently", async function () {
       // Create auctions from different creators
       await contract.connect(owner).createAuction(
-        "Item A", "Desc A", "Cat A",
-        ethers.parseEther("1.0")
+        "Item A", "Desc A", Category.General,
+        ethers.parseEther("1.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       await contract.connect(bidder1).createAuction(
-        "Item B", "Desc B", "Cat B",
-        ethers.parseEther("2.0")
+        "Item B", "Desc B", Category.General,
+        ethers.parseEther("2.0"),
+        NOW,
+        DEFAULT_DURATION,
+        NO_RESERVE,
+        NO_PROOF,
+        AuctionType.FirstPrice,
+        NO_START_PRICE
       );
 
       // Place bids on both
-      await contract.connect(bidder2).placeBid(
-        1, true, ethers.parseEther("1.5"), "Bid A",
-        { value: ethers.parseEther("1.5") }
-      );
+      await placeEncryptedBid(bidder2, 1, ethers.parseEther("1.5"), "Bid A");
 
-      await contract.connect(owner).placeBid(
-        2, true, ethers.parseEther("2.5"), "Bid B",
-        { value: ethers.parseEther("2.5") }
-      );
+      await placeEncryptedBid(owner, 2, ethers.parseEther("2.5"), "Bid B");
 
       // Verify independence
       const auction1 = await contract.getAuction(1);
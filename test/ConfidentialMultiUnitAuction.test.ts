@@ -0,0 +1,524 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { encryptMultiUnitBid, InvalidAuctionParamsError, MultiUnitAuctionClient } from "../sdk";
+
+/**
+ * @chapter advanced-patterns
+ * Test suite for the multi-unit uniform-price auction
+ * Clearing price and allocations are computed over encrypted bids
+ */
+describe("ConfidentialMultiUnitAuction", function () {
+  let contract: any;
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+  let bidder3: any;
+  let moderator: any;
+  let keeper: any;
+  let governance: any;
+
+  // createAuction scheduling arguments: open now for the default 7 days
+  const NOW = 0;
+  const DEFAULT_DURATION = 0;
+
+  const UNITS = 10;
+  const MIN_PRICE = 100n;
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder1, bidder2, bidder3, moderator, keeper] = await ethers.getSigners();
+
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    governance = await Governance.deploy();
+    await governance.waitForDeployment();
+    await governance.grantRole(await governance.MODERATOR_ROLE(), moderator.address);
+    await governance.grantRole(await governance.KEEPER_ROLE(), keeper.address);
+
+    const Factory = await ethers.getContractFactory("ConfidentialMultiUnitAuction");
+    contract = await Factory.deploy(await governance.getAddress());
+    await contract.waitForDeployment();
+  });
+
+  /**
+   * @chapter: encryption
+   * Encrypt quantity and unit price together and place the bid, escrowing
+   * quantity × unit price unless another deposit is given
+   */
+  async function placeEncryptedBid(
+    bidder: any,
+    auctionId: number,
+    quantity: bigint,
+    unitPrice: bigint,
+    value: bigint = quantity * unitPrice
+  ) {
+    const { quantityHandle, unitPriceHandle, inputProof } = await encryptMultiUnitBid(
+      fhevm,
+      await contract.getAddress(),
+      bidder.address,
+      quantity,
+      unitPrice
+    );
+    return contract.connect(bidder).placeBid(auctionId, quantityHandle, unitPriceHandle, inputProof, { value });
+  }
+
+  /**
+   * @chapter: decryption
+   * Decrypt a bidder's allocation with their own key (ACL enforced)
+   */
+  async function decryptAllocation(bidder: any, auctionId: number): Promise<bigint> {
+    const handle = await contract.getAllocation(auctionId, bidder.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, await contract.getAddress(), bidder);
+  }
+
+  async function createLot(units: number = UNITS) {
+    await contract.createAuction("Carbon Credits", "Vintage 2025", "Commodities", units, MIN_PRICE, NOW, DEFAULT_DURATION);
+  }
+
+  async function settle() {
+    await contract.endAuction(1);
+    await fhevm.awaitDecryptionOracle();
+    return contract.getAuction(1);
+  }
+
+  /**
+   * @chapter: decryption
+   * Decrypt what each bidder owes and return the payments
+   */
+  async function settleBids(...bidders: any[]): Promise<bigint[]> {
+    for (const bidder of bidders) {
+      await contract.connect(bidder).settleBid(1);
+    }
+    await fhevm.awaitDecryptionOracle();
+    const events = await contract.queryFilter(contract.filters.BidSettled(1));
+    return bidders.map((bidder) => events.find((event: any) => event.args.bidder === bidder.address)!.args.payment);
+  }
+
+  describe("Auction Creation", function () {
+    /**
+     * @chapter: basic-operations
+     * Test listing a lot of identical units
+     */
+    it("should create a multi-unit auction", async function () {
+      await expect(createLot()).to.not.be.reverted;
+
+      const auction = await contract.getAuction(1);
+      expect(auction.units).to.equal(UNITS);
+      expect(auction.minimumPrice).to.equal(MIN_PRICE);
+      expect(auction.isActive).to.be.true;
+      expect(auction.clearingPrice).to.equal(0);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test a lot must contain at least one unit
+     */
+    it("should reject an empty lot", async function () {
+      await expect(
+        contract.createAuction("Item", "Description", "Category", 0, MIN_PRICE, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWith("Units must be greater than 0");
+    });
+  });
+
+  describe("Bidding", function () {
+    /**
+     * @chapter: encryption
+     * Test quantity and unit price are stored encrypted
+     */
+    it("should accept an encrypted quantity and unit price", async function () {
+      await createLot();
+      await expect(placeEncryptedBid(bidder1, 1, 4n, 150n)).to.emit(contract, "BidPlaced");
+
+      const bid = await contract.auctionBids(1, 0);
+      const address = await contract.getAddress();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, bid.quantity, address, bidder1)).to.equal(4n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, bid.unitPrice, address, bidder1)).to.equal(150n);
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test duplicate and self bids are rejected
+     */
+    it("should reject duplicate and self bids", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 1n, 150n);
+
+      await expect(placeEncryptedBid(bidder1, 1, 1n, 150n)).to.be.revertedWith(
+        "You have already placed a bid on this auction"
+      );
+      await expect(placeEncryptedBid(owner, 1, 1n, 150n)).to.be.revertedWith("Cannot bid on your own auction");
+    });
+
+    /**
+     * @chapter: encryption
+     * Test bids below the floor are voided instead of reverting
+     */
+    it("should void bids below the minimum price without reverting", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 5n, 50n);
+
+      const bid = await contract.auctionBids(1, 0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, bid.quantity, await contract.getAddress(), bidder1)).to.equal(
+        0n
+      );
+    });
+  });
+
+  describe("Uniform-Price Clearing", function () {
+    /**
+     * @chapter: advanced-patterns
+     * Test the clearing price is the K-th highest unit price
+     */
+    it("should clear at the K-th highest unit price", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 4n, 300n);
+      await placeEncryptedBid(bidder2, 1, 5n, 200n);
+      await placeEncryptedBid(bidder3, 1, 6n, 150n);
+
+      // Units ranked by price: 4 @ 300, 5 @ 200, then the 10th unit @ 150
+      const auction = await settle();
+      expect(auction.clearingPrice).to.equal(150n);
+      expect(await contract.queryFilter(contract.filters.AuctionEnded(1))).to.have.length(1);
+
+      expect(await decryptAllocation(bidder1, 1)).to.equal(4n);
+      expect(await decryptAllocation(bidder2, 1)).to.equal(5n);
+      expect(await decryptAllocation(bidder3, 1)).to.equal(1n);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test bids tied at the clearing price share the remainder in bid order
+     */
+    it("should fill ties at the clearing price in bid order", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 6n, 250n);
+      await placeEncryptedBid(bidder2, 1, 3n, 120n);
+      await placeEncryptedBid(bidder3, 1, 3n, 120n);
+
+      const auction = await settle();
+      expect(auction.clearingPrice).to.equal(120n);
+      expect(await decryptAllocation(bidder1, 1)).to.equal(6n);
+      expect(await decryptAllocation(bidder2, 1)).to.equal(3n);
+      expect(await decryptAllocation(bidder3, 1)).to.equal(1n);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test an undersubscribed lot clears at the floor and fills everyone
+     */
+    it("should clear at the minimum price when demand is below supply", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 3n, 400n);
+      await placeEncryptedBid(bidder2, 1, 2n, 90n);
+      await placeEncryptedBid(bidder3, 1, 4n, 180n);
+
+      const auction = await settle();
+      expect(auction.clearingPrice).to.equal(MIN_PRICE);
+      expect(await decryptAllocation(bidder1, 1)).to.equal(3n);
+      expect(await decryptAllocation(bidder2, 1)).to.equal(0n);
+      expect(await decryptAllocation(bidder3, 1)).to.equal(4n);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test a quantity above the lot size is capped at the lot size
+     */
+    it("should cap quantities at the lot size", async function () {
+      await createLot(3);
+      await placeEncryptedBid(bidder1, 1, 100n, 500n);
+      await placeEncryptedBid(bidder2, 1, 2n, 200n);
+
+      const auction = await settle();
+      expect(auction.clearingPrice).to.equal(500n);
+      expect(await decryptAllocation(bidder1, 1)).to.equal(3n);
+      expect(await decryptAllocation(bidder2, 1)).to.equal(0n);
+    });
+  });
+
+  describe("Escrow and Payment", function () {
+    /**
+     * @chapter: basic-operations
+     * Test the deposit must at least cover one unit at the floor
+     */
+    it("should reject deposits below the minimum price", async function () {
+      await createLot();
+      await expect(placeEncryptedBid(bidder1, 1, 1n, 150n, MIN_PRICE - 1n)).to.be.revertedWith(
+        "Bid below minimum amount"
+      );
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test winners pay allocation × clearing price and get the rest back
+     */
+    it("should charge each winner the clearing price per unit won", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 4n, 300n);
+      await placeEncryptedBid(bidder2, 1, 5n, 200n);
+      await placeEncryptedBid(bidder3, 1, 6n, 150n);
+      const auction = await settle();
+
+      // The creator is paid from the revealed total before any bid settles
+      expect(auction.unitsSold).to.equal(UNITS);
+      expect(await contract.auctionProceeds(1)).to.equal(1500n);
+      await expect(contract.claimProceeds(1)).to.changeEtherBalance(owner, 1500n);
+
+      expect(await settleBids(bidder1, bidder2, bidder3)).to.deep.equal([600n, 750n, 150n]);
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(bidder1, 600n);
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.changeEtherBalance(bidder2, 250n);
+      await expect(contract.connect(bidder3).withdrawRefund(1)).to.changeEtherBalance(bidder3, 750n);
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test an undersubscribed lot charges the floor for every unit won
+     */
+    it("should charge the minimum price when demand is below supply", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 3n, 400n);
+      await placeEncryptedBid(bidder2, 1, 4n, 180n);
+      const auction = await settle();
+      expect(auction.unitsSold).to.equal(7n);
+      expect(await contract.auctionProceeds(1)).to.equal(7n * MIN_PRICE);
+
+      expect(await settleBids(bidder1, bidder2)).to.deep.equal([3n * MIN_PRICE, 4n * MIN_PRICE]);
+      expect(await contract.bidDeposits(1, bidder1.address)).to.equal(1200n - 300n);
+      expect(await contract.bidDeposits(1, bidder2.address)).to.equal(720n - 400n);
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test a bid its deposit cannot cover is voided and wins nothing
+     */
+    it("should void a bid the deposit does not cover", async function () {
+      await createLot(3);
+      // 3 units at 500 each backed by only 600
+      await placeEncryptedBid(bidder1, 1, 3n, 500n, 600n);
+      await placeEncryptedBid(bidder2, 1, 3n, 200n);
+
+      const auction = await settle();
+      expect(auction.clearingPrice).to.equal(200n);
+      expect(auction.unitsSold).to.equal(3n);
+      expect(await decryptAllocation(bidder1, 1)).to.equal(0n);
+      expect(await decryptAllocation(bidder2, 1)).to.equal(3n);
+
+      expect(await settleBids(bidder1, bidder2)).to.deep.equal([0n, 600n]);
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(bidder1, 600n);
+    });
+
+    /**
+     * @chapter: anti-patterns
+     * Test refunds wait for the bid's payment to be settled, once
+     */
+    it("should only refund settled bids", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 2n, 300n);
+
+      await expect(contract.connect(bidder1).settleBid(1)).to.be.revertedWith("Auction is not settled");
+      await settle();
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.be.revertedWith("Bid is not settled");
+      // Only the bidder can reveal what they won
+      await expect(contract.settleBid(1)).to.be.revertedWith("No bid to settle");
+      await expect(contract.connect(bidder2).settleBid(1)).to.be.revertedWith("No bid to settle");
+
+      await settleBids(bidder1);
+      await expect(contract.connect(bidder1).settleBid(1)).to.be.revertedWith("Bid already settled");
+      await contract.connect(bidder1).withdrawRefund(1);
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.be.revertedWith("No refund available");
+      await expect(contract.connect(bidder1).claimProceeds(1)).to.be.revertedWith("Only creator can claim proceeds");
+    });
+  });
+
+  describe("Confidentiality", function () {
+    /**
+     * @chapter: access-control
+     * Test allocations are decryptable only by their own bidder
+     */
+    it("should only let each bidder decrypt their own allocation", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 4n, 300n);
+      await placeEncryptedBid(bidder2, 1, 8n, 200n);
+      await settle();
+
+      const handle = await contract.getAllocation(1, bidder1.address);
+      const address = await contract.getAddress();
+      for (const signer of [owner, bidder2]) {
+        let decrypted = true;
+        try {
+          await fhevm.userDecryptEuint(FhevmType.euint64, handle, address, signer);
+        } catch {
+          decrypted = false;
+        }
+        expect(decrypted).to.be.false;
+      }
+      expect(await decryptAllocation(bidder1, 1)).to.equal(4n);
+    });
+
+    /**
+     * @chapter: decryption
+     * Test settlement waits for the oracle and reveals only the price and
+     * the units sold
+     */
+    it("should keep settlement pending until the oracle reveals the price", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 2n, 300n);
+
+      await expect(contract.endAuction(1)).to.emit(contract, "SettlementRequested");
+      expect(await contract.settlementPending(1)).to.be.true;
+      expect((await contract.getAuction(1)).clearingPrice).to.equal(0);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.settlementPending(1)).to.be.false;
+      expect((await contract.getAuction(1)).clearingPrice).to.equal(MIN_PRICE);
+      expect((await contract.getAuction(1)).unitsSold).to.equal(2n);
+      expect(await contract.bidSettled(1, bidder1.address)).to.be.false;
+    });
+
+    /**
+     * @chapter: decryption
+     * Test the creator or a keeper can re-request a dropped settlement
+     * decryption, and only while one is pending
+     */
+    it("should let the creator or a keeper retry a pending settlement", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 4n, 300n);
+      await placeEncryptedBid(bidder2, 1, 8n, 200n);
+
+      await expect(contract.retrySettlement(1)).to.be.revertedWith("No pending settlement");
+      await contract.endAuction(1);
+
+      await expect(contract.connect(bidder1).retrySettlement(1)).to.be.revertedWith(
+        "Only creator or keeper can retry settlement"
+      );
+      await expect(contract.connect(moderator).retrySettlement(1)).to.be.revertedWith(
+        "Only creator or keeper can retry settlement"
+      );
+      await expect(contract.retrySettlement(1)).to.emit(contract, "SettlementRequested");
+      await expect(contract.connect(keeper).retrySettlement(1)).to.emit(contract, "SettlementRequested");
+
+      // The mock oracle answers all three requests: the first settles, the
+      // others find nothing pending and revert
+      try {
+        await fhevm.awaitDecryptionOracle();
+        expect.fail("expected the second callback to revert");
+      } catch (error) {
+        expect((error as Error).message).to.contain("No pending settlement");
+      }
+      const auction = await contract.getAuction(1);
+      expect(auction.clearingPrice).to.equal(200n);
+      expect(auction.unitsSold).to.equal(UNITS);
+      expect(await contract.auctionProceeds(1)).to.equal(2000n);
+      expect(await contract.queryFilter(contract.filters.AuctionEnded(1))).to.have.length(1);
+    });
+  });
+
+  describe("Governance", function () {
+    /**
+     * @chapter: access-control
+     * Test pausing governance stops new auctions and bids
+     */
+    it("should reject auctions and bids while paused", async function () {
+      await createLot();
+      await governance.pause();
+
+      await expect(createLot()).to.be.revertedWith("Auctions are paused");
+      await expect(placeEncryptedBid(bidder1, 1, 2n, 300n)).to.be.revertedWith("Auctions are paused");
+
+      await governance.unpause();
+      await placeEncryptedBid(bidder1, 1, 2n, 300n);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test a moderator cancels a listing and every bidder gets their full
+     * deposit back without settling their bid
+     */
+    it("should let a moderator cancel a listing with full refunds", async function () {
+      await createLot();
+      await placeEncryptedBid(bidder1, 1, 4n, 300n);
+      await placeEncryptedBid(bidder2, 1, 8n, 200n);
+
+      await expect(contract.cancelListing(1)).to.be.revertedWith("Only moderator can cancel listings");
+      await expect(contract.connect(keeper).cancelListing(1)).to.be.revertedWith("Only moderator can cancel listings");
+
+      // Cancelling while settlement is pending voids the oracle's answer
+      await contract.endAuction(1);
+      await expect(contract.connect(moderator).cancelListing(1))
+        .to.emit(contract, "AuctionCancelled")
+        .withArgs(1, moderator.address);
+      expect(await contract.cancelled(1)).to.be.true;
+      try {
+        await fhevm.awaitDecryptionOracle();
+        expect.fail("expected the callback to revert");
+      } catch (error) {
+        expect((error as Error).message).to.contain("No pending settlement");
+      }
+      await expect(contract.connect(moderator).cancelListing(1)).to.be.revertedWith("Auction is already settled");
+      await expect(contract.connect(bidder1).settleBid(1)).to.be.revertedWith("Auction is cancelled");
+
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.changeEtherBalance(bidder1, 1200n);
+      await expect(contract.connect(bidder2).withdrawRefund(1)).to.changeEtherBalance(bidder2, 1600n);
+      await expect(contract.claimProceeds(1)).to.be.revertedWith("No proceeds available");
+      expect(await ethers.provider.getBalance(await contract.getAddress())).to.equal(0);
+    });
+  });
+
+  describe("MultiUnitAuctionClient", function () {
+    /**
+     * @chapter: sdk
+     * Test the client creates, bids and exposes the allocation handle
+     */
+    it("should run a multi-unit auction through the client", async function () {
+      const address = await contract.getAddress();
+      const client = new MultiUnitAuctionClient(address, owner, { fhevm });
+      const auctionId = await client.createAuction({
+        title: "Carbon Credits",
+        description: "Vintage 2025",
+        category: "Commodities",
+        units: 5,
+        minimumPrice: MIN_PRICE,
+      });
+
+      const bidderClient = new MultiUnitAuctionClient(address, bidder1, { fhevm });
+      await bidderClient.placeBid({ auctionId, quantity: 5n, unitPrice: 140n });
+      await new MultiUnitAuctionClient(address, bidder2, { fhevm }).placeBid({ auctionId, quantity: 2n, unitPrice: 160n });
+
+      await client.endAuction(auctionId);
+      expect(await client.isSettlementPending(auctionId)).to.be.true;
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await client.getAuction(auctionId)).to.include({ clearingPrice: 140n, unitsSold: 5n });
+      const handle = await bidderClient.getAllocationHandle(auctionId, bidder1.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, address, bidder1)).to.equal(3n);
+
+      // 3 units at 140 out of a 700 deposit
+      await bidderClient.settleBid(auctionId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await client.isBidSettled(auctionId, bidder1.address)).to.be.true;
+      expect(await bidderClient.getDeposit(auctionId, bidder1.address)).to.equal(280n);
+      await bidderClient.withdrawRefund(auctionId);
+      await client.claimProceeds(auctionId);
+    });
+
+    /**
+     * @chapter: sdk
+     * Test revert strings map to typed errors
+     */
+    it("should raise InvalidAuctionParamsError for an empty lot", async function () {
+      const client = new MultiUnitAuctionClient(await contract.getAddress(), owner);
+      try {
+        await client.createAuction({
+          title: "Item",
+          description: "Description",
+          category: "Category",
+          units: 0,
+          minimumPrice: MIN_PRICE,
+        });
+        expect.fail("expected createAuction to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(InvalidAuctionParamsError);
+      }
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { encryptBidAmount, encryptTokenAmount, TokenAuctionClient } from "../sdk";
+
+/**
+ * @chapter advanced-patterns
+ * End-to-end tests for auctions paid in a ConfidentialERC20
+ * Deploys the token and the auction together; escrow, payment and refunds
+ * all happen on encrypted token balances
+ */
+describe("ConfidentialTokenAuction", function () {
+  let token: any;
+  let contract: any;
+  let tokenAddress: string;
+  let auctionAddress: string;
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+  let bidder3: any;
+  let moderator: any;
+  let governance: any;
+
+  // createAuction scheduling arguments: open now for the default 7 days
+  const NOW = 0;
+  const DEFAULT_DURATION = 0;
+
+  const INITIAL_BALANCE = 1000n;
+  const MINIMUM_BID = 100n;
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder1, bidder2, bidder3, moderator] = await ethers.getSigners();
+
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    governance = await Governance.deploy();
+    await governance.waitForDeployment();
+    await governance.grantRole(await governance.MODERATOR_ROLE(), moderator.address);
+
+    const Token = await ethers.getContractFactory("ConfidentialERC20");
+    token = await Token.deploy("Confidential USD", "cUSD", 6);
+    await token.waitForDeployment();
+    tokenAddress = await token.getAddress();
+
+    const Auction = await ethers.getContractFactory("ConfidentialTokenAuction");
+    contract = await Auction.deploy(await governance.getAddress());
+    await contract.waitForDeployment();
+    auctionAddress = await contract.getAddress();
+
+    for (const bidder of [bidder1, bidder2, bidder3]) {
+      await token.mint(bidder.address, INITIAL_BALANCE);
+    }
+  });
+
+  function createAuction() {
+    return contract.createAuction("Item", "Description", "Category", tokenAddress, MINIMUM_BID, NOW, DEFAULT_DURATION);
+  }
+
+  /**
+   * @chapter: encryption
+   * Approve the auction on the token, then place the encrypted bid
+   */
+  async function placeTokenBid(bidder: any, auctionId: number, amount: bigint, allowance: bigint = amount) {
+    const approval = await encryptTokenAmount(fhevm, tokenAddress, bidder.address, allowance);
+    await token.connect(bidder).approve(auctionAddress, approval.handle, approval.inputProof);
+
+    const bid = await encryptBidAmount(fhevm, auctionAddress, bidder.address, amount);
+    return contract.connect(bidder).placeBid(auctionId, bid.handle, bid.inputProof);
+  }
+
+  /**
+   * @chapter: decryption
+   * Decrypt a token balance with the holder's own key
+   */
+  async function balanceOf(signer: any): Promise<bigint> {
+    const handle = await token.balanceOf(signer.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, signer);
+  }
+
+  async function escrowOf(signer: any, auctionId: number): Promise<bigint> {
+    const handle = await contract.getEscrow(auctionId, signer.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, auctionAddress, signer);
+  }
+
+  describe("Escrow", function () {
+    /**
+     * @chapter: basic-operations
+     * Test the auction records its payment token
+     */
+    it("should create an auction denominated in the token", async function () {
+      await expect(createAuction()).to.emit(contract, "AuctionCreated");
+
+      const auction = await contract.getAuction(1);
+      expect(auction.paymentToken).to.equal(tokenAddress);
+      expect(auction.minimumBid).to.equal(MINIMUM_BID);
+      await expect(
+        contract.createAuction("Item", "Description", "Category", ethers.ZeroAddress, MINIMUM_BID, NOW, DEFAULT_DURATION)
+      ).to.be.revertedWith("Payment token cannot be zero");
+    });
+
+    /**
+     * @chapter: encryption
+     * Test a bid moves the encrypted amount into escrow via transferFrom
+     */
+    it("should escrow the bid amount in tokens", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, 300n);
+
+      expect(await escrowOf(bidder1, 1)).to.equal(300n);
+      expect(await balanceOf(bidder1)).to.equal(INITIAL_BALANCE - 300n);
+    });
+
+    /**
+     * @chapter: encryption
+     * Test an uncovered bid escrows nothing instead of reverting
+     */
+    it("should escrow zero when the allowance does not cover the bid", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, 500n, 200n);
+
+      expect(await escrowOf(bidder1, 1)).to.equal(0n);
+      expect(await balanceOf(bidder1)).to.equal(INITIAL_BALANCE);
+    });
+
+    /**
+     * @chapter: encryption
+     * Test a bid below the minimum escrows nothing
+     */
+    it("should escrow zero for a bid below the minimum", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, MINIMUM_BID - 1n);
+
+      expect(await escrowOf(bidder1, 1)).to.equal(0n);
+      expect(await balanceOf(bidder1)).to.equal(INITIAL_BALANCE);
+    });
+  });
+
+  describe("Settlement", function () {
+    /**
+     * @chapter: advanced-patterns
+     * Test the creator is paid the winning bid and losers are refunded
+     */
+    it("should pay the creator and refund the losers homomorphically", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, 300n);
+      await placeTokenBid(bidder2, 1, 450n);
+      await placeTokenBid(bidder3, 1, 200n);
+
+      await expect(contract.endAuction(1)).to.emit(contract, "AuctionEnded").withArgs(1);
+      expect(await balanceOf(owner)).to.equal(450n);
+
+      for (const bidder of [bidder1, bidder2, bidder3]) {
+        await expect(contract.connect(bidder).withdrawRefund(1))
+          .to.emit(contract, "RefundWithdrawn")
+          .withArgs(1, bidder.address);
+      }
+
+      expect(await balanceOf(bidder1)).to.equal(INITIAL_BALANCE);
+      expect(await balanceOf(bidder2)).to.equal(INITIAL_BALANCE - 450n);
+      expect(await balanceOf(bidder3)).to.equal(INITIAL_BALANCE);
+    });
+
+    /**
+     * @chapter: advanced-patterns
+     * Test an uncovered bid cannot win even if its claimed amount is highest
+     */
+    it("should ignore a higher bid that was not escrowed", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, 300n);
+      await placeTokenBid(bidder2, 1, 900n, 100n);
+
+      await contract.endAuction(1);
+      expect(await balanceOf(owner)).to.equal(300n);
+
+      await contract.connect(bidder2).withdrawRefund(1);
+      expect(await balanceOf(bidder2)).to.equal(INITIAL_BALANCE);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test only the creator can decrypt the winner and the winning bid
+     */
+    it("should let only the creator decrypt the result", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, 300n);
+      await placeTokenBid(bidder2, 1, 250n);
+      await contract.endAuction(1);
+
+      const auction = await contract.getAuction(1);
+      expect(
+        await fhevm.userDecryptEaddress(auction.encryptedHighestBidder, auctionAddress, owner)
+      ).to.equal(bidder1.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, auction.highestBidAmount, auctionAddress, owner)
+      ).to.equal(300n);
+
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint64, auction.highestBidAmount, auctionAddress, bidder2);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+
+    /**
+     * @chapter: basic-operations
+     * Test refunds only after the auction ends, and only once
+     */
+    it("should guard refund withdrawals", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, 300n);
+
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.be.revertedWith("Auction is not settled");
+
+      await contract.endAuction(1);
+      await expect(contract.connect(bidder3).withdrawRefund(1)).to.be.revertedWith("No refund available");
+      await contract.connect(bidder1).withdrawRefund(1);
+      await expect(contract.connect(bidder1).withdrawRefund(1)).to.be.revertedWith("Refund already claimed");
+    });
+  });
+
+  describe("Governance", function () {
+    /**
+     * @chapter: access-control
+     * Test pausing governance stops new auctions and bids
+     */
+    it("should reject auctions and bids while paused", async function () {
+      await createAuction();
+      await governance.pause();
+
+      await expect(createAuction()).to.be.revertedWith("Auctions are paused");
+      await expect(placeTokenBid(bidder1, 1, 300n)).to.be.revertedWith("Auctions are paused");
+
+      await governance.unpause();
+      await placeTokenBid(bidder1, 1, 300n);
+      expect(await escrowOf(bidder1, 1)).to.equal(300n);
+    });
+
+    /**
+     * @chapter: access-control
+     * Test a moderator cancels a listing and every bidder, including the
+     * leader, gets their whole escrow back
+     */
+    it("should let a moderator cancel a listing with full refunds", async function () {
+      await createAuction();
+      await placeTokenBid(bidder1, 1, 300n);
+      await placeTokenBid(bidder2, 1, 450n);
+
+      await expect(contract.cancelListing(1)).to.be.revertedWith("Only moderator can cancel listings");
+      await expect(contract.connect(moderator).cancelListing(1))
+        .to.emit(contract, "AuctionCancelled")
+        .withArgs(1, moderator.address);
+      expect(await contract.cancelled(1)).to.be.true;
+      await expect(contract.connect(moderator).cancelListing(1)).to.be.revertedWith("Auction is already settled");
+      await expect(contract.endAuction(1)).to.be.revertedWith("Auction is not active");
+
+      await contract.connect(bidder1).withdrawRefund(1);
+      await contract.connect(bidder2).withdrawRefund(1);
+      expect(await balanceOf(bidder1)).to.equal(INITIAL_BALANCE);
+      expect(await balanceOf(bidder2)).to.equal(INITIAL_BALANCE);
+    });
+  });
+
+  describe("TokenAuctionClient", function () {
+    /**
+     * @chapter: sdk
+     * Test approve-and-bid and settlement through the client
+     */
+    it("should approve, bid and settle through the client", async function () {
+      const client = new TokenAuctionClient(auctionAddress, owner, { fhevm });
+      const auctionId = await client.createAuction({
+        title: "Item",
+        description: "Description",
+        category: "Category",
+        paymentToken: tokenAddress,
+        minimumBid: MINIMUM_BID,
+      });
+      expect((await client.getAuction(auctionId)).paymentToken).to.equal(tokenAddress);
+
+      const winner = new TokenAuctionClient(auctionAddress, bidder1, { fhevm });
+      const loser = new TokenAuctionClient(auctionAddress, bidder2, { fhevm });
+      await winner.placeBid({ auctionId, amount: 400n });
+      await loser.placeBid({ auctionId, amount: 350n });
+
+      await client.endAuction(auctionId);
+      await loser.withdrawRefund(auctionId);
+
+      expect(await balanceOf(owner)).to.equal(400n);
+      expect(await balanceOf(bidder2)).to.equal(INITIAL_BALANCE);
+      const escrow = await winner.getEscrowHandle(auctionId, bidder1.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, escrow, auctionAddress, bidder1)).to.equal(400n);
+    });
+  });
+});
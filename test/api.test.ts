@@ -0,0 +1,223 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { AuctionClient, AuctionIndexer, createAuctionApi } from "../sdk";
+
+/**
+ * @chapter sdk
+ * Integration tests for the REST and GraphQL read API, served from an
+ * AuctionIndexer following a ConfidentialAuction on the Hardhat network
+ */
+describe("Auction API", function () {
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+  let indexer: AuctionIndexer;
+  let server: Server;
+  let baseUrl: string;
+  let watch: bigint;
+  let painting: bigint;
+
+  async function get(path: string, headers: Record<string, string> = {}) {
+    const response = await fetch(`${baseUrl}${path}`, { headers });
+    return { status: response.status, etag: response.headers.get("etag"), body: await response.text() };
+  }
+
+  async function getJson(path: string) {
+    const response = await get(path);
+    expect(response.status, response.body).to.equal(200);
+    return JSON.parse(response.body);
+  }
+
+  async function graphql(query: string, variables?: Record<string, unknown>) {
+    const response = await fetch(`${baseUrl}/graphql`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, variables }),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  }
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder1, bidder2] = await ethers.getSigners();
+
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    const governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    const registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+    await registry.addCategory("Watches", "");
+    await registry.addCategory("Art", "");
+
+    const Factory = await ethers.getContractFactory("ConfidentialAuction");
+    const contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+    await contract.waitForDeployment();
+    const address = await contract.getAddress();
+
+    const client = new AuctionClient(address, owner, { fhevm });
+    watch = await client.createAuction({
+      title: "Watch",
+      description: "Description",
+      categoryId: 1,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    painting = await client.createAuction({
+      title: "Painting",
+      description: "Description",
+      categoryId: 2,
+      minimumBid: ethers.parseEther("2.0"),
+    });
+    for (const [bidder, amount] of [
+      [bidder1, "1.5"],
+      [bidder2, "2.5"],
+    ] as const) {
+      await new AuctionClient(address, bidder, { fhevm }).placeBid({
+        auctionId: watch,
+        amount: ethers.parseEther(amount),
+      });
+    }
+    await client.endAuction(watch);
+    await fhevm.awaitDecryptionOracle();
+
+    indexer = await AuctionIndexer.open({
+      address,
+      provider: ethers.provider,
+      fromBlock: (await contract.deploymentTransaction()!.wait())!.blockNumber,
+    });
+    await indexer.sync();
+
+    server = createAuctionApi(indexer);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+    await indexer.close();
+  });
+
+  /**
+   * @chapter: sdk
+   * Test the auction list filters and pages
+   */
+  it("should list and filter auctions", async function () {
+    const all = await getJson("/auctions");
+    expect(all.total).to.equal(2);
+    expect(all.nextOffset).to.be.null;
+    expect(all.items[0]).to.deep.include({
+      id: watch.toString(),
+      title: "Watch",
+      creator: owner.address,
+      minimumBid: ethers.parseEther("1.0").toString(),
+      isActive: false,
+      status: "ended",
+      highestBidder: bidder2.address,
+      bidCount: 2,
+    });
+
+    const first = await getJson("/auctions?limit=1");
+    expect(first.items.map((a: any) => a.id)).to.deep.equal([watch.toString()]);
+    expect(first.nextOffset).to.equal(1);
+    const second = await getJson(`/auctions?limit=1&offset=${first.nextOffset}`);
+    expect(second.items.map((a: any) => a.id)).to.deep.equal([painting.toString()]);
+    expect(second.nextOffset).to.be.null;
+
+    expect((await getJson("/auctions?status=active")).items.map((a: any) => a.title)).to.deep.equal(["Painting"]);
+    expect((await getJson("/auctions?categoryId=1")).total).to.equal(1);
+    expect((await getJson(`/auctions?creator=${bidder1.address}`)).total).to.equal(0);
+
+    expect((await get("/auctions?limit=500")).status).to.equal(400);
+    expect((await get("/auctions?status=open")).status).to.equal(400);
+    expect((await get("/auctions?creator=nobody")).status).to.equal(400);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test single auctions, their bids and a user's auctions
+   */
+  it("should serve auctions, bids and user auctions", async function () {
+    expect((await getJson(`/auctions/${painting}`)).title).to.equal("Painting");
+    expect((await get("/auctions/99")).status).to.equal(404);
+    expect((await get("/auctions/abc")).status).to.equal(400);
+
+    const bids = await getJson(`/auctions/${watch}/bids?limit=1`);
+    expect(bids.total).to.equal(2);
+    expect(bids.items).to.have.length(1);
+    expect(bids.items[0]).to.include({ bidder: bidder1.address, isWithdrawn: false });
+    expect(bids.nextOffset).to.equal(1);
+
+    const created = await getJson(`/users/${owner.address}/auctions?role=created`);
+    expect(created.items.map((a: any) => a.id)).to.deep.equal([watch.toString(), painting.toString()]);
+    const won = await getJson(`/users/${bidder2.address.toLowerCase()}/auctions?role=winner`);
+    expect(won.items.map((a: any) => a.title)).to.deep.equal(["Watch"]);
+    expect((await getJson(`/users/${bidder1.address}/auctions`)).total).to.equal(1);
+    expect((await get(`/users/${bidder1.address}/auctions?role=seller`)).status).to.equal(400);
+
+    expect((await get("/nothing")).status).to.equal(404);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test unchanged responses are answered with 304 until the data changes
+   */
+  it("should revalidate responses with ETags", async function () {
+    const first = await get(`/auctions/${painting}`);
+    expect(first.etag).to.match(/^".+"$/);
+
+    const cached = await get(`/auctions/${painting}`, { "If-None-Match": first.etag! });
+    expect(cached.status).to.equal(304);
+    expect(cached.body).to.equal("");
+
+    await new AuctionClient(await indexer.contract.getAddress(), bidder1, { fhevm }).placeBid({
+      auctionId: painting,
+      amount: ethers.parseEther("2.5"),
+    });
+    await indexer.sync();
+
+    const changed = await get(`/auctions/${painting}`, { "If-None-Match": first.etag! });
+    expect(changed.status).to.equal(200);
+    expect(changed.etag).to.not.equal(first.etag);
+    expect(JSON.parse(changed.body).bidCount).to.equal(1);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test the GraphQL schema returns the same data as the REST routes
+   */
+  it("should answer GraphQL queries", async function () {
+    const { status, body } = await graphql(
+      `query ($id: ID!, $user: String!) {
+        auction(id: $id) { title winningBid highestBidder bids(limit: 5) { total items { bidder isWithdrawn } } }
+        auctions(status: active) { total items { id title } }
+        user(address: $user) { auctionsWon { id } auctionsBidOn { title } }
+      }`,
+      { id: watch.toString(), user: bidder2.address }
+    );
+    expect(status).to.equal(200);
+    expect(body.errors).to.be.undefined;
+    expect(body.data.auction.title).to.equal("Watch");
+    expect(body.data.auction.highestBidder).to.equal(bidder2.address);
+    expect(BigInt(body.data.auction.winningBid)).to.be.greaterThan(0n);
+    expect(body.data.auction.bids.items.map((bid: any) => bid.bidder)).to.deep.equal([
+      bidder1.address,
+      bidder2.address,
+    ]);
+    expect(body.data.auctions).to.deep.equal({ total: 1, items: [{ id: painting.toString(), title: "Painting" }] });
+    expect(body.data.user.auctionsWon).to.deep.equal([{ id: watch.toString() }]);
+
+    expect((await graphql("{ auction(id: 99) { title } }")).body.data.auction).to.be.null;
+    expect((await graphql("{ auctions { nope } }")).status).to.equal(400);
+    expect((await graphql("{ auctions(limit: 0) { total } }")).body.errors[0].message).to.contain("limit");
+
+    const viaGet = await get(`/graphql?query=${encodeURIComponent("{ auctions { total } }")}`);
+    expect(JSON.parse(viaGet.body).data.auctions.total).to.equal(2);
+
+    const query = encodeURIComponent("{ auctions { total } }");
+    expect((await get(`/graphql?query=${query}&variables=%5B1%5D`)).status).to.equal(400);
+    expect((await get(`/graphql?query=${query}&variables=%7B`)).status).to.equal(400);
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AuctionError, decryptMyBid, encryptBidAmount, userDecryptEuint64, userDecryptHandles } from "../sdk";
+
+/**
+ * @chapter decryption
+ * Tests for the EIP-712 user-decryption helpers
+ * `hre.fhevm` stands in for the relayer SDK instance and answers
+ * reencryption requests from a local mock relayer that enforces the ACL
+ */
+describe("User decryption", function () {
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder1, bidder2] = await ethers.getSigners();
+  });
+
+  describe("ConfidentialAuctionReal", function () {
+    let contract: any;
+
+    beforeEach(async function () {
+      const Factory = await ethers.getContractFactory("ConfidentialAuctionReal");
+      contract = await Factory.deploy();
+      await contract.waitForDeployment();
+      await contract.createAuction("Item", "Description", "Category", 100);
+    });
+
+    /**
+     * @chapter: decryption
+     * Test a bidder reads back their latest bid via getMyBid
+     */
+    it("should decrypt the caller's own bid", async function () {
+      await contract.connect(bidder1).placeBid(1, true, 150, "first", { value: 150 });
+      await contract.connect(bidder2).placeBid(1, true, 300, "other", { value: 300 });
+      await contract.connect(bidder1).placeBid(1, true, 200, "second", { value: 200 });
+
+      expect(await decryptMyBid(fhevm, contract.connect(bidder1), 1, bidder1)).to.equal(200n);
+      expect(await decryptMyBid(fhevm, contract.connect(bidder2), 1, bidder2)).to.equal(300n);
+    });
+
+    /**
+     * @chapter: decryption
+     * Test getMyBid rejects callers without a bid
+     */
+    it("should revert for callers without a bid", async function () {
+      await expect(contract.connect(bidder1).getMyBid(1)).to.be.revertedWith(
+        "You have not placed a bid on this auction"
+      );
+      await expect(contract.connect(bidder1).getMyBid(2)).to.be.revertedWith("Invalid auction ID");
+    });
+
+    /**
+     * @chapter: access-control
+     * Test the relayer refuses to reencrypt a bid for anyone but its bidder
+     */
+    it("should not decrypt another bidder's bid", async function () {
+      await contract.connect(bidder1).placeBid(1, true, 150, "bid", { value: 150 });
+      const handle = await contract.connect(bidder1).getMyBid(1);
+
+      try {
+        await userDecryptEuint64(fhevm, bidder2, handle, await contract.getAddress());
+        expect.fail("expected userDecryptEuint64 to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(AuctionError);
+        expect((error as Error).message).to.match(/^User decryption failed/);
+      }
+    });
+  });
+
+  describe("ConfidentialAuction", function () {
+    let contract: any;
+    let address: string;
+
+    beforeEach(async function () {
+      const Governance = await ethers.getContractFactory("AuctionGovernance");
+      const governance = await Governance.deploy();
+      await governance.waitForDeployment();
+
+      const Registry = await ethers.getContractFactory("CategoryRegistry");
+      const registry = await Registry.deploy(await governance.getAddress());
+      await registry.waitForDeployment();
+      await registry.addCategory("General", "");
+
+      const Factory = await ethers.getContractFactory("ConfidentialAuction");
+      contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+      await contract.waitForDeployment();
+      address = await contract.getAddress();
+      for (const title of ["Item 1", "Item 2"]) {
+        await contract.createAuction(title, "Description", 1, 100, 0, 0, ethers.ZeroHash, "0x", 0, 0);
+      }
+    });
+
+    /**
+     * @chapter: decryption
+     * Test several handles are decrypted with a single signed request
+     */
+    it("should decrypt several handles with one signature", async function () {
+      for (const [auctionId, amount] of [
+        [1, 150n],
+        [2, 250n],
+      ] as const) {
+        const { handle, inputProof } = await encryptBidAmount(fhevm, address, bidder1.address, amount);
+        await contract.connect(bidder1).placeBid(auctionId, true, handle, inputProof, "", { value: amount });
+      }
+
+      const first = await contract.connect(bidder1).getMyBid(1);
+      const second = await contract.connect(bidder1).getMyBid(2);
+      const results = await userDecryptHandles(fhevm, bidder1, [
+        { handle: first, contractAddress: address },
+        { handle: second, contractAddress: address },
+      ]);
+      expect(results[first]).to.equal(150n);
+      expect(results[second]).to.equal(250n);
+      expect(await userDecryptHandles(fhevm, owner, [])).to.deep.equal({});
+    });
+  });
+});
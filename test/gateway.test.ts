@@ -0,0 +1,242 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  auctionChannel,
+  AuctionClient,
+  AuctionFeedClient,
+  AuctionFeedEvent,
+  AuctionGateway,
+  AuctionIndexer,
+} from "../sdk";
+
+/**
+ * @chapter sdk
+ * Tests for the WebSocket gateway and AuctionFeedClient, relaying events
+ * indexed from a ConfidentialAuction on the Hardhat network
+ */
+describe("Auction gateway", function () {
+  let address: string;
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+  let client: AuctionClient;
+  let indexer: AuctionIndexer;
+  let gateway: AuctionGateway;
+  let port: number;
+  let feeds: AuctionFeedClient[];
+
+  async function createAuction(title: string): Promise<bigint> {
+    return client.createAuction({
+      title,
+      description: "Description",
+      categoryId: 1,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+  }
+
+  async function placeBid(bidder: any, auctionId: bigint, amount: string) {
+    await new AuctionClient(address, bidder, { fhevm }).placeBid({ auctionId, amount: ethers.parseEther(amount) });
+  }
+
+  function openFeed(): AuctionFeedClient {
+    const feed = new AuctionFeedClient(`ws://127.0.0.1:${port}`, { minBackoff: 20, maxBackoff: 100 });
+    feeds.push(feed);
+    return feed;
+  }
+
+  async function waitFor(condition: () => boolean) {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(condition(), "timed out").to.be.true;
+  }
+
+  async function startGateway(listenPort: number) {
+    gateway = new AuctionGateway(indexer, { port: listenPort, host: "127.0.0.1" });
+    await new Promise((resolve) => gateway.server.once("listening", resolve));
+    port = (gateway.server.address() as AddressInfo).port;
+  }
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder1, bidder2] = await ethers.getSigners();
+    feeds = [];
+
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    const governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    const registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+    await registry.addCategory("General", "");
+
+    const Factory = await ethers.getContractFactory("ConfidentialAuction");
+    const contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+    await contract.waitForDeployment();
+    address = await contract.getAddress();
+    client = new AuctionClient(address, owner, { fhevm });
+
+    indexer = await AuctionIndexer.open({
+      address,
+      provider: ethers.provider,
+      fromBlock: (await contract.deploymentTransaction()!.wait())!.blockNumber,
+    });
+    await startGateway(0);
+  });
+
+  afterEach(async function () {
+    for (const feed of feeds) {
+      feed.close();
+    }
+    await gateway.close();
+    await indexer.close();
+  });
+
+  /**
+   * @chapter: sdk
+   * Test events reach the channels they belong to, and only those
+   */
+  it("should relay events per auction channel", async function () {
+    const watch = await createAuction("Watch");
+    await indexer.sync();
+
+    const feed = openFeed();
+    const all: AuctionFeedEvent[] = [];
+    const watchEvents: AuctionFeedEvent[] = [];
+    feed.subscribe("auctions", (event) => all.push(event));
+    const stop = feed.subscribeAuction(watch, (event) => watchEvents.push(event));
+    await waitFor(() => feed.connected);
+    // Subscriptions are sent on open; let the gateway register them
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const painting = await createAuction("Painting");
+    await placeBid(bidder1, watch, "1.5");
+    await placeBid(bidder2, painting, "1.5");
+    await indexer.sync();
+
+    await waitFor(() => all.length === 3);
+    expect(all.map((event) => event.name)).to.deep.equal(["AuctionCreated", "BidPlaced", "BidPlaced"]);
+    expect(all[0].args.title).to.equal("Painting");
+    expect(watchEvents).to.have.length(1);
+    expect(watchEvents[0]).to.include({ name: "BidPlaced", auctionId: watch });
+    expect(watchEvents[0].args.bidder).to.equal(bidder1.address);
+
+    // A removed handler stops receiving the auction's events
+    stop();
+    await client.endAuction(watch);
+    await fhevm.awaitDecryptionOracle();
+    await indexer.sync();
+    await waitFor(() => all.length === 4);
+    expect(all[3]).to.include({ name: "AuctionEnded", auctionId: watch });
+    expect(all[3].args.winner).to.equal(bidder1.address);
+    expect(watchEvents).to.have.length(1);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test a subscription replays indexed events from a block
+   */
+  it("should replay events from a block", async function () {
+    const firstBlock = (await ethers.provider.getBlockNumber()) + 1;
+    const watch = await createAuction("Watch");
+    await placeBid(bidder1, watch, "1.5");
+    await indexer.sync();
+
+    const feed = openFeed();
+    const events: AuctionFeedEvent[] = [];
+    feed.subscribeAuction(watch, (event) => events.push(event), firstBlock);
+    await waitFor(() => events.length === 2);
+    expect(events.map((event) => event.name)).to.deep.equal(["AuctionCreated", "BidPlaced"]);
+
+    // A raw socket gets an error for malformed messages
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    await new Promise((resolve) => socket.once("open", resolve));
+    const request = (message: unknown) => {
+      const reply = new Promise<any>((resolve) => socket.once("message", (data) => resolve(JSON.parse(data.toString()))));
+      socket.send(JSON.stringify(message));
+      return reply;
+    };
+    expect(await request({ type: "subscribe", channel: "bids" })).to.deep.equal({
+      type: "error",
+      message: "Unknown channel bids",
+    });
+    expect(await request({ type: "ping", channel: "auctions" })).to.deep.equal({
+      type: "error",
+      message: "Unknown message type ping",
+    });
+    expect(await request({ type: "subscribe", channel: "auctions", fromBlock: "1" })).to.deep.equal({
+      type: "error",
+      message: "fromBlock must be a non-negative integer",
+    });
+    expect(await request(null)).to.deep.equal({ type: "error", message: "Messages must be JSON objects" });
+    socket.close();
+  });
+
+  /**
+   * @chapter: sdk
+   * Test the client reconnects after the gateway restarts and resumes
+   * without missing or repeating events
+   */
+  it("should resume after a reconnect", async function () {
+    const watch = await createAuction("Watch");
+    await indexer.sync();
+
+    const feed = openFeed();
+    const events: AuctionFeedEvent[] = [];
+    feed.subscribe(auctionChannel(watch), (event) => events.push(event));
+    await waitFor(() => feed.connected);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await placeBid(bidder1, watch, "1.5");
+    await indexer.sync();
+    await waitFor(() => events.length === 1);
+
+    // Events indexed while the gateway is down are replayed on reconnect
+    const previousPort = port;
+    await gateway.close();
+    await waitFor(() => !feed.connected);
+    await placeBid(bidder2, watch, "2.0");
+    await indexer.sync();
+    await startGateway(previousPort);
+
+    await waitFor(() => events.length === 2);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(events.map((event) => event.args.bidder)).to.deep.equal([bidder1.address, bidder2.address]);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test malformed frames from the gateway are reported, not thrown
+   */
+  it("should report malformed gateway messages", async function () {
+    const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise((resolve) => server.once("listening", resolve));
+    server.on("connection", (socket) => {
+      socket.send("{");
+      socket.send("null");
+      socket.send(JSON.stringify({ type: "event", channel: "auctions", event: { name: "BidPlaced" } }));
+      socket.send(JSON.stringify({ type: "error", message: "Unknown channel bids" }));
+    });
+
+    const errors: string[] = [];
+    const feed = new AuctionFeedClient(`ws://127.0.0.1:${(server.address() as AddressInfo).port}`, {
+      onError: (error) => errors.push(error.message),
+    });
+    const events: AuctionFeedEvent[] = [];
+    feed.subscribe("auctions", (event) => events.push(event));
+    await waitFor(() => errors.length === 4);
+    feed.close();
+    await new Promise((resolve) => server.close(resolve));
+
+    expect(errors).to.deep.equal([
+      "Gateway sent invalid JSON",
+      "Gateway sent a malformed message",
+      "Gateway sent a malformed message",
+      "Gateway error: Unknown channel bids",
+    ]);
+    expect(events).to.deep.equal([]);
+  });
+});
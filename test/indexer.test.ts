@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import { ethers, fhevm, network } from "hardhat";
+import { mkdtemp, rm } from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { AuctionClient, AuctionError, AuctionIndexer } from "../sdk";
+
+/**
+ * @chapter sdk
+ * Tests for AuctionIndexer, which follows ConfidentialAuction events into
+ * a SQLite database, against the in-process Hardhat network
+ */
+describe("AuctionIndexer", function () {
+  let directory: string;
+  let address: string;
+  let owner: any;
+  let bidder1: any;
+  let bidder2: any;
+  let client: AuctionClient;
+  let indexer: AuctionIndexer;
+
+  async function createAuction(title: string): Promise<bigint> {
+    return client.createAuction({
+      title,
+      description: "Description",
+      categoryId: 1,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+  }
+
+  async function placeBid(bidder: any, auctionId: bigint, amount: string) {
+    await new AuctionClient(address, bidder, { fhevm }).placeBid({ auctionId, amount: ethers.parseEther(amount) });
+  }
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder1, bidder2] = await ethers.getSigners();
+    directory = await mkdtemp(path.join(os.tmpdir(), "auction-indexer-"));
+
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    const governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    const registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+    await registry.addCategory("General", "");
+
+    const Factory = await ethers.getContractFactory("ConfidentialAuction");
+    const contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+    await contract.waitForDeployment();
+    address = await contract.getAddress();
+
+    client = new AuctionClient(address, owner, { fhevm });
+    indexer = await AuctionIndexer.open({
+      address,
+      provider: ethers.provider,
+      databasePath: path.join(directory, "auctions.db"),
+      fromBlock: (await contract.deploymentTransaction()!.wait())!.blockNumber,
+    });
+  });
+
+  afterEach(async function () {
+    await indexer.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * @chapter: sdk
+   * Test auctions, bids and settlements are projected from events
+   */
+  it("should index auctions, bids and settlements", async function () {
+    const first = await createAuction("Watch");
+    const second = await createAuction("Painting");
+    await placeBid(bidder1, first, "1.5");
+    await placeBid(bidder2, first, "2.0");
+    await placeBid(bidder1, second, "1.2");
+
+    const result = await indexer.sync();
+    expect(result.events).to.equal(5);
+    expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+
+    const auction = indexer.getAuction(first)!;
+    expect(auction.title).to.equal("Watch");
+    expect(auction.creator).to.equal(owner.address);
+    expect(auction.minimumBid).to.equal(ethers.parseEther("1.0"));
+    expect(auction.status).to.equal("active");
+    expect(auction.bidCount).to.equal(2);
+    expect(indexer.getBids(first).map((bid) => bid.bidder)).to.deep.equal([bidder1.address, bidder2.address]);
+
+    await client.endAuction(first);
+    await fhevm.awaitDecryptionOracle();
+    await client.cancelAuction(second);
+    expect((await indexer.sync()).events).to.equal(3);
+
+    expect(indexer.getAuction(first)).to.include({ status: "ended", winner: bidder2.address });
+    expect(indexer.getAuction(first)!.winningBid).to.be.a("bigint");
+    expect(indexer.getAuctions({ status: "cancelled" }).map((a) => a.id)).to.deep.equal([second]);
+    expect(indexer.getAuctions({ creator: owner.address, limit: 1, offset: 1 }).map((a) => a.id)).to.deep.equal([
+      second,
+    ]);
+    expect(indexer.getUser(bidder1.address)).to.deep.equal({
+      address: bidder1.address,
+      auctionsCreated: [],
+      auctionsBidOn: [first, second],
+      auctionsWon: [],
+    });
+    expect(indexer.getUser(bidder2.address).auctionsWon).to.deep.equal([first]);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test a saved database resumes where it stopped and refuses another
+   * contract
+   */
+  it("should resume from the saved database", async function () {
+    const auctionId = await createAuction("Watch");
+    await indexer.sync();
+    const databasePath = path.join(directory, "auctions.db");
+    await indexer.close();
+
+    await placeBid(bidder1, auctionId, "1.5");
+    indexer = await AuctionIndexer.open({ address, provider: ethers.provider, databasePath });
+    expect((await indexer.sync()).events).to.equal(1);
+    expect(indexer.getAuction(auctionId)!.bidCount).to.equal(1);
+    expect(indexer.getAuctions()).to.have.length(1);
+
+    try {
+      await AuctionIndexer.open({ address: bidder1.address, provider: ethers.provider, databasePath });
+      expect.fail("expected open to throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(AuctionError);
+    }
+  });
+
+  /**
+   * @chapter: sdk
+   * Test blocks that leave the chain are rolled back and reindexed
+   */
+  it("should roll back reorged blocks", async function () {
+    const auctionId = await createAuction("Watch");
+    await indexer.sync();
+    const forkPoint = indexer.lastIndexedBlock;
+    const snapshot = await network.provider.send("evm_snapshot");
+
+    await placeBid(bidder1, auctionId, "1.5");
+    await createAuction("Orphaned");
+    await indexer.sync();
+    expect(indexer.getAuctions()).to.have.length(2);
+
+    // Replace the last two blocks with a different history
+    await network.provider.send("evm_revert", [snapshot]);
+    await placeBid(bidder2, auctionId, "2.0");
+    await network.provider.send("evm_mine");
+
+    const result = await indexer.sync();
+    expect(result.reorgedTo).to.equal(forkPoint);
+    expect(result.events).to.equal(1);
+    expect(indexer.getAuctions()).to.have.length(1);
+    expect(indexer.getBids(auctionId).map((bid) => bid.bidder)).to.deep.equal([bidder2.address]);
+    expect(indexer.getUser(bidder1.address).auctionsBidOn).to.deep.equal([]);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test a started indexer picks up new events by itself
+   */
+  it("should follow new events once started", async function () {
+    await indexer.start(1000);
+    const auctionId = await createAuction("Watch");
+
+    for (let i = 0; i < 50 && indexer.getAuction(auctionId) === undefined; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    await indexer.stop();
+    expect(indexer.getAuction(auctionId)?.title).to.equal("Watch");
+  });
+});
@@ -0,0 +1,263 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  AuctionClient,
+  AuctionKeeper,
+  AuctionKeeperOptions,
+  GovernanceClient,
+  KeeperLogEntry,
+  Role,
+  SettlementOutcome,
+} from "../sdk";
+
+/**
+ * @chapter decryption
+ * Tests for AuctionKeeper, which ends expired auctions and re-requests
+ * stalled settlements, using Hardhat time travel
+ */
+describe("AuctionKeeper", function () {
+  const HOUR = 60 * 60;
+
+  let address: string;
+  let owner: any;
+  let bidder: any;
+  let keeperSigner: any;
+  let client: AuctionClient;
+  let logs: KeeperLogEntry[];
+
+  function createKeeper(options: Partial<AuctionKeeperOptions> = {}): AuctionKeeper {
+    return new AuctionKeeper({
+      address,
+      signer: keeperSigner,
+      retryDelay: 10,
+      log: (entry) => logs.push(entry),
+      ...options,
+    });
+  }
+
+  function events(name: string): KeeperLogEntry[] {
+    return logs.filter((entry) => entry.event === name);
+  }
+
+  /**
+   * An auction ending in an hour with one bid, and one running the default
+   * seven days
+   */
+  async function createAuctions(): Promise<[bigint, bigint]> {
+    const short = await client.createAuction({
+      title: "Short",
+      description: "Description",
+      categoryId: 1,
+      minimumBid: ethers.parseEther("1.0"),
+      duration: HOUR,
+    });
+    const long = await client.createAuction({
+      title: "Long",
+      description: "Description",
+      categoryId: 1,
+      minimumBid: ethers.parseEther("1.0"),
+    });
+    await new AuctionClient(address, bidder, { fhevm }).placeBid({
+      auctionId: short,
+      amount: ethers.parseEther("1.5"),
+    });
+    return [short, long];
+  }
+
+  beforeEach(async function () {
+    // @chapter: setup
+    [owner, bidder, keeperSigner] = await ethers.getSigners();
+    logs = [];
+
+    const Governance = await ethers.getContractFactory("AuctionGovernance");
+    const governance = await Governance.deploy();
+    await governance.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("CategoryRegistry");
+    const registry = await Registry.deploy(await governance.getAddress());
+    await registry.waitForDeployment();
+    await registry.addCategory("General", "");
+
+    const Factory = await ethers.getContractFactory("ConfidentialAuction");
+    const contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+    await contract.waitForDeployment();
+    address = await contract.getAddress();
+    client = new AuctionClient(address, owner, { fhevm });
+  });
+
+  /**
+   * @chapter: decryption
+   * Test only auctions past their end time are ended, and they settle
+   */
+  it("should end expired auctions", async function () {
+    const [short, long] = await createAuctions();
+    const keeper = createKeeper();
+
+    expect((await keeper.runOnce()).ended).to.deep.equal([]);
+
+    await time.increase(2 * HOUR);
+    const report = await keeper.runOnce();
+    expect(report).to.deep.equal({ ended: [short], retried: [], skipped: [], failed: [] });
+    expect((await client.getAuction(short)).isActive).to.be.false;
+    expect((await client.getAuction(long)).isActive).to.be.true;
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await client.getSettlementOutcome(short)).to.equal(SettlementOutcome.Sold);
+    expect((await keeper.runOnce()).ended).to.deep.equal([]);
+
+    // Structured logs: uint256 values as strings, every entry JSON-safe
+    const [confirmed] = events("endAuction.confirmed");
+    expect(confirmed).to.include({ level: "info", auctionId: short.toString() });
+    expect(confirmed.time).to.match(/^\d{4}-\d{2}-\d{2}T/);
+    expect(() => logs.map((entry) => JSON.stringify(entry))).to.not.throw();
+  });
+
+  /**
+   * @chapter: decryption
+   * Test dry runs and gas caps leave expired auctions for a later round
+   */
+  it("should skip transactions in dry-run mode and above the gas caps", async function () {
+    const [short] = await createAuctions();
+    await time.increase(2 * HOUR);
+
+    expect((await createKeeper({ dryRun: true }).runOnce()).skipped).to.deep.equal([short]);
+    expect(events("endAuction.dryRun")).to.have.length(1);
+
+    expect((await createKeeper({ maxFeePerGas: 1n }).runOnce()).skipped).to.deep.equal([short]);
+    expect((await createKeeper({ maxGasLimit: 21000n }).runOnce()).skipped).to.deep.equal([short]);
+    expect(events("endAuction.skipped").map((entry) => entry.reason)).to.deep.equal([
+      "fee above cap",
+      "gas above cap",
+    ]);
+    expect((await client.getAuction(short)).isActive).to.be.true;
+
+    expect((await createKeeper({ maxGasLimit: 5_000_000n }).runOnce()).ended).to.deep.equal([short]);
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  /**
+   * @chapter: decryption
+   * Test sent transactions carry the fee cap, so fees rising after the
+   * check cannot make the keeper pay more
+   */
+  it("should send transactions with the fee cap", async function () {
+    const [short] = await createAuctions();
+    await time.increase(2 * HOUR);
+
+    const cap = ethers.parseUnits("50", "gwei");
+    expect((await createKeeper({ maxFeePerGas: cap }).runOnce()).ended).to.deep.equal([short]);
+    const tx = await ethers.provider.getTransaction(events("endAuction.submitted")[0].hash as string);
+    expect(tx!.maxFeePerGas).to.equal(cap);
+    expect(tx!.maxPriorityFeePerGas! <= cap).to.be.true;
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  /**
+   * @chapter: decryption
+   * Test a transient send failure is retried with a fresh nonce
+   */
+  it("should retry failed sends with backoff", async function () {
+    const [short] = await createAuctions();
+    await time.increase(2 * HOUR);
+
+    // Fails the first transaction before it reaches the node
+    let failures = 1;
+    const flaky = new Proxy(keeperSigner, {
+      get(target, property) {
+        if (property === "sendTransaction" && failures-- > 0) {
+          return async () => {
+            throw new Error("socket hang up");
+          };
+        }
+        const value = Reflect.get(target, property, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+
+    expect((await createKeeper({ signer: flaky }).runOnce()).ended).to.deep.equal([short]);
+    expect(events("endAuction.retry")).to.have.length(1);
+    expect(events("endAuction.retry")[0]).to.include({ error: "socket hang up", attempt: 1, delay: 10 });
+    expect(events("endAuction.confirmed")[0].attempt).to.equal(2);
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  /**
+   * @chapter: decryption
+   * Test a receipt lookup failing after the broadcast is retried without
+   * sending the transaction again
+   */
+  it("should retry the receipt lookup without resending", async function () {
+    const [short] = await createAuctions();
+    await time.increase(2 * HOUR);
+
+    // Fails the first receipt lookup, after the transaction was sent
+    let failures = 1;
+    const provider = new Proxy(keeperSigner.provider, {
+      get(target, property) {
+        if (property === "getTransactionReceipt" && failures-- > 0) {
+          return async () => {
+            throw new Error("socket hang up");
+          };
+        }
+        const value = Reflect.get(target, property, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    const flaky = new Proxy(keeperSigner, {
+      get(target, property) {
+        if (property === "provider") {
+          return provider;
+        }
+        const value = Reflect.get(target, property, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+
+    expect(await createKeeper({ signer: flaky }).runOnce()).to.deep.equal({
+      ended: [short],
+      retried: [],
+      skipped: [],
+      failed: [],
+    });
+    expect(events("endAuction.submitted")).to.have.length(1);
+    expect(events("endAuction.retry")).to.have.length(0);
+    expect(events("endAuction.receiptRetry")[0]).to.include({ error: "socket hang up", lookup: 1, delay: 10 });
+    expect(events("endAuction.confirmed")[0].hash).to.equal(events("endAuction.submitted")[0].hash);
+    await fhevm.awaitDecryptionOracle();
+  });
+
+  /**
+   * @chapter: decryption
+   * Test settlements the oracle never answered are re-requested by a keeper
+   */
+  it("should re-request stalled settlements", async function () {
+    const [short] = await createAuctions();
+    await time.increase(2 * HOUR);
+    await createKeeper().runOnce();
+
+    const keeper = createKeeper({ settlementTimeout: 600 });
+    expect(await keeper.findStalledSettlements()).to.deep.equal([]);
+    await time.increase(601);
+    expect(await keeper.findStalledSettlements()).to.deep.equal([short]);
+
+    // Without KEEPER_ROLE the retry is skipped
+    expect((await keeper.runOnce()).skipped).to.deep.equal([short]);
+    expect(events("retrySettlement.skipped")[0].reason).to.equal("signer lacks KEEPER_ROLE");
+
+    const governance = new GovernanceClient(await client.getGovernanceAddress(), owner);
+    await governance.grantRole(Role.Keeper, keeperSigner.address);
+    expect((await keeper.runOnce()).retried).to.deep.equal([short]);
+    expect(await keeper.findStalledSettlements()).to.deep.equal([]);
+
+    // The mock oracle answers both requests: the first settles, the
+    // second finds nothing pending and reverts
+    try {
+      await fhevm.awaitDecryptionOracle();
+      expect.fail("expected the second callback to revert");
+    } catch (error) {
+      expect((error as Error).message).to.contain("No pending settlement");
+    }
+    expect(await client.getSettlementOutcome(short)).to.equal(SettlementOutcome.Sold);
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import {
+  AuctionClient,
+  buildAuctionMetadata,
+  encodeAuctionMetadata,
+  fetchAuctionMetadata,
+  FileMetadataStore,
+  hashAuctionMetadata,
+  InvalidMetadataError,
+  MetadataMismatchError,
+  publishAuctionMetadata,
+  validateAuctionMetadata,
+} from "../sdk";
+
+/**
+ * @chapter sdk
+ * Tests for off-chain listing metadata: schema validation, canonical
+ * hashing, and verification against the on-chain content hash using a
+ * local file-backed store
+ */
+describe("Auction metadata", function () {
+  let directory: string;
+  let store: FileMetadataStore;
+
+  const listing = {
+    title: "Vintage Watch",
+    description: "Beautiful 1950s Rolex in pristine condition",
+    images: ["ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi/front.jpg"],
+    category: "Watches",
+  };
+
+  beforeEach(async function () {
+    // @chapter: setup
+    directory = await mkdtemp(path.join(os.tmpdir(), "auction-metadata-"));
+    store = new FileMetadataStore(directory);
+  });
+
+  afterEach(async function () {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * @chapter: sdk
+   * Test listings are validated against the schema
+   */
+  it("should build valid metadata and reject invalid listings", async function () {
+    const metadata = buildAuctionMetadata({ ...listing, title: "  Vintage Watch " });
+    expect(metadata).to.deep.equal({ version: 1, ...listing });
+
+    for (const invalid of [
+      { ...metadata, title: "" },
+      { ...metadata, images: ["not a uri"] },
+      { ...metadata, version: 2 },
+      { ...metadata, price: 100 },
+    ]) {
+      expect(() => validateAuctionMetadata(invalid)).to.throw(InvalidMetadataError);
+    }
+    expect(() => validateAuctionMetadata([])).to.throw(InvalidMetadataError, "must be a JSON object");
+  });
+
+  /**
+   * @chapter: sdk
+   * Test the encoding does not depend on field order
+   */
+  it("should encode listings canonically", async function () {
+    const metadata = buildAuctionMetadata(listing);
+    const reordered = validateAuctionMetadata({
+      category: listing.category,
+      images: listing.images,
+      description: listing.description,
+      title: listing.title,
+      version: 1,
+    });
+
+    const encoded = encodeAuctionMetadata(reordered);
+    expect(hashAuctionMetadata(encoded)).to.equal(hashAuctionMetadata(encodeAuctionMetadata(metadata)));
+    expect(ethers.toUtf8String(encoded)).to.match(/^\{"version":1,"title":/);
+  });
+
+  /**
+   * @chapter: sdk
+   * Test published metadata round-trips and tampering is detected
+   */
+  it("should detect metadata that no longer matches its hash", async function () {
+    const published = await publishAuctionMetadata(store, buildAuctionMetadata(listing));
+    expect(published.uri).to.match(/^file:\/\//);
+    expect(await readdir(directory)).to.deep.equal([`${published.contentHash.slice(2)}.json`]);
+    expect((await fetchAuctionMetadata(store, published.uri, published.contentHash)).title).to.equal(listing.title);
+
+    const tampered = JSON.stringify({ version: 1, ...listing, title: "Replica Watch" });
+    await writeFile(fileURLToPath(published.uri), tampered);
+    try {
+      await fetchAuctionMetadata(store, published.uri, published.contentHash);
+      expect.fail("expected fetchAuctionMetadata to throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(MetadataMismatchError);
+    }
+  });
+
+  describe("ConfidentialAuction", function () {
+    let client: AuctionClient;
+
+    beforeEach(async function () {
+      const [owner] = await ethers.getSigners();
+      const Governance = await ethers.getContractFactory("AuctionGovernance");
+      const governance = await Governance.deploy();
+      await governance.waitForDeployment();
+
+      const Registry = await ethers.getContractFactory("CategoryRegistry");
+      const registry = await Registry.deploy(await governance.getAddress());
+      await registry.waitForDeployment();
+      await registry.addCategory("Watches", "");
+
+      const Factory = await ethers.getContractFactory("ConfidentialAuction");
+      const contract = await Factory.deploy(await registry.getAddress(), await governance.getAddress());
+      await contract.waitForDeployment();
+      client = new AuctionClient(await contract.getAddress(), owner);
+    });
+
+    /**
+     * @chapter: sdk
+     * Test an auction stores only the hash and URI, and clients verify
+     * what they fetch against it
+     */
+    it("should create an auction with off-chain metadata and verify it", async function () {
+      const published = await publishAuctionMetadata(store, buildAuctionMetadata(listing));
+      const auctionId = await client.createAuctionWithMetadata({
+        metadata: published,
+        categoryId: 1,
+        minimumBid: ethers.parseEther("1.0"),
+      });
+
+      const auction = await client.getAuction(auctionId);
+      expect(auction.title).to.equal("");
+      expect(auction.description).to.equal("");
+      expect(await client.getMetadataPointer(auctionId)).to.deep.equal(published);
+      expect(await client.fetchMetadata(auctionId, store)).to.deep.equal({ version: 1, ...listing });
+
+      // A document published elsewhere does not verify against this auction
+      const other = await publishAuctionMetadata(store, buildAuctionMetadata({ ...listing, title: "Other" }));
+      try {
+        await fetchAuctionMetadata(store, other.uri, published.contentHash);
+        expect.fail("expected fetchAuctionMetadata to throw");
+      } catch (error) {
+        expect(error).to.be.instanceOf(MetadataMismatchError);
+      }
+    });
+
+    /**
+     * @chapter: sdk
+     * Test auctions with on-chain titles have no metadata pointer
+     */
+    it("should report no metadata for plain auctions", async function () {
+      const auctionId = await client.createAuction({
+        title: "Item",
+        description: "Description",
+        categoryId: 1,
+        minimumBid: 1,
+      });
+
+      expect(await client.getMetadataPointer(auctionId)).to.be.undefined;
+      try {
+        await client.fetchMetadata(auctionId, store);
+        expect.fail("expected fetchMetadata to throw");
+      } catch (error) {
+        expect((error as Error).message).to.contain("has no off-chain metadata");
+      }
+    });
+  });
+});
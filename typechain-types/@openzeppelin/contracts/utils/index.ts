@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as introspection from "./introspection";
+export type { introspection };
+export type { Create2 } from "./Create2";
+export type { Errors } from "./Errors";
+export type { Pausable } from "./Pausable";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC165 } from "./ERC165";
+export type { IERC165 } from "./IERC165";
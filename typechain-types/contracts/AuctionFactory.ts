@@ -0,0 +1,308 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface AuctionFactoryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_PAGE_SIZE"
+      | "categoryRegistry"
+      | "createAuction"
+      | "getAuctionCount"
+      | "getAuctions"
+      | "getAuctionsByCategory"
+      | "getAuctionsByCreator"
+      | "governance"
+      | "implementation"
+      | "isAuction"
+  ): FunctionFragment;
+
+  getEvent(nameOrSignatureOrTopic: "AuctionDeployed"): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "categoryRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctions",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionsByCategory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionsByCreator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "governance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "implementation",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAuction",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "categoryRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionsByCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionsByCreator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "governance", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "implementation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isAuction", data: BytesLike): Result;
+}
+
+export namespace AuctionDeployedEvent {
+  export type InputTuple = [
+    index: BigNumberish,
+    auction: AddressLike,
+    creator: AddressLike,
+    categoryId: BigNumberish
+  ];
+  export type OutputTuple = [
+    index: bigint,
+    auction: string,
+    creator: string,
+    categoryId: bigint
+  ];
+  export interface OutputObject {
+    index: bigint;
+    auction: string;
+    creator: string;
+    categoryId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AuctionFactory extends BaseContract {
+  connect(runner?: ContractRunner | null): AuctionFactory;
+  waitForDeployment(): Promise<this>;
+
+  interface: AuctionFactoryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  categoryRegistry: TypedContractMethod<[], [string], "view">;
+
+  createAuction: TypedContractMethod<
+    [
+      _title: string,
+      _description: string,
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  getAuctionCount: TypedContractMethod<[], [bigint], "view">;
+
+  getAuctions: TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getAuctionsByCategory: TypedContractMethod<
+    [_categoryId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getAuctionsByCreator: TypedContractMethod<
+    [_creator: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  governance: TypedContractMethod<[], [string], "view">;
+
+  implementation: TypedContractMethod<[], [string], "view">;
+
+  isAuction: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "categoryRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [
+      _title: string,
+      _description: string,
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAuctionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAuctions"
+  ): TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuctionsByCategory"
+  ): TypedContractMethod<[_categoryId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getAuctionsByCreator"
+  ): TypedContractMethod<[_creator: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "governance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "implementation"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "isAuction"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  getEvent(
+    key: "AuctionDeployed"
+  ): TypedContractEvent<
+    AuctionDeployedEvent.InputTuple,
+    AuctionDeployedEvent.OutputTuple,
+    AuctionDeployedEvent.OutputObject
+  >;
+
+  filters: {
+    "AuctionDeployed(uint256,address,address,uint256)": TypedContractEvent<
+      AuctionDeployedEvent.InputTuple,
+      AuctionDeployedEvent.OutputTuple,
+      AuctionDeployedEvent.OutputObject
+    >;
+    AuctionDeployed: TypedContractEvent<
+      AuctionDeployedEvent.InputTuple,
+      AuctionDeployedEvent.OutputTuple,
+      AuctionDeployedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,740 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace AuctionInstance {
+  export type AuctionStruct = {
+    title: string;
+    description: string;
+    categoryId: BigNumberish;
+    minimumBid: BigNumberish;
+    creator: AddressLike;
+    timestamp: BigNumberish;
+    isActive: boolean;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    bidCount: BigNumberish;
+    highestBidAmount: BytesLike;
+    encryptedHighestBidder: BytesLike;
+    highestBidder: AddressLike;
+    winningBid: BigNumberish;
+  };
+
+  export type AuctionStructOutput = [
+    title: string,
+    description: string,
+    categoryId: bigint,
+    minimumBid: bigint,
+    creator: string,
+    timestamp: bigint,
+    isActive: boolean,
+    startTime: bigint,
+    endTime: bigint,
+    bidCount: bigint,
+    highestBidAmount: string,
+    encryptedHighestBidder: string,
+    highestBidder: string,
+    winningBid: bigint
+  ] & {
+    title: string;
+    description: string;
+    categoryId: bigint;
+    minimumBid: bigint;
+    creator: string;
+    timestamp: bigint;
+    isActive: boolean;
+    startTime: bigint;
+    endTime: bigint;
+    bidCount: bigint;
+    highestBidAmount: string;
+    encryptedHighestBidder: string;
+    highestBidder: string;
+    winningBid: bigint;
+  };
+}
+
+export interface AuctionInstanceInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_DURATION"
+      | "MAX_DURATION"
+      | "MAX_START_DELAY"
+      | "MIN_DURATION"
+      | "bidDeposits"
+      | "cancelListing"
+      | "cancelled"
+      | "claimProceeds"
+      | "endAuction"
+      | "factory"
+      | "getAuction"
+      | "getMyBid"
+      | "governance"
+      | "hasUserBid"
+      | "initialize"
+      | "placeBid"
+      | "proceeds"
+      | "retrySettlement"
+      | "revealWinner"
+      | "settlementPending"
+      | "withdrawRefund"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuctionCancelled"
+      | "AuctionEnded"
+      | "BidPlaced"
+      | "DecryptionFulfilled"
+      | "Initialized"
+      | "ProceedsClaimed"
+      | "RefundWithdrawn"
+      | "SettlementRequested"
+      | "WinnerRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_START_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidDeposits",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelListing",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "cancelled", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claimProceeds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "endAuction",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "factory", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getAuction",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "getMyBid", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "governance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasUserBid",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [
+      AddressLike,
+      AddressLike,
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeBid",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "proceeds", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "retrySettlement",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealWinner",
+    values: [BigNumberish, BigNumberish, AddressLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settlementPending",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawRefund",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_START_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bidDeposits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelled", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimProceeds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "endAuction", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "factory", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getAuction", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getMyBid", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "governance", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasUserBid", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "placeBid", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "proceeds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "retrySettlement",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealWinner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settlementPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawRefund",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuctionCancelledEvent {
+  export type InputTuple = [cancelledBy: AddressLike];
+  export type OutputTuple = [cancelledBy: string];
+  export interface OutputObject {
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionEndedEvent {
+  export type InputTuple = [winner: AddressLike, winningBid: BigNumberish];
+  export type OutputTuple = [winner: string, winningBid: bigint];
+  export interface OutputObject {
+    winner: string;
+    winningBid: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidPlacedEvent {
+  export type InputTuple = [bidder: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [bidder: string, timestamp: bigint];
+  export interface OutputObject {
+    bidder: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProceedsClaimedEvent {
+  export type InputTuple = [creator: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [creator: string, amount: bigint];
+  export interface OutputObject {
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundWithdrawnEvent {
+  export type InputTuple = [bidder: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [bidder: string, amount: bigint];
+  export interface OutputObject {
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SettlementRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerRevealedEvent {
+  export type InputTuple = [winner: AddressLike, winningBid: BigNumberish];
+  export type OutputTuple = [winner: string, winningBid: bigint];
+  export interface OutputObject {
+    winner: string;
+    winningBid: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AuctionInstance extends BaseContract {
+  connect(runner?: ContractRunner | null): AuctionInstance;
+  waitForDeployment(): Promise<this>;
+
+  interface: AuctionInstanceInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_START_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  bidDeposits: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  cancelListing: TypedContractMethod<[], [void], "nonpayable">;
+
+  cancelled: TypedContractMethod<[], [boolean], "view">;
+
+  claimProceeds: TypedContractMethod<[], [void], "nonpayable">;
+
+  endAuction: TypedContractMethod<[], [void], "nonpayable">;
+
+  factory: TypedContractMethod<[], [string], "view">;
+
+  getAuction: TypedContractMethod<
+    [],
+    [AuctionInstance.AuctionStructOutput],
+    "view"
+  >;
+
+  getMyBid: TypedContractMethod<[], [string], "view">;
+
+  governance: TypedContractMethod<[], [string], "view">;
+
+  hasUserBid: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  initialize: TypedContractMethod<
+    [
+      _creator: AddressLike,
+      _governance: AddressLike,
+      _title: string,
+      _description: string,
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  placeBid: TypedContractMethod<
+    [_encryptedAmount: BytesLike, _inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  proceeds: TypedContractMethod<[], [bigint], "view">;
+
+  retrySettlement: TypedContractMethod<[], [void], "nonpayable">;
+
+  revealWinner: TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _winningBid: BigNumberish,
+      _winner: AddressLike,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  settlementPending: TypedContractMethod<[], [boolean], "view">;
+
+  withdrawRefund: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_START_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "bidDeposits"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelListing"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelled"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "claimProceeds"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "endAuction"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "factory"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getAuction"
+  ): TypedContractMethod<[], [AuctionInstance.AuctionStructOutput], "view">;
+  getFunction(
+    nameOrSignature: "getMyBid"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "governance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "hasUserBid"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [
+      _creator: AddressLike,
+      _governance: AddressLike,
+      _title: string,
+      _description: string,
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "placeBid"
+  ): TypedContractMethod<
+    [_encryptedAmount: BytesLike, _inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "proceeds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "retrySettlement"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealWinner"
+  ): TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _winningBid: BigNumberish,
+      _winner: AddressLike,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settlementPending"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "withdrawRefund"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "AuctionCancelled"
+  ): TypedContractEvent<
+    AuctionCancelledEvent.InputTuple,
+    AuctionCancelledEvent.OutputTuple,
+    AuctionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionEnded"
+  ): TypedContractEvent<
+    AuctionEndedEvent.InputTuple,
+    AuctionEndedEvent.OutputTuple,
+    AuctionEndedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidPlaced"
+  ): TypedContractEvent<
+    BidPlacedEvent.InputTuple,
+    BidPlacedEvent.OutputTuple,
+    BidPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProceedsClaimed"
+  ): TypedContractEvent<
+    ProceedsClaimedEvent.InputTuple,
+    ProceedsClaimedEvent.OutputTuple,
+    ProceedsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundWithdrawn"
+  ): TypedContractEvent<
+    RefundWithdrawnEvent.InputTuple,
+    RefundWithdrawnEvent.OutputTuple,
+    RefundWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "SettlementRequested"
+  ): TypedContractEvent<
+    SettlementRequestedEvent.InputTuple,
+    SettlementRequestedEvent.OutputTuple,
+    SettlementRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerRevealed"
+  ): TypedContractEvent<
+    WinnerRevealedEvent.InputTuple,
+    WinnerRevealedEvent.OutputTuple,
+    WinnerRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "AuctionCancelled(address)": TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+    AuctionCancelled: TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+
+    "AuctionEnded(address,uint256)": TypedContractEvent<
+      AuctionEndedEvent.InputTuple,
+      AuctionEndedEvent.OutputTuple,
+      AuctionEndedEvent.OutputObject
+    >;
+    AuctionEnded: TypedContractEvent<
+      AuctionEndedEvent.InputTuple,
+      AuctionEndedEvent.OutputTuple,
+      AuctionEndedEvent.OutputObject
+    >;
+
+    "BidPlaced(address,uint256)": TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+    BidPlaced: TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "ProceedsClaimed(address,uint256)": TypedContractEvent<
+      ProceedsClaimedEvent.InputTuple,
+      ProceedsClaimedEvent.OutputTuple,
+      ProceedsClaimedEvent.OutputObject
+    >;
+    ProceedsClaimed: TypedContractEvent<
+      ProceedsClaimedEvent.InputTuple,
+      ProceedsClaimedEvent.OutputTuple,
+      ProceedsClaimedEvent.OutputObject
+    >;
+
+    "RefundWithdrawn(address,uint256)": TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+    RefundWithdrawn: TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+
+    "SettlementRequested(uint256)": TypedContractEvent<
+      SettlementRequestedEvent.InputTuple,
+      SettlementRequestedEvent.OutputTuple,
+      SettlementRequestedEvent.OutputObject
+    >;
+    SettlementRequested: TypedContractEvent<
+      SettlementRequestedEvent.InputTuple,
+      SettlementRequestedEvent.OutputTuple,
+      SettlementRequestedEvent.OutputObject
+    >;
+
+    "WinnerRevealed(address,uint256)": TypedContractEvent<
+      WinnerRevealedEvent.InputTuple,
+      WinnerRevealedEvent.OutputTuple,
+      WinnerRevealedEvent.OutputObject
+    >;
+    WinnerRevealed: TypedContractEvent<
+      WinnerRevealedEvent.InputTuple,
+      WinnerRevealedEvent.OutputTuple,
+      WinnerRevealedEvent.OutputObject
+    >;
+  };
+}
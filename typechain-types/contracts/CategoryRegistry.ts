@@ -0,0 +1,425 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace CategoryRegistry {
+  export type CategoryStruct = {
+    id: BigNumberish;
+    name: string;
+    metadataURI: string;
+    isEnabled: boolean;
+  };
+
+  export type CategoryStructOutput = [
+    id: bigint,
+    name: string,
+    metadataURI: string,
+    isEnabled: boolean
+  ] & { id: bigint; name: string; metadataURI: string; isEnabled: boolean };
+}
+
+export interface CategoryRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addCategory"
+      | "getCategories"
+      | "getCategory"
+      | "getCategoryId"
+      | "governance"
+      | "isValidCategory"
+      | "nextCategoryId"
+      | "renameCategory"
+      | "setCategoryEnabled"
+      | "setCategoryMetadataURI"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CategoryAdded"
+      | "CategoryMetadataUpdated"
+      | "CategoryRenamed"
+      | "CategoryStatusChanged"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addCategory",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategories",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategoryId",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "governance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isValidCategory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextCategoryId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renameCategory",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCategoryEnabled",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCategoryMetadataURI",
+    values: [BigNumberish, string]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "addCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategories",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategoryId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "governance", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isValidCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextCategoryId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renameCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCategoryEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCategoryMetadataURI",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CategoryAddedEvent {
+  export type InputTuple = [
+    categoryId: BigNumberish,
+    name: string,
+    metadataURI: string
+  ];
+  export type OutputTuple = [
+    categoryId: bigint,
+    name: string,
+    metadataURI: string
+  ];
+  export interface OutputObject {
+    categoryId: bigint;
+    name: string;
+    metadataURI: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CategoryMetadataUpdatedEvent {
+  export type InputTuple = [categoryId: BigNumberish, metadataURI: string];
+  export type OutputTuple = [categoryId: bigint, metadataURI: string];
+  export interface OutputObject {
+    categoryId: bigint;
+    metadataURI: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CategoryRenamedEvent {
+  export type InputTuple = [categoryId: BigNumberish, name: string];
+  export type OutputTuple = [categoryId: bigint, name: string];
+  export interface OutputObject {
+    categoryId: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CategoryStatusChangedEvent {
+  export type InputTuple = [categoryId: BigNumberish, isEnabled: boolean];
+  export type OutputTuple = [categoryId: bigint, isEnabled: boolean];
+  export interface OutputObject {
+    categoryId: bigint;
+    isEnabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CategoryRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): CategoryRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: CategoryRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addCategory: TypedContractMethod<
+    [_name: string, _metadataURI: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getCategories: TypedContractMethod<
+    [],
+    [CategoryRegistry.CategoryStructOutput[]],
+    "view"
+  >;
+
+  getCategory: TypedContractMethod<
+    [_categoryId: BigNumberish],
+    [CategoryRegistry.CategoryStructOutput],
+    "view"
+  >;
+
+  getCategoryId: TypedContractMethod<[_name: string], [bigint], "view">;
+
+  governance: TypedContractMethod<[], [string], "view">;
+
+  isValidCategory: TypedContractMethod<
+    [_categoryId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  nextCategoryId: TypedContractMethod<[], [bigint], "view">;
+
+  renameCategory: TypedContractMethod<
+    [_categoryId: BigNumberish, _name: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setCategoryEnabled: TypedContractMethod<
+    [_categoryId: BigNumberish, _isEnabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setCategoryMetadataURI: TypedContractMethod<
+    [_categoryId: BigNumberish, _metadataURI: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addCategory"
+  ): TypedContractMethod<
+    [_name: string, _metadataURI: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getCategories"
+  ): TypedContractMethod<[], [CategoryRegistry.CategoryStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "getCategory"
+  ): TypedContractMethod<
+    [_categoryId: BigNumberish],
+    [CategoryRegistry.CategoryStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCategoryId"
+  ): TypedContractMethod<[_name: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "governance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "isValidCategory"
+  ): TypedContractMethod<[_categoryId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "nextCategoryId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "renameCategory"
+  ): TypedContractMethod<
+    [_categoryId: BigNumberish, _name: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCategoryEnabled"
+  ): TypedContractMethod<
+    [_categoryId: BigNumberish, _isEnabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCategoryMetadataURI"
+  ): TypedContractMethod<
+    [_categoryId: BigNumberish, _metadataURI: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "CategoryAdded"
+  ): TypedContractEvent<
+    CategoryAddedEvent.InputTuple,
+    CategoryAddedEvent.OutputTuple,
+    CategoryAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CategoryMetadataUpdated"
+  ): TypedContractEvent<
+    CategoryMetadataUpdatedEvent.InputTuple,
+    CategoryMetadataUpdatedEvent.OutputTuple,
+    CategoryMetadataUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CategoryRenamed"
+  ): TypedContractEvent<
+    CategoryRenamedEvent.InputTuple,
+    CategoryRenamedEvent.OutputTuple,
+    CategoryRenamedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CategoryStatusChanged"
+  ): TypedContractEvent<
+    CategoryStatusChangedEvent.InputTuple,
+    CategoryStatusChangedEvent.OutputTuple,
+    CategoryStatusChangedEvent.OutputObject
+  >;
+
+  filters: {
+    "CategoryAdded(uint256,string,string)": TypedContractEvent<
+      CategoryAddedEvent.InputTuple,
+      CategoryAddedEvent.OutputTuple,
+      CategoryAddedEvent.OutputObject
+    >;
+    CategoryAdded: TypedContractEvent<
+      CategoryAddedEvent.InputTuple,
+      CategoryAddedEvent.OutputTuple,
+      CategoryAddedEvent.OutputObject
+    >;
+
+    "CategoryMetadataUpdated(uint256,string)": TypedContractEvent<
+      CategoryMetadataUpdatedEvent.InputTuple,
+      CategoryMetadataUpdatedEvent.OutputTuple,
+      CategoryMetadataUpdatedEvent.OutputObject
+    >;
+    CategoryMetadataUpdated: TypedContractEvent<
+      CategoryMetadataUpdatedEvent.InputTuple,
+      CategoryMetadataUpdatedEvent.OutputTuple,
+      CategoryMetadataUpdatedEvent.OutputObject
+    >;
+
+    "CategoryRenamed(uint256,string)": TypedContractEvent<
+      CategoryRenamedEvent.InputTuple,
+      CategoryRenamedEvent.OutputTuple,
+      CategoryRenamedEvent.OutputObject
+    >;
+    CategoryRenamed: TypedContractEvent<
+      CategoryRenamedEvent.InputTuple,
+      CategoryRenamedEvent.OutputTuple,
+      CategoryRenamedEvent.OutputObject
+    >;
+
+    "CategoryStatusChanged(uint256,bool)": TypedContractEvent<
+      CategoryStatusChangedEvent.InputTuple,
+      CategoryStatusChangedEvent.OutputTuple,
+      CategoryStatusChangedEvent.OutputObject
+    >;
+    CategoryStatusChanged: TypedContractEvent<
+      CategoryStatusChangedEvent.InputTuple,
+      CategoryStatusChangedEvent.OutputTuple,
+      CategoryStatusChangedEvent.OutputObject
+    >;
+  };
+}
@@ -28,7 +28,7 @@ export declare namespace ConfidentialAuction {
     id: BigNumberish;
     title: string;
     description: string;
-    category: string;
+    categoryId: BigNumberish;
     minimumBid: BigNumberish;
     creator: AddressLike;
     timestamp: BigNumberish;
@@ -37,13 +37,17 @@ export declare namespace ConfidentialAuction {
     highestBidAmount: BytesLike;
     highestBidder: AddressLike;
     bidCount: BigNumberish;
+    encryptedHighestBidder: BytesLike;
+    winningBid: BigNumberish;
+    startTime: BigNumberish;
+    auctionType: BigNumberish;
   };
 
   export type AuctionStructOutput = [
     id: bigint,
     title: string,
     description: string,
-    category: string,
+    categoryId: bigint,
     minimumBid: bigint,
     creator: string,
     timestamp: bigint,
@@ -51,12 +55,16 @@ export declare namespace ConfidentialAuction {
     endTime: bigint,
     highestBidAmount: string,
     highestBidder: string,
-    bidCount: bigint
+    bidCount: bigint,
+    encryptedHighestBidder: string,
+    winningBid: bigint,
+    startTime: bigint,
+    auctionType: bigint
   ] & {
     id: bigint;
     title: string;
     description: string;
-    category: string;
+    categoryId: bigint;
     minimumBid: bigint;
     creator: string;
     timestamp: bigint;
@@ -65,45 +73,258 @@ export declare namespace ConfidentialAuction {
     highestBidAmount: string;
     highestBidder: string;
     bidCount: bigint;
+    encryptedHighestBidder: string;
+    winningBid: bigint;
+    startTime: bigint;
+    auctionType: bigint;
+  };
+
+  export type AuctionFilterStruct = {
+    status: BigNumberish;
+    categoryId: BigNumberish;
+    creator: AddressLike;
+  };
+
+  export type AuctionFilterStructOutput = [
+    status: bigint,
+    categoryId: bigint,
+    creator: string
+  ] & { status: bigint; categoryId: bigint; creator: string };
+
+  export type AuctionSummaryStruct = {
+    id: BigNumberish;
+    title: string;
+    categoryId: BigNumberish;
+    minimumBid: BigNumberish;
+    creator: AddressLike;
+    isActive: boolean;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    bidCount: BigNumberish;
+    auctionType: BigNumberish;
+  };
+
+  export type AuctionSummaryStructOutput = [
+    id: bigint,
+    title: string,
+    categoryId: bigint,
+    minimumBid: bigint,
+    creator: string,
+    isActive: boolean,
+    startTime: bigint,
+    endTime: bigint,
+    bidCount: bigint,
+    auctionType: bigint
+  ] & {
+    id: bigint;
+    title: string;
+    categoryId: bigint;
+    minimumBid: bigint;
+    creator: string;
+    isActive: boolean;
+    startTime: bigint;
+    endTime: bigint;
+    bidCount: bigint;
+    auctionType: bigint;
   };
 }
 
 export interface ConfidentialAuctionInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "CANCELLATION_PENALTY_BPS"
+      | "DEFAULT_DURATION"
+      | "MAX_DURATION"
+      | "MAX_PAGE_SIZE"
+      | "MAX_SCAN"
+      | "MAX_START_DELAY"
+      | "MAX_WITHDRAWABLE_BIDS"
+      | "MIN_DURATION"
+      | "activeAuctionsByCategory"
+      | "allowBidWithdrawals"
       | "auctionBids"
-      | "auctions"
+      | "auctionMetadata"
+      | "auctionProceeds"
+      | "bidDeposits"
+      | "bidWithdrawalsAllowed"
+      | "cancelAuction"
+      | "cancelListing"
+      | "cancellationCompensation"
+      | "cancelled"
+      | "categoryRegistry"
+      | "claimProceeds"
+      | "configureSoftClose"
       | "createAuction"
+      | "createAuctionWithMetadata"
+      | "dutchStartPrices"
       | "emergencyWithdraw"
       | "endAuction"
       | "getActiveAuctions"
       | "getAuction"
       | "getAuctionBidCount"
+      | "getAuctionPhase"
+      | "getAuctions"
+      | "getAuctionsByCategory"
+      | "getCurrentAsk"
+      | "getMyBid"
       | "getTotalCounts"
       | "getUserAuctions"
+      | "governance"
       | "hasPlacedBid"
+      | "hasReserve"
       | "hasUserBid"
       | "nextAuctionId"
       | "placeBid"
+      | "reserveNotMet"
+      | "retrySettlement"
+      | "revealWinner"
+      | "settlementPending"
+      | "softCloses"
       | "totalAuctions"
+      | "totalEscrowed"
+      | "updateBid"
       | "userAuctions"
+      | "withdrawBid"
+      | "withdrawRefund"
   ): FunctionFragment;
 
   getEvent(
-    nameOrSignatureOrTopic: "AuctionCreated" | "AuctionEnded" | "BidPlaced"
+    nameOrSignatureOrTopic:
+      | "AuctionCancelled"
+      | "AuctionCreated"
+      | "AuctionEnded"
+      | "AuctionExtended"
+      | "AuctionMetadataSet"
+      | "BidPlaced"
+      | "BidUpdated"
+      | "BidWithdrawn"
+      | "DecryptionFulfilled"
+      | "DutchPriceStep"
+      | "ProceedsClaimed"
+      | "RefundWithdrawn"
+      | "ReserveNotMet"
+      | "SettlementRequested"
+      | "WinnerRevealed"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "CANCELLATION_PENALTY_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_SCAN", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_START_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_WITHDRAWABLE_BIDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activeAuctionsByCategory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowBidWithdrawals",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "auctionBids",
     values: [BigNumberish, BigNumberish]
   ): string;
   encodeFunctionData(
-    functionFragment: "auctions",
+    functionFragment: "auctionMetadata",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "auctionProceeds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidDeposits",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidWithdrawalsAllowed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelListing",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancellationCompensation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "categoryRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimProceeds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configureSoftClose",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "createAuction",
-    values: [string, string, string, BigNumberish]
+    values: [
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuctionWithMetadata",
+    values: [
+      BytesLike,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dutchStartPrices",
+    values: [BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "emergencyWithdraw",
@@ -125,6 +346,30 @@ export interface ConfidentialAuctionInterface extends Interface {
     functionFragment: "getAuctionBidCount",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionPhase",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctions",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      ConfidentialAuction.AuctionFilterStruct
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionsByCategory",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurrentAsk",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMyBid",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getTotalCounts",
     values?: undefined
@@ -133,10 +378,18 @@ export interface ConfidentialAuctionInterface extends Interface {
     functionFragment: "getUserAuctions",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "governance",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "hasPlacedBid",
     values: [AddressLike, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hasReserve",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "hasUserBid",
     values: [AddressLike, BigNumberish]
@@ -147,26 +400,147 @@ export interface ConfidentialAuctionInterface extends Interface {
   ): string;
   encodeFunctionData(
     functionFragment: "placeBid",
-    values: [BigNumberish, boolean, BigNumberish, string]
+    values: [BigNumberish, boolean, BytesLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reserveNotMet",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retrySettlement",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealWinner",
+    values: [BigNumberish, BigNumberish, AddressLike, boolean, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settlementPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "softCloses",
+    values: [BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "totalAuctions",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "totalEscrowed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateBid",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "userAuctions",
     values: [AddressLike, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawBid",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawRefund",
+    values: [BigNumberish]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "CANCELLATION_PENALTY_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_SCAN", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_START_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_WITHDRAWABLE_BIDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activeAuctionsByCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowBidWithdrawals",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "auctionBids",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "auctions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionProceeds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bidDeposits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "bidWithdrawalsAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancellationCompensation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelled", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "categoryRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimProceeds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "configureSoftClose",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "createAuction",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuctionWithMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dutchStartPrices",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "emergencyWithdraw",
     data: BytesLike
@@ -181,6 +555,23 @@ export interface ConfidentialAuctionInterface extends Interface {
     functionFragment: "getAuctionBidCount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionPhase",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionsByCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurrentAsk",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getMyBid", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getTotalCounts",
     data: BytesLike
@@ -189,31 +580,76 @@ export interface ConfidentialAuctionInterface extends Interface {
     functionFragment: "getUserAuctions",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "governance", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "hasPlacedBid",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "hasReserve", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "hasUserBid", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "nextAuctionId",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "placeBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reserveNotMet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retrySettlement",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealWinner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settlementPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "softCloses", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "totalAuctions",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalEscrowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updateBid", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "userAuctions",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawRefund",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuctionCancelledEvent {
+  export type InputTuple = [auctionId: BigNumberish, cancelledBy: AddressLike];
+  export type OutputTuple = [auctionId: bigint, cancelledBy: string];
+  export interface OutputObject {
+    auctionId: bigint;
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
 export namespace AuctionCreatedEvent {
   export type InputTuple = [
     auctionId: BigNumberish,
     title: string,
-    category: string,
+    categoryId: BigNumberish,
     minimumBid: BigNumberish,
     creator: AddressLike,
     endTime: BigNumberish
@@ -221,7 +657,7 @@ export namespace AuctionCreatedEvent {
   export type OutputTuple = [
     auctionId: bigint,
     title: string,
-    category: string,
+    categoryId: bigint,
     minimumBid: bigint,
     creator: string,
     endTime: bigint
@@ -229,7 +665,7 @@ export namespace AuctionCreatedEvent {
   export interface OutputObject {
     auctionId: bigint;
     title: string;
-    category: string;
+    categoryId: bigint;
     minimumBid: bigint;
     creator: string;
     endTime: bigint;
@@ -262,6 +698,41 @@ export namespace AuctionEndedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace AuctionExtendedEvent {
+  export type InputTuple = [auctionId: BigNumberish, newEndTime: BigNumberish];
+  export type OutputTuple = [auctionId: bigint, newEndTime: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    newEndTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionMetadataSetEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    contentHash: BytesLike,
+    uri: string
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    contentHash: string,
+    uri: string
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    contentHash: string;
+    uri: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace BidPlacedEvent {
   export type InputTuple = [
     auctionId: BigNumberish,
@@ -284,6 +755,167 @@ export namespace BidPlacedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace BidUpdatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidWithdrawnEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    refund: BigNumberish
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, refund: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    refund: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DutchPriceStepEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    askPrice: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    askPrice: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    askPrice: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProceedsClaimedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    creator: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundWithdrawnEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, amount: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReserveNotMetEvent {
+  export type InputTuple = [auctionId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SettlementRequestedEvent {
+  export type InputTuple = [auctionId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint, requestId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerRevealedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    winner: AddressLike,
+    winningBid: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    winner: string,
+    winningBid: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    winner: string;
+    winningBid: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface ConfidentialAuction extends BaseContract {
   connect(runner?: ContractRunner | null): ConfidentialAuction;
   waitForDeployment(): Promise<this>;
@@ -327,66 +959,145 @@ export interface ConfidentialAuction extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  CANCELLATION_PENALTY_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  DEFAULT_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SCAN: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_START_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_WITHDRAWABLE_BIDS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  activeAuctionsByCategory: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  allowBidWithdrawals: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   auctionBids: TypedContractMethod<
     [arg0: BigNumberish, arg1: BigNumberish],
     [
-      [string, string, string, string, bigint, boolean] & {
+      [string, string, string, string, bigint, boolean, boolean] & {
         bidder: string;
         amount: string;
         isHighBid: string;
         comments: string;
         timestamp: bigint;
         isRevealed: boolean;
+        isWithdrawn: boolean;
       }
     ],
     "view"
   >;
 
-  auctions: TypedContractMethod<
+  auctionMetadata: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, string] & { contentHash: string; uri: string }],
+    "view"
+  >;
+
+  auctionProceeds: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  bidDeposits: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  bidWithdrawalsAllowed: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  cancelAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  cancelListing: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancellationCompensation: TypedContractMethod<
     [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  cancelled: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  categoryRegistry: TypedContractMethod<[], [string], "view">;
+
+  claimProceeds: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  configureSoftClose: TypedContractMethod<
     [
-      [
-        bigint,
-        string,
-        string,
-        string,
-        bigint,
-        string,
-        bigint,
-        boolean,
-        bigint,
-        string,
-        string,
-        bigint
-      ] & {
-        id: bigint;
-        title: string;
-        description: string;
-        category: string;
-        minimumBid: bigint;
-        creator: string;
-        timestamp: bigint;
-        isActive: boolean;
-        endTime: bigint;
-        highestBidAmount: string;
-        highestBidder: string;
-        bidCount: bigint;
-      }
+      _auctionId: BigNumberish,
+      _window: BigNumberish,
+      _extension: BigNumberish,
+      _maxExtension: BigNumberish
     ],
-    "view"
+    [void],
+    "nonpayable"
   >;
 
   createAuction: TypedContractMethod<
     [
       _title: string,
       _description: string,
-      _category: string,
-      _minimumBid: BigNumberish
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish,
+      _encryptedReserve: BytesLike,
+      _reserveProof: BytesLike,
+      _auctionType: BigNumberish,
+      _startPrice: BigNumberish
     ],
     [void],
     "nonpayable"
   >;
 
+  createAuctionWithMetadata: TypedContractMethod<
+    [
+      _contentHash: BytesLike,
+      _uri: string,
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish,
+      _encryptedReserve: BytesLike,
+      _reserveProof: BytesLike,
+      _auctionType: BigNumberish,
+      _startPrice: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  dutchStartPrices: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
   emergencyWithdraw: TypedContractMethod<[], [void], "nonpayable">;
 
   endAuction: TypedContractMethod<
@@ -413,6 +1124,46 @@ export interface ConfidentialAuction extends BaseContract {
     "view"
   >;
 
+  getAuctionPhase: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getAuctions: TypedContractMethod<
+    [
+      _offset: BigNumberish,
+      _limit: BigNumberish,
+      _filter: ConfidentialAuction.AuctionFilterStruct
+    ],
+    [
+      [ConfidentialAuction.AuctionSummaryStructOutput[], bigint] & {
+        page: ConfidentialAuction.AuctionSummaryStructOutput[];
+        nextOffset: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAuctionsByCategory: TypedContractMethod<
+    [_categoryId: BigNumberish, _offset: BigNumberish, _limit: BigNumberish],
+    [
+      [ConfidentialAuction.AuctionSummaryStructOutput[], bigint] & {
+        page: ConfidentialAuction.AuctionSummaryStructOutput[];
+        nextOffset: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getCurrentAsk: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getMyBid: TypedContractMethod<[_auctionId: BigNumberish], [string], "view">;
+
   getTotalCounts: TypedContractMethod<
     [],
     [
@@ -430,12 +1181,16 @@ export interface ConfidentialAuction extends BaseContract {
     "view"
   >;
 
+  governance: TypedContractMethod<[], [string], "view">;
+
   hasPlacedBid: TypedContractMethod<
     [_user: AddressLike, _auctionId: BigNumberish],
     [boolean],
     "view"
   >;
 
+  hasReserve: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
   hasUserBid: TypedContractMethod<
     [arg0: AddressLike, arg1: BigNumberish],
     [boolean],
@@ -448,75 +1203,184 @@ export interface ConfidentialAuction extends BaseContract {
     [
       _auctionId: BigNumberish,
       _isHighBid: boolean,
-      _bidAmount: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike,
       _comments: string
     ],
     [void],
     "payable"
   >;
 
+  reserveNotMet: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  retrySettlement: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealWinner: TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _winningBid: BigNumberish,
+      _winner: AddressLike,
+      _reserveMet: boolean,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  settlementPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  softCloses: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        window: bigint;
+        extension: bigint;
+        maxEndTime: bigint;
+      }
+    ],
+    "view"
+  >;
+
   totalAuctions: TypedContractMethod<[], [bigint], "view">;
 
+  totalEscrowed: TypedContractMethod<[], [bigint], "view">;
+
+  updateBid: TypedContractMethod<
+    [
+      _auctionId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
   userAuctions: TypedContractMethod<
     [arg0: AddressLike, arg1: BigNumberish],
     [bigint],
     "view"
   >;
 
+  withdrawBid: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawRefund: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "CANCELLATION_PENALTY_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SCAN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_START_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_WITHDRAWABLE_BIDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "activeAuctionsByCategory"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "allowBidWithdrawals"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "auctionBids"
   ): TypedContractMethod<
     [arg0: BigNumberish, arg1: BigNumberish],
     [
-      [string, string, string, string, bigint, boolean] & {
+      [string, string, string, string, bigint, boolean, boolean] & {
         bidder: string;
         amount: string;
         isHighBid: string;
         comments: string;
         timestamp: bigint;
         isRevealed: boolean;
+        isWithdrawn: boolean;
       }
     ],
     "view"
   >;
   getFunction(
-    nameOrSignature: "auctions"
+    nameOrSignature: "auctionMetadata"
   ): TypedContractMethod<
     [arg0: BigNumberish],
+    [[string, string] & { contentHash: string; uri: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "auctionProceeds"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "bidDeposits"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "bidWithdrawalsAllowed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "cancelAuction"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "cancelListing"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancellationCompensation"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelled"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "categoryRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "claimProceeds"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "configureSoftClose"
+  ): TypedContractMethod<
     [
-      [
-        bigint,
-        string,
-        string,
-        string,
-        bigint,
-        string,
-        bigint,
-        boolean,
-        bigint,
-        string,
-        string,
-        bigint
-      ] & {
-        id: bigint;
-        title: string;
-        description: string;
-        category: string;
-        minimumBid: bigint;
-        creator: string;
-        timestamp: bigint;
-        isActive: boolean;
-        endTime: bigint;
-        highestBidAmount: string;
-        highestBidder: string;
-        bidCount: bigint;
-      }
+      _auctionId: BigNumberish,
+      _window: BigNumberish,
+      _extension: BigNumberish,
+      _maxExtension: BigNumberish
     ],
-    "view"
+    [void],
+    "nonpayable"
   >;
   getFunction(
     nameOrSignature: "createAuction"
@@ -524,12 +1388,39 @@ export interface ConfidentialAuction extends BaseContract {
     [
       _title: string,
       _description: string,
-      _category: string,
-      _minimumBid: BigNumberish
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish,
+      _encryptedReserve: BytesLike,
+      _reserveProof: BytesLike,
+      _auctionType: BigNumberish,
+      _startPrice: BigNumberish
     ],
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "createAuctionWithMetadata"
+  ): TypedContractMethod<
+    [
+      _contentHash: BytesLike,
+      _uri: string,
+      _categoryId: BigNumberish,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish,
+      _encryptedReserve: BytesLike,
+      _reserveProof: BytesLike,
+      _auctionType: BigNumberish,
+      _startPrice: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "dutchStartPrices"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "emergencyWithdraw"
   ): TypedContractMethod<[], [void], "nonpayable">;
@@ -553,6 +1444,43 @@ export interface ConfidentialAuction extends BaseContract {
   getFunction(
     nameOrSignature: "getAuctionBidCount"
   ): TypedContractMethod<[_auctionId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAuctionPhase"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAuctions"
+  ): TypedContractMethod<
+    [
+      _offset: BigNumberish,
+      _limit: BigNumberish,
+      _filter: ConfidentialAuction.AuctionFilterStruct
+    ],
+    [
+      [ConfidentialAuction.AuctionSummaryStructOutput[], bigint] & {
+        page: ConfidentialAuction.AuctionSummaryStructOutput[];
+        nextOffset: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuctionsByCategory"
+  ): TypedContractMethod<
+    [_categoryId: BigNumberish, _offset: BigNumberish, _limit: BigNumberish],
+    [
+      [ConfidentialAuction.AuctionSummaryStructOutput[], bigint] & {
+        page: ConfidentialAuction.AuctionSummaryStructOutput[];
+        nextOffset: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCurrentAsk"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getMyBid"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "getTotalCounts"
   ): TypedContractMethod<
@@ -568,6 +1496,9 @@ export interface ConfidentialAuction extends BaseContract {
   getFunction(
     nameOrSignature: "getUserAuctions"
   ): TypedContractMethod<[_user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "governance"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "hasPlacedBid"
   ): TypedContractMethod<
@@ -575,6 +1506,9 @@ export interface ConfidentialAuction extends BaseContract {
     [boolean],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "hasReserve"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
   getFunction(
     nameOrSignature: "hasUserBid"
   ): TypedContractMethod<
@@ -591,15 +1525,65 @@ export interface ConfidentialAuction extends BaseContract {
     [
       _auctionId: BigNumberish,
       _isHighBid: boolean,
-      _bidAmount: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike,
       _comments: string
     ],
     [void],
     "payable"
   >;
+  getFunction(
+    nameOrSignature: "reserveNotMet"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "retrySettlement"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealWinner"
+  ): TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _winningBid: BigNumberish,
+      _winner: AddressLike,
+      _reserveMet: boolean,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settlementPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "softCloses"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        window: bigint;
+        extension: bigint;
+        maxEndTime: bigint;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "totalAuctions"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalEscrowed"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "updateBid"
+  ): TypedContractMethod<
+    [
+      _auctionId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
   getFunction(
     nameOrSignature: "userAuctions"
   ): TypedContractMethod<
@@ -607,7 +1591,20 @@ export interface ConfidentialAuction extends BaseContract {
     [bigint],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "withdrawBid"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawRefund"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
 
+  getEvent(
+    key: "AuctionCancelled"
+  ): TypedContractEvent<
+    AuctionCancelledEvent.InputTuple,
+    AuctionCancelledEvent.OutputTuple,
+    AuctionCancelledEvent.OutputObject
+  >;
   getEvent(
     key: "AuctionCreated"
   ): TypedContractEvent<
@@ -622,6 +1619,20 @@ export interface ConfidentialAuction extends BaseContract {
     AuctionEndedEvent.OutputTuple,
     AuctionEndedEvent.OutputObject
   >;
+  getEvent(
+    key: "AuctionExtended"
+  ): TypedContractEvent<
+    AuctionExtendedEvent.InputTuple,
+    AuctionExtendedEvent.OutputTuple,
+    AuctionExtendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionMetadataSet"
+  ): TypedContractEvent<
+    AuctionMetadataSetEvent.InputTuple,
+    AuctionMetadataSetEvent.OutputTuple,
+    AuctionMetadataSetEvent.OutputObject
+  >;
   getEvent(
     key: "BidPlaced"
   ): TypedContractEvent<
@@ -629,9 +1640,83 @@ export interface ConfidentialAuction extends BaseContract {
     BidPlacedEvent.OutputTuple,
     BidPlacedEvent.OutputObject
   >;
+  getEvent(
+    key: "BidUpdated"
+  ): TypedContractEvent<
+    BidUpdatedEvent.InputTuple,
+    BidUpdatedEvent.OutputTuple,
+    BidUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidWithdrawn"
+  ): TypedContractEvent<
+    BidWithdrawnEvent.InputTuple,
+    BidWithdrawnEvent.OutputTuple,
+    BidWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DutchPriceStep"
+  ): TypedContractEvent<
+    DutchPriceStepEvent.InputTuple,
+    DutchPriceStepEvent.OutputTuple,
+    DutchPriceStepEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProceedsClaimed"
+  ): TypedContractEvent<
+    ProceedsClaimedEvent.InputTuple,
+    ProceedsClaimedEvent.OutputTuple,
+    ProceedsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundWithdrawn"
+  ): TypedContractEvent<
+    RefundWithdrawnEvent.InputTuple,
+    RefundWithdrawnEvent.OutputTuple,
+    RefundWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReserveNotMet"
+  ): TypedContractEvent<
+    ReserveNotMetEvent.InputTuple,
+    ReserveNotMetEvent.OutputTuple,
+    ReserveNotMetEvent.OutputObject
+  >;
+  getEvent(
+    key: "SettlementRequested"
+  ): TypedContractEvent<
+    SettlementRequestedEvent.InputTuple,
+    SettlementRequestedEvent.OutputTuple,
+    SettlementRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerRevealed"
+  ): TypedContractEvent<
+    WinnerRevealedEvent.InputTuple,
+    WinnerRevealedEvent.OutputTuple,
+    WinnerRevealedEvent.OutputObject
+  >;
 
   filters: {
-    "AuctionCreated(uint256,string,string,uint256,address,uint256)": TypedContractEvent<
+    "AuctionCancelled(uint256,address)": TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+    AuctionCancelled: TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+
+    "AuctionCreated(uint256,string,uint256,uint256,address,uint256)": TypedContractEvent<
       AuctionCreatedEvent.InputTuple,
       AuctionCreatedEvent.OutputTuple,
       AuctionCreatedEvent.OutputObject
@@ -653,6 +1738,28 @@ export interface ConfidentialAuction extends BaseContract {
       AuctionEndedEvent.OutputObject
     >;
 
+    "AuctionExtended(uint256,uint256)": TypedContractEvent<
+      AuctionExtendedEvent.InputTuple,
+      AuctionExtendedEvent.OutputTuple,
+      AuctionExtendedEvent.OutputObject
+    >;
+    AuctionExtended: TypedContractEvent<
+      AuctionExtendedEvent.InputTuple,
+      AuctionExtendedEvent.OutputTuple,
+      AuctionExtendedEvent.OutputObject
+    >;
+
+    "AuctionMetadataSet(uint256,bytes32,string)": TypedContractEvent<
+      AuctionMetadataSetEvent.InputTuple,
+      AuctionMetadataSetEvent.OutputTuple,
+      AuctionMetadataSetEvent.OutputObject
+    >;
+    AuctionMetadataSet: TypedContractEvent<
+      AuctionMetadataSetEvent.InputTuple,
+      AuctionMetadataSetEvent.OutputTuple,
+      AuctionMetadataSetEvent.OutputObject
+    >;
+
     "BidPlaced(uint256,address,uint256)": TypedContractEvent<
       BidPlacedEvent.InputTuple,
       BidPlacedEvent.OutputTuple,
@@ -663,5 +1770,104 @@ export interface ConfidentialAuction extends BaseContract {
       BidPlacedEvent.OutputTuple,
       BidPlacedEvent.OutputObject
     >;
+
+    "BidUpdated(uint256,address,uint256)": TypedContractEvent<
+      BidUpdatedEvent.InputTuple,
+      BidUpdatedEvent.OutputTuple,
+      BidUpdatedEvent.OutputObject
+    >;
+    BidUpdated: TypedContractEvent<
+      BidUpdatedEvent.InputTuple,
+      BidUpdatedEvent.OutputTuple,
+      BidUpdatedEvent.OutputObject
+    >;
+
+    "BidWithdrawn(uint256,address,uint256)": TypedContractEvent<
+      BidWithdrawnEvent.InputTuple,
+      BidWithdrawnEvent.OutputTuple,
+      BidWithdrawnEvent.OutputObject
+    >;
+    BidWithdrawn: TypedContractEvent<
+      BidWithdrawnEvent.InputTuple,
+      BidWithdrawnEvent.OutputTuple,
+      BidWithdrawnEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DutchPriceStep(uint256,uint256,uint256)": TypedContractEvent<
+      DutchPriceStepEvent.InputTuple,
+      DutchPriceStepEvent.OutputTuple,
+      DutchPriceStepEvent.OutputObject
+    >;
+    DutchPriceStep: TypedContractEvent<
+      DutchPriceStepEvent.InputTuple,
+      DutchPriceStepEvent.OutputTuple,
+      DutchPriceStepEvent.OutputObject
+    >;
+
+    "ProceedsClaimed(uint256,address,uint256)": TypedContractEvent<
+      ProceedsClaimedEvent.InputTuple,
+      ProceedsClaimedEvent.OutputTuple,
+      ProceedsClaimedEvent.OutputObject
+    >;
+    ProceedsClaimed: TypedContractEvent<
+      ProceedsClaimedEvent.InputTuple,
+      ProceedsClaimedEvent.OutputTuple,
+      ProceedsClaimedEvent.OutputObject
+    >;
+
+    "RefundWithdrawn(uint256,address,uint256)": TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+    RefundWithdrawn: TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+
+    "ReserveNotMet(uint256)": TypedContractEvent<
+      ReserveNotMetEvent.InputTuple,
+      ReserveNotMetEvent.OutputTuple,
+      ReserveNotMetEvent.OutputObject
+    >;
+    ReserveNotMet: TypedContractEvent<
+      ReserveNotMetEvent.InputTuple,
+      ReserveNotMetEvent.OutputTuple,
+      ReserveNotMetEvent.OutputObject
+    >;
+
+    "SettlementRequested(uint256,uint256)": TypedContractEvent<
+      SettlementRequestedEvent.InputTuple,
+      SettlementRequestedEvent.OutputTuple,
+      SettlementRequestedEvent.OutputObject
+    >;
+    SettlementRequested: TypedContractEvent<
+      SettlementRequestedEvent.InputTuple,
+      SettlementRequestedEvent.OutputTuple,
+      SettlementRequestedEvent.OutputObject
+    >;
+
+    "WinnerRevealed(uint256,address,uint256)": TypedContractEvent<
+      WinnerRevealedEvent.InputTuple,
+      WinnerRevealedEvent.OutputTuple,
+      WinnerRevealedEvent.OutputObject
+    >;
+    WinnerRevealed: TypedContractEvent<
+      WinnerRevealedEvent.InputTuple,
+      WinnerRevealedEvent.OutputTuple,
+      WinnerRevealedEvent.OutputObject
+    >;
   };
 }
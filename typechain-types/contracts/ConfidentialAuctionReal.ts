@@ -33,6 +33,7 @@ export interface ConfidentialAuctionRealInterface extends Interface {
       | "getAuctionInfo"
       | "getBidCount"
       | "getHighestBidder"
+      | "getMyBid"
       | "getTotalCounts"
       | "getUserAuctions"
       | "hasUserBid"
@@ -76,6 +77,10 @@ export interface ConfidentialAuctionRealInterface extends Interface {
     functionFragment: "getHighestBidder",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getMyBid",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getTotalCounts",
     values?: undefined
@@ -135,6 +140,7 @@ export interface ConfidentialAuctionRealInterface extends Interface {
     functionFragment: "getHighestBidder",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "getMyBid", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getTotalCounts",
     data: BytesLike
@@ -374,6 +380,8 @@ export interface ConfidentialAuctionReal extends BaseContract {
     "view"
   >;
 
+  getMyBid: TypedContractMethod<[_auctionId: BigNumberish], [string], "view">;
+
   getTotalCounts: TypedContractMethod<
     [],
     [
@@ -533,6 +541,9 @@ export interface ConfidentialAuctionReal extends BaseContract {
   getFunction(
     nameOrSignature: "getHighestBidder"
   ): TypedContractMethod<[_auctionId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getMyBid"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "getTotalCounts"
   ): TypedContractMethod<
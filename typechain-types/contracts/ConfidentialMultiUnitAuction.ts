@@ -0,0 +1,1174 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace ConfidentialMultiUnitAuction {
+  export type AuctionStruct = {
+    id: BigNumberish;
+    title: string;
+    description: string;
+    category: string;
+    units: BigNumberish;
+    minimumPrice: BigNumberish;
+    creator: AddressLike;
+    timestamp: BigNumberish;
+    isActive: boolean;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    bidCount: BigNumberish;
+    clearingPrice: BigNumberish;
+    unitsSold: BigNumberish;
+  };
+
+  export type AuctionStructOutput = [
+    id: bigint,
+    title: string,
+    description: string,
+    category: string,
+    units: bigint,
+    minimumPrice: bigint,
+    creator: string,
+    timestamp: bigint,
+    isActive: boolean,
+    startTime: bigint,
+    endTime: bigint,
+    bidCount: bigint,
+    clearingPrice: bigint,
+    unitsSold: bigint
+  ] & {
+    id: bigint;
+    title: string;
+    description: string;
+    category: string;
+    units: bigint;
+    minimumPrice: bigint;
+    creator: string;
+    timestamp: bigint;
+    isActive: boolean;
+    startTime: bigint;
+    endTime: bigint;
+    bidCount: bigint;
+    clearingPrice: bigint;
+    unitsSold: bigint;
+  };
+}
+
+export interface ConfidentialMultiUnitAuctionInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_DURATION"
+      | "MAX_BIDS"
+      | "MAX_DURATION"
+      | "MAX_START_DELAY"
+      | "MIN_DURATION"
+      | "auctionBids"
+      | "auctionProceeds"
+      | "auctions"
+      | "bidDeposits"
+      | "bidSettled"
+      | "cancelListing"
+      | "cancelled"
+      | "claimProceeds"
+      | "createAuction"
+      | "endAuction"
+      | "getAllocation"
+      | "getAuction"
+      | "getAuctionBidCount"
+      | "governance"
+      | "hasPlacedBid"
+      | "hasUserBid"
+      | "nextAuctionId"
+      | "placeBid"
+      | "retrySettlement"
+      | "revealClearingPrice"
+      | "revealPayment"
+      | "settleBid"
+      | "settlementPending"
+      | "totalAuctions"
+      | "withdrawRefund"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuctionCancelled"
+      | "AuctionCreated"
+      | "AuctionEnded"
+      | "BidPlaced"
+      | "BidSettled"
+      | "DecryptionFulfilled"
+      | "PaymentRequested"
+      | "ProceedsClaimed"
+      | "RefundWithdrawn"
+      | "SettlementRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_BIDS", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_START_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionBids",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctionProceeds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auctions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidDeposits",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidSettled",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelListing",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimProceeds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [
+      string,
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "endAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllocation",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionBidCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "governance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasPlacedBid",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasUserBid",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextAuctionId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeBid",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retrySettlement",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealClearingPrice",
+    values: [BigNumberish, BigNumberish, BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealPayment",
+    values: [BigNumberish, BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleBid",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settlementPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalAuctions",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawRefund",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_BIDS", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_START_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionBids",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auctionProceeds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "auctions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "bidDeposits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "bidSettled", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelled", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimProceeds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "endAuction", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllocation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getAuction", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionBidCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "governance", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasPlacedBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasUserBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "nextAuctionId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "placeBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "retrySettlement",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealClearingPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealPayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "settleBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "settlementPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalAuctions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawRefund",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuctionCancelledEvent {
+  export type InputTuple = [auctionId: BigNumberish, cancelledBy: AddressLike];
+  export type OutputTuple = [auctionId: bigint, cancelledBy: string];
+  export interface OutputObject {
+    auctionId: bigint;
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCreatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    title: string,
+    category: string,
+    units: BigNumberish,
+    minimumPrice: BigNumberish,
+    creator: AddressLike,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    title: string,
+    category: string,
+    units: bigint,
+    minimumPrice: bigint,
+    creator: string,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    title: string;
+    category: string;
+    units: bigint;
+    minimumPrice: bigint;
+    creator: string;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionEndedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    clearingPrice: BigNumberish,
+    unitsSold: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    clearingPrice: bigint,
+    unitsSold: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    clearingPrice: bigint;
+    unitsSold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidPlacedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidSettledEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    payment: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    payment: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    payment: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProceedsClaimedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    creator: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    creator: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    creator: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundWithdrawnEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [auctionId: bigint, bidder: string, amount: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SettlementRequestedEvent {
+  export type InputTuple = [auctionId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint, requestId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ConfidentialMultiUnitAuction extends BaseContract {
+  connect(runner?: ContractRunner | null): ConfidentialMultiUnitAuction;
+  waitForDeployment(): Promise<this>;
+
+  interface: ConfidentialMultiUnitAuctionInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BIDS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_START_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  auctionBids: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        bidder: string;
+        quantity: string;
+        unitPrice: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  auctionProceeds: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  auctions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        title: string;
+        description: string;
+        category: string;
+        units: bigint;
+        minimumPrice: bigint;
+        creator: string;
+        timestamp: bigint;
+        isActive: boolean;
+        startTime: bigint;
+        endTime: bigint;
+        bidCount: bigint;
+        clearingPrice: bigint;
+        unitsSold: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  bidDeposits: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  bidSettled: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  cancelListing: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelled: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  claimProceeds: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createAuction: TypedContractMethod<
+    [
+      _title: string,
+      _description: string,
+      _category: string,
+      _units: BigNumberish,
+      _minimumPrice: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  endAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getAllocation: TypedContractMethod<
+    [_auctionId: BigNumberish, _bidder: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [ConfidentialMultiUnitAuction.AuctionStructOutput],
+    "view"
+  >;
+
+  getAuctionBidCount: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  governance: TypedContractMethod<[], [string], "view">;
+
+  hasPlacedBid: TypedContractMethod<
+    [_user: AddressLike, _auctionId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  hasUserBid: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  nextAuctionId: TypedContractMethod<[], [bigint], "view">;
+
+  placeBid: TypedContractMethod<
+    [
+      _auctionId: BigNumberish,
+      _encryptedQuantity: BytesLike,
+      _encryptedUnitPrice: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  retrySettlement: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealClearingPrice: TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _clearingPrice: BigNumberish,
+      _unitsSold: BigNumberish,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  revealPayment: TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _payment: BigNumberish,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  settleBid: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  settlementPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  totalAuctions: TypedContractMethod<[], [bigint], "view">;
+
+  withdrawRefund: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BIDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_START_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auctionBids"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, bigint] & {
+        bidder: string;
+        quantity: string;
+        unitPrice: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "auctionProceeds"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auctions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        title: string;
+        description: string;
+        category: string;
+        units: bigint;
+        minimumPrice: bigint;
+        creator: string;
+        timestamp: bigint;
+        isActive: boolean;
+        startTime: bigint;
+        endTime: bigint;
+        bidCount: bigint;
+        clearingPrice: bigint;
+        unitsSold: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "bidDeposits"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "bidSettled"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelListing"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelled"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "claimProceeds"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [
+      _title: string,
+      _description: string,
+      _category: string,
+      _units: BigNumberish,
+      _minimumPrice: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "endAuction"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAllocation"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish, _bidder: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuction"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [ConfidentialMultiUnitAuction.AuctionStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuctionBidCount"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "governance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "hasPlacedBid"
+  ): TypedContractMethod<
+    [_user: AddressLike, _auctionId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasUserBid"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "nextAuctionId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "placeBid"
+  ): TypedContractMethod<
+    [
+      _auctionId: BigNumberish,
+      _encryptedQuantity: BytesLike,
+      _encryptedUnitPrice: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "retrySettlement"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealClearingPrice"
+  ): TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _clearingPrice: BigNumberish,
+      _unitsSold: BigNumberish,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealPayment"
+  ): TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _payment: BigNumberish,
+      _signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleBid"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "settlementPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "totalAuctions"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawRefund"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "AuctionCancelled"
+  ): TypedContractEvent<
+    AuctionCancelledEvent.InputTuple,
+    AuctionCancelledEvent.OutputTuple,
+    AuctionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCreated"
+  ): TypedContractEvent<
+    AuctionCreatedEvent.InputTuple,
+    AuctionCreatedEvent.OutputTuple,
+    AuctionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionEnded"
+  ): TypedContractEvent<
+    AuctionEndedEvent.InputTuple,
+    AuctionEndedEvent.OutputTuple,
+    AuctionEndedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidPlaced"
+  ): TypedContractEvent<
+    BidPlacedEvent.InputTuple,
+    BidPlacedEvent.OutputTuple,
+    BidPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidSettled"
+  ): TypedContractEvent<
+    BidSettledEvent.InputTuple,
+    BidSettledEvent.OutputTuple,
+    BidSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequested"
+  ): TypedContractEvent<
+    PaymentRequestedEvent.InputTuple,
+    PaymentRequestedEvent.OutputTuple,
+    PaymentRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProceedsClaimed"
+  ): TypedContractEvent<
+    ProceedsClaimedEvent.InputTuple,
+    ProceedsClaimedEvent.OutputTuple,
+    ProceedsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundWithdrawn"
+  ): TypedContractEvent<
+    RefundWithdrawnEvent.InputTuple,
+    RefundWithdrawnEvent.OutputTuple,
+    RefundWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "SettlementRequested"
+  ): TypedContractEvent<
+    SettlementRequestedEvent.InputTuple,
+    SettlementRequestedEvent.OutputTuple,
+    SettlementRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "AuctionCancelled(uint256,address)": TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+    AuctionCancelled: TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+
+    "AuctionCreated(uint256,string,string,uint32,uint64,address,uint256)": TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+    AuctionCreated: TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+
+    "AuctionEnded(uint256,uint64,uint64)": TypedContractEvent<
+      AuctionEndedEvent.InputTuple,
+      AuctionEndedEvent.OutputTuple,
+      AuctionEndedEvent.OutputObject
+    >;
+    AuctionEnded: TypedContractEvent<
+      AuctionEndedEvent.InputTuple,
+      AuctionEndedEvent.OutputTuple,
+      AuctionEndedEvent.OutputObject
+    >;
+
+    "BidPlaced(uint256,address,uint256)": TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+    BidPlaced: TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+
+    "BidSettled(uint256,address,uint256)": TypedContractEvent<
+      BidSettledEvent.InputTuple,
+      BidSettledEvent.OutputTuple,
+      BidSettledEvent.OutputObject
+    >;
+    BidSettled: TypedContractEvent<
+      BidSettledEvent.InputTuple,
+      BidSettledEvent.OutputTuple,
+      BidSettledEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "PaymentRequested(uint256,address,uint256)": TypedContractEvent<
+      PaymentRequestedEvent.InputTuple,
+      PaymentRequestedEvent.OutputTuple,
+      PaymentRequestedEvent.OutputObject
+    >;
+    PaymentRequested: TypedContractEvent<
+      PaymentRequestedEvent.InputTuple,
+      PaymentRequestedEvent.OutputTuple,
+      PaymentRequestedEvent.OutputObject
+    >;
+
+    "ProceedsClaimed(uint256,address,uint256)": TypedContractEvent<
+      ProceedsClaimedEvent.InputTuple,
+      ProceedsClaimedEvent.OutputTuple,
+      ProceedsClaimedEvent.OutputObject
+    >;
+    ProceedsClaimed: TypedContractEvent<
+      ProceedsClaimedEvent.InputTuple,
+      ProceedsClaimedEvent.OutputTuple,
+      ProceedsClaimedEvent.OutputObject
+    >;
+
+    "RefundWithdrawn(uint256,address,uint256)": TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+    RefundWithdrawn: TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+
+    "SettlementRequested(uint256,uint256)": TypedContractEvent<
+      SettlementRequestedEvent.InputTuple,
+      SettlementRequestedEvent.OutputTuple,
+      SettlementRequestedEvent.OutputObject
+    >;
+    SettlementRequested: TypedContractEvent<
+      SettlementRequestedEvent.InputTuple,
+      SettlementRequestedEvent.OutputTuple,
+      SettlementRequestedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,659 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace ConfidentialTokenAuction {
+  export type AuctionStruct = {
+    id: BigNumberish;
+    title: string;
+    description: string;
+    category: string;
+    paymentToken: AddressLike;
+    minimumBid: BigNumberish;
+    creator: AddressLike;
+    timestamp: BigNumberish;
+    isActive: boolean;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    bidCount: BigNumberish;
+    highestBidAmount: BytesLike;
+    encryptedHighestBidder: BytesLike;
+  };
+
+  export type AuctionStructOutput = [
+    id: bigint,
+    title: string,
+    description: string,
+    category: string,
+    paymentToken: string,
+    minimumBid: bigint,
+    creator: string,
+    timestamp: bigint,
+    isActive: boolean,
+    startTime: bigint,
+    endTime: bigint,
+    bidCount: bigint,
+    highestBidAmount: string,
+    encryptedHighestBidder: string
+  ] & {
+    id: bigint;
+    title: string;
+    description: string;
+    category: string;
+    paymentToken: string;
+    minimumBid: bigint;
+    creator: string;
+    timestamp: bigint;
+    isActive: boolean;
+    startTime: bigint;
+    endTime: bigint;
+    bidCount: bigint;
+    highestBidAmount: string;
+    encryptedHighestBidder: string;
+  };
+}
+
+export interface ConfidentialTokenAuctionInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_DURATION"
+      | "MAX_DURATION"
+      | "MAX_START_DELAY"
+      | "MIN_DURATION"
+      | "cancelListing"
+      | "cancelled"
+      | "createAuction"
+      | "endAuction"
+      | "getAuction"
+      | "getEscrow"
+      | "governance"
+      | "hasPlacedBid"
+      | "hasUserBid"
+      | "nextAuctionId"
+      | "placeBid"
+      | "refundClaimed"
+      | "totalAuctions"
+      | "withdrawRefund"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuctionCancelled"
+      | "AuctionCreated"
+      | "AuctionEnded"
+      | "BidPlaced"
+      | "RefundWithdrawn"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_START_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelListing",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAuction",
+    values: [
+      string,
+      string,
+      string,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "endAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEscrow",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "governance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasPlacedBid",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasUserBid",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextAuctionId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeBid",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundClaimed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalAuctions",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawRefund",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_START_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelled", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "endAuction", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getAuction", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getEscrow", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "governance", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasPlacedBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasUserBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "nextAuctionId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "placeBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "refundClaimed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalAuctions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawRefund",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuctionCancelledEvent {
+  export type InputTuple = [auctionId: BigNumberish, cancelledBy: AddressLike];
+  export type OutputTuple = [auctionId: bigint, cancelledBy: string];
+  export interface OutputObject {
+    auctionId: bigint;
+    cancelledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionCreatedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    title: string,
+    category: string,
+    paymentToken: AddressLike,
+    minimumBid: BigNumberish,
+    creator: AddressLike,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    title: string,
+    category: string,
+    paymentToken: string,
+    minimumBid: bigint,
+    creator: string,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    title: string;
+    category: string;
+    paymentToken: string;
+    minimumBid: bigint;
+    creator: string;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionEndedEvent {
+  export type InputTuple = [auctionId: BigNumberish];
+  export type OutputTuple = [auctionId: bigint];
+  export interface OutputObject {
+    auctionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidPlacedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundWithdrawnEvent {
+  export type InputTuple = [auctionId: BigNumberish, bidder: AddressLike];
+  export type OutputTuple = [auctionId: bigint, bidder: string];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ConfidentialTokenAuction extends BaseContract {
+  connect(runner?: ContractRunner | null): ConfidentialTokenAuction;
+  waitForDeployment(): Promise<this>;
+
+  interface: ConfidentialTokenAuctionInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_START_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  cancelListing: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelled: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  createAuction: TypedContractMethod<
+    [
+      _title: string,
+      _description: string,
+      _category: string,
+      _paymentToken: AddressLike,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  endAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getAuction: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [ConfidentialTokenAuction.AuctionStructOutput],
+    "view"
+  >;
+
+  getEscrow: TypedContractMethod<
+    [_auctionId: BigNumberish, _bidder: AddressLike],
+    [string],
+    "view"
+  >;
+
+  governance: TypedContractMethod<[], [string], "view">;
+
+  hasPlacedBid: TypedContractMethod<
+    [_user: AddressLike, _auctionId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  hasUserBid: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  nextAuctionId: TypedContractMethod<[], [bigint], "view">;
+
+  placeBid: TypedContractMethod<
+    [
+      _auctionId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  refundClaimed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  totalAuctions: TypedContractMethod<[], [bigint], "view">;
+
+  withdrawRefund: TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_START_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelListing"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelled"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "createAuction"
+  ): TypedContractMethod<
+    [
+      _title: string,
+      _description: string,
+      _category: string,
+      _paymentToken: AddressLike,
+      _minimumBid: BigNumberish,
+      _startTime: BigNumberish,
+      _duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "endAuction"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAuction"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish],
+    [ConfidentialTokenAuction.AuctionStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEscrow"
+  ): TypedContractMethod<
+    [_auctionId: BigNumberish, _bidder: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "governance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "hasPlacedBid"
+  ): TypedContractMethod<
+    [_user: AddressLike, _auctionId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasUserBid"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "nextAuctionId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "placeBid"
+  ): TypedContractMethod<
+    [
+      _auctionId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "refundClaimed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "totalAuctions"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawRefund"
+  ): TypedContractMethod<[_auctionId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "AuctionCancelled"
+  ): TypedContractEvent<
+    AuctionCancelledEvent.InputTuple,
+    AuctionCancelledEvent.OutputTuple,
+    AuctionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionCreated"
+  ): TypedContractEvent<
+    AuctionCreatedEvent.InputTuple,
+    AuctionCreatedEvent.OutputTuple,
+    AuctionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionEnded"
+  ): TypedContractEvent<
+    AuctionEndedEvent.InputTuple,
+    AuctionEndedEvent.OutputTuple,
+    AuctionEndedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidPlaced"
+  ): TypedContractEvent<
+    BidPlacedEvent.InputTuple,
+    BidPlacedEvent.OutputTuple,
+    BidPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundWithdrawn"
+  ): TypedContractEvent<
+    RefundWithdrawnEvent.InputTuple,
+    RefundWithdrawnEvent.OutputTuple,
+    RefundWithdrawnEvent.OutputObject
+  >;
+
+  filters: {
+    "AuctionCancelled(uint256,address)": TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+    AuctionCancelled: TypedContractEvent<
+      AuctionCancelledEvent.InputTuple,
+      AuctionCancelledEvent.OutputTuple,
+      AuctionCancelledEvent.OutputObject
+    >;
+
+    "AuctionCreated(uint256,string,string,address,uint64,address,uint256)": TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+    AuctionCreated: TypedContractEvent<
+      AuctionCreatedEvent.InputTuple,
+      AuctionCreatedEvent.OutputTuple,
+      AuctionCreatedEvent.OutputObject
+    >;
+
+    "AuctionEnded(uint256)": TypedContractEvent<
+      AuctionEndedEvent.InputTuple,
+      AuctionEndedEvent.OutputTuple,
+      AuctionEndedEvent.OutputObject
+    >;
+    AuctionEnded: TypedContractEvent<
+      AuctionEndedEvent.InputTuple,
+      AuctionEndedEvent.OutputTuple,
+      AuctionEndedEvent.OutputObject
+    >;
+
+    "BidPlaced(uint256,address,uint256)": TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+    BidPlaced: TypedContractEvent<
+      BidPlacedEvent.InputTuple,
+      BidPlacedEvent.OutputTuple,
+      BidPlacedEvent.OutputObject
+    >;
+
+    "RefundWithdrawn(uint256,address)": TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+    RefundWithdrawn: TypedContractEvent<
+      RefundWithdrawnEvent.InputTuple,
+      RefundWithdrawnEvent.OutputTuple,
+      RefundWithdrawnEvent.OutputObject
+    >;
+  };
+}
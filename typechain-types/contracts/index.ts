@@ -1,10 +1,17 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { AuctionFactory } from "./AuctionFactory";
+export type { AuctionGovernance } from "./AuctionGovernance";
+export type { AuctionInstance } from "./AuctionInstance";
+export type { CategoryRegistry } from "./CategoryRegistry";
 export type { ConfidentialAuction } from "./ConfidentialAuction";
 export type { ConfidentialAuctionCompatible } from "./ConfidentialAuctionCompatible";
 export type { ConfidentialAuctionFHE } from "./ConfidentialAuctionFHE";
 export type { ConfidentialAuctionMinimal } from "./ConfidentialAuctionMinimal";
 export type { ConfidentialAuctionReal } from "./ConfidentialAuctionReal";
 export type { ConfidentialAuctionSimple } from "./ConfidentialAuctionSimple";
+export type { ConfidentialERC20 } from "./ConfidentialERC20";
+export type { ConfidentialMultiUnitAuction } from "./ConfidentialMultiUnitAuction";
+export type { ConfidentialTokenAuction } from "./ConfidentialTokenAuction";
 export type { SimpleAuction } from "./SimpleAuction";
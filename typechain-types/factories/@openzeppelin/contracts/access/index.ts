@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AccessControl__factory } from "./AccessControl__factory";
+export { IAccessControl__factory } from "./IAccessControl__factory";
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as introspection from "./introspection";
+export { Create2__factory } from "./Create2__factory";
+export { Errors__factory } from "./Errors__factory";
+export { Pausable__factory } from "./Pausable__factory";
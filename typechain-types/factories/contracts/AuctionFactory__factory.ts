@@ -0,0 +1,353 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AuctionFactory,
+  AuctionFactoryInterface,
+} from "../../contracts/AuctionFactory";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_implementation",
+        type: "address",
+      },
+      {
+        internalType: "contract CategoryRegistry",
+        name: "_categoryRegistry",
+        type: "address",
+      },
+      {
+        internalType: "contract AuctionGovernance",
+        name: "_governance",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "FailedDeployment",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBalance",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auction",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "categoryId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionDeployed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "categoryRegistry",
+    outputs: [
+      {
+        internalType: "contract CategoryRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_minimumBid",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_duration",
+        type: "uint256",
+      },
+    ],
+    name: "createAuction",
+    outputs: [
+      {
+        internalType: "address",
+        name: "auction",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAuctionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getAuctions",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuctionsByCategory",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_creator",
+        type: "address",
+      },
+    ],
+    name: "getAuctionsByCreator",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "governance",
+    outputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "implementation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isAuction",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e03461019757601f610b7838819003918201601f191683019291906001600160401b0384118385101761019b5781606092849260409687528339810103126101975780516001600160a01b039190828116808203610197576020830151928484169081850361019757860151948516918286036101975715610153571561011057156100cc5760805260a05260c052516109c890816101b08239608051818181610233015261050d015260a0518181816101ea0152610593015260c05181818161019601526105500152f35b835162461bcd60e51b815260206004820152601960248201527f476f7665726e616e63652063616e6e6f74206265207a65726f000000000000006044820152606490fd5b6064855162461bcd60e51b815260206004820152602060248201527f43617465676f72792072656769737472792063616e6e6f74206265207a65726f6044820152fd5b855162461bcd60e51b815260206004820152601d60248201527f496d706c656d656e746174696f6e2063616e6e6f74206265207a65726f0000006044820152606490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049182361015610015575f80fd5b5f905f3560e01c9081632bd5eac71461065957508063467c3d99146105dd57806348f4da20146105c257806358099d961461057f5780635aa6e6751461053c5780635c60da1b146104f957806383575dd3146101275780638ebde500146100e4578063c44e6640146100c35763ceb6a22f1461008f575f80fd5b346100c057816003193601126100c057506100b16100bc92602435903561088e565b9051918291826106d6565b0390f35b80fd5b5090346100e057816003193601126100e057602091549051908152f35b5080fd5b50913461012357602036600319011261012357356001600160a01b0381169081900361012357818360ff92602095526003855220541690519015158152f35b8280fd5b509034610424576003199160c0368401126104245767ffffffffffffffff9380358581116104245761015c9036908301610750565b916024908135878111610424576101769036908501610750565b8551635c975abb60e01b8152602098604435966001600160a01b039390927f00000000000000000000000000000000000000000000000000000000000000008516908c818a81855afa90811561049a575f916104dc575b506104a4578951636cef393d60e01b81528881018a90528c8189817f00000000000000000000000000000000000000000000000000000000000000008a165afa90811561049a575f9161046d575b5015610438576e5af43d82803e903d91602b57fd5bf37f0000000000000000000000000000000000000000000000000000000000000000763d602d80600a3d3981f3363d3d373d3d3d363d7300000062ffffff8260881c16175f5260781b178c52603760095ff09485169a8b15610428578b3b15610424576102d989915f946102ca8e5198899687966302656f2960e31b885233908801528d87015261010060448701526101048601906107be565b918483030160648501526107be565b8a608483015260643560a483015260843560c483015260a43560e48301520381838d5af1801561041a576103f3575b50505f54600160401b8110156103e15760018101805f558110156103cf575f8080528990200180546001600160a01b031916881790553382526001885285822061036791906103589082906107fc565b858352600289528683206107fc565b85815260038752848120805460ff1916600117905580545f198101939084116103bf57505050839083519283527fb075a6abad49f952a64b1b11a3aa8851eb1d44ff4211be361ce14a9461d7e084863394a451908152f35b634e487b7160e01b825260119052fd5b83603286634e487b7160e01b5f52525ffd5b83604186634e487b7160e01b5f52525ffd5b9080929350116104085785525f905f80610308565b82604185634e487b7160e01b5f52525ffd5b88513d5f823e3d90fd5b5f80fd5b8a5163b06ebf3d60e01b81528990fd5b895162461bcd60e51b81528089018d90526010818901526f496e76616c69642063617465676f727960801b6044820152606490fd5b61048d91508d803d10610493575b610485818361071a565b8101906107a6565b5f61021b565b503d61047b565b8b513d5f823e3d90fd5b895162461bcd60e51b81528089018d905260138189015272105d58dd1a5bdb9cc8185c99481c185d5cd959606a1b6044820152606490fd5b6104f391508d803d1061049357610485818361071a565b5f6101cd565b8234610424575f36600319011261042457517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b8234610424575f36600319011261042457517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b8234610424575f36600319011261042457517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b8234610424575f366003190112610424576020905160648152f35b82843461042457602090602060031936011261042457355f526002602052815f209180519182602085549182815201945f5260205f20915f905b828210610639576100bc868661062f828b038361071a565b51918291826106d6565b83546001600160a01b031687529586019560019384019390910190610617565b84908434610424576020926020600319360112610424576001600160a01b0393903584811690819003610424575f52600180602052825f209485549081865260208601965f5260205f20935f915b8383106106bf576100bc888861062f828d038361071a565b8554811689529781019794840194918401916106a7565b60209060206040818301928281528551809452019301915f5b8281106106fd575050505090565b83516001600160a01b0316855293810193928101926001016106ef565b90601f8019910116810190811067ffffffffffffffff82111761073c57604052565b634e487b7160e01b5f52604160045260245ffd5b81601f820112156104245780359067ffffffffffffffff821161073c5760405192610785601f8401601f19166020018561071a565b8284526020838301011161042457815f926020809301838601378301015290565b90816020910312610424575180151581036104245790565b91908251928382525f5b8481106107e8575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016107c8565b805490600160401b82101561073c5760018201808255821015610841575f908152602090200180546001600160a01b0319166001600160a01b03909216919091179055565b634e487b7160e01b5f52603260045260245ffd5b9190820391821161086257565b634e487b7160e01b5f52601160045260245ffd5b67ffffffffffffffff811161073c5760051b60200190565b811515806109b0575b15610977575f54918282101561094d5781019081811161086257828211610945575b6108c38183610855565b926108e66108d085610876565b946108de604051968761071a565b808652610876565b60209190601f19013686840137825b84811061090457505050505090565b81811015610841575f8080528390208101546001600160a01b03169061092a8582610855565b918751831015610841578460019360051b89010152016108f5565b8291506108b9565b5050506040516020810181811067ffffffffffffffff82111761073c576040525f81525f36813790565b60405162461bcd60e51b8152602060048201526011602482015270496e76616c696420706167652073697a6560781b6044820152606490fd5b50606482111561089756fea164736f6c6343000818000a";
+
+type AuctionFactoryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AuctionFactoryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AuctionFactory__factory extends ContractFactory {
+  constructor(...args: AuctionFactoryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _implementation: AddressLike,
+    _categoryRegistry: AddressLike,
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      _implementation,
+      _categoryRegistry,
+      _governance,
+      overrides || {}
+    );
+  }
+  override deploy(
+    _implementation: AddressLike,
+    _categoryRegistry: AddressLike,
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      _implementation,
+      _categoryRegistry,
+      _governance,
+      overrides || {}
+    ) as Promise<
+      AuctionFactory & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AuctionFactory__factory {
+    return super.connect(runner) as AuctionFactory__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AuctionFactoryInterface {
+    return new Interface(_abi) as AuctionFactoryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AuctionFactory {
+    return new Contract(address, _abi, runner) as unknown as AuctionFactory;
+  }
+}
@@ -0,0 +1,631 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AuctionInstance,
+  AuctionInstanceInterface,
+} from "../../contracts/AuctionInstance";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnsupportedHandleType",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "AuctionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "winningBid",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionEnded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "ProceedsClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RefundWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SettlementRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "winningBid",
+        type: "uint256",
+      },
+    ],
+    name: "WinnerRevealed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_START_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bidDeposits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "claimProceeds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "endAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "factory",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAuction",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "categoryId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minimumBid",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bidCount",
+            type: "uint256",
+          },
+          {
+            internalType: "euint64",
+            name: "highestBidAmount",
+            type: "bytes32",
+          },
+          {
+            internalType: "eaddress",
+            name: "encryptedHighestBidder",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "highestBidder",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "winningBid",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct AuctionInstance.Auction",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMyBid",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "governance",
+    outputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasUserBid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_creator",
+        type: "address",
+      },
+      {
+        internalType: "contract AuctionGovernance",
+        name: "_governance",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_minimumBid",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_duration",
+        type: "uint256",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proceeds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "retrySettlement",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "_winningBid",
+        type: "uint64",
+      },
+      {
+        internalType: "address",
+        name: "_winner",
+        type: "address",
+      },
+      {
+        internalType: "bytes[]",
+        name: "_signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "revealWinner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "settlementPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608080604052346100b8577ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a009081549060ff8260401c166100a957506001600160401b036002600160401b031982821601610064575b604051612aa790816100bd8239f35b6001600160401b031990911681179091556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d290602090a15f8080610055565b63f92ee8a960e01b8152600490fd5b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c8063110f88741461015f578063132b79481461015a57806319effbde14610155578063284036c1146101505780634b00574d1461014b57806355b5ec64146101465780635aa6e67514610141578063616f96921461013c5780637327df251461013757806384ddc67f146101325780638977427a1461011e5780638c3b0ca81461012d5780639a82a09a146101285780639d2c38e914610123578063b1724b461461011e578063b6a6d17714610119578063c297fa0f14610114578063c45a01551461010f578063ca6a715e1461010a578063d7b42b65146101055763fe67a54b14610100575f80fd5b610eaf565b610dee565b610ced565b610cc6565b610ca9565b610c8d565b610b4b565b610c52565b610c2d565b610b68565b610aac565b610a1d565b6108c1565b610899565b61087c565b610611565b61053a565b610501565b610384565b610172565b5f91031261016e57565b5f80fd5b3461016e575f36600319011261016e5760ff600854161580610249575b1561020b57335f908152601260205260409020546101ae811515610ec7565b335f908152601260205260408120556101d65f80808085335af16101d0610f09565b50610f38565b60405190815233907f3d97f39b86d061200a7834082f5926e58ec10fd85a9d6930f497729d5e6cc35c9080602081015b0390a2005b60405162461bcd60e51b8152602060048201526016602482015275105d58dd1a5bdb881a5cc81b9bdd081cd95d1d1b195960521b6044820152606490fd5b5060ff601554161561018f565b6001600160a01b0381160361016e57565b634e487b7160e01b5f52604160045260245ffd5b6101c081019081106001600160401b0382111761029757604052565b610267565b608081019081106001600160401b0382111761029757604052565b6001600160401b03811161029757604052565b606081019081106001600160401b0382111761029757604052565b90601f801991011681019081106001600160401b0382111761029757604052565b604051906103138261027b565b565b6001600160401b03811161029757601f01601f191660200190565b92919261033c82610315565b9161034a60405193846102e5565b82948184528183011161016e578281602093845f960137010152565b9080601f8301121561016e5781602061038193359101610330565b90565b3461016e5761010036600319011261016e576004356103a281610256565b602435906103af82610256565b6001600160401b039160443583811161016e576103d0903690600401610366565b60643584811161016e576103e8903690600401610366565b915f80516020612a7b833981519152549460ff8660401c16159516801590816104f9575b60011490816104ef575b1590816104e6575b506104d4575f80516020612a7b833981519152805467ffffffffffffffff1916600117905561046293856104b0575b60e4359360c4359360a4359360843593611520565b61046857005b5f80516020612a7b833981519152805460ff60401b19169055604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d290602090a1005b5f80516020612a7b833981519152805460ff60401b1916600160401b17905561044d565b60405163f92ee8a960e01b8152600490fd5b9050155f61041e565b303b159150610416565b86915061040c565b3461016e575f36600319011261016e57602060ff601554166040519015158152f35b6001600160401b0381116102975760051b60200190565b3461016e57608036600319011261016e57602480356001600160401b0391828216820361016e576044916044359161057183610256565b6064359085821161016e573660238301121561016e57816004013561059581610523565b956105a360405197886102e5565b8187526020976024602089019360051b8601019436861161016e5760248101935b8685106105db576105d98a8a8a6004356117c2565b005b843583811161016e5782013660438201121561016e578b9161060683923690888b8201359101610330565b8152019401936105c4565b604036600319011261016e576001600160401b0360243581811161016e573660238201121561016e5780600401359180831161016e57366024848401011161016e5760015460049390602090610677906001600160a01b03165b6001600160a01b031690565b604051635c975abb60e01b815295869182905afa938415610877576107496107fd94610756946106b661080c98610751955f91610848575b5015611a0f565b6106ca6106c560085460ff1690565b611a51565b6106d8600954421015611a95565b6106e5600a544210611adb565b600654610706906106fe906001600160a01b031661066b565b331415611b1b565b335f908152601060205260409020546107269060ff1615611b67565b1590565b610734600554341015611bc9565b8034115f1461084057935b6024369201610330565b600435612113565b612214565b61075f81612109565b5061076a3382612654565b335f90815260116020526040902081905561078e610789600b54611c10565b600b55565b335f9081526010602052604090206107ae905b805460ff19166001179055565b335f9081526012602052604090203490556107eb6107dc6107d1600c54846122ae565b92600c5490846128da565b6107e581612109565b50600c55565b6107f433612601565b600d54916128da565b61080681612109565b50600d55565b60405142815233907f3fabff0a9c3ecd6814702e247fa9733e5d0aa69e3a38590f92cb18f623a2254d908060208101610206565b34169361073f565b61086a915060203d602011610870575b61086281836102e5565b8101906119ec565b5f6106af565b503d610858565b611a04565b3461016e575f36600319011261016e576020601354604051908152f35b3461016e575f36600319011261016e576001546040516001600160a01b039091168152602090f35b3461016e57602036600319011261016e576004356108de81610256565b60018060a01b03165f526010602052602060ff60405f2054166040519015158152f35b91908251928382525f5b84811061092b575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161090b565b6020815281516109766109606101c0928360208601526101e0850190610901565b6020850151848203601f19016040860152610901565b9260408101516060840152606081015160808401526109a4608082015160a085019060018060a01b03169052565b60a081015160c08401526109c160c082015160e085019015159052565b60e08101516101009081850152810151610120908185015281015161014090818501528101516101609081850152810151610180908185015281015190610a156101a0928386019060018060a01b03169052565b015191015290565b3461016e575f36600319011261016e575f6101a0604051610a3d8161027b565b60608152606060208201528260408201528260608201528260808201528260a08201528260c08201528260e082015282610100820152826101208201528261014082015282610160820152826101808201520152610aa8610a9c611d35565b6040519182918261093f565b0390f35b3461016e575f36600319011261016e57335f52601060205260ff60405f20541615610af457335f908152601160205260409020610aa890546040519081529081906020820190565b60405162461bcd60e51b815260206004820152602960248201527f596f752068617665206e6f7420706c61636564206120626964206f6e20746869604482015268399030bab1ba34b7b760b91b6064820152608490fd5b3461016e575f36600319011261016e57602060405162278d008152f35b3461016e575f36600319011261016e576006546001600160a01b03163303610be857601354610b98811515611ddf565b610ba15f601355565b610bb45f80808085335af16101d0610f09565b60405190815233907faeb64c7c1267183d614aea1f500875821e7f7f54ca00f331743f5192733c2947908060208101610206565b60405162461bcd60e51b815260206004820152601f60248201527f4f6e6c792063726561746f722063616e20636c61696d2070726f6365656473006044820152606490fd5b3461016e575f36600319011261016e57602060ff60155460081c166040519015158152f35b3461016e57602036600319011261016e57600435610c6f81610256565b60018060a01b03165f526012602052602060405f2054604051908152f35b3461016e575f36600319011261016e576020604051610e108152f35b3461016e575f36600319011261016e57602060405162093a808152f35b3461016e575f36600319011261016e575f546040516001600160a01b039091168152602090f35b3461016e575f36600319011261016e57600154610d12906001600160a01b031661066b565b604051637d379c9b60e11b815233600482015290602090829060249082905afa801561087757610d49915f91610dcf575b50611e23565b60085460ff168015610db8575b610d5f90611e7a565b610d6e60ff1960085416600855565b610d7d60ff1960155416601555565b610d9161010061ff00196015541617601555565b337fc076344f4d1b12b00186954100df09db17044db6418a64c198cd093344c659105f80a2005b50610d5f610dc860155460ff1690565b9050610d56565b610de8915060203d6020116108705761086281836102e5565b5f610d43565b3461016e575f36600319011261016e57600654610e13906001600160a01b031661066b565b33148015610e41575b610e2590611ec6565b610e39610e3460155460ff1690565b611771565b6105d961235f565b50600154610e57906001600160a01b031661066b565b6040516335d2155560e11b815233600482015290602090829060249082905afa801561087757610e25915f91610e90575b509050610e1c565b610ea9915060203d6020116108705761086281836102e5565b5f610e88565b3461016e575f36600319011261016e576105d9611f90565b15610ece57565b60405162461bcd60e51b81526020600482015260136024820152724e6f20726566756e6420617661696c61626c6560681b6044820152606490fd5b3d15610f33573d90610f1a82610315565b91610f2860405193846102e5565b82523d5f602084013e565b606090565b15610f3f57565b60405162461bcd60e51b815260206004820152600f60248201526e151c985b9cd9995c8819985a5b1959608a1b6044820152606490fd5b15610f7d57565b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b15610fc157565b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b1561100d57565b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b1561106457565b60405162461bcd60e51b815260206004820152601960248201527814dd185c9d081d1a5b59481a5cc81a5b881d1a19481c185cdd603a1b6044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b9062278d0082018092116110c957565b6110a5565b90602082018092116110c957565b919082018092116110c957565b156110f057565b606460405162461bcd60e51b815260206004820152602060248201527f53746172742074696d6520746f6f2066617220696e20746865206675747572656044820152fd5b1561113b57565b60405162461bcd60e51b8152602060048201526012602482015271111d5c985d1a5bdb881d1bdbc81cda1bdc9d60721b6044820152606490fd5b1561117c57565b60405162461bcd60e51b81526020600482015260116024820152704475726174696f6e20746f6f206c6f6e6760781b6044820152606490fd5b90600182811c921680156111e3575b60208310146111cf57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916111c4565b601f81116111f9575050565b60025f5260205f20906020601f840160051c83019310611233575b601f0160051c01905b818110611228575050565b5f815560010161121d565b9091508190611214565b601f8111611249575050565b60035f5260205f20906020601f840160051c83019310611283575b601f0160051c01905b818110611278575050565b5f815560010161126d565b9091508190611264565b9081516001600160401b038111610297576112b2816112ad6002546111b5565b6111ed565b602080601f83116001146112f3575081906112e393945f926112e8575b50508160011b915f199060031b1c19161790565b600255565b015190505f806112cf565b60025f52601f198316949091907f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace925f905b87821061135c575050836001959610611344575b505050811b01600255565b01515f1960f88460031b161c191690555f8080611339565b80600185968294968601518155019501930190611325565b9081516001600160401b03811161029757611399816113946003546111b5565b61123d565b602080601f83116001146113ce575081906113c993945f926112e85750508160011b915f199060031b1c19161790565b600355565b60035f52601f198316949091907fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b925f905b87821061143757505083600195961061141f575b505050811b01600355565b01515f1960f88460031b161c191690555f8080611414565b80600185968294968601518155019501930190611400565b6101a09061145d815161128d565b61146a6020820151611374565b604081015160045560608101516005556080810151600680546001600160a01b0319166001600160a01b0390921691909117905560a08101516007556114c86114b660c0830151151590565b60ff8019600854169115151617600855565b60e0810151600955610100810151600a55610120810151600b55610140810151600c55610160810151600d55610180810151600e80546001600160a01b0319166001600160a01b039092169190911790550151600f55565b611727919561031398939761153789511515610f76565b61154386511515610fba565b61154e821515611006565b8061176b575042935b80611765575062093a80955b61156f4286101561105d565b61158361157b426110b9565b8611156110e9565b611591610e10881015611134565b6115a062278d00881115611175565b6116526115ab612075565b60018060a01b036060818351169260018060a01b0319935f80516020612a3b8339815191529085825416179055826020820151165f80516020612a5b8339815191529085825416179055826040820151167fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290858254161790550151167fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60391825416179055565b7f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0080546001600160a01b03191673a02cda4ca3a71d7c46997716f4283aa851c288121790556116fc6116a261255b565b976116ac89612109565b506116f66116b86125ae565b9a6116c28c612109565b505f80546001600160a01b03191633179055600180546001600160a01b0319166001600160a01b0392909216919091179055565b866110dc565b95611705610306565b998a5260208a0152604089015260608801526001600160a01b03166080870152565b4260a0860152600160c086015260e08501526101008401525f6101208401526101408301526101608201525f6101808201525f6101a082015261144f565b95611563565b93611557565b1561177857565b60405162461bcd60e51b8152602060048201526015602482015274139bc81c195b991a5b99c81cd95d1d1b195b595b9d605a1b6044820152606490fd5b919082039182116110c957565b93929391909160ff60155416806119d5575b6117dd90611771565b805f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0294602086602052604096875f2054156119c457835f52602052865f2087519182602083549182815201925f5260205f20915f905b8282106119ad57505050509181611854610722936118599503826102e5565b6127a6565b61199c577fdaec4582d5d9595688c8c98545fdd1c696d41c6aeaeb636737e84ed2f5c00eda93946118d66118cc83611997947f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a26118be60ff1960155416601555565b5f52601460205260405f2090565b805460ff19169055565b600e80546001600160a01b0319166001600160a01b0385161790556119306001600160401b03851661190781600f55565b6001600160a01b0385165f9081526012602052604090206119298282546117b5565b9055601355565b80516001600160401b03851681526001600160a01b038416907feb809d897967fa939dbc54d0504ed47e37b16857dcc7148cd28a526e68d711d890602090a2516001600160a01b0390921682526001600160401b0390921660208201529081906040820190565b0390a1565b845163cf6c44e960e01b8152600490fd5b835485529384019360019384019390910190611835565b875163d66ca67560e01b8152600490fd5b505f8181526014602052604090205460ff166117d4565b9081602091031261016e5751801515810361016e5790565b6040513d5f823e3d90fd5b15611a1657565b60405162461bcd60e51b8152602060048201526013602482015272105d58dd1a5bdb9cc8185c99481c185d5cd959606a1b6044820152606490fd5b15611a5857565b60405162461bcd60e51b815260206004820152601560248201527441756374696f6e206973206e6f742061637469766560581b6044820152606490fd5b15611a9c57565b60405162461bcd60e51b8152602060048201526017602482015276105d58dd1a5bdb881a185cc81b9bdd081cdd185c9d1959604a1b6044820152606490fd5b15611ae257565b60405162461bcd60e51b8152602060048201526011602482015270105d58dd1a5bdb881a185cc8195b991959607a1b6044820152606490fd5b15611b2257565b60405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f7420626964206f6e20796f7572206f776e2061756374696f6e00006044820152606490fd5b15611b6e57565b60405162461bcd60e51b815260206004820152602d60248201527f596f75206861766520616c726561647920706c61636564206120626964206f6e60448201526c103a3434b99030bab1ba34b7b760991b6064820152608490fd5b15611bd057565b60405162461bcd60e51b8152602060048201526018602482015277109a590818995b1bddc81b5a5b9a5b5d5b48185b5bdd5b9d60421b6044820152606490fd5b5f1981146110c95760010190565b604051905f8260025491611c31836111b5565b808352602093600190818116908115611c9a5750600114611c5b575b5050610313925003836102e5565b9093915060025f52815f20935f915b818310611c8257505061031393508201015f80611c4d565b85548884018501529485019487945091830191611c6a565b91505061031394925060ff191682840152151560051b8201015f80611c4d565b604051905f8260035491611ccd836111b5565b808352602093600190818116908115611c9a5750600114611cf6575050610313925003836102e5565b9093915060035f52815f20935f915b818310611d1d57505061031393508201015f80611c4d565b85548884018501529485019487945091830191611d05565b611d3d610306565b90611d46611c1e565b8252611d50611cba565b6020830152600454604083015260055460608301526006546001600160a01b0316608083015260075460a0830152611d96611d8d60085460ff1690565b151560c0840152565b60095460e0830152600a54610100830152600b54610120830152600c54610140830152600d54610160830152600e546001600160a01b0316610180830152600f546101a0830152565b15611de657565b60405162461bcd60e51b81526020600482015260156024820152744e6f2070726f636565647320617661696c61626c6560581b6044820152606490fd5b15611e2a57565b60405162461bcd60e51b815260206004820152602260248201527f4f6e6c79206d6f64657261746f722063616e2063616e63656c206c697374696e604482015261677360f01b6064820152608490fd5b15611e8157565b60405162461bcd60e51b815260206004820152601a60248201527f41756374696f6e20697320616c726561647920736574746c65640000000000006044820152606490fd5b15611ecd57565b60405162461bcd60e51b815260206004820152602b60248201527f4f6e6c792063726561746f72206f72206b65657065722063616e20726574727960448201526a081cd95d1d1b195b595b9d60aa1b6064820152608490fd5b15611f2d57565b60405162461bcd60e51b815260206004820152603560248201527f41756374696f6e20686173206e6f7420656e6465642079657420616e6420796f6044820152743a9030b932903737ba103a34329031b932b0ba37b960591b6064820152608490fd5b611f9e60ff60085416611a51565b600a544210801590612052575b611fb490611f26565b611fc360ff1960085416600855565b600b541561201957600c54600654611fe691906001600160a01b03165b90612654565b600d54600654611fff91906001600160a01b0316611fe0565b612011600160ff196015541617601555565b61031361235f565b7fdaec4582d5d9595688c8c98545fdd1c696d41c6aeaeb636737e84ed2f5c00eda6040518061199781905f602060408401938281520152565b50600654611fb49061206c906001600160a01b031661066b565b33149050611fab565b5f60606040516120848161029c565b82815282602082015282604082015201526040516120a18161029c565b73687820221192c5b662b25367f70076a37bc79b6c815273848b0066793bcc60346da1f49049357399b8d5956020820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4606082015290565b6103813082612654565b5f80516020612a5b8339815191525461215f92602092909161213f9061066b906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b84523390600485016128a9565b03925af1908115610877575f916121e5575b505f80516020612a3b833981519152546121959061066b906001600160a01b031681565b803b1561016e57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610877576121d2575090565b806121df610381926102b7565b80610164565b612207915060203d60201161220d575b6121ff81836102e5565b81019061252e565b5f612171565b503d6121f5565b6001600160401b0391602091801561229c575b5f80516020612a5b833981519152546040516304559f7160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610877575f91612283575090565b610381915060203d60201161220d576121ff81836102e5565b5060646122a761255b565b9050612227565b908115612322575b8015612310575b602090606460018060a01b035f80516020612a5b8339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115610877575f91612283575090565b50602061231b61255b565b90506122bd565b905061232c61255b565b906122b6565b634e487b7160e01b5f52603260045260245ffd5b805182101561235a5760209160051b010190565b612332565b6040805161236c816102ca565b600281526020810182368237600c549082511561235a5752600d5481516001101561235a57818301527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0180545f80516020612a3b83398151915254919390916123df9061066b906001600160a01b031681565b803b1561016e575f82518092637d6e912360e11b82528183816124058a6004830161292c565b03925af180156108775761251b575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d005461244b9061066b906001600160a01b031681565b92833b1561016e575f82518095633263b83b60e01b8252818381612473878a6004840161293d565b03925af1938415610877577f2f9a2b33c2d8535c20aebb728f49ef89247afa053a62be1886eaa2699f523db1956124bb6124e5936124c19361199798612508575b5086612966565b54611c10565b7f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0155565b6124fa6107a1835f52601460205260405f2090565b519081529081906020820190565b806121df612515926102b7565b5f6124b4565b806121df612528926102b7565b5f612414565b9081602091031261016e575190565b6054111561254757565b634e487b7160e01b5f52602160045260245ffd5b5f80516020612a5b83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610877575f91612283575090565b5f80516020612a5b83398151915254604051639cd07acb60e01b81525f60048201819052600760248301529091602091839160449183916001600160a01b03165af1908115610877575f91612283575090565b5f80516020612a5b83398151915254604051639cd07acb60e01b8152600481019290925260076024830152602090829060449082905f906001600160a01b03165af1908115610877575f91612283575090565b5f80516020612a3b833981519152546001600160a01b031691823b1561016e57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610877576126b25750565b610313906102b7565b906126c582610315565b6126d260405191826102e5565b82815280926126e3601f1991610315565b0190602036910137565b9081518082526020808093019301915f5b82811061270c575050505090565b8351855293810193928101926001016126fe565b9190612737612746916060855260608501906126ed565b60209284820384860152610901565b9160408184039101528251908183528083019281808460051b8301019501935f915b8483106127785750505050505090565b9091929394958480612796600193601f198682030187528a51610901565b9801930193019194939290612768565b80515f905f905b80821061285a575050916020916127c661282c946110ce565b6127cf816126bb565b906024858301377fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea602545f9061280e9061066b906001600160a01b031681565b9260405196879586948593632c027b1360e21b855260048501612720565b03925af1908115610877575f91612841575090565b610381915060203d6020116108705761086281836102e5565b909160096128688486612346565b51601e1a6128758161253d565b61287e8161253d565b10156128975761288f6001916110ce565b9201906127ad565b60405163ce54a8d160e01b8152600490fd5b93926128d590600593606093875260018060a01b03166020870152608060408701526080860190610901565b930152565b9060646020925f60018060a01b035f80516020612a5b83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610877575f91612283575090565b9060206103819281815201906126ed565b92916129569184526060602085015260608401906126ed565b91604063284036c160e01b910152565b805f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d026020918160205260405f2054612a28575f5260205260405f20908251926001600160401b03841161029757600160401b8411610297578254848455808510612a02575b5060206129df9101925f5260205f2090565b905f5b8481106129f0575050505050565b835183820155928101926001016129e2565b835f528460205f2091820191015b818110612a1d57506129cd565b5f8155600101612a10565b604051633f06d22b60e01b8152600490fdfeed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601f0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00a164736f6c6343000818000a";
+
+type AuctionInstanceConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AuctionInstanceConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AuctionInstance__factory extends ContractFactory {
+  constructor(...args: AuctionInstanceConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AuctionInstance & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AuctionInstance__factory {
+    return super.connect(runner) as AuctionInstance__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AuctionInstanceInterface {
+    return new Interface(_abi) as AuctionInstanceInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AuctionInstance {
+    return new Contract(address, _abi, runner) as unknown as AuctionInstance;
+  }
+}
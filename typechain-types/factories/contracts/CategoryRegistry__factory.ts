@@ -0,0 +1,387 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CategoryRegistry,
+  CategoryRegistryInterface,
+} from "../../contracts/CategoryRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "_governance",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "categoryId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+    ],
+    name: "CategoryAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "categoryId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+    ],
+    name: "CategoryMetadataUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "categoryId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "CategoryRenamed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "categoryId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isEnabled",
+        type: "bool",
+      },
+    ],
+    name: "CategoryStatusChanged",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_metadataURI",
+        type: "string",
+      },
+    ],
+    name: "addCategory",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "categoryId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCategories",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataURI",
+            type: "string",
+          },
+          {
+            internalType: "bool",
+            name: "isEnabled",
+            type: "bool",
+          },
+        ],
+        internalType: "struct CategoryRegistry.Category[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+    ],
+    name: "getCategory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataURI",
+            type: "string",
+          },
+          {
+            internalType: "bool",
+            name: "isEnabled",
+            type: "bool",
+          },
+        ],
+        internalType: "struct CategoryRegistry.Category",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+    ],
+    name: "getCategoryId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "governance",
+    outputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+    ],
+    name: "isValidCategory",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextCategoryId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+    ],
+    name: "renameCategory",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isEnabled",
+        type: "bool",
+      },
+    ],
+    name: "setCategoryEnabled",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_metadataURI",
+        type: "string",
+      },
+    ],
+    name: "setCategoryMetadataURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346100d557601f6111f138819003918201601f19168301916001600160401b038311848410176100d9578084926020946040528339810103126100d557516001600160a01b0381168082036100d5576001600255156100905760805260405161110390816100ee823960805181818160b2015281816103d4015281816104ff015281816106a6015261091b0152f35b60405162461bcd60e51b815260206004820152601960248201527f476f7665726e616e63652063616e6e6f74206265207a65726f000000000000006044820152606490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080604052600480361015610012575f80fd5b5f3560e01c80631bf703b2146108b3578063470e323a1461067b5780634db0412c1461052e5780635aa6e675146104ea5780636cef393d146104975780637a463d84146103945780639a8cad7814610348578063bc3244381461032b578063f3052d26146102c55763fc6dbdf714610088575f80fd5b346102c15761009636610d83565b604051630935e01b60e21b8152338482015260209081816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156102b6576100f3915f91610289575b50610e4c565b8215158061027e575b61010590610ecf565b825f525f8152600260405f20018251946001600160401b03861161026b575061012e8154610e97565b601f8111610228575b5081601f86116001146101a75794807f196a6dab73b694f56c409e2db5cf2f596a196911a44574a198bbef844042282195965f9161019c575b508160011b915f199060031b1c19161790555b610197604051928284938452830190610db5565b0390a2005b90508401515f610170565b601f19861690825f52835f20915f5b81811061021157509187917f196a6dab73b694f56c409e2db5cf2f596a196911a44574a198bbef84404228219798600194106101f9575b5050811b019055610183565b8601515f1960f88460031b161c191690555f806101ed565b91928560018192868a0151815501940192016101b6565b815f52825f20601f870160051c810191848810610261575b601f0160051c01905b8181106102565750610137565b5f8155600101610249565b9091508190610240565b604190634e487b7160e01b5f525260245ffd5b5060025483106100fc565b6102a99150833d85116102af575b6102a18183610d0d565b810190610e34565b5f6100ed565b503d610297565b6040513d5f823e3d90fd5b5f80fd5b50346102c15760203660031901126102c157356102e0610fb6565b5080151580610320575b6102f390610ecf565b5f525f60205261031c61030860405f20611002565b604051918291602083526020830190610df3565b0390f35b5060025481106102ea565b346102c1575f3660031901126102c1576020600254604051908152f35b50346102c15760203660031901126102c1578035906001600160401b0382116102c15761037791369101610d2e565b602081519101205f526001602052602060405f2054604051908152f35b50346102c15760403660031901126102c157803590602435908115158083036102c157604051630935e01b60e21b815233928101929092526020826024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156102b6577f5c8993a56be02577a1c90769c6ccaad938e47fd0f9ceb26a1cefb676744599929361043c61046c926020955f916104805750610e4c565b85151580610475575b61044e90610ecf565b855f525f8452600360405f20019060ff801983541691151516179055565b604051908152a2005b506002548610610445565b6102a99150863d88116102af576102a18183610d0d565b50346102c15760203660031901126102c15735801515806104df575b806104c6575b6020906040519015158152f35b505f525f602052602060ff600360405f200154166104b9565b5060025481106104b3565b346102c1575f3660031901126102c1576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346102c1575f3660031901126102c1576002545f199190828101908082116106685761057561055f839593610f9f565b9461056d6040519687610d0d565b808652610f9f565b60209390601f19015f5b81811061064c57505060019260015b8381106105f7575050505060405191808301818452845180915260408401918060408360051b8701019601925f905b8382106105ca5786880387f35b909192939483806105e6839a603f198b82030186528951610df3565b9997019594939190910191016105bd565b805f979597525f865260405f20828201908282116106395788929161061e61062f92611002565b610628828a610fda565b5287610fda565b500195939561058e565b601185634e487b7160e01b5f525260245ffd5b8590610659979597610fb6565b8282880101520195939561057f565b601183634e487b7160e01b5f525260245ffd5b50346102c15761068a36610d83565b604051630935e01b60e21b8152338482015260209081816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156102b6576106e6915f916102895750610e4c565b821515806108a8575b6106f890610ecf565b61070182611057565b825f525f815260016107216107288260405f200160405192838092610f0e565b0382610d0d565b8281519101205f528082525f6040812055835f525f82528060405f20018351956001600160401b03871161026b57506107618154610e97565b601f8111610862575b5082601f87116001146107e45795807f42422f9fef7c0ec85f99a81cb213d2f7553fab0fcd663fcde5deb9e5c04f5a2496975f916107d9575b505f19600383901b1c191690831b1790555b8251828401205f5281528360405f2055610197604051928284938452830190610db5565b90508501515f6107a3565b601f19871690825f52845f20915f5b81811061084d57509188917f42422f9fef7c0ec85f99a81cb213d2f7553fab0fcd663fcde5deb9e5c04f5a249899869410610835575b5050811b0190556107b5565b8701515f1960f88460031b161c191690555f80610829565b878301518455928501929186019186016107f3565b815f52835f20601f880160051c81019185891061089e575b601f0160051c019083905b82811061089357505061076a565b5f8155018390610885565b909150819061087a565b5060025483106106ef565b50346102c15760403660031901126102c15780356001600160401b0381116102c1576108e29036908301610d2e565b906024356001600160401b0381116102c1576109019036908301610d2e565b604051630935e01b60e21b815233838201526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156102b65761095b915f91610cc55750610e4c565b61096483611057565b600254915f198314610cb2576001830160025560405161098381610cde565b838152602081019185835283604083015260016060830152845f525f60205260405f209282518455518051906001600160401b038211610c9f5781906109cc6001870154610e97565b601f8111610c4f575b50602090601f8311600114610be1575f92610bd6575b50508160011b915f199060031b1c19161760018401555b600283019060408301518051916001600160401b03831161026b5750610a288354610e97565b601f8111610b91575b50918695939160209895938990601f8311600114610afa576060610ae495610ad7989585610ab1967f510ee7f48ff820779f721c841c49c1e77c93503579ecd7ff4237e15d710504a99c9a966003965f92610aef575b50508160011b915f1990871b1c19161790555b0151151591019060ff801983541691151516179055565b8251888401205f52600188528560405f2055604051938493604085526040850190610db5565b9083820389850152610db5565b0390a2604051908152f35b015190505f80610a87565b90601f19831691845f528b5f20925f5b818110610b77575095610ad798956001867f510ee7f48ff820779f721c841c49c1e77c93503579ecd7ff4237e15d710504a99c9a96600396606096610ab19a610ae49d10610b60575b505050811b019055610a9a565b01515f1983891b60f8161c191690555f8080610b53565b8284015185558c9b50600190940193928d01928d01610b0a565b835f5260205f20601f840160051c81019160208510610bcc575b601f0160051c01905b818110610bc15750610a31565b5f8155600101610bb4565b9091508190610bab565b015190505f806109eb565b9250600186015f5260205f20905f935b601f1984168510610c34576001945083601f19811610610c1c575b505050811b016001840155610a02565b01515f1960f88460031b161c191690555f8080610c0c565b81810151835560209485019460019093019290910190610bf1565b909150600186015f5260205f20601f840160051c810160208510610c98575b90849392915b601f830160051c82018110610c8a5750506109d5565b5f8155859450600101610c74565b5080610c6e565b604183634e487b7160e01b5f525260245ffd5b601190634e487b7160e01b5f525260245ffd5b6102a9915060203d6020116102af576102a18183610d0d565b608081019081106001600160401b03821117610cf957604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b03821117610cf957604052565b81601f820112156102c1578035906001600160401b038211610cf95760405192610d62601f8401601f191660200185610d0d565b828452602083830101116102c157815f926020809301838601378301015290565b9060406003198301126102c15760043591602435906001600160401b0382116102c157610db291600401610d2e565b90565b91908251928382525f5b848110610ddf575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610dbf565b9081518152606080610e29610e176020860151608060208701526080860190610db5565b60408601518582036040870152610db5565b930151151591015290565b908160209103126102c1575180151581036102c15790565b15610e5357565b606460405162461bcd60e51b815260206004820152602060248201527f4f6e6c792061646d696e2063616e206d616e6167652063617465676f726965736044820152fd5b90600182811c92168015610ec5575b6020831014610eb157565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610ea6565b15610ed657565b60405162461bcd60e51b815260206004820152601060248201526f496e76616c69642063617465676f727960801b6044820152606490fd5b80545f9392610f1c82610e97565b918282526020936001916001811690815f14610f805750600114610f42575b5050505050565b90939495505f92919252835f2092845f945b838610610f6c57505050500101905f80808080610f3b565b805485870183015294019385908201610f54565b60ff19168685015250505090151560051b010191505f80808080610f3b565b6001600160401b038111610cf95760051b60200190565b60405190610fc382610cde565b5f6060838281528160208201528160408201520152565b8051821015610fee5760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b9060405161100f81610cde565b606060ff600383958054855260405161102f816107218160018601610f0e565b6020860152604051611048816107218160028601610f0e565b60408601520154161515910152565b8051156110b657602081519101205f52600160205260405f205461107757565b60405162461bcd60e51b815260206004820152601760248201527643617465676f727920616c72656164792065786973747360481b6044820152606490fd5b60405162461bcd60e51b815260206004820152601860248201527743617465676f72792063616e6e6f7420626520656d70747960401b6044820152606490fdfea164736f6c6343000818000a";
+
+type CategoryRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CategoryRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CategoryRegistry__factory extends ContractFactory {
+  constructor(...args: CategoryRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_governance, overrides || {});
+  }
+  override deploy(
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_governance, overrides || {}) as Promise<
+      CategoryRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CategoryRegistry__factory {
+    return super.connect(runner) as CategoryRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CategoryRegistryInterface {
+    return new Interface(_abi) as CategoryRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CategoryRegistry {
+    return new Contract(address, _abi, runner) as unknown as CategoryRegistry;
+  }
+}
@@ -547,7 +547,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x60806040523461019b575f606061001461019f565b828152826020820152826040820152015261002d61019f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d009182541617905560016004555f60055560405161186c90816101d38239f35b5f80fd5b60405190608082016001600160401b038111838210176101be57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af3341461152857806316002f4a1461150b57806324600fc31461148f5780633f40efdc14610ea557806346c3fb7314610de9578063571a26a014610ce85780635f93de4914610c4b578063744d341114610c0257806375b6a06e146103c35780637765c52c1461033f5780637ca7cc57146102f6578063a65ed0d6146102f6578063b4fbe80a146102a2578063b9a2de3a146101f5578063c750cb79146101a3578063fc528482146101865763ff3ad0b4146100d4575f80fd5b3461018257602080600319360112610182576001600160a01b036100f6611760565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016e57868661012f828803836115a3565b60405192839281840190828552518091526040840192915f5b82811061015757505050500390f35b835185528695509381019392810192600101610148565b835485529093019260019283019201610119565b5f80fd5b34610182575f366003190112610182576020600454604051908152f35b3461018257602036600319011261018257600435801515806101ea575b6101c990611799565b5f525f60205260206001600160a01b03600a60405f20015416604051908152f35b5060045481106101c0565b346101825760203660031901126101825760043580151580610297575b61021b90611799565b805f525f6020526001600160a01b03600560405f200154163303610252575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610212565b34610182576040366003190112610182576102bb611760565b6001600160a01b0360243591165f52600260205260405f208054821015610182576020916102e891611776565b90546040519160031b1c8152f35b34610182576040366003190112610182576001600160a01b03610317611760565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461018257602036600319011261018257600435801515806103b8575b61036590611799565b5f525f602052608060405f2060068101549060ff60078201541690816103aa575b600b6008820154910154916040519384521515602084015260408301526060820152f35b600881015442109150610386565b50600454811061035c565b346101825760803660031901126101825760043567ffffffffffffffff8111610182576103f49036906004016115c5565b60243567ffffffffffffffff8111610182576104149036906004016115c5565b60443567ffffffffffffffff8111610182576104349036906004016115c5565b825115610bbd57815115610b785760643515610b28576004549162093a8042014211610b14575f60206001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416604460405180948193639cd07acb60e01b8352816004840152600560248401525af18015610ad7575f90610ae2575b5f915060206001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416604460405180958193639cd07acb60e01b83528160048401528160248401525af1918215610ad7575f92610aa3575b5061052130826117e5565b61052b30836117e5565b60405192836101a081011067ffffffffffffffff6101a08601111761083c576101a08401604052858452866020850152604084015283606084015260643560808401523360a08401524260c0840152600160e084015262093a8042016101008401526101208301525f6101408301525f610160830152610180820152825f525f60205260405f209080518255602081015180519067ffffffffffffffff821161083c5781906105dd6001860154611659565b601f8111610a53575b50602090601f83116001146109e5575f926109da575b50508160011b915f199060031b1c19161760018301555b604081015180519067ffffffffffffffff821161083c5781906106396002860154611659565b601f811161098a575b50602090601f831160011461091c575f92610911575b50508160011b915f199060031b1c19161760028301555b606081015180519067ffffffffffffffff821161083c576106936003850154611659565b601f81116108cd575b50602090601f831160011461085b579180600c9492610180945f92610850575b50508160011b915f199060031b1c19161760038501555b60808101516004850155600584016001600160a01b0360a0830151169073ffffffffffffffffffffffffffffffffffffffff19918282541617905560c0820151600686015561073760e08301511515600787019060ff801983541691151516179055565b61010082015160088601556101208201516009860155600a8501906001600160a01b036101408401511690825416179055610160810151600b8501550151910155335f52600260205260405f20908154906801000000000000000082101561083c576107cd827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d94600161082095018155611776565b81549060031b9086821b915f19901b19161790556107ec60055461178b565b6005556107fa60045461178b565b6004556108126040519560808752608087019061161b565b90858203602087015261161b565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b0151905089806106bc565b90600385015f5260205f20915f5b601f19851681106108b5575092600c94926001926101809583601f1981161061089d575b505050811b0160038501556106d3565b01515f1960f88460031b161c1916905589808061088d565b91926020600181928685015181550194019201610869565b600385015f5260205f20601f840160051c81016020851061090a575b601f830160051c820181106108ff57505061069c565b5f81556001016108e9565b50806108e9565b015190508780610658565b9250600285015f5260205f20905f935b601f198416851061096f576001945083601f19811610610957575b505050811b01600283015561066f565b01515f1960f88460031b161c19169055878080610947565b8181015183556020948501946001909301929091019061092c565b909150600285015f5260205f20601f840160051c8101602085106109d3575b90849392915b601f830160051c820181106109c5575050610642565b5f81558594506001016109af565b50806109a9565b0151905087806105fc565b9250600185015f5260205f20905f935b601f1984168510610a38576001945083601f19811610610a20575b505050811b016001830155610613565b01515f1960f88460031b161c19169055878080610a10565b818101518355602094850194600190930192909101906109f5565b909150600185015f5260205f20601f840160051c810160208510610a9c575b90849392915b601f830160051c82018110610a8e5750506105e6565b5f8155859450600101610a78565b5080610a72565b9091506020813d602011610acf575b81610abf602093836115a3565b8101031261018257519086610516565b3d9150610ab2565b6040513d5f823e3d90fd5b506020813d602011610b0c575b81610afc602093836115a3565b81010312610182575f90516104b7565b3d9150610aef565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f5469746c652063616e6e6f7420626520656d70747900000000000000000000006044820152606490fd5b346101825760203660031901126101825760043580151580610c40575b610c2890611799565b5f525f6020526020600b60405f200154604051908152f35b506004548110610c1f565b34610182576040366003190112610182576024356004355f52600160205260405f2090815481101561018257610c8091611733565b506001600160a01b038154166001820154916002810154610cd7610ca660038401611691565b60ff60056004860154950154169260405196879687526020870152604086015260c0606086015260c085019061161b565b916080840152151560a08301520390f35b34610182576020366003190112610182576004355f525f60205260405f20805460018201610d1590611691565b91610d2260028201611691565b610d2e60038301611691565b916004810154926001600160a01b03806005840154166006840154600785015460ff1690600886015492600987015494600a8801541695600b88015497600c0154986040519c8d809d6101a09182918152602001528d01610d8e9161161b565b8c810360408e0152610d9f9161161b565b8b810360608d0152610db09161161b565b9860808b015260a08a015260c0890152151560e08801526101008701526101208601526101408501526101608401526101808301520390f35b346101825760203660031901126101825760043580151580610e9a575b610e0f90611799565b5f525f602052610e6f60405f2060048101546001600160a01b03600583015416610e8b610e3e60018501611691565b93610e7d610e5a6003610e5360028501611691565b9301611691565b9160405197889760a0895260a089019061161b565b90878203602089015261161b565b90858203604087015261161b565b91606084015260808301520390f35b506004548110610e06565b6080366003190112610182576024803515158135036101825767ffffffffffffffff90604490813560643584811161018257610ee59036906004016115c5565b93600435151580611482575b610efa90611799565b6004355f525f60205260ff600760405f200154161561143f576004355f525f602052600860405f2001544210156113fc576004355f525f602052600460405f20015482106113b95781341061137657905f92916001600160a01b03917fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190602084835416886040518099819388639cd07acb60e01b9788855216600484015260058b8401525af1958615610ad7575f9661133f575b5060ff9660209291863515611336575f866001945b54166040519a8b958694855216600484015281898401525af1948515610ad7575f95611302575b50610ff630856117e5565b61100030866117e5565b61100a33856117e5565b61101433866117e5565b6004355f52600160205260405f20906040519160c08301838110838211176112ef5760405233835260208301868152604084019088825260608501928a84524260808701525f60a0870152805490680100000000000000008210156112dc579061108391600182018155611733565b9690966112ca5785511673ffffffffffffffffffffffffffffffffffffffff198754161786555160018601555160028501555180519182116112b7576110cc6003850154611659565b601f8111611273575b50602090601f83116001146111fe57928260059360a09361113097965f926111f3575b50508160011b915f199060031b1c19161760038501555b608081015160048501550151151591019060ff801983541691151516179055565b6004355f525f60205260405f2090600b820161114c815461178b565b9055335f52600360205260405f206004355f5260205260405f20600160ff19825416179055356111c0575b8361118d6040519160408352604083019061161b565b4260208301527f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc339280600435930390a3005b600c916009820155600a81013373ffffffffffffffffffffffffffffffffffffffff198254161790550155818080611177565b015190508b806110f8565b90600385015f5260205f20915f5b601f198516811061125b57508360a093611130979693600193600597601f19811610611243575b505050811b01600385015561110f565b01515f1960f88460031b161c191690558b8080611233565b9192602060018192868501518155019401920161120c565b600385015f5260205f20601f840160051c8101602085106112b0575b601f830160051c820181106112a55750506110d5565b5f815560010161128f565b508061128f565b84634e487b7160e01b5f5260416004525ffd5b87634e487b7160e01b5f525f6004525ffd5b88634e487b7160e01b5f5260416004525ffd5b85634e487b7160e01b5f5260416004525ffd5b9094506020813d60201161132e575b8161131e602093836115a3565b8101031261018257519386610feb565b3d9150611311565b5f868194610fc4565b919095506020823d60201161136e575b8161135c602093836115a3565b810103126101825790519460ff610faf565b3d915061134f565b60405162461bcd60e51b8152602060048201526014818501527f496e73756666696369656e74207061796d656e7400000000000000000000000081860152606490fd5b60405162461bcd60e51b815260206004820152600b818501527f42696420746f6f206c6f7700000000000000000000000000000000000000000081860152606490fd5b60405162461bcd60e51b8152602060048201526011818501527f41756374696f6e2068617320656e64656400000000000000000000000000000081860152606490fd5b60405162461bcd60e51b8152602060048201526015818501527f41756374696f6e206973206e6f7420616374697665000000000000000000000081860152606490fd5b5060048054903510610ef1565b34610182575f366003190112610182573033036114c6575f808080478181156114bd575b3390f115610ad757005b506108fc6114b3565b60405162461bcd60e51b815260206004820152601360248201527f4f6e6c7920636f6e7472616374206f776e6572000000000000000000000000006044820152606490fd5b34610182575f366003190112610182576020600554604051908152f35b34610182575f366003190112610182575f6001906001600454905b81811061155d576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff6007820154169081611595575b50611585575b01611543565b9261158f9061178b565b9261157f565b600891500154421086611579565b90601f8019910116810190811067ffffffffffffffff82111761083c57604052565b81601f820112156101825780359067ffffffffffffffff821161083c57604051926115fa601f8401601f1916602001856115a3565b8284526020838301011161018257815f926020809301838601378301015290565b91908251928382525f5b848110611645575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201611625565b90600182811c92168015611687575b602083101461167357565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611668565b9060405191825f82546116a381611659565b908184526020946001916001811690815f1461171157506001146116d3575b5050506116d1925003836115a3565b565b5f90815285812095935091905b8183106116f95750506116d193508201015f80806116c2565b855488840185015294850194879450918301916116e0565b925050506116d194925060ff191682840152151560051b8201015f80806116c2565b805482101561174c575f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361018257565b805482101561174c575f5260205f2001905f90565b5f198114610b145760010190565b156117a057565b60405162461bcd60e51b815260206004820152601260248201527f496e76616c69642061756374696f6e20494400000000000000000000000000006044820152606490fd5b6001600160a01b0391827fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6005416803b15610182575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015610ad75761184b5750565b67ffffffffffffffff811161083c5760405256fea164736f6c6343000818000a";
+  "0x60806040523461019b575f606061001461019f565b828152826020820152826040820152015261002d61019f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d009182541617905560016004555f6005556040516117dc90816101d38239f35b5f80fd5b60405190608082016001600160401b038111838210176101be57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af3341461148557806316002f4a1461146857806324600fc3146113f65780633f40efdc14610e6857806346c3fb7314610dad578063571a26a014610cab5780635f93de4914610c0f578063744d341114610bc657806375b6a06e146103c75780637765c52c146103435780637ca7cc57146102fa578063a65ed0d6146102fa578063b4fbe80a146102a3578063b9a2de3a146101f4578063c750cb79146101a3578063fc528482146101865763ff3ad0b4146100d4575f80fd5b3461018257602080600319360112610182576001600160a01b036100f66116bb565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016e57868661012f82880383611500565b60405192839281840190828552518091526040840192915f5b82811061015757505050500390f35b835185528695509381019392810192600101610148565b835485529093019260019283019201610119565b5f80fd5b34610182575f366003190112610182576020600454604051908152f35b3461018257602036600319011261018257600435801515806101e9575b6101c9906116f4565b5f525f602052602060018060a01b03600a60405f20015416604051908152f35b5060045481106101c0565b346101825760203660031901126101825760043580151580610298575b61021a906116f4565b5f818152602081905260409020600501546001600160a01b03163303610253575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610211565b34610182576040366003190112610182576102bc6116bb565b6001600160a01b03165f90815260026020526040902080546024359190821015610182576020916102ec916116d1565b90546040519160031b1c8152f35b34610182576040366003190112610182576001600160a01b0361031b6116bb565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461018257602036600319011261018257600435801515806103bc575b610369906116f4565b5f525f602052608060405f2060068101549060ff60078201541690816103ae575b600b6008820154910154916040519384521515602084015260408301526060820152f35b60088101544210915061038a565b506004548110610360565b34610182576080366003190112610182576004356001600160401b038111610182576103f7903690600401611521565b6024356001600160401b03811161018257610416903690600401611521565b6044356001600160401b03811161018257610435903690600401611521565b825115610b8957815115610b445760643515610af4576004549162093a8042014211610ae0575f805160206117b083398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af18015610aa3575f90610aae575b5f9150602060018060a01b035f805160206117b08339815191525416604460405180958193639cd07acb60e01b83528160048401528160248401525af1918215610aa3575f92610a6f575b506105003082611735565b61050a3083611735565b60405192836101a08101106001600160401b036101a086011117610808576101a08401604052858452866020850152604084015283606084015260643560808401523360a08401524260c0840152600160e084015262093a8042016101008401526101208301525f6101408301525f610160830152610180820152825f525f60205260405f20908051825560208101518051906001600160401b0382116108085781906105ba60018601546115b4565b601f8111610a1f575b50602090601f83116001146109b1575f926109a6575b50508160011b915f199060031b1c19161760018301555b60408101518051906001600160401b03821161080857819061061560028601546115b4565b601f8111610956575b50602090601f83116001146108e8575f926108dd575b50508160011b915f199060031b1c19161760028301555b60608101518051906001600160401b0382116108085761066e60038501546115b4565b601f8111610899575b50602090601f8311600114610827579180600c9492610180945f9261081c575b50508160011b915f199060031b1c19161760038501555b608081015160048501556005840160018060a01b0360a0830151169060018060a01b0319918282541617905560c0820151600686015561070360e08301511515600787019060ff801983541691151516179055565b61010082015160088601556101208201516009860155610140820151600a860180549092166001600160a01b0391909116179055610160810151600b8501550151910155335f90815260026020526040902080549091600160401b82101561080857610799827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d9460016107ec950181556116d1565b81549060031b9086821b915f19901b19161790556107b86005546116e6565b6005556107c66004546116e6565b6004556107de60405195608087526080870190611576565b908582036020870152611576565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b015190508980610697565b90600385015f5260205f20915f5b601f1985168110610881575092600c94926001926101809583601f19811610610869575b505050811b0160038501556106ae565b01515f1960f88460031b161c19169055898080610859565b91926020600181928685015181550194019201610835565b600385015f5260205f20601f840160051c8101602085106108d6575b601f830160051c820181106108cb575050610677565b5f81556001016108b5565b50806108b5565b015190508780610634565b9250600285015f5260205f20905f935b601f198416851061093b576001945083601f19811610610923575b505050811b01600283015561064b565b01515f1960f88460031b161c19169055878080610913565b818101518355602094850194600190930192909101906108f8565b909150600285015f5260205f20601f840160051c81016020851061099f575b90849392915b601f830160051c8201811061099157505061061e565b5f815585945060010161097b565b5080610975565b0151905087806105d9565b9250600185015f5260205f20905f935b601f1984168510610a04576001945083601f198116106109ec575b505050811b0160018301556105f0565b01515f1960f88460031b161c191690558780806109dc565b818101518355602094850194600190930192909101906109c1565b909150600185015f5260205f20601f840160051c810160208510610a68575b90849392915b601f830160051c82018110610a5a5750506105c3565b5f8155859450600101610a44565b5080610a3e565b9091506020813d602011610a9b575b81610a8b60209383611500565b81010312610182575190866104f5565b3d9150610a7e565b6040513d5f823e3d90fd5b506020813d602011610ad8575b81610ac860209383611500565b81010312610182575f90516104aa565b3d9150610abb565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b346101825760203660031901126101825760043580151580610c04575b610bec906116f4565b5f525f6020526020600b60405f200154604051908152f35b506004548110610be3565b34610182576040366003190112610182576024356004355f52600160205260405f2090815481101561018257610c449161168e565b5060018060a01b038154166001820154916002810154610c9a610c69600384016115ec565b60ff60056004860154950154169260405196879687526020870152604086015260c0606086015260c0850190611576565b916080840152151560a08301520390f35b34610182576020366003190112610182576004355f525f60205260405f20805460018201610cd8906115ec565b91610ce5600282016115ec565b610cf1600383016115ec565b91600481015492600160a01b60019003806005840154166006840154600785015460ff1690600886015492600987015494600a8801541695600b88015497600c0154986040519c8d809d6101a09182918152602001528d01610d5291611576565b8c810360408e0152610d6391611576565b8b810360608d0152610d7491611576565b9860808b015260a08a015260c0890152151560e08801526101008701526101208601526101408501526101608401526101808301520390f35b346101825760203660031901126101825760043580151580610e5d575b610dd3906116f4565b5f525f602052610e3260405f20600481015460018060a01b03600583015416610e4e610e01600185016115ec565b93610e40610e1d6003610e16600285016115ec565b93016115ec565b9160405197889760a0895260a0890190611576565b908782036020890152611576565b908582036040870152611576565b91606084015260808301520390f35b506004548110610dca565b608036600319011261018257602480351515813503610182576001600160401b0390604490813560643584811161018257610ea7903690600401611521565b936004351515806113e9575b610ebc906116f4565b6004355f525f60205260ff600760405f20015416156113ae576004355f525f602052600860405f200154421015611377576004355f525f602052600460405f20015482106113465781341061130c575f805160206117b08339815191528054604051639cd07acb60e01b808252948416600482015260058187015294936001600160a01b039392916020908790899082905f9089165af1958615610aa3575f966112d5575b5060ff96602092918635156112cc575f866001945b54166040519a8b958694855216600484015281898401525af1948515610aa3575f95611298575b50610fa83085611735565b610fb23086611735565b610fbc3385611735565b610fc63386611735565b6004355f52600160205260405f20906040519160c08301838110838211176112855760405233835260208301868152604084019088825260608501928a84524260808701525f60a0870152805490600160401b82101561127257906110309160018201815561168e565b96909661126057855187546001600160a01b031916911617865551600186015551600285015551805191821161124d5761106d60038501546115b4565b601f8111611209575b50602090601f831160011461119457928260059360a0936110d197965f92611189575b50508160011b915f199060031b1c19161760038501555b608081015160048501550151151591019060ff801983541691151516179055565b6004355f525f60205260405f2090600b82016110ed81546116e6565b9055335f52600360205260405f206004355f5260205260405f20600160ff1982541617905535611161575b8361112e60405191604083526040830190611576565b4260208301527f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc339280600435930390a3005b6009810191909155600a810180546001600160a01b03191633179055600c0155818080611118565b015190508b80611099565b90600385015f5260205f20915f5b601f19851681106111f157508360a0936110d1979693600193600597601f198116106111d9575b505050811b0160038501556110b0565b01515f1960f88460031b161c191690558b80806111c9565b919260206001819286850151815501940192016111a2565b600385015f5260205f20601f840160051c810160208510611246575b601f830160051c8201811061123b575050611076565b5f8155600101611225565b5080611225565b84634e487b7160e01b5f5260416004525ffd5b87634e487b7160e01b5f525f6004525ffd5b88634e487b7160e01b5f5260416004525ffd5b85634e487b7160e01b5f5260416004525ffd5b9094506020813d6020116112c4575b816112b460209383611500565b8101031261018257519386610f9d565b3d91506112a7565b5f868194610f76565b919095506020823d602011611304575b816112f260209383611500565b810103126101825790519460ff610f61565b3d91506112e5565b60405162461bcd60e51b81526020600482015260148185015273125b9cdd59999a58da595b9d081c185e5b595b9d60621b81860152606490fd5b60405162461bcd60e51b815260206004820152600b818501526a42696420746f6f206c6f7760a81b81860152606490fd5b60405162461bcd60e51b81526020600482015260118185015270105d58dd1a5bdb881a185cc8195b991959607a1b81860152606490fd5b60405162461bcd60e51b8152602060048201526015818501527441756374696f6e206973206e6f742061637469766560581b81860152606490fd5b5060048054903510610eb3565b34610182575f3660031901126101825730330361142d575f80808047818115611424575b3390f115610aa357005b506108fc61141a565b60405162461bcd60e51b815260206004820152601360248201527227b7363c9031b7b73a3930b1ba1037bbb732b960691b6044820152606490fd5b34610182575f366003190112610182576020600554604051908152f35b34610182575f366003190112610182575f6001906001600454905b8181106114ba576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff60078201541690816114f2575b506114e2575b016114a0565b926114ec906116e6565b926114dc565b6008915001544210866114d6565b90601f801991011681019081106001600160401b0382111761080857604052565b81601f82011215610182578035906001600160401b0382116108085760405192611555601f8401601f191660200185611500565b8284526020838301011161018257815f926020809301838601378301015290565b91908251928382525f5b8481106115a0575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201611580565b90600182811c921680156115e2575b60208310146115ce57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916115c3565b9060405191825f82546115fe816115b4565b908184526020946001916001811690815f1461166c575060011461162e575b50505061162c92500383611500565b565b5f90815285812095935091905b81831061165457505061162c93508201015f808061161d565b8554888401850152948501948794509183019161163b565b9250505061162c94925060ff191682840152151560051b8201015f808061161d565b80548210156116a7575f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361018257565b80548210156116a7575f5260205f2001905f90565b5f198114610ae05760010190565b156116fb57565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fd5b7fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600546001600160a01b0392908316803b15610182575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015610aa35761179c5750565b6001600160401b0381116108085760405256feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a164736f6c6343000818000a";
 
 type ConfidentialAuctionFHEConstructorParams =
   | [signer?: Signer]
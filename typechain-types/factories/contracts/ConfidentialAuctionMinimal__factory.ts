@@ -520,7 +520,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x60806040523461019b575f606061001461019f565b828152826020820152826040820152015261002d61019f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d009182541617905560016004555f60055560405161154e90816101d38239f35b5f80fd5b60405190608082016001600160401b038111838210176101be57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af3341461120a57806316002f4a146111ed5780633f40efdc14610cec57806346c3fb7314610c30578063571a26a014610b475780635f93de4914610ac3578063744d341114610a7a57806375b6a06e146103b85780637765c52c146103345780637ca7cc57146102eb578063a65ed0d6146102eb578063b4fbe80a14610297578063b9a2de3a146101ea578063c750cb7914610198578063fc5284821461017b5763ff3ad0b4146100c9575f80fd5b3461017757602080600319360112610177576001600160a01b036100eb611442565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016357868661012482880383611285565b60405192839281840190828552518091526040840192915f5b82811061014c57505050500390f35b83518552869550938101939281019260010161013d565b83548552909301926001928301920161010e565b5f80fd5b34610177575f366003190112610177576020600454604051908152f35b3461017757602036600319011261017757600435801515806101df575b6101be9061147b565b5f525f60205260206001600160a01b03600960405f20015416604051908152f35b5060045481106101b5565b34610177576020366003190112610177576004358015158061028c575b6102109061147b565b805f525f6020526001600160a01b03600560405f200154163303610247575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610207565b34610177576040366003190112610177576102b0611442565b6001600160a01b0360243591165f52600260205260405f208054821015610177576020916102dd91611458565b90546040519160031b1c8152f35b34610177576040366003190112610177576001600160a01b0361030c611442565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461017757602036600319011261017757600435801515806103ad575b61035a9061147b565b5f525f602052608060405f2060068101549060ff600782015416908161039f575b600a6008820154910154916040519384521515602084015260408301526060820152f35b60088101544210915061037b565b506004548110610351565b346101775760803660031901126101775760043567ffffffffffffffff8111610177576103e99036906004016112a7565b60243567ffffffffffffffff8111610177576104099036906004016112a7565b60443567ffffffffffffffff8111610177576104299036906004016112a7565b825115610a35578151156109f057606435156109a0576004549162093a804201421161098c57604051610160810181811067ffffffffffffffff821117610725576040528381526020810191858352604082015282606082015260643560808201523360a08201524260c0820152600160e082015262093a8042016101008201525f6101208201525f610140820152835f525f60205260405f2091815183555180519067ffffffffffffffff82116107255781906104ea600186015461133b565b601f811161093c575b50602090601f83116001146108ce575f926108c3575b50508160011b915f199060031b1c19161760018301555b604081015180519067ffffffffffffffff8211610725578190610546600286015461133b565b601f8111610873575b50602090601f8311600114610805575f926107fa575b50508160011b915f199060031b1c19161760028301555b606081015180519067ffffffffffffffff8211610725576105a0600385015461133b565b601f81116107b6575b50602090601f8311600114610744579180600a9492610140945f92610739575b50508160011b915f199060031b1c19161760038501555b60808101516004850155600584016001600160a01b03908160a0840151169073ffffffffffffffffffffffffffffffffffffffff19918282541617905560c083015160068701556007860160e0840151151560ff801983541691161790556101008301516008870155600986019161012084015116908254161790550151910155335f52600260205260405f209081549068010000000000000000821015610725576106b6827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d94600161070995018155611458565b81549060031b9086821b915f19901b19161790556106d560055461146d565b6005556106e360045461146d565b6004556106fb604051956080875260808701906112fd565b9085820360208701526112fd565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b0151905089806105c9565b90600385015f5260205f20915f5b601f198516811061079e575092600a94926001926101409583601f19811610610786575b505050811b0160038501556105e0565b01515f1960f88460031b161c19169055898080610776565b91926020600181928685015181550194019201610752565b600385015f5260205f20601f840160051c8101602085106107f3575b601f830160051c820181106107e85750506105a9565b5f81556001016107d2565b50806107d2565b015190508780610565565b9250600285015f5260205f20905f935b601f1984168510610858576001945083601f19811610610840575b505050811b01600283015561057c565b01515f1960f88460031b161c19169055878080610830565b81810151835560209485019460019093019290910190610815565b909150600285015f5260205f20601f840160051c8101602085106108bc575b90849392915b601f830160051c820181106108ae57505061054f565b5f8155859450600101610898565b5080610892565b015190508780610509565b9250600185015f5260205f20905f935b601f1984168510610921576001945083601f19811610610909575b505050811b016001830155610520565b01515f1960f88460031b161c191690558780806108f9565b818101518355602094850194600190930192909101906108de565b909150600185015f5260205f20601f840160051c810160208510610985575b90849392915b601f830160051c820181106109775750506104f3565b5f8155859450600101610961565b508061095b565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f5469746c652063616e6e6f7420626520656d70747900000000000000000000006044820152606490fd5b346101775760203660031901126101775760043580151580610ab8575b610aa09061147b565b5f525f6020526020600a60405f200154604051908152f35b506004548110610a97565b34610177576040366003190112610177576024356004355f52600160205260405f2090815481101561017757610af891611415565b506001600160a01b03815416600182015491610b3d6003610b1b60028401611373565b92015491604051948594855260208501526080604085015260808401906112fd565b9060608301520390f35b34610177576020366003190112610177576004355f525f60205260405f208054610b7360018301611373565b91610b8060028201611373565b610b8c60038301611373565b916004810154926001600160a01b039081600584015416600684015490610c0360ff60078701541693610bf5600a60088901549760098a01541698015498610be76040519d8e9d8e61016091815281602082015201906112fd565b8c810360408e0152906112fd565b908a820360608c01526112fd565b96608089015260a088015260c0870152151560e08601526101008501526101208401526101408301520390f35b346101775760203660031901126101775760043580151580610ce1575b610c569061147b565b5f525f602052610cb660405f2060048101546001600160a01b03600583015416610cd2610c8560018501611373565b93610cc4610ca16003610c9a60028501611373565b9301611373565b9160405197889760a0895260a08901906112fd565b9087820360208901526112fd565b9085820360408701526112fd565b91606084015260808301520390f35b506004548110610c4d565b6080366003190112610177576024803560043581151582036101775767ffffffffffffffff91604480359060643585811161017757610d2f9036906004016112a7565b92841515806111e2575b610d429061147b565b845f526020965f885260ff600760405f20015416156111a057855f525f8852600860405f20015442101561115e57855f525f8852600460405f200154841061111c578334106110da5787876001600160a01b0394857fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416965f6040519889948593639cd07acb60e01b85521660048401526005878401525af19384156110cf575f946110a0575b50610df530856114c7565b610dff33856114c7565b855f5260019283895260405f209760405192608084018481108382111761108c576040523384528a84019687526040840192888452606085019a428c52805490680100000000000000008210156110795790610e5f918982018155611415565b9590956110675751169673ffffffffffffffffffffffffffffffffffffffff19978886541617855551868501556002840192519081519283116110545750610ea7835461133b565b601f811161100e575b508a90601f8311600114610f85579180600394927f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9b9c945f92610f7a575b50505f1982861b1c191690871b1790555b51910155855f525f875260405f2091600a8301610f1d815461146d565b9055335f526003885260405f20875f52885260405f209060ff19825416179055610f67575b5050610f59604051916040835260408301906112fd565b9342908201528033940390a3005b6009019033908254161790558480610f42565b015190508d80610eef565b5f8481528c8120929190601f198516908e5b828210610ff757505092889285927f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9d9e966003989610610fe0575b505050811b019055610f00565b01515f1983881b60f8161c191690558d8080610fd3565b808b86978294978701518155019601940190610f97565b835f528b5f20601f840160051c8101918d851061104a575b601f0160051c019087905b82811061103f575050610eb0565b5f8155018790611031565b9091508190611026565b634e487b7160e01b5f9081526041600452fd5b82634e487b7160e01b5f525f6004525ffd5b83634e487b7160e01b5f5260416004525ffd5b50634e487b7160e01b5f9081526041600452fd5b9093508781813d83116110c8575b6110b88183611285565b8101031261017757519288610dea565b503d6110ae565b6040513d5f823e3d90fd5b877f496e73756666696369656e74207061796d656e740000000000000000000000008460146064946040519462461bcd60e51b86526004860152840152820152fd5b877f42696420746f6f206c6f7700000000000000000000000000000000000000000084600b6064946040519462461bcd60e51b86526004860152840152820152fd5b877f41756374696f6e2068617320656e6465640000000000000000000000000000008460116064946040519462461bcd60e51b86526004860152840152820152fd5b877f41756374696f6e206973206e6f742061637469766500000000000000000000008460156064946040519462461bcd60e51b86526004860152840152820152fd5b506004548510610d39565b34610177575f366003190112610177576020600554604051908152f35b34610177575f366003190112610177575f6001906001600454905b81811061123f576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff6007820154169081611277575b50611267575b01611225565b926112719061146d565b92611261565b60089150015442108661125b565b90601f8019910116810190811067ffffffffffffffff82111761072557604052565b81601f820112156101775780359067ffffffffffffffff821161072557604051926112dc601f8401601f191660200185611285565b8284526020838301011161017757815f926020809301838601378301015290565b91908251928382525f5b848110611327575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201611307565b90600182811c92168015611369575b602083101461135557565b634e487b7160e01b5f52602260045260245ffd5b91607f169161134a565b9060405191825f82546113858161133b565b908184526020946001916001811690815f146113f357506001146113b5575b5050506113b392500383611285565b565b5f90815285812095935091905b8183106113db5750506113b393508201015f80806113a4565b855488840185015294850194879450918301916113c2565b925050506113b394925060ff191682840152151560051b8201015f80806113a4565b805482101561142e575f5260205f209060021b01905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361017757565b805482101561142e575f5260205f2001905f90565b5f19811461098c5760010190565b1561148257565b60405162461bcd60e51b815260206004820152601260248201527f496e76616c69642061756374696f6e20494400000000000000000000000000006044820152606490fd5b6001600160a01b0391827fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6005416803b15610177575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af180156110cf5761152d5750565b67ffffffffffffffff81116107255760405256fea164736f6c6343000818000a";
+  "0x60806040523461019b575f606061001461019f565b828152826020820152826040820152015261002d61019f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d009182541617905560016004555f6005556040516114de90816101d38239f35b5f80fd5b60405190608082016001600160401b038111838210176101be57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af334146111a757806316002f4a1461118a5780633f40efdc14610cca57806346c3fb7314610c0f578063571a26a014610b275780635f93de4914610aa4578063744d341114610a5b57806375b6a06e146103bc5780637765c52c146103385780637ca7cc57146102ef578063a65ed0d6146102ef578063b4fbe80a14610298578063b9a2de3a146101e9578063c750cb7914610198578063fc5284821461017b5763ff3ad0b4146100c9575f80fd5b3461017757602080600319360112610177576001600160a01b036100eb6113dd565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016357868661012482880383611222565b60405192839281840190828552518091526040840192915f5b82811061014c57505050500390f35b83518552869550938101939281019260010161013d565b83548552909301926001928301920161010e565b5f80fd5b34610177575f366003190112610177576020600454604051908152f35b3461017757602036600319011261017757600435801515806101de575b6101be90611416565b5f525f602052602060018060a01b03600960405f20015416604051908152f35b5060045481106101b5565b34610177576020366003190112610177576004358015158061028d575b61020f90611416565b5f818152602081905260409020600501546001600160a01b03163303610248575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610206565b34610177576040366003190112610177576102b16113dd565b6001600160a01b03165f90815260026020526040902080546024359190821015610177576020916102e1916113f3565b90546040519160031b1c8152f35b34610177576040366003190112610177576001600160a01b036103106113dd565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461017757602036600319011261017757600435801515806103b1575b61035e90611416565b5f525f602052608060405f2060068101549060ff60078201541690816103a3575b600a6008820154910154916040519384521515602084015260408301526060820152f35b60088101544210915061037f565b506004548110610355565b34610177576080366003190112610177576004356001600160401b038111610177576103ec903690600401611243565b6024356001600160401b0381116101775761040b903690600401611243565b6044356001600160401b0381116101775761042a903690600401611243565b825115610a1e578151156109d95760643515610989576004549162093a80420142116109755760405161016081018181106001600160401b0382111761070e576040528381526020810191858352604082015282606082015260643560808201523360a08201524260c0820152600160e082015262093a8042016101008201525f6101208201525f610140820152835f525f60205260405f209181518355518051906001600160401b03821161070e5781906104e960018601546112d6565b601f8111610925575b50602090601f83116001146108b7575f926108ac575b50508160011b915f199060031b1c19161760018301555b60408101518051906001600160401b03821161070e57819061054460028601546112d6565b601f811161085c575b50602090601f83116001146107ee575f926107e3575b50508160011b915f199060031b1c19161760028301555b60608101518051906001600160401b03821161070e5761059d60038501546112d6565b601f811161079f575b50602090601f831160011461072d579180600a9492610140945f92610722575b50508160011b915f199060031b1c19161760038501555b608081015160048501556005840160018060a01b03908160a0840151169060018060a01b0319918282541617905560c083015160068701556007860160e0840151151560ff801983541691161790556101008301516008870155600986019161012084015116908254161790550151910155335f52600260205260405f2090815490600160401b82101561070e5761069f827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d9460016106f2950181556113f3565b81549060031b9086821b915f19901b19161790556106be600554611408565b6005556106cc600454611408565b6004556106e460405195608087526080870190611298565b908582036020870152611298565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b0151905089806105c6565b90600385015f5260205f20915f5b601f1985168110610787575092600a94926001926101409583601f1981161061076f575b505050811b0160038501556105dd565b01515f1960f88460031b161c1916905589808061075f565b9192602060018192868501518155019401920161073b565b600385015f5260205f20601f840160051c8101602085106107dc575b601f830160051c820181106107d15750506105a6565b5f81556001016107bb565b50806107bb565b015190508780610563565b9250600285015f5260205f20905f935b601f1984168510610841576001945083601f19811610610829575b505050811b01600283015561057a565b01515f1960f88460031b161c19169055878080610819565b818101518355602094850194600190930192909101906107fe565b909150600285015f5260205f20601f840160051c8101602085106108a5575b90849392915b601f830160051c8201811061089757505061054d565b5f8155859450600101610881565b508061087b565b015190508780610508565b9250600185015f5260205f20905f935b601f198416851061090a576001945083601f198116106108f2575b505050811b01600183015561051f565b01515f1960f88460031b161c191690558780806108e2565b818101518355602094850194600190930192909101906108c7565b909150600185015f5260205f20601f840160051c81016020851061096e575b90849392915b601f830160051c820181106109605750506104f2565b5f815585945060010161094a565b5080610944565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b346101775760203660031901126101775760043580151580610a99575b610a8190611416565b5f525f6020526020600a60405f200154604051908152f35b506004548110610a78565b34610177576040366003190112610177576024356004355f52600160205260405f2090815481101561017757610ad9916113b0565b5060018060a01b03815416600182015491610b1d6003610afb6002840161130e565b9201549160405194859485526020850152608060408501526080840190611298565b9060608301520390f35b34610177576020366003190112610177576004355f525f60205260405f208054610b536001830161130e565b91610b606002820161130e565b610b6c6003830161130e565b9160048101549260018060a01b039081600584015416600684015490610be260ff60078701541693610bd4600a60088901549760098a01541698015498610bc66040519d8e9d8e6101609181528160208201520190611298565b8c810360408e015290611298565b908a820360608c0152611298565b96608089015260a088015260c0870152151560e08601526101008501526101208401526101408301520390f35b346101775760203660031901126101775760043580151580610cbf575b610c3590611416565b5f525f602052610c9460405f20600481015460018060a01b03600583015416610cb0610c636001850161130e565b93610ca2610c7f6003610c786002850161130e565b930161130e565b9160405197889760a0895260a0890190611298565b908782036020890152611298565b908582036040870152611298565b91606084015260808301520390f35b506004548110610c2c565b608036600319011261017757602480356004358115158203610177576001600160401b0391604480359060643585811161017757610d0c903690600401611243565b928415158061117f575b610d1f90611416565b845f526020965f885260ff600760405f200154161561114557855f525f8852600860405f20015442101561110f57855f525f8852600460405f20015484106110df578334106110a6577fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60154604051639cd07acb60e01b815294881660048601526005828601526001600160a01b0393899186919082905f9088165af193841561109b575f9461106c575b50610dd43085611457565b610dde3385611457565b855f5260019283895260405f2097604051926080840184811083821117611058576040523384528a84019687526040840192888452606085019a428c52805490600160401b8210156110455790610e399189820181556113b0565b9590956110335751169660018060a01b0319978886541617855551868501556002840192519081519283116110205750610e7383546112d6565b601f8111610fda575b508a90601f8311600114610f51579180600394927f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9b9c945f92610f46575b50505f1982861b1c191690871b1790555b51910155855f525f875260405f2091600a8301610ee98154611408565b9055335f526003885260405f20875f52885260405f209060ff19825416179055610f33575b5050610f2560405191604083526040830190611298565b9342908201528033940390a3005b6009019033908254161790558480610f0e565b015190508d80610ebb565b5f8481528c8120929190601f198516908e5b828210610fc357505092889285927f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9d9e966003989610610fac575b505050811b019055610ecc565b01515f1983881b60f8161c191690558d8080610f9f565b808b86978294978701518155019601940190610f63565b835f528b5f20601f840160051c8101918d8510611016575b601f0160051c019087905b82811061100b575050610e7c565b5f8155018790610ffd565b9091508190610ff2565b634e487b7160e01b5f9081526041600452fd5b82634e487b7160e01b5f525f6004525ffd5b83634e487b7160e01b5f5260416004525ffd5b50634e487b7160e01b5f9081526041600452fd5b9093508781813d8311611094575b6110848183611222565b8101031261017757519288610dc9565b503d61107a565b6040513d5f823e3d90fd5b8773125b9cdd59999a58da595b9d081c185e5b595b9d60621b8460146064946040519462461bcd60e51b86526004860152840152820152fd5b876a42696420746f6f206c6f7760a81b84600b6064946040519462461bcd60e51b86526004860152840152820152fd5b8770105d58dd1a5bdb881a185cc8195b991959607a1b8460116064946040519462461bcd60e51b86526004860152840152820152fd5b877441756374696f6e206973206e6f742061637469766560581b8460156064946040519462461bcd60e51b86526004860152840152820152fd5b506004548510610d16565b34610177575f366003190112610177576020600554604051908152f35b34610177575f366003190112610177575f6001906001600454905b8181106111dc576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff6007820154169081611214575b50611204575b016111c2565b9261120e90611408565b926111fe565b6008915001544210866111f8565b90601f801991011681019081106001600160401b0382111761070e57604052565b81601f82011215610177578035906001600160401b03821161070e5760405192611277601f8401601f191660200185611222565b8284526020838301011161017757815f926020809301838601378301015290565b91908251928382525f5b8481106112c2575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016112a2565b90600182811c92168015611304575b60208310146112f057565b634e487b7160e01b5f52602260045260245ffd5b91607f16916112e5565b9060405191825f8254611320816112d6565b908184526020946001916001811690815f1461138e5750600114611350575b50505061134e92500383611222565b565b5f90815285812095935091905b81831061137657505061134e93508201015f808061133f565b8554888401850152948501948794509183019161135d565b9250505061134e94925060ff191682840152151560051b8201015f808061133f565b80548210156113c9575f5260205f209060021b01905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361017757565b80548210156113c9575f5260205f2001905f90565b5f1981146109755760010190565b1561141d57565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fd5b7fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600546001600160a01b0392908316803b15610177575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af1801561109b576114be5750565b6001600160401b03811161070e5760405256fea164736f6c6343000818000a";
 
 type ConfidentialAuctionMinimalConstructorParams =
   | [signer?: Signer]
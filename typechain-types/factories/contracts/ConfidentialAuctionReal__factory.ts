@@ -360,6 +360,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getMyBid",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "getTotalCounts",
@@ -533,7 +552,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x60806040523461019b575f606061001461019f565b828152826020820152826040820152015261002d61019f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d009182541617905560016004555f6005556040516117f090816101d38239f35b5f80fd5b60405190608082016001600160401b038111838210176101be57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af334146114ac57806316002f4a1461148f57806324600fc3146114135780633f40efdc14610e46578063571a26a014610d455780635f93de4914610ca8578063744d341114610c5f57806375b6a06e146104345780637ca7cc57146103eb578063a65ed0d6146103eb578063b4fbe80a14610397578063b9a2de3a146102ea578063c750cb7914610298578063fc3fc4ed14610198578063fc5284821461017b5763ff3ad0b4146100c9575f80fd5b3461017757602080600319360112610177576001600160a01b036100eb6116e4565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016357868661012482880383611527565b60405192839281840190828552518091526040840192915f5b82811061014c57505050500390f35b83518552869550938101939281019260010161013d565b83548552909301926001928301920161010e565b5f80fd5b34610177575f366003190112610177576020600454604051908152f35b34610177576020366003190112610177576004358015158061028d575b6101be9061171d565b5f525f60205261023e60405f2060048101546001600160a01b03600583015416600683015460ff60078501541680610280575b600885015491600b8601549361025a61020c600189016115d7565b9761024c6102286003610221600285016115d7565b93016115d7565b916040519b8c9b8c6101208091528d0190611679565b908b820360208d0152611679565b9089820360408b0152611679565b956060880152608087015260a0860152151560c085015260e08401526101008301520390f35b50600884015442106101f1565b5060045481106101b5565b3461017757602036600319011261017757600435801515806102df575b6102be9061171d565b5f525f60205260206001600160a01b03600a60405f20015416604051908152f35b5060045481106102b5565b34610177576020366003190112610177576004358015158061038c575b6103109061171d565b805f525f6020526001600160a01b03600560405f200154163303610347575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610307565b34610177576040366003190112610177576103b06116e4565b6001600160a01b0360243591165f52600260205260405f208054821015610177576020916103dd916116fa565b90546040519160031b1c8152f35b34610177576040366003190112610177576001600160a01b0361040c6116e4565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b346101775760803660031901126101775760043567ffffffffffffffff811161017757610465903690600401611549565b60243567ffffffffffffffff811161017757610485903690600401611549565b60443567ffffffffffffffff8111610177576104a5903690600401611549565b825115610c1a57815115610bd55760643515610b85576004549162093a8042014211610b71575f60206001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416604460405180948193639cd07acb60e01b8352816004840152600560248401525af18015610b34575f90610b3f575b5f915060206001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416604460405180958193639cd07acb60e01b83528160048401528160248401525af1918215610b34575f92610b00575b5060405192836101a081011067ffffffffffffffff6101a086011117610899576101a08401604052858452866020850152604084015283606084015260643560808401523360a08401524260c0840152600160e084015262093a8042016101008401526101208301525f6101408301525f610160830152610180820152825f525f60205260405f209080518255602081015180519067ffffffffffffffff821161089957819061063a600186015461159f565b601f8111610ab0575b50602090601f8311600114610a42575f92610a37575b50508160011b915f199060031b1c19161760018301555b604081015180519067ffffffffffffffff8211610899578190610696600286015461159f565b601f81116109e7575b50602090601f8311600114610979575f9261096e575b50508160011b915f199060031b1c19161760028301555b606081015180519067ffffffffffffffff8211610899576106f0600385015461159f565b601f811161092a575b50602090601f83116001146108b8579180600c9492610180945f926108ad575b50508160011b915f199060031b1c19161760038501555b60808101516004850155600584016001600160a01b0360a0830151169073ffffffffffffffffffffffffffffffffffffffff19918282541617905560c0820151600686015561079460e08301511515600787019060ff801983541691151516179055565b61010082015160088601556101208201516009860155600a8501906001600160a01b036101408401511690825416179055610160810151600b8501550151910155335f52600260205260405f2090815490680100000000000000008210156108995761082a827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d94600161087d950181556116fa565b81549060031b9086821b915f19901b191617905561084960055461170f565b60055561085760045461170f565b60045561086f60405195608087526080870190611679565b908582036020870152611679565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b015190508980610719565b90600385015f5260205f20915f5b601f1985168110610912575092600c94926001926101809583601f198116106108fa575b505050811b016003850155610730565b01515f1960f88460031b161c191690558980806108ea565b919260206001819286850151815501940192016108c6565b600385015f5260205f20601f840160051c810160208510610967575b601f830160051c8201811061095c5750506106f9565b5f8155600101610946565b5080610946565b0151905087806106b5565b9250600285015f5260205f20905f935b601f19841685106109cc576001945083601f198116106109b4575b505050811b0160028301556106cc565b01515f1960f88460031b161c191690558780806109a4565b81810151835560209485019460019093019290910190610989565b909150600285015f5260205f20601f840160051c810160208510610a30575b90849392915b601f830160051c82018110610a2257505061069f565b5f8155859450600101610a0c565b5080610a06565b015190508780610659565b9250600185015f5260205f20905f935b601f1984168510610a95576001945083601f19811610610a7d575b505050811b016001830155610670565b01515f1960f88460031b161c19169055878080610a6d565b81810151835560209485019460019093019290910190610a52565b909150600185015f5260205f20601f840160051c810160208510610af9575b90849392915b601f830160051c82018110610aeb575050610643565b5f8155859450600101610ad5565b5080610acf565b9091506020813d602011610b2c575b81610b1c60209383611527565b8101031261017757519086610587565b3d9150610b0f565b6040513d5f823e3d90fd5b506020813d602011610b69575b81610b5960209383611527565b81010312610177575f9051610528565b3d9150610b4c565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f5469746c652063616e6e6f7420626520656d70747900000000000000000000006044820152606490fd5b346101775760203660031901126101775760043580151580610c9d575b610c859061171d565b5f525f6020526020600b60405f200154604051908152f35b506004548110610c7c565b34610177576040366003190112610177576024356004355f52600160205260405f2090815481101561017757610cdd916116b7565b506001600160a01b038154166001820154916002810154610d34610d03600384016115d7565b60ff60056004860154950154169260405196879687526020870152604086015260c0606086015260c0850190611679565b916080840152151560a08301520390f35b34610177576020366003190112610177576004355f525f60205260405f20805460018201610d72906115d7565b91610d7f600282016115d7565b610d8b600383016115d7565b916004810154926001600160a01b03806005840154166006840154600785015460ff1690600886015492600987015494600a8801541695600b88015497600c0154986040519c8d809d6101a09182918152602001528d01610deb91611679565b8c810360408e0152610dfc91611679565b8b810360608d0152610e0d91611679565b9860808b015260a08a015260c0890152151560e08801526101008701526101208601526101408501526101608401526101808301520390f35b60803660031901126101775760243515156024350361017757604480359060643567ffffffffffffffff811161017757610e84903690600401611549565b91600435151580611406575b610e999061171d565b6004355f525f60205260ff600760405f20015416156113c2576004355f525f602052600860405f20015442101561137e576004355f525f602052600460405f200154811061133a578034106112f6575f9060043582528160205260408220906001600160a01b03907fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190602083835416876040518098819367ffffffffffffffff639cd07acb60e01b97888552166004840152600560248401525af1948515610b34575f956112bf575b5060ff9560209291602435156112b6575f856001945b5416604051998a95869485521660048401528160248401525af1938415610b34575f94611282575b50610fac3084611769565b610fb63085611769565b610fc03384611769565b610fca3385611769565b6004355f52600160205260405f206040519060c0820182811067ffffffffffffffff8211176108995760405233825260208201858152604083019087825260608401928984524260808601525f60a08601528054680100000000000000008110156108995761103e916001820181556116b7565b95909561126f5784511673ffffffffffffffffffffffffffffffffffffffff198654161785555160018501555160028401555180519067ffffffffffffffff821161089957611090600385015461159f565b601f811161122b575b50602090601f83116001146111b657928260059360a0936110f497965f926111ab575b50508160011b915f199060031b1c19161760038501555b608081015160048501550151151591019060ff801983541691151516179055565b600b8101611102815461170f565b9055335f52600360205260405f206004355f5260205260405f20600160ff19825416179055602435611178575b8361114560405191604083526040830190611679565b4260208301527f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc339280600435930390a3005b600c916009820155600a81013373ffffffffffffffffffffffffffffffffffffffff19825416179055015581808061112f565b015190508b806110bc565b90600385015f5260205f20915f5b601f198516811061121357508360a0936110f4979693600193600597601f198116106111fb575b505050811b0160038501556110d3565b01515f1960f88460031b161c191690558b80806111eb565b919260206001819286850151815501940192016111c4565b600385015f5260205f20601f840160051c810160208510611268575b601f830160051c8201811061125d575050611099565b5f8155600101611247565b5080611247565b634e487b7160e01b5f525f60045260245ffd5b9093506020813d6020116112ae575b8161129e60209383611527565b8101031261017757519285610fa1565b3d9150611291565b5f858194610f79565b919094506020823d6020116112ee575b816112dc60209383611527565b810103126101775790519360ff610f63565b3d91506112cf565b60405162461bcd60e51b815260206004820152601460248201527f496e73756666696369656e74207061796d656e7400000000000000000000000081840152606490fd5b60405162461bcd60e51b815260206004820152600b60248201527f42696420746f6f206c6f7700000000000000000000000000000000000000000081840152606490fd5b60405162461bcd60e51b815260206004820152601160248201527f41756374696f6e2068617320656e64656400000000000000000000000000000081840152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f41756374696f6e206973206e6f7420616374697665000000000000000000000081840152606490fd5b5060048054903510610e90565b34610177575f3660031901126101775730330361144a575f80808047818115611441575b3390f115610b3457005b506108fc611437565b60405162461bcd60e51b815260206004820152601360248201527f4f6e6c7920636f6e7472616374206f776e6572000000000000000000000000006044820152606490fd5b34610177575f366003190112610177576020600554604051908152f35b34610177575f366003190112610177575f6001906001600454905b8181106114e1576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff6007820154169081611519575b50611509575b016114c7565b926115139061170f565b92611503565b6008915001544210866114fd565b90601f8019910116810190811067ffffffffffffffff82111761089957604052565b81601f820112156101775780359067ffffffffffffffff8211610899576040519261157e601f8401601f191660200185611527565b8284526020838301011161017757815f926020809301838601378301015290565b90600182811c921680156115cd575b60208310146115b957565b634e487b7160e01b5f52602260045260245ffd5b91607f16916115ae565b9060405191825f82546115e98161159f565b908184526020946001916001811690815f146116575750600114611619575b50505061161792500383611527565b565b5f90815285812095935091905b81831061163f57505061161793508201015f8080611608565b85548884018501529485019487945091830191611626565b9250505061161794925060ff191682840152151560051b8201015f8080611608565b91908251928382525f5b8481106116a3575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201611683565b80548210156116d0575f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361017757565b80548210156116d0575f5260205f2001905f90565b5f198114610b715760010190565b1561172457565b60405162461bcd60e51b815260206004820152601260248201527f496e76616c69642061756374696f6e20494400000000000000000000000000006044820152606490fd5b6001600160a01b0391827fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6005416803b15610177575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015610b34576117cf5750565b67ffffffffffffffff81116108995760405256fea164736f6c6343000818000a";
+  "0x60806040523461019b575f606061001461019f565b828152826020820152826040820152015261002d61019f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d009182541617905560016004555f6005556040516118a690816101d38239f35b5f80fd5b60405190608082016001600160401b038111838210176101be57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af3341461143357806316002f4a1461141657806324600fc3146113a45780633f40efdc14610e3a578063571a26a014610d385780635f93de4914610c9c578063744d341114610c5357806375b6a06e146104685780637ca7cc57146103f95780638df6d6e614610442578063a65ed0d6146103f9578063b4fbe80a146103a2578063b9a2de3a146102f3578063c750cb79146102a2578063fc3fc4ed146101a3578063fc528482146101865763ff3ad0b4146100d4575f80fd5b3461018257602080600319360112610182576001600160a01b036100f6611669565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016e57868661012f828803836114ae565b60405192839281840190828552518091526040840192915f5b82811061015757505050500390f35b835185528695509381019392810192600101610148565b835485529093019260019283019201610119565b5f80fd5b34610182575f366003190112610182576020600454604051908152f35b346101825760203660031901126101825760043580151580610297575b6101c9906116a2565b5f525f60205261024860405f20600481015460018060a01b03600583015416600683015460ff6007850154168061028a575b600885015491600b860154936102646102166001890161155c565b97610256610232600361022b6002850161155c565b930161155c565b916040519b8c9b8c6101208091528d01906115fe565b908b820360208d01526115fe565b9089820360408b01526115fe565b956060880152608087015260a0860152151560c085015260e08401526101008301520390f35b50600884015442106101fb565b5060045481106101c0565b3461018257602036600319011261018257600435801515806102e8575b6102c8906116a2565b5f525f602052602060018060a01b03600a60405f20015416604051908152f35b5060045481106102bf565b346101825760203660031901126101825760043580151580610397575b610319906116a2565b5f818152602081905260409020600501546001600160a01b03163303610352575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610310565b34610182576040366003190112610182576103bb611669565b6001600160a01b03165f90815260026020526040902080546024359190821015610182576020916103eb9161167f565b90546040519160031b1c8152f35b34610182576040366003190112610182576001600160a01b0361041a611669565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461018257602036600319011261018257602061046060043561172d565b604051908152f35b34610182576080366003190112610182576004356001600160401b038111610182576104989036906004016114cf565b6024356001600160401b038111610182576104b79036906004016114cf565b6044356001600160401b038111610182576104d69036906004016114cf565b825115610c1657815115610bd15760643515610b81576004549162093a8042014211610b6d575f8051602061187a83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af18015610b30575f90610b3b575b5f9150602060018060a01b035f8051602061187a8339815191525416604460405180958193639cd07acb60e01b83528160048401528160248401525af1918215610b30575f92610afc575b5060405192836101a08101106001600160401b036101a086011117610895576101a08401604052858452866020850152604084015283606084015260643560808401523360a08401524260c0840152600160e084015262093a8042016101008401526101208301525f6101408301525f610160830152610180820152825f525f60205260405f20908051825560208101518051906001600160401b0382116108955781906106476001860154611524565b601f8111610aac575b50602090601f8311600114610a3e575f92610a33575b50508160011b915f199060031b1c19161760018301555b60408101518051906001600160401b0382116108955781906106a26002860154611524565b601f81116109e3575b50602090601f8311600114610975575f9261096a575b50508160011b915f199060031b1c19161760028301555b60608101518051906001600160401b038211610895576106fb6003850154611524565b601f8111610926575b50602090601f83116001146108b4579180600c9492610180945f926108a9575b50508160011b915f199060031b1c19161760038501555b608081015160048501556005840160018060a01b0360a0830151169060018060a01b0319918282541617905560c0820151600686015561079060e08301511515600787019060ff801983541691151516179055565b61010082015160088601556101208201516009860155610140820151600a860180549092166001600160a01b0391909116179055610160810151600b8501550151910155335f90815260026020526040902080549091600160401b82101561089557610826827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d9460016108799501815561167f565b81549060031b9086821b915f19901b1916179055610845600554611694565b600555610853600454611694565b60045561086b604051956080875260808701906115fe565b9085820360208701526115fe565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b015190508980610724565b90600385015f5260205f20915f5b601f198516811061090e575092600c94926001926101809583601f198116106108f6575b505050811b01600385015561073b565b01515f1960f88460031b161c191690558980806108e6565b919260206001819286850151815501940192016108c2565b600385015f5260205f20601f840160051c810160208510610963575b601f830160051c82018110610958575050610704565b5f8155600101610942565b5080610942565b0151905087806106c1565b9250600285015f5260205f20905f935b601f19841685106109c8576001945083601f198116106109b0575b505050811b0160028301556106d8565b01515f1960f88460031b161c191690558780806109a0565b81810151835560209485019460019093019290910190610985565b909150600285015f5260205f20601f840160051c810160208510610a2c575b90849392915b601f830160051c82018110610a1e5750506106ab565b5f8155859450600101610a08565b5080610a02565b015190508780610666565b9250600185015f5260205f20905f935b601f1984168510610a91576001945083601f19811610610a79575b505050811b01600183015561067d565b01515f1960f88460031b161c19169055878080610a69565b81810151835560209485019460019093019290910190610a4e565b909150600185015f5260205f20601f840160051c810160208510610af5575b90849392915b601f830160051c82018110610ae7575050610650565b5f8155859450600101610ad1565b5080610acb565b9091506020813d602011610b28575b81610b18602093836114ae565b8101031261018257519086610596565b3d9150610b0b565b6040513d5f823e3d90fd5b506020813d602011610b65575b81610b55602093836114ae565b81010312610182575f905161054b565b3d9150610b48565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b346101825760203660031901126101825760043580151580610c91575b610c79906116a2565b5f525f6020526020600b60405f200154604051908152f35b506004548110610c70565b34610182576040366003190112610182576024356004355f52600160205260405f2090815481101561018257610cd19161163c565b5060018060a01b038154166001820154916002810154610d27610cf66003840161155c565b60ff60056004860154950154169260405196879687526020870152604086015260c0606086015260c08501906115fe565b916080840152151560a08301520390f35b34610182576020366003190112610182576004355f525f60205260405f20805460018201610d659061155c565b91610d726002820161155c565b610d7e6003830161155c565b91600481015492600160a01b60019003806005840154166006840154600785015460ff1690600886015492600987015494600a8801541695600b88015497600c0154986040519c8d809d6101a09182918152602001528d01610ddf916115fe565b8c810360408e0152610df0916115fe565b8b810360608d0152610e01916115fe565b9860808b015260a08a015260c0890152151560e08801526101008701526101208601526101408501526101608401526101808301520390f35b6080366003190112610182576024351515602435036101825760448035906064356001600160401b03811161018257610e779036906004016114cf565b91600435151580611397575b610e8c906116a2565b6004355f525f60205260ff600760405f200154161561135b576004355f525f602052600860405f200154421015611323576004355f525f602052600460405f20015481106112f1578034106112b6575f90600435825281602052604082209060018060a01b03905f8051602061187a8339815191529060208383541687604051809881936001600160401b03639cd07acb60e01b97888552166004840152600560248401525af1948515610b30575f9561127f575b5060ff956020929160243515611276575f856001945b5416604051998a95869485521660048401528160248401525af1938415610b30575f94611242575b50610f8a30846117ff565b610f9430856117ff565b610f9e33846117ff565b610fa833856117ff565b6004355f52600160205260405f206040519060c082018281106001600160401b038211176108955760405233825260208201858152604083019087825260608401928984524260808601525f60a08601528054600160401b811015610895576110169160018201815561163c565b95909561122f57845186546001600160a01b0319169116178555516001850155516002840155518051906001600160401b0382116108955761105b6003850154611524565b601f81116111eb575b50602090601f831160011461117657928260059360a0936110bf97965f9261116b575b50508160011b915f199060031b1c19161760038501555b608081015160048501550151151591019060ff801983541691151516179055565b600b81016110cd8154611694565b9055335f52600360205260405f206004355f5260205260405f20600160ff19825416179055602435611143575b83611110604051916040835260408301906115fe565b4260208301527f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc339280600435930390a3005b6009810191909155600a810180546001600160a01b03191633179055600c01558180806110fa565b015190508b80611087565b90600385015f5260205f20915f5b601f19851681106111d357508360a0936110bf979693600193600597601f198116106111bb575b505050811b01600385015561109e565b01515f1960f88460031b161c191690558b80806111ab565b91926020600181928685015181550194019201611184565b600385015f5260205f20601f840160051c810160208510611228575b601f830160051c8201811061121d575050611064565b5f8155600101611207565b5080611207565b634e487b7160e01b5f525f60045260245ffd5b9093506020813d60201161126e575b8161125e602093836114ae565b8101031261018257519285610f7f565b3d9150611251565b5f858194610f57565b919094506020823d6020116112ae575b8161129c602093836114ae565b810103126101825790519360ff610f41565b3d915061128f565b60405162461bcd60e51b8152602060048201526014602482015273125b9cdd59999a58da595b9d081c185e5b595b9d60621b81840152606490fd5b60405162461bcd60e51b815260206004820152600b60248201526a42696420746f6f206c6f7760a81b81840152606490fd5b60405162461bcd60e51b8152602060048201526011602482015270105d58dd1a5bdb881a185cc8195b991959607a1b81840152606490fd5b60405162461bcd60e51b815260206004820152601560248201527441756374696f6e206973206e6f742061637469766560581b81840152606490fd5b5060048054903510610e83565b34610182575f366003190112610182573033036113db575f808080478181156113d2575b3390f115610b3057005b506108fc6113c8565b60405162461bcd60e51b815260206004820152601360248201527227b7363c9031b7b73a3930b1ba1037bbb732b960691b6044820152606490fd5b34610182575f366003190112610182576020600554604051908152f35b34610182575f366003190112610182575f6001906001600454905b818110611468576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff60078201541690816114a0575b50611490575b0161144e565b9261149a90611694565b9261148a565b600891500154421086611484565b90601f801991011681019081106001600160401b0382111761089557604052565b81601f82011215610182578035906001600160401b0382116108955760405192611503601f8401601f1916602001856114ae565b8284526020838301011161018257815f926020809301838601378301015290565b90600182811c92168015611552575b602083101461153e57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611533565b9060405191825f825461156e81611524565b908184526020946001916001811690815f146115dc575060011461159e575b50505061159c925003836114ae565b565b5f90815285812095935091905b8183106115c457505061159c93508201015f808061158d565b855488840185015294850194879450918301916115ab565b9250505061159c94925060ff191682840152151560051b8201015f808061158d565b91908251928382525f5b848110611628575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201611608565b8054821015611655575f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361018257565b8054821015611655575f5260205f2001905f90565b5f198114610b6d5760010190565b156116a957565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fd5b60809060208152602960208201527f596f752068617665206e6f7420706c61636564206120626964206f6e20746869604082015268399030bab1ba34b7b760b91b60608201520190565b801515806117f4575b61173f906116a2565b335f52600360205260405f20815f5260205260ff60405f205416156117db575f52600190600160205260405f20918254805b6117925760405162461bcd60e51b81528061178e600482016116e3565b0390fd5b5f198101818111610b6d576117a7818661163c565b50546001600160a01b031633146117c857508015610b6d575f190180611771565b90506117d591929361163c565b50015490565b60405162461bcd60e51b81528061178e600482016116e3565b506004548110611736565b7fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600546001600160a01b0392908316803b15610182575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015610b30576118665750565b6001600160401b0381116108955760405256feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a164736f6c6343000818000a";
 
 type ConfidentialAuctionRealConstructorParams =
   | [signer?: Signer]
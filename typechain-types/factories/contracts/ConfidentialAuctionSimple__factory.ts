@@ -626,7 +626,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001f5760016004555f60055561193590816100248239f35b5f80fdfe60806040526004361015610018575b361561001657005b005b60e05f3560e01c908163045af334146114cd57816316002f4a146114b05781632158d95a146114675781633f40efdc14610f81578163571a26a014610e8d5781635f93de4914610deb57816375b6a06e146106d757816378bd7935146105d1578163a65ed0d6146103b3578163b4fbe80a1461057d578163b9a2de3a146103fc578163c75c99e6146103b3578163cf44b5d51461019457508063fc528482146101775763ff3ad0b40361000e573461017357602080600319360112610173576001600160a01b036100e76117d1565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061015f57868661012082880383611565565b60405192839281840190828552518091526040840192915f5b82811061014857505050500390f35b835185528695509381019392810192600101610139565b83548552909301926001928301920161010a565b5f80fd5b34610173575f366003190112610173576020600454604051908152f35b34610173575f366003190112610173575f6001600454905b81811061036957506101d66101c0836118fc565b926101ce6040519485611565565b8084526118fc565b60209390601f1901845f5b828110610353575050505f60015b838110610253576040805187815286518189018190525f92600582901b8301810191898b01918b9085015b8287106102275785850386f35b909192938280610243600193603f198a82030186528851611722565b960192019601959291909261021a565b805f525f865260405f2060ff60078201541690818092610346575b61027d575b50506001016101ef565b9261033e91600b600194956040519261029584611548565b815484526102a4878301611615565b8c8501526102b460028301611615565b60408501526102c560038301611615565b6060850152600482015460808501526001600160a01b03908160058401541660a0860152600683015460c086015215158985015260088201546101008501526009820154610120850152600a82015416610140840152015461016082015261032d8289611914565b526103388188611914565b506117fc565b919087610273565b506008810154421061026e565b61035b6118a2565b8282880101520185906101e1565b805f525f60205260405f2060ff60078201541690816103a5575b50610391575b6001016101ac565b9161039d6001916117fc565b929050610389565b600891500154421085610383565b34610173576040366003190112610173576001600160a01b036103d46117d1565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461017357602080600319360112610173576004359081151580610572575b6104249061180a565b815f525f815261043d60ff600760405f20015416611856565b815f525f815260405f20600881015442109081159161055b575b50156104f157815f525f815260405f20906007820160ff1981541690556001600160a01b039182600a82015416908161048c57005b5f8080836005976009839601549889920154168282156104e8575bf1156104dd577fd2aa34a4fdbbc6dff6a3e56f46e0f3ae2a31d7785ff3487aa5c95c642acea501926040928351928352820152a2005b6040513d5f823e3d90fd5b506108fc6104a7565b6084906040519062461bcd60e51b82526004820152603560248201527f41756374696f6e20686173206e6f7420656e6465642079657420616e6420796f60448201527f7520617265206e6f74207468652063726561746f7200000000000000000000006064820152fd5b6001600160a01b0391506005015416331483610457565b50600454821061041b565b34610173576040366003190112610173576105966117d1565b6001600160a01b0360243591165f52600260205260405f208054821015610173576020916105c3916117e7565b90546040519160031b1c8152f35b34610173576020366003190112610173576004356105ed6118a2565b50801515806106cc575b6106009061180a565b5f525f6020526106c860405f20600b6040519161061c83611548565b8054835261062c60018201611615565b602084015261063d60028201611615565b604084015261064e60038201611615565b6060840152600481015460808401526001600160a01b038060058301541660a0850152600682015460c085015260ff600783015416151560e085015260088201546101008501526009820154610120850152600a820154166101408401520154610160820152604051918291602083526020830190611722565b0390f35b5060045481106105f7565b346101735760803660031901126101735760043567ffffffffffffffff811161017357610708903690600401611587565b60243567ffffffffffffffff811161017357610728903690600401611587565b60443567ffffffffffffffff811161017357610748903690600401611587565b825115610da657815115610d6157805115610d1c5760643515610ccc5760045491610772836117fc565b60045562093a8042014211610cb85760405161078d81611548565b8381526020810191858352604082015282606082015260643560808201523360a08201524260c0820152600160e082015262093a8042016101008201525f6101208201525f6101408201525f610160820152835f525f60205260405f2091815183555180519067ffffffffffffffff8211610a5157819061081160018601546115dd565b601f8111610c68575b50602090601f8311600114610bfa575f92610bef575b50508160011b915f199060031b1c19161760018301555b604081015180519067ffffffffffffffff8211610a5157819061086d60028601546115dd565b601f8111610b9f575b50602090601f8311600114610b31575f92610b26575b50508160011b915f199060031b1c19161760028301555b606081015180519067ffffffffffffffff8211610a51576108c760038501546115dd565b601f8111610ae2575b50602090601f8311600114610a70579180600b9492610160945f92610a65575b50508160011b915f199060031b1c19161760038501555b60808101516004850155600584016001600160a01b03908160a0840151169073ffffffffffffffffffffffffffffffffffffffff19918282541617905560c0830151600687015561096d60e08401511515600788019060ff801983541691151516179055565b61010083015160088701556101208301516009870155600a86019161014084015116908254161790550151910155335f52600260205260405f209081549068010000000000000000821015610a51576109f0827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d946001610a35950181556117e7565b81549060031b9086821b915f19901b1916179055610a0f6005546117fc565b600555610a27604051956080875260808701906116b7565b9085820360208701526116b7565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b0151905089806108f0565b90600385015f5260205f20915f5b601f1985168110610aca575092600b94926001926101609583601f19811610610ab2575b505050811b016003850155610907565b01515f1960f88460031b161c19169055898080610aa2565b91926020600181928685015181550194019201610a7e565b600385015f5260205f20601f840160051c810160208510610b1f575b601f830160051c82018110610b145750506108d0565b5f8155600101610afe565b5080610afe565b01519050878061088c565b9250600285015f5260205f20905f935b601f1984168510610b84576001945083601f19811610610b6c575b505050811b0160028301556108a3565b01515f1960f88460031b161c19169055878080610b5c565b81810151835560209485019460019093019290910190610b41565b909150600285015f5260205f20601f840160051c810160208510610be8575b90849392915b601f830160051c82018110610bda575050610876565b5f8155859450600101610bc4565b5080610bbe565b015190508780610830565b9250600185015f5260205f20905f935b601f1984168510610c4d576001945083601f19811610610c35575b505050811b016001830155610847565b01515f1960f88460031b161c19169055878080610c25565b81810151835560209485019460019093019290910190610c0a565b909150600185015f5260205f20601f840160051c810160208510610cb1575b90849392915b601f830160051c82018110610ca357505061081a565b5f8155859450600101610c8d565b5080610c87565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601860248201527f43617465676f72792063616e6e6f7420626520656d70747900000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f5469746c652063616e6e6f7420626520656d70747900000000000000000000006044820152606490fd5b34610173576040366003190112610173576024356004355f52600160205260405f2090815481101561017357610e20916116f5565b506001600160a01b0381541660018201549160ff600282015416610e7c610e4960038401611615565b60ff600560048601549501541692604051968796875260208701521515604086015260c0606086015260c08501906116b7565b916080840152151560a08301520390f35b34610173576020366003190112610173576004355f525f60205260405f208054610eb960018301611615565b91610ec660028201611615565b610ed260038301611615565b916004810154926001600160a01b039081600584015416600684015460ff60078601541691610f4e600887015494610f40600b60098a015498600a8b01541699015499610f326040519e8f9e8f61018091815281602082015201906116b7565b8d810360408f0152906116b7565b908b820360608d01526116b7565b9760808a015260a089015260c0880152151560e08701526101008601526101208501526101408401526101608301520390f35b6080366003190112610173576004356024908135801515809103610173576044356064359367ffffffffffffffff9485811161017357610fc5903690600401611587565b908415158061145c575b610fd89061180a565b845f526020955f8752610ff460ff600760405f20015416611856565b855f525f8752600860405f20015442101561141857855f525f87526001600160a01b0380600560405f2001541633146113d457335f526003885260405f20875f52885260ff60405f20541661136a57865f525f8852600460405f200154341061132657865f5260019384895260405f20926040519460c0860186811083821117611312576040523386528a860198888a526040870190815260608701938452608087019442865260a08801965f8852805490680100000000000000008210156112ff57906110c6918b820181556116f5565b9890986112ed5790611111929151169a73ffffffffffffffffffffffffffffffffffffffff199b8c8a54161789555189890155511515600288019060ff801983541691151516179055565b6003860192519081519283116112da575061112c83546115dd565b601f8111611294575b508a90601f831160011461122357918061118697969492600596945f92611218575b50505f19600383901b1c191690881b1790555b51600484015551151591019060ff801983541691151516179055565b835f525f8552600b60405f200161119d81546117fc565b9055335f526003855260405f20845f52855260405f209060ff198254161790555f845260405f20600981019182548111611201575b85857f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47604051924284523393a3005b600a925501903390825416179055828080806111d2565b015190508d80611157565b8792918c91601f198416865f52835f20935f905b82821061127b57505091600597959391856111869b9a98969410611263575b505050811b01905561116a565b01515f1960f88460031b161c191690558d8080611256565b8484015186558c97909501949384019390810190611237565b835f528b5f20601f840160051c8101918d85106112d0575b601f0160051c019088905b8281106112c5575050611135565b5f81550188906112b7565b90915081906112ac565b634e487b7160e01b5f9081526041600452fd5b83634e487b7160e01b5f525f6004525ffd5b84634e487b7160e01b5f5260416004525ffd5b50634e487b7160e01b5f9081526041600452fd5b60405162461bcd60e51b8152600481018990526018818501527f4269642062656c6f77206d696e696d756d20616d6f756e7400000000000000006044820152606490fd5b60405162461bcd60e51b815260048101899052602d818501527f596f75206861766520616c726561647920706c61636564206120626964206f6e60448201527f20746869732061756374696f6e000000000000000000000000000000000000006064820152608490fd5b60405162461bcd60e51b815260048101899052601e818501527f43616e6e6f7420626964206f6e20796f7572206f776e2061756374696f6e00006044820152606490fd5b60405162461bcd60e51b8152600481018890526011818401527f41756374696f6e2068617320656e6465640000000000000000000000000000006044820152606490fd5b506004548510610fcf565b3461017357602036600319011261017357600435801515806114a5575b61148d9061180a565b5f525f6020526020600b60405f200154604051908152f35b506004548110611484565b34610173575f366003190112610173576020600554604051908152f35b34610173575f366003190112610173575f6001906001600454905b818110611502576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff600782015416908161153a575b5061152a575b016114e8565b92611534906117fc565b92611524565b60089150015442108661151e565b610180810190811067ffffffffffffffff821117610a5157604052565b90601f8019910116810190811067ffffffffffffffff821117610a5157604052565b81601f820112156101735780359067ffffffffffffffff8211610a5157604051926115bc601f8401601f191660200185611565565b8284526020838301011161017357815f926020809301838601378301015290565b90600182811c9216801561160b575b60208310146115f757565b634e487b7160e01b5f52602260045260245ffd5b91607f16916115ec565b9060405191825f8254611627816115dd565b908184526020946001916001811690815f146116955750600114611657575b50505061165592500383611565565b565b5f90815285812095935091905b81831061167d57505061165593508201015f8080611646565b85548884018501529485019487945091830191611664565b9250505061165594925060ff191682840152151560051b8201015f8080611646565b91908251928382525f5b8481106116e1575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016116c1565b805482101561170e575f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b9061176b611759611747610180855185526020860151908060208701528501906116b7565b604085015184820360408601526116b7565b606084015183820360608501526116b7565b916080810151608083015260a08101516001600160a01b0380911660a084015260c082015160c084015260e0820151151560e084015261010080830151908401526101208083015190840152610140908183015116908301526101608091015191015290565b600435906001600160a01b038216820361017357565b805482101561170e575f5260205f2001905f90565b5f198114610cb85760010190565b1561181157565b60405162461bcd60e51b815260206004820152601260248201527f496e76616c69642061756374696f6e20494400000000000000000000000000006044820152606490fd5b1561185d57565b60405162461bcd60e51b815260206004820152601560248201527f41756374696f6e206973206e6f742061637469766500000000000000000000006044820152606490fd5b604051906118af82611548565b5f6101608382815260606020820152606060408201526060808201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201520152565b67ffffffffffffffff8111610a515760051b60200190565b805182101561170e5760209160051b01019056fea164736f6c6343000818000a";
+  "0x6080806040523461001f5760016004555f6005556118b990816100248239f35b5f80fdfe60806040526004361015610018575b361561001657005b005b60e05f3560e01c908163045af3341461146957816316002f4a1461144c5781632158d95a146114035781633f40efdc14610f50578163571a26a014610e5d5781635f93de4914610dbc57816375b6a06e146106d157816378bd7935146105cc578163a65ed0d6146103b1578163b4fbe80a14610575578163b9a2de3a146103fa578163c75c99e6146103b1578163cf44b5d51461019457508063fc528482146101775763ff3ad0b40361000e573461017357602080600319360112610173576001600160a01b036100e7611769565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061015f57868661012082880383611500565b60405192839281840190828552518091526040840192915f5b82811061014857505050500390f35b835185528695509381019392810192600101610139565b83548552909301926001928301920161010a565b5f80fd5b34610173575f366003190112610173576020600454604051908152f35b34610173575f366003190112610173575f6001600454905b81811061036757506101d66101c083611881565b926101ce6040519485611500565b808452611881565b60209390601f1901845f5b828110610351575050505f60015b838110610253576040805187815286518189018190525f92600582901b8301810191898b01918b9085015b8287106102275785850386f35b909192938280610243600193603f198a820301865288516116bb565b960192019601959291909261021a565b805f525f865260405f2060ff60078201541690818092610344575b61027d575b50506001016101ef565b9261033c91600b6001949560405192610295846114e4565b815484526102a48783016115ae565b8c8501526102b4600283016115ae565b60408501526102c5600383016115ae565b606085015260048201546080850152868060a01b03908160058401541660a0860152600683015460c086015215158985015260088201546101008501526009820154610120850152600a82015416610140840152015461016082015261032b8289611898565b526103368188611898565b50611794565b919087610273565b506008810154421061026e565b610359611827565b8282880101520185906101e1565b805f525f60205260405f2060ff60078201541690816103a3575b5061038f575b6001016101ac565b9161039b600191611794565b929050610387565b600891500154421085610381565b34610173576040366003190112610173576001600160a01b036103d2611769565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b346101735760208060031936011261017357600435908115158061056a575b610422906117a2565b815f525f815261043b60ff600760405f200154166117e3565b815f525f815260405f206008810154421090811591610553575b50156104f1575f8281528082526040902060078101805460ff19169055600a8101546001600160a01b039291908316908161048c57005b5f8080836005976009839601549889920154168282156104e8575bf1156104dd577fd2aa34a4fdbbc6dff6a3e56f46e0f3ae2a31d7785ff3487aa5c95c642acea501926040928351928352820152a2005b6040513d5f823e3d90fd5b506108fc6104a7565b6084906040519062461bcd60e51b82526004820152603560248201527f41756374696f6e20686173206e6f7420656e6465642079657420616e6420796f6044820152743a9030b932903737ba103a34329031b932b0ba37b960591b6064820152fd5b600501546001600160a01b03163314905083610455565b506004548210610419565b346101735760403660031901126101735761058e611769565b6001600160a01b03165f90815260026020526040902080546024359190821015610173576020916105be9161177f565b90546040519160031b1c8152f35b34610173576020366003190112610173576004356105e8611827565b50801515806106c6575b6105fb906117a2565b5f525f6020526106c260405f20600b60405191610617836114e4565b80548352610627600182016115ae565b6020840152610638600282016115ae565b6040840152610649600382016115ae565b60608401526004810154608084015260018060a01b038060058301541660a0850152600682015460c085015260ff600783015416151560e085015260088201546101008501526009820154610120850152600a8201541661014084015201546101608201526040519182916020835260208301906116bb565b0390f35b5060045481106105f2565b34610173576080366003190112610173576004356001600160401b03811161017357610701903690600401611521565b6024356001600160401b03811161017357610720903690600401611521565b6044356001600160401b0381116101735761073f903690600401611521565b825115610d7f57815115610d3a57805115610cfa5760643515610caa576004549161076983611794565b60045562093a8042014211610c9657604051610784816114e4565b8381526020810191858352604082015282606082015260643560808201523360a08201524260c0820152600160e082015262093a8042016101008201525f6101208201525f6101408201525f610160820152835f525f60205260405f209181518355518051906001600160401b038211610a2f5781906108076001860154611576565b601f8111610c46575b50602090601f8311600114610bd8575f92610bcd575b50508160011b915f199060031b1c19161760018301555b60408101518051906001600160401b038211610a2f5781906108626002860154611576565b601f8111610b7d575b50602090601f8311600114610b0f575f92610b04575b50508160011b915f199060031b1c19161760028301555b60608101518051906001600160401b038211610a2f576108bb6003850154611576565b601f8111610ac0575b50602090601f8311600114610a4e579180600b9492610160945f92610a43575b50508160011b915f199060031b1c19161760038501555b6080810151600485015560a08101516005850180546001600160a01b039283166001600160a01b03199182161790915560c0830151600687015560e083015160078701805460ff191691151560ff1691909117905561010083015160088701556101208301516009870155600a86019161014084015116908254161790550151910155335f52600260205260405f2090815490600160401b821015610a2f576109ce827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d946001610a139501815561177f565b81549060031b9086821b915f19901b19161790556109ed600554611794565b600555610a0560405195608087526080870190611650565b908582036020870152611650565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b0151905089806108e4565b90600385015f5260205f20915f5b601f1985168110610aa8575092600b94926001926101609583601f19811610610a90575b505050811b0160038501556108fb565b01515f1960f88460031b161c19169055898080610a80565b91926020600181928685015181550194019201610a5c565b600385015f5260205f20601f840160051c810160208510610afd575b601f830160051c82018110610af25750506108c4565b5f8155600101610adc565b5080610adc565b015190508780610881565b9250600285015f5260205f20905f935b601f1984168510610b62576001945083601f19811610610b4a575b505050811b016002830155610898565b01515f1960f88460031b161c19169055878080610b3a565b81810151835560209485019460019093019290910190610b1f565b909150600285015f5260205f20601f840160051c810160208510610bc6575b90849392915b601f830160051c82018110610bb857505061086b565b5f8155859450600101610ba2565b5080610b9c565b015190508780610826565b9250600185015f5260205f20905f935b601f1984168510610c2b576001945083601f19811610610c13575b505050811b01600183015561083d565b01515f1960f88460031b161c19169055878080610c03565b81810151835560209485019460019093019290910190610be8565b909150600185015f5260205f20601f840160051c810160208510610c8f575b90849392915b601f830160051c82018110610c81575050610810565b5f8155859450600101610c6b565b5080610c65565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601860248201527743617465676f72792063616e6e6f7420626520656d70747960401b6044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b34610173576040366003190112610173576024356004355f52600160205260405f2090815481101561017357610df19161168e565b5060018060a01b0381541660018201549160ff600282015416610e4c610e19600384016115ae565b60ff600560048601549501541692604051968796875260208701521515604086015260c0606086015260c0850190611650565b916080840152151560a08301520390f35b34610173576020366003190112610173576004355f525f60205260405f208054610e89600183016115ae565b91610e96600282016115ae565b610ea2600383016115ae565b9160048101549260018060a01b039081600584015416600684015460ff60078601541691610f1d600887015494610f0f600b60098a015498600a8b01541699015499610f016040519e8f9e8f6101809181528160208201520190611650565b8d810360408f015290611650565b908b820360608d0152611650565b9760808a015260a089015260c0880152151560e08701526101008601526101208501526101408401526101608301520390f35b608036600319011261017357600435602490813580151580910361017357604435606435936001600160401b039485811161017357610f93903690600401611521565b90841515806113f8575b610fa6906117a2565b845f526020955f8752610fc260ff600760405f200154166117e3565b855f525f8752600860405f2001544210156113c0575f86815280885260409020600501546001600160a01b03908116331461137c57335f526003885260405f20875f52885260ff60405f20541661132257865f525f8852600460405f20015434106112e357865f5260019384895260405f20926040519460c08601868110838211176112cf576040523386528a860198888a526040870190815260608701938452608087019442865260a08801965f8852805490600160401b8210156112bc5790611091918b8201815561168e565b9890986112aa57906110ce929151169a60018060a01b03199b8c8a54161789555189890155511515600288019060ff801983541691151516179055565b60038601925190815192831161129757506110e98354611576565b601f8111611251575b508a90601f83116001146111e057918061114397969492600596945f926111d5575b50505f19600383901b1c191690881b1790555b51600484015551151591019060ff801983541691151516179055565b835f525f8552600b60405f200161115a8154611794565b9055335f526003855260405f20845f52855260405f209060ff198254161790555f845260405f206009810191825481116111be575b85857f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47604051924284523393a3005b600a9255019033908254161790558280808061118f565b015190508d80611114565b8792918c91601f198416865f52835f20935f905b82821061123857505091600597959391856111439b9a98969410611220575b505050811b019055611127565b01515f1960f88460031b161c191690558d8080611213565b8484015186558c979095019493840193908101906111f4565b835f528b5f20601f840160051c8101918d851061128d575b601f0160051c019088905b8281106112825750506110f2565b5f8155018890611274565b9091508190611269565b634e487b7160e01b5f9081526041600452fd5b83634e487b7160e01b5f525f6004525ffd5b84634e487b7160e01b5f5260416004525ffd5b50634e487b7160e01b5f9081526041600452fd5b60405162461bcd60e51b81526004810189905260188185015277109a590818995b1bddc81b5a5b9a5b5d5b48185b5bdd5b9d60421b6044820152606490fd5b60405162461bcd60e51b815260048101899052602d818501527f596f75206861766520616c726561647920706c61636564206120626964206f6e60448201526c103a3434b99030bab1ba34b7b760991b6064820152608490fd5b60405162461bcd60e51b815260048101899052601e818501527f43616e6e6f7420626964206f6e20796f7572206f776e2061756374696f6e00006044820152606490fd5b60405162461bcd60e51b81526004810188905260118184015270105d58dd1a5bdb881a185cc8195b991959607a1b6044820152606490fd5b506004548510610f9d565b346101735760203660031901126101735760043580151580611441575b611429906117a2565b5f525f6020526020600b60405f200154604051908152f35b506004548110611420565b34610173575f366003190112610173576020600554604051908152f35b34610173575f366003190112610173575f6001906001600454905b81811061149e576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff60078201541690816114d6575b506114c6575b01611484565b926114d090611794565b926114c0565b6008915001544210866114ba565b61018081019081106001600160401b03821117610a2f57604052565b90601f801991011681019081106001600160401b03821117610a2f57604052565b81601f82011215610173578035906001600160401b038211610a2f5760405192611555601f8401601f191660200185611500565b8284526020838301011161017357815f926020809301838601378301015290565b90600182811c921680156115a4575b602083101461159057565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611585565b9060405191825f82546115c081611576565b908184526020946001916001811690815f1461162e57506001146115f0575b5050506115ee92500383611500565b565b5f90815285812095935091905b8183106116165750506115ee93508201015f80806115df565b855488840185015294850194879450918301916115fd565b925050506115ee94925060ff191682840152151560051b8201015f80806115df565b91908251928382525f5b84811061167a575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161165a565b80548210156116a7575f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b906117046116f26116e061018085518552602086015190806020870152850190611650565b60408501518482036040860152611650565b60608401518382036060850152611650565b916080810151608083015260a081015160018060a01b0380911660a084015260c082015160c084015260e0820151151560e084015261010080830151908401526101208083015190840152610140908183015116908301526101608091015191015290565b600435906001600160a01b038216820361017357565b80548210156116a7575f5260205f2001905f90565b5f198114610c965760010190565b156117a957565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fd5b156117ea57565b60405162461bcd60e51b815260206004820152601560248201527441756374696f6e206973206e6f742061637469766560581b6044820152606490fd5b60405190611834826114e4565b5f6101608382815260606020820152606060408201526060808201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201520152565b6001600160401b038111610a2f5760051b60200190565b80518210156116a75760209160051b01019056fea164736f6c6343000818000a";
 
 type ConfidentialAuctionSimpleConstructorParams =
   | [signer?: Signer]
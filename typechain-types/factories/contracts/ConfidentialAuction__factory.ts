@@ -7,7 +7,12 @@ import {
   ContractTransactionResponse,
   Interface,
 } from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
 import type { NonPayableOverrides } from "../../common";
 import type {
   ConfidentialAuction,
@@ -16,10 +21,60 @@ import type {
 
 const _abi = [
   {
-    inputs: [],
+    inputs: [
+      {
+        internalType: "contract CategoryRegistry",
+        name: "_categoryRegistry",
+        type: "address",
+      },
+      {
+        internalType: "contract AuctionGovernance",
+        name: "_governance",
+        type: "address",
+      },
+    ],
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnsupportedHandleType",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "AuctionCancelled",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -36,10 +91,10 @@ const _abi = [
         type: "string",
       },
       {
-        indexed: false,
-        internalType: "string",
-        name: "category",
-        type: "string",
+        indexed: true,
+        internalType: "uint256",
+        name: "categoryId",
+        type: "uint256",
       },
       {
         indexed: false,
@@ -88,6 +143,50 @@ const _abi = [
     name: "AuctionEnded",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newEndTime",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionExtended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "AuctionMetadataSet",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -114,186 +213,759 @@ const _abi = [
     type: "event",
   },
   {
-    stateMutability: "payable",
-    type: "fallback",
-  },
-  {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "",
+        name: "auctionId",
         type: "uint256",
       },
-    ],
-    name: "auctionBids",
-    outputs: [
       {
+        indexed: true,
         internalType: "address",
         name: "bidder",
         type: "address",
       },
       {
-        internalType: "euint64",
-        name: "amount",
-        type: "bytes32",
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
+    ],
+    name: "BidUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
-        internalType: "ebool",
-        name: "isHighBid",
-        type: "bytes32",
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
       },
       {
-        internalType: "string",
-        name: "comments",
-        type: "string",
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
       },
       {
+        indexed: false,
         internalType: "uint256",
-        name: "timestamp",
+        name: "refund",
         type: "uint256",
       },
-      {
-        internalType: "bool",
-        name: "isRevealed",
-        type: "bool",
-      },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "BidWithdrawn",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "",
+        name: "requestID",
         type: "uint256",
       },
     ],
-    name: "auctions",
-    outputs: [
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "id",
+        name: "auctionId",
         type: "uint256",
       },
       {
-        internalType: "string",
-        name: "title",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "description",
-        type: "string",
+        indexed: false,
+        internalType: "uint256",
+        name: "askPrice",
+        type: "uint256",
       },
       {
-        internalType: "string",
-        name: "category",
-        type: "string",
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
+    ],
+    name: "DutchPriceStep",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "minimumBid",
+        name: "auctionId",
         type: "uint256",
       },
       {
+        indexed: true,
         internalType: "address",
         name: "creator",
         type: "address",
       },
       {
+        indexed: false,
         internalType: "uint256",
-        name: "timestamp",
+        name: "amount",
         type: "uint256",
       },
+    ],
+    name: "ProceedsClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
-        internalType: "bool",
-        name: "isActive",
-        type: "bool",
-      },
-      {
+        indexed: true,
         internalType: "uint256",
-        name: "endTime",
+        name: "auctionId",
         type: "uint256",
       },
       {
-        internalType: "euint64",
-        name: "highestBidAmount",
-        type: "bytes32",
-      },
-      {
+        indexed: true,
         internalType: "address",
-        name: "highestBidder",
+        name: "bidder",
         type: "address",
       },
       {
+        indexed: false,
         internalType: "uint256",
-        name: "bidCount",
+        name: "amount",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "RefundWithdrawn",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
-        internalType: "string",
-        name: "_title",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "_description",
-        type: "string",
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
       },
+    ],
+    name: "ReserveNotMet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
-        internalType: "string",
-        name: "_category",
-        type: "string",
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
       },
       {
+        indexed: false,
         internalType: "uint256",
-        name: "_minimumBid",
+        name: "requestId",
         type: "uint256",
       },
     ],
-    name: "createAuction",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "emergencyWithdraw",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
+    name: "SettlementRequested",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "_auctionId",
+        name: "auctionId",
         type: "uint256",
       },
-    ],
-    name: "endAuction",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "getActiveAuctions",
-    outputs: [
       {
-        components: [
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "winningBid",
+        type: "uint256",
+      },
+    ],
+    name: "WinnerRevealed",
+    type: "event",
+  },
+  {
+    stateMutability: "payable",
+    type: "fallback",
+  },
+  {
+    inputs: [],
+    name: "CANCELLATION_PENALTY_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SCAN",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_START_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_WITHDRAWABLE_BIDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "activeAuctionsByCategory",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "allowBidWithdrawals",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctionBids",
+    outputs: [
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "isHighBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "comments",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isWithdrawn",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctionMetadata",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctionProceeds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bidDeposits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "bidWithdrawalsAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelAuction",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cancellationCompensation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cancelled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "categoryRegistry",
+    outputs: [
+      {
+        internalType: "contract CategoryRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "claimProceeds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_extension",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_maxExtension",
+        type: "uint256",
+      },
+    ],
+    name: "configureSoftClose",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_minimumBid",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_duration",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedReserve",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_reserveProof",
+        type: "bytes",
+      },
+      {
+        internalType: "enum ConfidentialAuction.AuctionType",
+        name: "_auctionType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_startPrice",
+        type: "uint256",
+      },
+    ],
+    name: "createAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_contentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "_uri",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_minimumBid",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_duration",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedReserve",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_reserveProof",
+        type: "bytes",
+      },
+      {
+        internalType: "enum ConfidentialAuction.AuctionType",
+        name: "_auctionType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_startPrice",
+        type: "uint256",
+      },
+    ],
+    name: "createAuctionWithMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "dutchStartPrices",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "emergencyWithdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "endAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getActiveAuctions",
+    outputs: [
+      {
+        components: [
           {
             internalType: "uint256",
             name: "id",
@@ -309,11 +981,112 @@ const _abi = [
             name: "description",
             type: "string",
           },
+          {
+            internalType: "uint256",
+            name: "categoryId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minimumBid",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "euint64",
+            name: "highestBidAmount",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "highestBidder",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "bidCount",
+            type: "uint256",
+          },
+          {
+            internalType: "eaddress",
+            name: "encryptedHighestBidder",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "winningBid",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "enum ConfidentialAuction.AuctionType",
+            name: "auctionType",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct ConfidentialAuction.Auction[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuction",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
           {
             internalType: "string",
-            name: "category",
+            name: "description",
             type: "string",
           },
+          {
+            internalType: "uint256",
+            name: "categoryId",
+            type: "uint256",
+          },
           {
             internalType: "uint256",
             name: "minimumBid",
@@ -354,11 +1127,172 @@ const _abi = [
             name: "bidCount",
             type: "uint256",
           },
+          {
+            internalType: "eaddress",
+            name: "encryptedHighestBidder",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "winningBid",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "enum ConfidentialAuction.AuctionType",
+            name: "auctionType",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct ConfidentialAuction.Auction",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuctionBidCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuctionPhase",
+    outputs: [
+      {
+        internalType: "enum ConfidentialAuction.AuctionPhase",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "enum ConfidentialAuction.StatusFilter",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "categoryId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+        ],
+        internalType: "struct ConfidentialAuction.AuctionFilter",
+        name: "_filter",
+        type: "tuple",
+      },
+    ],
+    name: "getAuctions",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "categoryId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minimumBid",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bidCount",
+            type: "uint256",
+          },
+          {
+            internalType: "enum ConfidentialAuction.AuctionType",
+            name: "auctionType",
+            type: "uint8",
+          },
         ],
-        internalType: "struct ConfidentialAuction.Auction[]",
-        name: "",
+        internalType: "struct ConfidentialAuction.AuctionSummary[]",
+        name: "page",
         type: "tuple[]",
       },
+      {
+        internalType: "uint256",
+        name: "nextOffset",
+        type: "uint256",
+      },
     ],
     stateMutability: "view",
     type: "function",
@@ -367,11 +1301,21 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "_auctionId",
+        name: "_categoryId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
         type: "uint256",
       },
     ],
-    name: "getAuction",
+    name: "getAuctionsByCategory",
     outputs: [
       {
         components: [
@@ -386,14 +1330,9 @@ const _abi = [
             type: "string",
           },
           {
-            internalType: "string",
-            name: "description",
-            type: "string",
-          },
-          {
-            internalType: "string",
-            name: "category",
-            type: "string",
+            internalType: "uint256",
+            name: "categoryId",
+            type: "uint256",
           },
           {
             internalType: "uint256",
@@ -405,11 +1344,6 @@ const _abi = [
             name: "creator",
             type: "address",
           },
-          {
-            internalType: "uint256",
-            name: "timestamp",
-            type: "uint256",
-          },
           {
             internalType: "bool",
             name: "isActive",
@@ -417,28 +1351,33 @@ const _abi = [
           },
           {
             internalType: "uint256",
-            name: "endTime",
+            name: "startTime",
             type: "uint256",
           },
           {
-            internalType: "euint64",
-            name: "highestBidAmount",
-            type: "bytes32",
-          },
-          {
-            internalType: "address",
-            name: "highestBidder",
-            type: "address",
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
           },
           {
             internalType: "uint256",
             name: "bidCount",
             type: "uint256",
           },
+          {
+            internalType: "enum ConfidentialAuction.AuctionType",
+            name: "auctionType",
+            type: "uint8",
+          },
         ],
-        internalType: "struct ConfidentialAuction.Auction",
-        name: "",
-        type: "tuple",
+        internalType: "struct ConfidentialAuction.AuctionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextOffset",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -452,7 +1391,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "getAuctionBidCount",
+    name: "getCurrentAsk",
     outputs: [
       {
         internalType: "uint256",
@@ -463,6 +1402,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getMyBid",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "getTotalCounts",
@@ -500,6 +1458,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "governance",
+    outputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -524,6 +1495,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hasReserve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -574,9 +1564,14 @@ const _abi = [
         type: "bool",
       },
       {
-        internalType: "uint256",
-        name: "_bidAmount",
-        type: "uint256",
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
       },
       {
         internalType: "string",
@@ -589,6 +1584,119 @@ const _abi = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "reserveNotMet",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "retrySettlement",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "_winningBid",
+        type: "uint64",
+      },
+      {
+        internalType: "address",
+        name: "_winner",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "_reserveMet",
+        type: "bool",
+      },
+      {
+        internalType: "bytes[]",
+        name: "_signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "revealWinner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "settlementPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "softCloses",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "extension",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxEndTime",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "totalAuctions",
@@ -602,6 +1710,42 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "totalEscrowed",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -626,6 +1770,32 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     stateMutability: "payable",
     type: "receive",
@@ -633,7 +1803,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001f5760016004555f600555611cf990816100248239f35b5f80fdfe60806040526004361015610018575b361561001657005b005b60e05f3560e01c908163045af3341461180157816316002f4a146117e45781632158d95a1461179b5781633f40efdc1461100b578163571a26a014610f175781635f93de4914610e7a57816375b6a06e1461075e57816378bd793514610658578163a65ed0d614610445578163b4fbe80a14610604578163b9a2de3a1461048e578163c75c99e614610445578163cf44b5d51461022657508063db2e21bc1461019f578063fc528482146101825763ff3ad0b40361000e573461017e5760208060031936011261017e576001600160a01b036100f2611b05565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016a57868661012b82880383611899565b60405192839281840190828552518091526040840192915f5b82811061015357505050500390f35b835185528695509381019392810192600101610144565b835485529093019260019283019201610115565b5f80fd5b3461017e575f36600319011261017e576020600454604051908152f35b3461017e575f36600319011261017e573033036101e1575f808080478181156101d8575b3390f1156101cd57005b6040513d5f823e3d90fd5b506108fc6101c3565b60405162461bcd60e51b815260206004820152601a60248201527f4f6e6c7920636f6e74726163742063616e2077697468647261770000000000006044820152606490fd5b3461017e575f36600319011261017e575f6001600454905b8181106103fb575061026861025283611c30565b926102606040519485611899565b808452611c30565b60209390601f1901845f5b8281106103e5575050505f60015b8381106102e5576040805187815286518189018190525f92600582901b8301810191898b01918b9085015b8287106102b95785850386f35b9091929382806102d5600193603f198a82030186528851611a56565b96019201960195929190926102ac565b805f525f865260405f2060ff600782015416908180926103d8575b61030f575b5050600101610281565b926103d091600b60019495604051926103278461187c565b81548452610336878301611949565b8c85015261034660028301611949565b604085015261035760038301611949565b6060850152600482015460808501526001600160a01b03908160058401541660a0860152600683015460c086015215158985015260088201546101008501526009820154610120850152600a8201541661014084015201546101608201526103bf8289611c48565b526103ca8188611c48565b50611b30565b919087610305565b5060088101544210610300565b6103ed611bd6565b828288010152018590610273565b805f525f60205260405f2060ff6007820154169081610437575b50610423575b60010161023e565b9161042f600191611b30565b92905061041b565b600891500154421085610415565b3461017e57604036600319011261017e576001600160a01b03610466611b05565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461017e5760208060031936011261017e5760043590811515806105f9575b6104b690611b3e565b815f525f81526104cf60ff600760405f20015416611b8a565b815f525f815260405f2060088101544210908115916105e2575b501561057857815f525f815260405f20906007820160ff1981541690556001600160a01b039182600a82015416908161051e57005b5f80808360059760048396015498899201541682821561056f575bf1156101cd577fd2aa34a4fdbbc6dff6a3e56f46e0f3ae2a31d7785ff3487aa5c95c642acea501926040928351928352820152a2005b506108fc610539565b6084906040519062461bcd60e51b82526004820152603560248201527f41756374696f6e20686173206e6f7420656e6465642079657420616e6420796f60448201527f7520617265206e6f74207468652063726561746f7200000000000000000000006064820152fd5b6001600160a01b03915060050154163314836104e9565b5060045482106104ad565b3461017e57604036600319011261017e5761061d611b05565b6001600160a01b0360243591165f52600260205260405f20805482101561017e5760209161064a91611b1b565b90546040519160031b1c8152f35b3461017e57602036600319011261017e57600435610674611bd6565b5080151580610753575b61068790611b3e565b5f525f60205261074f60405f20600b604051916106a38361187c565b805483526106b360018201611949565b60208401526106c460028201611949565b60408401526106d560038201611949565b6060840152600481015460808401526001600160a01b038060058301541660a0850152600682015460c085015260ff600783015416151560e085015260088201546101008501526009820154610120850152600a820154166101408401520154610160820152604051918291602083526020830190611a56565b0390f35b50600454811061067e565b3461017e57608036600319011261017e5760043567ffffffffffffffff811161017e5761078f9036906004016118bb565b60243567ffffffffffffffff811161017e576107af9036906004016118bb565b60443567ffffffffffffffff811161017e576107cf9036906004016118bb565b825115610e3557815115610df057805115610dab5760643515610d5b57600454916107f983611b30565b60045562093a8042014211610d4757610810611c5c565b6040519061081d8261187c565b8482526020820192868452604083015283606083015260643560808301523360a08301524260c0830152600160e083015262093a8042016101008301526101208201525f6101408201525f610160820152835f525f60205260405f2091815183555180519067ffffffffffffffff8211610ae05781906108a06001860154611911565b601f8111610cf7575b50602090601f8311600114610c89575f92610c7e575b50508160011b915f199060031b1c19161760018301555b604081015180519067ffffffffffffffff8211610ae05781906108fc6002860154611911565b601f8111610c2e575b50602090601f8311600114610bc0575f92610bb5575b50508160011b915f199060031b1c19161760028301555b606081015180519067ffffffffffffffff8211610ae0576109566003850154611911565b601f8111610b71575b50602090601f8311600114610aff579180600b9492610160945f92610af4575b50508160011b915f199060031b1c19161760038501555b60808101516004850155600584016001600160a01b03908160a0840151169073ffffffffffffffffffffffffffffffffffffffff19918282541617905560c083015160068701556109fc60e08401511515600788019060ff801983541691151516179055565b61010083015160088701556101208301516009870155600a86019161014084015116908254161790550151910155335f52600260205260405f209081549068010000000000000000821015610ae057610a7f827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d946001610ac495018155611b1b565b81549060031b9086821b915f19901b1916179055610a9e600554611b30565b600555610ab6604051956080875260808701906119eb565b9085820360208701526119eb565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b01519050898061097f565b90600385015f5260205f20915f5b601f1985168110610b59575092600b94926001926101609583601f19811610610b41575b505050811b016003850155610996565b01515f1960f88460031b161c19169055898080610b31565b91926020600181928685015181550194019201610b0d565b600385015f5260205f20601f840160051c810160208510610bae575b601f830160051c82018110610ba357505061095f565b5f8155600101610b8d565b5080610b8d565b01519050878061091b565b9250600285015f5260205f20905f935b601f1984168510610c13576001945083601f19811610610bfb575b505050811b016002830155610932565b01515f1960f88460031b161c19169055878080610beb565b81810151835560209485019460019093019290910190610bd0565b909150600285015f5260205f20601f840160051c810160208510610c77575b90849392915b601f830160051c82018110610c69575050610905565b5f8155859450600101610c53565b5080610c4d565b0151905087806108bf565b9250600185015f5260205f20905f935b601f1984168510610cdc576001945083601f19811610610cc4575b505050811b0160018301556108d6565b01515f1960f88460031b161c19169055878080610cb4565b81810151835560209485019460019093019290910190610c99565b909150600185015f5260205f20601f840160051c810160208510610d40575b90849392915b601f830160051c82018110610d325750506108a9565b5f8155859450600101610d1c565b5080610d16565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601860248201527f43617465676f72792063616e6e6f7420626520656d70747900000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f5469746c652063616e6e6f7420626520656d70747900000000000000000000006044820152606490fd5b3461017e57604036600319011261017e576024356004355f52600160205260405f2090815481101561017e57610eaf91611a29565b506001600160a01b038154166001820154916002810154610f06610ed560038401611949565b60ff60056004860154950154169260405196879687526020870152604086015260c0606086015260c08501906119eb565b916080840152151560a08301520390f35b3461017e57602036600319011261017e576004355f525f60205260405f208054610f4360018301611949565b91610f5060028201611949565b610f5c60038301611949565b916004810154926001600160a01b039081600584015416600684015460ff60078601541691610fd8600887015494610fca600b60098a015498600a8b01541699015499610fbc6040519e8f9e8f61018091815281602082015201906119eb565b8d810360408f0152906119eb565b908b820360608d01526119eb565b9760808a015260a089015260c0880152151560e08701526101008601526101208501526101408401526101608301520390f35b608036600319011261017e57602435801515810361017e5760643567ffffffffffffffff811161017e576110439036906004016118bb565b9060043515158061178e575b61105890611b3e565b6004355f525f60205261107460ff600760405f20015416611b8a565b6004355f525f602052600860405f200154421015611749576004355f525f6020526001600160a01b03600560405f20015416331461170457335f52600360205260405f206004355f5260205260ff60405f205416611699576004355f525f602052600460405f2001543410611654571561164c575f6001915b60206001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601541660446040518095819360ff639cd07acb60e01b998a85521660048401528160248401525af19182156101cd575f92611617575b5060205f929360446001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416916040519586938492835267ffffffffffffffff8435166004840152600560248401525af19182156101cd575f926115e3575b506004355f52600160205260405f2090604051938460c081011067ffffffffffffffff60c087011117610ae05760c08501604052338552836020860152604085015260608401524260808401525f60a0840152805468010000000000000000811015610ae05761122891600182018155611a29565b6115d0576001600160a01b0383511673ffffffffffffffffffffffffffffffffffffffff198254161781556020830151600182015560408301516002820155606083015192835167ffffffffffffffff8111610ae05761128b6003840154611911565b601f811161158c575b506020601f821160011461151a57918160a0926005946112ee97985f9261150f575b50508160011b915f199060031b1c19161760038501555b608081015160048501550151151591019060ff801983541691151516179055565b6004355f525f602052600b60405f20016113088154611b30565b9055335f52600360205260405f206004355f5260205260405f20600160ff198254161790555f602052600960405f2001548091809181156114ff575b80156114ed575b60209060646001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416945f60405196879485936385362ee760e01b8552600485015260248401528160448401525af19182156101cd575f926114b8575b5060646020925f6001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60154166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156101cd575f91611486575b506004355f525f60205260405f20906009820155604435611460575b60405142815233907f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47602060043592a3005b600a013373ffffffffffffffffffffffffffffffffffffffff198254161790558061142e565b90506020813d6020116114b0575b816114a160209383611899565b8101031261017e575181611412565b3d9150611494565b91506020823d6020116114e5575b816114d360209383611899565b8101031261017e5790519060646113af565b3d91506114c6565b5060206114f8611c5c565b905061134b565b9150611509611c5c565b91611344565b0151905088806112b6565b601f19821695600385015f5260205f20965f5b8181106115745750926112ee9697600595936001938360a0971061155c575b505050811b0160038501556112cd565b01515f1960f88460031b161c1916905588808061154c565b8383015189556001909801976020938401930161152d565b600384015f5260205f20601f830160051c8101602084106115c9575b601f830160051c820181106115be575050611294565b5f81556001016115a8565b50806115a8565b634e487b7160e01b5f525f60045260245ffd5b9091506020813d60201161160f575b816115ff60209383611899565b8101031261017e575190836111b3565b3d91506115f2565b91506020823d602011611644575b8161163260209383611899565b8101031261017e57905190602061114d565b3d9150611625565b5f80916110ed565b60405162461bcd60e51b815260206004820152601860248201527f4269642062656c6f77206d696e696d756d20616d6f756e7400000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152602d60248201527f596f75206861766520616c726561647920706c61636564206120626964206f6e60448201527f20746869732061756374696f6e000000000000000000000000000000000000006064820152608490fd5b60405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f7420626964206f6e20796f7572206f776e2061756374696f6e00006044820152606490fd5b60405162461bcd60e51b815260206004820152601160248201527f41756374696f6e2068617320656e6465640000000000000000000000000000006044820152606490fd5b506004805490351061104f565b3461017e57602036600319011261017e57600435801515806117d9575b6117c190611b3e565b5f525f6020526020600b60405f200154604051908152f35b5060045481106117b8565b3461017e575f36600319011261017e576020600554604051908152f35b3461017e575f36600319011261017e575f6001906001600454905b818110611836576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff600782015416908161186e575b5061185e575b0161181c565b9261186890611b30565b92611858565b600891500154421086611852565b610180810190811067ffffffffffffffff821117610ae057604052565b90601f8019910116810190811067ffffffffffffffff821117610ae057604052565b81601f8201121561017e5780359067ffffffffffffffff8211610ae057604051926118f0601f8401601f191660200185611899565b8284526020838301011161017e57815f926020809301838601378301015290565b90600182811c9216801561193f575b602083101461192b57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611920565b9060405191825f825461195b81611911565b908184526020946001916001811690815f146119c9575060011461198b575b50505061198992500383611899565b565b5f90815285812095935091905b8183106119b157505061198993508201015f808061197a565b85548884018501529485019487945091830191611998565b9250505061198994925060ff191682840152151560051b8201015f808061197a565b91908251928382525f5b848110611a15575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016119f5565b8054821015611a42575f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b90611a9f611a8d611a7b610180855185526020860151908060208701528501906119eb565b604085015184820360408601526119eb565b606084015183820360608501526119eb565b916080810151608083015260a08101516001600160a01b0380911660a084015260c082015160c084015260e0820151151560e084015261010080830151908401526101208083015190840152610140908183015116908301526101608091015191015290565b600435906001600160a01b038216820361017e57565b8054821015611a42575f5260205f2001905f90565b5f198114610d475760010190565b15611b4557565b60405162461bcd60e51b815260206004820152601260248201527f496e76616c69642061756374696f6e20494400000000000000000000000000006044820152606490fd5b15611b9157565b60405162461bcd60e51b815260206004820152601560248201527f41756374696f6e206973206e6f742061637469766500000000000000000000006044820152606490fd5b60405190611be38261187c565b5f6101608382815260606020820152606060408201526060808201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201520152565b67ffffffffffffffff8111610ae05760051b60200190565b8051821015611a425760209160051b010190565b5f60206001600160a01b037fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015416604460405180948193639cd07acb60e01b8352816004840152600560248401525af19081156101cd575f91611cbd575090565b90506020813d602011611ce4575b81611cd860209383611899565b8101031261017e575190565b3d9150611ccb56fea164736f6c6343000818000a";
+  "0x60c034620002ca57620062a590601f38839003908101601f19168201906001600160401b03821183831017620002ce5780839160409586948552833981010312620002ca5780516001600160a01b0391828216808303620002ca5760208092015193841690818503620002ca575f606062000079620002e2565b82815282868201528289820152015262000092620002e2565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d5958087830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac91828b82015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d00918254161790556001601a555f601b551562000288571562000245575060805260a05251615fa29081620003038239608051818181610c420152615124015260a05181818161097e01528181610b0301528181610c86015281816121eb01526143e50152f35b60649084519062461bcd60e51b82526004820152601960248201527f476f7665726e616e63652063616e6e6f74206265207a65726f000000000000006044820152fd5b60648286519062461bcd60e51b825280600483015260248201527f43617465676f72792072656769737472792063616e6e6f74206265207a65726f6044820152fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620002ce5760405256fe60806040526004361015610018575b361561001657005b005b5f3560e01c8063045af3341461036d57806307583050146103685780630eaaf4c81461036357806315040e0f1461035e57806316002f4a146103595780631c6dec04146103545780632158d95a1461034f5780632fcbb9511461034a578063305a67a81461034557806333a2d6d71461034057806339f8e7dd1461033b5780633b5fe7f31461033657806348f4da2014610331578063497d2ccf1461032c5780634b8baf5e1461032757806358099d96146103225780635aa6e6751461031d5780635f93de49146103185780636045f65a1461031357806363ea63c81461030e578063783e9f711461030957806378bd7935146103045780637ec40df8146102ff578063830d8307146102fa57806387c3d44a146102f55780638923108a146102f05780638977427a146102be5780638a493c69146102eb5780638aea8b38146102e65780638df6d6e6146102e157806395cb8a0d146102dc57806396b5a755146102d75780639d153495146102d25780639e7cc181146102cd578063a65ed0d6146102a0578063ace25320146102c8578063aec24cc2146102c3578063b1724b46146102be578063b4fbe80a146102b9578063b6a6d177146102b4578063b9a2de3a146102af578063c1bbcfe6146102aa578063c297fa0f146102a5578063c75c99e6146102a0578063c9f555551461029b578063cf44b5d514610296578063d8f6570514610291578063db2e21bc1461028c578063e050be5714610287578063e96f572314610282578063f91682311461027d578063fc52848214610278578063fd92f906146102735763ff3ad0b40361000e57612439565b6123bd565b6123a0565b612383565b6122f5565b6122c6565b6121bb565b612191565b61209e565b611ffe565b611d92565b611fca565b611fae565b611f92565b611f76565b611f1b565b61191e565b611e0d565b611dde565b611d45565b611c4a565b611b8e565b611b17565b611a8b565b611965565b61193b565b61183b565b6116c9565b6116ae565b611684565b61155b565b61137c565b61105f565b610f0c565b610e8a565b610c71565b610c2d565b610bfe565b610be2565b610bc7565b610ad0565b610aa1565b610a72565b610945565b610719565b610591565b610567565b61054a565b61051b565b6103d7565b6103b1565b610380565b5f91031261037c57565b5f80fd5b3461037c575f36600319011261037c57601b5461039b613e5b565b60408051928352602083019190915290f35b0390f35b3461037c57602036600319011261037c5760206103cf60043561257d565b604051908152f35b3461037c57602036600319011261037c576004356103f481613f47565b815f52601160205260ff60405f205416156104d657600501805461ff001916610100179055600b61042c825f525f60205260405f2090565b01610437815461263f565b90556104428161400f565b610469610457825f52601260205260405f2090565b335f9081526020919091526040902090565b54905f61049733610482845f52601260205260405f2090565b9060018060a01b03165f5260205260405f2090565b556104a182614139565b60405191825233917f8f8619524e8d462cead34604bd2247ede24175801481e4d0b8059ac8aa41c3019080602081015b0390a3005b60405162461bcd60e51b815260206004820152601f60248201527f426964207769746864726177616c7320617265206e6f7420616c6c6f776564006044820152606490fd5b3461037c57602036600319011261037c576004355f526004602052602060ff60405f2054166040519015158152f35b3461037c575f36600319011261037c576020601b54604051908152f35b3461037c57602036600319011261037c576004355f526013602052602060405f2054604051908152f35b3461037c57602036600319011261037c576004356105ae81613eaa565b5f525f6020526020600b60405f200154604051908152f35b91908251928382525f5b8481106105f0575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016105d0565b634e487b7160e01b5f52602160045260245ffd5b6003111561062257565b610604565b9061063182610618565b52565b929190604080850190604086528251809252606091606087019260608260051b890101936020809601935f925b878585106106755750505050505050930152565b806001929394959697988d605f199082030187526107098a51916106ab61014084518352858501519080878501528301906105c6565b88840151828a015287840151888301526080808501516001600160a01b0316908301529260a08181015115159083015260c0808201519083015260e08082015190830152610100808201519083015261012080910151910190610627565b9801940194019294939190610661565b3461037c5760a036600319011261037c57602435606036604319011261037c578015158061093a575b61074b9061264b565b610754816126f9565b905f91610762600435612748565b9261076c84612756565b601a5460643591821515965b82811080610931575b80610928575b156108bb57806107a1610834925f525f60205260405f2090565b6107b86107ac61279e565b6001600160a01b031690565b15158061088f575b61082e578980610881575b61082e57600781015460ff169081610873575b5060016107e96127aa565b6107f281610618565b14908161086a575b811561083e575b506108395761082e6108128261415e565b9661081c81612790565b97610827828b6127e3565b52886127e3565b50612790565b610778565b612790565b9050600261084a6127aa565b61085381610618565b149081610862575b505f610801565b90505f61085b565b801591506107fa565b60089150015442105f6107de565b5085600382015414156107cb565b5060058101546001600160a01b03166108a96107ac61279e565b6001600160a01b0390911614156107c0565b859083866108c8816126f9565b935f5b8281106108fe575050508110156108f6576108e590612515565b905b6103ad60405192839283610634565b505f906108e7565b8061090b600192846127e3565b5161091682896127e3565b5261092181886127e3565b50016108cb565b50868510610787565b50818110610781565b506064811115610742565b3461037c57602036600319011261037c57604051637d379c9b60e11b815233600480830191909152356020826024816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa918215610a6d57610016926109bc915f91610a3e575b50612817565b6109c581613eaa565b6109e360076109db835f525f60205260405f2090565b015460ff1690565b8015610a17575b6109f39061286e565b610a12610a08825f52601560205260405f2090565b805460ff19169055565b614220565b506109f3610a37610a30835f52601560205260405f2090565b5460ff1690565b90506109ea565b610a60915060203d602011610a66575b610a588183610d81565b8101906127f7565b5f6109b6565b503d610a4e565b61280c565b3461037c57602036600319011261037c57610a8e6004356128ba565b6040516005821015610622576020918152f35b3461037c57602036600319011261037c576004355f526005602052602060ff60405f2054166040519015158152f35b3461037c5760208060031936011261037c576040516335d2155560e11b81523360048281019190915235919081816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610a6d575f91610baa575b5015610b675761001682610b62610b5d610a30835f52601560205260405f2090565b612955565b6142c0565b6064906040519062461bcd60e51b825280600483015260248201527f4f6e6c79206b65657065722063616e20726574727920736574746c656d656e746044820152fd5b610bc19150823d8411610a6657610a588183610d81565b5f610b3b565b3461037c575f36600319011261037c57602060405160648152f35b3461037c575f36600319011261037c5760206040516101f48152f35b3461037c57602036600319011261037c576004355f526011602052602060ff60405f2054166040519015158152f35b3461037c575f36600319011261037c576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461037c575f36600319011261037c576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b634e487b7160e01b5f52603260045260245ffd5b8054821015610ce2575f52600660205f20910201905f90565b610cb5565b90600182811c92168015610d15575b6020831014610d0157565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610cf6565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b038111610d4657604052565b610d1f565b606081019081106001600160401b03821117610d4657604052565b602081019081106001600160401b03821117610d4657604052565b90601f801991011681019081106001600160401b03821117610d4657604052565b9060405191825f8254610db481610ce7565b908184526020946001916001811690815f14610e225750600114610de4575b505050610de292500383610d81565b565b5f90815285812095935091905b818310610e0a575050610de293508201015f8080610dd3565b85548884018501529485019487945091830191610df1565b92505050610de294925060ff191682840152151560051b8201015f8080610dd3565b9592610e769260c0969998959260018060a01b031688526020880152604087015260e0606087015260e08601906105c6565b956080850152151560a08401521515910152565b3461037c57604036600319011261037c576024356004355f52600160205260405f2090815481101561037c57610ebf91610cc9565b508054600182015460028301549290916103ad91906001600160a01b0316610ee960038301610da2565b91600560048201549101549260405196879660ff808760081c1696169488610e44565b3461037c57606036600319011261037c576108e5604435602435600435612999565b8015150361037c57565b9181601f8401121561037c578235916001600160401b03831161037c576020838186019501011161037c57565b6040519060e082018281106001600160401b03821117610d4657604052565b6040519061020082018281106001600160401b03821117610d4657604052565b60405190610de282610d4b565b60405190604082018281106001600160401b03821117610d4657604052565b6040519061014082018281106001600160401b03821117610d4657604052565b6001600160401b038111610d4657601f01601f191660200190565b92919261101782610ff0565b916110256040519384610d81565b82948184528183011161037c578281602093845f960137010152565b9080601f8301121561037c5781602061105c9335910161100b565b90565b60a036600319011261037c5760043560243561107a81610f2e565b6001600160401b0360643581811161037c5761109a903690600401610f38565b9060843592831161037c5784926110b5903690600401611041565b936110be6143d0565b6110c784613eaa565b6110d8845f525f60205260405f2090565b9160078301546110e89060ff1690565b6110f190612a78565b600e83015442101561110290612abc565b6008830154421061111290612b02565b60058301546001600160a01b03166001600160a01b031633141561113590612b42565b335f908152600a6020526040902085905f918252602052604090205460ff161561115e90612b8e565b600483015434101561116f90612bf0565b611181855f52601160205260405f2090565b5460ff16158015946111ee6111e66111d2611278966111f395600b9a61135b575b6111ab90612c37565b60026111bb600f8b015460ff1690565b6111c481610618565b149a8b611341575b5061447e565b946111dc8661450b565b503493369161100b565b604435614515565b614606565b956111fd8761450b565b5061120833886158ac565b61121a885f52600160205260405f2090565b54611231336104828b5f52600f60205260405f2090565b55611244885f52600160205260405f2090565b9061124d610f65565b33815292886020850152604084015260608301524260808301525f60a08301525f60c0830152612dd9565b016112838154612790565b9055335f908152600a602052604090206112b8906112ab9085905b905f5260205260405f2090565b805460ff19166001179055565b346112cf33610482865f52601260205260405f2090565b556112e46112df34601954612783565b601955565b15611331576112f39082614798565b6112fc8161494f565b6040514281523391907f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c479080602081016104d1565b61133c90338361469b565b6112f3565b61134d6113559161257d565b341015612c73565b8c6111cc565b506111ab60106113738d5f52600160205260405f2090565b541090506111a2565b3461037c57602036600319011261037c5760043561139981613eaa565b5f818152602081905260409020600501546001600160a01b03163303611423576113cb815f52601360205260405f2090565b54906113d8821515612f7d565b5f818152601360205260408120556113ef82614139565b60405191825233917f59ef3b0aa7753fe308ca62cf762e6595575b067925f4c6a9e8c52351e0bfa5889080602081016104d1565b60405162461bcd60e51b815260206004820152601f60248201527f4f6e6c792063726561746f722063616e20636c61696d2070726f6365656473006044820152606490fd5b9061105c906114a061148e610200855184526020860151908060208601528401906105c6565b604085015183820360408501526105c6565b606080850151908301526080808501519083015260a0808501516001600160a01b0316908301529260c081015160c08301526114e560e082015160e084019015159052565b61010081810151908301526101208082015190830152610140808201516001600160a01b031690830152610160808201519083015261018080820151908301526101a080820151908301526101c080820151908301526101e080910151910190610627565b90602061105c928181520190611468565b3461037c57602036600319011261037c57600435611577612fc1565b5061158181613eaa565b5f525f6020526103ad60405f2061167861166e600f61159e610f84565b93805485526115af60018201610da2565b60208601526115c060028201610da2565b6040860152600381015460608601526004810154608086015260058101546001600160a01b031660a0860152600681015460c0860152611610611607600783015460ff1690565b151560e0870152565b60088101546101008601526009810154610120860152600a8101546001600160a01b0316610140860152600b810154610160860152600c810154610180860152600d8101546101a0860152600e8101546101c0860152015460ff1690565b6101e08301613033565b6040519182918261154a565b3461037c57602036600319011261037c576004355f526007602052602060405f2054604051908152f35b3461037c575f36600319011261037c57602060405160108152f35b3461037c57608036600319011261037c576100166024356117ef6004356044356117cb6064356116f884613eaa565b6117296117226107ac6005611714885f525f60205260405f2090565b01546001600160a01b031690565b3314613127565b61174761174260076109db875f525f60205260405f2090565b612a78565b611765600b61175d865f525f60205260405f2090565b015415613181565b6117906002611780600f6109db885f525f60205260405f2090565b61178981610618565b14156131db565b8515158061180a575b6117a29061323e565b6117b162278d008211156132a9565b60086117c4855f525f60205260405f2090565b0154612783565b906117d4610fa4565b948552602085015260408401525f52600260205260405f2090565b90604060029180518455602081015160018501550151910155565b50821515611799565b6001600160a01b0381160361037c57565b6001600160401b038111610d465760051b60200190565b3461037c5760a036600319011261037c57602480356001600160401b0391828216820361037c576044916044359061187282611813565b6064359261187f84610f2e565b6084359086821161037c573660238301121561037c5781600401356118a381611824565b966118b16040519889610d81565b818852602098602460208a019360051b8601019436861161037c5760248101935b8685106118e8576100168b8b8b8b6004356132f5565b843583811161037c5782013660438201121561037c578c9161191383923690888b820135910161100b565b8152019401936118d2565b3461037c575f36600319011261037c57602060405162278d008152f35b3461037c57602036600319011261037c576004355f526018602052602060405f2054604051908152f35b606036600319011261037c576004356044356001600160401b03811161037c57611996611a42913690600401610f38565b61199e6143d0565b611a1f611a026119ad86613f47565b926119c3610457885f52601260205260405f2090565b6119ce348254612783565b90556119df6112df34601954612783565b6119fc6119f46001860196875493369161100b565b602435614515565b90614b15565b611a1833610482885f52601260205260405f2090565b5490614606565b8092611a2a8261450b565b50611a3533836158ac565b5560044291015582614b99565b34611a7d575b6040514281523391907f67084cbee80e339a509d7ab5561456aebf1df51370948a18a4449a1978d368ee9080602081016104d1565b611a868161494f565b611a48565b3461037c5760208060031936011261037c57600435611aa981613eaa565b335f52600a825260405f20815f528252611ac960ff60405f20541661351d565b5f90815260018083526040808320600f855281842033855260205292209091611af4915b5490610cc9565b500154604051908152f35b6003111561037c57565b6101043590610de282611aff565b3461037c5761014036600319011261037c576001600160401b0360243581811161037c57611b49903690600401611041565b60e43591821161037c57611b64610016923690600401610f38565b611b6c611b09565b91610124359360c4359060a43590608435906064359060443590600435613648565b602036600319011261037c57610016600435611ba981613eaa565b5f8181526020819052604090206005810154611bd890611bd1906001600160a01b03166107ac565b3314613760565b611be9611742600783015460ff1690565b611bf860088201544210612b02565b611c28611c21600b611c18611c106004860154612535565b612710900490565b9301548361254c565b34146137ac565b611c3a825f52601860205260405f2090565b55610a126112df34601954612783565b3461037c57602036600319011261037c57600435611c6781613eaa565b5f8181526020819052604090206007015460ff161580611d1e575b611c8b906137f8565b611ce0611ca3610457835f52601260205260405f2090565b54611caf81151561383d565b5f611cc633610482865f52601260205260405f2090565b55611cd9835f52601860205260405f2090565b5490612783565b90611cea82614139565b60405191825233917f6909eb935886ad8c734c29844350c36b0260f7006ff58559a3c286a9e7c8d8789080602081016104d1565b50611c8b611d3e611d3a610a30845f52601560205260405f2090565b1590565b9050611c82565b3461037c57604036600319011261037c576020611d89602435611d6781611813565b6004355f526012835260405f209060018060a01b03165f5260205260405f2090565b54604051908152f35b3461037c57604036600319011261037c57600435611daf81611813565b60018060a01b03165f52600a60205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461037c57602036600319011261037c576004355f526015602052602060ff60405f2054166040519015158152f35b3461037c57602036600319011261037c57600435611e2a81613eaa565b5f81815260208190526040902060058101546001600160a01b03163303611e9a5761001691611e8c6002611e7c600f85611e6e61174260076112ab99015460ff1690565b6109db600b8201541561387f565b611e8581610618565b14156138e2565b5f52601160205260405f2090565b60405162461bcd60e51b815260206004820152602660248201527f4f6e6c792063726561746f722063616e20616c6c6f7720626964207769746864604482015265726177616c7360d01b6064820152608490fd5b600b54811015610ce257600b5f5260205f2001905f90565b8054821015610ce2575f5260205f2001905f90565b3461037c57604036600319011261037c57600435611f3881611813565b6001600160a01b03165f9081526009602052604090208054602435919082101561037c57602091611f6891611f06565b90546040519160031b1c8152f35b3461037c575f36600319011261037c576020604051610e108152f35b3461037c57602036600319011261037c576100166004356139b1565b3461037c575f36600319011261037c5760206040516103e88152f35b3461037c575f36600319011261037c57602060405162093a808152f35b60409061105c9392815281602082015201906105c6565b3461037c57602036600319011261037c576004355f52601060205260405f2061202b600182549201610da2565b906103ad60405192839283611fe7565b6020808201906020835283518092526040830192602060408460051b8301019501935f915b8483106120705750505050505090565b909192939495848061208e600193603f198682030187528a51611468565b9801930193019194939290612060565b3461037c575f36600319011261037c576120b6613e5b565b6120bf81611824565b906120cd6040519283610d81565b8082526120dc601f1991611824565b015f5b81811061217a57825f80600b54915b82811061210357604051806103ad868261203b565b61211961210f82611eee565b90549060031b1c90565b600861212c825f525f60205260405f2090565b0154421061213e575b506001016120ee565b6001919261215e612159612173935f525f60205260405f2090565b61303c565b61216882886127e3565b5261082e81876127e3565b9190612135565b602090612185612fc1565b828286010152016120df565b3461037c57602036600319011261037c576004355f52600e602052602060405f2054604051908152f35b3461037c575f36600319011261037c57604051630935e01b60e21b81523360048201526020906001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000168282602481845afa908115610a6d5761222f84926004945f916122a9575b50613c75565b604051635c975abb60e01b815292839182905afa908115610a6d5761225c925f9261228c575b5050613cc1565b6100165f8080806122704760195490612528565b61227b811515613d07565b335af1612286613d48565b50613d77565b6122a29250803d10610a6657610a588183610d81565b5f80612255565b6122c09150843d8611610a6657610a588183610d81565b5f612229565b3461037c57602036600319011261037c576004355f526017602052602060ff60405f2054166040519015158152f35b3461037c5761014036600319011261037c576001600160401b0360043581811161037c57612327903690600401611041565b60243582811161037c5761233f903690600401611041565b9060e43592831161037c5761235b610016933690600401610f38565b90612364611b09565b92610124359460c4359160a43591608435916064359160443591613db5565b3461037c575f36600319011261037c576020601954604051908152f35b3461037c575f36600319011261037c576020601a54604051908152f35b3461037c57602036600319011261037c576004355f526002602052606060405f20805490600260018201549101549060405192835260208301526040820152f35b60209060206040818301928281528551809452019301915f5b828110612425575050505090565b835185529381019392810192600101612417565b3461037c5760208060031936011261037c5760043561245781611813565b6001600160a01b03165f90815260096020908152604080832090518154808252918452828420928101949093905b8282106124a8576103ad8561249c81890382610d81565b604051918291826123fe565b835486529485019460019384019390910190612485565b156124c657565b60405162461bcd60e51b81526020600482015260136024820152722737ba103090223aba31b41030bab1ba34b7b760691b6044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b5f1981019190821161252357565b612501565b9190820391821161252357565b906103e89182810292818404149015171561252357565b8181029291811591840414171561252357565b8115612569570490565b634e487b7160e01b5f52601260045260245ffd5b61258681613eaa565b805f525f6020526125b360026125a4600f60405f200160ff90541690565b6125ad81610618565b146124bf565b6125d66125c7825f525f60205260405f2090565b915f52600760205260405f2090565b54600e82015480421115612639576008830154908142101561262f57926126246126299261261f60046126168861261061105c9a42612528565b94612528565b94015486612528565b61254c565b61255f565b90612528565b5050506004015490565b50905090565b8015612523575f190190565b1561265257565b60405162461bcd60e51b8152602060048201526011602482015270496e76616c696420706167652073697a6560781b6044820152606490fd5b6040519061014082018281106001600160401b03821117610d46576040525f61012083828152606060208201528260408201528260608201528260808201528260a08201528260c08201528260e0820152826101008201520152565b6040516126f381610d66565b5f815290565b9061270382611824565b6127106040519182610d81565b8281528092612721601f1991611824565b01905f5b82811061273157505050565b60209061273c61268b565b82828501015201612725565b906001820180921161252357565b906101f4820180921161252357565b9062278d00820180921161252357565b906020820180921161252357565b9190820180921161252357565b5f1981146125235760010190565b60843561105c81611813565b60443561105c81611aff565b805115610ce25760200190565b805160011015610ce25760400190565b805160021015610ce25760600190565b8051821015610ce25760209160051b010190565b9081602091031261037c575161105c81610f2e565b6040513d5f823e3d90fd5b1561281e57565b60405162461bcd60e51b815260206004820152602260248201527f4f6e6c79206d6f64657261746f722063616e2063616e63656c206c697374696e604482015261677360f01b6064820152608490fd5b1561287557565b60405162461bcd60e51b815260206004820152601a60248201527f41756374696f6e20697320616c726561647920736574746c65640000000000006044820152606490fd5b6128c381613eaa565b6128d4815f525f60205260405f2090565b906128ea610a30825f52601760205260405f2090565b61294e576128ff611d3a600784015460ff1690565b6129285750600e81015442106129235760080154421061291e57600290565b600190565b505f90565b61293f9150610a30905f52601560205260405f2090565b1561294957600290565b600390565b5050600490565b1561295c57565b60405162461bcd60e51b8152602060048201526015602482015274139bc81c195b991a5b99c81cd95d1d1b195b595b9d605a1b6044820152606490fd5b6129c1909392919382151580612a6d575b6129b39061264b565b5f52600d60205260405f2090565b906129cc8185612783565b9082548092105f14612a65576129e29085612783565b915b82851015612a53576129fe6129f98685612528565b6126f9565b94805b848110612a15575050508110156129235790565b80612a4c612a30612a2b61210f60019588611f06565b61415e565b612a3a8584612528565b90612a45828c6127e3565b52896127e3565b5001612a01565b5050509050612a606126e7565b905f90565b5080916129e4565b5060648311156129aa565b15612a7f57565b60405162461bcd60e51b815260206004820152601560248201527441756374696f6e206973206e6f742061637469766560581b6044820152606490fd5b15612ac357565b60405162461bcd60e51b8152602060048201526017602482015276105d58dd1a5bdb881a185cc81b9bdd081cdd185c9d1959604a1b6044820152606490fd5b15612b0957565b60405162461bcd60e51b8152602060048201526011602482015270105d58dd1a5bdb881a185cc8195b991959607a1b6044820152606490fd5b15612b4957565b60405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f7420626964206f6e20796f7572206f776e2061756374696f6e00006044820152606490fd5b15612b9557565b60405162461bcd60e51b815260206004820152602d60248201527f596f75206861766520616c726561647920706c61636564206120626964206f6e60448201526c103a3434b99030bab1ba34b7b760991b6064820152608490fd5b15612bf757565b60405162461bcd60e51b8152602060048201526018602482015277109a590818995b1bddc81b5a5b9a5b5d5b48185b5bdd5b9d60421b6044820152606490fd5b15612c3e57565b60405162461bcd60e51b815260206004820152600d60248201526c546f6f206d616e79206269647360981b6044820152606490fd5b15612c7a57565b60405162461bcd60e51b81526020600482015260196024820152784465706f7369742062656c6f772063757272656e742061736b60381b6044820152606490fd5b601f8211612cc857505050565b5f5260205f20906020601f840160051c83019310612d00575b601f0160051c01905b818110612cf5575050565b5f8155600101612cea565b9091508190612ce1565b91909182516001600160401b038111610d4657612d3181612d2b8454610ce7565b84612cbb565b602080601f8311600114612d7257508190612d639394955f92612d67575b50508160011b915f199060031b1c19161790565b9055565b015190505f80612d4f565b90601f19831695612d86855f5260205f2090565b925f905b888210612dc157505083600195969710612da9575b505050811b019055565b01515f1960f88460031b161c191690555f8080612d9f565b80600185968294968601518155019501930190612d8a565b8054600160401b811015610d4657612df990600192600182018155610cc9565b919091612f6a57825182546001600160a01b0319166001600160a01b03919091161782556020906020840151600184015560408401516002840155600383019160608501518051926001600160401b038411610d4657612e6384612e5d8754610ce7565b87612cbb565b602092601f8511600114612eef57505093612ed993612ea18460c095600595610de29a995f92612d675750508160011b915f199060031b1c19161790565b90555b608085015160048201550192612ed2612ec060a0830151151590565b859060ff801983541691151516179055565b0151151590565b815461ff00191690151560081b61ff0016179055565b929190601f19851690612f05875f5260205f2090565b945f915b838310612f535750505084600594610de2999894612ed9989460c09860019510612f3b575b505050811b019055612ea4565b01515f1960f88460031b161c191690555f8080612f2e565b848601518755958601959481019491810191612f09565b634e487b7160e01b5f525f60045260245ffd5b15612f8457565b60405162461bcd60e51b81526020600482015260156024820152744e6f2070726f636565647320617661696c61626c6560581b6044820152606490fd5b612fc9610f84565b905f825260606020830152606060408301525f60608301525f60808301525f60a08301525f60c08301525f60e08301525f6101008301525f6101208301525f6101408301525f6101608301525f6101808301525f6101a08301525f6101c08301525f6101e0830152565b61063182610618565b90610de261311d600f61304d610f84565b948054865261305e60018201610da2565b602087015261306f60028201610da2565b6040870152600381015460608701526004810154608087015260058101546001600160a01b031660a0870152600681015460c08701526130bf6130b6600783015460ff1690565b151560e0880152565b60088101546101008701526009810154610120870152600a8101546001600160a01b0316610140870152600b810154610160870152600c810154610180870152600d8101546101a0870152600e8101546101c0870152015460ff1690565b6101e08401613033565b1561312e57565b60405162461bcd60e51b815260206004820152602560248201527f4f6e6c792063726561746f722063616e20636f6e66696775726520736f667420604482015264636c6f736560d81b6064820152608490fd5b1561318857565b60405162461bcd60e51b815260206004820152602560248201527f536f667420636c6f7365206d75737420626520736574206265666f72652062696044820152646464696e6760d81b6064820152608490fd5b156131e257565b60405162461bcd60e51b815260206004820152602e60248201527f536f667420636c6f7365206973206e6f7420737570706f7274656420666f722060448201526d44757463682061756374696f6e7360901b6064820152608490fd5b1561324557565b60405162461bcd60e51b815260206004820152603660248201527f536f667420636c6f73652077696e646f7720616e6420657874656e73696f6e2060448201527506d7573742062652067726561746572207468616e20360541b6064820152608490fd5b156132b057565b60405162461bcd60e51b815260206004820152601a60248201527f4d6178696d756d20657874656e73696f6e20746f6f206c6f6e670000000000006044820152606490fd5b6133555f91949294613332613312825f52601460205260405f2090565b549761332c610b5d610a308b5f52601560205260405f2090565b82614a33565b613347610a08885f52601560205260405f2090565b5f52601460205260405f2090565b55156134bd576001600160a01b038116908115613494576001600160401b035f80516020615f768339815191529316916004613398865f525f60205260405f2090565b01548310613477575b6133d882600a6133b8885f525f60205260405f2090565b0180546001600160a01b0319166001600160a01b03909216919091179055565b82600d6133ec875f525f60205260405f2090565b015561340482610482875f52601260205260405f2090565b61340f848254612528565b905582613424865f52601360205260405f2090565b5560405183815285907f992535e802e8123e9eb931d979647edc6493f77f265deea35426b61dde47f78b90602090a3604080516001600160a01b039092168252602082019290925290819081015b0390a2565b9150600461348c855f525f60205260405f2090565b0154916133a1565b5050505f80516020615f768339815191526040518061347281905f602060408401938281520152565b50506134d46112ab825f52600560205260405f2090565b5f80516020615f76833981519152604051827fc88ff3d7f60f7d04b5c5741b3cca1e5ee5c07792c5089f10248a684dbd99c8cd5f80a25f80825260208201528060408101613472565b1561352457565b60405162461bcd60e51b815260206004820152602960248201527f596f752068617665206e6f7420706c61636564206120626964206f6e20746869604482015268399030bab1ba34b7b760b91b6064820152608490fd5b6040519061358882610d66565b5f8252565b919080518355600180930190602080910151938451916001600160401b038311610d46576135c5836135bf8654610ce7565b86612cbb565b602091601f84116001146135f75750508190612d639394955f92612d675750508160011b915f199060031b1c19161790565b95601f9291921984169661360e865f5260205f2090565b935f915b8983106136315750505083600195969710612da957505050811b019055565b838501518655948501949381019391810191613612565b999591969298949097938a1561371b578851156136d6577f1ded1d8269a942589abf96f4af2070c6b0488c7b4f6c481eecde6bd16bc0f3509961369b9861368d61357b565b61369561357b565b906150ec565b926136c76136a7610fb1565b8281528360208201526136c2865f52601060205260405f2090565b61358d565b61347260405192839283611fe7565b60405162461bcd60e51b815260206004820152601c60248201527f4d65746164617461205552492063616e6e6f7420626520656d707479000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601d60248201527f4d6574616461746120686173682063616e6e6f7420626520656d7074790000006044820152606490fd5b1561376757565b60405162461bcd60e51b815260206004820152601f60248201527f4f6e6c792063726561746f722063616e2063616e63656c2061756374696f6e006044820152606490fd5b156137b357565b60405162461bcd60e51b815260206004820152601e60248201527f496e636f72726563742063616e63656c6c6174696f6e2070656e616c747900006044820152606490fd5b156137ff57565b60405162461bcd60e51b8152602060048201526016602482015275105d58dd1a5bdb881a5cc81b9bdd081cd95d1d1b195960521b6044820152606490fd5b1561384457565b60405162461bcd60e51b81526020600482015260136024820152724e6f20726566756e6420617661696c61626c6560681b6044820152606490fd5b1561388657565b60405162461bcd60e51b815260206004820152602e60248201527f426964207769746864726177616c73206d75737420626520616c6c6f7765642060448201526d6265666f72652062696464696e6760901b6064820152608490fd5b156138e957565b60405162461bcd60e51b815260206004820152603060248201527f426964206368616e67657320617265206e6f7420737570706f7274656420666f60448201526f722044757463682061756374696f6e7360801b6064820152608490fd5b1561394e57565b60405162461bcd60e51b815260206004820152603560248201527f41756374696f6e20686173206e6f7420656e6465642079657420616e6420796f6044820152743a9030b932903737ba103a34329031b932b0ba37b960591b6064820152608490fd5b6139ba81613eaa565b6139cb815f525f60205260405f2090565b6139f8600782016139e0611742825460ff1690565b60088301544210801590613c50575b610a0890613947565b613a0182615498565b600b81015415613c295790610de291613a25610a30835f52600460205260405f2090565b15613c1c57613a4b6009820154613a44845f52600360205260405f2090565b549061558f565b80600f8301906002613a5e835460ff1690565b613a6781610618565b14613bdd575b50613b2d613af9613b3360058596613a87613b409761450b565b50600981019586546001613a9c835460ff1690565b613aa581610618565b14613b6e575b613abe90613ab76156c1565b908b615c82565b9687600c8401916001613adb8d8554613ad5615767565b91615c82565b988995613ae78561450b565b50613af18761450b565b505460ff1690565b613b0281610618565b03613b685750613b1a8c5f52600660205260405f2090565b555b550180549092906001600160a01b03165b906158ac565b546001600160a01b031690565b613b52825f52601660205260405f2090565b55610b626112ab825f52601560205260405f2090565b55613b1c565b50613b84610a308b5f52600460205260405f2090565b15613bc257613abe613bbb613ba18c5f52600660205260405f2090565b54613bb48d5f52600360205260405f2090565b5490614b15565b9050613aab565b613abe613bd78b5f52600660205260405f2090565b54613bbb565b613b409250613af9613b336005613c12613b2d94613c0c613c068b5f52600860205260405f2090565b54615c36565b90615613565b9550505050613a6d565b613c2461580d565b613a4b565b505f80516020615f768339815191526040518061347281905f602060408401938281520152565b506005830154610a0890613c6c906001600160a01b03166107ac565b331490506139ef565b15613c7c57565b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792061646d696e2063616e207265636f7665722066756e6473000000006044820152606490fd5b15613cc857565b60405162461bcd60e51b8152602060048201526017602482015276105d58dd1a5bdb9cc8185c99481b9bdd081c185d5cd959604a1b6044820152606490fd5b15613d0e57565b60405162461bcd60e51b81526020600482015260126024820152712737ba3434b733903a37903932b1b7bb32b960711b6044820152606490fd5b3d15613d72573d90613d5982610ff0565b91613d676040519384610d81565b82523d5f602084013e565b606090565b15613d7e57565b60405162461bcd60e51b815260206004820152600f60248201526e151c985b9cd9995c8819985a5b1959608a1b6044820152606490fd5b999897969594939291908a5115613e1e57805115613dd957613dd69a6150ec565b50565b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b5f905f600b8054915b828110613e7057505050565b815f525f6020828183200154825252600860405f2001544210613e96575b600101613e64565b93613ea2600191612790565b949050613e8e565b8015159081613ef6575b5015613ebc57565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fd5b9050601a54115f613eb4565b15613f0957565b60405162461bcd60e51b81526020600482015260166024820152752134b2103430b9903132b2b7103bb4ba34323930bbb760511b6044820152606490fd5b613ff190613f5481613eaa565b805f525f602052613f6e60ff600760405f20015416612a78565b805f525f602052613f87600860405f2001544210612b02565b613fa26002611e7c600f6109db855f525f60205260405f2090565b335f908152600a60205260409020613fc890613fc390610a3090849061129e565b61351d565b611aed613fdd825f52600160205260405f2090565b9161048233915f52600f60205260405f2090565b5061105c61400a611d3a600584015460ff9060081c1690565b613f02565b60019061401a6156c1565b906140248261450b565b5061402d615767565b6140368161450b565b5082600961404b845f525f60205260405f2090565b0155600c614060835f525f60205260405f2090565b0155614078600f6109db835f525f60205260405f2090565b9161408283610618565b83849314614120575b5061409e815f52600160205260405f2090565b905f925b6140ad575b50505050565b815483101561411b5783836140d7611d3a60056140cb859888610cc9565b50015460081c60ff1690565b6140e3575b01926140a2565b6141166141016140f38387610cc9565b50546001600160a01b031690565b8361410c8488610cc9565b500154908561469b565b6140dc565b6140a7565b614132825f52600660205260405f2090565b555f61408b565b60195490808203918211612523575f80808093610de295601955335af1612286613d48565b61416661268b565b5061105c61417b825f525f60205260405f2090565b6003810154600482015460058301546001600160a01b03166142066141a4600786015460ff1690565b6141fd600e87015493600888015495600b890154976141de60016141cc600f8d015460ff1690565b9b6141d5610fd0565b9e8f5201610da2565b60208d015260408c015260608b01526001600160a01b031660808a0152565b151560a0880152565b60c086015260e08501526101008401526101208301613033565b805f525f602052600760405f2001805460ff811661427f575b5050805f52601760205261425760405f20600160ff19825416179055565b33907f10ac9f0bb365b5d22d7bec500408692f23fdf83eadfec71615ef88b4c1134f0e5f80a3565b60ff1916905561428e81615498565b5f80614239565b60405190608082018281106001600160401b03821117610d4657604052600382526060366020840137565b805f525f602052600160ff600f60405f200154166142dd81610618565b03614395577f04af8379e43958395d81bd8cb9755caff006537044ead89d4eaeec09e13bd97761347261437161431b845f52600660205260405f2090565b545b614325614295565b9061432f826127b6565b52600c614343865f525f60205260405f2090565b015461434e826127c3565b52614361855f52601660205260405f2090565b5461436b826127d3565b52615d0e565b83614384825f52601460205260405f2090565b556040519081529081906020820190565b805f525f6020527f04af8379e43958395d81bd8cb9755caff006537044ead89d4eaeec09e13bd977613472614371600960405f20015461431d565b604051635c975abb60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610a6d575f9161445f575b5061442457565b60405162461bcd60e51b8152602060048201526013602482015272105d58dd1a5bdb9cc8185c99481c185d5cd959606a1b6044820152606490fd5b614478915060203d602011610a6657610a588183610d81565b5f61441d565b156145055760015b5f80516020615f5683398151915254604051639cd07acb60e01b815260ff9290921660048301525f6024830181905260209183916044918391906001600160a01b03165af1908115610a6d575f916144dc575090565b61105c915060203d6020116144fe575b6144f68183610d81565b8101906156a8565b503d6144ec565b5f614486565b61105c30826158ac565b5f80516020615f5683398151915254614561926020929091614541906107ac906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b8452339060048501615913565b03925af1908115610a6d575f916145e7575b505f80516020615f3683398151915254614597906107ac906001600160a01b031681565b803b1561037c57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610a6d576145d4575090565b806145e161105c92610d33565b80610372565b614600915060203d6020116144fe576144f68183610d81565b5f614573565b6020906001600160401b0380938181115f146146945750905b8015614682575b5f80516020615f56833981519152546040516304559f7160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610a6d575f916144dc575090565b50606461468d6156c1565b9050614626565b169061461f565b9161473661474e9161471c600c94865f525f6020526146ef600960405f2001546146c58186615944565b94895f525f602052600160ff600f60405f200154166146e381610618565b14614752575b85615c82565b6146f88161450b565b50600961470c895f525f60205260405f2090565b01556001600160a01b03166157ba565b8461472e875f525f60205260405f2090565b015491615c82565b926147408461450b565b505f525f60205260405f2090565b0155565b895f52600660205261477c61477560405f2054836147708282615944565b615c82565b8388615c82565b61478630826158ac565b8a5f52600660205260405f20556146e9565b905f6147a38361257d565b6147b5845f52600860205260405f2090565b54926001600160401b03821690801561493d575b5f80516020615f5683398151915254604051631391547f60e01b8152600481019290925260248201839052600160f81b6044830152909360209185916064918391906001600160a01b03165af1908115610a6d577f4bb65eafc39300799637ea6b8843b9bf08f3871561c2c128fa34e2e1f67bd2469461488961486d6148676148eb95613472985f9161491e575b5061486185615c36565b906159c8565b93615714565b60096148808a5f525f60205260405f2090565b01549084615c82565b6148928161450b565b5060096148a6895f525f60205260405f2090565b01556148c76148b4336157ba565b600c6148808a5f525f60205260405f2090565b6148d08161450b565b50600c6148e4895f525f60205260405f2090565b0155615613565b6148f48161450b565b50614907855f52600860205260405f2090565b556040805191825242602083015290918291820190565b614937915060203d6020116144fe576144f68183610d81565b5f614857565b5060206149486156c1565b90506147c9565b805f52600260205260405f2060405161496781610d4b565b81548152600260018301549260208301938452015491604082019283526008614997855f525f60205260405f2090565b01549151828115918215614a1f575b50506140a7576149b7905182612783565b9151808311614a17575b5081116149cc575050565b613472817f6e912a3a9105bdd2af817ba5adc14e6c127c1035b5b648faa29ca0d58ab8ff4e926008614a05865f525f60205260405f2090565b01556040519081529081906020820190565b91505f6149c1565b614a2b91925042612783565b10825f6149a6565b90815f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d026020908060205260405f205415614b0357835f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210614aec57505050509181614aab611d3a93614ab0950382610d81565b615b33565b614ada577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b835485529384019360019384019390910190614a8c565b60405163d66ca67560e01b8152600490fd5b908115614b89575b8015614b77575b602090606460018060a01b035f80516020615f568339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af1908115610a6d575f916144dc575090565b506020614b826156c1565b9050614b24565b9050614b936156c1565b90614b1d565b90815f525f602052600160ff600f60405f20015416614bb781610618565b03614cd057815f525f602052600c60405f200154614bd4336157ba565b8115614cc0575b8015614cae575b602090606460018060a01b035f80516020615f568339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af18015610a6d57614c8a92614c71925f92614c8d575b50614c58614c4f865f52600660205260405f2090565b5491338761469b565b614c6a855f52600660205260405f2090565b5491615c82565b91614c7b8361450b565b505f52600660205260405f2090565b55565b614ca791925060203d6020116144fe576144f68183610d81565b905f614c39565b506020614cb9615767565b9050614be2565b9050614cca615767565b90614bdb565b610de291339061469b565b15614ce257565b60405162461bcd60e51b815260206004820152601060248201526f496e76616c69642063617465676f727960801b6044820152606490fd5b15614d2157565b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b15614d7857565b60405162461bcd60e51b815260206004820152601960248201527814dd185c9d081d1a5b59481a5cc81a5b881d1a19481c185cdd603a1b6044820152606490fd5b15614dc057565b606460405162461bcd60e51b815260206004820152602060248201527f53746172742074696d6520746f6f2066617220696e20746865206675747572656044820152fd5b15614e0b57565b60405162461bcd60e51b8152602060048201526012602482015271111d5c985d1a5bdb881d1bdbc81cda1bdc9d60721b6044820152606490fd5b15614e4c57565b60405162461bcd60e51b81526020600482015260116024820152704475726174696f6e20746f6f206c6f6e6760781b6044820152606490fd5b15614e8c57565b60405162461bcd60e51b815260206004820152602360248201527f5374617274207072696365206d75737420657863656564206d696e696d756d20604482015262189a5960ea1b6064820152608490fd5b15614ee457565b60405162461bcd60e51b81526020600482015260146024820152730a6e8c2e4e840e0e4d2c6ca40e8dede40d0d2ced60631b6044820152606490fd5b90614f2a81610618565b60ff80198354169116179055565b600f6101e0610de29380518455614f56602082015160018601612d0a565b614f67604082015160028601612d0a565b606081015160038501556080810151600485015560a08101516005850180546001600160a01b0319166001600160a01b0390921691909117905560c08101516006850155614fd0614fbb60e0830151151590565b600786019060ff801983541691151516179055565b61010081015160088501556101208101516009850155610140810151600a850180546001600160a01b0319166001600160a01b03909216919091179055610160810151600b850155610180810151600c8501556101a0810151600d8501556101c0810151600e85015501519161504583610618565b01614f20565b600b54600160401b811015610d46576001810180600b55811015610ce257600b5f527f0175b7a638427703f0dbe7bb9bbf987a2551717b34e79f33b5b1008d1fa01db90155565b805490600160401b821015610d4657816150b4916001612d6394018155611f06565b819391549060031b91821b915f19901b19161790565b6150e2604092959493956060835260608301906105c6565b9460208201520152565b9895919790949692939a999a6151006143d0565b604051636cef393d60e01b8152600481018a90526020816024816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa8015610a6d5761515d915f91615479575b50614cdb565b615168851515614d1a565b80615473575042965b8061546d575062093a809a5b61518942891015614d71565b61519d61519542612765565b891115614db9565b6151ab610e108d1015614e04565b6151ba62278d008d1115614e45565b6151c387610618565b600287148061544a575b601a5480996151db82612790565b601a558c829f6151eb9083612783565b996151f46156c1565b906151fe8261450b565b50615207615767565b926152118461450b565b5061521a610f84565b95865260208601526040850152606084018e9052608084018a90523360a08501524260c0850152600160e08501528a61010085015261012084015261014083015f905261016083015f90526101808301526101a082015f90526101c0820152886101e082019061528991613033565b61529a8a5f525f60205260405f2090565b906152a491614f38565b6152ad88610618565b600188147ff228d4fb833eca575bcb860760621a5fcc1873417efe8dff13e2bdad7c120bd4986152e09161542057610618565b6153e2575b5080615389575b5050335f90815260096020526040902061530d91508590615092565b615092565b61532061531b601b54612790565b601b55565b6153298461504b565b600b5461533e855f52600c60205260405f2090565b5561535584615308875f52600d60205260405f2090565b615367855f52600e60205260405f2090565b6153718154612790565b90556153846040519283923398846150ca565b0390a4565b61539e9261539891369161100b565b90614515565b6153a78161450b565b506153b233826158ac565b6153c4855f52600360205260405f2090565b556153da6112ab855f52600460205260405f2090565b5f80806152ec565b6153ea615860565b6153f38161450b565b50615406895f52600860205260405f2090565b55615419885f52600760205260405f2090565b555f6152e5565b6154286156c1565b6154318161450b565b506154448c5f52600660205260405f2090565b55610618565b615455868311614e85565b6154686001600160401b03831115614edd565b6151cd565b9a61517d565b96615171565b615492915060203d602011610a6657610a588183610d81565b5f615157565b805f52600c60205260405f2054600b54905f199182810181811161252357811115610ce257600b5f5282017f0175b7a638427703f0dbe7bb9bbf987a2551717b34e79f33b5b1008d1fa01db9015461550f90806154ff6150b46154fa86612515565b611eee565b90555f52600c60205260405f2090565b55600b5490811561557b578082019282841015610ce257615571935f61556193600395600b835260208320010155600b555f615553825f52600c60205260405f2090565b555f525f60205260405f2090565b01545f52600e60205260405f2090565b612d63815461263f565b634e487b7160e01b5f52603160045260245ffd5b908115615603575b80156155f1575b602090606460018060a01b035f80516020615f568339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610a6d575f916144dc575090565b5060206155fc6156c1565b905061559e565b905061560d6156c1565b90615597565b61567591602091801561569a575b811561568a575b5f80516020615f56833981519152546040516363a2db2960e01b8152600481019290925260248201929092525f60448201819052909384926001600160a01b031691839182906064820190565b03925af1908115610a6d575f916144dc575090565b9050615694615860565b90615628565b506156a3615860565b615621565b9081602091031261037c575190565b6054111561062257565b5f80516020615f5683398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610a6d575f916144dc575090565b5f80516020615f5683398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610a6d575f916144dc575090565b5f80516020615f5683398151915254604051639cd07acb60e01b81525f60048201819052600760248301529091602091839160449183916001600160a01b03165af1908115610a6d575f916144dc575090565b5f80516020615f5683398151915254604051639cd07acb60e01b8152600481019290925260076024830152602090829060449082905f906001600160a01b03165af1908115610a6d575f916144dc575090565b5f80516020615f5683398151915254604051639cd07acb60e01b8152600160048201525f602482018190529091602091839160449183916001600160a01b03165af1908115610a6d575f916144dc575090565b5f602060018060a01b035f80516020615f568339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610a6d575f916144dc575090565b5f80516020615f36833981519152546001600160a01b031691823b1561037c57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610a6d5761590a5750565b610de290610d33565b939261593f90600593606093875260018060a01b031660208701526080604087015260808601906105c6565b930152565b9081156159b8575b80156159a6575b602090606460018060a01b035f80516020615f568339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115610a6d575f916144dc575090565b5060206159b16156c1565b9050615953565b90506159c26156c1565b9061594c565b615675916020918015615a3a575b8115615a2a575b5f80516020615f568339815191525460405163d99882d560e01b8152600481019290925260248201929092525f60448201819052909384926001600160a01b031691839182906064820190565b9050615a34615860565b906159dd565b50615a43615860565b6159d6565b90615a5282610ff0565b615a5f6040519182610d81565b8281528092615a70601f1991610ff0565b0190602036910137565b9081518082526020808093019301915f5b828110615a99575050505090565b835185529381019392810192600101615a8b565b9190615ac4615ad391606085526060850190615a7a565b602092848203848601526105c6565b9160408184039101528251908183528083019281808460051b8301019501935f915b848310615b055750505050505090565b9091929394958480615b23600193601f198682030187528a516105c6565b9801930193019194939290615af5565b80515f905f905b808210615be757505091602091615b53615bb994612775565b615b5c81615a48565b906024858301377fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea602545f90615b9b906107ac906001600160a01b031681565b9260405196879586948593632c027b1360e21b855260048501615aad565b03925af1908115610a6d575f91615bce575090565b61105c915060203d602011610a6657610a588183610d81565b90916009615bf584866127e3565b51601e1a615c02816156b7565b615c0b816156b7565b1015615c2457615c1c600191612775565b920190615b3a565b60405163ce54a8d160e01b8152600490fd5b5f80516020615f5683398151915254604051630f51ccfb60e41b81526004810192909252602090829060249082905f906001600160a01b03165af1908115610a6d575f916144dc575090565b9060646020925f60018060a01b035f80516020615f5683398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610a6d575f916144dc575090565b90602061105c928181520190615a7a565b9291615cfe918452606060208501526060840190615a7a565b916040634491884560e11b910152565b7f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0180545f80516020615f36833981519152549093929190615d59906107ac906001600160a01b031681565b803b1561037c575f6040518092637d6e912360e11b8252818381615d808960048301615cd4565b03925af18015610a6d57615e4e575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0054615dc6906107ac906001600160a01b031681565b90813b1561037c575f6040518093633263b83b60e01b8252818381615def898c60048401615ce5565b03925af18015610a6d57610de293615e1793615e1192615e3b575b5086615e61565b54612790565b7f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0155565b806145e1615e4892610d33565b5f615e0a565b806145e1615e5b92610d33565b5f615d8f565b805f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d026020918160205260405f2054615f23575f5260205260405f20908251926001600160401b038411610d4657600160401b8411610d46578254848455808510615efd575b506020615eda9101925f5260205f2090565b905f5b848110615eeb575050505050565b83518382015592810192600101615edd565b835f528460205f2091820191015b818110615f185750615ec8565b5f8155600101615f0b565b604051633f06d22b60e01b8152600490fdfeed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601d2aa34a4fdbbc6dff6a3e56f46e0f3ae2a31d7785ff3487aa5c95c642acea501a164736f6c6343000818000a";
 
 type ConfidentialAuctionConstructorParams =
   | [signer?: Signer]
@@ -653,12 +1823,26 @@ export class ConfidentialAuction__factory extends ContractFactory {
   }
 
   override getDeployTransaction(
+    _categoryRegistry: AddressLike,
+    _governance: AddressLike,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
+    return super.getDeployTransaction(
+      _categoryRegistry,
+      _governance,
+      overrides || {}
+    );
   }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
+  override deploy(
+    _categoryRegistry: AddressLike,
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      _categoryRegistry,
+      _governance,
+      overrides || {}
+    ) as Promise<
       ConfidentialAuction & {
         deploymentTransaction(): ContractTransactionResponse;
       }
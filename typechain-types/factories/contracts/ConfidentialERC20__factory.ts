@@ -0,0 +1,415 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConfidentialERC20,
+  ConfidentialERC20Interface,
+} from "../../contracts/ConfidentialERC20";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_symbol",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "_decimals",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "Mint",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_spender",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "_amount",
+        type: "bytes32",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "_amount",
+        type: "bytes32",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200049e57620014ab803803806200001d81620004c2565b92833981016060828203126200049e5781516001600160401b03908181116200049e57826200004e918501620004e8565b90602092838501518281116200049e576040916200006e918701620004e8565b9401519260ff84168094036200049e575f60606200008b620004a2565b82815282848201528260408201520152620000a5620004a2565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d5958085830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0091825416179055825190828211620003bc575f54916001948584811c9416801562000493575b838510146200039d578190601f9485811162000440575b508390858311600114620003dc575f92620003d0575b50505f19600383901b1c191690851b175f555b8551928311620003bc5783548481811c91168015620003b1575b828210146200039d5782811162000355575b5080918311600114620002f05750819293945f92620002e4575b50505f19600383901b1c191690821b1790555b600280546001600160a81b0319169091173360081b610100600160a81b0316179055604051610f529081620005598239f35b015190505f806200029f565b90601f19831695845f52825f20925f905b8882106200033d575050838596971062000324575b505050811b019055620002b2565b01515f1960f88460031b161c191690555f808062000316565b80878596829496860151815501950193019062000301565b845f52815f208380860160051c82019284871062000393575b0160051c019085905b8281106200038757505062000285565b5f815501859062000377565b925081926200036e565b634e487b7160e01b5f52602260045260245ffd5b90607f169062000273565b634e487b7160e01b5f52604160045260245ffd5b015190505f8062000246565b90879350601f198316915f8052855f20925f5b8782821062000429575050841162000410575b505050811b015f5562000259565b01515f1960f88460031b161c191690555f808062000402565b8385015186558b97909501949384019301620003ef565b9091505f8052835f208580850160051c82019286861062000489575b918991869594930160051c01915b8281106200047a57505062000230565b5f81558594508991016200046a565b925081926200045c565b93607f169362000219565b5f80fd5b60405190608082016001600160401b03811183821017620003bc57604052565b6040519190601f01601f191682016001600160401b03811183821017620003bc57604052565b919080601f840112156200049e5782516001600160401b038111620003bc576020906200051e601f8201601f19168301620004c2565b928184528282870101116200049e575f5b818110620005445750825f9394955001015290565b85810183015184820184015282016200052f56fe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde03146105d9575080632893c5b01461041e578063313ce567146103fd57806370a08231146103c65780637b7e0a5a146103995780637d32e7bd146103645780638da5cb5b1461033857806395d89b41146102435780639a094352146101e0578063b32c100114610139578063b3c06f50146100f05763dd62ed3e146100a3575f80fd5b346100ec57806003193601126100ec576020916100be610707565b6100c661071d565b6001600160a01b039182165f908152928552838320911682528352819020549051908152f35b5f80fd5b50346100ec5760603660031901126100ec57602090610132610110610707565b61011861071d565b6044359161012d61012884610b78565b6107eb565b610c00565b9051908152f35b5090346100ec5761014936610760565b6001600160a01b0384169485156101a357509161016f6101759261017c959436916107a6565b90610837565b9033610cd1565b337ff37f546c25e850257cc0c94f92bec94a17e2f0e884ddda268a25d8144b70eb6a5f80a3005b606490602088519162461bcd60e51b83528201526017602482015276417070726f766520746f207a65726f206164647265737360481b6044820152fd5b50346100ec5760803660031901126100ec576101fa610707565b9161020361071d565b92606435936001600160401b0385116100ec5761023d61023561022e61013295602098369101610733565b36916107a6565b604435610837565b91610c00565b50346100ec575f3660031901126100ec578051905f90600191600154928360011c906001851694851561032e575b602095868410811461031b578388528794939291879082156102f95750506001146102bc575b50506102b892916102a99103856106a8565b519282849384528301906106c9565b0390f35b9085925060015f52825f20915f925b8284106102e157505050820101816102a9610297565b8054848a0186015288955087949093019281016102cb565b60ff19168682015292151560051b850190920192508391506102a99050610297565b602289634e487b7160e01b5f525260245ffd5b91607f1691610271565b50346100ec575f3660031901126100ec57600254905160089190911c6001600160a01b03168152602090f35b50346100ec57806003193601126100ec57602090610132610383610707565b6024359061039361012883610b78565b33610939565b50346100ec5760209061013261016f6103bf6103b436610760565b9491929436916107a6565b9033610939565b50346100ec5760203660031901126100ec576020906001600160a01b036103eb610707565b165f5260038252805f20549051908152f35b50346100ec575f3660031901126100ec5760209060ff600254169051908152f35b5090346100ec57816003193601126100ec57610438610707565b916024356001600160401b0381168091036100ec576002546001600160a01b03929060081c831633036105a15782851694851561056757855f526020809460038252835f2054908115610553575b6064905f80516020610f268339815191525416975f8651998a94859363022f65e760e31b8552840152886024840152600160f81b60448401525af1948515610549575f95610518575b50936105067f9109de113672aaca72ede8bc906f7aafabee865311ac020fb15c71edf94a0a01956105003084610d12565b82610d12565b855f5260038452815f205551908152a2005b94508385813d8311610542575b61052f81836106a8565b810103126100ec579351936105066104cf565b503d610525565b82513d5f823e3d90fd5b9050606461055f610eb2565b919050610486565b815162461bcd60e51b815260208187015260146024820152734d696e7420746f207a65726f206164647265737360601b6044820152606490fd5b5162461bcd60e51b8152602081850152601360248201527213db9b1e481bdddb995c8818d85b881b5a5b9d606a1b6044820152606490fd5b919050346100ec575f3660031901126100ec575f905f549160018360011c9060018516948515610677575b602095868410811461031b578388528794939291879082156102f957505060011461063b5750506102b892916102a99103856106a8565b908592505f8052825f20915f925b82841061065f57505050820101816102a9610297565b8054848a018601528895508794909301928101610649565b91607f1691610604565b6001600160401b03811161069457604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b0382111761069457604052565b91908251928382525f5b8481106106f3575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016106d3565b600435906001600160a01b03821682036100ec57565b602435906001600160a01b03821682036100ec57565b9181601f840112156100ec578235916001600160401b0383116100ec57602083818601950101116100ec57565b60606003198201126100ec576004356001600160a01b03811681036100ec579160243591604435906001600160401b0382116100ec576107a291600401610733565b9091565b9291926001600160401b03821161069457604051916107cf601f8201601f1916602001846106a8565b8294818452818301116100ec578281602093845f960137010152565b156107f257565b60405162461bcd60e51b815260206004820152601d60248201527f416d6f756e74206e6f7420616c6c6f77656420666f722063616c6c65720000006044820152606490fd5b60206108879260018060a01b0392835f80516020610f268339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906106c9565b6005606483015203925af19182156108fa575f92610905575b505f80516020610f068339815191525416803b156100ec57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156108fa576108ee575090565b6108f790610681565b90565b6040513d5f823e3d90fd5b9091506020813d602011610931575b81610921602093836106a8565b810103126100ec5751905f6108a0565b3d9150610914565b6001600160a01b0380831692918315610b385781811692835f526020906003825260409261096a845f205489610d7b565b9083610974610eb2565b9960645f80516020610f26833981519152945f8a8754168a519e8f958694637702dcff60e01b86526004860152602485015260448401525af1988915610b2e575f99610aff575b50865f52600384526109de6109d38a875f2054610e2e565b916105003084610d12565b865f5260038452845f2055865f52835f20549488908615610ae8575b908492918a15610ad5575b606491925416965f8751988994859363022f65e760e31b8552600485015260248401528160448401525af1938415610acb575f94610a98575b5090610a56600392610a503087610d12565b85610d12565b855f52525f2055610a673084610d12565b610a713384610d12565b7f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed825f80a390565b918091945082813d8311610ac4575b610ab181836106a8565b810103126100ec57905192610a56610a3e565b503d610aa7565b83513d5f823e3d90fd5b60649150610ae1610eb2565b9150610a05565b9550908391610af5610eb2565b96909192506109fa565b9098508381813d8311610b27575b610b1781836106a8565b810103126100ec5751975f6109bb565b503d610b0d565b85513d5f823e3d90fd5b60405162461bcd60e51b81526020600482015260186024820152775472616e7366657220746f207a65726f206164647265737360401b6044820152606490fd5b5f80516020610f06833981519152546040516382027b6d60e01b81526004810192909252336024830152602090829060449082906001600160a01b03165afa9081156108fa575f91610bc8575090565b90506020813d602011610bf8575b81610be3602093836106a8565b810103126100ec575180151581036100ec5790565b3d9150610bd6565b60018060a01b03918282165f526020926004845260405f20335f5284528360405f2054956064610c308883610d7b565b5f610c39610eb2565b955f80516020610f2683398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19384156108fa575f94610c9d575b5050610c8e6108f793610c959284610939565b8094610e2e565b903390610cd1565b90809450813d8311610cca575b610cb481836106a8565b810103126100ec57915191610c8e610c95610c7b565b503d610caa565b610cdb3084610d12565b610ce58184610d12565b610cef8284610d12565b60018060a01b038091165f52600460205260405f2091165f5260205260405f2055565b5f80516020610f06833981519152546001600160a01b031691823b156100ec57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108fa57610d705750565b610d7990610681565b565b908115610e1e575b8015610e0c575b602090606460018060a01b035f80516020610f268339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af19081156108fa575f91610ddd575090565b90506020813d602011610e04575b81610df8602093836106a8565b810103126100ec575190565b3d9150610deb565b506020610e17610eb2565b9050610d8a565b9050610e28610eb2565b90610d83565b908115610ea2575b8015610e90575b602090606460018060a01b035f80516020610f268339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156108fa575f91610ddd575090565b506020610e9b610eb2565b9050610e3d565b9050610eac610eb2565b90610e36565b5f80516020610f2683398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156108fa575f91610ddd57509056feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a164736f6c6343000818000a";
+
+type ConfidentialERC20ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialERC20ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialERC20__factory extends ContractFactory {
+  constructor(...args: ConfidentialERC20ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _name: string,
+    _symbol: string,
+    _decimals: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      _name,
+      _symbol,
+      _decimals,
+      overrides || {}
+    );
+  }
+  override deploy(
+    _name: string,
+    _symbol: string,
+    _decimals: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_name, _symbol, _decimals, overrides || {}) as Promise<
+      ConfidentialERC20 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ConfidentialERC20__factory {
+    return super.connect(runner) as ConfidentialERC20__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialERC20Interface {
+    return new Interface(_abi) as ConfidentialERC20Interface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialERC20 {
+    return new Contract(address, _abi, runner) as unknown as ConfidentialERC20;
+  }
+}
@@ -0,0 +1,1077 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConfidentialMultiUnitAuction,
+  ConfidentialMultiUnitAuctionInterface,
+} from "../../contracts/ConfidentialMultiUnitAuction";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "_governance",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnsupportedHandleType",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "AuctionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "units",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "minimumPrice",
+        type: "uint64",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "clearingPrice",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "unitsSold",
+        type: "uint64",
+      },
+    ],
+    name: "AuctionEnded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+    ],
+    name: "BidSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "PaymentRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "ProceedsClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RefundWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "SettlementRequested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BIDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_START_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctionBids",
+    outputs: [
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "quantity",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "unitPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctionProceeds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "units",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "minimumPrice",
+        type: "uint64",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "bidCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "clearingPrice",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "unitsSold",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bidDeposits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bidSettled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cancelled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "claimProceeds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_description",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_category",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "_units",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "_minimumPrice",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "_startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_duration",
+        type: "uint256",
+      },
+    ],
+    name: "createAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "endAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_bidder",
+        type: "address",
+      },
+    ],
+    name: "getAllocation",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuction",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "units",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "minimumPrice",
+            type: "uint64",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bidCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "clearingPrice",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "unitsSold",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct ConfidentialMultiUnitAuction.Auction",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuctionBidCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "governance",
+    outputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "hasPlacedBid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hasUserBid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextAuctionId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedQuantity",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedUnitPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "retrySettlement",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "_clearingPrice",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "_unitsSold",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes[]",
+        name: "_signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "revealClearingPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "_payment",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes[]",
+        name: "_signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "revealPayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "settleBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "settlementPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalAuctions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346200025f57601f620042f838819003918201601f19168301916001600160401b0383118484101762000263578084926020946040528339810103126200025f57516001600160a01b0381168082036200025f575f60606200006262000277565b82815282602082015282604082015201526200007d62000277565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d00918254161790556001600d555f600e55156200021a5760805260405161406090816200029882396080518181816103920152818161093a01528181610c2f0152818161162e01526121da0152f35b60405162461bcd60e51b815260206004820152601960248201527f476f7665726e616e63652063616e6e6f74206265207a65726f000000000000006044820152606490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620002635760405256fe60806040526004361015610011575f80fd5b5f3560e01c806301a31544146101ea57806316002f4a146101e55780631c6dec04146101e05780632158d95a146101db57806327e02676146101d6578063305a67a8146101d157806330745c50146101cc5780633b5fe7f3146101c7578063571a26a0146101c25780635aa6e675146101bd5780635f93de49146101b857806374f75593146101b3578063783e9f71146101ae57806378bd7935146101a95780638977427a146101905780638dc18265146101a45780639d1534951461019f5780639e7cc1811461019a578063a65ed0d614610177578063ace2532014610195578063b1724b4614610190578063b6a6d1771461018b578063b9a2de3a14610186578063bafd7f7714610181578063c297fa0f1461017c578063c75c99e614610177578063cbd4c91f14610172578063d5d5f8e11461016d578063e050be57146101685763fc52848214610163575f80fd5b61193a565b61190b565b6118f0565b6115d0565b611392565b6115b3565b611446565b61142a565b61140e565b611033565b6113df565b611352565b611245565b611050565b610f77565b610da8565b610d19565b610c90565b610c1a565b610b67565b61089a565b6106f7565b610358565b6102f1565b6102a8565b61027e565b610261565b610209565b602435906001600160a01b038216820361020557565b5f80fd5b3461020557604036600319011261020557602060ff61024b6102296101ef565b6004355f52600b845260405f209060018060a01b03165f5260205260405f2090565b54166040519015158152f35b5f91031261020557565b34610205575f366003190112610205576020600e54604051908152f35b34610205576020366003190112610205576004355f526009602052602060405f2054604051908152f35b3461020557602036600319011261020557600435801515806102e6575b6102ce90611957565b5f525f6020526020600960405f200154604051908152f35b50600d5481106102c5565b346102055760403660031901126102055760206103446004356103126101ef565b908015158061034d575b61032590611957565b5f526003835260405f209060018060a01b03165f5260205260405f2090565b54604051908152f35b50600d54811061031c565b3461020557602036600319011261020557604051637d379c9b60e11b81523360048083019190915235906020816024816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa80156104f6576103cb915f916104c7575b506119bb565b801515806104bc575b6103dd90611957565b6103fb60066103f3835f525f60205260405f2090565b015460ff1690565b8015610495575b61040b90611a12565b61042c6006610421835f525f60205260405f2090565b01805460ff19169055565b61044b610441825f52600560205260405f2090565b805460ff19169055565b61046d610460825f52600c60205260405f2090565b805460ff19166001179055565b33907f10ac9f0bb365b5d22d7bec500408692f23fdf83eadfec71615ef88b4c1134f0e5f80a3005b5061040b6104b56104ae835f52600560205260405f2090565b5460ff1690565b9050610402565b50600d5481106103d4565b6104e9915060203d6020116104ef575b6104e181836105a0565b810190611998565b5f6103c5565b503d6104d7565b6119b0565b602435906001600160401b038216820361020557565b608435906001600160401b038216820361020557565b604435906001600160401b038216820361020557565b634e487b7160e01b5f52604160045260245ffd5b6101c081019081106001600160401b0382111761056d57604052565b61053d565b6001600160401b03811161056d57604052565b604081019081106001600160401b0382111761056d57604052565b90601f801991011681019081106001600160401b0382111761056d57604052565b604051906105ce82610585565b565b604051906105ce82610551565b60405190608082018281106001600160401b0382111761056d57604052565b6001600160401b03811161056d5760051b60200190565b6001600160401b03811161056d57601f01601f191660200190565b92919261063a82610613565b9161064860405193846105a0565b829481845281830111610205578281602093845f960137010152565b9080601f830112156102055781359160209161067f846105fc565b93604061068f60405196876105a0565b818652848087019260051b8501019383851161020557858101925b8584106106bb575050505050505090565b83356001600160401b03811161020557820185603f820112156102055787916106ec8783878680960135910161062e565b8152019301926106aa565b34610205576060366003190112610205576004356107136104fb565b906001600160401b03604435818111610205577fe152fe384870d25a8d821270b8b8043fada748f138ab7f8512af64c65c7261369161083f61075c61085b933690600401610664565b91610777610772875f52600a60205260405f2090565b611a5e565b906107d26107c760208401986107b960018060a01b03976107b38c8a6107a3825160018060a01b031690565b1615159081610860575b50611a95565b82612bc9565b5f52600a60205260405f2090565b60015f918281550155565b61080b6104606107eb84515f52600b60205260405f2090565b89516001600160a01b03165b60018060a01b03165f5260205260405f2090565b61082e6108246107eb84515f52600860205260405f2090565b9189168254611aea565b90555194516001600160a01b031690565b6040516001600160401b03909616865216939081906020820190565b0390a3005b61089491506104ae610890916107f76108828d515f52600b60205260405f2090565b91516001600160a01b031690565b1590565b8d6107ad565b34610205576020366003190112610205576004356108db6108cf60046108c7845f525f60205260405f2090565b015460601c90565b6001600160a01b031690565b33148015610915575b906108f161091392611afc565b61090e6109096104ae835f52600560205260405f2090565b611b5c565b612cab565b005b506040516335d2155560e11b8152336004820152906020826024816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa9182156104f657610913926108f1915f9161097c575b50919250506108e4565b610995915060203d6020116104ef576104e181836105a0565b5f610972565b90600182811c921680156109c9575b60208310146109b557565b634e487b7160e01b5f52602260045260245ffd5b91607f16916109aa565b9060405191825f82546109e58161099b565b908184526020946001916001811690815f14610a515750600114610a13575b5050506105ce925003836105a0565b5f90815285812095935091905b818310610a395750506105ce93508201015f8080610a04565b85548884018501529485019487945091830191610a20565b925050506105ce94925060ff191682840152151560051b8201015f8080610a04565b91908251928382525f5b848110610a9d575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610a7d565b949e9d9c9a989694809c9a9896949392916101c09182918152602001528c01610ad991610a73565b8b810360408d0152610aea91610a73565b8a810360608c0152610afb91610a73565b63ffffffff909c1660808a01526001600160401b031660a08901526001600160a01b031660c088015260e087015215156101008601526101208501526101408401526101608301526001600160401b03166101808201526101a0016105ce916001600160401b03169052565b34610205576020366003190112610205576004355f525f60205260405f2080549060018101610b95906109d3565b90610ba2600282016109d3565b90610baf600382016109d3565b926004820154916001600160401b0360058201546006830154610bd29060ff1690565b600784015491600885015493600986015495600a0154976040519b8c9b8c9b84808d60401c169c169a8460601c958560201c169463ffffffff1693610c169e610ab1565b0390f35b34610205575f366003190112610205576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b634e487b7160e01b5f52603260045260245ffd5b8054821015610c8b575f5260205f209060021b01905f90565b610c5e565b34610205576040366003190112610205576024356004355f52600160205260405f20805482101561020557608091610cc791610c72565b5060018060a01b03815416906001810154906003600282015491015491604051938452602084015260408301526060820152f35b9080601f8301121561020557816020610d169335910161062e565b90565b346102055760e0366003190112610205576001600160401b0360043581811161020557610d4a903690600401610cfb565b9060243581811161020557610d63903690600401610cfb565b9060443590811161020557610d7c903690600401610cfb565b916064359263ffffffff841684036102055761091393610d9a610511565b9160c4359460a435946121bc565b346102055760203660031901126102055760043580151580610e67575b610dce90611957565b5f81815260208190526040902060040154610ded9060601c33146123bf565b610dff815f52600960205260405f2090565b5490610e0c82151561240b565b5f81815260096020526040812055610e335f80808086335af1610e2d61244f565b5061247e565b60405191825233917f59ef3b0aa7753fe308ca62cf762e6595575b067925f4c6a9e8c52351e0bfa58890806020810161085b565b50600d548110610dc5565b610d169060208152825160208201526020830151610ed2610ea16101c0928360408601526101e0850190610a73565b610ebd604087015191601f199283878303016060880152610a73565b90606087015190858303016080860152610a73565b608085015163ffffffff1660a08401529360a08101516001600160401b031660c084015260c08101516001600160a01b031660e084015260e08101516101009081850152810151610f2a610120918286019015159052565b81015161014090818501528101516101609081850152810151610180908185015281015190610f676101a092838601906001600160401b03169052565b01516001600160401b0316910152565b3461020557602036600319011261020557610c1661101c6110176004355f6101a0604051610fa481610551565b82815260606020820152606060408201526060808201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201528261016082015282610180820152015280151580611028575b61100a90611957565b5f525f60205260405f2090565b6124bc565b60405191829182610e72565b50600d548110611001565b34610205575f36600319011261020557602060405162278d008152f35b34610205576020366003190112610205576004358015158061123a575b61107690611957565b61108f61089060066103f3845f525f60205260405f2090565b80611217575b61109e906125a9565b6110be6110b96108906104ae845f52600c60205260405f2090565b6125ee565b335f9081526002602052604090206110ea906110e5906104ae90845f5260205260405f2090565b612631565b61112361111e6108906104ae33611109865f52600b60205260405f2090565b9060018060a01b03165f5260205260405f2090565b612670565b61118c61116a61113f33611109855f52600360205260405f2090565b54611164600a611156865f525f60205260405f2090565b01546001600160401b031690565b90612d5b565b61117381612e05565b5061117c6126b2565b90611186826126cc565b5261373c565b906111e36111986105c1565b8281523360208201526111b3845f52600a60205260405f2090565b8151815560209091015160019190910180546001600160a01b0319166001600160a01b0392909216919091179055565b60405191825233917f2f017ff2c984016167f218eec0825f09823e2f1055c86c1a5a96c09ebf1e1e7590806020810161085b565b5061109e6112336108906104ae845f52600560205260405f2090565b9050611095565b50600d54811061106d565b346102055760203660031901126102055760043580151580611347575b61126b90611957565b6112956104ae611283835f52600b60205260405f2090565b335f9081526020919091526040902090565b8015611327575b6112a5906126ed565b6112bb33611109835f52600860205260405f2090565b54906112c882151561272e565b5f6112df33611109845f52600860205260405f2090565b556112f35f80808086335af1610e2d61244f565b60405191825233917f6909eb935886ad8c734c29844350c36b0260f7006ff58559a3c286a9e7c8d87890806020810161085b565b506112a56113406104ae835f52600c60205260405f2090565b905061129c565b50600d548110611262565b346102055760403660031901126102055760206103446113706101ef565b6004355f526008835260405f209060018060a01b03165f5260205260405f2090565b34610205576040366003190112610205576004356001600160a01b03811690819003610205575f52600260205260405f206024355f52602052602060ff60405f2054166040519015158152f35b34610205576020366003190112610205576004355f526005602052602060ff60405f2054166040519015158152f35b34610205575f366003190112610205576020604051610e108152f35b346102055760203660031901126102055761091360043561281e565b34610205576080366003190112610205576004356114626104fb565b61146a610527565b6001600160401b0391606435838111610205577f21d3f96f894eeea505482f5005b86dc878ac0056e6bb2909cf845672c936cd1b935f6115006114b4611582943690600401610664565b9780835260046020526114de6040842054998a855260056020526107b360ff604087205416611b5c565b888352600560205260408320805460ff191690555f52600460205260405f2090565b5561153483600a611518895f525f60205260405f2090565b01906001600160401b03166001600160401b0319825416179055565b61157784600a61154b895f525f60205260405f2090565b01805467ffffffffffffffff60401b191660409290921b67ffffffffffffffff60401b16919091179055565b80841690831661294a565b611594855f52600960205260405f2090565b55604080516001600160401b03928316815292909116602083015290a2005b34610205575f36600319011261020557602060405162093a808152f35b6080366003190112610205576004356064356001600160401b038082116102055736602383011215610205578160040135818111610205576024830192602482369201011161020557604051635c975abb60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156104f657611670915f916118d1575b5015611ba0565b831515806118c6575b61168290611957565b611693845f525f60205260405f2090565b9260068401546116a39060ff1690565b6116ac90612770565b60078401544210156116bd9061295d565b600884015442106116cd906129a3565b6004840192808454958660601c3314156116e6906129e3565b335f90815260026020526040902088905f918252602052604090205460ff161561170f90612a2f565b60090195865460101161172190612a91565b60201c1634101561173190612acd565b34111561173d90612b14565b61174836838361062e565b611754906044356130e6565b9136906117609261062e565b61176c906024356130e6565b825463ffffffff1663ffffffff16611783916131d7565b9161178d83613d35565b61179683613d35565b61179f91613258565b905460201c6001600160401b03166117b790836132dc565b906117cc90346001600160801b03169061335d565b6117d5916133df565b906117de613d88565b90816117ea9184613ecd565b926117f492613ecd565b6117fd82612e05565b5061180781612e05565b506118123383613672565b61181c3382613672565b61182e845f52600160205260405f2090565b916118376105dd565b338152916020830152604082015242606082015261185491612b54565b805461185f90611e9b565b9055335f8181526002602090815260408083208584528252808320805460ff191660011790556008825280832084845282529182902034905590514281529192917f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c479190a3005b50600d548410611679565b6118ea915060203d6020116104ef576104e181836105a0565b5f611669565b34610205575f36600319011261020557602060405160108152f35b34610205576020366003190112610205576004355f52600c602052602060ff60405f2054166040519015158152f35b34610205575f366003190112610205576020600d54604051908152f35b1561195e57565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fd5b90816020910312610205575180151581036102055790565b6040513d5f823e3d90fd5b156119c257565b60405162461bcd60e51b815260206004820152602260248201527f4f6e6c79206d6f64657261746f722063616e2063616e63656c206c697374696e604482015261677360f01b6064820152608490fd5b15611a1957565b60405162461bcd60e51b815260206004820152601a60248201527f41756374696f6e20697320616c726561647920736574746c65640000000000006044820152606490fd5b90604051604081018181106001600160401b0382111761056d57604052825481526001909201546001600160a01b03166020830152565b15611a9c57565b60405162461bcd60e51b8152602060048201526012602482015271139bc81c195b991a5b99c81c185e5b595b9d60721b6044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b91908203918211611af757565b611ad6565b15611b0357565b60405162461bcd60e51b815260206004820152602b60248201527f4f6e6c792063726561746f72206f72206b65657065722063616e20726574727960448201526a081cd95d1d1b195b595b9d60aa1b6064820152608490fd5b15611b6357565b60405162461bcd60e51b8152602060048201526015602482015274139bc81c195b991a5b99c81cd95d1d1b195b595b9d605a1b6044820152606490fd5b15611ba757565b60405162461bcd60e51b8152602060048201526013602482015272105d58dd1a5bdb9cc8185c99481c185d5cd959606a1b6044820152606490fd5b15611be957565b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b15611c2d57565b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b15611c7957565b60405162461bcd60e51b815260206004820152601860248201527743617465676f72792063616e6e6f7420626520656d70747960401b6044820152606490fd5b15611cc057565b60405162461bcd60e51b815260206004820152601c60248201527f556e697473206d7573742062652067726561746572207468616e2030000000006044820152606490fd5b15611d0c57565b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b15611d6357565b60405162461bcd60e51b815260206004820152601960248201527814dd185c9d081d1a5b59481a5cc81a5b881d1a19481c185cdd603a1b6044820152606490fd5b9062278d008201809211611af757565b9060208201809211611af757565b91908201809211611af757565b15611dd657565b606460405162461bcd60e51b815260206004820152602060248201527f53746172742074696d6520746f6f2066617220696e20746865206675747572656044820152fd5b15611e2157565b60405162461bcd60e51b8152602060048201526012602482015271111d5c985d1a5bdb881d1bdbc81cda1bdc9d60721b6044820152606490fd5b15611e6257565b60405162461bcd60e51b81526020600482015260116024820152704475726174696f6e20746f6f206c6f6e6760781b6044820152606490fd5b5f198114611af75760010190565b601f8211611eb657505050565b5f5260205f20906020601f840160051c83019310611eee575b601f0160051c01905b818110611ee3575050565b5f8155600101611ed8565b9091508190611ecf565b91909182516001600160401b03811161056d57611f1f81611f19845461099b565b84611ea9565b602080601f8311600114611f6057508190611f519394955f92611f55575b50508160011b915f199060031b1c19161790565b9055565b015190505f80611f3d565b90601f19831695611f74855f5260205f2090565b925f905b888210611faf57505083600195969710611f97575b505050811b019055565b01515f1960f88460031b161c191690555f8080611f8d565b80600185968294968601518155019501930190611f78565b9061214b6101a0600a6105ce9484518155611fe9602086015160018301611ef8565b611ffa604086015160028301611ef8565b61200b606086015160038301611ef8565b6120b56004820161203c612026608089015163ffffffff1690565b825463ffffffff191663ffffffff909116178255565b61207d61205360a08901516001600160401b031690565b82546bffffffffffffffff00000000191660209190911b6bffffffffffffffff0000000016178255565b60c08701516001600160a01b031681546bffffffffffffffffffffffff1660609190911b6bffffffffffffffffffffffff1916179055565b60e085015160058201556120e56120d0610100870151151590565b600683019060ff801983541691151516179055565b610120850151600782015561014085015160088201556101608501516009820155019261213d6121206101808301516001600160401b031690565b855467ffffffffffffffff19166001600160401b03909116178555565b01516001600160401b031690565b815467ffffffffffffffff60401b191660409190911b67ffffffffffffffff60401b16179055565b919363ffffffff6121ab60809598979661219d6001600160401b039560a0885260a0880190610a73565b908682036020880152610a73565b971660408401521660608201520152565b604051635c975abb60e01b81529096919590949091906020866004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9283156104f6576122416123aa947f22fcf1fd599dd65d9acefebe8604cdaaf337f71e3c1308a20176dbfdd792d429985f916118d1575015611ba0565b61224d89511515611be2565b61225988511515611c26565b61226585511515611c72565b61227663ffffffff87161515611cb9565b61228a6001600160401b0383161515611d05565b806123b9575042915b806123af575061238962093a80975b6122ae42851015611d5c565b6122c26122ba42611da4565b851115611dcf565b6122d0610e108a1015611e1a565b6122df62278d008a1115611e5b565b6122fd600d54996122f76122f28c611e9b565b600d55565b85611dc2565b936123066105d0565b918a83528b6020840152604083015286606083015261232e88608084019063ffffffff169052565b6001600160401b03841660a08301523360c08301524260e08301526001610100830152610120820152836101408201525f6101608201525f6101808201525f6101a0820152612384895f525f60205260405f2090565b611fc7565b61239c612397600e54611e9b565b600e55565b604051948594339986612173565b0390a3565b61238990976122a2565b91612293565b156123c657565b60405162461bcd60e51b815260206004820152601f60248201527f4f6e6c792063726561746f722063616e20636c61696d2070726f6365656473006044820152606490fd5b1561241257565b60405162461bcd60e51b81526020600482015260156024820152744e6f2070726f636565647320617661696c61626c6560581b6044820152606490fd5b3d15612479573d9061246082610613565b9161246e60405193846105a0565b82523d5f602084013e565b606090565b1561248557565b60405162461bcd60e51b815260206004820152600f60248201526e151c985b9cd9995c8819985a5b1959608a1b6044820152606490fd5b906105ce6124c86105d0565b92805484526124d9600182016109d3565b60208501526124ea600282016109d3565b60408501526124fb600382016109d3565b6060850152600481015463ffffffff8116608086015290600a906001600160401b03602084901c811660a0880152926125389060601c60c0880152565b600581015460e087015261255d612553600683015460ff1690565b1515610100880152565b60078101546101208701526008810154610140870152600981015461016087015201546001600160401b038282161661018086015260401c166101a08401906001600160401b03169052565b156125b057565b60405162461bcd60e51b8152602060048201526016602482015275105d58dd1a5bdb881a5cc81b9bdd081cd95d1d1b195960521b6044820152606490fd5b156125f557565b60405162461bcd60e51b8152602060048201526014602482015273105d58dd1a5bdb881a5cc818d85b98d95b1b195960621b6044820152606490fd5b1561263857565b60405162461bcd60e51b815260206004820152601060248201526f4e6f2062696420746f20736574746c6560801b6044820152606490fd5b1561267757565b60405162461bcd60e51b8152602060048201526013602482015272109a5908185b1c9958591e481cd95d1d1b1959606a1b6044820152606490fd5b604051906126bf82610585565b6001825260203681840137565b805115610c8b5760200190565b8051821015610c8b5760209160051b010190565b156126f457565b60405162461bcd60e51b8152602060048201526012602482015271109a59081a5cc81b9bdd081cd95d1d1b195960721b6044820152606490fd5b1561273557565b60405162461bcd60e51b81526020600482015260136024820152724e6f20726566756e6420617661696c61626c6560681b6044820152606490fd5b1561277757565b60405162461bcd60e51b815260206004820152601560248201527441756374696f6e206973206e6f742061637469766560581b6044820152606490fd5b156127bb57565b60405162461bcd60e51b815260206004820152603560248201527f41756374696f6e20686173206e6f7420656e6465642079657420616e6420796f6044820152743a9030b932903737ba103a34329031b932b0ba37b960591b6064820152608490fd5b8015158061293f575b61283090611957565b6009612843825f525f60205260405f2090565b6128756006820161285d612858825460ff1690565b612770565b60088301544210801590612921575b610441906127b4565b0154156128e357806128896105ce92612e0f565b9061289381612e05565b5061289d82612e05565b506128a88184612f85565b6128ba835f52600660205260405f2090565b556128cd825f52600760205260405f2090565b5561090e610460825f52600560205260405f2090565b7f21d3f96f894eeea505482f5005b86dc878ac0056e6bb2909cf845672c936cd1b6040518061291c81905f602060408401938281520152565b0390a2565b506104416129366108cf600486015460601c90565b3314905061286c565b50600d548110612827565b81810292918115918404141715611af757565b1561296457565b60405162461bcd60e51b8152602060048201526017602482015276105d58dd1a5bdb881a185cc81b9bdd081cdd185c9d1959604a1b6044820152606490fd5b156129aa57565b60405162461bcd60e51b8152602060048201526011602482015270105d58dd1a5bdb881a185cc8195b991959607a1b6044820152606490fd5b156129ea57565b60405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f7420626964206f6e20796f7572206f776e2061756374696f6e00006044820152606490fd5b15612a3657565b60405162461bcd60e51b815260206004820152602d60248201527f596f75206861766520616c726561647920706c61636564206120626964206f6e60448201526c103a3434b99030bab1ba34b7b760991b6064820152608490fd5b15612a9857565b60405162461bcd60e51b815260206004820152600d60248201526c546f6f206d616e79206269647360981b6044820152606490fd5b15612ad457565b60405162461bcd60e51b8152602060048201526018602482015277109a590818995b1bddc81b5a5b9a5b5d5b48185b5bdd5b9d60421b6044820152606490fd5b15612b1b57565b60405162461bcd60e51b81526020600482015260116024820152704465706f73697420746f6f206c6172676560781b6044820152606490fd5b8054600160401b81101561056d57612b7191600182018155610c72565b919091612bb657805182546001600160a01b0319166001600160a01b039190911617825560039060609060208101516001850155604081015160028501550151910155565b634e487b7160e01b5f525f60045260245ffd5b90815f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d026020908060205260405f205415612c9957835f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210612c8257505050509181612c4161089093612c469503826105a0565b613560565b612c70577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b835485529384019360019384019390910190612c22565b60405163d66ca67560e01b8152600490fd5b60408051606081018181106001600160401b0382111761056d578252600281526020810182368237835f526006602052825f205490825115610c8b5752612cfa835f52600760205260405f2090565b5491815160011015610c8b57612d38827f04af8379e43958395d81bd8cb9755caff006537044ead89d4eaeec09e13bd977948361291c950152613869565b9084612d4c835f52600460205260405f2090565b55519081529081906020820190565b6001600160401b03916020918015612df3575b5f8051602061403483398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156104f6575f91612dca575090565b610d16915060203d602011612dec575b612de481836105a0565b810190613663565b503d612dda565b506064612dfe613d88565b9050612d6e565b610d163082613672565b90612e22825f52600160205260405f2090565b90612e50612e476004612e3c865f525f60205260405f2090565b015463ffffffff1690565b63ffffffff1690565b90612e59613d88565b5f9381805b8254871015612f1c575f97845b84548a1015612ecb57612ec3600191612ebd888d85612eb48f8c612ead91612ea4612e968784610c72565b509160028093015493610c72565b5001549061394a565b928c610c72565b50015490613ecd565b906139ce565b990198612e6b565b889950600192612ef687612f11949b6002612eb4612eef8e612efc989e9b9e6132dc565b928b610c72565b90613a52565b9582612f088b87610c72565b500154906139ce565b970195969093612e5e565b6001600160401b0391949650610d1695979350612f7f9250612f7890612f71612f6c6004612f5b612f4d8d8b6132dc565b985f525f60205260405f2090565b015460201c6001600160401b031690565b613463565b9085613ecd565b9616613ddb565b90613ecd565b90612f98825f52600160205260405f2090565b92612fa1613d88565b9182915f935b8654851015612fe657612fde600191612ebd868a85612eb48b612fd88b6002612fd08488610c72565b500154613ad6565b93610c72565b940193612fa7565b6130119195945092919261300c612f6c612e476004612e3c895f525f60205260405f2090565b613b5a565b5f905b86548210156130dd57816130836001928961307888613036839a999884610c72565b50612fd08761307261306b8c61305b84613055896002809a0154613bde565b9a610c72565b5098612f7f8b8f809c0154613c62565b8098613b5a565b9c610c72565b90612eb4858d610c72565b61308c81612e05565b506130b16130ab61309d848c610c72565b50546001600160a01b031690565b82613672565b6130d36130c6885f52600360205260405f2090565b6107f761309d858d610c72565b5501909192613014565b50505050509050565b5f8051602061403483398151915254613132926020929091613112906108cf906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b8452339060048501613d04565b03925af19081156104f6575f916131b8575b505f80516020613ff483398151915254613168906108cf906001600160a01b031681565b803b1561020557604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156104f6576131a5575090565b806131b2610d1692610572565b80610257565b6131d1915060203d602011612dec57612de481836105a0565b5f613144565b6001600160401b03916020918015613246575b5f80516020614034833981519152546040516304559f7160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156104f6575f91612dca575090565b506064613251613d88565b90506131ea565b9081156132cc575b80156132ba575b602090606460018060a01b035f805160206140348339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b5060206132c5613e2e565b9050613267565b90506132d6613e2e565b90613260565b6001600160401b0391602091801561334b575b5f8051602061403483398151915254604051631391547f60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156104f6575f91612dca575090565b506064613356613d88565b90506132ef565b9081156133cb575b5f8051602061403483398151915254604051631d44e90160e21b815260048101939093526001600160801b039091166024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156104f6575f91612dca575090565b905060206133d7613e2e565b919050613365565b908115613453575b8015613441575b602090606460018060a01b035f805160206140348339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b50602061344c613e81565b90506133ee565b905061345d613e81565b906133e7565b6001600160401b03610d169116613ddb565b9061347f82610613565b61348c60405191826105a0565b828152809261349d601f1991610613565b0190602036910137565b9081518082526020808093019301915f5b8281106134c6575050505090565b8351855293810193928101926001016134b8565b91906134f1613500916060855260608501906134a7565b60209284820384860152610a73565b9160408184039101528251908183528083019281808460051b8301019501935f915b8483106135325750505050505090565b9091929394958480613550600193601f198682030187528a51610a73565b9801930193019194939290613522565b80515f905f905b808210613614575050916020916135806135e694611db4565b61358981613475565b906024858301377fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea602545f906135c8906108cf906001600160a01b031681565b9260405196879586948593632c027b1360e21b8552600485016134da565b03925af19081156104f6575f916135fb575090565b610d16915060203d6020116104ef576104e181836105a0565b9091600961362284866126d9565b51601e1a61362f81613ce6565b61363881613ce6565b101561365157613649600191611db4565b920190613567565b60405163ce54a8d160e01b8152600490fd5b90816020910312610205575190565b5f80516020613ff4833981519152546001600160a01b031691823b1561020557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156104f6576136d05750565b6105ce90610572565b906020610d169281815201906134a7565b92916137039184526060602085015260608401906134a7565b91604063030745c560e41b910152565b929161372c9184526060602085015260608401906134a7565b91604063bafd7f7760e01b910152565b5f8051602061401483398151915280545f80516020613ff4833981519152549093929190613774906108cf906001600160a01b031681565b803b15610205575f6040518092637d6e912360e11b825281838161379b89600483016136d9565b03925af180156104f657613856575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d00546137e1906108cf906001600160a01b031681565b90813b15610205575f6040518093633263b83b60e01b825281838161380a898c600484016136ea565b03925af180156104f6576105ce936138329361382c92613843575b5086613f1f565b54611e9b565b5f8051602061401483398151915255565b806131b261385092610572565b5f613825565b806131b261386392610572565b5f6137aa565b5f8051602061401483398151915280545f80516020613ff48339815191525490939291906138a1906108cf906001600160a01b031681565b803b15610205575f6040518092637d6e912360e11b82528183816138c889600483016136d9565b03925af180156104f657613937575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d005461390e906108cf906001600160a01b031681565b90813b15610205575f6040518093633263b83b60e01b825281838161380a898c60048401613713565b806131b261394492610572565b5f6138d7565b9081156139be575b80156139ac575b602090606460018060a01b035f805160206140348339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b5060206139b7613d88565b9050613959565b90506139c8613d88565b90613952565b908115613a42575b8015613a30575b602090606460018060a01b035f805160206140348339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b506020613a3b613d88565b90506139dd565b9050613a4c613d88565b906139d6565b908115613ac6575b8015613ab4575b602090606460018060a01b035f805160206140348339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b506020613abf613d88565b9050613a61565b9050613ad0613d88565b90613a5a565b908115613b4a575b8015613b38575b602090606460018060a01b035f805160206140348339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b506020613b43613d88565b9050613ae5565b9050613b54613d88565b90613ade565b908115613bce575b8015613bbc575b602090606460018060a01b035f805160206140348339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b506020613bc7613d88565b9050613b69565b9050613bd8613d88565b90613b62565b908115613c52575b8015613c40575b602090606460018060a01b035f805160206140348339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b506020613c4b613d88565b9050613bed565b9050613c5c613d88565b90613be6565b908115613cd6575b8015613cc4575b602090606460018060a01b035f805160206140348339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af19081156104f6575f91612dca575090565b506020613ccf613d88565b9050613c71565b9050613ce0613d88565b90613c6a565b60541115613cf057565b634e487b7160e01b5f52602160045260245ffd5b9392613d3090600593606093875260018060a01b03166020870152608060408701526080860190610a73565b930152565b5f80516020614034833981519152546040516307227b9160e21b8152600481019290925260066024830152602090829060449082905f906001600160a01b03165af19081156104f6575f91612dca575090565b5f8051602061403483398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156104f6575f91612dca575090565b5f8051602061403483398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156104f6575f91612dca575090565b5f8051602061403483398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af19081156104f6575f91612dca575090565b5f602060018060a01b035f805160206140348339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af19081156104f6575f91612dca575090565b9060646020925f60018060a01b035f8051602061403483398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156104f6575f91612dca575090565b805f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d026020918160205260405f2054613fe1575f5260205260405f20908251926001600160401b03841161056d57600160401b841161056d578254848455808510613fbb575b506020613f989101925f5260205f2090565b905f5b848110613fa9575050505050565b83518382015592810192600101613f9b565b835f528460205f2091820191015b818110613fd65750613f86565b5f8155600101613fc9565b604051633f06d22b60e01b8152600490fdfeed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6005ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d01ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a164736f6c6343000818000a";
+
+type ConfidentialMultiUnitAuctionConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialMultiUnitAuctionConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialMultiUnitAuction__factory extends ContractFactory {
+  constructor(...args: ConfidentialMultiUnitAuctionConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_governance, overrides || {});
+  }
+  override deploy(
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_governance, overrides || {}) as Promise<
+      ConfidentialMultiUnitAuction & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ConfidentialMultiUnitAuction__factory {
+    return super.connect(runner) as ConfidentialMultiUnitAuction__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialMultiUnitAuctionInterface {
+    return new Interface(_abi) as ConfidentialMultiUnitAuctionInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialMultiUnitAuction {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ConfidentialMultiUnitAuction;
+  }
+}
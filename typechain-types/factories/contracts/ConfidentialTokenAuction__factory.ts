@@ -0,0 +1,620 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConfidentialTokenAuction,
+  ConfidentialTokenAuctionInterface,
+} from "../../contracts/ConfidentialTokenAuction";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "_governance",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "cancelledBy",
+        type: "address",
+      },
+    ],
+    name: "AuctionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "minimumBid",
+        type: "uint64",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionEnded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "RefundWithdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_START_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cancelled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_description",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_category",
+        type: "string",
+      },
+      {
+        internalType: "contract ConfidentialERC20",
+        name: "_paymentToken",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_minimumBid",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "_startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_duration",
+        type: "uint256",
+      },
+    ],
+    name: "createAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "endAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuction",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "contract ConfidentialERC20",
+            name: "paymentToken",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "minimumBid",
+            type: "uint64",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "bidCount",
+            type: "uint256",
+          },
+          {
+            internalType: "euint64",
+            name: "highestBidAmount",
+            type: "bytes32",
+          },
+          {
+            internalType: "eaddress",
+            name: "encryptedHighestBidder",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct ConfidentialTokenAuction.Auction",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_bidder",
+        type: "address",
+      },
+    ],
+    name: "getEscrow",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "governance",
+    outputs: [
+      {
+        internalType: "contract AuctionGovernance",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "hasPlacedBid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hasUserBid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextAuctionId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "placeBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "refundClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalAuctions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346200025857601f6200254238819003918201601f19168301916001600160401b038311848410176200025c578084926020946040528339810103126200025857516001600160a01b03811680820362000258575f60606200006262000270565b82815282602082015282604082015201526200007d62000270565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9182604082015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d009182541617905560016005555f6006551562000213576080526040516122b190816200029182396080518181816101b50152818161146d015281816114ff0152611c360152f35b60405162461bcd60e51b815260206004820152601960248201527f476f7665726e616e63652063616e6e6f74206265207a65726f000000000000006044820152606490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176200025c5760405256fe6080806040526004361015610012575f80fd5b5f905f3560e01c90816316002f4a14611da757508063305a67a814611c035780633ec04a7d1461149c5780635aa6e6751461145757806361707a64146113f457806378bd79351461119b5780637d8022c0146111515780638977427a14610ddb5780639d15349514610de0578063a65ed0d614610b01578063b1724b4614610ddb578063b6a6d17714610dbe578063b9a2de3a14610b68578063c297fa0f14610b4a578063c75c99e614610b01578063e050be5714610ad2578063f0eedb8d146101045763fc528482146100e4575f80fd5b346101015780600319360112610101576020600554604051908152f35b80fd5b50346101015760e0366003190112610101576004356001600160401b038111610ace57610135903690600401611ef1565b6024356001600160401b038111610aca57610154903690600401611ef1565b6044356001600160401b038111610ac657610173903690600401611ef1565b6064803593919291906001600160a01b0385168503610ac257608435936001600160401b0385168503610abe57604051635c975abb60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa8015610ab3576101f7918991610a84575b5015611f68565b825115610a4957835115610a06578051156109c8576001600160a01b03861615610985576001600160401b038516156109365760a43561092d5742905b60c4356109245762093a80925b4283106108e65762278d008042018042116108d257841161088f57610e10851061085757841161082157506005549461027986611fee565b600555838301831161080d5761028d6120d6565b61029730826121fd565b61029f612158565b906102aa30836121fd565b604051926102b784611e6f565b888452876020850152604084015283606084015260018060a01b038a1660808401526001600160401b03891660a08401523360c08401524260e08401526001610100840152846101208401528585016101408401528a6101608401526101808301526101a08201528589528860205260408920908051825560208101518051906001600160401b0382116106635781906103546001860154611ffc565b601f81116107bb575b50602090601f831160011461074d578d92610742575b50508160011b915f199060031b1c19161760018301555b60408101518051906001600160401b0382116106635781906103af6002860154611ffc565b601f81116106f0575b50602090601f8311600114610682578d92610677575b50508160011b915f199060031b1c19161760028301555b60608101518051906001600160401b038211610663576104086003850154611ffc565b601f811161061c575b506020908c601f84116001146105785761054c94847ffa3aa6c01caf08202e700632ca169fcf23578479885d2a2fc77c8d5fbc9ffe6a9b9a9998956001600160401b039895600c956101a0959261056d575b50508160011b915f199060031b1c19161760038501555b6004840160018060a01b036080830151168154908960a01b60a085015160a01b169163ffffffff60e01b16171790556005840160018060a01b0360c08301511660018060a01b031982541617905560e0810151600685015560078401610100820151151560ff8019835416911617905561012081015160088501556101408101516009850155610160810151600a850155610180810151600b8501550151910155610526600654611fee565b60065561053e60405196608088526080880190611ded565b908682036020880152611ded565b9616604084015201606082015233946001600160a01b03169381900390a480f35b015190505f80610463565b5090600385018d5260208d20918d5b601f1985168110610604575061054c946001856001600160401b039895600c956101a0957ffa3aa6c01caf08202e700632ca169fcf23578479885d2a2fc77c8d5fbc9ffe6a9f9e9d9c99601f198116106105ec575b505050811b01600385015561047a565b01515f1960f88460031b161c191690555f80806105dc565b91926020600181928685015181550194019201610587565b600385018d5260208d20601f840160051c81016020851061065c575b8e5b601f840160051c8301821061065157505050610411565b81556001018e61063a565b5080610638565b634e487b7160e01b8c52604160045260248cfd5b015190505f806103ce565b9250600285018d5260208d20908d935b601f19841685106106d5576001945083601f198116106106bd575b505050811b0160028301556103e5565b01515f1960f88460031b161c191690555f80806106ad565b81810151835560209485019460019093019290910190610692565b909150600285018d5260208d20601f840160051c81016020851061073b575b84939291908f5b601f840160051c8301821061072d575050506103b8565b81558594506001018f610716565b508061070f565b015190505f80610373565b9250600185018d5260208d20908d935b601f19841685106107a0576001945083601f19811610610788575b505050811b01600183015561038a565b01515f1960f88460031b161c191690555f8080610778565b8181015183556020948501946001909301929091019061075d565b909150600185018d5260208d20601f840160051c810160208510610806575b84939291908f5b601f840160051c830182106107f85750505061035d565b81558594506001018f6107e1565b50806107da565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b81526020600482015260116024820152704475726174696f6e20746f6f206c6f6e6760781b6044820152fd5b5060405162461bcd60e51b8152602060048201526012602482015271111d5c985d1a5bdb881d1bdbc81cda1bdc9d60721b6044820152fd5b5060405162461bcd60e51b815260206004820181905260248201527f53746172742074696d6520746f6f2066617220696e20746865206675747572656044820152fd5b634e487b7160e01b8b52601160045260248bfd5b60405162461bcd60e51b815260206004820152601960248201527814dd185c9d081d1a5b59481a5cc81a5b881d1a19481c185cdd603a1b6044820152fd5b60c43592610241565b60a43590610234565b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b81840152608490fd5b5060405162461bcd60e51b815260206004820152601c60248201527f5061796d656e7420746f6b656e2063616e6e6f74206265207a65726f000000006044820152fd5b5060405162461bcd60e51b815260206004820152601860248201527743617465676f72792063616e6e6f7420626520656d70747960401b6044820152fd5b5060405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152fd5b5060405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152fd5b610aa6915060203d602011610aac575b610a9e8183611e8b565b810190611f0f565b5f6101f0565b503d610a94565b6040513d8a823e3d90fd5b8680fd5b8580fd5b8380fd5b8280fd5b5080fd5b50346101015760203660031901126101015760ff60406020926004358152600484522054166040519015158152f35b50346101015760403660031901126101015760209060ff906040906001600160a01b03610b2c611dd7565b16815260018452818120602435825284522054166040519015158152f35b5034610101578060031936011261010157602060405162093a808152f35b503461010157602080600319360112610ace576004359081151580610db3575b610b9190611f27565b8183528281526040832090600782018054610bae60ff8216611faa565b60098401544210801590610d9d575b15610d3a5760ff19169055600a820154610bfb575b50507f45806e512b1f4f10e33e8b3cb64d1d11d998d8c554a95e0841fc1c701278bd5d8280a280f35b600b820180546004840180545f80516020612265833981519152546001600160a01b03949390851692918991908616843b15610aca57604051630f8e573b60e21b815260048101929092526001600160a01b031660248201529281908490604490829084905af1928315610d2d578593610d14575b5050546005860180548454604051637d32e7bd60e01b81529187166001600160a01b03166004830152602482015290959290918391839116818b816044810103925af18015610ab357610ce7575b5050610ce093610cd5600c925484865416906121fd565b0154915416906121fd565b5f80610bd2565b813d8311610d0d575b610cfa8183611e8b565b81010312610d09575f80610cbe565b5f80fd5b503d610cf0565b610d2091929350611e48565b610abe578290875f610c70565b50604051903d90823e3d90fd5b60405162461bcd60e51b815260048101849052603560248201527f41756374696f6e20686173206e6f7420656e6465642079657420616e6420796f6044820152743a9030b932903737ba103a34329031b932b0ba37b960591b6064820152608490fd5b5060058401546001600160a01b03163314610bbd565b506005548210610b88565b50346101015780600319360112610101576020604051610e108152f35b611e2b565b503461010157602080600319360112610ace576004359081151580611146575b610e0990611f27565b8183528281526040832060ff600782015416611108573384526001825260408420838552825260ff604085205416156110cd578284526003825260408420335f52825260ff60405f20541661108f5783908382526003835260408220335f52835260405f20600160ff198254161790558382526002835260408220335f52835260405f2054908483526004845260ff60408420541615610fca575b60040180545f80516020612265833981519152546001600160a01b039391841692908416803b15610ac257604051630f8e573b60e21b8152600481018490526001600160a01b0394909416602485015285908490604490829084905af18015610fbf5786938691610fa6575b505054604051637d32e7bd60e01b815233600482015260248101929092529093919284926044928492165af18015610f9b57610f72575b505033907f680bcaf972d56e5685972ec1ea84129e44c6f7248a553398f2b46b7e25429c5a8380a380f35b813d8311610f94575b610f858183611e8b565b81010312610d09575f80610f47565b503d610f7b565b6040513d86823e3d90fd5b610fb291929450611e48565b610ac6578491845f610f10565b6040513d87823e3d90fd5b908284600c8401548015611081575b5f805160206122858339815191525460405163f77f3f1d60e01b81526004810192909252336024830152600160f81b60448301529092839160649183916001600160a01b03165af1908115610f9b57849161104d575b506004916110459161103f6120d6565b906121ab565b919050610ea4565b809450858092503d831161107a575b6110668183611e8b565b81010312610d09579151859290600461102f565b503d61105c565b5061108a612158565b610fd9565b60405162461bcd60e51b81526004810183905260166024820152751499599d5b9908185b1c9958591e4818db185a5b595960521b6044820152606490fd5b60405162461bcd60e51b81526004810183905260136024820152724e6f20726566756e6420617661696c61626c6560681b6044820152606490fd5b60405162461bcd60e51b8152600481018390526016602482015275105d58dd1a5bdb881a5cc81b9bdd081cd95d1d1b195960521b6044820152606490fd5b506005548210610e00565b503461010157604036600319011261010157604061116d611dc1565b9160043581526003602052209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b503461010157602036600319011261010157806040916101a083516111bf81611e6f565b828152606060208201526060858201526060808201528260808201528260a08201528260c08201528260e0820152826101008201528261012082015282610140820152826101608201528261018082015201526004351515806113e7575b61122690611f27565b60043581528060205220600c6040519161123f83611e6f565b8054835261124f60018201612034565b602084015261126060028201612034565b604084015261127160038201612034565b60608401526001600160401b03600482015460018060a01b038116608086015260a01c1660a084015260018060a01b0360058201541660c0840152600681015460e084015260ff600782015416151561010084015260088101546101208401526009810154610140840152600a810154610160840152600b81015461018084015201546101a0820152604051809160208252805160208301526101a061135c61132b60208401516101c060408701526101e0860190611ded565b611347604085015191601f199283888303016060890152611ded565b90606085015190868303016080870152611ded565b9160018060a01b0360808201511660a08501526001600160401b0360a08201511660c085015260018060a01b0360c08201511660e085015260e081015161010085015261010081015115156101208501526101208101516101408501526101408101516101608501526101608101516101808501526101808101518285015201516101c08301520390f35b506005546004351061121d565b503461010157604036600319011261010157604060043591611414611dc1565b928015158061144c575b61142790611f27565b81526002602052209060018060a01b03165f52602052602060405f2054604051908152f35b50600554811061141e565b50346101015780600319360112610101576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5034610d09576060366003190112610d09576044356001600160401b038111610d095736602382011215610d09578060040135906001600160401b038211610d09573660248383010111610d0957604051635c975abb60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa801561199357611540915f91610a84575015611f68565b600435151580611bf6575b61155490611f27565b6004355f525f60205260405f209161157260ff600785015416611faa565b60088301544210611bb7576009830154421015611b7e5760058301546001600160a01b03163314611b3957335f52600160205260405f206004355f5260205260ff60405f205416611ade576116206115d25f936020936024369201611eac565b5f805160206122858339815191525460405163196d0b9b60e01b81526024803560048301523390820152608060448201529485936001600160a01b0390921692849283916084830190611ded565b6005606483015203925af1908115611993575f91611aac575b505f80516020612265833981519152546001600160a01b0316803b15610d0957604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561199357611a99575b50600482018054849290819060a01c6001600160401b03168115611a85575b5f8051602061228583398151915254604051631391547f60e01b815260048101949094526024840191909152600160f81b60448401526020908390606490829088906001600160a01b03165af1918215610f9b578492611a4d575b509061171a916117146120d6565b916121ab565b81545f80516020612265833981519152546001600160a01b039182169116803b15611a4957604051630f8e573b60e21b8152600481018490526001600160a01b0392909216602483015284908290604490829084905af1908115610f9b578491611a35575b50509054604051630b3c06f560e41b81523360048201523060248201526044810192909252909160209183916064918391906001600160a01b03165af1908115611a2a5783916119f8575b506117d530826121fd565b6117df33826121fd565b6004358352600260205260408320335f526020528060405f2055600a82016118078154611fee565b9055338352600160205260408320600435845260205260408320600160ff19825416179055600b8201805490829183156119e8575b80156119d6575b5f80516020612285833981519152546040516385362ee760e01b8152600481019490945260248401919091526001600160f81b0319861660448401526020908390606490829089906001600160a01b03165af1918215610fbf57859261199e575b506118b35f93825490846121ab565b906118be30836121fd565b555f8051602061228583398151915254604051639cd07acb60e01b8152336004820152600760248201529260209184916044918391906001600160a01b03165af1918215611993575f9261195e575b50600c61191f929301928354916121ab565b9061192a30836121fd565b5560405142815233907f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47602060043592a380f35b91506020823d60201161198b575b8161197960209383611e8b565b81010312610d0957905190600c61190d565b3d915061196c565b6040513d5f823e3d90fd5b9291506020833d6020116119ce575b816119ba60209383611e8b565b81010312610d0957915190916118b36118a4565b3d91506119ad565b5060206119e16120d6565b9050611843565b91506119f26120d6565b9161183c565b90506020813d602011611a22575b81611a1360209383611e8b565b81010312610d0957515f6117ca565b3d9150611a06565b6040513d85823e3d90fd5b611a3e90611e48565b610aca57825f61177f565b8480fd5b915092506020813d602011611a7d575b81611a6a60209383611e8b565b81010312610d095751849261171a611706565b3d9150611a5d565b91506020611a916120d6565b9290506116ab565b611aa4919350611e48565b5f915f61168c565b90506020813d602011611ad6575b81611ac760209383611e8b565b81010312610d0957515f611639565b3d9150611aba565b60405162461bcd60e51b815260206004820152602d60248201527f596f75206861766520616c726561647920706c61636564206120626964206f6e60448201526c103a3434b99030bab1ba34b7b760991b6064820152608490fd5b60405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f7420626964206f6e20796f7572206f776e2061756374696f6e00006044820152606490fd5b60405162461bcd60e51b8152602060048201526011602482015270105d58dd1a5bdb881a185cc8195b991959607a1b6044820152606490fd5b60405162461bcd60e51b8152602060048201526017602482015276105d58dd1a5bdb881a185cc81b9bdd081cdd185c9d1959604a1b6044820152606490fd5b506005546004351061154b565b34610d0957602080600319360112610d0957604051637d379c9b60e11b81523360048281019190915235919081816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115611993575f91611d8a575b5015611d3b5781151580611d30575b611c8690611f27565b815f525f815260ff600760405f2001541615611cec57815f525f81526004600760405f20019160ff199283815416905552600160405f209182541617905533907f10ac9f0bb365b5d22d7bec500408692f23fdf83eadfec71615ef88b4c1134f0e5f80a3005b6064906040519062461bcd60e51b82526004820152601a60248201527f41756374696f6e20697320616c726561647920736574746c65640000000000006044820152fd5b506005548210611c7d565b6084906040519062461bcd60e51b82526004820152602260248201527f4f6e6c79206d6f64657261746f722063616e2063616e63656c206c697374696e604482015261677360f01b6064820152fd5b611da19150823d8411610aac57610a9e8183611e8b565b83611c6e565b34610d09575f366003190112610d09576020906006548152f35b602435906001600160a01b0382168203610d0957565b600435906001600160a01b0382168203610d0957565b91908251928382525f5b848110611e17575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201611df7565b34610d09575f366003190112610d0957602060405162278d008152f35b6001600160401b038111611e5b57604052565b634e487b7160e01b5f52604160045260245ffd5b6101c081019081106001600160401b03821117611e5b57604052565b90601f801991011681019081106001600160401b03821117611e5b57604052565b9291926001600160401b038211611e5b5760405191611ed5601f8201601f191660200184611e8b565b829481845281830111610d09578281602093845f960137010152565b9080601f83011215610d0957816020611f0c93359101611eac565b90565b90816020910312610d0957518015158103610d095790565b15611f2e57565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fd5b15611f6f57565b60405162461bcd60e51b8152602060048201526013602482015272105d58dd1a5bdb9cc8185c99481c185d5cd959606a1b6044820152606490fd5b15611fb157565b60405162461bcd60e51b815260206004820152601560248201527441756374696f6e206973206e6f742061637469766560581b6044820152606490fd5b5f19811461080d5760010190565b90600182811c9216801561202a575b602083101461201657565b634e487b7160e01b5f52602260045260245ffd5b91607f169161200b565b9060405191825f825461204681611ffc565b908184526020946001916001811690815f146120b45750600114612076575b50505061207492500383611e8b565b565b5f90815285812095935091905b81831061209c57505061207493508201015f8080612065565b85548884018501529485019487945091830191612083565b9250505061207494925060ff191682840152151560051b8201015f8080612065565b5f8051602061228583398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115611993575f91612129575090565b90506020813d602011612150575b8161214460209383611e8b565b81010312610d09575190565b3d9150612137565b5f8051602061228583398151915254604051639cd07acb60e01b81525f60048201819052600760248301529091602091839160449183916001600160a01b03165af1908115611993575f91612129575090565b9060646020925f60018060a01b035f8051602061228583398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115611993575f91612129575090565b5f80516020612265833981519152546001600160a01b031691823b15610d0957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156119935761225b5750565b61207490611e4856feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a164736f6c6343000818000a";
+
+type ConfidentialTokenAuctionConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialTokenAuctionConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialTokenAuction__factory extends ContractFactory {
+  constructor(...args: ConfidentialTokenAuctionConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_governance, overrides || {});
+  }
+  override deploy(
+    _governance: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_governance, overrides || {}) as Promise<
+      ConfidentialTokenAuction & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ConfidentialTokenAuction__factory {
+    return super.connect(runner) as ConfidentialTokenAuction__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialTokenAuctionInterface {
+    return new Interface(_abi) as ConfidentialTokenAuctionInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialTokenAuction {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ConfidentialTokenAuction;
+  }
+}
@@ -549,7 +549,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001f5760016004555f60055561150d90816100248239f35b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af3341461124357806316002f4a146112265780633f40efdc14610d7557806346c3fb7314610cb9578063571a26a014610bc55780635f93de4914610b31578063744d341114610ae857806375b6a06e1461040c5780637765c52c146103885780637ca7cc57146102f6578063981b3ae71461033f578063a65ed0d6146102f6578063b4fbe80a146102a2578063b9a2de3a146101f5578063c750cb79146101a3578063fc528482146101865763ff3ad0b4146100d4575f80fd5b3461018257602080600319360112610182576001600160a01b036100f661147b565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016e57868661012f828803836112be565b60405192839281840190828552518091526040840192915f5b82811061015757505050500390f35b835185528695509381019392810192600101610148565b835485529093019260019283019201610119565b5f80fd5b34610182575f366003190112610182576020600454604051908152f35b3461018257602036600319011261018257600435801515806101ea575b6101c9906114b4565b5f525f60205260206001600160a01b03600a60405f20015416604051908152f35b5060045481106101c0565b346101825760203660031901126101825760043580151580610297575b61021b906114b4565b805f525f6020526001600160a01b03600560405f200154163303610252575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610212565b34610182576040366003190112610182576102bb61147b565b6001600160a01b0360243591165f52600260205260405f208054821015610182576020916102e891611491565b90546040519160031b1c8152f35b34610182576040366003190112610182576001600160a01b0361031761147b565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b34610182576020366003190112610182576004358015158061037d575b610365906114b4565b5f525f6020526020600960405f200154604051908152f35b50600454811061035c565b346101825760203660031901126101825760043580151580610401575b6103ae906114b4565b5f525f602052608060405f2060068101549060ff60078201541690816103f3575b600b6008820154910154916040519384521515602084015260408301526060820152f35b6008810154421091506103cf565b5060045481106103a5565b346101825760803660031901126101825760043567ffffffffffffffff81116101825761043d9036906004016112e0565b60243567ffffffffffffffff81116101825761045d9036906004016112e0565b60443567ffffffffffffffff81116101825761047d9036906004016112e0565b825115610aa357815115610a5e5760643515610a0e576004549162093a80420142116109fa57604051610180810181811067ffffffffffffffff821117610793576040528381526020810191858352604082015282606082015260643560808201523360a08201524260c0820152600160e082015262093a8042016101008201525f6101208201525f6101408201525f610160820152835f525f60205260405f2091815183555180519067ffffffffffffffff82116107935781906105456001860154611374565b601f81116109aa575b50602090601f831160011461093c575f92610931575b50508160011b915f199060031b1c19161760018301555b604081015180519067ffffffffffffffff82116107935781906105a16002860154611374565b601f81116108e1575b50602090601f8311600114610873575f92610868575b50508160011b915f199060031b1c19161760028301555b606081015180519067ffffffffffffffff8211610793576105fb6003850154611374565b601f8111610824575b50602090601f83116001146107b2579180600b9492610160945f926107a7575b50508160011b915f199060031b1c19161760038501555b60808101516004850155600584016001600160a01b03908160a0840151169073ffffffffffffffffffffffffffffffffffffffff19918282541617905560c083015160068701556106a160e08401511515600788019060ff801983541691151516179055565b61010083015160088701556101208301516009870155600a86019161014084015116908254161790550151910155335f52600260205260405f20908154906801000000000000000082101561079357610724827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d94600161077795018155611491565b81549060031b9086821b915f19901b19161790556107436005546114a6565b6005556107516004546114a6565b60045561076960405195608087526080870190611336565b908582036020870152611336565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b015190508980610624565b90600385015f5260205f20915f5b601f198516811061080c575092600b94926001926101609583601f198116106107f4575b505050811b01600385015561063b565b01515f1960f88460031b161c191690558980806107e4565b919260206001819286850151815501940192016107c0565b600385015f5260205f20601f840160051c810160208510610861575b601f830160051c82018110610856575050610604565b5f8155600101610840565b5080610840565b0151905087806105c0565b9250600285015f5260205f20905f935b601f19841685106108c6576001945083601f198116106108ae575b505050811b0160028301556105d7565b01515f1960f88460031b161c1916905587808061089e565b81810151835560209485019460019093019290910190610883565b909150600285015f5260205f20601f840160051c81016020851061092a575b90849392915b601f830160051c8201811061091c5750506105aa565b5f8155859450600101610906565b5080610900565b015190508780610564565b9250600185015f5260205f20905f935b601f198416851061098f576001945083601f19811610610977575b505050811b01600183015561057b565b01515f1960f88460031b161c19169055878080610967565b8181015183556020948501946001909301929091019061094c565b909150600185015f5260205f20601f840160051c8101602085106109f3575b90849392915b601f830160051c820181106109e557505061054e565b5f81558594506001016109cf565b50806109c9565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527f5469746c652063616e6e6f7420626520656d70747900000000000000000000006044820152606490fd5b346101825760203660031901126101825760043580151580610b26575b610b0e906114b4565b5f525f6020526020600b60405f200154604051908152f35b506004548110610b05565b34610182576040366003190112610182576024356004355f52600160205260405f2090815481101561018257610b669161144e565b506001600160a01b03815416600182015491610bbb60ff600283015416916004610b92600383016113ac565b91015492604051958695865260208601521515604085015260a0606085015260a0840190611336565b9060808301520390f35b34610182576020366003190112610182576004355f525f60205260405f208054610bf1600183016113ac565b91610bfe600282016113ac565b610c0a600383016113ac565b916004810154926001600160a01b039081600584015416600684015460ff60078601541691610c86600887015494610c78600b60098a015498600a8b01541699015499610c6a6040519e8f9e8f6101809181528160208201520190611336565b8d810360408f015290611336565b908b820360608d0152611336565b9760808a015260a089015260c0880152151560e08701526101008601526101208501526101408401526101608301520390f35b346101825760203660031901126101825760043580151580610d6a575b610cdf906114b4565b5f525f602052610d3f60405f2060048101546001600160a01b03600583015416610d5b610d0e600185016113ac565b93610d4d610d2a6003610d23600285016113ac565b93016113ac565b9160405197889760a0895260a0890190611336565b908782036020890152611336565b908582036040870152611336565b91606084015260808301520390f35b506004548110610cd6565b608036600319011261018257602480358015159160043590838303610182576044359367ffffffffffffffff9060643582811161018257610dba9036906004016112e0565b928415158061121b575b610dcd906114b4565b845f526020965f885260ff600760405f20015416156111d757855f525f8852600860405f20015442101561119357855f525f8852600460405f200154811061114f5780341061110b57855f525f885260405f2096806110fe575b6110d2575b60019384895260405f20926040519460a08601868110848211176110bf576040523386528a86019384526040860190815260608601938885526080870195428752805490680100000000000000008210156110ac5790610e90918a8201815561144e565b97909761109a57906001600160a01b03610ee09392511673ffffffffffffffffffffffffffffffffffffffff198954161788555188880155511515600287019060ff801983541691151516179055565b6003850192519081519283116110875750610efb8354611374565b601f8111611041575b508990601f8311600114610fb75792826004937f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9a9b9693600b98965f92610fac575b50505f19600383901b1c191690881b1790555b5191015501610f6981546114a6565b9055335f526003855260405f20845f52855260405f209060ff19825416179055610f9e60405191604083526040830190611336565b9342908201528033940390a3005b015190508d80610f47565b90601f19831691845f528b5f20925f5b8d82821061102d575050937f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9a9b9693600b9896938a938360049810611015575b505050811b019055610f5a565b01515f1960f88460031b161c191690558d8080611008565b838501518655948a01949384019301610fc7565b835f528a5f20601f840160051c8101918c851061107d575b601f0160051c019087905b828110611072575050610f04565b5f8155018790611064565b9091508190611059565b634e487b7160e01b5f9081526041600452fd5b83634e487b7160e01b5f525f6004525ffd5b84634e487b7160e01b5f5260416004525ffd5b82634e487b7160e01b5f5260416004525ffd5b806009880155600a87013373ffffffffffffffffffffffffffffffffffffffff19825416179055610e2c565b5060098701548111610e27565b60405162461bcd60e51b8152600481018990526014818401527f496e73756666696369656e74207061796d656e740000000000000000000000006044820152606490fd5b60405162461bcd60e51b815260048101899052600b818401527f42696420746f6f206c6f770000000000000000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b8152600481018990526011818401527f41756374696f6e2068617320656e6465640000000000000000000000000000006044820152606490fd5b60405162461bcd60e51b8152600481018990526015818401527f41756374696f6e206973206e6f742061637469766500000000000000000000006044820152606490fd5b506004548510610dc4565b34610182575f366003190112610182576020600554604051908152f35b34610182575f366003190112610182575f6001906001600454905b818110611278576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff60078201541690816112b0575b506112a0575b0161125e565b926112aa906114a6565b9261129a565b600891500154421086611294565b90601f8019910116810190811067ffffffffffffffff82111761079357604052565b81601f820112156101825780359067ffffffffffffffff82116107935760405192611315601f8401601f1916602001856112be565b8284526020838301011161018257815f926020809301838601378301015290565b91908251928382525f5b848110611360575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201611340565b90600182811c921680156113a2575b602083101461138e57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611383565b9060405191825f82546113be81611374565b908184526020946001916001811690815f1461142c57506001146113ee575b5050506113ec925003836112be565b565b5f90815285812095935091905b8183106114145750506113ec93508201015f80806113dd565b855488840185015294850194879450918301916113fb565b925050506113ec94925060ff191682840152151560051b8201015f80806113dd565b8054821015611467575f52600560205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361018257565b8054821015611467575f5260205f2001905f90565b5f1981146109fa5760010190565b156114bb57565b60405162461bcd60e51b815260206004820152601260248201527f496e76616c69642061756374696f6e20494400000000000000000000000000006044820152606490fdfea164736f6c6343000818000a";
+  "0x6080806040523461001f5760016004555f60055561148b90816100248239f35b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c8063045af334146111ce57806316002f4a146111b15780633f40efdc14610d5157806346c3fb7314610c96578063571a26a014610ba35780635f93de4914610b10578063744d341114610ac757806375b6a06e146104105780637765c52c1461038c5780637ca7cc57146102fa578063981b3ae714610343578063a65ed0d6146102fa578063b4fbe80a146102a3578063b9a2de3a146101f4578063c750cb79146101a3578063fc528482146101865763ff3ad0b4146100d4575f80fd5b3461018257602080600319360112610182576001600160a01b036100f6611404565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b8682821061016e57868661012f82880383611249565b60405192839281840190828552518091526040840192915f5b82811061015757505050500390f35b835185528695509381019392810192600101610148565b835485529093019260019283019201610119565b5f80fd5b34610182575f366003190112610182576020600454604051908152f35b3461018257602036600319011261018257600435801515806101e9575b6101c99061143d565b5f525f602052602060018060a01b03600a60405f20015416604051908152f35b5060045481106101c0565b346101825760203660031901126101825760043580151580610298575b61021a9061143d565b5f818152602081905260409020600501546001600160a01b03163303610253575f525f602052600760405f200160ff1981541690555f80f35b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e20656e642061756374696f6e000000006044820152606490fd5b506004548110610211565b34610182576040366003190112610182576102bc611404565b6001600160a01b03165f90815260026020526040902080546024359190821015610182576020916102ec9161141a565b90546040519160031b1c8152f35b34610182576040366003190112610182576001600160a01b0361031b611404565b165f52600360205260405f206024355f52602052602060ff60405f2054166040519015158152f35b346101825760203660031901126101825760043580151580610381575b6103699061143d565b5f525f6020526020600960405f200154604051908152f35b506004548110610360565b346101825760203660031901126101825760043580151580610405575b6103b29061143d565b5f525f602052608060405f2060068101549060ff60078201541690816103f7575b600b6008820154910154916040519384521515602084015260408301526060820152f35b6008810154421091506103d3565b5060045481106103a9565b34610182576080366003190112610182576004356001600160401b0381116101825761044090369060040161126a565b6024356001600160401b0381116101825761045f90369060040161126a565b6044356001600160401b0381116101825761047e90369060040161126a565b825115610a8a57815115610a4557606435156109f5576004549162093a80420142116109e15760405161018081018181106001600160401b0382111761077a576040528381526020810191858352604082015282606082015260643560808201523360a08201524260c0820152600160e082015262093a8042016101008201525f6101208201525f6101408201525f610160820152835f525f60205260405f209181518355518051906001600160401b03821161077a57819061054460018601546112fd565b601f8111610991575b50602090601f8311600114610923575f92610918575b50508160011b915f199060031b1c19161760018301555b60408101518051906001600160401b03821161077a57819061059f60028601546112fd565b601f81116108c8575b50602090601f831160011461085a575f9261084f575b50508160011b915f199060031b1c19161760028301555b60608101518051906001600160401b03821161077a576105f860038501546112fd565b601f811161080b575b50602090601f8311600114610799579180600b9492610160945f9261078e575b50508160011b915f199060031b1c19161760038501555b6080810151600485015560a08101516005850180546001600160a01b039283166001600160a01b03199182161790915560c0830151600687015560e083015160078701805460ff191691151560ff1691909117905561010083015160088701556101208301516009870155600a86019161014084015116908254161790550151910155335f52600260205260405f2090815490600160401b82101561077a5761070b827f7ee613409a3818be8eb068049ae12d5fa12b0bb8b240a3f0488a0d2509c9fc7d94600161075e9501815561141a565b81549060031b9086821b915f19901b191617905561072a60055461142f565b60055561073860045461142f565b600455610750604051956080875260808701906112bf565b9085820360208701526112bf565b92606435604082015262093a80420160608201528033940390a3005b634e487b7160e01b5f52604160045260245ffd5b015190508980610621565b90600385015f5260205f20915f5b601f19851681106107f3575092600b94926001926101609583601f198116106107db575b505050811b016003850155610638565b01515f1960f88460031b161c191690558980806107cb565b919260206001819286850151815501940192016107a7565b600385015f5260205f20601f840160051c810160208510610848575b601f830160051c8201811061083d575050610601565b5f8155600101610827565b5080610827565b0151905087806105be565b9250600285015f5260205f20905f935b601f19841685106108ad576001945083601f19811610610895575b505050811b0160028301556105d5565b01515f1960f88460031b161c19169055878080610885565b8181015183556020948501946001909301929091019061086a565b909150600285015f5260205f20601f840160051c810160208510610911575b90849392915b601f830160051c820181106109035750506105a8565b5f81558594506001016108ed565b50806108e7565b015190508780610563565b9250600185015f5260205f20905f935b601f1984168510610976576001945083601f1981161061095e575b505050811b01600183015561057a565b01515f1960f88460031b161c1916905587808061094e565b81810151835560209485019460019093019290910190610933565b909150600185015f5260205f20601f840160051c8101602085106109da575b90849392915b601f830160051c820181106109cc57505061054d565b5f81558594506001016109b6565b50806109b0565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152602260248201527f4d696e696d756d20626964206d7573742062652067726561746572207468616e604482015261020360f41b6064820152608490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4465736372697074696f6e2063616e6e6f7420626520656d70747900000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152745469746c652063616e6e6f7420626520656d70747960581b6044820152606490fd5b346101825760203660031901126101825760043580151580610b05575b610aed9061143d565b5f525f6020526020600b60405f200154604051908152f35b506004548110610ae4565b34610182576040366003190112610182576024356004355f52600160205260405f2090815481101561018257610b45916113d7565b5060018060a01b03815416600182015491610b9960ff600283015416916004610b7060038301611335565b91015492604051958695865260208601521515604085015260a0606085015260a08401906112bf565b9060808301520390f35b34610182576020366003190112610182576004355f525f60205260405f208054610bcf60018301611335565b91610bdc60028201611335565b610be860038301611335565b9160048101549260018060a01b039081600584015416600684015460ff60078601541691610c63600887015494610c55600b60098a015498600a8b01541699015499610c476040519e8f9e8f61018091815281602082015201906112bf565b8d810360408f0152906112bf565b908b820360608d01526112bf565b9760808a015260a089015260c0880152151560e08701526101008601526101208501526101408401526101608301520390f35b346101825760203660031901126101825760043580151580610d46575b610cbc9061143d565b5f525f602052610d1b60405f20600481015460018060a01b03600583015416610d37610cea60018501611335565b93610d29610d066003610cff60028501611335565b9301611335565b9160405197889760a0895260a08901906112bf565b9087820360208901526112bf565b9085820360408701526112bf565b91606084015260808301520390f35b506004548110610cb3565b60803660031901126101825760248035801515916004359083830361018257604435936001600160401b039060643582811161018257610d9590369060040161126a565b92841515806111a6575b610da89061143d565b845f526020965f885260ff600760405f200154161561116a57855f525f8852600860405f20015442101561113257855f525f8852600460405f2001548110611100578034106110c557855f525f885260405f2096806110b8575b611098575b60019384895260405f20926040519460a0860186811084821117611085576040523386528a86019384526040860190815260608601938885526080870195428752805490600160401b8210156110725790610e66918a820181556113d7565b979097611060575187546001600160a01b039091166001600160a01b031990911617875551878701555160028601805460ff191691151560ff1691909117905560038501925190815192831161104d5750610ec183546112fd565b601f8111611007575b508990601f8311600114610f7d5792826004937f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9a9b9693600b98965f92610f72575b50505f19600383901b1c191690881b1790555b5191015501610f2f815461142f565b9055335f526003855260405f20845f52855260405f209060ff19825416179055610f64604051916040835260408301906112bf565b9342908201528033940390a3005b015190508d80610f0d565b90601f19831691845f528b5f20925f5b8d828210610ff3575050937f6b2bb881d5dc46b346ff12ca5b8dc9e337a56cf5d6137d55d8317ef2060f9cbc9a9b9693600b9896938a938360049810610fdb575b505050811b019055610f20565b01515f1960f88460031b161c191690558d8080610fce565b838501518655948a01949384019301610f8d565b835f528a5f20601f840160051c8101918c8510611043575b601f0160051c019087905b828110611038575050610eca565b5f815501879061102a565b909150819061101f565b634e487b7160e01b5f9081526041600452fd5b83634e487b7160e01b5f525f6004525ffd5b84634e487b7160e01b5f5260416004525ffd5b82634e487b7160e01b5f5260416004525ffd5b60098701819055600a870180546001600160a01b03191633179055610e07565b5060098701548111610e02565b60405162461bcd60e51b81526004810189905260148184015273125b9cdd59999a58da595b9d081c185e5b595b9d60621b6044820152606490fd5b60405162461bcd60e51b815260048101899052600b818401526a42696420746f6f206c6f7760a81b6044820152606490fd5b60405162461bcd60e51b81526004810189905260118184015270105d58dd1a5bdb881a185cc8195b991959607a1b6044820152606490fd5b60405162461bcd60e51b8152600481018990526015818401527441756374696f6e206973206e6f742061637469766560581b6044820152606490fd5b506004548510610d9f565b34610182575f366003190112610182576020600554604051908152f35b34610182575f366003190112610182575f6001906001600454905b818110611203576040836005549082519182526020820152f35b8084915f525f60205260405f2060ff600782015416908161123b575b5061122b575b016111e9565b926112359061142f565b92611225565b60089150015442108661121f565b90601f801991011681019081106001600160401b0382111761077a57604052565b81601f82011215610182578035906001600160401b03821161077a576040519261129e601f8401601f191660200185611249565b8284526020838301011161018257815f926020809301838601378301015290565b91908251928382525f5b8481106112e9575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016112c9565b90600182811c9216801561132b575b602083101461131757565b634e487b7160e01b5f52602260045260245ffd5b91607f169161130c565b9060405191825f8254611347816112fd565b908184526020946001916001811690815f146113b55750600114611377575b50505061137592500383611249565b565b5f90815285812095935091905b81831061139d57505061137593508201015f8080611366565b85548884018501529485019487945091830191611384565b9250505061137594925060ff191682840152151560051b8201015f8080611366565b80548210156113f0575f52600560205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b600435906001600160a01b038216820361018257565b80548210156113f0575f5260205f2001905f90565b5f1981146109e15760010190565b1561144457565b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908185d58dd1a5bdb88125160721b6044820152606490fdfea164736f6c6343000818000a";
 
 type SimpleAuctionConstructorParams =
   | [signer?: Signer]
@@ -1,10 +1,17 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export { AuctionFactory__factory } from "./AuctionFactory__factory";
+export { AuctionGovernance__factory } from "./AuctionGovernance__factory";
+export { AuctionInstance__factory } from "./AuctionInstance__factory";
+export { CategoryRegistry__factory } from "./CategoryRegistry__factory";
 export { ConfidentialAuction__factory } from "./ConfidentialAuction__factory";
 export { ConfidentialAuctionCompatible__factory } from "./ConfidentialAuctionCompatible__factory";
 export { ConfidentialAuctionFHE__factory } from "./ConfidentialAuctionFHE__factory";
 export { ConfidentialAuctionMinimal__factory } from "./ConfidentialAuctionMinimal__factory";
 export { ConfidentialAuctionReal__factory } from "./ConfidentialAuctionReal__factory";
 export { ConfidentialAuctionSimple__factory } from "./ConfidentialAuctionSimple__factory";
+export { ConfidentialERC20__factory } from "./ConfidentialERC20__factory";
+export { ConfidentialMultiUnitAuction__factory } from "./ConfidentialMultiUnitAuction__factory";
+export { ConfidentialTokenAuction__factory } from "./ConfidentialTokenAuction__factory";
 export { SimpleAuction__factory } from "./SimpleAuction__factory";
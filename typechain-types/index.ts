@@ -3,6 +3,8 @@
 /* eslint-disable */
 import type * as fhevm from "./@fhevm";
 export type { fhevm };
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
@@ -22,6 +24,32 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { AccessControl } from "./@openzeppelin/contracts/access/AccessControl";
+export { AccessControl__factory } from "./factories/@openzeppelin/contracts/access/AccessControl__factory";
+export type { IAccessControl } from "./@openzeppelin/contracts/access/IAccessControl";
+export { IAccessControl__factory } from "./factories/@openzeppelin/contracts/access/IAccessControl__factory";
+export type { Clones } from "./@openzeppelin/contracts/proxy/Clones";
+export { Clones__factory } from "./factories/@openzeppelin/contracts/proxy/Clones__factory";
+export type { Initializable } from "./@openzeppelin/contracts/proxy/utils/Initializable";
+export { Initializable__factory } from "./factories/@openzeppelin/contracts/proxy/utils/Initializable__factory";
+export type { Create2 } from "./@openzeppelin/contracts/utils/Create2";
+export { Create2__factory } from "./factories/@openzeppelin/contracts/utils/Create2__factory";
+export type { Errors } from "./@openzeppelin/contracts/utils/Errors";
+export { Errors__factory } from "./factories/@openzeppelin/contracts/utils/Errors__factory";
+export type { ERC165 } from "./@openzeppelin/contracts/utils/introspection/ERC165";
+export { ERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/ERC165__factory";
+export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
+export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
+export type { Pausable } from "./@openzeppelin/contracts/utils/Pausable";
+export { Pausable__factory } from "./factories/@openzeppelin/contracts/utils/Pausable__factory";
+export type { AuctionFactory } from "./contracts/AuctionFactory";
+export { AuctionFactory__factory } from "./factories/contracts/AuctionFactory__factory";
+export type { AuctionGovernance } from "./contracts/AuctionGovernance";
+export { AuctionGovernance__factory } from "./factories/contracts/AuctionGovernance__factory";
+export type { AuctionInstance } from "./contracts/AuctionInstance";
+export { AuctionInstance__factory } from "./factories/contracts/AuctionInstance__factory";
+export type { CategoryRegistry } from "./contracts/CategoryRegistry";
+export { CategoryRegistry__factory } from "./factories/contracts/CategoryRegistry__factory";
 export type { ConfidentialAuction } from "./contracts/ConfidentialAuction";
 export { ConfidentialAuction__factory } from "./factories/contracts/ConfidentialAuction__factory";
 export type { ConfidentialAuctionCompatible } from "./contracts/ConfidentialAuctionCompatible";
@@ -34,5 +62,11 @@ export type { ConfidentialAuctionReal } from "./contracts/ConfidentialAuctionRea
 export { ConfidentialAuctionReal__factory } from "./factories/contracts/ConfidentialAuctionReal__factory";
 export type { ConfidentialAuctionSimple } from "./contracts/ConfidentialAuctionSimple";
 export { ConfidentialAuctionSimple__factory } from "./factories/contracts/ConfidentialAuctionSimple__factory";
+export type { ConfidentialERC20 } from "./contracts/ConfidentialERC20";
+export { ConfidentialERC20__factory } from "./factories/contracts/ConfidentialERC20__factory";
+export type { ConfidentialMultiUnitAuction } from "./contracts/ConfidentialMultiUnitAuction";
+export { ConfidentialMultiUnitAuction__factory } from "./factories/contracts/ConfidentialMultiUnitAuction__factory";
+export type { ConfidentialTokenAuction } from "./contracts/ConfidentialTokenAuction";
+export { ConfidentialTokenAuction__factory } from "./factories/contracts/ConfidentialTokenAuction__factory";
 export type { SimpleAuction } from "./contracts/SimpleAuction";
 export { SimpleAuction__factory } from "./factories/contracts/SimpleAuction__factory";